@@ -0,0 +1,75 @@
+/**
+ * 나라장터 (data.go.kr BidPublicInfoService / ScsbidInfoService) proxy for the browser.
+ *
+ * Keeps the data.go.kr service key server-side. The upstream calls and the
+ * normalization live in server/_shared/g2b.ts, shared with the procurement
+ * tracking job; G2B_API_BASE overrides the upstream origin (fixture server in tests).
+ */
+
+// @ts-expect-error — JS module, no declaration file
+import { getCorsHeaders, isDisallowedOrigin } from '../_cors.js';
+import { isG2bConfigured, lookupNaraAwards, searchNaraBids } from '../../server/_shared/g2b';
+
+const MAX_DAYS = 90;
+const MAX_AWARD_LOOKUPS = 20;
+
+export default async function handler(req: Request): Promise<Response> {
+  const cors: Record<string, string> = getCorsHeaders(req);
+  if (isDisallowedOrigin(req)) {
+    return new Response(JSON.stringify({ error: 'Origin not allowed' }), { status: 403, headers: cors });
+  }
+
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: cors });
+  }
+  if (req.method !== 'GET') {
+    return Response.json({ error: 'Method not allowed' }, { status: 405, headers: cors });
+  }
+
+  const url = new URL(req.url);
+  const path = url.pathname.replace('/api/g2b', '');
+
+  if (!isG2bConfigured()) {
+    return Response.json({
+      configured: false,
+      skipped: true,
+      reason: 'G2B_API_KEY not configured',
+    }, { status: 200, headers: cors });
+  }
+
+  if (path === '/health' || path === '') {
+    return Response.json({ configured: true }, { headers: cors });
+  }
+
+  // 입찰공고 목록 — ?days=30 (최대 90일)
+  if (path === '/bids') {
+    const days = Math.min(MAX_DAYS, Math.max(1, parseInt(url.searchParams.get('days') || '30', 10) || 30));
+    try {
+      const bids = await searchNaraBids(days);
+      return Response.json({ configured: true, bids, fetchedAt: new Date().toISOString() }, {
+        headers: { ...cors, 'Cache-Control': 'public, max-age=900, s-maxage=900, stale-while-revalidate=300' },
+      });
+    } catch (error) {
+      console.error('[G2B] Bid search failed:', error);
+      return Response.json({ error: 'Failed to fetch 나라장터 bids' }, { status: 502, headers: cors });
+    }
+  }
+
+  // 낙찰 결과 — ?bidNtceNo=A,B,C (최대 20건)
+  if (path === '/awards') {
+    const bidNos = (url.searchParams.get('bidNtceNo') || '')
+      .split(',')
+      .map((no) => no.trim())
+      .filter((no) => /^[A-Za-z0-9-]{4,40}$/.test(no))
+      .slice(0, MAX_AWARD_LOOKUPS);
+    if (bidNos.length === 0) {
+      return Response.json({ error: 'bidNtceNo is required' }, { status: 400, headers: cors });
+    }
+    const awards = await lookupNaraAwards(bidNos);
+    return Response.json({ configured: true, awards }, {
+      headers: { ...cors, 'Cache-Control': 'public, max-age=3600, s-maxage=3600' },
+    });
+  }
+
+  return Response.json({ error: 'Not found' }, { status: 404, headers: cors });
+}
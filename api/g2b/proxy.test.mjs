@@ -0,0 +1,116 @@
+import { strict as assert } from 'node:assert';
+import { after, before, test } from 'node:test';
+import { createG2bFixtureServer, FIXTURE_SERVICE_KEY } from '../../scripts/g2b-fixture-server.mjs';
+import { createModuleDir } from '../../tests/_helpers.mjs';
+
+const modules = createModuleDir('wm-g2b-proxy-');
+const { default: handler } = await modules.import('api/g2b/[[...path]].ts', {
+  '../_cors.js': 'api/_cors.js',
+  '../../server/_shared/g2b': 'server/_shared/g2b.ts',
+});
+
+let fixture;
+const savedEnv = {};
+
+function setEnv(key, value) {
+  if (!(key in savedEnv)) savedEnv[key] = process.env[key];
+  if (value === undefined) delete process.env[key];
+  else process.env[key] = value;
+}
+
+function makeRequest(path, init) {
+  return new Request(`https://worldmonitor.app/api/g2b${path}`, init);
+}
+
+before(async () => {
+  fixture = await createG2bFixtureServer();
+  setEnv('G2B_API_BASE', fixture.origin);
+  setEnv('G2B_API_KEY', FIXTURE_SERVICE_KEY);
+});
+
+after(async () => {
+  for (const [key, value] of Object.entries(savedEnv)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+  await fixture.close();
+});
+
+test('reports unconfigured without a service key', async () => {
+  setEnv('G2B_API_KEY', undefined);
+  try {
+    const response = await handler(makeRequest('/bids'));
+    assert.equal(response.status, 200);
+    const body = await response.json();
+    assert.equal(body.configured, false);
+    assert.equal(fixture.requests.length, 0);
+  } finally {
+    setEnv('G2B_API_KEY', FIXTURE_SERVICE_KEY);
+  }
+});
+
+test('rejects non-GET methods', async () => {
+  const response = await handler(makeRequest('/bids', { method: 'POST' }));
+  assert.equal(response.status, 405);
+});
+
+test('normalizes bids from both service and goods searches', async () => {
+  const response = await handler(makeRequest('/bids?days=30'));
+  assert.equal(response.status, 200);
+  const { configured, bids } = await response.json();
+  assert.equal(configured, true);
+
+  const byNo = Object.fromEntries(bids.map((b) => [b.bidNtceNo, b]));
+  assert.deepEqual(Object.keys(byNo).sort(), ['R26BK00000101', 'R26BK00000102', 'R26BK00000103']);
+
+  const care = byNo.R26BK00000101;
+  assert.equal(care.kind, 'service');
+  assert.equal(care.agency, '보건복지부');
+  assert.equal(care.estimatedPrice, 320000000);
+  // KST 2026-11-20 10:00 → UTC 01:00
+  assert.equal(care.deadline, '2026-11-20T01:00:00.000Z');
+  assert.equal(care.url, 'https://www.g2b.go.kr/link/R26BK00000101');
+
+  // 재공고는 최신 차수만, 추정가격이 비면 배정예산으로 대체
+  assert.equal(byNo.R26BK00000102.bidNtceOrd, '01');
+  assert.equal(byNo.R26BK00000102.estimatedPrice, 150000000);
+  assert.match(byNo.R26BK00000102.url, /bidNtceNo=R26BK00000102/);
+
+  assert.equal(byNo.R26BK00000103.kind, 'goods');
+  assert.equal(byNo.R26BK00000103.cancelled, true);
+
+  // The key goes upstream, never back to the client
+  const bidCalls = fixture.requests.filter((r) => r.service === 'BidPublicInfoService04');
+  assert.ok(bidCalls.length > 0);
+  assert.ok(bidCalls.every((r) => r.params.serviceKey === FIXTURE_SERVICE_KEY && r.params.inqryDiv === '1'));
+  assert.doesNotMatch(JSON.stringify(bids), new RegExp(FIXTURE_SERVICE_KEY));
+});
+
+test('returns award results for closed bids', async () => {
+  const response = await handler(makeRequest('/awards?bidNtceNo=R26BK00000102,R26BK00000101'));
+  assert.equal(response.status, 200);
+  const { awards } = await response.json();
+  assert.deepEqual(awards, [{
+    bidNtceNo: 'R26BK00000102',
+    bidNtceOrd: '01',
+    awardedTo: '(주)마음케어',
+    awardedPrice: 131250000,
+    awardRate: 87.5,
+    openedAt: '2026-09-15T02:05:00.000Z',
+  }]);
+});
+
+test('validates award lookups', async () => {
+  const response = await handler(makeRequest('/awards?bidNtceNo=../../etc'));
+  assert.equal(response.status, 400);
+});
+
+test('surfaces upstream key errors as a gateway failure', async () => {
+  setEnv('G2B_API_KEY', 'wrong-key');
+  try {
+    const response = await handler(makeRequest('/bids'));
+    assert.equal(response.status, 502);
+  } finally {
+    setEnv('G2B_API_KEY', FIXTURE_SERVICE_KEY);
+  }
+});
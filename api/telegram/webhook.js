@@ -7,8 +7,11 @@
  *   /news       — 트랙별 최신 뉴스 요약
  *   /news 정책  — 특정 트랙 뉴스 조회
  *   /competitor  — 경쟁사 뉴스 검색
- *   /alert on|off — 알림 켜기/끄기
- *   /threshold N — 알림 임계값 변경
+ *   /subscribe  — 채팅별 알림 구독 (트랙·알림·언어 토글 버튼)
+ *   /alert on|off — 이 채팅의 알림 켜기/끄기
+ *   /threshold N|기본 — 이 채팅의 알림 임계값 (기본 = Settings 공용값)
+ *   /quiet 23-7|off — 방해 금지 시간 (KST)
+ *   /lang ko|en — 봇 메시지 언어
  *   /brief      — Daily Brief 즉시 생성
  *   /procurement — 공공조달 공고 조회
  *   /report     — 주간 리포트
@@ -16,25 +19,31 @@
  *   /keyword add|remove|list — 키워드 관리
  *   /exclude    — 기사 제외 (Negative KB)
  *   /help       — 명령어 목록
+ *
+ * 채팅별 구독과 인라인 버튼 액션(제외·북마크·학습)은 care.v1 서버(Redis)에 저장되어
+ * 재배포·다중 인스턴스에서도 유지되고, 대시보드가 액션을 가져가 웹 UI 스토어에 반영합니다.
+ * 공용 키워드 프로필·제외 목록·대시보드 액션은 운영 채팅(ADMIN_CHAT_IDS)만 바꿀 수 있고,
+ * 다른 채팅은 조회와 자기 구독 설정만 가능합니다.
  */
 
-const BOT_TOKEN = process.env.VITE_TELEGRAM_BOT_TOKEN || '';
+const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || process.env.VITE_TELEGRAM_BOT_TOKEN || '';
 const WEBHOOK_SECRET = process.env.TELEGRAM_WEBHOOK_SECRET || '';
+// care.v1 쓰기 RPC(구독·액션·키워드)는 이 서버 시크릿이 있어야 통과 —
+// TELEGRAM_WEBHOOK_SECRET이 없으면 누구나 이 엔드포인트에 업데이트를 보낼 수 있으므로 careRpc가 전달하지 않음
+const CARE_SERVER_SECRET = process.env.CARE_SERVER_SECRET || '';
+// 공용 키워드 프로필·제외 목록을 바꾸고 대시보드 액션을 큐에 넣을 수 있는 채팅:
+// 스케줄러 운영 채팅(TELEGRAM_CHAT_ID)과 TELEGRAM_ADMIN_CHAT_IDS(쉼표 구분)
+const ADMIN_CHAT_IDS = new Set(
+  [process.env.TELEGRAM_CHAT_ID || process.env.VITE_TELEGRAM_CHAT_ID, ...(process.env.TELEGRAM_ADMIN_CHAT_IDS || '').split(',')]
+    .map((id) => (id || '').trim())
+    .filter(Boolean),
+);
 const TELEGRAM_API = `https://api.telegram.org/bot${BOT_TOKEN}`;
 
-// ─── Server-side settings (persisted in memory per process, reset on deploy) ───
-let settings = {
-  alertThreshold: 70,
-  telegramEnabled: true,
-  customKeywords: [],
-};
-
-// ─── Server-side exclusion list (parallel to client-side exclusionStore) ──────
-let serverExclusions = [];
-
-// ─── In-memory score cache (updated by /score command fetching) ───
-let cachedScore = null;
-let cachedScoreTime = 0;
+// ─── CareRadar API origin (care.v1 shares one scored snapshot) ─────────────────
+// Resolved once from the environment: a module-level value rewritten per request
+// would race between concurrent webhook calls on the same instance.
+const CARE_API_ORIGIN = (process.env.CARE_API_ORIGIN || '').replace(/\/+$/, '');
 
 // ─── Helpers ───────────────────────────────────────────────────────────────────
 
@@ -43,6 +52,10 @@ function escapeHtml(s) {
   return String(s).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
 
+function isAdminChat(chatId) {
+  return ADMIN_CHAT_IDS.has(String(chatId));
+}
+
 function truncate(s, len = 60) {
   if (!s) return '';
   return s.length <= len ? s : s.slice(0, len - 1) + '…';
@@ -66,34 +79,28 @@ async function sendTelegram(chatId, text, opts = {}) {
   }
 }
 
-// ─── RSS Fetch (server-side, reuses the proxy) ─────────────────────────────────
+async function callTelegram(method, body) {
+  try {
+    await fetch(`${TELEGRAM_API}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (e) {
+    console.error(`[Webhook] ${method} error:`, e);
+  }
+}
+
+function answerCallback(callbackQueryId, text) {
+  return callTelegram('answerCallbackQuery', { callback_query_id: callbackQueryId, ...(text ? { text } : {}) });
+}
+
+// ─── RSS Fetch for ad-hoc /competitor search (reuses the proxy) ───────────────
 
 const RSS_PROXY_BASE = process.env.VITE_WS_RELAY_URL
   ? process.env.VITE_WS_RELAY_URL.replace('wss://', 'https://').replace('ws://', 'http://').replace(/\/$/, '')
   : '';
 
-const TRACK_FEEDS = {
-  policy: [
-    { name: '고용노동부', url: 'https://www.moel.go.kr/rss/news.do' },
-    { name: 'Google 정책', url: 'https://news.google.com/rss/search?q=AI+돌봄+조달+예산&hl=ko&gl=KR&ceid=KR:ko' },
-    { name: 'Google 장애인', url: 'https://news.google.com/rss/search?q=장애인+복지+디지털&hl=ko&gl=KR&ceid=KR:ko' },
-  ],
-  investment: [
-    { name: 'Google 투자', url: 'https://news.google.com/rss/search?q=케어테크+투자+유치+시리즈&hl=ko&gl=KR&ceid=KR:ko' },
-    { name: 'Google 헬스케어', url: 'https://news.google.com/rss/search?q=디지털+헬스케어+펀딩&hl=ko&gl=KR&ceid=KR:ko' },
-  ],
-  competitor: [
-    { name: 'Google 네오펙트', url: 'https://news.google.com/rss/search?q=네오펙트+OR+플라이투+OR+루닛+OR+뷰노&hl=ko&gl=KR&ceid=KR:ko' },
-    { name: 'Ginger/Headspace', url: 'https://news.google.com/rss/search?q="Headspace+Health"+OR+Ginger+AI+mental+when:14d&hl=en-US&gl=US&ceid=US:en' },
-    { name: '마인드AI', url: 'https://news.google.com/rss/search?q=마인드AI+OR+트로스트+OR+마보+정신건강+when:14d&hl=ko&gl=KR&ceid=KR:ko' },
-  ],
-  caretech: [
-    { name: 'Google 케어테크', url: 'https://news.google.com/rss/search?q=돌봄+AI+로봇+행동분석&hl=ko&gl=KR&ceid=KR:ko' },
-    { name: 'Mental Health AI', url: 'https://news.google.com/rss/search?q=AI+mental+health+therapy+chatbot+when:7d&hl=en-US&gl=US&ceid=US:en' },
-    { name: '멘탈케어 AI', url: 'https://news.google.com/rss/search?q=멘탈케어+OR+정신건강+AI+OR+마음돌봄+OR+심리상담+AI+when:7d&hl=ko&gl=KR&ceid=KR:ko' },
-  ],
-};
-
 const TRACK_LABELS = {
   policy: '정책/예산',
   investment: '자금유입',
@@ -141,6 +148,153 @@ const TRACK_ALIAS = {
   '케어': 'caretech', '케어테크': 'caretech', 'caretech': 'caretech', 'care': 'caretech',
 };
 
+// ─── Per-chat messages (subscription language) ─────────────────────────────────
+
+const T = {
+  ko: {
+    trackLabels: TRACK_LABELS,
+    actionLabels: { exclude: '🚫 제외', bookmark: '🔖 북마크', study: '📚 학습' },
+    actionDone: {
+      exclude: '🚫 제외 목록에 추가했습니다',
+      bookmark: '🔖 북마크했습니다',
+      study: '📚 학습 세션을 준비했습니다',
+    },
+    actionFailed: '⚠️ 기사를 찾을 수 없습니다 (뉴스가 갱신됨)',
+    studyLink: (url) => `📚 대시보드를 열면 이 기사로 학습 세션이 시작됩니다.\n${url}`,
+    adminOnly: '🔒 공용 키워드·제외 목록·대시보드 액션은 운영 채팅에서만 바꿀 수 있습니다.',
+    on: '✅ ON',
+    off: '❌ OFF',
+    none: '없음',
+    subscriptionTitle: '⚙️ <b>알림 구독 설정</b>',
+    tracksLabel: '트랙',
+    thresholdLabel: '임계값',
+    sharedSuffix: '(Settings 공용값)',
+    quietLabel: '방해 금지',
+    alertsLabel: '알림',
+    languageLabel: '언어',
+    languageName: '한국어',
+    subscriptionHint: '버튼으로 트랙·알림·언어를 바꿀 수 있습니다.\n임계값: /threshold · 방해 금지: /quiet',
+    alertStatus: (on) => `📢 현재 알림 상태: ${on ? '✅ ON' : '❌ OFF'}\n\n사용법: /alert on 또는 /alert off`,
+    alertChanged: (on) => `📢 이 채팅의 알림이 ${on ? '✅ 켜짐' : '❌ 꺼짐'}으로 변경되었습니다.`,
+    thresholdStatus: (value) => `⚙️ 이 채팅의 알림 임계값: <b>${value}</b>\n\n사용법: /threshold 30~95\n예: /threshold 80\n공용값으로 되돌리기: /threshold 기본`,
+    thresholdChanged: (n) => `⚙️ 이 채팅의 알림 임계값이 <b>${n}</b>으로 변경되었습니다.`,
+    thresholdReset: (shared) => `⚙️ 이 채팅은 Settings 공용 임계값(<b>${shared}</b>)을 따릅니다.`,
+    quietStatus: (range) => `🌙 방해 금지: ${range}\n\n사용법: /quiet 23-7 (KST) 또는 /quiet off`,
+    quietChanged: (range) => `🌙 방해 금지 시간: <b>${range}</b>\n이 시간에는 Opportunity 알림을 보내지 않습니다.`,
+    quietOff: '🌙 방해 금지가 해제되었습니다.',
+    langChanged: '🌐 봇 메시지 언어: 한국어',
+    langUsage: '🌐 사용법: /lang ko 또는 /lang en',
+    noTracks: '📰 구독 중인 트랙이 없습니다. /subscribe 에서 트랙을 선택하세요.',
+    newsActionsHint: '버튼: 🚫 제외 · 🔖 북마크 · 📚 학습 세션',
+    help: `🤖 <b>우하나봇 명령어</b>
+
+📊 <b>조회</b>
+/score — Opportunity Score 조회
+/news — 구독 트랙 뉴스 요약
+/news 정책 — 특정 트랙 뉴스 (정책/투자/경쟁사/케어) + 액션 버튼
+/competitor 키워드 — 경쟁사 뉴스 검색
+/procurement — 공공조달 공고 조회
+/status — 시스템 상태 확인
+
+📋 <b>리포트</b>
+/brief — Daily Brief 생성
+/report — 주간 리포트 요약
+
+🔔 <b>이 채팅의 알림 구독</b>
+/subscribe — 트랙·알림·언어 설정 (버튼)
+/alert on|off — 알림 켜기/끄기
+/threshold 숫자 — 알림 임계값 (30-95, 기본 = 공용값)
+/quiet 23-7 — 방해 금지 시간 (KST, off로 해제)
+/lang ko|en — 메시지 언어
+
+⚙️ <b>키워드 (대시보드와 공유, 변경은 운영 채팅만)</b>
+/keyword add 키워드 — 키워드 추가
+/keyword remove 키워드 — 키워드 제거
+/keyword list — 키워드 목록
+
+🚫 <b>제외(Negative KB, 등록은 운영 채팅만)</b>
+/exclude 기사제목 — 기사 제외 등록
+/exclude — 제외 목록 조회
+
+알림의 버튼으로 제외·북마크·학습 세션 시작이 대시보드에 반영됩니다.
+/help — 이 도움말`,
+  },
+  en: {
+    trackLabels: { policy: 'Policy', investment: 'Funding', competitor: 'Competitors', caretech: 'Care tech' },
+    actionLabels: { exclude: '🚫 Exclude', bookmark: '🔖 Bookmark', study: '📚 Study' },
+    actionDone: {
+      exclude: '🚫 Added to the exclusion list',
+      bookmark: '🔖 Bookmarked',
+      study: '📚 Study session prepared',
+    },
+    actionFailed: '⚠️ Article not found (news was refreshed)',
+    studyLink: (url) => `📚 Open the dashboard to start a study session on this article.\n${url}`,
+    adminOnly: '🔒 Shared keywords, exclusions and dashboard actions can only be changed from an admin chat.',
+    on: '✅ ON',
+    off: '❌ OFF',
+    none: 'none',
+    subscriptionTitle: '⚙️ <b>Alert subscription</b>',
+    tracksLabel: 'Tracks',
+    thresholdLabel: 'Threshold',
+    sharedSuffix: '(shared Settings value)',
+    quietLabel: 'Quiet hours',
+    alertsLabel: 'Alerts',
+    languageLabel: 'Language',
+    languageName: 'English',
+    subscriptionHint: 'Use the buttons to change tracks, alerts and language.\nThreshold: /threshold · Quiet hours: /quiet',
+    alertStatus: (on) => `📢 Alerts are ${on ? '✅ ON' : '❌ OFF'}\n\nUsage: /alert on or /alert off`,
+    alertChanged: (on) => `📢 Alerts for this chat are now ${on ? '✅ ON' : '❌ OFF'}.`,
+    thresholdStatus: (value) => `⚙️ Alert threshold for this chat: <b>${value}</b>\n\nUsage: /threshold 30-95\nExample: /threshold 80\nBack to the shared value: /threshold default`,
+    thresholdChanged: (n) => `⚙️ Alert threshold for this chat set to <b>${n}</b>.`,
+    thresholdReset: (shared) => `⚙️ This chat now follows the shared Settings threshold (<b>${shared}</b>).`,
+    quietStatus: (range) => `🌙 Quiet hours: ${range}\n\nUsage: /quiet 23-7 (KST) or /quiet off`,
+    quietChanged: (range) => `🌙 Quiet hours: <b>${range}</b>\nNo opportunity alerts are sent during this time.`,
+    quietOff: '🌙 Quiet hours turned off.',
+    langChanged: '🌐 Bot language: English',
+    langUsage: '🌐 Usage: /lang ko or /lang en',
+    noTracks: '📰 No tracks subscribed. Pick tracks with /subscribe.',
+    newsActionsHint: 'Buttons: 🚫 exclude · 🔖 bookmark · 📚 study session',
+    help: `🤖 <b>WoohanaBot commands</b>
+
+📊 <b>Lookups</b>
+/score — Opportunity Score
+/news — News in your subscribed tracks
+/news policy — One track (policy/investment/competitor/care) with action buttons
+/competitor keyword — Search competitor news
+/procurement — Public procurement notices
+/status — System status
+
+📋 <b>Reports</b>
+/brief — Generate the Daily Brief
+/report — Weekly report summary
+
+🔔 <b>Alerts for this chat</b>
+/subscribe — Tracks, alerts and language (buttons)
+/alert on|off — Turn alerts on or off
+/threshold N — Alert threshold (30-95, default = shared value)
+/quiet 23-7 — Quiet hours (KST, off to disable)
+/lang ko|en — Message language
+
+⚙️ <b>Keywords (shared with the dashboard, admin chats edit)</b>
+/keyword add word — Add a keyword
+/keyword remove word — Remove a keyword
+/keyword list — List keywords
+
+🚫 <b>Exclusions (Negative KB, admin chats add)</b>
+/exclude title — Exclude an article
+/exclude — List exclusions
+
+Exclude, bookmark and study buttons on alerts are applied to the dashboard.
+/help — This help`,
+  },
+};
+
+function formatQuiet(sub) {
+  return sub.quietStartHour === sub.quietEndHour
+    ? T[sub.language].none
+    : `${sub.quietStartHour}:00–${sub.quietEndHour}:00 KST`;
+}
+
 async function fetchRssItems(feedUrl) {
   try {
     const proxyUrl = RSS_PROXY_BASE
@@ -169,94 +323,179 @@ async function fetchRssItems(feedUrl) {
   }
 }
 
+// ─── CareRadar service (care.v1) — same snapshot as the dashboard ─────────────
+
+async function careRpc(rpc, body = {}) {
+  if (!CARE_API_ORIGIN) throw new Error('CARE_API_ORIGIN is not configured');
+  const res = await fetch(`${CARE_API_ORIGIN}/api/care/v1/${rpc}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      // Unauthenticated updates must not reach the secret-gated RPCs on the bot's behalf
+      ...(WEBHOOK_SECRET ? { 'X-Care-Server-Secret': CARE_SERVER_SECRET } : {}),
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(30000),
+  });
+  if (!res.ok) throw new Error(`care/${rpc} failed: ${res.status}`);
+  return res.json();
+}
+
+function toNewsItem(article) {
+  return { title: article.title, link: article.link, sourceName: article.source, ref: article.ref || '' };
+}
+
 async function fetchTrackNews(track) {
-  const feeds = TRACK_FEEDS[track] || [];
-  const results = await Promise.allSettled(feeds.map((f) => fetchRssItems(f.url)));
-  const items = [];
-  for (let i = 0; i < results.length; i++) {
-    const r = results[i];
-    if (r.status === 'fulfilled') {
-      for (const item of r.value) {
-        item.sourceName = feeds[i].name;
-      }
-      items.push(...r.value);
-    }
+  const { articles = [] } = await careRpc('list-track-news', { track, limit: 10 });
+  return articles.map(toNewsItem);
+}
+
+async function fetchAllTrackNews(tracks = ALL_TRACKS) {
+  const { articles = [] } = await careRpc('list-track-news', { track: '', limit: 0 });
+  const results = Object.fromEntries(tracks.map((t) => [t, []]));
+  for (const article of articles) {
+    const bucket = results[article.track];
+    if (bucket && bucket.length < 10) bucket.push(toNewsItem(article));
   }
-  // Deduplicate by title
-  const seen = new Set();
-  return items.filter((i) => {
-    const key = i.title.slice(0, 30);
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  }).slice(0, 10);
-}
-
-async function fetchAllTrackNews() {
-  const tracks = ['policy', 'investment', 'competitor', 'caretech'];
-  const results = {};
-  const settled = await Promise.allSettled(tracks.map(async (t) => {
-    results[t] = await fetchTrackNews(t);
-  }));
   return results;
 }
 
-// Score calculation (simplified server-side version)
-function calculateScore(newsByTrack) {
-  const trackScore = (items) => {
-    if (!items || items.length === 0) return 0;
-    const countFactor = Math.min(1, items.length / 5);
-    return Math.round(50 * 0.6 + countFactor * 40);
+// Keyword profile shared with the Settings page (custom keywords, negatives, alert threshold)
+async function getKeywordProfile() {
+  const { profile } = await careRpc('get-keyword-profile');
+  return {
+    // Carries the active scoring profile through /keyword edits unchanged
+    ...profile,
+    keywords: profile?.keywords ?? [],
+    negativeKeywords: profile?.negativeKeywords ?? [],
+    alertThreshold: profile?.alertThreshold ?? 70,
+    updatedAt: profile?.updatedAt ?? 0,
   };
+}
+
+async function updateKeywordProfile(profile) {
+  const { profile: saved, error } = await careRpc('update-keyword-profile', { profile });
+  if (error || !saved) throw new Error(error || 'keyword profile not saved');
+  return saved;
+}
+
+// ─── Per-chat subscription (care.v1 get/update-telegram-subscription) ─────────
 
-  const s1 = trackScore(newsByTrack.policy);
-  const s2 = trackScore(newsByTrack.investment);
-  const s3 = trackScore(newsByTrack.competitor);
-  const total = Math.round(s1 * 0.4 + s2 * 0.3 + s3 * 0.3);
+const ALL_TRACKS = ['policy', 'investment', 'competitor', 'caretech'];
 
-  return { total, s1, s2, s3, shouldAlert: total >= settings.alertThreshold };
+function toSubscription(chatId, raw) {
+  return {
+    chatId: String(chatId),
+    tracks: raw?.tracks ?? [...ALL_TRACKS],
+    alertThreshold: raw?.alertThreshold ?? 0,
+    quietStartHour: raw?.quietStartHour ?? 0,
+    quietEndHour: raw?.quietEndHour ?? 0,
+    language: raw?.language === 'en' ? 'en' : 'ko',
+    alertsEnabled: raw?.alertsEnabled ?? true,
+    updatedAt: raw?.updatedAt ?? 0,
+  };
 }
 
-// ─── Command Handlers ──────────────────────────────────────────────────────────
+// Unsaved chats (updatedAt 0) get the default subscription
+async function getSubscription(chatId) {
+  const { subscription } = await careRpc('get-telegram-subscription', { chatId: String(chatId) });
+  return toSubscription(chatId, subscription);
+}
 
-async function handleHelp(chatId) {
-  const text = `🤖 <b>우하나봇 명령어</b>
+async function saveSubscription(subscription) {
+  const { subscription: saved, error } = await careRpc('update-telegram-subscription', { subscription });
+  if (error || !saved) throw new Error(error || 'subscription not saved');
+  return toSubscription(subscription.chatId, saved);
+}
 
-📊 <b>조회</b>
-/score — Opportunity Score 조회
-/news — 전체 트랙 뉴스 요약
-/news 정책 — 특정 트랙 뉴스 (정책/투자/경쟁사/케어)
-/competitor 키워드 — 경쟁사 뉴스 검색
-/procurement — 공공조달 공고 조회
-/status — 시스템 상태 확인
+// ─── Inline actions (care.v1 record/list-bot-actions) ──────────────────────────
 
-📋 <b>리포트</b>
-/brief — Daily Brief 생성
-/report — 주간 리포트 요약
+// Mirrors BOT_ACTION_CODES in src/services/botActions.ts (checked by tests/bot-actions.test.mjs) — callback_data is `a:<code>:<ref>`
+const ACTION_CODES = { x: 'exclude', b: 'bookmark', s: 'study' };
 
-⚙️ <b>설정</b>
-/alert on|off — 알림 켜기/끄기
-/threshold 숫자 — 알림 임계값 (30-95)
-/keyword add 키워드 — 키워드 추가
-/keyword remove 키워드 — 키워드 제거
-/keyword list — 키워드 목록
+function articleActionRow(ref, index, lang) {
+  const labels = T[lang].actionLabels;
+  return Object.entries(ACTION_CODES).map(([code, kind]) => ({
+    text: `${index} ${labels[kind]}`,
+    callback_data: `a:${code}:${ref}`,
+  }));
+}
 
-🚫 <b>제외(Negative KB)</b>
-/exclude 기사제목 — 기사 제외 등록
-/exclude — 제외 목록 조회
+// Shared server score — shouldAlert already uses the keyword profile threshold
+async function fetchScore() {
+  const { score, trackCounts = {} } = await careRpc('get-opportunity-score');
+  const { total = 0, s1 = 0, s2 = 0, s3 = 0, shouldAlert = false } = score || {};
+  return { total, s1, s2, s3, trackCounts, shouldAlert };
+}
 
-/help — 이 도움말`;
+// ─── Command Handlers ──────────────────────────────────────────────────────────
 
-  await sendTelegram(chatId, text);
+async function handleHelp(chatId) {
+  const lang = await getSubscription(chatId).then((sub) => sub.language).catch(() => 'ko');
+  await sendTelegram(chatId, T[lang].help);
+}
+
+// Saves the default subscription on first contact so scheduled alerts reach this chat
+async function handleStart(chatId) {
+  try {
+    const sub = await getSubscription(chatId);
+    if (!sub.updatedAt) await saveSubscription(sub);
+  } catch (e) {
+    console.error('[Webhook] subscription not saved:', e);
+  }
+  await handleHelp(chatId);
+}
+
+function subscriptionCard(sub, sharedThreshold) {
+  const t = T[sub.language];
+  const threshold = sub.alertThreshold ? String(sub.alertThreshold) : `${sharedThreshold} ${t.sharedSuffix}`;
+  const text = [
+    t.subscriptionTitle,
+    '',
+    `${t.tracksLabel}: ${sub.tracks.length > 0 ? sub.tracks.map((tr) => t.trackLabels[tr]).join(', ') : t.none}`,
+    `${t.thresholdLabel}: ${threshold}`,
+    `${t.quietLabel}: ${formatQuiet(sub)}`,
+    `${t.alertsLabel}: ${sub.alertsEnabled ? t.on : t.off}`,
+    `${t.languageLabel}: ${t.languageName}`,
+    '',
+    t.subscriptionHint,
+  ].join('\n');
+
+  const trackButtons = ALL_TRACKS.map((tr) => ({
+    text: `${sub.tracks.includes(tr) ? '✅' : '▫️'} ${t.trackLabels[tr]}`,
+    callback_data: `t:${tr}`,
+  }));
+  const inline_keyboard = [
+    trackButtons.slice(0, 2),
+    trackButtons.slice(2),
+    [
+      { text: `${t.alertsLabel} ${sub.alertsEnabled ? t.on : t.off}`, callback_data: 't:alerts' },
+      { text: sub.language === 'en' ? '🇰🇷 한국어' : '🇺🇸 English', callback_data: 't:lang' },
+    ],
+  ];
+  return { text, reply_markup: { inline_keyboard } };
+}
+
+function toggleSubscription(sub, field) {
+  if (field === 'alerts') return { ...sub, alertsEnabled: !sub.alertsEnabled };
+  if (field === 'lang') return { ...sub, language: sub.language === 'en' ? 'ko' : 'en' };
+  if (ALL_TRACKS.includes(field)) {
+    const enabled = !sub.tracks.includes(field);
+    return { ...sub, tracks: ALL_TRACKS.filter((t) => (t === field ? enabled : sub.tracks.includes(t))) };
+  }
+  return null;
+}
+
+async function handleSubscribe(chatId) {
+  const [sub, profile] = await Promise.all([getSubscription(chatId), getKeywordProfile()]);
+  const { text, reply_markup } = subscriptionCard(sub, profile.alertThreshold);
+  await sendTelegram(chatId, text, { reply_markup });
 }
 
 async function handleScore(chatId) {
   await sendTelegram(chatId, '⏳ 점수를 계산하고 있습니다...');
 
-  const newsByTrack = await fetchAllTrackNews();
-  const score = calculateScore(newsByTrack);
-  cachedScore = { ...score, newsByTrack, timestamp: Date.now() };
-  cachedScoreTime = Date.now();
+  const score = await fetchScore();
 
   const emoji = score.total >= 85 ? '🔴' : score.total >= 70 ? '🟡' : '🟢';
   const alert = score.shouldAlert ? '⚠️ ACT NOW' : '📊 Monitor';
@@ -283,10 +522,16 @@ async function handleNews(chatId, trackArg) {
     return;
   }
 
+  const [sub, exclusions] = await Promise.all([getSubscription(chatId), fetchExclusions()]);
+  if (!track && sub.tracks.length === 0) {
+    await sendTelegram(chatId, T[sub.language].noTracks);
+    return;
+  }
+
   await sendTelegram(chatId, '⏳ 뉴스를 수집하고 있습니다...');
 
   if (track) {
-    const items = (await fetchTrackNews(track)).filter(i => !isServerExcluded(i.title));
+    const items = (await fetchTrackNews(track)).filter((i) => !isExcluded(i, exclusions)).slice(0, 8);
     const label = TRACK_LABELS[track] || track;
 
     if (items.length === 0) {
@@ -294,15 +539,25 @@ async function handleNews(chatId, trackArg) {
       return;
     }
 
-    const lines = items.slice(0, 8).map(
-      (n) => `${tierEmoji(n.sourceName)} <a href="${n.link}">${escapeHtml(truncate(n.title))}</a>`
+    // Numbered so each button row matches its headline
+    const lines = items.map(
+      (n, i) => `${i + 1}. ${tierEmoji(n.sourceName)} <a href="${n.link}">${escapeHtml(truncate(n.title))}</a>`
+    );
+    // Action buttons change the shared dashboard state, so only admin chats get them
+    const inline_keyboard = isAdminChat(chatId)
+      ? items.map((n, i) => (n.ref ? articleActionRow(n.ref, i + 1, sub.language) : null)).filter(Boolean)
+      : [];
+    const hint = inline_keyboard.length > 0 ? `\n${T[sub.language].newsActionsHint}` : '';
+    await sendTelegram(
+      chatId,
+      `📰 <b>${escapeHtml(label)}</b> 최신 뉴스\n\n${lines.join('\n')}\n\n🔵직접 🟢전문 🟡애그리게이터 ⚪기타${hint}`,
+      inline_keyboard.length > 0 ? { reply_markup: { inline_keyboard } } : {}
     );
-    await sendTelegram(chatId, `📰 <b>${escapeHtml(label)}</b> 최신 뉴스\n\n${lines.join('\n')}\n\n🔵직접 🟢전문 🟡애그리게이터 ⚪기타`);
   } else {
-    const allNewsRaw = await fetchAllTrackNews();
+    const allNewsRaw = await fetchAllTrackNews(sub.tracks);
     const allNews = {};
     for (const [t, items] of Object.entries(allNewsRaw)) {
-      allNews[t] = (items || []).filter(i => !isServerExcluded(i.title));
+      allNews[t] = (items || []).filter((i) => !isExcluded(i, exclusions));
     }
     const sections = [];
 
@@ -318,7 +573,7 @@ async function handleNews(chatId, trackArg) {
       sections.push(`📌 <b>${label}</b>\n${lines.join('\n')}`);
     }
 
-    await sendTelegram(chatId, `📰 <b>트랙별 최신 뉴스</b>\n\n${sections.join('\n\n')}\n\n🔵직접 🟢전문 🟡애그리게이터 ⚪기타`);
+    await sendTelegram(chatId, `📰 <b>구독 트랙 최신 뉴스</b>\n\n${sections.join('\n\n')}\n\n🔵직접 🟢전문 🟡애그리게이터 ⚪기타`);
   }
 }
 
@@ -345,33 +600,75 @@ async function handleCompetitor(chatId, query) {
 }
 
 async function handleAlert(chatId, arg) {
+  const sub = await getSubscription(chatId);
+  const t = T[sub.language];
   if (!arg || (arg !== 'on' && arg !== 'off')) {
-    const current = settings.telegramEnabled ? '✅ ON' : '❌ OFF';
-    await sendTelegram(chatId, `📢 현재 알림 상태: ${current}\n\n사용법: /alert on 또는 /alert off`);
+    await sendTelegram(chatId, t.alertStatus(sub.alertsEnabled));
     return;
   }
 
-  settings.telegramEnabled = arg === 'on';
-  const status = settings.telegramEnabled ? '✅ 켜짐' : '❌ 꺼짐';
-  await sendTelegram(chatId, `📢 알림이 ${status}으로 변경되었습니다.`);
+  const saved = await saveSubscription({ ...sub, alertsEnabled: arg === 'on' });
+  await sendTelegram(chatId, t.alertChanged(saved.alertsEnabled));
 }
 
 async function handleThreshold(chatId, arg) {
+  const [sub, profile] = await Promise.all([getSubscription(chatId), getKeywordProfile()]);
+  const t = T[sub.language];
+
+  if (['기본', 'default', 'reset'].includes((arg || '').toLowerCase())) {
+    await saveSubscription({ ...sub, alertThreshold: 0 });
+    await sendTelegram(chatId, t.thresholdReset(profile.alertThreshold));
+    return;
+  }
+
   const num = parseInt(arg, 10);
   if (!arg || isNaN(num) || num < 30 || num > 95) {
-    await sendTelegram(chatId, `⚙️ 현재 임계값: <b>${settings.alertThreshold}</b>\n\n사용법: /threshold 30~95\n예: /threshold 80`);
+    const current = sub.alertThreshold ? String(sub.alertThreshold) : `${profile.alertThreshold} ${t.sharedSuffix}`;
+    await sendTelegram(chatId, t.thresholdStatus(current));
+    return;
+  }
+
+  await saveSubscription({ ...sub, alertThreshold: num });
+  await sendTelegram(chatId, t.thresholdChanged(num));
+}
+
+async function handleQuiet(chatId, arg) {
+  const sub = await getSubscription(chatId);
+  const t = T[sub.language];
+
+  if (arg === 'off' || arg === '끄기') {
+    await saveSubscription({ ...sub, quietStartHour: 0, quietEndHour: 0 });
+    await sendTelegram(chatId, t.quietOff);
+    return;
+  }
+
+  const match = (arg || '').match(/^(\d{1,2})-(\d{1,2})$/);
+  const start = match ? Number(match[1]) : -1;
+  const end = match ? Number(match[2]) : -1;
+  if (!match || start > 23 || end > 23 || start === end) {
+    await sendTelegram(chatId, t.quietStatus(formatQuiet(sub)));
     return;
   }
 
-  settings.alertThreshold = num;
-  await sendTelegram(chatId, `⚙️ 알림 임계값이 <b>${num}</b>으로 변경되었습니다.`);
+  const saved = await saveSubscription({ ...sub, quietStartHour: start, quietEndHour: end });
+  await sendTelegram(chatId, t.quietChanged(formatQuiet(saved)));
+}
+
+async function handleLang(chatId, arg) {
+  const sub = await getSubscription(chatId);
+  if (arg !== 'ko' && arg !== 'en') {
+    await sendTelegram(chatId, T[sub.language].langUsage);
+    return;
+  }
+
+  await saveSubscription({ ...sub, language: arg });
+  await sendTelegram(chatId, T[arg].langChanged);
 }
 
 async function handleBrief(chatId) {
   await sendTelegram(chatId, '⏳ Daily Brief를 생성합니다...');
 
-  const allNews = await fetchAllTrackNews();
-  const score = calculateScore(allNews);
+  const [allNews, score] = await Promise.all([fetchAllTrackNews(), fetchScore()]);
 
   const highlights = [];
   for (const [t, items] of Object.entries(allNews)) {
@@ -403,29 +700,13 @@ ${highlights.map((h, i) => `${i + 1}. ${h}`).join('\n')}
 async function handleProcurement(chatId) {
   await sendTelegram(chatId, '⏳ 공공조달 공고를 조회합니다...');
 
-  const items = await fetchTrackNews('policy');
-
-  const FITNESS_HIGH = ['AI 돌봄', 'Vision AI', '영상분석', '발달장애', 'ABA', '행동분석', '디지털치료제', '특수교육'];
-  const FITNESS_MED = ['CCTV 지능형', 'AI 모니터링', '돌봄 로봇', '돌봄', '장애인', '케어테크'];
-
-  const listings = [];
-  for (const item of items) {
-    const lower = (item.title || '').toLowerCase();
-    let fitness = 'low';
-    let matchedKw = [];
-
-    for (const kw of FITNESS_HIGH) {
-      if (lower.includes(kw.toLowerCase())) { fitness = 'high'; matchedKw.push(kw); }
-    }
-    if (fitness === 'low') {
-      for (const kw of FITNESS_MED) {
-        if (lower.includes(kw.toLowerCase())) { fitness = 'medium'; matchedKw.push(kw); }
-      }
-    }
+  const { listings: items = [] } = await careRpc('list-procurement-listings', { limit: 10 });
 
-    const icon = fitness === 'high' ? '🔴' : fitness === 'medium' ? '🟡' : '⚪';
-    listings.push(`${icon} <a href="${item.link}">${escapeHtml(truncate(item.title))}</a>${matchedKw.length > 0 ? `\n   키워드: ${matchedKw.join(', ')}` : ''}`);
-  }
+  const listings = items.map((item) => {
+    const icon = item.fitnessScore === 'high' ? '🔴' : item.fitnessScore === 'medium' ? '🟡' : '⚪';
+    const keywords = item.matchedKeywords || [];
+    return `${icon} <a href="${item.sourceUrl}">${escapeHtml(truncate(item.title))}</a>${keywords.length > 0 ? `\n   키워드: ${keywords.join(', ')}` : ''}`;
+  });
 
   if (listings.length === 0) {
     await sendTelegram(chatId, '🏛️ 현재 관련 공공조달 공고가 없습니다.');
@@ -438,15 +719,9 @@ async function handleProcurement(chatId) {
 async function handleReport(chatId) {
   await sendTelegram(chatId, '⏳ 주간 리포트를 생성합니다...');
 
-  const allNews = await fetchAllTrackNews();
-  const score = calculateScore(allNews);
-
-  const trackCounts = {};
-  let totalCount = 0;
-  for (const [t, items] of Object.entries(allNews)) {
-    trackCounts[t] = (items || []).length;
-    totalCount += trackCounts[t];
-  }
+  const [score, profile, sub] = await Promise.all([fetchScore(), getKeywordProfile(), getSubscription(chatId)]);
+  const trackCounts = score.trackCounts;
+  const totalCount = Object.values(trackCounts).reduce((sum, n) => sum + n, 0);
 
   const date = new Date().toLocaleDateString('ko-KR', { timeZone: 'Asia/Seoul' });
 
@@ -463,9 +738,9 @@ async function handleReport(chatId) {
 • 경쟁사: ${trackCounts.competitor || 0}건
 • 케어테크: ${trackCounts.caretech || 0}건
 
-⚙️ 알림 임계값: ${settings.alertThreshold}
-📢 알림 상태: ${settings.telegramEnabled ? '✅ ON' : '❌ OFF'}
-🔑 커스텀 키워드: ${settings.customKeywords.length > 0 ? settings.customKeywords.join(', ') : '(없음)'}`;
+⚙️ 알림 임계값: ${sub.alertThreshold || profile.alertThreshold}
+📢 알림 상태: ${sub.alertsEnabled ? '✅ ON' : '❌ OFF'}
+🔑 커스텀 키워드: ${profile.keywords.length > 0 ? profile.keywords.map((k) => escapeHtml(k.keyword)).join(', ') : '(없음)'}`;
 
   await sendTelegram(chatId, text);
 }
@@ -494,6 +769,15 @@ async function handleStatus(chatId) {
     checks.telegram = '❌ 연결 실패';
   }
 
+  // Keyword profile and this chat's subscription (care.v1)
+  let profile = null;
+  let sub = null;
+  try {
+    [profile, sub] = await Promise.all([getKeywordProfile(), getSubscription(chatId)]);
+  } catch {
+    checks.careApi = CARE_API_ORIGIN ? '❌ 연결 실패' : '❌ 미설정';
+  }
+
   const uptime = process.uptime();
   const hours = Math.floor(uptime / 3600);
   const mins = Math.floor((uptime % 3600) / 60);
@@ -502,24 +786,42 @@ async function handleStatus(chatId) {
 
 🤖 봇: ${checks.telegram}
 📡 RSS Proxy: ${checks.rssProxy}
+🔐 Webhook 시크릿: ${WEBHOOK_SECRET ? '✅ 설정됨' : '❌ 미설정 (구독·키워드·액션 저장 불가)'}
+🛡️ 운영 채팅: ${isAdminChat(chatId) ? '✅ 이 채팅' : `${ADMIN_CHAT_IDS.size}개 (이 채팅 아님)`}
 ⏱️ 서버 Uptime: ${hours}h ${mins}m
-📢 알림: ${settings.telegramEnabled ? '✅ ON' : '❌ OFF'}
-⚙️ 임계값: ${settings.alertThreshold}
-🔑 키워드: ${settings.customKeywords.length}개
+📢 알림: ${sub ? (sub.alertsEnabled ? '✅ ON' : '❌ OFF') : checks.careApi}
+⚙️ 임계값: ${sub ? sub.alertThreshold || profile.alertThreshold : checks.careApi}
+🌙 방해 금지: ${sub ? formatQuiet(sub) : checks.careApi}
+🔑 키워드: ${profile ? `${profile.keywords.length}개 (제외 ${profile.negativeKeywords.length}개)` : checks.careApi}
 
 🕐 ${new Date().toLocaleString('ko-KR', { timeZone: 'Asia/Seoul' })}`;
 
   await sendTelegram(chatId, text);
 }
 
+const KEYWORD_CATEGORY_LABELS = { market: '시장', bm: 'BM', policy: '정책', investment: '투자' };
+
 async function handleKeyword(chatId, action, value) {
+  const profile = await getKeywordProfile();
+  const sameKeyword = (k) => k.keyword.toLowerCase() === value.toLowerCase();
+
   if (!action || action === 'list') {
-    if (settings.customKeywords.length === 0) {
+    if (profile.keywords.length === 0 && profile.negativeKeywords.length === 0) {
       await sendTelegram(chatId, '🔑 등록된 커스텀 키워드가 없습니다.\n\n추가: /keyword add 키워드');
       return;
     }
-    const list = settings.customKeywords.map((k, i) => `${i + 1}. ${escapeHtml(k)}`).join('\n');
-    await sendTelegram(chatId, `🔑 <b>커스텀 키워드 목록</b>\n\n${list}\n\n추가: /keyword add 키워드\n삭제: /keyword remove 키워드`);
+    const list = profile.keywords
+      .map((k, i) => `${i + 1}. ${escapeHtml(k.keyword)} <i>(${KEYWORD_CATEGORY_LABELS[k.category] || k.category} ×${k.weight})</i>`)
+      .join('\n') || '(없음)';
+    const negatives = profile.negativeKeywords.length > 0
+      ? `\n\n🚫 <b>제외 키워드</b>\n${profile.negativeKeywords.map((k) => escapeHtml(k)).join(', ')}`
+      : '';
+    await sendTelegram(chatId, `🔑 <b>커스텀 키워드 목록</b>\n\n${list}${negatives}\n\n추가: /keyword add 키워드\n삭제: /keyword remove 키워드\n카테고리·가중치는 대시보드 Settings에서 조정`);
+    return;
+  }
+
+  if (!isAdminChat(chatId)) {
+    await sendTelegram(chatId, T.ko.adminOnly);
     return;
   }
 
@@ -528,12 +830,15 @@ async function handleKeyword(chatId, action, value) {
       await sendTelegram(chatId, '❌ 키워드를 입력하세요.\n예: /keyword add 로봇');
       return;
     }
-    if (settings.customKeywords.includes(value)) {
+    if (profile.keywords.some(sameKeyword)) {
       await sendTelegram(chatId, `⚠️ "${escapeHtml(value)}" 키워드가 이미 존재합니다.`);
       return;
     }
-    settings.customKeywords.push(value);
-    await sendTelegram(chatId, `✅ 키워드 추가: <b>${escapeHtml(value)}</b>\n현재 ${settings.customKeywords.length}개`);
+    const saved = await updateKeywordProfile({
+      ...profile,
+      keywords: [...profile.keywords, { keyword: value, category: 'market', weight: 1 }],
+    });
+    await sendTelegram(chatId, `✅ 키워드 추가: <b>${escapeHtml(value)}</b>\n현재 ${saved.keywords.length}개`);
     return;
   }
 
@@ -542,13 +847,15 @@ async function handleKeyword(chatId, action, value) {
       await sendTelegram(chatId, '❌ 삭제할 키워드를 입력하세요.\n예: /keyword remove 로봇');
       return;
     }
-    const idx = settings.customKeywords.indexOf(value);
-    if (idx === -1) {
+    if (!profile.keywords.some(sameKeyword)) {
       await sendTelegram(chatId, `⚠️ "${escapeHtml(value)}" 키워드를 찾을 수 없습니다.`);
       return;
     }
-    settings.customKeywords.splice(idx, 1);
-    await sendTelegram(chatId, `🗑️ 키워드 삭제: <b>${escapeHtml(value)}</b>\n현재 ${settings.customKeywords.length}개`);
+    const saved = await updateKeywordProfile({
+      ...profile,
+      keywords: profile.keywords.filter((k) => !sameKeyword(k)),
+    });
+    await sendTelegram(chatId, `🗑️ 키워드 삭제: <b>${escapeHtml(value)}</b>\n현재 ${saved.keywords.length}개`);
     return;
   }
 
@@ -576,51 +883,117 @@ function wordOverlapScore(wordsA, wordsB) {
   return union > 0 ? intersection / union : 0;
 }
 
-function isServerExcluded(title) {
-  if (serverExclusions.length === 0) return false;
-  const words = normalizeWords(title);
+// Exclusions recorded from /exclude and the inline 🚫 button, shared with the dashboard
+async function fetchExclusions() {
+  const { actions = [] } = await careRpc('list-bot-actions', { kind: 'exclude' });
+  return actions.map((a) => ({
+    ref: a.article?.ref || '',
+    title: a.article?.title || '',
+    titleWords: normalizeWords(a.article?.title || ''),
+    createdAt: a.createdAt || 0,
+  }));
+}
+
+function isExcluded(item, exclusions) {
+  if (exclusions.length === 0) return false;
+  if (item.ref && exclusions.some((ex) => ex.ref === item.ref)) return true;
+  const words = normalizeWords(item.title);
   if (words.length === 0) return false;
-  for (const ex of serverExclusions) {
-    if (wordOverlapScore(words, ex.titleWords) >= 0.4) return true;
-  }
-  return false;
+  return exclusions.some((ex) => wordOverlapScore(words, ex.titleWords) >= 0.4);
 }
 
 async function handleExclude(chatId, titleArg) {
+  const exclusions = await fetchExclusions();
+
   if (!titleArg) {
-    // Show current exclusion list
-    if (serverExclusions.length === 0) {
+    // Show current exclusion list (newest first)
+    if (exclusions.length === 0) {
       await sendTelegram(chatId, '🚫 제외된 기사가 없습니다.\n\n사용법: /exclude 기사 제목 키워드');
       return;
     }
-    const lines = serverExclusions.map(
-      (ex, i) => `${i + 1}. ${escapeHtml(truncate(ex.title, 50))}\n   ${ex.excludedAt}`
+    const lines = exclusions.slice(-20).reverse().map(
+      (ex, i) => `${i + 1}. ${escapeHtml(truncate(ex.title, 50))}\n   ${new Date(ex.createdAt).toLocaleString('ko-KR', { timeZone: 'Asia/Seoul' })}`
     );
-    await sendTelegram(chatId, `🚫 <b>제외 목록</b> (${serverExclusions.length}건)\n\n${lines.join('\n\n')}`);
+    await sendTelegram(chatId, `🚫 <b>제외 목록</b> (${exclusions.length}건)\n\n${lines.join('\n\n')}`);
+    return;
+  }
+
+  if (!isAdminChat(chatId)) {
+    await sendTelegram(chatId, T.ko.adminOnly);
     return;
   }
 
   // Check for duplicates
   const lowerTitle = titleArg.toLowerCase();
-  if (serverExclusions.some(ex => ex.title.toLowerCase() === lowerTitle)) {
+  if (exclusions.some((ex) => ex.title.toLowerCase() === lowerTitle)) {
     await sendTelegram(chatId, `⚠️ 이미 제외된 항목입니다: "${escapeHtml(truncate(titleArg))}"`);
     return;
   }
 
-  // Add to exclusion list
-  const entry = {
-    title: titleArg,
-    titleWords: normalizeWords(titleArg),
-    excludedAt: new Date().toLocaleString('ko-KR', { timeZone: 'Asia/Seoul' }),
-  };
-  serverExclusions.push(entry);
+  const { error } = await careRpc('record-bot-action', { chatId: String(chatId), kind: 'exclude', articleRef: '', title: titleArg });
+  if (error) throw new Error(error);
 
   await sendTelegram(
     chatId,
-    `🚫 제외 등록 완료\n\n"<b>${escapeHtml(truncate(titleArg))}</b>"\n\n이후 유사한 기사가 뉴스 결과에서 필터링됩니다.\n현재 제외 목록: ${serverExclusions.length}건`
+    `🚫 제외 등록 완료\n\n"<b>${escapeHtml(truncate(titleArg))}</b>"\n\n이후 유사한 기사가 뉴스 결과와 대시보드에서 필터링됩니다.\n현재 제외 목록: ${exclusions.length + 1}건`
   );
 }
 
+// ─── Inline button callbacks ───────────────────────────────────────────────────
+
+async function handleCallback(query) {
+  const chatId = query.message?.chat?.id;
+  const [type, code, ref] = String(query.data || '').split(':');
+  if (!chatId) {
+    await answerCallback(query.id);
+    return;
+  }
+
+  const sub = await getSubscription(chatId);
+  const t = T[sub.language];
+
+  // a:<code>:<ref> — exclude / bookmark / study on an alert or /news item
+  if (type === 'a') {
+    const kind = ACTION_CODES[code];
+    if (!kind || !ref) {
+      await answerCallback(query.id);
+      return;
+    }
+    if (!isAdminChat(chatId)) {
+      await answerCallback(query.id, t.adminOnly);
+      return;
+    }
+    const { error } = await careRpc('record-bot-action', { chatId: String(chatId), kind, articleRef: ref, title: '' });
+    await answerCallback(query.id, error ? t.actionFailed : t.actionDone[kind]);
+    if (!error && kind === 'study') {
+      await sendTelegram(chatId, t.studyLink(`${CARE_API_ORIGIN}/study`));
+    }
+    return;
+  }
+
+  // t:<field> — toggle on the /subscribe card, then redraw it in place
+  if (type === 't') {
+    const next = toggleSubscription(sub, code);
+    if (!next) {
+      await answerCallback(query.id);
+      return;
+    }
+    const [saved, profile] = await Promise.all([saveSubscription(next), getKeywordProfile()]);
+    await answerCallback(query.id);
+    const { text, reply_markup } = subscriptionCard(saved, profile.alertThreshold);
+    await callTelegram('editMessageText', {
+      chat_id: chatId,
+      message_id: query.message.message_id,
+      text,
+      parse_mode: 'HTML',
+      reply_markup,
+    });
+    return;
+  }
+
+  await answerCallback(query.id);
+}
+
 // ─── Command Router ────────────────────────────────────────────────────────────
 
 async function routeCommand(chatId, text) {
@@ -639,9 +1012,15 @@ async function routeCommand(chatId, text) {
 
   switch (command) {
     case '/help':
-    case '/start':
       return handleHelp(chatId);
 
+    case '/start':
+      return handleStart(chatId);
+
+    case '/subscribe':
+    case '/sub':
+      return handleSubscribe(chatId);
+
     case '/score':
       return handleScore(chatId);
 
@@ -658,6 +1037,12 @@ async function routeCommand(chatId, text) {
     case '/threshold':
       return handleThreshold(chatId, args[0]);
 
+    case '/quiet':
+      return handleQuiet(chatId, args[0]?.toLowerCase());
+
+    case '/lang':
+      return handleLang(chatId, args[0]?.toLowerCase());
+
     case '/brief':
     case '/daily':
       return handleBrief(chatId);
@@ -700,7 +1085,7 @@ export default async function handler(request) {
     });
   }
 
-  // Validate webhook secret (if configured)
+  // Validate webhook secret (if configured — without it careRpc does not relay CARE_SERVER_SECRET)
   if (WEBHOOK_SECRET) {
     const token = request.headers.get('x-telegram-bot-api-secret-token') || '';
     if (token !== WEBHOOK_SECRET) {
@@ -725,6 +1110,15 @@ export default async function handler(request) {
       });
     }
 
+    // Handle inline button presses
+    const query = update.callback_query;
+    if (query) {
+      handleCallback(query).catch((e) => {
+        console.error('[Webhook] Callback error:', e);
+        answerCallback(query.id, '❌').catch(() => {});
+      });
+    }
+
     // Always return 200 to Telegram
     return new Response(JSON.stringify({ ok: true }), {
       status: 200,
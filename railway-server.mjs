@@ -6,7 +6,10 @@
  * handlers from api/ — same route-discovery logic used by the Tauri
  * desktop sidecar (src-tauri/sidecar/local-api-server.mjs).
  *
- * Build:  npm run build          (Vite frontend + sebuf TS gateway)
+ * Also starts the server-side notification scheduler (server/scheduler) —
+ * daily brief, streak warning and weekly report via the Telegram bot.
+ *
+ * Build:  npm run build          (Vite frontend + sebuf TS gateway + scheduler)
  * Start:  node railway-server.mjs
  *
  * Railway sets $PORT automatically; defaults to 3000 locally.
@@ -27,6 +30,7 @@ const brotliCompressAsync = promisify(brotliCompress);
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
 const DIST_DIR = resolve(__dirname, 'dist');
 const API_DIR = resolve(__dirname, 'api');
+const SCHEDULER_BUNDLE = resolve(__dirname, 'server', 'scheduler', 'index.js');
 const PORT = Number(process.env.PORT || 3000);
 
 // ─── MIME types ──────────────────────────────────────────────────────
@@ -341,6 +345,20 @@ async function handleApiRequest(pathname, search, req, res, routes) {
   }
 }
 
+// ─── Scheduled jobs (built by scripts/build-scheduler.mjs) ───────────
+async function startScheduler() {
+  if (!existsSync(SCHEDULER_BUNDLE)) {
+    console.log('[railway] Scheduler bundle not built — run npm run build:scheduler');
+    return;
+  }
+  try {
+    const mod = await import(pathToFileURL(SCHEDULER_BUNDLE).href);
+    mod.startScheduler();
+  } catch (error) {
+    console.error('[railway] Scheduler failed to start:', error);
+  }
+}
+
 // ─── Main server ─────────────────────────────────────────────────────
 async function main() {
   // Build route table from api/ directory
@@ -383,6 +401,7 @@ async function main() {
     console.log(`[railway] Server listening on http://0.0.0.0:${PORT}`);
     console.log(`[railway] Serving static files from ${DIST_DIR}`);
     console.log(`[railway] API routes from ${API_DIR}`);
+    void startScheduler();
   });
 }
 
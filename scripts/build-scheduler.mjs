@@ -0,0 +1,38 @@
+/**
+ * Compiles the server-side scheduler (server/scheduler/index.ts) into a single
+ * self-contained ESM bundle (server/scheduler/index.js) that railway-server.mjs
+ * loads at startup.
+ *
+ * Run: node scripts/build-scheduler.mjs
+ * Or:  npm run build:scheduler
+ */
+
+import { build } from 'esbuild';
+import { stat } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.resolve(__dirname, '..');
+
+const entryPoint = path.join(projectRoot, 'server', 'scheduler', 'index.ts');
+const outfile = path.join(projectRoot, 'server', 'scheduler', 'index.js');
+
+try {
+  await build({
+    entryPoints: [entryPoint],
+    outfile,
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    target: 'node18',
+    treeShaking: true,
+  });
+
+  const { size } = await stat(outfile);
+  const sizeKB = (size / 1024).toFixed(1);
+  console.log(`build:scheduler  server/scheduler/index.js  ${sizeKB} KB`);
+} catch (err) {
+  console.error('build:scheduler failed:', err.message);
+  process.exit(1);
+}
@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the data.go.kr 나라장터 APIs (BidPublicInfoService04,
+ * ScsbidInfoService) used by api/g2b. Serves fixture bids and award results in
+ * the upstream JSON envelope so the proxy can be exercised without a service key.
+ *
+ * Tests: import { createG2bFixtureServer } and point G2B_API_BASE at it.
+ * Local dev: node scripts/g2b-fixture-server.mjs [port]
+ *            G2B_API_KEY=fixture G2B_API_BASE=http://127.0.0.1:<port> npm run dev:care
+ */
+
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+export const FIXTURE_SERVICE_KEY = 'fixture';
+
+export const FIXTURE_BIDS = [
+  {
+    kind: 'service',
+    bidNtceNo: 'R26BK00000101',
+    bidNtceOrd: '00',
+    bidNtceNm: '발달장애인 행동분석 AI 돌봄 플랫폼 구축 용역',
+    ntceInsttNm: '보건복지부',
+    dminsttNm: '한국장애인개발원',
+    presmptPrce: '320000000',
+    bidNtceDt: '2026-10-01 09:00:00',
+    bidClseDt: '2026-11-20 10:00:00',
+    opengDt: '2026-11-20 11:00:00',
+    ntceKindNm: '등록공고',
+    bidNtceDtlUrl: 'https://www.g2b.go.kr/link/R26BK00000101',
+  },
+  {
+    kind: 'service',
+    bidNtceNo: 'R26BK00000102',
+    bidNtceOrd: '01',
+    bidNtceNm: '정신건강복지센터 AI 상담 시스템 고도화 (재공고)',
+    ntceInsttNm: '서울특별시',
+    dminsttNm: '서울시 정신건강복지센터',
+    presmptPrce: '',
+    asignBdgtAmt: '150,000,000',
+    bidNtceDt: '2026-09-01 09:00:00',
+    bidClseDt: '2026-09-15 10:00:00',
+    opengDt: '2026-09-15 11:00:00',
+    ntceKindNm: '재공고',
+    bidNtceDtlUrl: '',
+  },
+  {
+    kind: 'service',
+    bidNtceNo: 'R26BK00000102',
+    bidNtceOrd: '00',
+    bidNtceNm: '정신건강복지센터 AI 상담 시스템 고도화',
+    ntceInsttNm: '서울특별시',
+    dminsttNm: '서울시 정신건강복지센터',
+    presmptPrce: '150000000',
+    bidNtceDt: '2026-08-10 09:00:00',
+    bidClseDt: '2026-08-24 10:00:00',
+    opengDt: '2026-08-24 11:00:00',
+    ntceKindNm: '등록공고',
+    bidNtceDtlUrl: '',
+  },
+  {
+    kind: 'goods',
+    bidNtceNo: 'R26BK00000103',
+    bidNtceOrd: '00',
+    bidNtceNm: '돌봄 로봇 구매',
+    ntceInsttNm: '경기도',
+    dminsttNm: '경기도 노인복지관',
+    presmptPrce: '48000000',
+    bidNtceDt: '2026-10-05 09:00:00',
+    bidClseDt: '2026-10-12 10:00:00',
+    opengDt: '2026-10-12 11:00:00',
+    ntceKindNm: '취소공고',
+    bidNtceDtlUrl: '',
+  },
+];
+
+export const FIXTURE_AWARDS = [
+  {
+    kind: 'service',
+    bidNtceNo: 'R26BK00000102',
+    bidNtceOrd: '01',
+    bidwinnrNm: '(주)마음케어',
+    bidwinnrBizno: '1234567890',
+    sucsfbidAmt: '131250000',
+    sucsfbidRate: '87.5',
+    rlOpengDt: '2026-09-15 11:05:00',
+  },
+];
+
+function envelope(items) {
+  return {
+    response: {
+      header: { resultCode: '00', resultMsg: 'NORMAL SERVICE.' },
+      body: { items, numOfRows: 50, pageNo: 1, totalCount: items.length },
+    },
+  };
+}
+
+function strip({ kind: _kind, ...item }) {
+  return item;
+}
+
+/**
+ * Starts a fixture server on 127.0.0.1. Resolves with its origin, the request log
+ * and a close() helper.
+ */
+export function createG2bFixtureServer({ bids = FIXTURE_BIDS, awards = FIXTURE_AWARDS, port = 0 } = {}) {
+  const requests = [];
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    const [, service = '', operation = ''] = url.pathname.split('/');
+    requests.push({ service, operation, params: Object.fromEntries(url.searchParams) });
+
+    const send = (status, body) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.searchParams.get('serviceKey') !== FIXTURE_SERVICE_KEY) {
+      send(200, { response: { header: { resultCode: '30', resultMsg: 'SERVICE KEY IS NOT REGISTERED ERROR.' } } });
+      return;
+    }
+
+    const kind = /Servc/.test(operation) ? 'service' : 'goods';
+
+    if (service === 'BidPublicInfoService04') {
+      const keyword = (url.searchParams.get('bidNtceNm') || '').toLowerCase();
+      send(200, envelope(bids
+        .filter((b) => b.kind === kind && b.bidNtceNm.toLowerCase().includes(keyword))
+        .map(strip)));
+      return;
+    }
+
+    if (service === 'ScsbidInfoService') {
+      const bidNtceNo = url.searchParams.get('bidNtceNo');
+      send(200, envelope(awards.filter((a) => a.kind === kind && a.bidNtceNo === bidNtceNo).map(strip)));
+      return;
+    }
+
+    send(404, { error: 'unknown operation' });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const { port: boundPort } = server.address();
+      resolve({
+        origin: `http://127.0.0.1:${boundPort}`,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  const port = parseInt(process.argv[2] || '8787', 10);
+  const { origin } = await createG2bFixtureServer({ port });
+  console.log(`[g2b-fixture] data.go.kr stand-in at ${origin} (serviceKey=${FIXTURE_SERVICE_KEY})`);
+}
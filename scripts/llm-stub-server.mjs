@@ -0,0 +1,158 @@
+#!/usr/bin/env node
+/**
+ * Local Ollama-compatible LLM stand-in for the study-session RPCs
+ * (server/worldmonitor/care/v1/_study.ts). Serves /api/tags, /v1/models and
+ * /v1/chat/completions with deterministic replies:
+ *   - weekly-review prompts get a review naming the listed sessions and ignored items
+ *   - other prompts asking for JSON get a gap-check evaluation built from the answer
+ *   - everything else gets a reference answer echoing the question context
+ *
+ * Tests: import { createLlmStubServer } and set OLLAMA_API_URL to its origin.
+ * Local dev: node scripts/llm-stub-server.mjs [port]
+ *            then start the API with OLLAMA_API_URL=http://127.0.0.1:<port>
+ */
+
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+export const STUB_MODEL = 'careradar-stub';
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/** Reference answer: one line per context fact plus a CareVia line */
+export function stubReference(userPrompt) {
+  const context = userPrompt.split('\n').filter((line) => line.startsWith('- ')).map((line) => line.slice(2));
+  return [
+    `핵심: ${userPrompt.split('\n')[0].replace(/^Q\.\s*/, '')}`,
+    ...context.slice(0, 4).map((line) => `근거: ${line}`),
+    '계산: 제시된 수치의 증감률과 비중을 단계별로 구함 (가정 없음)',
+    'CareVia 적용: 기관 고객 제안서의 정량 근거로 활용',
+  ].join('\n');
+}
+
+/** Gap check: scores follow simple answer features so different answers get different feedback */
+export function stubEvaluation(userPrompt) {
+  const answer = userPrompt.split("Learner's answer:\n")[1] ?? '';
+  const hasNumbers = /\d/.test(answer);
+  const mentionsCareVia = /carevia|케어비아/i.test(answer);
+  const mentionsRisk = /리스크|위험|한계|risk/i.test(answer);
+  const long = answer.length >= 200;
+  return {
+    summary: hasNumbers ? '수치 근거를 들어 핵심을 짚었습니다.' : '주장은 있으나 수치 근거가 부족합니다.',
+    gaps: [
+      { kind: 'covered', point: '질문의 핵심 쟁점', detail: '답변이 질문이 묻는 쟁점을 다룹니다.' },
+      hasNumbers
+        ? { kind: 'covered', point: '정량 근거', detail: '수치를 직접 계산해 근거로 사용했습니다.' }
+        : { kind: 'missed', point: '정량 근거', detail: '참고 답안은 증감률과 금액을 계산해 제시합니다.' },
+      ...(mentionsCareVia ? [] : [{ kind: 'missed', point: 'CareVia 적용', detail: '사업 적용 방안이 빠졌습니다.' }]),
+    ],
+    depth_scores: [
+      { dimension: 'accuracy', score: 3, reason: '사실 관계에 명백한 오류는 없습니다.' },
+      { dimension: 'quantification', score: hasNumbers ? 4 : 1, reason: hasNumbers ? '수치를 계산했습니다.' : '수치가 없습니다.' },
+      { dimension: 'structure', score: long ? 4 : 2, reason: long ? '단계별로 전개했습니다.' : '논리 전개가 짧습니다.' },
+      { dimension: 'application', score: mentionsCareVia ? 4 : 0, reason: mentionsCareVia ? 'CareVia에 연결했습니다.' : '사업 적용이 없습니다.' },
+      { dimension: 'risk', score: mentionsRisk ? 3 : 0, reason: mentionsRisk ? '리스크를 언급했습니다.' : '리스크 언급이 없습니다.' },
+    ],
+  };
+}
+
+/** Weekly review: counts the listed sessions and turns "Ignored this week" lines into blind spots */
+export function stubWeeklyReview(userPrompt) {
+  const section = (title) => {
+    const lines = userPrompt.split(`${title}:\n`)[1]?.split('\n\n')[0]?.split('\n') ?? [];
+    return lines.filter((line) => line.startsWith('- ') && line !== '- (none)').map((line) => line.slice(2));
+  };
+  const sessions = section('Study sessions');
+  return {
+    summary: sessions.length > 0 ? `이번 주 세션 ${sessions.length}회를 완료했습니다.` : '이번 주에는 완료한 세션이 없습니다.',
+    blind_spots: section('Ignored this week').map((item) => `${item}: 이번 주 활동이 없습니다.`),
+    growth_note: '다음 주에는 비어 있던 영역부터 세션 1회씩 진행하세요.',
+  };
+}
+
+/**
+ * Starts the stub on 127.0.0.1. Resolves with the origin, the chat request log
+ * and a close() helper. `failures` answers the first N chat requests with 500;
+ * `reply(messages)` overrides the generated content.
+ */
+export function createLlmStubServer({ port = 0, failures = 0, reply } = {}) {
+  const requests = [];
+  let remaining = failures;
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+
+    if (req.method === 'GET' && url.pathname === '/api/tags') {
+      sendJson(res, 200, { models: [{ name: STUB_MODEL, model: STUB_MODEL }] });
+      return;
+    }
+    if (req.method === 'GET' && url.pathname === '/v1/models') {
+      sendJson(res, 200, { object: 'list', data: [{ id: STUB_MODEL, object: 'model' }] });
+      return;
+    }
+    if (req.method !== 'POST' || url.pathname !== '/v1/chat/completions') {
+      sendJson(res, 404, { error: 'not found' });
+      return;
+    }
+
+    let body;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch {
+      sendJson(res, 400, { error: 'invalid JSON' });
+      return;
+    }
+    requests.push(body);
+    if (remaining > 0) {
+      remaining--;
+      sendJson(res, 500, { error: 'stub failure' });
+      return;
+    }
+
+    const messages = Array.isArray(body.messages) ? body.messages : [];
+    const system = messages.find((m) => m.role === 'system')?.content ?? '';
+    const user = messages.find((m) => m.role === 'user')?.content ?? '';
+    const content = reply
+      ? reply(messages)
+      : /weekly review/i.test(system) ? JSON.stringify(stubWeeklyReview(user))
+      : /return ONLY valid JSON/i.test(system) ? JSON.stringify(stubEvaluation(user)) : stubReference(user);
+
+    sendJson(res, 200, {
+      id: `chatcmpl-stub-${requests.length}`,
+      object: 'chat.completion',
+      model: body.model || STUB_MODEL,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      resolve({
+        origin: `http://127.0.0.1:${server.address().port}`,
+        requests,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  const port = parseInt(process.argv[2] || '11434', 10);
+  const stub = await createLlmStubServer({ port });
+  console.log(`[llm-stub] listening — start the API with OLLAMA_API_URL=${stub.origin} OLLAMA_MODEL=${STUB_MODEL}`);
+}
@@ -0,0 +1,182 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for every notification channel the hub (server/notifications)
+ * talks to: the Telegram Bot API, a Slack incoming webhook, a generic webhook
+ * receiver and an SMTP server. Records what each one received, and can fail the
+ * first N deliveries per channel to exercise retry with backoff.
+ *
+ * Tests: import { createNotificationStubServer } and point the channels at it.
+ * Local dev: node scripts/notification-stub-server.mjs [httpPort] [smtpPort]
+ *            then start the scheduler with the printed environment.
+ */
+
+import http from 'node:http';
+import net from 'node:net';
+import { pathToFileURL } from 'node:url';
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+function parseJson(text) {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function channelOf(pathname) {
+  if (/^\/bot[^/]+\/sendMessage$/.test(pathname)) return 'telegram';
+  if (pathname.startsWith('/slack')) return 'slack';
+  if (pathname.startsWith('/webhook')) return 'webhook';
+  return null;
+}
+
+/**
+ * One SMTP session: EHLO (optionally advertising AUTH), MAIL, RCPT, DATA, QUIT.
+ * `shouldFail()` makes MAIL FROM answer 451 so the client retries.
+ */
+function handleSmtp(socket, { advertiseAuth, shouldFail, onMessage }) {
+  let buffer = '';
+  let inData = false;
+  let mail = { from: '', to: [], data: '' };
+  const reply = (line) => socket.write(`${line}\r\n`);
+
+  reply('220 notification-stub ESMTP');
+  socket.on('data', (chunk) => {
+    buffer += chunk.toString('utf8');
+    while (true) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+        mail.data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        onMessage(mail);
+        mail = { from: '', to: [], data: '' };
+        reply('250 2.0.0 queued');
+        continue;
+      }
+
+      const eol = buffer.indexOf('\r\n');
+      if (eol < 0) return;
+      const line = buffer.slice(0, eol);
+      buffer = buffer.slice(eol + 2);
+      const verb = line.split(' ')[0].toUpperCase();
+
+      if (verb === 'EHLO' || verb === 'HELO') {
+        if (advertiseAuth) reply('250-notification-stub');
+        reply(advertiseAuth ? '250 AUTH PLAIN LOGIN' : '250 notification-stub');
+      } else if (verb === 'MAIL') {
+        if (shouldFail()) {
+          reply('451 4.3.0 Temporary failure');
+          continue;
+        }
+        mail.from = line.match(/<([^>]*)>/)?.[1] ?? '';
+        reply('250 2.1.0 OK');
+      } else if (verb === 'RCPT') {
+        mail.to.push(line.match(/<([^>]*)>/)?.[1] ?? '');
+        reply('250 2.1.5 OK');
+      } else if (verb === 'DATA') {
+        inData = true;
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (verb === 'RSET' || verb === 'NOOP') {
+        reply('250 OK');
+      } else if (verb === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+        return;
+      } else {
+        reply('502 5.5.1 Command not implemented');
+      }
+    }
+  });
+  socket.on('error', () => {});
+}
+
+/**
+ * Starts the HTTP and SMTP stubs on 127.0.0.1. Resolves with the HTTP origin,
+ * the SMTP port, the request log and a close() helper.
+ *
+ * `failures` fails the first N deliveries per channel, e.g. { slack: 2 }.
+ */
+export function createNotificationStubServer({ failures = {}, port = 0, smtpPort = 0, smtpAuth = false } = {}) {
+  const requests = [];
+  const remaining = { ...failures };
+  const shouldFail = (channel) => {
+    if (!remaining[channel]) return false;
+    remaining[channel]--;
+    return true;
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    const channel = channelOf(url.pathname);
+    const body = await readBody(req);
+
+    if (req.method !== 'POST' || !channel) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('not found');
+      return;
+    }
+    if (shouldFail(channel)) {
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('stub failure');
+      return;
+    }
+
+    requests.push({ channel, path: url.pathname, headers: req.headers, body: parseJson(body) });
+    if (channel === 'telegram') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, result: { message_id: requests.length } }));
+    } else {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('ok');
+    }
+  });
+
+  const smtp = net.createServer((socket) => handleSmtp(socket, {
+    advertiseAuth: smtpAuth,
+    shouldFail: () => shouldFail('smtp'),
+    onMessage: (mail) => requests.push({ channel: 'smtp', ...mail }),
+  }));
+
+  const listen = (srv, p) => new Promise((resolve, reject) => {
+    srv.once('error', reject);
+    srv.listen(p, '127.0.0.1', () => resolve(srv.address().port));
+  });
+  const close = (srv) => new Promise((done) => srv.close(() => done()));
+
+  return Promise.all([listen(server, port), listen(smtp, smtpPort)]).then(([httpPort, boundSmtpPort]) => ({
+    origin: `http://127.0.0.1:${httpPort}`,
+    smtpPort: boundSmtpPort,
+    requests,
+    close: () => Promise.all([close(server), close(smtp)]).then(() => undefined),
+  }));
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  const port = parseInt(process.argv[2] || '8788', 10);
+  const smtpPort = parseInt(process.argv[3] || '2525', 10);
+  const stub = await createNotificationStubServer({ port, smtpPort });
+  console.log('[notification-stub] listening — start the scheduler with:');
+  console.log(`  TELEGRAM_API_BASE=${stub.origin} TELEGRAM_BOT_TOKEN=stub TELEGRAM_CHAT_ID=1`);
+  console.log(`  SLACK_WEBHOOK_URL=${stub.origin}/slack NOTIFY_WEBHOOK_URL=${stub.origin}/webhook`);
+  console.log(`  SMTP_HOST=127.0.0.1 SMTP_PORT=${stub.smtpPort} SMTP_FROM=bot@careradar.local SMTP_TO=team@careradar.local`);
+
+  let logged = 0;
+  setInterval(() => {
+    for (const r of stub.requests.slice(logged)) {
+      const summary = r.channel === 'smtp' ? `${r.from} → ${r.to.join(', ')}` : JSON.stringify(r.body).slice(0, 160);
+      console.log(`[notification-stub] ${r.channel}: ${summary}`);
+    }
+    logged = stub.requests.length;
+  }, 500);
+}
@@ -10,16 +10,16 @@
  *   node scripts/setup-telegram-webhook.mjs your-app.up.railway.app
  *
  * 환경변수:
- *   VITE_TELEGRAM_BOT_TOKEN — BotFather에서 받은 토큰
- *   TELEGRAM_WEBHOOK_SECRET — (선택) webhook 검증용 시크릿
+ *   TELEGRAM_BOT_TOKEN — BotFather에서 받은 토큰 (레거시: VITE_TELEGRAM_BOT_TOKEN)
+ *   TELEGRAM_WEBHOOK_SECRET — webhook 검증용 시크릿 (없으면 봇의 쓰기 명령이 거부됨)
  */
 
-const BOT_TOKEN = process.env.VITE_TELEGRAM_BOT_TOKEN;
+const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || process.env.VITE_TELEGRAM_BOT_TOKEN;
 const SECRET = process.env.TELEGRAM_WEBHOOK_SECRET || '';
 const DOMAIN = process.argv[2];
 
 if (!BOT_TOKEN) {
-  console.error('❌ VITE_TELEGRAM_BOT_TOKEN 환경변수가 설정되지 않았습니다.');
+  console.error('❌ TELEGRAM_BOT_TOKEN 환경변수가 설정되지 않았습니다.');
   process.exit(1);
 }
 
@@ -37,12 +37,13 @@ async function main() {
   console.log(`\n🤖 우하나봇 Webhook 설정\n`);
   console.log(`   Webhook URL: ${WEBHOOK_URL}`);
   if (SECRET) console.log(`   Secret: ${SECRET.slice(0, 4)}****`);
+  else console.log('   ⚠️ TELEGRAM_WEBHOOK_SECRET 미설정 — 구독·키워드·버튼 액션 저장이 거부됩니다');
   console.log();
 
   // 1. Set webhook
   const params = new URLSearchParams({
     url: WEBHOOK_URL,
-    allowed_updates: JSON.stringify(['message', 'edited_message']),
+    allowed_updates: JSON.stringify(['message', 'edited_message', 'callback_query']),
   });
   if (SECRET) params.set('secret_token', SECRET);
 
@@ -74,9 +75,13 @@ async function main() {
     { command: 'procurement', description: '공공조달 공고 조회' },
     { command: 'brief', description: 'Daily Brief 생성' },
     { command: 'report', description: '주간 리포트' },
+    { command: 'subscribe', description: '이 채팅의 알림 구독 (트랙·알림·언어)' },
     { command: 'alert', description: '알림 on/off' },
-    { command: 'threshold', description: '알림 임계값 변경' },
+    { command: 'threshold', description: '이 채팅의 알림 임계값 변경' },
+    { command: 'quiet', description: '방해 금지 시간 (예: 23-7, off)' },
+    { command: 'lang', description: '메시지 언어 (ko/en)' },
     { command: 'keyword', description: '키워드 추가/삭제/목록' },
+    { command: 'exclude', description: '기사 제외 / 제외 목록' },
     { command: 'status', description: '시스템 상태 확인' },
     { command: 'help', description: '명령어 목록' },
   ];
@@ -0,0 +1,280 @@
+/**
+ * Shared DART (opendart.fss.or.kr) access with Redis caching.
+ *
+ * - Filing lists (list.json) per corp code, cached per corp and date window.
+ * - Corp-code lookup against the corpCode.xml dump (a zipped XML of every
+ *   registered company). The scheduler rebuilds it daily into a compact
+ *   Redis index that searches read (kept in memory per instance); search
+ *   results are cached in Redis per query.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import { CHROME_UA } from './constants';
+import { getCachedJson, setCachedJson, setJsonChecked } from './redis';
+
+const DART_API_URL = 'https://opendart.fss.or.kr/api';
+const DART_TIMEOUT_MS = 15_000;
+const CORP_CODE_TIMEOUT_MS = 60_000;
+const DISCLOSURE_CACHE_TTL = 3600; // 1 hour — filings are published in batches during the day
+const CORP_SEARCH_CACHE_TTL = 86400; // 24 hours — the corpCode dump is regenerated daily
+const CORP_INDEX_KEY = 'dart:corp-index:v1';
+const CORP_INDEX_TTL = 2 * 86400; // 2 days — rebuilt daily, so one missed run keeps the last index
+const CORP_INDEX_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface DartRawFiling {
+  corp_code?: string;
+  corp_name?: string;
+  report_nm?: string;
+  rcept_no?: string;
+  flr_nm?: string;
+  rcept_dt?: string;
+  rm?: string;
+}
+
+export interface DartCorp {
+  corpCode: string;
+  name: string;
+  stockCode: string;
+}
+
+export function isDartConfigured(): boolean {
+  return !!process.env.DART_API_KEY;
+}
+
+// YYYYMMDD in KST — list.json's bgn_de/end_de format
+function kstDate(date: Date): string {
+  return new Date(date.getTime() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Recent filings for one company, newest first. Cached per corp code and window.
+ * Throws on DART errors other than "no data" (status 013).
+ */
+export async function fetchDartFilingsCached(corpCode: string, days: number): Promise<DartRawFiling[]> {
+  const apiKey = process.env.DART_API_KEY;
+  if (!apiKey) return [];
+
+  const now = new Date();
+  const bgn = kstDate(new Date(now.getTime() - days * 24 * 60 * 60 * 1000));
+  const end = kstDate(now);
+  const cacheKey = `dart:filings:${corpCode}:${bgn}:${end}`;
+  const cached = (await getCachedJson(cacheKey)) as DartRawFiling[] | null;
+  if (cached) return cached;
+
+  const params = new URLSearchParams({
+    crtfc_key: apiKey,
+    corp_code: corpCode,
+    bgn_de: bgn,
+    end_de: end,
+    page_count: '100',
+  });
+  const resp = await fetch(`${DART_API_URL}/list.json?${params}`, {
+    headers: { Accept: 'application/json', 'User-Agent': CHROME_UA },
+    signal: AbortSignal.timeout(DART_TIMEOUT_MS),
+  });
+  if (!resp.ok) throw new Error(`DART API error: ${resp.status}`);
+
+  const data = (await resp.json()) as { status?: string; message?: string; list?: DartRawFiling[] };
+  if (data.status === '013') {
+    setCachedJson(cacheKey, [], DISCLOSURE_CACHE_TTL).catch(() => {});
+    return [];
+  }
+  if (data.status !== '000') throw new Error(`DART ${data.status}: ${data.message || 'unknown error'}`);
+
+  const filings = data.list || [];
+  setCachedJson(cacheKey, filings, DISCLOSURE_CACHE_TTL).catch(() => {});
+  return filings;
+}
+
+// ========================================================================
+// corpCode.xml lookup
+// ========================================================================
+
+let corpIndex: { corps: DartCorp[]; loadedAt: number } | null = null;
+let corpIndexInflight: Promise<DartCorp[]> | null = null;
+
+/**
+ * Extracts the single entry of the corpCode.zip archive. Reads sizes from the
+ * central directory because the local header may defer them to a data descriptor.
+ */
+async function unzipSingleEntry(buf: ArrayBuffer): Promise<string> {
+  const view = new DataView(buf);
+  let eocd = -1;
+  for (let i = buf.byteLength - 22; i >= Math.max(0, buf.byteLength - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('corpCode.xml: not a zip archive');
+
+  const central = view.getUint32(eocd + 16, true);
+  if (view.getUint32(central, true) !== 0x02014b50) throw new Error('corpCode.xml: bad central directory');
+  const method = view.getUint16(central + 10, true);
+  const compressedSize = view.getUint32(central + 20, true);
+  const localHeader = view.getUint32(central + 42, true);
+  const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+  const data = new Uint8Array(buf, dataStart, compressedSize);
+
+  if (method === 0) return new TextDecoder().decode(data);
+  if (method !== 8) throw new Error(`corpCode.xml: unsupported compression method ${method}`);
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseCorpCodeXml(xml: string): DartCorp[] {
+  const corps: DartCorp[] = [];
+  const field = (block: string, tag: string) => block.match(new RegExp(`<${tag}>([^<]*)</${tag}>`))?.[1]?.trim() ?? '';
+  for (const match of xml.matchAll(/<list>([\s\S]*?)<\/list>/g)) {
+    const block = match[1]!;
+    const corpCode = field(block, 'corp_code');
+    const name = field(block, 'corp_name');
+    if (corpCode && name) corps.push({ corpCode, name, stockCode: field(block, 'stock_code') });
+  }
+  return corps;
+}
+
+/** Parses the corpCode.xml download (the zip archive, or DART's XML error body). */
+export async function readCorpCodeZip(buf: ArrayBuffer): Promise<DartCorp[]> {
+  // Errors (bad key, quota) come back as an XML status body instead of the zip
+  const head = new Uint8Array(buf, 0, Math.min(2, buf.byteLength));
+  if (head[0] !== 0x50 || head[1] !== 0x4b) {
+    throw new Error(`DART corpCode error: ${new TextDecoder().decode(buf.slice(0, 200))}`);
+  }
+  return parseCorpCodeXml(await unzipSingleEntry(buf));
+}
+
+// Compact Redis form of the index — one "corpCode\tname\tstockCode" line per company
+function encodeCorpIndex(corps: DartCorp[]): string {
+  return corps.map((c) => `${c.corpCode}\t${c.name}\t${c.stockCode}`).join('\n');
+}
+
+function decodeCorpIndex(text: string): DartCorp[] {
+  return text.split('\n').map((line) => {
+    const [corpCode = '', name = '', stockCode = ''] = line.split('\t');
+    return { corpCode, name, stockCode };
+  }).filter((c) => c.corpCode && c.name);
+}
+
+async function downloadCorpIndex(apiKey: string): Promise<DartCorp[]> {
+  const resp = await fetch(`${DART_API_URL}/corpCode.xml?crtfc_key=${encodeURIComponent(apiKey)}`, {
+    headers: { 'User-Agent': CHROME_UA },
+    signal: AbortSignal.timeout(CORP_CODE_TIMEOUT_MS),
+  });
+  if (!resp.ok) throw new Error(`DART corpCode error: ${resp.status}`);
+  return readCorpCodeZip(await resp.arrayBuffer());
+}
+
+async function storeCorpIndex(corps: DartCorp[]): Promise<boolean> {
+  corpIndex = { corps, loadedAt: Date.now() };
+  return setJsonChecked(CORP_INDEX_KEY, encodeCorpIndex(corps), CORP_INDEX_TTL);
+}
+
+/**
+ * Downloads corpCode.xml and stores the compact index in Redis (scheduler job).
+ * Returns the number of companies, or null when DART or Redis is not configured.
+ */
+export async function refreshDartCorpIndex(): Promise<number | null> {
+  const apiKey = process.env.DART_API_KEY;
+  if (!apiKey) return null;
+  const corps = await downloadCorpIndex(apiKey);
+  return (await storeCorpIndex(corps)) ? corps.length : null;
+}
+
+async function loadCorpIndex(apiKey: string): Promise<DartCorp[]> {
+  if (corpIndex && Date.now() - corpIndex.loadedAt < CORP_INDEX_TTL_MS) return corpIndex.corps;
+  if (!corpIndexInflight) {
+    corpIndexInflight = (async () => {
+      const stored = await getCachedJson(CORP_INDEX_KEY);
+      if (typeof stored === 'string') {
+        const corps = decodeCorpIndex(stored);
+        corpIndex = { corps, loadedAt: Date.now() };
+        return corps;
+      }
+      // Not built yet (first deploy, or Redis was flushed) — build it once and share it
+      const corps = await downloadCorpIndex(apiKey);
+      await storeCorpIndex(corps);
+      return corps;
+    })().finally(() => {
+      corpIndexInflight = null;
+    });
+  }
+  return corpIndexInflight;
+}
+
+/**
+ * Looks up DART corp codes by company name. Exact matches first, then listed
+ * companies, then shorter names. Returns at most `limit` results.
+ */
+export async function searchDartCorps(query: string, limit = 20): Promise<DartCorp[]> {
+  const apiKey = process.env.DART_API_KEY;
+  const q = query.trim().toLowerCase();
+  if (!apiKey || !q) return [];
+
+  const cacheKey = `dart:corp-search:${q}:${limit}`;
+  const cached = (await getCachedJson(cacheKey)) as DartCorp[] | null;
+  if (cached) return cached;
+
+  const corps = await loadCorpIndex(apiKey);
+  const rank = (c: DartCorp) => (c.name.toLowerCase() === q ? 0 : 2) + (c.stockCode ? 0 : 1);
+  const results = corps
+    .filter((c) => c.name.toLowerCase().includes(q) || c.corpCode === q || (c.stockCode && c.stockCode === q))
+    .sort((a, b) => rank(a) - rank(b) || a.name.length - b.name.length)
+    .slice(0, limit);
+
+  setCachedJson(cacheKey, results, CORP_SEARCH_CACHE_TTL).catch(() => {});
+  return results;
+}
+
+// ========================================================================
+// Key accounts (fnlttSinglAcnt.json)
+// ========================================================================
+
+const KEY_ACCOUNTS_CACHE_TTL = 86400; // 24 hours — annual reports are not restated within a day
+const ANNUAL_REPORT_CODE = '11011';
+
+export interface DartRawAccount {
+  account_nm?: string;
+  fs_div?: string;
+  sj_div?: string;
+  thstrm_amount?: string;
+  frmtrm_amount?: string;
+  bfefrmtrm_amount?: string;
+}
+
+/**
+ * Key accounts of one annual report (both CFS and OFS rows). Cached per corp
+ * code and year. Empty when the report is not filed (status 013).
+ */
+export async function fetchDartKeyAccountsCached(corpCode: string, year: number): Promise<DartRawAccount[]> {
+  const apiKey = process.env.DART_API_KEY;
+  if (!apiKey) return [];
+
+  const cacheKey = `dart:key-accounts:${corpCode}:${year}`;
+  const cached = (await getCachedJson(cacheKey)) as DartRawAccount[] | null;
+  if (cached) return cached;
+
+  const params = new URLSearchParams({
+    crtfc_key: apiKey,
+    corp_code: corpCode,
+    bsns_year: String(year),
+    reprt_code: ANNUAL_REPORT_CODE,
+  });
+  const resp = await fetch(`${DART_API_URL}/fnlttSinglAcnt.json?${params}`, {
+    headers: { Accept: 'application/json', 'User-Agent': CHROME_UA },
+    signal: AbortSignal.timeout(DART_TIMEOUT_MS),
+  });
+  if (!resp.ok) throw new Error(`DART API error: ${resp.status}`);
+
+  const data = (await resp.json()) as { status?: string; message?: string; list?: DartRawAccount[] };
+  if (data.status === '013') {
+    setCachedJson(cacheKey, [], KEY_ACCOUNTS_CACHE_TTL).catch(() => {});
+    return [];
+  }
+  if (data.status !== '000') throw new Error(`DART ${data.status}: ${data.message || 'unknown error'}`);
+
+  const accounts = data.list || [];
+  setCachedJson(cacheKey, accounts, KEY_ACCOUNTS_CACHE_TTL).catch(() => {});
+  return accounts;
+}
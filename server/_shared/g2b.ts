@@ -0,0 +1,156 @@
+/**
+ * Server-only 나라장터 (data.go.kr BidPublicInfoService / ScsbidInfoService) client.
+ *
+ * Used by the procurement tracking job, which writes shared rows with the
+ * service role and so cannot take bids or awards from the browser, and by
+ * the browser's proxy (api/g2b/[[...path]].ts). G2B_API_BASE overrides the
+ * upstream origin (scripts/g2b-fixture-server.mjs).
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import type { NaraAward, NaraBidKind, NaraProcurement } from '../../src/services/naraApi';
+
+const DEFAULT_BASE = 'https://apis.data.go.kr/1230000';
+const BID_SERVICE = 'BidPublicInfoService04';
+const AWARD_SERVICE = 'ScsbidInfoService';
+const UPSTREAM_TIMEOUT_MS = 15_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SEARCH_KEYWORDS = ['인공지능', 'AI', '돌봄', '장애인', '행동분석', '정신건강', '디지털치료', '원격의료', '케어', '복지'];
+
+const BID_KINDS: Array<{ kind: NaraBidKind; operation: string; awardOperation: string }> = [
+  { kind: 'service', operation: 'getBidPblancListInfoServcPPSSrch', awardOperation: 'getScsbidListSttusServcPPSSrch' },
+  { kind: 'goods', operation: 'getBidPblancListInfoThngPPSSrch', awardOperation: 'getScsbidListSttusThngPPSSrch' },
+];
+
+type UpstreamItem = Record<string, unknown>;
+
+function getApiKey(): string {
+  return process.env.G2B_API_KEY || '';
+}
+
+export function isG2bConfigured(): boolean {
+  return !!getApiKey();
+}
+
+function upstreamBase(): string {
+  return (process.env.G2B_API_BASE || DEFAULT_BASE).replace(/\/+$/, '');
+}
+
+/** yyyyMMddHHmm in KST — the API's inqryBgnDt/inqryEndDt format */
+function kstStamp(date: Date): string {
+  const kst = new Date(date.getTime() + 9 * 60 * 60 * 1000);
+  return kst.toISOString().slice(0, 16).replace(/[-T:]/g, '');
+}
+
+/** "2026-03-02 10:00:00" (KST) → ISO 8601; '' when missing */
+function kstToIso(value: unknown): string {
+  const text = String(value || '').trim();
+  if (!text) return '';
+  const date = new Date(`${text.replace(' ', 'T')}+09:00`);
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString();
+}
+
+function toNumber(value: unknown): number {
+  const num = Number(String(value ?? '').replace(/,/g, ''));
+  return Number.isFinite(num) ? num : 0;
+}
+
+async function callUpstream(service: string, operation: string, params: Record<string, string>): Promise<UpstreamItem[]> {
+  const query = new URLSearchParams({ numOfRows: '50', pageNo: '1', type: 'json', ...params });
+  // serviceKey is issued URL-encoded; append it as-is to avoid double encoding
+  const url = `${upstreamBase()}/${service}/${operation}?serviceKey=${getApiKey()}&${query}`;
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`${operation} HTTP ${response.status}`);
+
+  const data = await response.json() as {
+    response?: { header?: { resultCode?: string; resultMsg?: string }; body?: { items?: unknown } };
+  };
+  const header = data?.response?.header;
+  if (header?.resultCode && header.resultCode !== '00') {
+    throw new Error(`${operation} ${header.resultCode} ${header.resultMsg || ''}`.trim());
+  }
+  const items = data?.response?.body?.items as UpstreamItem[] | { item?: UpstreamItem | UpstreamItem[] } | string | undefined;
+  if (Array.isArray(items)) return items;
+  if (!items || typeof items === 'string') return [];
+  if (Array.isArray(items.item)) return items.item;
+  return items.item ? [items.item] : [];
+}
+
+function normalizeBid(item: UpstreamItem, kind: NaraBidKind): NaraProcurement {
+  const bidNtceNo = String(item.bidNtceNo || '');
+  const bidNtceOrd = String(item.bidNtceOrd || '00');
+  return {
+    id: `${bidNtceNo}-${bidNtceOrd}`,
+    bidNtceNo,
+    bidNtceOrd,
+    kind,
+    title: String(item.bidNtceNm || ''),
+    agency: String(item.ntceInsttNm || ''),
+    demandAgency: String(item.dminsttNm || ''),
+    estimatedPrice: toNumber(item.presmptPrce) || toNumber(item.asignBdgtAmt),
+    announcedAt: kstToIso(item.bidNtceDt),
+    deadline: kstToIso(item.bidClseDt),
+    openingAt: kstToIso(item.opengDt),
+    cancelled: String(item.ntceKindNm || '').includes('취소'),
+    url: String(item.bidNtceDtlUrl || '')
+      || `https://www.g2b.go.kr/pt/menu/selectSubFrame.do?framesrc=/pt/menu/frameTgong.do?bidNtceNo=${bidNtceNo}`,
+  };
+}
+
+function normalizeAward(item: UpstreamItem): NaraAward {
+  return {
+    bidNtceNo: String(item.bidNtceNo || ''),
+    bidNtceOrd: String(item.bidNtceOrd || '00'),
+    awardedTo: String(item.bidwinnrNm || ''),
+    awardedPrice: toNumber(item.sucsfbidAmt),
+    awardRate: toNumber(item.sucsfbidRate),
+    openedAt: kstToIso(item.rlOpengDt),
+  };
+}
+
+/** AI/돌봄 bids announced in the last `days` days, latest 차수 only. Throws when every search failed. */
+export async function searchNaraBids(days = 30, now = new Date()): Promise<NaraProcurement[]> {
+  if (!isG2bConfigured()) return [];
+  const range = {
+    inqryDiv: '1',
+    inqryBgnDt: kstStamp(new Date(now.getTime() - days * DAY_MS)),
+    inqryEndDt: kstStamp(now),
+  };
+
+  const jobs = BID_KINDS.flatMap(({ kind, operation }) => SEARCH_KEYWORDS.map((keyword) =>
+    callUpstream(BID_SERVICE, operation, { ...range, bidNtceNm: keyword })
+      .then((items) => items.map((item) => normalizeBid(item, kind)))));
+
+  const settled = await Promise.allSettled(jobs);
+  const failure = settled.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failure && settled.every((r) => r.status === 'rejected')) throw failure.reason;
+
+  const byNo = new Map<string, NaraProcurement>();
+  for (const result of settled) {
+    if (result.status !== 'fulfilled') continue;
+    for (const bid of result.value) {
+      const prev = byNo.get(bid.bidNtceNo);
+      if (!prev || bid.bidNtceOrd > prev.bidNtceOrd) byNo.set(bid.bidNtceNo, bid);
+    }
+  }
+  return [...byNo.values()].sort((a, b) => b.announcedAt.localeCompare(a.announcedAt));
+}
+
+/** Award results for closed bids; bids without a result yet are left out. */
+export async function lookupNaraAwards(bidNtceNos: string[]): Promise<NaraAward[]> {
+  if (!isG2bConfigured() || bidNtceNos.length === 0) return [];
+  const settled = await Promise.allSettled([...new Set(bidNtceNos)].map(async (bidNtceNo) => {
+    for (const { awardOperation } of BID_KINDS) {
+      const items = await callUpstream(AWARD_SERVICE, awardOperation, { inqryDiv: '4', bidNtceNo });
+      const award = items.map(normalizeAward).find((a) => a.awardedTo);
+      if (award) return award;
+    }
+    return null;
+  }));
+  return settled.flatMap((r) => (r.status === 'fulfilled' && r.value ? [r.value] : []));
+}
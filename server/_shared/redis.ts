@@ -49,6 +49,154 @@ export async function setCachedJson(key: string, value: unknown, ttlSeconds: num
   } catch { /* best-effort */ }
 }
 
+/**
+ * Claims `key` with SET NX EX — true only for the first caller until the TTL
+ * expires, false if someone else holds it. Returns null when Redis is not
+ * configured or unreachable so callers can decide how to degrade.
+ */
+export async function claimKeyOnce(key: string, ttlSeconds: number): Promise<boolean | null> {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+  if (!url || !token) return null;
+  try {
+    const resp = await fetch(`${url}/set/${encodeURIComponent(prefixKey(key))}/${Date.now()}/NX/EX/${ttlSeconds}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      signal: AbortSignal.timeout(3_000),
+    });
+    if (!resp.ok) return null;
+    const data = (await resp.json()) as { result?: string | null };
+    return data.result === 'OK';
+  } catch {
+    return null;
+  }
+}
+
+/** Releases a key taken with claimKeyOnce (best-effort). */
+export async function releaseKey(key: string): Promise<void> {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+  if (!url || !token) return;
+  try {
+    await fetch(`${url}/del/${encodeURIComponent(prefixKey(key))}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      signal: AbortSignal.timeout(3_000),
+    });
+  } catch { /* best-effort */ }
+}
+
+/**
+ * Appends a JSON value to a Redis list, trims it to the newest `maxLength`
+ * entries and refreshes the TTL in one pipeline call. Values travel in the
+ * request body, so entries are not bound by URL length like setCachedJson.
+ * Returns false when Redis is not configured or the write failed.
+ */
+export async function pushJsonList(key: string, value: unknown, maxLength: number, ttlSeconds: number): Promise<boolean> {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+  if (!url || !token) return false;
+  const k = prefixKey(key);
+  try {
+    const resp = await fetch(`${url}/pipeline`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify([
+        ['RPUSH', k, JSON.stringify(value)],
+        ['LTRIM', k, String(-maxLength), '-1'],
+        ['EXPIRE', k, String(ttlSeconds)],
+      ]),
+      signal: AbortSignal.timeout(3_000),
+    });
+    if (!resp.ok) return false;
+    const data = (await resp.json()) as Array<{ error?: string }>;
+    return !data.some((r) => r?.error);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Runs commands through the pipeline endpoint (values in the request body).
+ * Returns null when Redis is not configured, the call failed or any command errored.
+ */
+async function runPipeline(commands: string[][]): Promise<Array<{ result?: unknown }> | null> {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+  if (!url || !token) return null;
+  try {
+    const resp = await fetch(`${url}/pipeline`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(commands),
+      signal: AbortSignal.timeout(3_000),
+    });
+    if (!resp.ok) return null;
+    const data = (await resp.json()) as Array<{ result?: unknown; error?: string }>;
+    return data.some((r) => r?.error) ? null : data;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * SET with EX like setCachedJson, but the value travels in the request body and
+ * the outcome is reported: false when Redis is not configured or the write failed.
+ * Use it for values the caller must not silently lose (saved settings).
+ */
+export async function setJsonChecked(key: string, value: unknown, ttlSeconds: number): Promise<boolean> {
+  return (await runPipeline([['SET', prefixKey(key), JSON.stringify(value), 'EX', String(ttlSeconds)]])) !== null;
+}
+
+/**
+ * Adds a member to a Redis set (SADD) and refreshes its TTL. Unlike a JSON array
+ * read-modify-write, concurrent adds cannot drop each other. False on failure.
+ */
+export async function addSetMember(key: string, member: string, ttlSeconds: number): Promise<boolean> {
+  const k = prefixKey(key);
+  return (await runPipeline([['SADD', k, member], ['EXPIRE', k, String(ttlSeconds)]])) !== null;
+}
+
+/** Members of a Redis set (SMEMBERS) — empty when Redis is unavailable. */
+export async function getSetMembers(key: string): Promise<string[]> {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+  if (!url || !token) return [];
+  try {
+    const resp = await fetch(`${url}/smembers/${encodeURIComponent(prefixKey(key))}`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: AbortSignal.timeout(3_000),
+    });
+    if (!resp.ok) return [];
+    const data = (await resp.json()) as { result?: string[] };
+    return data.result ?? [];
+  } catch {
+    return [];
+  }
+}
+
+/** Reads a list written by pushJsonList, oldest first. Malformed entries are skipped. */
+export async function getJsonList(key: string): Promise<unknown[]> {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+  if (!url || !token) return [];
+  try {
+    const resp = await fetch(`${url}/lrange/${encodeURIComponent(prefixKey(key))}/0/-1`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: AbortSignal.timeout(3_000),
+    });
+    if (!resp.ok) return [];
+    const data = (await resp.json()) as { result?: string[] };
+    const values: unknown[] = [];
+    for (const raw of data.result ?? []) {
+      try { values.push(JSON.parse(raw)); } catch { /* skip malformed */ }
+    }
+    return values;
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Batch GET using Upstash pipeline API — single HTTP round-trip for N keys.
  * Returns a Map of key → parsed JSON value (missing/failed keys omitted).
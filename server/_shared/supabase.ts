@@ -0,0 +1,78 @@
+/**
+ * Minimal Supabase PostgREST access for server jobs.
+ *
+ * Uses the service-role key (bypasses RLS), so it must only run server-side.
+ * Filters are passed as PostgREST query pairs, e.g. [['date', 'gte.2026-01-01']].
+ * Shared rows that the browser may only read (procurement tracking) are
+ * written here as well.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+const SUPABASE_TIMEOUT_MS = 10_000;
+
+export type PostgrestQuery = Array<[string, string]>;
+
+function getConfig(): { url: string; key: string } | null {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) return null;
+  return { url: url.replace(/\/$/, ''), key };
+}
+
+export function isSupabaseConfigured(): boolean {
+  return getConfig() !== null;
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+async function request(table: string, query: PostgrestQuery, init: RequestOptions = {}): Promise<Response> {
+  const config = getConfig();
+  if (!config) throw new Error('Supabase not configured (SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)');
+
+  const params = new URLSearchParams(query);
+  const resp = await fetch(`${config.url}/rest/v1/${table}?${params}`, {
+    method: init.method ?? 'GET',
+    headers: {
+      apikey: config.key,
+      Authorization: `Bearer ${config.key}`,
+      Accept: 'application/json',
+      ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...init.headers,
+    },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    signal: AbortSignal.timeout(SUPABASE_TIMEOUT_MS),
+  });
+  if (!resp.ok) throw new Error(`Supabase ${table} ${resp.status}: ${(await resp.text()).slice(0, 200)}`);
+  return resp;
+}
+
+export async function selectRows<T>(table: string, query: PostgrestQuery): Promise<T[]> {
+  const resp = await request(table, query);
+  return (await resp.json()) as T[];
+}
+
+/** Exact row count via the Content-Range header (transfers at most one id). */
+export async function countRows(table: string, query: PostgrestQuery): Promise<number> {
+  const resp = await request(table, [['select', 'id'], ['limit', '1'], ...query], { headers: { Prefer: 'count=exact' } });
+  const total = resp.headers.get('content-range')?.split('/')[1];
+  return total && total !== '*' ? Number(total) : 0;
+}
+
+/**
+ * Inserts or merges rows on the `onConflict` columns and returns them as stored.
+ * Every row must carry the same keys (PostgREST bulk insert).
+ */
+export async function upsertRows<T>(table: string, rows: object[], onConflict: string, select = '*'): Promise<T[]> {
+  if (rows.length === 0) return [];
+  const resp = await request(table, [['on_conflict', onConflict], ['select', select]], {
+    method: 'POST',
+    body: rows,
+    headers: { Prefer: 'resolution=merge-duplicates,return=representation' },
+  });
+  return (await resp.json()) as T[];
+}
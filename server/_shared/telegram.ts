@@ -0,0 +1,75 @@
+/**
+ * Server-only Telegram Bot API client.
+ *
+ * The bot token never leaves the server: it is read from TELEGRAM_BOT_TOKEN
+ * (VITE_TELEGRAM_BOT_TOKEN is still honoured for deployments configured before
+ * the scheduler existed, but is not bundled into the browser by this module).
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+const TELEGRAM_TIMEOUT_MS = 10_000;
+const TELEGRAM_API_BASE = 'https://api.telegram.org';
+
+function getBotToken(): string {
+  return process.env.TELEGRAM_BOT_TOKEN || process.env.VITE_TELEGRAM_BOT_TOKEN || '';
+}
+
+/** Default chat for scheduled notifications. */
+export function getDefaultChatId(): string {
+  return process.env.TELEGRAM_CHAT_ID || process.env.VITE_TELEGRAM_CHAT_ID || '';
+}
+
+/**
+ * Chats that may change shared state through the bot (keyword profile,
+ * exclusions, dashboard actions): the default chat plus TELEGRAM_ADMIN_CHAT_IDS
+ * (comma-separated). api/telegram/webhook.js reads the same variables.
+ */
+export function isAdminChat(chatId: string | number): boolean {
+  const ids = [getDefaultChatId(), ...(process.env.TELEGRAM_ADMIN_CHAT_IDS || '').split(',')]
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return ids.includes(String(chatId));
+}
+
+/** Enough to reach chats that subscribed through the webhook, without a default chat. */
+export function hasBotToken(): boolean {
+  return !!getBotToken();
+}
+
+/** TELEGRAM_API_BASE points the client at a local stub (scripts/notification-stub-server.mjs). */
+function getApiBase(): string {
+  return (process.env.TELEGRAM_API_BASE || TELEGRAM_API_BASE).replace(/\/+$/, '');
+}
+
+export interface SendTelegramOptions {
+  chatId?: string | number;
+  replyMarkup?: unknown;
+}
+
+/**
+ * Sends an HTML message. Throws when the bot is not configured or Telegram
+ * rejects the message, so callers can retry.
+ */
+export async function sendTelegramMessage(text: string, options: SendTelegramOptions = {}): Promise<void> {
+  const token = getBotToken();
+  const chatId = options.chatId ?? getDefaultChatId();
+  if (!token || !chatId) throw new Error('Telegram bot not configured (TELEGRAM_BOT_TOKEN, TELEGRAM_CHAT_ID)');
+
+  const resp = await fetch(`${getApiBase()}/bot${token}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      chat_id: chatId,
+      text,
+      parse_mode: 'HTML',
+      disable_web_page_preview: true,
+      ...(options.replyMarkup ? { reply_markup: options.replyMarkup } : {}),
+    }),
+    signal: AbortSignal.timeout(TELEGRAM_TIMEOUT_MS),
+  });
+  if (!resp.ok) {
+    const body = (await resp.json().catch(() => null)) as { description?: string } | null;
+    throw new Error(`Telegram sendMessage ${resp.status}: ${body?.description || 'unknown error'}`);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Slack incoming-webhook transport.
+ *
+ * The webhook URL carries its own credentials and target channel, so the
+ * rendered message is the whole request body.
+ */
+
+import type { SlackMessage } from '../../../src/services/notifications/types';
+
+const SLACK_TIMEOUT_MS = 10_000;
+
+/** Posts a message. Throws on a non-2xx reply (Slack answers e.g. 400 "invalid_blocks"). */
+export async function postSlackMessage(webhookUrl: string, message: SlackMessage): Promise<void> {
+  const resp = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(message),
+    signal: AbortSignal.timeout(SLACK_TIMEOUT_MS),
+  });
+  if (!resp.ok) {
+    const body = await resp.text().catch(() => '');
+    throw new Error(`Slack webhook ${resp.status}: ${body || 'unknown error'}`);
+  }
+}
@@ -0,0 +1,262 @@
+/// <reference types="node" />
+/**
+ * Minimal SMTP client for notification e-mail.
+ *
+ * Covers what a relay or a provider's submission port needs: implicit TLS
+ * (port 465, SMTP_SECURE=true), STARTTLS when the server advertises it, AUTH
+ * PLAIN/LOGIN, and a multipart/alternative (text + HTML) UTF-8 message.
+ * Credentials are never sent over an unencrypted connection.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { connect as connectTcp, type Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+
+import type { EmailMessage } from '../../../src/services/notifications/types';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Implicit TLS from the first byte (port 465); otherwise STARTTLS when offered. */
+  secure: boolean;
+  user: string;
+  pass: string;
+  /** Sender, either "bot@example.com" or "CareRadar <bot@example.com>". */
+  from: string;
+  to: string[];
+  /** Set false only for relays with self-signed certificates. */
+  rejectUnauthorized?: boolean;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const SMTP_TIMEOUT_MS = 15_000;
+const EHLO_NAME = 'careradar.local';
+const HEADER_CHUNK_BYTES = 45; // base64 of 45 bytes keeps each encoded-word under 76 chars
+
+/**
+ * One SMTP session over a socket that may be upgraded in place by STARTTLS.
+ * Replies are parsed into (code, lines) and handed out in order.
+ */
+class SmtpConnection {
+  socket: Socket;
+  secure: boolean;
+  private timeoutMs: number;
+  private buffer = '';
+  private partial: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: Socket, secure: boolean, timeoutMs: number) {
+    this.socket = socket;
+    this.secure = secure;
+    this.timeoutMs = timeoutMs;
+    this.listen(socket);
+  }
+
+  private listen(socket: Socket): void {
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error(`SMTP timeout after ${this.timeoutMs}ms`)));
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private unlisten(socket: Socket): void {
+    socket.setTimeout(0);
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('close', this.onClose);
+  }
+
+  private onData = (chunk: Buffer): void => {
+    this.buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      this.partial.push(line.slice(4));
+      // "250-SIZE" continues a multi-line reply, "250 OK" ends it
+      if (line[3] !== '-') {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.partial });
+        this.partial = [];
+      }
+    }
+    if (this.waiting && this.replies.length > 0) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting.resolve(this.replies.shift()!);
+    }
+  };
+
+  private onError = (error: Error): void => this.fail(error);
+
+  private onClose = (): void => this.fail(new Error('SMTP connection closed by server'));
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    if (this.waiting) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting.reject(this.failure);
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    const next = this.replies.shift();
+    if (next) return Promise.resolve(next);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => { this.waiting = { resolve, reject }; });
+  }
+
+  /**
+   * Sends a line (none for the greeting) and checks the reply code. `label`
+   * names the step in errors so AUTH payloads never end up in logs.
+   */
+  async command(line: string | null, expected: number[], label = line?.split(' ')[0] ?? 'greeting'): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} rejected: ${reply.code} ${reply.lines.join(' ')}`.trim());
+    }
+    return reply;
+  }
+
+  upgrade(host: string, rejectUnauthorized: boolean): Promise<void> {
+    this.unlisten(this.socket);
+    const secureSocket = connectTls({ socket: this.socket, servername: host, rejectUnauthorized });
+    this.socket = secureSocket;
+    this.secure = true;
+    this.listen(secureSocket);
+    return new Promise((resolve, reject) => {
+      secureSocket.once('secureConnect', () => resolve());
+      secureSocket.once('error', reject);
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+}
+
+/** EHLO extensions, upper-cased: "AUTH PLAIN LOGIN", "STARTTLS", … */
+function extensions(ehlo: SmtpReply): string[] {
+  return ehlo.lines.slice(1).map((l) => l.toUpperCase());
+}
+
+function authMechanisms(ehlo: SmtpReply): string[] {
+  const auth = extensions(ehlo).find((e) => e.startsWith('AUTH ') || e.startsWith('AUTH='));
+  return auth ? auth.slice(5).split(/\s+/) : [];
+}
+
+function b64(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64');
+}
+
+function addressOf(mailbox: string): string {
+  return (mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox).trim();
+}
+
+/** RFC 2047 encoded-words for non-ASCII header values, folded per chunk. */
+export function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const words: string[] = [];
+  let chunk = '';
+  for (const ch of value) {
+    if (Buffer.byteLength(chunk + ch, 'utf8') > HEADER_CHUNK_BYTES) {
+      words.push(`=?UTF-8?B?${b64(chunk)}?=`);
+      chunk = '';
+    }
+    chunk += ch;
+  }
+  if (chunk) words.push(`=?UTF-8?B?${b64(chunk)}?=`);
+  return words.join('\r\n ');
+}
+
+/** Encodes a display-name mailbox ("이름 <a@b>") without touching the address. */
+function encodeMailbox(mailbox: string): string {
+  const match = mailbox.match(/^(.*?)\s*<([^>]+)>$/);
+  return match && match[1] ? `${encodeHeader(match[1].replace(/^"|"$/g, ''))} <${match[2]}>` : mailbox;
+}
+
+function base64Body(text: string): string {
+  return b64(text).replace(/.{1,76}/g, '$&\r\n');
+}
+
+export function buildMimeMessage(config: Pick<SmtpConfig, 'from' | 'to'>, message: EmailMessage, date = new Date()): string {
+  const boundary = `careradar-${randomUUID()}`;
+  const domain = addressOf(config.from).split('@')[1] || EHLO_NAME;
+  return [
+    `From: ${encodeMailbox(config.from)}`,
+    `To: ${config.to.map(encodeMailbox).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+async function authenticate(conn: SmtpConnection, ehlo: SmtpReply, config: SmtpConfig): Promise<void> {
+  if (!conn.secure) {
+    throw new Error(`SMTP server ${config.host} offers no TLS; refusing to send credentials in plain text`);
+  }
+  const mechanisms = authMechanisms(ehlo);
+  if (mechanisms.includes('PLAIN')) {
+    await conn.command(`AUTH PLAIN ${b64(`\0${config.user}\0${config.pass}`)}`, [235], 'AUTH PLAIN');
+  } else if (mechanisms.includes('LOGIN')) {
+    await conn.command('AUTH LOGIN', [334]);
+    await conn.command(b64(config.user), [334], 'AUTH LOGIN user');
+    await conn.command(b64(config.pass), [235], 'AUTH LOGIN password');
+  } else {
+    throw new Error(`SMTP server ${config.host} supports neither AUTH PLAIN nor LOGIN`);
+  }
+}
+
+/** Delivers one message to every recipient. Throws on any rejected step. */
+export async function sendSmtpMail(config: SmtpConfig, message: EmailMessage): Promise<void> {
+  if (config.to.length === 0) throw new Error('SMTP recipients not configured');
+  const rejectUnauthorized = config.rejectUnauthorized ?? true;
+  const socket = config.secure
+    ? connectTls({ host: config.host, port: config.port, servername: config.host, rejectUnauthorized })
+    : connectTcp({ host: config.host, port: config.port });
+  const conn = new SmtpConnection(socket, config.secure, config.timeoutMs ?? SMTP_TIMEOUT_MS);
+
+  try {
+    await conn.command(null, [220]);
+    let ehlo = await conn.command(`EHLO ${EHLO_NAME}`, [250]);
+    if (!conn.secure && extensions(ehlo).includes('STARTTLS')) {
+      await conn.command('STARTTLS', [220]);
+      await conn.upgrade(config.host, rejectUnauthorized);
+      ehlo = await conn.command(`EHLO ${EHLO_NAME}`, [250]);
+    }
+    if (config.user) await authenticate(conn, ehlo, config);
+
+    await conn.command(`MAIL FROM:<${addressOf(config.from)}>`, [250], 'MAIL FROM');
+    for (const to of config.to) {
+      await conn.command(`RCPT TO:<${addressOf(to)}>`, [250, 251], `RCPT TO ${addressOf(to)}`);
+    }
+    await conn.command('DATA', [354]);
+    // Dot-stuffing: a line starting with "." gets an extra one so it cannot end DATA
+    await conn.command(`${buildMimeMessage(config, message).replace(/^\./gm, '..')}\r\n.`, [250], 'message');
+    await conn.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    conn.close();
+  }
+}
@@ -0,0 +1,42 @@
+/// <reference types="node" />
+/**
+ * Generic HTTP POST transport for notification events.
+ *
+ * Sends the rendered WebhookBody as JSON. When a secret is configured the raw
+ * body is signed with HMAC-SHA256 so receivers can verify the sender:
+ *
+ *   X-CareRadar-Event: opportunity
+ *   X-CareRadar-Signature: sha256=<hex digest of the body>
+ */
+
+import { createHmac } from 'node:crypto';
+
+import type { WebhookBody } from '../../../src/services/notifications/types';
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export const WEBHOOK_EVENT_HEADER = 'X-CareRadar-Event';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-CareRadar-Signature';
+
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/** Posts the event. Throws on a non-2xx reply. */
+export async function postWebhook(url: string, payload: WebhookBody, secret = ''): Promise<void> {
+  const body = JSON.stringify(payload);
+  const resp = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [WEBHOOK_EVENT_HEADER]: payload.event,
+      ...(secret ? { [WEBHOOK_SIGNATURE_HEADER]: signWebhookBody(body, secret) } : {}),
+    },
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!resp.ok) {
+    const text = await resp.text().catch(() => '');
+    throw new Error(`Webhook ${resp.status}: ${text.slice(0, 200) || 'unknown error'}`);
+  }
+}
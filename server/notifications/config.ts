@@ -0,0 +1,106 @@
+/**
+ * Notification channel configuration, read from the environment.
+ *
+ * Each channel is enabled by its address variable and subscribes to a set of
+ * events (<CHANNEL>_NOTIFY_EVENTS, comma-separated event types or "all"):
+ *
+ *   telegram  TELEGRAM_BOT_TOKEN + TELEGRAM_CHAT_ID          all events
+ *   slack     SLACK_WEBHOOK_URL                              team events
+ *   email     SMTP_HOST + SMTP_FROM + SMTP_TO                team events
+ *   webhook   NOTIFY_WEBHOOK_URL (+ NOTIFY_WEBHOOK_SECRET)   team events
+ *
+ * Team events are opportunity, procurement and competitor alerts; the study
+ * routine reminders stay on the personal Telegram chat unless opted in.
+ * Kept free of transport imports so the RPC gateway can describe channels.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import type { SmtpConfig } from './channels/smtp';
+import {
+  NOTIFICATION_EVENT_TYPES,
+  TEAM_EVENT_TYPES,
+  type NotificationChannelKind,
+  type NotificationEventType,
+} from '../../src/services/notifications/types';
+
+interface ChannelConfigBase {
+  kind: NotificationChannelKind;
+  name: string;
+  events: NotificationEventType[];
+}
+
+export type ChannelConfig =
+  | (ChannelConfigBase & { kind: 'telegram'; chatId: string })
+  | (ChannelConfigBase & { kind: 'slack'; webhookUrl: string })
+  | (ChannelConfigBase & { kind: 'email'; smtp: SmtpConfig })
+  | (ChannelConfigBase & { kind: 'webhook'; url: string; secret: string });
+
+type Env = Record<string, string | undefined>;
+
+function parseEvents(value: string | undefined, fallback: NotificationEventType[]): NotificationEventType[] {
+  if (!value?.trim()) return fallback;
+  if (value.trim() === 'all') return [...NOTIFICATION_EVENT_TYPES];
+  const requested = value.split(',').map((v) => v.trim());
+  return NOTIFICATION_EVENT_TYPES.filter((t) => requested.includes(t));
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '').split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+export function readChannelConfigs(env: Env = process.env): ChannelConfig[] {
+  const channels: ChannelConfig[] = [];
+
+  const botToken = env.TELEGRAM_BOT_TOKEN || env.VITE_TELEGRAM_BOT_TOKEN;
+  const chatId = env.TELEGRAM_CHAT_ID || env.VITE_TELEGRAM_CHAT_ID;
+  if (botToken && chatId) {
+    channels.push({
+      kind: 'telegram',
+      name: 'telegram',
+      events: parseEvents(env.TELEGRAM_NOTIFY_EVENTS, NOTIFICATION_EVENT_TYPES),
+      chatId,
+    });
+  }
+
+  if (env.SLACK_WEBHOOK_URL) {
+    channels.push({
+      kind: 'slack',
+      name: 'slack',
+      events: parseEvents(env.SLACK_NOTIFY_EVENTS, TEAM_EVENT_TYPES),
+      webhookUrl: env.SLACK_WEBHOOK_URL,
+    });
+  }
+
+  const to = parseList(env.SMTP_TO);
+  if (env.SMTP_HOST && env.SMTP_FROM && to.length > 0) {
+    const secure = env.SMTP_SECURE === 'true';
+    channels.push({
+      kind: 'email',
+      name: 'email',
+      events: parseEvents(env.SMTP_NOTIFY_EVENTS, TEAM_EVENT_TYPES),
+      smtp: {
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: env.SMTP_USER || '',
+        pass: env.SMTP_PASS || '',
+        from: env.SMTP_FROM,
+        to,
+        rejectUnauthorized: env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+      },
+    });
+  }
+
+  if (env.NOTIFY_WEBHOOK_URL) {
+    channels.push({
+      kind: 'webhook',
+      name: 'webhook',
+      events: parseEvents(env.NOTIFY_WEBHOOK_EVENTS, TEAM_EVENT_TYPES),
+      url: env.NOTIFY_WEBHOOK_URL,
+      secret: env.NOTIFY_WEBHOOK_SECRET || '',
+    });
+  }
+
+  return channels;
+}
@@ -0,0 +1,55 @@
+/**
+ * Server-side notification hub: routes scheduler events to every configured
+ * channel (see ./config.ts), each rendered with its own template, retried
+ * with exponential backoff and recorded in the delivery log.
+ *
+ * Per-chat Telegram opportunity alerts are not sent through here — they carry
+ * chat-specific thresholds and inline buttons (server/scheduler/jobs.ts).
+ */
+
+import { sendTelegramMessage } from '../_shared/telegram';
+import {
+  createNotificationHub,
+  type DispatchOptions,
+  type NotificationHub,
+} from '../../src/services/notifications/hub';
+import { renderEmail, renderSlack, renderTelegram, renderWebhook } from '../../src/services/notifications/templates';
+import type {
+  DeliveryLogEntry,
+  NotificationChannel,
+  NotificationEvent,
+} from '../../src/services/notifications/types';
+import { postSlackMessage } from './channels/slack';
+import { sendSmtpMail } from './channels/smtp';
+import { postWebhook } from './channels/webhook';
+import { readChannelConfigs, type ChannelConfig } from './config';
+import { recordDelivery } from './log';
+
+function toChannel(config: ChannelConfig): NotificationChannel {
+  const { kind, name, events } = config;
+  switch (config.kind) {
+    case 'telegram':
+      return { kind, name, events, send: (event) => sendTelegramMessage(renderTelegram(event), { chatId: config.chatId }) };
+    case 'slack':
+      return { kind, name, events, send: (event) => postSlackMessage(config.webhookUrl, renderSlack(event)) };
+    case 'email':
+      return { kind, name, events, send: (event) => sendSmtpMail(config.smtp, renderEmail(event)) };
+    case 'webhook':
+      return { kind, name, events, send: (event) => postWebhook(config.url, renderWebhook(event), config.secret) };
+  }
+}
+
+let hub: NotificationHub | null = null;
+
+/** Built once per process from the environment. */
+export function getNotificationHub(): NotificationHub {
+  hub ??= createNotificationHub({
+    channels: readChannelConfigs().map(toChannel),
+    onDelivery: recordDelivery,
+  });
+  return hub;
+}
+
+export function notify(event: NotificationEvent, options?: DispatchOptions): Promise<DeliveryLogEntry[]> {
+  return getNotificationHub().dispatch(event, options);
+}
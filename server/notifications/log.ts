@@ -0,0 +1,26 @@
+/**
+ * Delivery log for the notification hub — one capped Redis list shared by
+ * every instance, read back by the Settings page (list-notification-deliveries).
+ */
+
+import { getJsonList, pushJsonList } from '../_shared/redis';
+import type { DeliveryLogEntry } from '../../src/services/notifications/types';
+
+const DELIVERY_LOG_KEY = 'notifications:deliveries:v1';
+const DELIVERY_LOG_MAX = 200;
+const DELIVERY_LOG_TTL = 2592000; // 30 days
+
+/** Appends an entry. Failures are logged to stdout as well, Redis or not. */
+export async function recordDelivery(entry: DeliveryLogEntry): Promise<void> {
+  if (entry.status === 'failed') {
+    console.warn(`[notifications] ${entry.channel} ${entry.eventType} failed after ${entry.attempts} attempts: ${entry.error}`);
+  }
+  await pushJsonList(DELIVERY_LOG_KEY, entry, DELIVERY_LOG_MAX, DELIVERY_LOG_TTL);
+}
+
+/** Logged deliveries, newest first. Empty when Redis is not configured. */
+export async function listDeliveries(limit = 0): Promise<DeliveryLogEntry[]> {
+  const entries = (await getJsonList(DELIVERY_LOG_KEY)) as DeliveryLogEntry[];
+  const newestFirst = entries.filter((e) => e && typeof e.id === 'string').reverse();
+  return limit > 0 ? newestFirst.slice(0, limit) : newestFirst;
+}
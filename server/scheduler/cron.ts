@@ -0,0 +1,113 @@
+/**
+ * Five-field cron expressions evaluated in Korea Standard Time.
+ *
+ * Supports `*`, numbers, lists (`1,3`), ranges (`1-5`) and steps (`*\/15`,
+ * `0-30/10`). Day-of-week uses 0 = Sunday (7 is accepted as Sunday too). As in
+ * standard cron, when both day-of-month and day-of-week are restricted a
+ * minute matches if either does.
+ */
+
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000; // Asia/Seoul has no DST
+
+export interface KstTime {
+  date: string;       // YYYY-MM-DD
+  year: number;
+  month: number;      // 1-12
+  day: number;        // 1-31
+  hour: number;
+  minute: number;
+  dayOfWeek: number;  // 0 = Sunday
+}
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+export function kstTime(date: Date): KstTime {
+  const shifted = new Date(date.getTime() + KST_OFFSET_MS);
+  return {
+    date: shifted.toISOString().slice(0, 10),
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: shifted.getUTCHours(),
+    minute: shifted.getUTCMinutes(),
+    dayOfWeek: shifted.getUTCDay(),
+  };
+}
+
+function parseField(field: string, [min, max]: [number, number], expression: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range = '', stepRaw] = part.split('/');
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    let lo = min;
+    let hi = max;
+    if (range !== '*') {
+      const [a, b] = range.split('-');
+      lo = Number(a);
+      hi = b === undefined ? (stepRaw === undefined ? lo : max) : Number(b);
+    }
+    if (!Number.isInteger(lo) || !Number.isInteger(hi) || !Number.isInteger(step) || step < 1 || lo < min || hi > max || lo > hi) {
+      throw new Error(`Invalid cron field "${field}" in "${expression}"`);
+    }
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error(`Cron expression needs 5 fields: "${expression}"`);
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((f, i) => parseField(f, FIELD_RANGES[i]!, expression)) as [
+    Set<number>, Set<number>, Set<number>, Set<number>, Set<number>,
+  ];
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*',
+  };
+}
+
+export function matchesCron(schedule: CronSchedule, t: KstTime): boolean {
+  if (!schedule.minutes.has(t.minute) || !schedule.hours.has(t.hour) || !schedule.months.has(t.month)) return false;
+  const dom = schedule.daysOfMonth.has(t.day);
+  const dow = schedule.daysOfWeek.has(t.dayOfWeek);
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * Most recent minute at or before `now` matching the schedule, looking back
+ * at most `lookbackMinutes`. Null when nothing matched in that window.
+ */
+export function latestSlot(schedule: CronSchedule, now: Date, lookbackMinutes: number): Date | null {
+  const start = Math.floor(now.getTime() / 60_000) * 60_000;
+  for (let i = 0; i <= lookbackMinutes; i++) {
+    const slot = new Date(start - i * 60_000);
+    if (matchesCron(schedule, kstTime(slot))) return slot;
+  }
+  return null;
+}
@@ -0,0 +1,23 @@
+/**
+ * DART corp index job — rebuilds the compact corp-code index in Redis once a day.
+ *
+ * The corpCode.xml dump is a multi-megabyte zip of every registered company;
+ * building the index here keeps that download off the competitor search path,
+ * which only reads the stored index.
+ */
+
+import { isDartConfigured, refreshDartCorpIndex } from '../_shared/dart';
+import type { JobOutcome, ScheduledJob } from './registry';
+
+async function dartCorpIndex(): Promise<JobOutcome> {
+  if (!isDartConfigured()) return { status: 'skipped', reason: 'DART_API_KEY not set' };
+  const count = await refreshDartCorpIndex();
+  if (count === null) return { status: 'skipped', reason: 'Redis not configured or write failed' };
+  return { status: 'sent' };
+}
+
+export const DART_CORP_INDEX_JOB: ScheduledJob = {
+  name: 'dart-corp-index',
+  cron: '20 5 * * *',
+  run: dartCorpIndex,
+};
@@ -0,0 +1,66 @@
+/**
+ * Server-side scheduler entry point, bundled by scripts/build-scheduler.mjs
+ * and started by railway-server.mjs.
+ *
+ * Runs the notification jobs when the Telegram bot token or any notification
+ * channel is set, the procurement tracking job when the Supabase service
+ * role is set and the DART corp index job when DART_API_KEY is set; set SCHEDULER_ENABLED=false to keep an instance (e.g. staging
+ * sharing the production bot) from sending. Jobs whose event no channel
+ * subscribes to are skipped — without TELEGRAM_CHAT_ID only per-chat
+ * opportunity alerts remain.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import { isDartConfigured } from '../_shared/dart';
+import { isSupabaseConfigured } from '../_shared/supabase';
+import { hasBotToken } from '../_shared/telegram';
+import { getNotificationHub } from '../notifications';
+import { DART_CORP_INDEX_JOB } from './dart';
+import { NOTIFICATION_JOBS } from './jobs';
+import { PROCUREMENT_TRACKING_JOB } from './procurement';
+import { listJobs, registerJob, runDueJobs } from './registry';
+
+const TICK_MS = 60_000;
+
+export interface SchedulerHandle {
+  stop: () => void;
+}
+
+export function startScheduler(): SchedulerHandle | null {
+  if (process.env.SCHEDULER_ENABLED === 'false') {
+    console.log('[scheduler] Disabled (SCHEDULER_ENABLED=false)');
+    return null;
+  }
+  const channels = getNotificationHub().channels;
+  const notifying = hasBotToken() || channels.length > 0;
+  if (!notifying && !isSupabaseConfigured() && !isDartConfigured()) {
+    console.log('[scheduler] Skipped — neither TELEGRAM_BOT_TOKEN, a notification channel, SUPABASE_SERVICE_ROLE_KEY nor DART_API_KEY is set');
+    return null;
+  }
+  if (!process.env.UPSTASH_REDIS_REST_URL || !process.env.UPSTASH_REDIS_REST_TOKEN) {
+    console.warn('[scheduler] Redis not configured — idempotency limited to this process, missed slots are not caught up');
+  }
+
+  if (listJobs().length === 0) {
+    if (notifying) NOTIFICATION_JOBS.forEach(registerJob);
+    if (isSupabaseConfigured()) registerJob(PROCUREMENT_TRACKING_JOB);
+    if (isDartConfigured()) registerJob(DART_CORP_INDEX_JOB);
+  }
+  console.log(`[scheduler] Notification channels: ${channels.map((c) => c.name).join(', ') || 'none'}`);
+  console.log(`[scheduler] ${listJobs().map((j) => `${j.name} (${j.cron} KST)`).join(', ')}`);
+
+  const bootedAt = new Date();
+  let running = false;
+  const tick = () => {
+    if (running) return;
+    running = true;
+    runDueJobs(new Date(), bootedAt)
+      .catch((error) => console.error('[scheduler] Tick failed:', error))
+      .finally(() => { running = false; });
+  };
+
+  tick();
+  const timer = setInterval(tick, TICK_MS);
+  return { stop: () => clearInterval(timer) };
+}
@@ -0,0 +1,271 @@
+/**
+ * WoohanaBot scheduled notifications (PRD Section 6):
+ * - daily-brief        평일 08:00 — 오늘의 학습 루틴 + 직전 평일 미완료 항목
+ * - streak-warning     평일 21:00 — 오늘 학습 기록이 없으면 연속 일수와 함께 경고
+ * - weekly-report      금 18:00  — 이번 주 완료 일수, 재무메모·SROI 건수, 주간 정리의 AI 요약
+ * - opportunity-alert  30분마다  — 구독 채팅별 임계값·방해 금지 시간·트랙에 맞춘 Opportunity 알림,
+ *                                  공용 임계값을 넘으면 팀 채널(Slack·메일·웹훅)에도 한 번
+ * - procurement-alert  30분마다  — 적합도 HIGH 조달 공고를 공고별로 한 번
+ * - competitor-alert   30분마다  — 등록 경쟁사의 최근 DART 공시(기타 유형 제외)를 공시별로 한 번
+ *
+ * 채팅별 텔레그램 알림 외에는 알림 허브(server/notifications)로 보내며, 어느 채널이 어떤 이벤트를
+ * 받을지는 환경 변수(*_NOTIFY_EVENTS)로 정합니다 — 학습 루틴 알림은 기본적으로 기본 채팅만 받습니다.
+ */
+
+import { hashString } from '../_shared/hash';
+import { claimKeyOnce, releaseKey } from '../_shared/redis';
+import { getDefaultChatId, isAdminChat, sendTelegramMessage } from '../_shared/telegram';
+import { isSupabaseConfigured } from '../_shared/supabase';
+import { getNotificationHub } from '../notifications';
+import { listBotActions, listTelegramSubscriptions } from '../worldmonitor/care/v1/_bot';
+import { getCareSnapshot, getKeywordProfile, type CareSnapshot } from '../worldmonitor/care/v1/_shared';
+import type {
+  CareArticle,
+  CompetitorDisclosure,
+  ProcurementListing,
+} from '../../src/generated/server/worldmonitor/care/v1/service_server';
+import { articleActionRow } from '../../src/services/botActions';
+import { DISCLOSURE_TYPE_LABELS, isNotableDisclosure, type DisclosureType } from '../../src/services/dartApi';
+import { getTodaySchedule } from '../../src/services/dailyBriefSchedule';
+import type { ProcurementListing as AlertListing } from '../../src/services/g2bCrawler';
+import { assertDelivered, type DispatchOptions } from '../../src/services/notifications/hub';
+import type { CompetitorNotice, NotificationEvent, NotificationEventType } from '../../src/services/notifications/types';
+import { TELEGRAM_TEMPLATES, type OpportunityAlertPayload } from '../../src/services/telegramTemplates';
+import {
+  defaultTelegramSubscription,
+  effectiveAlertThreshold,
+  isQuietHour,
+  type TelegramSubscription,
+} from '../../src/services/telegramSubscription';
+import type { JobContext, JobOutcome, ScheduledJob } from './registry';
+import {
+  countSessions,
+  countStreak,
+  fetchStreakRows,
+  fetchWeeklySummary,
+  incompleteSlots,
+  isDayCompleted,
+  previousRoutineDay,
+  scheduleDate,
+  shiftDate,
+} from './streaks';
+
+const sentKeys = new Set<string>(); // dedup fallback when Redis is unavailable
+
+/**
+ * Sends once per dedup key. A failed send releases its key, so the registry's
+ * retry reaches only what has not gone out yet.
+ */
+async function sendOnce(key: string, ttlSeconds: number, send: () => Promise<void>): Promise<boolean> {
+  const claimed = await claimKeyOnce(key, ttlSeconds);
+  if (claimed === false || (claimed === null && sentKeys.has(key))) return false;
+  try {
+    await send();
+  } catch (error) {
+    await releaseKey(key);
+    throw error;
+  }
+  sentKeys.add(key);
+  return true;
+}
+
+/** Sends through the hub; throws only when every channel failed, so a partial delivery is not repeated. */
+async function dispatch(event: NotificationEvent, options?: DispatchOptions): Promise<void> {
+  assertDelivered(await getNotificationHub().dispatch(event, options));
+}
+
+/** Skips a job when no channel subscribes to the event it sends. */
+function whenSubscribed(type: NotificationEventType, run: ScheduledJob['run']): ScheduledJob['run'] {
+  return (ctx) => (getNotificationHub().channelsFor(type).length > 0
+    ? run(ctx)
+    : Promise.resolve({ status: 'skipped', reason: `no channel for ${type}` }));
+}
+
+async function dailyBrief({ kst }: JobContext): Promise<JobOutcome> {
+  const today = getTodaySchedule(scheduleDate(kst.date));
+  const items = [today.morning, today.lunch, today.evening].map((item) => `${item.label} (${item.duration})`);
+
+  let pending: string[] = [];
+  if (isSupabaseConfigured()) {
+    const prevDate = previousRoutineDay(kst.date);
+    const rows = await fetchStreakRows(prevDate);
+    const prev = getTodaySchedule(scheduleDate(prevDate));
+    pending = incompleteSlots(rows.find((r) => r.date === prevDate)).map((slot) => prev[slot].label);
+  }
+
+  await dispatch({ type: 'daily_brief', payload: { items, pending } });
+  return { status: 'sent' };
+}
+
+async function streakWarning({ kst }: JobContext): Promise<JobOutcome> {
+  if (!isSupabaseConfigured()) return { status: 'skipped', reason: 'supabase not configured' };
+
+  const rows = await fetchStreakRows(kst.date);
+  if (isDayCompleted(rows.find((r) => r.date === kst.date))) return { status: 'skipped', reason: 'already studied today' };
+
+  await dispatch({ type: 'streak_warning', payload: { streak: countStreak(rows, kst.date) } });
+  return { status: 'sent' };
+}
+
+async function weeklyReport({ kst }: JobContext): Promise<JobOutcome> {
+  if (!isSupabaseConfigured()) return { status: 'skipped', reason: 'supabase not configured' };
+
+  const monday = shiftDate(kst.date, -((kst.dayOfWeek + 6) % 7));
+  const [rows, financialMemos, sroiCount, aiSummary] = await Promise.all([
+    fetchStreakRows(kst.date),
+    countSessions('analysis_sessions', monday, kst.date),
+    countSessions('sroi_sessions', monday, kst.date),
+    fetchWeeklySummary(monday),
+  ]);
+  const studiedDays = rows.filter((r) => r.date >= monday && isDayCompleted(r)).length;
+  const summary = [`🔥 현재 ${countStreak(rows, kst.date)}일 연속`, aiSummary].filter(Boolean).join('\n');
+
+  await dispatch({ type: 'weekly_report', payload: { studiedDays, financialMemos, sroiCount, summary } });
+  return { status: 'sent' };
+}
+
+const ALERT_ITEMS = 5;
+const ALERT_DEDUP_TTL = 12 * 60 * 60; // 12h — the same score and headlines are not re-sent to a chat
+const TEAM_NEWS_PER_TRACK = 5;
+
+/** Saved subscriptions, plus the default chat with default settings if it never saved one. */
+async function alertRecipients(): Promise<TelegramSubscription[]> {
+  const subscriptions = await listTelegramSubscriptions();
+  const defaultChat = getDefaultChatId();
+  if (defaultChat && !subscriptions.some((s) => s.chatId === defaultChat)) {
+    subscriptions.push(defaultTelegramSubscription(defaultChat));
+  }
+  return subscriptions;
+}
+
+function opportunityPayload(score: CareSnapshot['score'], articles: CareArticle[]): OpportunityAlertPayload {
+  const news = (track: string) => articles
+    .filter((a) => a.track === track)
+    .slice(0, TEAM_NEWS_PER_TRACK)
+    .map((a) => ({ title: a.title, link: a.link }));
+  return {
+    total: score.total,
+    s1: score.s1,
+    s2: score.s2,
+    s3: score.s3,
+    shouldAlert: score.shouldAlert,
+    newsByTrack: { policy: news('policy'), investment: news('investment'), competitor: news('competitor') },
+  };
+}
+
+/**
+ * Team channels get the shared-threshold alert once per score and headline set.
+ * Telegram is left out — the default chat already got its per-chat alert.
+ */
+async function broadcastOpportunity(snapshot: CareSnapshot, candidates: CareArticle[], threshold: number): Promise<boolean> {
+  const teamOnly: DispatchOptions = { exclude: ['telegram'] };
+  if (snapshot.score.total < threshold) return false;
+  if (getNotificationHub().channelsFor('opportunity', teamOnly).length === 0) return false;
+
+  const payload = opportunityPayload(snapshot.score, candidates);
+  const headlines = Object.values(payload.newsByTrack).flat().map((n) => n.link).join(',');
+  const key = `care:opportunity-broadcast:v1:${hashString(`${payload.total}|${headlines}`)}`;
+  return sendOnce(key, ALERT_DEDUP_TTL, () => dispatch({ type: 'opportunity', payload }, teamOnly));
+}
+
+async function opportunityAlert({ kst }: JobContext): Promise<JobOutcome> {
+  const [snapshot, profile, recipients, exclusions] = await Promise.all([
+    getCareSnapshot(),
+    getKeywordProfile(),
+    alertRecipients(),
+    listBotActions({ kind: 'exclude' }),
+  ]);
+  if (snapshot.articles.length === 0) return { status: 'skipped', reason: 'empty snapshot' };
+  const excludedRefs = new Set(exclusions.map((a) => a.article.ref).filter(Boolean));
+  const candidates = snapshot.articles.filter((a) => !excludedRefs.has(a.ref));
+
+  let sent = 0;
+  for (const sub of recipients) {
+    const threshold = effectiveAlertThreshold(sub, profile.alertThreshold);
+    if (!sub.alertsEnabled || sub.tracks.length === 0 || isQuietHour(sub, kst.hour)) continue;
+    if (snapshot.score.total < threshold) continue;
+
+    const items = candidates.filter((a) => (sub.tracks as string[]).includes(a.track)).slice(0, ALERT_ITEMS);
+    const key = `care:opportunity-alert:v1:${sub.chatId}:${hashString(`${snapshot.score.total}|${items.map((a) => a.ref).join(',')}`)}`;
+    // Action buttons change the shared dashboard state; the webhook only accepts them from admin chats
+    const withActions = isAdminChat(sub.chatId);
+    const delivered = await sendOnce(key, ALERT_DEDUP_TTL, () =>
+      sendTelegramMessage(TELEGRAM_TEMPLATES.subscription_alert(snapshot.score, threshold, items, sub.language, withActions), {
+        chatId: sub.chatId,
+        replyMarkup: withActions
+          ? { inline_keyboard: items.map((a, i) => articleActionRow(a.ref, i + 1, sub.language)) }
+          : undefined,
+      }));
+    if (delivered) sent++;
+  }
+
+  if (await broadcastOpportunity(snapshot, candidates, profile.alertThreshold)) sent++;
+  return sent > 0 ? { status: 'sent' } : { status: 'skipped', reason: 'no chat due for an alert' };
+}
+
+const PROCUREMENT_ALERT_TTL = 30 * 24 * 60 * 60; // 30 days — longer than a listing stays in the snapshot
+const PROCUREMENT_ALERTS_PER_RUN = 5;
+
+function toAlertListing(listing: ProcurementListing): AlertListing {
+  return {
+    id: listing.id,
+    title: listing.title,
+    agency: listing.agency,
+    budget: listing.budget,
+    deadline: listing.deadline,
+    bid_type: listing.bidType,
+    source_url: listing.sourceUrl,
+    fitness_score: listing.fitnessScore as AlertListing['fitness_score'],
+    fitness_reason: listing.fitnessReason,
+    matched_keywords: listing.matchedKeywords,
+    fetched_at: new Date(listing.fetchedAt).toISOString(),
+  };
+}
+
+async function procurementAlert(): Promise<JobOutcome> {
+  const { listings } = await getCareSnapshot();
+  let sent = 0;
+  for (const listing of listings.filter((l) => l.fitnessScore === 'high')) {
+    if (sent >= PROCUREMENT_ALERTS_PER_RUN) break; // the rest go out on the next runs
+    const delivered = await sendOnce(`care:procurement-alert:v1:${listing.id}`, PROCUREMENT_ALERT_TTL, () =>
+      dispatch({ type: 'procurement', payload: toAlertListing(listing) }));
+    if (delivered) sent++;
+  }
+  return sent > 0 ? { status: 'sent' } : { status: 'skipped', reason: 'no new high-fitness listing' };
+}
+
+const COMPETITOR_ALERT_TTL = 30 * 24 * 60 * 60;
+const COMPETITOR_ALERT_DAYS = 3; // older filings are not news — also keeps the first run from replaying the backlog
+const COMPETITOR_ALERTS_PER_RUN = 5;
+
+function toCompetitorNotice(disclosure: CompetitorDisclosure): CompetitorNotice {
+  const type = DISCLOSURE_TYPE_LABELS[disclosure.filingType as DisclosureType] ?? disclosure.filingType;
+  return {
+    title: `${disclosure.corpName} — ${disclosure.reportName}`,
+    summary: `${type} · ${disclosure.filedAt} · ${disclosure.filer}`,
+    url: disclosure.link,
+  };
+}
+
+async function competitorAlert({ kst }: JobContext): Promise<JobOutcome> {
+  const { disclosures } = await getCareSnapshot();
+  const since = shiftDate(kst.date, -COMPETITOR_ALERT_DAYS);
+  let sent = 0;
+  for (const disclosure of disclosures) {
+    if (sent >= COMPETITOR_ALERTS_PER_RUN) break; // the rest go out on the next runs
+    if (disclosure.filedAt < since || !isNotableDisclosure(disclosure.filingType as DisclosureType)) continue;
+    const delivered = await sendOnce(`care:competitor-alert:v1:${disclosure.receiptNo}`, COMPETITOR_ALERT_TTL, () =>
+      dispatch({ type: 'competitor', payload: toCompetitorNotice(disclosure) }));
+    if (delivered) sent++;
+  }
+  return sent > 0 ? { status: 'sent' } : { status: 'skipped', reason: 'no new competitor disclosure' };
+}
+
+export const NOTIFICATION_JOBS: ScheduledJob[] = [
+  { name: 'daily-brief', cron: '0 8 * * 1-5', run: whenSubscribed('daily_brief', dailyBrief) },
+  { name: 'streak-warning', cron: '0 21 * * 1-5', run: whenSubscribed('streak_warning', streakWarning) },
+  { name: 'weekly-report', cron: '0 18 * * 5', run: whenSubscribed('weekly_report', weeklyReport) },
+  { name: 'opportunity-alert', cron: '*/30 * * * *', run: opportunityAlert },
+  { name: 'procurement-alert', cron: '15,45 * * * *', run: whenSubscribed('procurement', procurementAlert) },
+  { name: 'competitor-alert', cron: '20,50 * * * *', run: whenSubscribed('competitor', competitorAlert) },
+];
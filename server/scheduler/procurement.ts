@@ -0,0 +1,36 @@
+/**
+ * Procurement tracking job — keeps procurement_items / bid_analyses current.
+ *
+ * The shared rows hold the awarded prices Pricing Lab compares against, so
+ * only this job writes them (service role); browsers read them under a
+ * SELECT-only policy. Each run grades the latest 나라장터 bids and the care
+ * snapshot's news listings with the shared keyword profile, follows up closed
+ * bids for award results and records when each bid was last checked.
+ */
+
+import { isG2bConfigured, lookupNaraAwards, searchNaraBids } from '../_shared/g2b';
+import { isSupabaseConfigured, selectRows, upsertRows } from '../_shared/supabase';
+import { getCareSnapshot, getKeywordProfile } from '../worldmonitor/care/v1/_shared';
+import { trackProcurements } from '../../src/services/procurementTracker';
+import type { JobOutcome, ScheduledJob } from './registry';
+
+async function procurementTracking(): Promise<JobOutcome> {
+  if (!isSupabaseConfigured()) return { status: 'skipped', reason: 'Supabase not configured' };
+  const [{ listings }, profile] = await Promise.all([getCareSnapshot(), getKeywordProfile()]);
+  const tracked = await trackProcurements(
+    { selectRows, upsertRows },
+    { searchBids: () => searchNaraBids(), lookupAwards: lookupNaraAwards },
+    listings,
+    profile
+  );
+  if (tracked.length === 0) {
+    return { status: 'skipped', reason: isG2bConfigured() ? 'no procurement to track' : 'no listing (G2B_API_KEY not set)' };
+  }
+  return { status: 'sent' };
+}
+
+export const PROCUREMENT_TRACKING_JOB: ScheduledJob = {
+  name: 'procurement-tracking',
+  cron: '5 * * * *',
+  run: procurementTracking,
+};
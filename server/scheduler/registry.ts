@@ -0,0 +1,96 @@
+/**
+ * Cron-like job registry with idempotent delivery.
+ *
+ * Every tick looks for the latest scheduled slot of each job within the
+ * catch-up window, so a slot missed while the server restarted still runs
+ * once it is back. Each slot is claimed with a Redis key
+ * (`scheduler:v1:<job>:<slot>`), which keeps overlapping instances during a
+ * deploy — and restarts inside the window — from sending the same message
+ * twice. A failed run releases its key and is retried on the next tick.
+ */
+
+import { claimKeyOnce, releaseKey } from '../_shared/redis';
+import { kstTime, latestSlot, parseCron, type CronSchedule, type KstTime } from './cron';
+
+const CATCH_UP_MINUTES = 60;
+const MAX_ATTEMPTS = 3;
+const IDEMPOTENCY_TTL = 3 * 24 * 60 * 60; // 3 days — comfortably past the catch-up window
+
+export type JobOutcome = { status: 'sent' } | { status: 'skipped'; reason: string };
+
+export interface JobContext {
+  /** Scheduled minute being run (not the wall-clock time of the run) */
+  slot: Date;
+  kst: KstTime;
+}
+
+export interface ScheduledJob {
+  name: string;
+  /** Five-field cron expression in KST */
+  cron: string;
+  run: (ctx: JobContext) => Promise<JobOutcome>;
+}
+
+interface RegisteredJob extends ScheduledJob {
+  schedule: CronSchedule;
+}
+
+const jobs: RegisteredJob[] = [];
+const finishedSlots = new Set<string>();
+const attempts = new Map<string, number>();
+
+export function registerJob(job: ScheduledJob): void {
+  if (jobs.some((j) => j.name === job.name)) throw new Error(`Job "${job.name}" already registered`);
+  jobs.push({ ...job, schedule: parseCron(job.cron) });
+}
+
+export function listJobs(): Array<Pick<ScheduledJob, 'name' | 'cron'>> {
+  return jobs.map(({ name, cron }) => ({ name, cron }));
+}
+
+function slotKey(job: RegisteredJob, slot: Date): string {
+  const t = kstTime(slot);
+  return `${job.name}:${t.date}T${String(t.hour).padStart(2, '0')}:${String(t.minute).padStart(2, '0')}`;
+}
+
+async function runSlot(job: RegisteredJob, slot: Date, bootedAt: Date): Promise<void> {
+  const key = slotKey(job, slot);
+  if (finishedSlots.has(key)) return;
+
+  const claimed = await claimKeyOnce(`scheduler:v1:${key}`, IDEMPOTENCY_TTL);
+  if (claimed === false) {
+    finishedSlots.add(key);
+    return;
+  }
+  // Without Redis only this process can dedupe, so never catch up on slots
+  // from before it booted — a previous instance may already have sent them.
+  if (claimed === null && slot < bootedAt) {
+    finishedSlots.add(key);
+    return;
+  }
+
+  try {
+    const outcome = await job.run({ slot, kst: kstTime(slot) });
+    finishedSlots.add(key);
+    attempts.delete(key);
+    console.log(`[scheduler] ${key} ${outcome.status}${outcome.status === 'skipped' ? ` (${outcome.reason})` : ''}`);
+  } catch (error) {
+    const count = (attempts.get(key) ?? 0) + 1;
+    attempts.set(key, count);
+    console.error(`[scheduler] ${key} failed (attempt ${count}/${MAX_ATTEMPTS}):`, (error as Error).message);
+    if (count >= MAX_ATTEMPTS) {
+      finishedSlots.add(key);
+      attempts.delete(key);
+    } else if (claimed) {
+      await releaseKey(`scheduler:v1:${key}`);
+    }
+  }
+}
+
+/** Runs every job whose latest slot is due and not yet delivered. */
+export async function runDueJobs(now: Date, bootedAt: Date): Promise<void> {
+  for (const job of jobs) {
+    const slot = latestSlot(job.schedule, now, CATCH_UP_MINUTES);
+    if (slot) await runSlot(job, slot, bootedAt);
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Study streaks from the daily_streaks table.
+ *
+ * The routine runs Monday–Friday; weekends neither extend nor break a streak.
+ * A day counts as studied when any of its three slots was completed.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import { countRows, selectRows, type PostgrestQuery } from '../_shared/supabase';
+
+const STREAK_LOOKBACK_DAYS = 120;
+
+export type RoutineSlot = 'morning' | 'lunch' | 'evening';
+
+export const ROUTINE_SLOTS: RoutineSlot[] = ['morning', 'lunch', 'evening'];
+
+export interface StreakRow {
+  date: string;
+  morning_completed: boolean | null;
+  lunch_completed: boolean | null;
+  evening_completed: boolean | null;
+}
+
+/** YYYY-MM-DD shifted by whole days */
+export function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function isRoutineDay(date: string): boolean {
+  const dow = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return dow >= 1 && dow <= 5;
+}
+
+export function previousRoutineDay(date: string): string {
+  let d = shiftDate(date, -1);
+  while (!isRoutineDay(d)) d = shiftDate(d, -1);
+  return d;
+}
+
+/** Local-midnight Date for getTodaySchedule(), which reads getDay() */
+export function scheduleDate(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y!, m! - 1, d!);
+}
+
+export function isDayCompleted(row: StreakRow | undefined): boolean {
+  return !!row && ROUTINE_SLOTS.some((slot) => row[`${slot}_completed`]);
+}
+
+export function incompleteSlots(row: StreakRow | undefined): RoutineSlot[] {
+  return ROUTINE_SLOTS.filter((slot) => !row?.[`${slot}_completed`]);
+}
+
+/**
+ * Consecutive studied routine days ending the day before `date`
+ * (plus `date` itself when it is already completed).
+ */
+export function countStreak(rows: StreakRow[], date: string): number {
+  const byDate = new Map(rows.map((r) => [r.date, r]));
+  let streak = isDayCompleted(byDate.get(date)) ? 1 : 0;
+  for (let d = previousRoutineDay(date), i = 0; i < STREAK_LOOKBACK_DAYS; d = previousRoutineDay(d), i++) {
+    if (!isDayCompleted(byDate.get(d))) break;
+    streak++;
+  }
+  return streak;
+}
+
+// Single-owner deployments leave this unset; with several users it selects whose routine to report
+function ownerFilter(): PostgrestQuery {
+  const userId = process.env.SCHEDULER_USER_ID;
+  return userId ? [['user_id', `eq.${userId}`]] : [];
+}
+
+export async function fetchStreakRows(until: string): Promise<StreakRow[]> {
+  return selectRows<StreakRow>('daily_streaks', [
+    ['select', 'date,morning_completed,lunch_completed,evening_completed'],
+    ['date', `gte.${shiftDate(until, -STREAK_LOOKBACK_DAYS * 2)}`],
+    ['date', `lte.${until}`],
+    ...ownerFilter(),
+  ]);
+}
+
+/** Rows of a study table (analysis_sessions, sroi_sessions, …) dated within [from, to] */
+export async function countSessions(table: string, from: string, to: string): Promise<number> {
+  return countRows(table, [['date', `gte.${from}`], ['date', `lte.${to}`], ...ownerFilter()]);
+}
+
+/** AI summary saved with the week's review on the dashboard; empty until the review is written */
+export async function fetchWeeklySummary(weekStart: string): Promise<string> {
+  const rows = await selectRows<{ ai_weekly_summary: string | null }>('weekly_reviews', [
+    ['select', 'ai_weekly_summary'],
+    ['week_start', `eq.${weekStart}`],
+    ...ownerFilter(),
+  ]);
+  return rows.find((r) => r.ai_weekly_summary)?.ai_weekly_summary ?? '';
+}
@@ -0,0 +1,39 @@
+/**
+ * Server-secret check for the Care RPCs that change shared state.
+ *
+ * The public gateway only demands an API key from desktop origins, so a request
+ * without an Origin header reaches every RPC. Writes that drive other users'
+ * alerts (subscriptions, bot actions, keyword profile, competitor registry)
+ * therefore require CARE_SERVER_SECRET in the X-Care-Server-Secret header.
+ * The Telegram webhook sends it from its own environment; the Settings page
+ * sends the copy an operator entered in that browser.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import { ApiError, type ServerContext } from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+export const CARE_SERVER_SECRET_HEADER = 'x-care-server-secret';
+
+/** Length-independent comparison so the secret cannot be probed by response timing. */
+function secretsMatch(given: string, expected: string): boolean {
+  let diff = given.length ^ expected.length;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= (given.charCodeAt(i) || 0) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Throws a 401 ApiError unless the request carries the server secret.
+ * When CARE_SERVER_SECRET is unset the writes are closed (503), never open.
+ */
+export function requireServerSecret(ctx: ServerContext): void {
+  const expected = process.env.CARE_SERVER_SECRET || '';
+  if (!expected) {
+    throw new ApiError(503, 'CARE_SERVER_SECRET is not configured', '');
+  }
+  if (!secretsMatch(ctx.headers[CARE_SERVER_SECRET_HEADER] ?? '', expected)) {
+    throw new ApiError(401, 'Server secret required', '');
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Telegram bot state for the Care domain.
+ *
+ * Per-chat subscriptions (tracks, alert threshold, quiet hours, language) are
+ * stored under one Redis key per chat plus a Redis set of chat IDs, so the webhook
+ * and the scheduler share them across instances and redeploys.
+ *
+ * Inline-button actions (exclude / bookmark / study) are appended to a capped
+ * Redis list. The bot cannot reach the browser's local stores, so the dashboard
+ * pulls new actions with list-bot-actions and applies them itself.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import type { BotAction, CareArticle } from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { hashString } from '../../../_shared/hash';
+import {
+  addSetMember,
+  getCachedJson,
+  getCachedJsonBatch,
+  getJsonList,
+  getSetMembers,
+  pushJsonList,
+  setJsonChecked,
+} from '../../../_shared/redis';
+import {
+  BOT_ACTION_KINDS,
+  normalizeBotAction,
+  type BotAction as StoredBotAction,
+  type BotActionKind,
+} from '../../../../src/services/botActions';
+import {
+  defaultTelegramSubscription,
+  normalizeTelegramSubscription,
+  type TelegramSubscription,
+} from '../../../../src/services/telegramSubscription';
+import { getCareSnapshot } from './_shared';
+
+const SUBSCRIPTION_KEY_PREFIX = 'care:telegram-chat:v1';
+const SUBSCRIPTION_INDEX_KEY = 'care:telegram-chats:v2'; // Redis set
+const LEGACY_SUBSCRIPTION_INDEX_KEY = 'care:telegram-chats:v1'; // JSON array, read-only
+const SUBSCRIPTION_TTL = 31536000; // 1 year in seconds — refreshed on every save
+
+const BOT_ACTIONS_KEY = 'care:bot-actions:v1';
+const BOT_ACTIONS_MAX = 500;
+const BOT_ACTIONS_TTL = 2592000; // 30 days — dashboards that stay away longer miss older actions
+
+function isRedisConfigured(): boolean {
+  return Boolean(process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN);
+}
+
+function subscriptionKey(chatId: string): string {
+  return `${SUBSCRIPTION_KEY_PREFIX}:${chatId}`;
+}
+
+// ========================================================================
+// Subscriptions
+// ========================================================================
+
+/**
+ * Returns the chat's subscription, or an unsaved default (updatedAt 0) when the
+ * chat has none or Redis is unavailable.
+ */
+export async function getTelegramSubscription(chatId: string): Promise<TelegramSubscription> {
+  const stored = await getCachedJson(subscriptionKey(chatId));
+  return stored
+    ? normalizeTelegramSubscription(stored as Partial<TelegramSubscription>, chatId)
+    : defaultTelegramSubscription(chatId);
+}
+
+/**
+ * Normalizes and stores a chat's subscription and adds the chat to the index set.
+ * Throws when Redis is not configured or either write failed.
+ */
+export async function saveTelegramSubscription(input: Partial<TelegramSubscription>): Promise<TelegramSubscription> {
+  if (!isRedisConfigured()) {
+    throw new Error('Telegram subscription storage is not configured');
+  }
+  const subscription = normalizeTelegramSubscription({ ...input, updatedAt: Date.now() });
+  if (!subscription.chatId) {
+    throw new Error('Subscription must have chatId');
+  }
+
+  if (!(await setJsonChecked(subscriptionKey(subscription.chatId), subscription, SUBSCRIPTION_TTL))) {
+    throw new Error('Failed to store subscription');
+  }
+  if (!(await addSetMember(SUBSCRIPTION_INDEX_KEY, subscription.chatId, SUBSCRIPTION_TTL))) {
+    throw new Error('Failed to index subscription');
+  }
+  return subscription;
+}
+
+/**
+ * Every saved subscription — the chats the scheduler sends opportunity alerts to.
+ * Chats indexed before the set existed are still read from the legacy array.
+ */
+export async function listTelegramSubscriptions(): Promise<TelegramSubscription[]> {
+  const [members, legacy] = await Promise.all([
+    getSetMembers(SUBSCRIPTION_INDEX_KEY),
+    getCachedJson(LEGACY_SUBSCRIPTION_INDEX_KEY) as Promise<string[] | null>,
+  ]);
+  const index = [...new Set([...members, ...(legacy ?? [])])];
+  const stored = await getCachedJsonBatch(index.map(subscriptionKey));
+  return index
+    .filter((chatId) => stored.has(subscriptionKey(chatId)))
+    .map((chatId) => normalizeTelegramSubscription(stored.get(subscriptionKey(chatId)) as Partial<TelegramSubscription>, chatId));
+}
+
+// ========================================================================
+// Inline-button actions
+// ========================================================================
+
+export interface RecordBotActionInput {
+  chatId: string;
+  kind: string;
+  articleRef: string;
+  title: string;
+}
+
+function toBotArticle(article: CareArticle): NonNullable<BotAction['article']> {
+  return {
+    id: article.id,
+    ref: article.ref,
+    title: article.title,
+    link: article.link,
+    source: article.source,
+    track: article.track,
+    description: article.description,
+  };
+}
+
+/**
+ * Resolves the article behind a callback ref in the current snapshot and
+ * appends the action. Exclusions may be recorded by title alone (the /exclude
+ * command); bookmarks and study sessions need the article itself.
+ */
+export async function recordBotAction(input: RecordBotActionInput): Promise<BotAction> {
+  if (!BOT_ACTION_KINDS.includes(input.kind as BotActionKind)) {
+    throw new Error(`Unknown action kind: ${input.kind}`);
+  }
+  if (!isRedisConfigured()) {
+    throw new Error('Bot action storage is not configured');
+  }
+
+  let article: BotAction['article'];
+  if (input.articleRef) {
+    const { articles } = await getCareSnapshot();
+    const found = articles.find((a) => a.ref === input.articleRef);
+    if (!found) throw new Error('Article is no longer in the current snapshot');
+    article = toBotArticle(found);
+  } else if (input.kind === 'exclude' && input.title.trim()) {
+    article = { id: '', ref: '', title: input.title.trim(), link: '', source: '', track: '', description: '' };
+  } else {
+    throw new Error('Action must have articleRef');
+  }
+
+  const createdAt = Date.now();
+  const action: BotAction = {
+    id: `${createdAt.toString(36)}-${hashString(`${input.chatId}:${input.kind}:${article.title}`)}`,
+    kind: input.kind,
+    chatId: input.chatId,
+    article,
+    createdAt,
+  };
+  if (!(await pushJsonList(BOT_ACTIONS_KEY, action, BOT_ACTIONS_MAX, BOT_ACTIONS_TTL))) {
+    throw new Error('Failed to store bot action');
+  }
+  return action;
+}
+
+/**
+ * Recorded actions after `since`, oldest first — the order the dashboard
+ * applies them in, so a limited page still advances its cursor correctly.
+ */
+export async function listBotActions(options: { since?: number; kind?: string } = {}): Promise<StoredBotAction[]> {
+  const actions: StoredBotAction[] = [];
+  for (const raw of await getJsonList(BOT_ACTIONS_KEY)) {
+    const action = normalizeBotAction(raw as Parameters<typeof normalizeBotAction>[0]);
+    if (!action || action.createdAt <= (options.since ?? 0)) continue;
+    if (options.kind && action.kind !== options.kind) continue;
+    actions.push(action);
+  }
+  return actions;
+}
@@ -0,0 +1,363 @@
+/**
+ * Shared ingestion snapshot for the Care domain.
+ *
+ * One pipeline run feeds every RPC: care-track RSS feeds (config/care-feeds.ts)
+ * -> deduplicateNews -> filterByKeywords -> crossVerify -> calculateOpportunityScore
+ * and extractProcurementListings. The snapshot is cached in Redis so the dashboard,
+ * the Telegram webhook and scheduled jobs all read the same score.
+ *
+ * The shared keyword profile (custom keywords, negative keywords, alert threshold)
+ * is applied during ingestion; saving it changes the snapshot cache key.
+ * DART filings of the competitor registry are classified and scored into S3
+ * alongside competitor-track news; saving the registry also changes the key.
+ * The policy calendar (budget cycle, AI law dates and press-release dates from
+ * the welfare policy feeds) is built with the snapshot and scored into S1.
+ * User-specific exclusions are not applied here; clients filter their own view.
+ */
+
+declare const process: { env: Record<string, string | undefined> };
+
+import { XMLParser } from 'fast-xml-parser';
+
+import type {
+  CareArticle,
+  CompetitorDisclosure,
+  OpportunityScore,
+  PolicyEvent,
+  ProcurementListing,
+  VerificationStats,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { CHROME_UA } from '../../../_shared/constants';
+import { hashString } from '../../../_shared/hash';
+import { cachedFetchJson, getCachedJson, setJsonChecked } from '../../../_shared/redis';
+import { fetchDartFilingsCached } from '../../../_shared/dart';
+import { CARE_FEED_SOURCES, CARE_FEED_TRACKS, WELFARE_POLICY_FEEDS, type CareFeed, type CareTrack } from '../../../../src/config/care-feeds';
+import { calcTimeAgo, type RssItem } from '../../../../src/services/rssFeed';
+import { deduplicateNews } from '../../../../src/services/deduplication';
+import { filterByKeywords } from '../../../../src/services/keywordFilter';
+import { crossVerify, getVerificationStats, type VerifiedRssItem } from '../../../../src/services/crossVerification';
+import { DEFAULT_SCORING_PROFILE, calculateOpportunityScore } from '../../../../src/services/scoreCalculator';
+import { normalizeKeywordProfile, type KeywordProfile } from '../../../../src/services/keywordProfile';
+import {
+  classifyDisclosure,
+  disclosureScoreItems,
+  normalizeCompetitorRegistry,
+  type CompetitorRegistry,
+  type DartDisclosure,
+} from '../../../../src/services/dartApi';
+import { buildPolicyCalendar, detectPressEvents, policyCalendarScoreItems } from '../../../../src/services/policyCalendar';
+import {
+  extractProcurementListings,
+  type ProcurementListing as ExtractedListing,
+} from '../../../../src/services/g2bCrawler';
+
+// ========================================================================
+// Constants
+// ========================================================================
+
+const SNAPSHOT_CACHE_KEY = 'care:snapshot:v1';
+const SNAPSHOT_CACHE_TTL = 900; // 15 min — matches the dashboard refresh interval
+
+const KEYWORD_PROFILE_KEY = 'care:keyword-profile:v1';
+const KEYWORD_PROFILE_TTL = 31536000; // 1 year in seconds — refreshed on every save
+
+const COMPETITOR_REGISTRY_KEY = 'care:competitors:v1';
+const COMPETITOR_REGISTRY_TTL = 31536000; // 1 year in seconds — refreshed on every save
+
+export const DISCLOSURE_WINDOW_DAYS = 30;
+
+const FEED_TIMEOUT_MS = 12_000;
+const MAX_ITEMS_PER_FEED = 8;
+
+export const CARE_TRACKS: CareTrack[] = ['caretech', 'investment', 'competitor', 'policy'];
+
+export interface CareSnapshot {
+  articles: CareArticle[];
+  listings: ProcurementListing[];
+  disclosures: CompetitorDisclosure[];
+  calendar: PolicyEvent[];
+  score: OpportunityScore;
+  verification: VerificationStats;
+  trackCounts: Record<string, number>;
+  generatedAt: number;
+}
+
+// ========================================================================
+// RSS fetch
+// ========================================================================
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  isArray: (name: string) => name === 'item',
+});
+
+function textOf(value: unknown): string {
+  if (value == null) return '';
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    return String(obj['#text'] ?? obj['@_href'] ?? '').trim();
+  }
+  return String(value).trim();
+}
+
+async function fetchCareFeed(feed: CareFeed, track: CareTrack, now: number): Promise<RssItem[]> {
+  try {
+    const response = await fetch(feed.url, {
+      headers: { Accept: 'application/rss+xml, application/xml, text/xml', 'User-Agent': CHROME_UA },
+      signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+    });
+    if (!response.ok) return [];
+
+    const parsed = xmlParser.parse(await response.text());
+    const items: any[] = parsed?.rss?.channel?.item ?? [];
+
+    const results: RssItem[] = [];
+    items.slice(0, MAX_ITEMS_PER_FEED).forEach((item, idx) => {
+      const title = textOf(item.title);
+      if (!title) return;
+      const pubDate = textOf(item.pubDate);
+      results.push({
+        id: `${feed.name}-${idx}-${title.slice(0, 40)}`,
+        title,
+        link: textOf(item.link),
+        source: feed.name,
+        pubDate,
+        timeAgo: pubDate ? calcTimeAgo(pubDate, now) : 'Recently',
+        description: textOf(item.description).replace(/<[^>]*>/g, '').slice(0, 200),
+        track,
+      });
+    });
+    return results;
+  } catch {
+    return [];
+  }
+}
+
+async function fetchAllCareNews(now: number): Promise<RssItem[]> {
+  const jobs: Promise<RssItem[]>[] = [];
+  for (const [category, feeds] of Object.entries(CARE_FEED_SOURCES)) {
+    const track = CARE_FEED_TRACKS[category];
+    if (!track) continue;
+    for (const feed of feeds) jobs.push(fetchCareFeed(feed, track, now));
+  }
+
+  const settled = await Promise.allSettled(jobs);
+  const all: RssItem[] = [];
+  for (const r of settled) {
+    if (r.status === 'fulfilled') all.push(...r.value);
+  }
+
+  all.sort((a, b) => (new Date(b.pubDate).getTime() || 0) - (new Date(a.pubDate).getTime() || 0));
+  return deduplicateNews(all);
+}
+
+/** Welfare policy feed items, used only to detect press-release dates for the policy calendar. */
+async function fetchWelfarePolicyItems(now: number): Promise<RssItem[]> {
+  const settled = await Promise.allSettled(WELFARE_POLICY_FEEDS.map((feed) => fetchCareFeed(feed, 'policy', now)));
+  return settled.flatMap((r) => (r.status === 'fulfilled' ? r.value : []));
+}
+
+// ========================================================================
+// Proto mapping
+// ========================================================================
+
+function toCareArticle(item: VerifiedRssItem): CareArticle {
+  return {
+    id: item.id,
+    title: item.title,
+    link: item.link,
+    source: item.source,
+    publishedAt: new Date(item.pubDate).getTime() || 0,
+    description: item.description,
+    track: item.track,
+    keywordMatches: item.keywordCategories.map((m) => ({ keyword: m.keyword, category: m.category })),
+    relevanceScore: item.relevance_score,
+    verifiedScore: item.verifiedScore,
+    sourceCount: item.sourceCount,
+    isVerified: item.isVerified,
+    relatedSources: item.relatedSources,
+    // Fits Telegram's 64-byte callback_data, unlike feed-derived ids
+    ref: hashString(item.link || item.id),
+  };
+}
+
+function toProtoListing(listing: ExtractedListing): ProcurementListing {
+  return {
+    id: listing.id,
+    title: listing.title,
+    agency: listing.agency,
+    budget: listing.budget,
+    deadline: listing.deadline,
+    bidType: listing.bid_type,
+    sourceUrl: listing.source_url,
+    fitnessScore: listing.fitness_score,
+    fitnessReason: listing.fitness_reason,
+    matchedKeywords: listing.matched_keywords,
+    fetchedAt: new Date(listing.fetched_at).getTime() || 0,
+  };
+}
+
+// ========================================================================
+// Keyword profile
+// ========================================================================
+
+/**
+ * Returns the shared keyword profile, or the default profile when none is stored
+ * (or Redis is unavailable).
+ */
+export async function getKeywordProfile(): Promise<KeywordProfile> {
+  return normalizeKeywordProfile((await getCachedJson(KEYWORD_PROFILE_KEY)) as Partial<KeywordProfile> | null);
+}
+
+/**
+ * Normalizes and stores the keyword profile. Throws when Redis is not configured
+ * or the write failed, since the profile would otherwise silently revert on the
+ * next request.
+ */
+export async function saveKeywordProfile(input: Partial<KeywordProfile>): Promise<KeywordProfile> {
+  if (!process.env.UPSTASH_REDIS_REST_URL || !process.env.UPSTASH_REDIS_REST_TOKEN) {
+    throw new Error('Keyword profile storage is not configured');
+  }
+  const profile = normalizeKeywordProfile({ ...input, updatedAt: Date.now() });
+  if (!(await setJsonChecked(KEYWORD_PROFILE_KEY, profile, KEYWORD_PROFILE_TTL))) {
+    throw new Error('Failed to store keyword profile');
+  }
+  return profile;
+}
+
+// ========================================================================
+// Competitor registry (DART)
+// ========================================================================
+
+/**
+ * Returns the competitor registry, or the default competitors when none is stored.
+ */
+export async function getCompetitorRegistry(): Promise<CompetitorRegistry> {
+  return normalizeCompetitorRegistry((await getCachedJson(COMPETITOR_REGISTRY_KEY)) as Partial<CompetitorRegistry> | null);
+}
+
+/**
+ * Normalizes and stores the competitor registry. Throws when Redis is not configured
+ * or the write failed.
+ */
+export async function saveCompetitorRegistry(input: Partial<CompetitorRegistry>): Promise<CompetitorRegistry> {
+  if (!process.env.UPSTASH_REDIS_REST_URL || !process.env.UPSTASH_REDIS_REST_TOKEN) {
+    throw new Error('Competitor registry storage is not configured');
+  }
+  const registry = normalizeCompetitorRegistry({ ...input, updatedAt: Date.now() });
+  if (!(await setJsonChecked(COMPETITOR_REGISTRY_KEY, registry, COMPETITOR_REGISTRY_TTL))) {
+    throw new Error('Failed to store competitor registry');
+  }
+  return registry;
+}
+
+/**
+ * Classified filings of every registered competitor, newest first.
+ * A failing corp is skipped so one bad code does not blank the timeline.
+ */
+async function fetchCompetitorDisclosures(registry: CompetitorRegistry): Promise<DartDisclosure[]> {
+  const settled = await Promise.allSettled(
+    registry.competitors.map((c) => fetchDartFilingsCached(c.corpCode, DISCLOSURE_WINDOW_DAYS)),
+  );
+
+  const disclosures: DartDisclosure[] = [];
+  settled.forEach((result, idx) => {
+    if (result.status !== 'fulfilled') return;
+    const competitor = registry.competitors[idx]!;
+    for (const filing of result.value) {
+      const receiptNo = filing.rcept_no || '';
+      const date = filing.rcept_dt || '';
+      disclosures.push({
+        receiptNo,
+        corpCode: competitor.corpCode,
+        corpName: filing.corp_name || competitor.name,
+        reportName: (filing.report_nm || '').trim(),
+        filedAt: date.length === 8 ? `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}` : date,
+        filer: filing.flr_nm || '',
+        filingType: classifyDisclosure(filing.report_nm || ''),
+        link: `https://dart.fss.or.kr/dsaf001/main.do?rcpNo=${receiptNo}`,
+      });
+    }
+  });
+
+  return disclosures.sort((a, b) => b.filedAt.localeCompare(a.filedAt) || b.receiptNo.localeCompare(a.receiptNo));
+}
+
+// ========================================================================
+// Snapshot
+// ========================================================================
+
+async function buildCareSnapshot(profile: KeywordProfile, registry: CompetitorRegistry): Promise<CareSnapshot | null> {
+  const now = Date.now();
+  const [raw, disclosures, welfare] = await Promise.all([
+    fetchAllCareNews(now),
+    fetchCompetitorDisclosures(registry),
+    fetchWelfarePolicyItems(now),
+  ]);
+  // Every feed failed — skip caching so the next request retries upstream
+  if (raw.length === 0) return null;
+
+  const filtered = filterByKeywords(raw, undefined, profile);
+  const verified = crossVerify(filtered);
+  const calendar = buildPolicyCalendar(detectPressEvents(welfare), now);
+  const score = calculateOpportunityScore(
+    [...verified, ...disclosureScoreItems(disclosures), ...policyCalendarScoreItems(calendar, now)],
+    // The active Settings profile (stored with the keyword profile), with the keyword profile's alert threshold
+    { ...DEFAULT_SCORING_PROFILE, ...profile.scoringProfile, alertThreshold: profile.alertThreshold },
+    now,
+  );
+
+  const trackCounts: Record<string, number> = {};
+  for (const track of CARE_TRACKS) {
+    trackCounts[track] = verified.filter((i) => i.track === track).length;
+  }
+
+  return {
+    articles: verified.map(toCareArticle),
+    listings: extractProcurementListings(filtered, new Date(now).toISOString(), profile).map(toProtoListing),
+    disclosures,
+    calendar,
+    score,
+    verification: getVerificationStats(verified),
+    trackCounts,
+    generatedAt: now,
+  };
+}
+
+/**
+ * Fallback when the snapshot cannot be built. generatedAt 0 marks it degraded,
+ * the same convention the client fallbacks use, so callers don't take it as fresh.
+ */
+function emptySnapshot(): CareSnapshot {
+  return {
+    articles: [],
+    listings: [],
+    disclosures: [],
+    // Budget cycle and law dates need no upstream, so the calendar survives a feed outage
+    calendar: buildPolicyCalendar([]),
+    score: { total: 0, s1: 0, s2: 0, s3: 0, shouldAlert: false, isHighPriority: false },
+    verification: { total: 0, verified: 0, multiSource: 0, singleSource: 0 },
+    trackCounts: Object.fromEntries(CARE_TRACKS.map((t) => [t, 0])),
+    generatedAt: 0,
+  };
+}
+
+/**
+ * Returns the shared ingestion snapshot, building it on cache miss.
+ * Concurrent callers share one upstream run via cachedFetchJson coalescing.
+ */
+export async function getCareSnapshot(): Promise<CareSnapshot> {
+  try {
+    const [profile, registry] = await Promise.all([getKeywordProfile(), getCompetitorRegistry()]);
+    const key = `${SNAPSHOT_CACHE_KEY}:${profile.updatedAt}:${registry.updatedAt}`;
+    return (await cachedFetchJson(key, SNAPSHOT_CACHE_TTL, () => buildCareSnapshot(profile, registry))) ?? emptySnapshot();
+  } catch {
+    return emptySnapshot();
+  }
+}
+
+export function applyLimit<T>(items: T[], limit: number | undefined): T[] {
+  return limit && limit > 0 ? items.slice(0, limit) : items;
+}
@@ -0,0 +1,371 @@
+/**
+ * Study-session helpers shared by generate-study-session.ts,
+ * evaluate-study-answer.ts and generate-weekly-review.ts.
+ *
+ * All three RPCs walk the same provider chain as SummarizeArticle
+ * (Ollama -> Groq -> OpenRouter, credentials from news/v1/_shared.ts) but with
+ * their own prompts and token budgets: a reference answer is a page, not a
+ * two-sentence brief. Pointing OLLAMA_API_URL at a local Ollama-compatible
+ * server (scripts/llm-stub-server.mjs in tests) keeps the loop fully offline.
+ */
+
+import type {
+  GenerateWeeklyReviewRequest,
+  WeeklyActivity,
+  WeeklyCompetency,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+import { getProviderCredentials } from '../../news/v1/_shared';
+import { CHROME_UA } from '../../../_shared/constants';
+import { hashString } from '../../../_shared/hash';
+import {
+  DEPTH_DIMENSIONS,
+  DEPTH_SCORE_MAX,
+  STUDY_GAP_KINDS,
+  type DepthDimension,
+  type DepthScore,
+  type StudyGap,
+  type StudyGapKind,
+  type StudyQuestion,
+  type StudySessionType,
+} from '../../../../src/services/study/types';
+
+// ========================================================================
+// Constants
+// ========================================================================
+
+export const STUDY_PROVIDERS = ['ollama', 'groq', 'openrouter'] as const;
+
+export const REFERENCE_CACHE_TTL = 7 * 86400;
+export const EVALUATION_CACHE_TTL = 86400;
+
+const LLM_TIMEOUT_MS = 60_000;
+export const REFERENCE_MAX_TOKENS = 900;
+export const EVALUATION_MAX_TOKENS = 900;
+
+const MAX_FIELD_LEN = 300;
+const MAX_CONTEXT_LINES = 20;
+const MAX_PROMPT_LEN = 1000;
+export const MAX_REFERENCE_LEN = 6000;
+export const MAX_ANSWER_LEN = 4000;
+const MAX_GAPS = 8;
+
+const SESSION_FOCUS: Record<StudySessionType, string> = {
+  financial: 'financial statement analysis (growth, profitability, R&D intensity, runway)',
+  pricing: 'pricing design for B2G procurement and B2B sales (pricing unit, model, base price, bid ratio)',
+  sroi: 'SROI estimation (inputs, stakeholder outcomes, financial proxies, deadweight, attribution, ratio)',
+  pitch: 'pitch scripting for care-sector decision makers (objection handling, evidence, call to action)',
+  regulation: 'regulation and welfare-policy impact analysis (laws, reimbursement, procurement rules)',
+  benchmark: 'competitor benchmarking (technology, business model, pricing, go-to-market)',
+  custom: 'care-technology market analysis',
+};
+
+// ========================================================================
+// Provider chain
+// ========================================================================
+
+export interface StudyCompletion {
+  content: string;
+  provider: string;
+  model: string;
+}
+
+interface ChatPrompts {
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+function stripReasoning(text: string): string {
+  return text
+    .replace(/<think>[\s\S]*?<\/think>/gi, '')
+    .replace(/<\|thinking\|>[\s\S]*?<\|\/thinking\|>/gi, '')
+    .replace(/<reasoning>[\s\S]*?<\/reasoning>/gi, '')
+    .replace(/<think>[\s\S]*/gi, '')
+    .trim();
+}
+
+/**
+ * Tries each configured provider in order and returns the first non-empty
+ * completion, or null when none is configured or all of them fail.
+ */
+export async function completeStudyPrompt(
+  { systemPrompt, userPrompt }: ChatPrompts,
+  maxTokens: number,
+  accept: (content: string) => boolean = () => true,
+): Promise<StudyCompletion | null> {
+  for (const provider of STUDY_PROVIDERS) {
+    const credentials = getProviderCredentials(provider);
+    if (!credentials) continue;
+
+    try {
+      const response = await fetch(credentials.apiUrl, {
+        method: 'POST',
+        headers: { ...credentials.headers, 'User-Agent': CHROME_UA },
+        body: JSON.stringify({
+          model: credentials.model,
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt },
+          ],
+          temperature: 0.3,
+          max_tokens: maxTokens,
+          ...credentials.extraBody,
+        }),
+        signal: AbortSignal.timeout(LLM_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        console.warn(`[Study:${provider}] API error:`, response.status);
+        continue;
+      }
+
+      const data = (await response.json()) as { choices?: Array<{ message?: { content?: unknown } }> };
+      const raw = data.choices?.[0]?.message?.content;
+      const content = typeof raw === 'string' ? stripReasoning(raw) : '';
+      if (!content || !accept(content)) {
+        console.warn(`[Study:${provider}] Unusable response, trying next provider`);
+        continue;
+      }
+      return { content, provider, model: credentials.model };
+    } catch (err) {
+      console.warn(`[Study:${provider}] Error:`, err instanceof Error ? err.message : String(err));
+    }
+  }
+  return null;
+}
+
+// ========================================================================
+// Input sanitization
+// ========================================================================
+
+export function sanitizeQuestion(question: StudyQuestion | undefined): StudyQuestion {
+  return {
+    title: (question?.title ?? '').slice(0, MAX_FIELD_LEN),
+    prompt: (question?.prompt ?? '').slice(0, MAX_PROMPT_LEN),
+    context: (question?.context ?? []).slice(0, MAX_CONTEXT_LINES).map((line) => String(line).slice(0, MAX_FIELD_LEN)),
+    answerGuide: (question?.answerGuide ?? '').slice(0, MAX_PROMPT_LEN),
+  };
+}
+
+export function questionCacheKey(prefix: string, sessionType: string, question: StudyQuestion, ...extra: string[]): string {
+  const body = [sessionType, question.prompt, ...question.context, question.answerGuide, ...extra].join('\n');
+  return `care:study:${prefix}:v1:${hashString(body)}`;
+}
+
+function questionBlock(question: StudyQuestion): string {
+  const context = question.context.length > 0 ? `\n\nContext:\n${question.context.map((line) => `- ${line}`).join('\n')}` : '';
+  const guide = question.answerGuide ? `\n\nA complete answer: ${question.answerGuide}` : '';
+  return `${question.prompt}${context}${guide}`;
+}
+
+// ========================================================================
+// Reference answer
+// ========================================================================
+
+export function buildReferencePrompts(sessionType: StudySessionType, question: StudyQuestion): ChatPrompts {
+  return {
+    systemPrompt: `Current date: ${new Date().toISOString().split('T')[0]}.
+
+You are a strategy coach for CareVia, a Korean AI care-technology company for people with developmental disabilities (behavioural analysis AI, care records, B2G welfare procurement).
+Write the model answer a learner will compare their own answer against. Topic: ${SESSION_FOCUS[sessionType]}.
+Rules:
+- Write in Korean
+- Ground the answer in the context; mark figures you add beyond it as 가정
+- Show calculations step by step with units (원, 억원, %, 명)
+- Organize as 4-8 short lines, each starting with a label such as "핵심:" or "계산:"
+- End with one line starting "CareVia 적용:"
+- No preamble, no meta-commentary`,
+    userPrompt: questionBlock(question),
+  };
+}
+
+// ========================================================================
+// Gap check
+// ========================================================================
+
+export function buildEvaluationPrompts(question: StudyQuestion, reference: string, myAnswer: string): ChatPrompts {
+  const dimensions = DEPTH_DIMENSIONS.join(', ');
+  return {
+    systemPrompt: `You compare a learner's answer with a reference answer and return ONLY valid JSON, no other text.
+
+JSON shape:
+{"summary":"...","gaps":[{"kind":"covered|missed|inaccurate","point":"...","detail":"..."}],"depth_scores":[{"dimension":"...","score":0,"reason":"..."}]}
+
+Rules:
+- Write summary, point and detail in Korean
+- gaps: up to ${MAX_GAPS} items. "covered" = the learner got it, "missed" = in the reference but not the answer, "inaccurate" = the learner stated it wrongly (say what is correct in detail)
+- depth_scores: exactly one item per dimension (${dimensions}), score 0-${DEPTH_SCORE_MAX} where 0 means the answer does not address it
+- accuracy = facts and numbers are right, quantification = claims are backed by calculated numbers, structure = the reasoning is organized, application = it connects to CareVia's business, risk = it names risks and limits
+- Judge the learner's answer, not the reference`,
+    userPrompt: `Question:\n${questionBlock(question)}\n\nReference answer:\n${reference || '(none - judge against the question and context alone)'}\n\nLearner's answer:\n${myAnswer}`,
+  };
+}
+
+export interface ParsedEvaluation {
+  summary: string;
+  gaps: StudyGap[];
+  depthScores: DepthScore[];
+}
+
+function extractJsonObject(text: string): unknown {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim().slice(0, MAX_FIELD_LEN) : '';
+}
+
+/**
+ * Parses and validates the model's JSON. Unknown gap kinds and dimensions are
+ * dropped, scores are clamped to 0..DEPTH_SCORE_MAX, and duplicate dimensions
+ * keep the first entry. Returns null when nothing usable remains.
+ */
+export function parseEvaluation(raw: string): ParsedEvaluation | null {
+  const parsed = extractJsonObject(raw) as { summary?: unknown; gaps?: unknown; depth_scores?: unknown; depthScores?: unknown } | null;
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  const gaps: StudyGap[] = (Array.isArray(parsed.gaps) ? parsed.gaps : [])
+    .map((gap: { kind?: unknown; point?: unknown; detail?: unknown }) => ({
+      kind: text(gap?.kind) as StudyGapKind,
+      point: text(gap?.point),
+      detail: text(gap?.detail),
+    }))
+    .filter((gap) => STUDY_GAP_KINDS.includes(gap.kind) && gap.point)
+    .slice(0, MAX_GAPS);
+
+  const seen = new Set<DepthDimension>();
+  const rawScores = parsed.depth_scores ?? parsed.depthScores;
+  const depthScores: DepthScore[] = [];
+  for (const item of Array.isArray(rawScores) ? rawScores : []) {
+    const dimension = text(item?.dimension) as DepthDimension;
+    const score = Number(item?.score);
+    if (!DEPTH_DIMENSIONS.includes(dimension) || seen.has(dimension) || !Number.isFinite(score)) continue;
+    seen.add(dimension);
+    depthScores.push({ dimension, score: Math.max(0, Math.min(DEPTH_SCORE_MAX, Math.round(score))), reason: text(item?.reason) });
+  }
+  depthScores.sort((a, b) => DEPTH_DIMENSIONS.indexOf(a.dimension) - DEPTH_DIMENSIONS.indexOf(b.dimension));
+
+  if (gaps.length === 0 && depthScores.length === 0) return null;
+  return { summary: typeof parsed.summary === 'string' ? parsed.summary.trim().slice(0, 1000) : '', gaps, depthScores };
+}
+
+// ========================================================================
+// Weekly review
+// ========================================================================
+
+export const WEEKLY_REVIEW_CACHE_TTL = 86400;
+export const WEEKLY_REVIEW_MAX_TOKENS = 700;
+const MAX_WEEKLY_ITEMS = 15;
+const MAX_BLIND_SPOTS = 5;
+
+export interface WeeklyReviewInput {
+  weekStart: string;
+  weekEnd: string;
+  sessions: WeeklyActivity[];
+  memos: WeeklyActivity[];
+  bookmarks: WeeklyActivity[];
+  competencies: WeeklyCompetency[];
+  ignored: string[];
+  scoreTrend: string;
+  answers: string[];
+}
+
+const field = (value: unknown) => String(value ?? '').trim().slice(0, MAX_FIELD_LEN);
+const int = (value: unknown) => (Number.isFinite(Number(value)) ? Math.round(Number(value)) : 0);
+
+/** Trims every list and field so a week of activity stays a bounded prompt. */
+export function sanitizeWeeklyReview(req: Partial<GenerateWeeklyReviewRequest>): WeeklyReviewInput {
+  const activities = (items: WeeklyActivity[] | undefined) =>
+    (items ?? []).slice(0, MAX_WEEKLY_ITEMS).map((a) => ({ kind: field(a?.kind), title: field(a?.title), detail: field(a?.detail) }));
+  return {
+    weekStart: field(req.weekStart),
+    weekEnd: field(req.weekEnd),
+    sessions: activities(req.sessions),
+    memos: activities(req.memos),
+    bookmarks: activities(req.bookmarks),
+    competencies: (req.competencies ?? []).slice(0, MAX_WEEKLY_ITEMS).map((c) => ({
+      label: field(c?.label),
+      level: field(c?.level),
+      proficiency: int(c?.proficiency),
+      change: int(c?.change),
+      sessions: int(c?.sessions),
+    })),
+    ignored: (req.ignored ?? []).slice(0, MAX_WEEKLY_ITEMS).map(field).filter(Boolean),
+    scoreTrend: field(req.scoreTrend),
+    answers: (req.answers ?? []).slice(0, 5).map((a) => String(a ?? '').trim().slice(0, MAX_PROMPT_LEN)),
+  };
+}
+
+function activityLines(items: WeeklyActivity[]): string {
+  if (items.length === 0) return '- (none)';
+  return items.map((a) => `- [${a.kind}] ${a.title}${a.detail ? ` — ${a.detail}` : ''}`).join('\n');
+}
+
+export function buildWeeklyReviewPrompts(input: WeeklyReviewInput): ChatPrompts {
+  const competencies = input.competencies.length > 0
+    ? input.competencies
+      .map((c) => `- ${c.label}: ${c.level}, proficiency ${c.proficiency}/100 (${c.change >= 0 ? '+' : ''}${c.change} this week), ${c.sessions} sessions`)
+      .join('\n')
+    : '- (no evidence yet)';
+  const answers = input.answers.some(Boolean)
+    ? input.answers.map((a, i) => `Q${i + 1}: ${a || '(blank)'}`).join('\n')
+    : '(not answered yet)';
+  return {
+    systemPrompt: `You write a learner's weekly review and return ONLY valid JSON, no other text.
+
+JSON shape:
+{"summary":"...","blind_spots":["..."],"growth_note":"..."}
+
+The learner works at CareVia, a Korean AI care-technology company, and studies financial analysis, pricing, SROI, policy and competitors.
+Rules:
+- Write in Korean
+- summary: 3-5 sentences on what the learner actually did this week, citing sessions, memos and bookmarks by name
+- blind_spots: up to ${MAX_BLIND_SPOTS} items, each one sentence naming a track or competency that was ignored or stayed weak and why it matters; start from the "Ignored this week" list
+- growth_note: 2-3 sentences on progress (competency changes) and one concrete focus for next week
+- Do not invent activity that is not listed`,
+    userPrompt: `Week: ${input.weekStart} ~ ${input.weekEnd}
+
+Study sessions:
+${activityLines(input.sessions)}
+
+Memos:
+${activityLines(input.memos)}
+
+Bookmarked articles:
+${activityLines(input.bookmarks)}
+
+Competencies:
+${competencies}
+
+Ignored this week:
+${input.ignored.length > 0 ? input.ignored.map((i) => `- ${i}`).join('\n') : '- (none)'}
+
+Opportunity score: ${input.scoreTrend || '(no history)'}
+
+Learner's answers:
+${answers}`,
+  };
+}
+
+export interface ParsedWeeklyReview {
+  summary: string;
+  blindSpots: string[];
+  growthNote: string;
+}
+
+/** Parses the model's JSON; null unless it has a summary. Blind spots are deduplicated and capped. */
+export function parseWeeklyReview(raw: string): ParsedWeeklyReview | null {
+  const parsed = extractJsonObject(raw) as { summary?: unknown; blind_spots?: unknown; blindSpots?: unknown; growth_note?: unknown; growthNote?: unknown } | null;
+  if (!parsed || typeof parsed !== 'object') return null;
+  const summary = typeof parsed.summary === 'string' ? parsed.summary.trim().slice(0, 1000) : '';
+  if (!summary) return null;
+  const rawSpots = parsed.blind_spots ?? parsed.blindSpots;
+  const blindSpots = [...new Set((Array.isArray(rawSpots) ? rawSpots : []).map(text).filter(Boolean))].slice(0, MAX_BLIND_SPOTS);
+  const rawNote = parsed.growth_note ?? parsed.growthNote;
+  return { summary, blindSpots, growthNote: typeof rawNote === 'string' ? rawNote.trim().slice(0, 1000) : '' };
+}
@@ -0,0 +1,66 @@
+/**
+ * RPC: evaluateStudyAnswer
+ *
+ * Gap Check: has the provider chain compare "My Answer" with the AI reference
+ * and return covered / missed / inaccurate points plus 0-5 depth scores per
+ * dimension. A provider whose reply does not parse into that shape is skipped
+ * like a failed one. Results are cached per (question, reference, answer).
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  EvaluateStudyAnswerRequest,
+  EvaluateStudyAnswerResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { getCachedJson, setCachedJson } from '../../../_shared/redis';
+import {
+  EVALUATION_CACHE_TTL,
+  EVALUATION_MAX_TOKENS,
+  MAX_ANSWER_LEN,
+  MAX_REFERENCE_LEN,
+  buildEvaluationPrompts,
+  completeStudyPrompt,
+  parseEvaluation,
+  questionCacheKey,
+  sanitizeQuestion,
+  type ParsedEvaluation,
+} from './_study';
+
+const emptyEvaluation: EvaluateStudyAnswerResponse = {
+  gaps: [],
+  depthScores: [],
+  summary: '',
+  provider: '',
+  model: '',
+  fallback: true,
+};
+
+export const evaluateStudyAnswer: CareServiceHandler['evaluateStudyAnswer'] = async (
+  _ctx: ServerContext,
+  req: EvaluateStudyAnswerRequest,
+): Promise<EvaluateStudyAnswerResponse> => {
+  const myAnswer = (req.myAnswer ?? '').trim().slice(0, MAX_ANSWER_LEN);
+  if (!myAnswer) return emptyEvaluation;
+
+  const question = sanitizeQuestion(req.question);
+  const reference = (req.reference ?? '').slice(0, MAX_REFERENCE_LEN);
+  const cacheKey = questionCacheKey('evaluation', req.sessionType ?? '', question, reference, myAnswer);
+
+  const cached = (await getCachedJson(cacheKey)) as (ParsedEvaluation & { model?: string }) | null;
+  if (cached?.depthScores) {
+    return { gaps: cached.gaps, depthScores: cached.depthScores, summary: cached.summary, provider: 'cache', model: cached.model ?? '', fallback: false };
+  }
+
+  const completion = await completeStudyPrompt(
+    buildEvaluationPrompts(question, reference, myAnswer),
+    EVALUATION_MAX_TOKENS,
+    (content) => parseEvaluation(content) !== null,
+  );
+  const evaluation = completion ? parseEvaluation(completion.content) : null;
+  if (!completion || !evaluation) return emptyEvaluation;
+
+  await setCachedJson(cacheKey, { ...evaluation, model: completion.model, timestamp: Date.now() }, EVALUATION_CACHE_TTL);
+  return { ...evaluation, provider: completion.provider, model: completion.model, fallback: false };
+};
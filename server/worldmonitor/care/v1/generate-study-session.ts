@@ -0,0 +1,92 @@
+/**
+ * RPC: generateStudySession
+ *
+ * Builds the Question step from a tracked article, a synthetic_companies row
+ * or a sroi_scenarios row (src/services/study/generator.ts, the same builder
+ * the dashboard uses offline) and asks the provider chain for the AI reference
+ * answer. References are cached per question; when every provider fails the
+ * question is still returned with fallback set.
+ */
+
+import {
+  ApiError,
+  type CareServiceHandler,
+  type ServerContext,
+  type GenerateStudySessionRequest,
+  type GenerateStudySessionResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { getCachedJson, setCachedJson } from '../../../_shared/redis';
+import { buildStudyQuestion, isStudySessionType } from '../../../../src/services/study/generator';
+import type { StudySource } from '../../../../src/services/study/types';
+import {
+  MAX_REFERENCE_LEN,
+  REFERENCE_CACHE_TTL,
+  REFERENCE_MAX_TOKENS,
+  buildReferencePrompts,
+  completeStudyPrompt,
+  questionCacheKey,
+} from './_study';
+
+const MAX_SOURCE_FIELD_LEN = 2000;
+
+const clip = (value: string | undefined): string => (value ?? '').slice(0, MAX_SOURCE_FIELD_LEN);
+
+function toStudySource(req: GenerateStudySessionRequest): StudySource | null {
+  if (req.article?.title) {
+    const a = req.article;
+    return {
+      kind: 'article',
+      article: { title: clip(a.title), description: clip(a.description), link: clip(a.link), track: clip(a.track), keywords: (a.keywords ?? []).slice(0, 20).map(clip) },
+    };
+  }
+  if (req.company?.name) {
+    const c = req.company;
+    return {
+      kind: 'company',
+      company: {
+        id: clip(c.id), name: clip(c.name), basedOn: clip(c.basedOn), category: clip(c.category),
+        description: clip(c.description), financials: clip(c.financials), learningFocus: clip(c.learningFocus),
+        careviaRelevance: clip(c.careviaRelevance), level: clip(c.level),
+      },
+    };
+  }
+  if (req.scenario?.site) {
+    const s = req.scenario;
+    return {
+      kind: 'scenario',
+      scenario: {
+        id: clip(s.id), site: clip(s.site), event: clip(s.event), hint: clip(s.hint),
+        difficulty: clip(s.difficulty), learningFocus: clip(s.learningFocus), basedOn: clip(s.basedOn),
+      },
+    };
+  }
+  return null;
+}
+
+export const generateStudySession: CareServiceHandler['generateStudySession'] = async (
+  _ctx: ServerContext,
+  req: GenerateStudySessionRequest,
+): Promise<GenerateStudySessionResponse> => {
+  const sessionType = req.sessionType ?? '';
+  if (!isStudySessionType(sessionType)) {
+    throw new ApiError(400, `Unknown session type: ${sessionType}`, '');
+  }
+
+  const question = buildStudyQuestion(sessionType, toStudySource(req));
+  const cacheKey = questionCacheKey('reference', sessionType, question);
+
+  const cached = (await getCachedJson(cacheKey)) as { reference?: string; model?: string } | null;
+  if (cached?.reference) {
+    return { question, reference: cached.reference, provider: 'cache', model: cached.model ?? '', fallback: false };
+  }
+
+  const completion = await completeStudyPrompt(buildReferencePrompts(sessionType, question), REFERENCE_MAX_TOKENS);
+  if (!completion) {
+    return { question, reference: '', provider: '', model: '', fallback: true };
+  }
+
+  const reference = completion.content.slice(0, MAX_REFERENCE_LEN);
+  await setCachedJson(cacheKey, { reference, model: completion.model, timestamp: Date.now() }, REFERENCE_CACHE_TTL);
+  return { question, reference, provider: completion.provider, model: completion.model, fallback: false };
+};
@@ -0,0 +1,61 @@
+/**
+ * RPC: generateWeeklyReview
+ *
+ * AI weekly review: sends the week's sessions, memos, bookmarks, competency
+ * estimates and ignored tracks through the provider chain and returns a
+ * summary, blind spots and a growth note. A reply without a summary is
+ * skipped like a failed provider. Results are cached per prompt, so saving
+ * the same week twice does not call the LLM again.
+ */
+
+import {
+  ApiError,
+  type CareServiceHandler,
+  type ServerContext,
+  type GenerateWeeklyReviewRequest,
+  type GenerateWeeklyReviewResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { hashString } from '../../../_shared/hash';
+import { getCachedJson, setCachedJson } from '../../../_shared/redis';
+import {
+  WEEKLY_REVIEW_CACHE_TTL,
+  WEEKLY_REVIEW_MAX_TOKENS,
+  buildWeeklyReviewPrompts,
+  completeStudyPrompt,
+  parseWeeklyReview,
+  sanitizeWeeklyReview,
+  type ParsedWeeklyReview,
+} from './_study';
+
+const emptyReview: GenerateWeeklyReviewResponse = {
+  summary: '',
+  blindSpots: [],
+  growthNote: '',
+  provider: '',
+  model: '',
+  fallback: true,
+};
+
+export const generateWeeklyReview: CareServiceHandler['generateWeeklyReview'] = async (
+  _ctx: ServerContext,
+  req: GenerateWeeklyReviewRequest,
+): Promise<GenerateWeeklyReviewResponse> => {
+  const input = sanitizeWeeklyReview(req);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.weekStart)) throw new ApiError(400, 'weekStart must be YYYY-MM-DD', '');
+
+  const prompts = buildWeeklyReviewPrompts(input);
+  const cacheKey = `care:study:weekly:v1:${hashString(prompts.userPrompt)}`;
+
+  const cached = (await getCachedJson(cacheKey)) as (ParsedWeeklyReview & { model?: string }) | null;
+  if (cached?.summary) {
+    return { summary: cached.summary, blindSpots: cached.blindSpots ?? [], growthNote: cached.growthNote ?? '', provider: 'cache', model: cached.model ?? '', fallback: false };
+  }
+
+  const completion = await completeStudyPrompt(prompts, WEEKLY_REVIEW_MAX_TOKENS, (content) => parseWeeklyReview(content) !== null);
+  const review = completion ? parseWeeklyReview(completion.content) : null;
+  if (!completion || !review) return emptyReview;
+
+  await setCachedJson(cacheKey, { ...review, model: completion.model, timestamp: Date.now() }, WEEKLY_REVIEW_CACHE_TTL);
+  return { ...review, provider: completion.provider, model: completion.model, fallback: false };
+};
@@ -0,0 +1,109 @@
+/**
+ * RPC: getCompanyFinancials
+ *
+ * Reads the key accounts of a DART annual report (fnlttSinglAcnt) for the
+ * study financial analyzer. One report restates the two prior years, so a
+ * single call yields up to three periods for trend ratios. Consolidated
+ * statements are preferred; companies without subsidiaries only file OFS.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  FinancialPeriod,
+  GetCompanyFinancialsRequest,
+  GetCompanyFinancialsResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { fetchDartKeyAccountsCached, isDartConfigured, type DartRawAccount } from '../../../_shared/dart';
+
+type AmountField = Exclude<keyof FinancialPeriod, 'year'>;
+
+// Account names vary slightly between filers ("영업이익(손실)", "수익(매출액)")
+const ACCOUNT_PATTERNS: [AmountField, RegExp][] = [
+  ['revenue', /^(매출액|수익\(매출액\)|영업수익)$/],
+  ['operatingIncome', /^영업이익(\(손실\))?$/],
+  ['netIncome', /^당기순이익(\(손실\))?$/],
+  ['currentAssets', /^유동자산$/],
+  ['currentLiabilities', /^유동부채$/],
+  ['totalAssets', /^자산총계$/],
+  ['totalLiabilities', /^부채총계$/],
+  ['totalEquity', /^자본총계$/],
+];
+
+const TERMS = [
+  ['thstrm_amount', 0],
+  ['frmtrm_amount', 1],
+  ['bfefrmtrm_amount', 2],
+] as const;
+
+function parseAmount(raw: string | undefined): number | null {
+  const cleaned = (raw ?? '').replace(/[,\s]/g, '');
+  if (!cleaned || cleaned === '-') return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+}
+
+/** DART key-account rows → periods, oldest first. Years with no parsed amount are dropped. */
+export function keyAccountsToPeriods(rows: DartRawAccount[], year: number): { periods: FinancialPeriod[]; statementKind: string } {
+  const statementKind = rows.some((r) => r.fs_div === 'CFS') ? 'CFS' : 'OFS';
+  const periods = TERMS.map(([, back]) => ({
+    year: year - back,
+    revenue: 0,
+    operatingIncome: 0,
+    netIncome: 0,
+    currentAssets: 0,
+    currentLiabilities: 0,
+    totalAssets: 0,
+    totalLiabilities: 0,
+    totalEquity: 0,
+  }));
+  const filled = new Set<number>();
+
+  for (const row of rows) {
+    if ((row.fs_div || 'OFS') !== statementKind) continue;
+    const name = (row.account_nm ?? '').replace(/\s+/g, '');
+    const field = ACCOUNT_PATTERNS.find(([, pattern]) => pattern.test(name))?.[0];
+    if (!field) continue;
+    for (const [key, back] of TERMS) {
+      const amount = parseAmount(row[key]);
+      if (amount === null) continue;
+      periods[back]![field] = amount;
+      filled.add(back);
+    }
+  }
+
+  return { periods: periods.filter((_, back) => filled.has(back)).reverse(), statementKind };
+}
+
+// Annual reports are due by the end of March, so last year's may not be filed yet
+function candidateYears(requested: number): number[] {
+  if (requested > 0) return [requested];
+  const kstYear = new Date(Date.now() + 9 * 60 * 60 * 1000).getUTCFullYear();
+  return [kstYear - 1, kstYear - 2];
+}
+
+export const getCompanyFinancials: CareServiceHandler['getCompanyFinancials'] = async (
+  _ctx: ServerContext,
+  req: GetCompanyFinancialsRequest,
+): Promise<GetCompanyFinancialsResponse> => {
+  const empty = { periods: [], statementKind: '', year: 0 };
+  if (!isDartConfigured()) {
+    return { ...empty, configured: false, error: '' };
+  }
+  const corpCode = (req.corpCode ?? '').trim();
+  if (!/^\d{8}$/.test(corpCode)) {
+    return { ...empty, configured: true, error: 'corpCode must be 8 digits' };
+  }
+
+  try {
+    for (const year of candidateYears(req.year ?? 0)) {
+      const rows = await fetchDartKeyAccountsCached(corpCode, year);
+      if (rows.length === 0) continue;
+      return { ...keyAccountsToPeriods(rows, year), year, configured: true, error: '' };
+    }
+    return { ...empty, configured: true, error: '' };
+  } catch (err) {
+    return { ...empty, configured: true, error: err instanceof Error ? err.message : 'Internal error' };
+  }
+};
@@ -0,0 +1,22 @@
+/**
+ * RPC: getKeywordProfile
+ *
+ * Returns the shared keyword profile (custom keywords, negative keywords and
+ * alert threshold) stored in Redis, or the default profile when none is saved.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  GetKeywordProfileRequest,
+  GetKeywordProfileResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { getKeywordProfile as loadKeywordProfile } from './_shared';
+
+export const getKeywordProfile: CareServiceHandler['getKeywordProfile'] = async (
+  _ctx: ServerContext,
+  _req: GetKeywordProfileRequest,
+): Promise<GetKeywordProfileResponse> => {
+  return { profile: await loadKeywordProfile() };
+};
@@ -0,0 +1,28 @@
+/**
+ * RPC: getOpportunityScore
+ *
+ * Returns the opportunity score (S1 policy x 0.4 + S2 funding x 0.3 +
+ * S3 competitor x 0.3) computed once per ingestion snapshot.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  GetOpportunityScoreRequest,
+  GetOpportunityScoreResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { getCareSnapshot } from './_shared';
+
+export const getOpportunityScore: CareServiceHandler['getOpportunityScore'] = async (
+  _ctx: ServerContext,
+  _req: GetOpportunityScoreRequest,
+): Promise<GetOpportunityScoreResponse> => {
+  const snapshot = await getCareSnapshot();
+  return {
+    score: snapshot.score,
+    verification: snapshot.verification,
+    trackCounts: snapshot.trackCounts,
+    generatedAt: snapshot.generatedAt,
+  };
+};
@@ -0,0 +1,25 @@
+/**
+ * RPC: getTelegramSubscription
+ *
+ * Returns one chat's alert settings. Chats that never saved settings get the
+ * default subscription (every track, shared threshold, no quiet hours).
+ * Only the webhook reads it, so it sits behind the server secret like the write.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  GetTelegramSubscriptionRequest,
+  GetTelegramSubscriptionResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { getTelegramSubscription as readSubscription } from './_bot';
+import { requireServerSecret } from './_auth';
+
+export const getTelegramSubscription: CareServiceHandler['getTelegramSubscription'] = async (
+  ctx: ServerContext,
+  req: GetTelegramSubscriptionRequest,
+): Promise<GetTelegramSubscriptionResponse> => {
+  requireServerSecret(ctx);
+  return { subscription: await readSubscription(req.chatId) };
+};
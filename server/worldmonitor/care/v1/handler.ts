@@ -0,0 +1,88 @@
+/**
+ * Care service handler -- thin composition file.
+ *
+ * All RPCs read the same Redis-cached ingestion snapshot (_shared.ts):
+ * - list-track-news.ts           (scored care-track news)
+ * - get-opportunity-score.ts     (S1/S2/S3 weighted score)
+ * - list-procurement-listings.ts (policy-track procurement items)
+ *
+ * The keyword profile RPCs read and write the Redis-stored profile that the
+ * snapshot is built with (the write requires the server secret, _auth.ts):
+ * - get-keyword-profile.ts
+ * - update-keyword-profile.ts
+ *
+ * The competitor registry RPCs manage the DART corp codes whose filings are
+ * classified into the snapshot (list-competitor-disclosures.ts reads them back;
+ * update-competitors requires the server secret):
+ * - list-competitors.ts
+ * - update-competitors.ts
+ * - search-dart-corps.ts          (corpCode.xml lookup)
+ * - list-competitor-disclosures.ts
+ *
+ * The Telegram bot RPCs keep per-chat subscriptions and the inline-button
+ * action inbox in Redis (_bot.ts). All but list-bot-actions require the
+ * server secret (_auth.ts):
+ * - get-telegram-subscription.ts
+ * - update-telegram-subscription.ts
+ * - record-bot-action.ts          (exclude / bookmark / study from an alert)
+ * - list-bot-actions.ts           (pulled by the dashboard into its stores)
+ *
+ * The notification RPC reports the hub's channels and delivery log
+ * (server/notifications):
+ * - list-notification-deliveries.ts
+ *
+ * The study RPCs generate AI-backed study sessions through the LLM provider
+ * chain (_study.ts):
+ * - generate-study-session.ts     (question + AI reference answer)
+ * - evaluate-study-answer.ts      (gap check + depth scores)
+ * - generate-weekly-review.ts     (weekly summary + blind spots)
+ *
+ * The financial analyzer reads DART annual-report key accounts:
+ * - get-company-financials.ts     (fnlttSinglAcnt)
+ *
+ * The policy calendar is built with the snapshot and scored into S1:
+ * - list-policy-calendar.ts       (budget cycle, AI law dates, press releases)
+ */
+
+import type { CareServiceHandler } from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+import { listTrackNews } from './list-track-news';
+import { getOpportunityScore } from './get-opportunity-score';
+import { listProcurementListings } from './list-procurement-listings';
+import { getKeywordProfile } from './get-keyword-profile';
+import { updateKeywordProfile } from './update-keyword-profile';
+import { listCompetitors } from './list-competitors';
+import { updateCompetitors } from './update-competitors';
+import { searchDartCorps } from './search-dart-corps';
+import { listCompetitorDisclosures } from './list-competitor-disclosures';
+import { getTelegramSubscription } from './get-telegram-subscription';
+import { updateTelegramSubscription } from './update-telegram-subscription';
+import { recordBotAction } from './record-bot-action';
+import { listBotActions } from './list-bot-actions';
+import { listNotificationDeliveries } from './list-notification-deliveries';
+import { generateStudySession } from './generate-study-session';
+import { evaluateStudyAnswer } from './evaluate-study-answer';
+import { getCompanyFinancials } from './get-company-financials';
+import { generateWeeklyReview } from './generate-weekly-review';
+import { listPolicyCalendar } from './list-policy-calendar';
+
+export const careHandler: CareServiceHandler = {
+  listTrackNews,
+  getOpportunityScore,
+  listProcurementListings,
+  getKeywordProfile,
+  updateKeywordProfile,
+  listCompetitors,
+  updateCompetitors,
+  searchDartCorps,
+  listCompetitorDisclosures,
+  getTelegramSubscription,
+  updateTelegramSubscription,
+  recordBotAction,
+  listBotActions,
+  listNotificationDeliveries,
+  generateStudySession,
+  evaluateStudyAnswer,
+  getCompanyFinancials,
+  generateWeeklyReview,
+  listPolicyCalendar,
+};
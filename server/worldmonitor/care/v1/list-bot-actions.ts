@@ -0,0 +1,26 @@
+/**
+ * RPC: listBotActions
+ *
+ * Returns Telegram inline actions recorded after `since`, oldest first. The
+ * dashboard polls this with its last-applied cursor and writes the actions
+ * into its exclusion, article and knowledge stores. The RPC is public, so the
+ * Telegram chat IDs behind the actions are not returned.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  ListBotActionsRequest,
+  ListBotActionsResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { listBotActions as readActions } from './_bot';
+import { applyLimit } from './_shared';
+
+export const listBotActions: CareServiceHandler['listBotActions'] = async (
+  _ctx: ServerContext,
+  req: ListBotActionsRequest,
+): Promise<ListBotActionsResponse> => {
+  const actions = await readActions({ since: req.since, kind: req.kind });
+  return { actions: applyLimit(actions, req.limit).map((action) => ({ ...action, chatId: '' })) };
+};
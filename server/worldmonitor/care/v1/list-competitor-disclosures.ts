@@ -0,0 +1,31 @@
+/**
+ * RPC: listCompetitorDisclosures
+ *
+ * Returns the classified DART filings of the registered competitors from the
+ * shared ingestion snapshot — the same filings that were scored into S3.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  ListCompetitorDisclosuresRequest,
+  ListCompetitorDisclosuresResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { isDartConfigured } from '../../../_shared/dart';
+import { applyLimit, getCareSnapshot } from './_shared';
+
+export const listCompetitorDisclosures: CareServiceHandler['listCompetitorDisclosures'] = async (
+  _ctx: ServerContext,
+  req: ListCompetitorDisclosuresRequest,
+): Promise<ListCompetitorDisclosuresResponse> => {
+  const snapshot = await getCareSnapshot();
+  const disclosures = req.corpCode
+    ? snapshot.disclosures.filter((d) => d.corpCode === req.corpCode)
+    : snapshot.disclosures;
+  return {
+    disclosures: applyLimit(disclosures, req.limit),
+    configured: isDartConfigured(),
+    generatedAt: snapshot.generatedAt,
+  };
+};
@@ -0,0 +1,23 @@
+/**
+ * RPC: listCompetitors
+ *
+ * Returns the competitor registry (DART corp codes) whose filings are scored
+ * into S3 and shown on the tracking timeline.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  ListCompetitorsRequest,
+  ListCompetitorsResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { getCompetitorRegistry } from './_shared';
+
+export const listCompetitors: CareServiceHandler['listCompetitors'] = async (
+  _ctx: ServerContext,
+  _req: ListCompetitorsRequest,
+): Promise<ListCompetitorsResponse> => {
+  const { competitors, updatedAt } = await getCompetitorRegistry();
+  return { competitors, updatedAt };
+};
@@ -0,0 +1,25 @@
+/**
+ * RPC: listNotificationDeliveries
+ *
+ * Returns the notification channels enabled by the server environment and the
+ * hub's delivery log (newest first), so Settings can show where alerts go and
+ * which deliveries failed after retries. Channel addresses are not exposed.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  ListNotificationDeliveriesRequest,
+  ListNotificationDeliveriesResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { readChannelConfigs } from '../../../notifications/config';
+import { listDeliveries } from '../../../notifications/log';
+
+export const listNotificationDeliveries: CareServiceHandler['listNotificationDeliveries'] = async (
+  _ctx: ServerContext,
+  req: ListNotificationDeliveriesRequest,
+): Promise<ListNotificationDeliveriesResponse> => {
+  const channels = readChannelConfigs().map(({ kind, name, events }) => ({ kind, name, events }));
+  return { channels, deliveries: await listDeliveries(req.limit) };
+};
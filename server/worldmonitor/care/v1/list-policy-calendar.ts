@@ -0,0 +1,27 @@
+/**
+ * RPC: listPolicyCalendar
+ *
+ * Returns the policy calendar from the shared ingestion snapshot — budget-cycle
+ * milestones, AI law dates and press-release dates, the same events scored into S1.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  ListPolicyCalendarRequest,
+  ListPolicyCalendarResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { applyLimit, getCareSnapshot } from './_shared';
+
+export const listPolicyCalendar: CareServiceHandler['listPolicyCalendar'] = async (
+  _ctx: ServerContext,
+  req: ListPolicyCalendarRequest,
+): Promise<ListPolicyCalendarResponse> => {
+  const snapshot = await getCareSnapshot();
+  const events = req.kind ? snapshot.calendar.filter((e) => e.kind === req.kind) : snapshot.calendar;
+  return {
+    events: applyLimit(events, req.limit),
+    generatedAt: snapshot.generatedAt,
+  };
+};
@@ -0,0 +1,26 @@
+/**
+ * RPC: listProcurementListings
+ *
+ * Returns procurement-related policy-track items tagged with CareVia fitness
+ * grades (high/medium first, then low) from the shared ingestion snapshot.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  ListProcurementListingsRequest,
+  ListProcurementListingsResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { applyLimit, getCareSnapshot } from './_shared';
+
+export const listProcurementListings: CareServiceHandler['listProcurementListings'] = async (
+  _ctx: ServerContext,
+  req: ListProcurementListingsRequest,
+): Promise<ListProcurementListingsResponse> => {
+  const snapshot = await getCareSnapshot();
+  return {
+    listings: applyLimit(snapshot.listings, req.limit),
+    generatedAt: snapshot.generatedAt,
+  };
+};
@@ -0,0 +1,30 @@
+/**
+ * RPC: listTrackNews
+ *
+ * Returns keyword-filtered, cross-verified care-track news from the shared
+ * ingestion snapshot, optionally narrowed to a single track.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  ListTrackNewsRequest,
+  ListTrackNewsResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { applyLimit, getCareSnapshot } from './_shared';
+
+export const listTrackNews: CareServiceHandler['listTrackNews'] = async (
+  _ctx: ServerContext,
+  req: ListTrackNewsRequest,
+): Promise<ListTrackNewsResponse> => {
+  const snapshot = await getCareSnapshot();
+  const articles = req.track
+    ? snapshot.articles.filter((a) => a.track === req.track)
+    : snapshot.articles;
+
+  return {
+    articles: applyLimit(articles, req.limit),
+    generatedAt: snapshot.generatedAt,
+  };
+};
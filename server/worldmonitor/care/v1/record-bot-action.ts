@@ -0,0 +1,37 @@
+/**
+ * RPC: recordBotAction
+ *
+ * Records an exclude / bookmark / study action from a Telegram inline button.
+ * The article is resolved from the current snapshot by its short ref and
+ * stored in full, so the dashboard can apply the action after the snapshot
+ * has rotated. Requires the server secret — recorded exclusions filter every
+ * chat's alerts.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  RecordBotActionRequest,
+  RecordBotActionResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { recordBotAction as appendAction } from './_bot';
+import { requireServerSecret } from './_auth';
+
+export const recordBotAction: CareServiceHandler['recordBotAction'] = async (
+  ctx: ServerContext,
+  req: RecordBotActionRequest,
+): Promise<RecordBotActionResponse> => {
+  requireServerSecret(ctx);
+  try {
+    const action = await appendAction({
+      chatId: req.chatId ?? '',
+      kind: req.kind ?? '',
+      articleRef: req.articleRef ?? '',
+      title: req.title ?? '',
+    });
+    return { action, error: '' };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Internal error' };
+  }
+};
@@ -0,0 +1,30 @@
+/**
+ * RPC: searchDartCorps
+ *
+ * Looks up DART corp codes by company name against the corpCode.xml dump, so
+ * competitors can be registered without knowing their 8-digit codes.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  SearchDartCorpsRequest,
+  SearchDartCorpsResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { isDartConfigured, searchDartCorps as searchCorps } from '../../../_shared/dart';
+
+export const searchDartCorps: CareServiceHandler['searchDartCorps'] = async (
+  _ctx: ServerContext,
+  req: SearchDartCorpsRequest,
+): Promise<SearchDartCorpsResponse> => {
+  if (!isDartConfigured()) {
+    return { corps: [], configured: false, error: '' };
+  }
+  try {
+    const corps = await searchCorps(req.query ?? '');
+    return { corps, configured: true, error: '' };
+  } catch (err) {
+    return { corps: [], configured: true, error: err instanceof Error ? err.message : 'Internal error' };
+  }
+};
@@ -0,0 +1,30 @@
+/**
+ * RPC: updateCompetitors
+ *
+ * Replaces the competitor registry edited on the Settings page. The next
+ * snapshot request fetches filings for the new registry. The registry feeds
+ * everyone's S3 score, so the write requires the server secret.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  UpdateCompetitorsRequest,
+  UpdateCompetitorsResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import { saveCompetitorRegistry } from './_shared';
+import { requireServerSecret } from './_auth';
+
+export const updateCompetitors: CareServiceHandler['updateCompetitors'] = async (
+  ctx: ServerContext,
+  req: UpdateCompetitorsRequest,
+): Promise<UpdateCompetitorsResponse> => {
+  requireServerSecret(ctx);
+  try {
+    const { competitors, updatedAt } = await saveCompetitorRegistry({ competitors: req.competitors ?? [] });
+    return { competitors, updatedAt, error: '' };
+  } catch (err) {
+    return { competitors: [], updatedAt: 0, error: err instanceof Error ? err.message : 'Internal error' };
+  }
+};
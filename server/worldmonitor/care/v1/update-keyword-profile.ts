@@ -0,0 +1,43 @@
+/**
+ * RPC: updateKeywordProfile
+ *
+ * Replaces the shared keyword profile. Both the Settings page and the Telegram
+ * webhook (/keyword) write through this RPC, so edits survive redeploys. The
+ * next snapshot request rebuilds with the new profile, including the active
+ * scoring profile chosen on the Settings page. The profile drives every user's
+ * relevance, score and alerts, so the write requires the server secret.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  UpdateKeywordProfileRequest,
+  UpdateKeywordProfileResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import type { KeywordCategory } from '../../../../src/services/keywordFilter';
+import type { ActiveScoringProfile } from '../../../../src/services/scoreCalculator';
+import { saveKeywordProfile } from './_shared';
+import { requireServerSecret } from './_auth';
+
+export const updateKeywordProfile: CareServiceHandler['updateKeywordProfile'] = async (
+  ctx: ServerContext,
+  req: UpdateKeywordProfileRequest,
+): Promise<UpdateKeywordProfileResponse> => {
+  requireServerSecret(ctx);
+  if (!req.profile) {
+    return { error: 'Body must have profile' };
+  }
+  try {
+    const profile = await saveKeywordProfile({
+      ...req.profile,
+      // Unknown categories are normalized to 'market'
+      keywords: (req.profile.keywords ?? []).map((k) => ({ ...k, category: k.category as KeywordCategory })),
+      // An incomplete scoring profile is normalized to the default profile
+      scoringProfile: req.profile.scoringProfile as ActiveScoringProfile | undefined,
+    });
+    return { profile, error: '' };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Internal error' };
+  }
+};
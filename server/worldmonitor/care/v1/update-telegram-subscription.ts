@@ -0,0 +1,36 @@
+/**
+ * RPC: updateTelegramSubscription
+ *
+ * Replaces one chat's alert settings. The Telegram webhook writes through this
+ * RPC for /subscribe, /threshold, /quiet, /lang and /alert; the scheduler reads
+ * the saved subscriptions when sending opportunity alerts. Requires the server
+ * secret (_auth.ts): a subscription decides where and when alerts are sent.
+ */
+
+import type {
+  CareServiceHandler,
+  ServerContext,
+  UpdateTelegramSubscriptionRequest,
+  UpdateTelegramSubscriptionResponse,
+} from '../../../../src/generated/server/worldmonitor/care/v1/service_server';
+
+import type { TelegramSubscription } from '../../../../src/services/telegramSubscription';
+import { saveTelegramSubscription } from './_bot';
+import { requireServerSecret } from './_auth';
+
+export const updateTelegramSubscription: CareServiceHandler['updateTelegramSubscription'] = async (
+  ctx: ServerContext,
+  req: UpdateTelegramSubscriptionRequest,
+): Promise<UpdateTelegramSubscriptionResponse> => {
+  requireServerSecret(ctx);
+  if (!req.subscription) {
+    return { error: 'Body must have subscription' };
+  }
+  try {
+    // Unknown tracks and languages are dropped / reset by normalization
+    const subscription = await saveTelegramSubscription(req.subscription as Partial<TelegramSubscription>);
+    return { subscription, error: '' };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Internal error' };
+  }
+};
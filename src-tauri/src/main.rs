@@ -423,6 +423,74 @@ fn open_path_in_shell(path: &Path) -> Result<(), String> {
     open_in_shell(&path.to_string_lossy())
 }
 
+const NOTIFICATION_TITLE_MAX_CHARS: usize = 120;
+const NOTIFICATION_BODY_MAX_CHARS: usize = 400;
+
+/// Shows a toast with the AUMID of Windows PowerShell, which is registered on every install.
+/// Title and body arrive through environment variables so they are never parsed as script.
+#[cfg(target_os = "windows")]
+const WINDOWS_TOAST_SCRIPT: &str = r#"
+[Windows.UI.Notifications.ToastNotificationManager, Windows.UI.Notifications, ContentType = WindowsRuntime] | Out-Null
+$template = [Windows.UI.Notifications.ToastNotificationManager]::GetTemplateContent([Windows.UI.Notifications.ToastTemplateType]::ToastText02)
+$text = $template.GetElementsByTagName('text')
+$text.Item(0).AppendChild($template.CreateTextNode($env:WM_NOTIFY_TITLE)) | Out-Null
+$text.Item(1).AppendChild($template.CreateTextNode($env:WM_NOTIFY_BODY)) | Out-Null
+$toast = [Windows.UI.Notifications.ToastNotification]::new($template)
+[Windows.UI.Notifications.ToastNotificationManager]::CreateToastNotifier('{1AC14E77-02E7-4E5D-B744-2EB1AE5198B7}\WindowsPowerShell\v1.0\powershell.exe').Show($toast)
+"#;
+
+#[tauri::command]
+fn show_desktop_notification(title: String, body: String) -> Result<(), String> {
+    let title: String = title.chars().take(NOTIFICATION_TITLE_MAX_CHARS).collect();
+    let body: String = body.chars().take(NOTIFICATION_BODY_MAX_CHARS).collect();
+
+    #[cfg(target_os = "macos")]
+    let mut command = {
+        // Passed as argv to the script, not interpolated into it
+        let mut cmd = Command::new("osascript");
+        cmd.args([
+            "-e",
+            "on run argv",
+            "-e",
+            "display notification (item 2 of argv) with title (item 1 of argv)",
+            "-e",
+            "end run",
+        ])
+        .arg(&title)
+        .arg(&body);
+        cmd
+    };
+
+    #[cfg(target_os = "windows")]
+    let mut command = {
+        let mut cmd = Command::new("powershell");
+        cmd.args([
+            "-NoProfile",
+            "-NonInteractive",
+            "-Command",
+            WINDOWS_TOAST_SCRIPT,
+        ])
+        .env("WM_NOTIFY_TITLE", &title)
+        .env("WM_NOTIFY_BODY", &body);
+        cmd.creation_flags(0x08000000); // CREATE_NO_WINDOW — no console flash per toast
+        cmd
+    };
+
+    #[cfg(all(unix, not(target_os = "macos")))]
+    let mut command = {
+        let mut cmd = Command::new("notify-send");
+        cmd.args(["--app-name=World Monitor", "--"])
+            .arg(&title)
+            .arg(&body);
+        cmd
+    };
+
+    command
+        .spawn()
+        .map(|_| ())
+        .map_err(|e| format!("Failed to show notification: {e}"))
+}
+
 #[tauri::command]
 fn open_url(url: String) -> Result<(), String> {
     let parsed = Url::parse(&url).map_err(|_| "Invalid URL".to_string())?;
@@ -1042,6 +1110,7 @@ fn main() {
             open_live_channels_window_command,
             close_live_channels_window,
             open_url,
+            show_desktop_notification,
             fetch_polymarket
         ])
         .setup(|app| {
@@ -63,7 +63,10 @@ import { AI_RESEARCH_LABS } from '@/config/ai-research-labs';
 import { STARTUP_ECOSYSTEMS } from '@/config/startup-ecosystems';
 import { TECH_HQS, ACCELERATORS } from '@/config/tech-geo';
 import { STOCK_EXCHANGES, FINANCIAL_CENTERS, CENTRAL_BANKS, COMMODITY_HUBS } from '@/config/finance-geo';
-import { CARE_FACILITIES, ROBOTICS_LABS, CARE_STARTUPS } from '@/config/care-geo';
+import { useCareReadinessStore } from '@/stores/careReadinessStore';
+import { useCareMapStore } from '@/stores/careMapStore';
+import type { CareRegistries } from '@/services/care-registry';
+import type { CareReadinessScore } from '@/services/care-readiness-index';
 import { isDesktopRuntime } from '@/services/runtime';
 import { IntelligenceServiceClient } from '@/generated/client/worldmonitor/intelligence/v1/service_client';
 import { trackEvent, trackMapLayerToggle, trackCountrySelected, trackCountryBriefOpened, trackSearchResultSelected, trackCriticalBannerAction, trackDeeplinkOpened } from '@/services/analytics';
@@ -125,6 +128,8 @@ export class App {
   // refreshTimeoutIds, refreshRunners, hiddenSince are now managed by DataLoader
   private isDestroyed = false;
   private boundKeydownHandler: ((e: KeyboardEvent) => void) | null = null;
+  private unsubscribeCareReadiness: (() => void) | null = null;
+  private unsubscribeCareMap: (() => void) | null = null;
   private eventManager: EventManager | null = null;
   private updateChecker: UpdateChecker | null = null;
   private disabledSources: Set<string> = new Set();
@@ -312,6 +317,10 @@ export class App {
     this.setupLanguageSelector();
     this.setupSearchModal();
     this.setupMapLayerHandlers();
+    if (SITE_VARIANT === 'care') {
+      this.setupCareReadinessLayer();
+      this.setupCareRegistryLayers();
+    }
     this.setupCountryIntel();
     // Create EventManager for global event listeners, idle detection, URL sync, etc.
     this.eventManager = new EventManager({
@@ -594,6 +603,78 @@ export class App {
     });
   }
 
+  /**
+   * Care variant: the CRI choropleth follows the readiness store, which is
+   * recomputed from every care.v1 snapshot the BOS / Opportunity Radar panels load.
+   */
+  private setupCareReadinessLayer(): void {
+    const apply = (scores: CareReadinessScore[]) => {
+      this.map?.setCareReadiness(scores);
+      this.map?.setLayerReady('careReadiness', scores.length > 0);
+    };
+    apply(useCareReadinessStore.getState().scores);
+    this.unsubscribeCareReadiness = useCareReadinessStore.subscribe((state, prev) => {
+      if (state.scores !== prev.scores) apply(state.scores);
+    });
+  }
+
+  /** Care variant: search sources follow the merged registries, so imported records are searchable too */
+  private registerCareSearchSources(): void {
+    if (!this.searchModal) return;
+    const { facilities, labs, startups } = useCareMapStore.getState();
+
+    this.searchModal.registerSource('carefacility', facilities.map(f => ({
+      id: f.id,
+      title: f.name,
+      subtitle: `${f.type} • ${f.operator} • ${f.country}${f.capacity ? ` • ${f.capacity} capacity` : ''}`,
+      data: f,
+    })));
+
+    this.searchModal.registerSource('roboticslab', labs.map(l => ({
+      id: l.id,
+      title: l.name,
+      subtitle: `${l.region} • ${l.focus.join(', ')}${l.products ? ` • ${l.products.join(', ')}` : ''}`,
+      data: l,
+    })));
+
+    this.searchModal.registerSource('carestartup', startups.map(s => ({
+      id: s.id,
+      title: s.name,
+      subtitle: `${s.domain} • ${s.country} • ${s.fundingStage}${s.fundingAmountM ? ` • $${s.fundingAmountM}M` : ''}`,
+      data: s,
+    })));
+  }
+
+  /**
+   * Care variant: facility / lab / startup / policy-event layers follow the care map store
+   * (bundled registries merged with datasets imported in Settings). The latest snapshot's
+   * procurement listings feed the facility popup's nearby opportunities.
+   */
+  private setupCareRegistryLayers(): void {
+    const applyRegistries = ({ facilities, labs, startups, policyEvents }: CareRegistries) => {
+      this.map?.setCareRegistries({ facilities, labs, startups, policyEvents });
+      this.map?.setLayerReady('careFacilities', facilities.length > 0);
+      this.map?.setLayerReady('roboticsLabs', labs.length > 0);
+      this.map?.setLayerReady('careStartups', startups.length > 0);
+      this.map?.setLayerReady('policyEvents', policyEvents.length > 0);
+    };
+    const state = useCareMapStore.getState();
+    applyRegistries(state);
+    this.map?.setCareProcurements(state.procurements);
+    this.unsubscribeCareMap = useCareMapStore.subscribe((next, prev) => {
+      if (next.facilities !== prev.facilities || next.labs !== prev.labs || next.startups !== prev.startups) {
+        this.registerCareSearchSources();
+      }
+      if (
+        next.facilities !== prev.facilities || next.labs !== prev.labs
+        || next.startups !== prev.startups || next.policyEvents !== prev.policyEvents
+      ) {
+        applyRegistries(next);
+      }
+      if (next.procurements !== prev.procurements) this.map?.setCareProcurements(next.procurements);
+    });
+  }
+
   private setupCountryIntel(): void {
     if (!this.map) return;
     this.countryBriefPage = new CountryBriefPage();
@@ -1251,27 +1332,7 @@ export class App {
     }
 
     if (SITE_VARIANT === 'care') {
-      // Care variant: care-specific sources
-      this.searchModal.registerSource('carefacility', CARE_FACILITIES.map(f => ({
-        id: f.id,
-        title: f.name,
-        subtitle: `${f.type} • ${f.operator} • ${f.country}${f.capacity ? ` • ${f.capacity} capacity` : ''}`,
-        data: f,
-      })));
-
-      this.searchModal.registerSource('roboticslab', ROBOTICS_LABS.map(l => ({
-        id: l.id,
-        title: l.name,
-        subtitle: `${l.region} • ${l.focus.join(', ')}${l.products ? ` • ${l.products.join(', ')}` : ''}`,
-        data: l,
-      })));
-
-      this.searchModal.registerSource('carestartup', CARE_STARTUPS.map(s => ({
-        id: s.id,
-        title: s.name,
-        subtitle: `${s.domain} • ${s.country} • ${s.fundingStage}${s.fundingAmountM ? ` • $${s.fundingAmountM}M` : ''}`,
-        data: s,
-      })));
+      this.registerCareSearchSources();
     }
 
     // Register countries for all variants
@@ -1916,6 +1977,11 @@ export class App {
     this.panelManager?.destroy();
     this.panelManager = null;
 
+    this.unsubscribeCareReadiness?.();
+    this.unsubscribeCareReadiness = null;
+    this.unsubscribeCareMap?.();
+    this.unsubscribeCareMap = null;
+
     // Clean up map and AIS
     this.map?.destroy();
     disconnectAisStream();
@@ -1,6 +1,9 @@
-import { ReactNode, useState, useCallback } from 'react';
+import { ReactNode, useState, useCallback, useEffect } from 'react';
 import { Link, useLocation } from 'wouter';
 import { Settings as SettingsIcon, Activity, BookOpen, Database } from 'lucide-react';
+import { useAuthStore, type AuthStatus } from '../../stores/authStore';
+import { useSyncStore } from '../../stores/syncStore';
+import { startSync, syncNow } from '../../services/sync';
 
 interface LayoutProps {
   children: ReactNode;
@@ -13,9 +16,54 @@ const navItemsMeta = [
   { label: 'Settings', path: '/settings', icon: SettingsIcon, riIcon: 'ri-settings-3-line' },
 ];
 
+const AUTH_STATUS_LABELS: Record<AuthStatus, string> = {
+  'signed-in': 'CareVia Team · 클라우드 저장',
+  'signed-out': '로그인하면 클라우드 저장',
+  unconfigured: 'CareVia Team · 이 브라우저에 저장',
+  loading: 'CareVia Team',
+};
+
+function formatSyncTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' });
+}
+
+/** 헤더 동기화 배지 — 누르면 즉시 동기화 */
+function SyncBadge() {
+  const { status, pending, lastSyncedAt, error } = useSyncStore();
+  if (status === 'unconfigured') return null;
+
+  const view = {
+    idle: { icon: 'ri-cloud-line', color: 'text-[#2ec4a9]', label: lastSyncedAt ? `${formatSyncTime(lastSyncedAt)} 동기화됨` : '동기화됨' },
+    syncing: { icon: 'ri-loop-right-line animate-spin', color: 'text-[#2ec4a9]', label: '동기화 중' },
+    offline: { icon: 'ri-cloud-off-line', color: 'text-amber-500', label: pending > 0 ? `오프라인 · 대기 ${pending}건` : '오프라인' },
+    'signed-out': { icon: 'ri-cloud-off-line', color: 'text-gray-400', label: '로그인하면 동기화' },
+    error: { icon: 'ri-error-warning-line', color: 'text-red-400', label: '동기화 실패' },
+  }[status];
+
+  return (
+    <button
+      onClick={syncNow}
+      title={error ?? (pending > 0 ? `보내지 않은 변경 ${pending}건` : undefined)}
+      className="hidden sm:flex items-center gap-1.5 h-9 px-3 bg-white border border-gray-100 rounded-xl hover:bg-gray-50 cursor-pointer"
+    >
+      <i className={`${view.icon} ${view.color} text-base`} />
+      <span className="text-xs text-gray-500 whitespace-nowrap">{view.label}</span>
+    </button>
+  );
+}
+
 export default function Layout({ children }: LayoutProps) {
   const [location, navigate] = useLocation();
   const [headerSearch, setHeaderSearch] = useState('');
+  const { status: authStatus, email, init: initAuth } = useAuthStore();
+
+  useEffect(() => {
+    void initAuth();
+  }, [initAuth]);
+
+  useEffect(() => {
+    startSync();
+  }, []);
 
   const handleSearch = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && headerSearch.trim()) {
@@ -81,15 +129,19 @@ export default function Layout({ children }: LayoutProps) {
 
         {/* User Profile */}
         <div className="px-4 py-4 border-t border-gray-100 shrink-0">
-          <div className="flex items-center gap-3">
-            <div className="w-8 h-8 flex items-center justify-center rounded-full bg-[#2ec4a9] text-white text-xs font-bold shrink-0">
-              L
-            </div>
-            <div className="flex-1 min-w-0">
-              <p className="text-sm font-semibold text-gray-800 leading-tight truncate">Leader</p>
-              <p className="text-xs text-gray-400 truncate">CareVia Team</p>
+          <Link href="/settings">
+            <div className="flex items-center gap-3 cursor-pointer">
+              <div className="w-8 h-8 flex items-center justify-center rounded-full bg-[#2ec4a9] text-white text-xs font-bold shrink-0">
+                {email ? email[0]!.toUpperCase() : 'L'}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-gray-800 leading-tight truncate">{email ?? 'Leader'}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {AUTH_STATUS_LABELS[authStatus]}
+                </p>
+              </div>
             </div>
-          </div>
+          </Link>
         </div>
       </aside>
 
@@ -122,6 +174,7 @@ export default function Layout({ children }: LayoutProps) {
           </div>
 
           <div className="flex items-center gap-4">
+            <SyncBadge />
             <button className="relative w-9 h-9 flex items-center justify-center bg-white border border-gray-100 rounded-xl hover:bg-gray-50 cursor-pointer">
               <i className="ri-notification-3-line text-gray-500 text-base" />
               <span className="absolute top-1.5 right-1.5 w-2 h-2 bg-red-400 rounded-full" />
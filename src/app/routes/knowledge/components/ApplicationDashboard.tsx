@@ -0,0 +1,101 @@
+import { useMemo } from 'react';
+import { X } from 'lucide-react';
+import type { KnowledgeItem } from '../../../../stores/knowledgeStore';
+import { useApplicationStore } from '../../../../stores/applicationStore';
+import { DOCUMENT_TYPE_LABELS, type ExportDocumentType } from '../../../../services/exportService';
+import { applicationRateByCompetency, awaitingOutcome, mostCitedInsights } from '../../../../services/study/applications';
+
+interface ApplicationDashboardProps {
+  items: KnowledgeItem[];
+  onOpen: (id: string) => void;
+  onClose: () => void;
+}
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/**
+ * 실무 적용 대시보드 — 역량별 적용률, IR·제안서에 많이 인용된 인사이트, 결과 기록 대기
+ */
+const ApplicationDashboard = ({ items, onOpen, onClose }: ApplicationDashboardProps) => {
+  const applications = useApplicationStore((s) => s.applications);
+  const rates = useMemo(() => applicationRateByCompetency(items, applications), [items, applications]);
+  const cited = useMemo(() => mostCitedInsights(items, applications), [items, applications]);
+  const pending = useMemo(() => awaitingOutcome(items, applications).slice(0, 5), [items, applications]);
+  const totalApplied = rates.reduce((sum, r) => sum + r.applied, 0);
+
+  return (
+    <div className="mb-6 bg-emerald-50/60 dark:bg-emerald-900/10 border border-emerald-200 dark:border-emerald-800 rounded-xl p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold text-gray-900 dark:text-white">실무 적용 대시보드</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-5">
+        <div>
+          <p className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">역량별 적용률</p>
+          <div className="space-y-2">
+            {rates.map((r) => (
+              <div key={r.key} className="text-xs">
+                <div className="flex justify-between mb-0.5">
+                  <span className="text-gray-700 dark:text-gray-300">{r.label}</span>
+                  <span className="text-gray-500">
+                    <span className="font-bold text-gray-900 dark:text-white">{percent(r.rate)}</span> · {r.applied}/{r.insights}
+                    {r.withOutcome > 0 && <span className="text-emerald-600"> · 결과 {r.withOutcome}</span>}
+                  </span>
+                </div>
+                <div className="h-1.5 bg-white dark:bg-gray-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-emerald-500 rounded-full" style={{ width: percent(r.rate) }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">IR·제안서 인용 Top</p>
+          {cited.length === 0 ? (
+            <p className="text-xs text-gray-400">인사이트의 "실무 적용"에서 활용한 IR·제안서를 기록하면 여기에 모입니다</p>
+          ) : (
+            <ol className="space-y-1.5 text-xs">
+              {cited.map(({ item, citations, byType, documents }, i) => (
+                <li key={item.id} className="flex items-start gap-2">
+                  <span className="font-black text-emerald-600 w-4">{i + 1}</span>
+                  <button onClick={() => onOpen(item.id)} className="flex-1 min-w-0 text-left">
+                    <span className="block truncate font-semibold text-gray-800 dark:text-gray-200 hover:text-emerald-600">{item.title}</span>
+                    <span className="block truncate text-gray-400">{documents.join(', ')}</span>
+                  </button>
+                  <span className="text-gray-500 shrink-0">
+                    {(Object.entries(byType) as Array<[ExportDocumentType, number]>)
+                      .map(([type, n]) => `${DOCUMENT_TYPE_LABELS[type]} ${n}`)
+                      .join(' · ')}
+                    <span className="font-bold text-gray-900 dark:text-white ml-1">({citations})</span>
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {pending.length > 0 && (
+            <>
+              <p className="text-xs font-bold text-gray-500 uppercase tracking-wider mt-4 mb-2">결과 기록 대기</p>
+              <ul className="space-y-1 text-xs">
+                {pending.map(({ item, application }) => (
+                  <li key={item.id} className="flex items-center gap-2">
+                    <button onClick={() => onOpen(item.id)} className="flex-1 min-w-0 text-left truncate text-gray-700 dark:text-gray-300 hover:text-emerald-600">
+                      {item.title}
+                    </button>
+                    <span className="text-gray-400 shrink-0">{application.appliedDate ?? ''} 적용</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+
+      <p className="text-[10px] text-gray-400 mt-4">적용한 인사이트 {totalApplied}건 / 전체 {items.length}건</p>
+    </div>
+  );
+};
+
+export default ApplicationDashboard;
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { CheckCircle2, FileText, Plus, X } from 'lucide-react';
+import type { KnowledgeItem } from '../../../../stores/knowledgeStore';
+import { useApplicationStore } from '../../../../stores/applicationStore';
+import { DOCUMENT_TYPE_LABELS, type ExportDocumentType } from '../../../../services/exportService';
+import { localDate } from '../../../../services/study/records';
+
+const DOCUMENT_TYPES = Object.keys(DOCUMENT_TYPE_LABELS) as ExportDocumentType[];
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-[#0a0f0a] focus:ring-1 focus:ring-emerald-500 outline-none';
+
+interface ApplicationEditorProps {
+  item: KnowledgeItem;
+  onClose: () => void;
+}
+
+/**
+ * 인사이트 하나의 실무 적용 기록 — 적용 표시 → 활용 문서 → (나중에) 결과
+ */
+const ApplicationEditor = ({ item, onClose }: ApplicationEditorProps) => {
+  const application = useApplicationStore((s) => s.applications[item.id]);
+  const { markApplied, unmarkApplied, addUsage, removeUsage, setOutcome } = useApplicationStore();
+  const target = { insightId: item.id, sessionId: item.sourceSession?.id };
+
+  const [description, setDescription] = useState(application?.description ?? '');
+  const [appliedDate, setAppliedDate] = useState(application?.appliedDate ?? localDate(new Date()));
+  const [documentType, setDocumentType] = useState<ExportDocumentType>('IR');
+  const [documentName, setDocumentName] = useState('');
+  const [outcome, setOutcomeText] = useState(application?.outcome ?? '');
+
+  const handleAddUsage = () => {
+    if (!documentName.trim()) return;
+    addUsage(target, documentType, documentName);
+    setDocumentName('');
+  };
+
+  return (
+    <div className="mt-2 p-4 bg-white dark:bg-[#141414] border border-emerald-200 dark:border-emerald-900/50 rounded-lg space-y-4 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-bold text-gray-700 dark:text-gray-200 flex items-center gap-1">
+          <CheckCircle2 className="w-3.5 h-3.5 text-emerald-600" /> 실무 적용
+        </span>
+        <button onClick={onClose}><X className="w-4 h-4 text-gray-400" /></button>
+      </div>
+
+      {/* 1. 적용 */}
+      <div className="space-y-2">
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="어디에 어떻게 적용했나요? (예: 요양센터 B2B 단가표 개편에 반영)"
+          rows={2}
+          className={`${inputClass} resize-none`}
+        />
+        <div className="flex items-center gap-2">
+          <input type="date" value={appliedDate} onChange={(e) => setAppliedDate(e.target.value)} className={`${inputClass} w-auto`} />
+          <button
+            onClick={() => markApplied(target, { description, appliedDate })}
+            className="px-3 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors"
+          >
+            {application?.applied ? '적용 내용 수정' : '적용으로 표시'}
+          </button>
+          {application?.applied && (
+            <button onClick={() => unmarkApplied(item.id)} className="text-gray-400 hover:text-red-400">적용 취소</button>
+          )}
+        </div>
+      </div>
+
+      {/* 2. 활용 문서 */}
+      <div className="space-y-2">
+        <p className="font-bold text-gray-500 flex items-center gap-1"><FileText className="w-3 h-3" /> 활용한 문서</p>
+        {application?.usedIn.length ? (
+          <ul className="space-y-1">
+            {application.usedIn.map((use) => (
+              <li key={use.used_at} className="flex items-center gap-2">
+                <span className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400 font-bold text-[10px]">
+                  {DOCUMENT_TYPE_LABELS[use.document_type]}
+                </span>
+                <span className="flex-1 truncate text-gray-700 dark:text-gray-300">{use.document_name}</span>
+                <span className="text-gray-400">{new Date(use.used_at).toLocaleDateString('ko-KR')}</span>
+                <button onClick={() => removeUsage(item.id, use.used_at)} className="text-gray-300 hover:text-red-400"><X className="w-3 h-3" /></button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-400">아직 인용한 문서가 없습니다</p>
+        )}
+        <div className="flex items-center gap-2">
+          <select value={documentType} onChange={(e) => setDocumentType(e.target.value as ExportDocumentType)} className={`${inputClass} w-auto`}>
+            {DOCUMENT_TYPES.map((type) => <option key={type} value={type}>{DOCUMENT_TYPE_LABELS[type]}</option>)}
+          </select>
+          <input
+            type="text"
+            value={documentName}
+            onChange={(e) => setDocumentName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddUsage()}
+            placeholder="문서 이름 (예: 2026 시리즈A IR)"
+            className={inputClass}
+          />
+          <button onClick={handleAddUsage} className="p-2 text-emerald-600 hover:text-emerald-700 shrink-0" aria-label="문서 추가">
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* 3. 결과 — 적용 후에 */}
+      {application?.applied && (
+        <div className="space-y-2">
+          <p className="font-bold text-gray-500">
+            결과 {application.outcomeDate && <span className="font-normal text-gray-400">· {application.outcomeDate} 기록</span>}
+          </p>
+          <textarea
+            value={outcome}
+            onChange={(e) => setOutcomeText(e.target.value)}
+            placeholder="적용해 보니 어땠나요? (예: 계약 단가 8% 인상, 이탈 없음)"
+            rows={2}
+            className={`${inputClass} resize-none`}
+          />
+          <button
+            onClick={() => setOutcome(item.id, outcome)}
+            disabled={outcome.trim() === application.outcome}
+            className="px-3 py-2 bg-gray-800 dark:bg-gray-700 text-white rounded-lg hover:bg-gray-900 disabled:opacity-40 transition-colors"
+          >
+            결과 저장
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApplicationEditor;
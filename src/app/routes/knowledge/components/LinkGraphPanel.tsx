@@ -0,0 +1,152 @@
+import { useMemo } from 'react';
+import { Link2, Unlink, X } from 'lucide-react';
+import type { KnowledgeItem } from '../../../../stores/knowledgeStore';
+import { graphAround, type LinkGraph, type SearchHit } from '../../../../services/knowledge';
+
+const SIZE = 320;
+const CENTRE = SIZE / 2;
+const FIRST_RADIUS = 85;
+const SECOND_RADIUS = 140;
+
+const truncate = (text: string, max = 10) => (text.length > max ? `${text.slice(0, max)}…` : text);
+
+function ring(ids: string[], radius: number, offset = 0): Map<string, { x: number; y: number }> {
+  return new Map(ids.map((id, i) => {
+    const angle = offset + (2 * Math.PI * i) / ids.length - Math.PI / 2;
+    return [id, { x: CENTRE + radius * Math.cos(angle), y: CENTRE + radius * Math.sin(angle) }];
+  }));
+}
+
+interface LinkGraphPanelProps {
+  centre: KnowledgeItem;
+  itemsById: Map<string, KnowledgeItem>;
+  graph: LinkGraph;
+  /** 아직 연결하지 않은 관련 인사이트 */
+  suggestions: SearchHit[];
+  /** 직접 저장한 지식 항목만 연결을 편집 (세션 인사이트·기사 메모는 백링크만) */
+  editable: boolean;
+  onFocus: (id: string) => void;
+  onLink: (id: string) => void;
+  onUnlink: (id: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * 중심 인사이트의 연결 그래프 — 1촌(연결·백링크)과 2촌까지, 노드를 누르면 그 항목으로 이동
+ */
+const LinkGraphPanel = ({ centre, itemsById, graph, suggestions, editable, onFocus, onLink, onUnlink, onClose }: LinkGraphPanelProps) => {
+  const view = useMemo(() => graphAround(graph, centre.id), [graph, centre.id]);
+  const positions = useMemo(() => new Map([
+    [centre.id, { x: CENTRE, y: CENTRE }],
+    ...ring(view.first, FIRST_RADIUS),
+    ...ring(view.second, SECOND_RADIUS, Math.PI / Math.max(view.second.length, 1)),
+  ]), [centre.id, view]);
+
+  const outgoing = graph.outgoing.get(centre.id) ?? [];
+  const backlinks = graph.backlinks.get(centre.id) ?? [];
+
+  return (
+    <div className="mb-6 bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-5">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold text-gray-900 dark:text-white text-sm flex items-center gap-2">
+          <Link2 className="w-4 h-4 text-emerald-600" /> {centre.title}
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X className="w-4 h-4" /></button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-5">
+        {view.first.length === 0 ? (
+          <div className="w-full md:w-[320px] h-40 flex items-center justify-center text-xs text-gray-400 bg-gray-50 dark:bg-white/5 rounded-lg shrink-0">
+            아직 연결된 인사이트가 없습니다
+          </div>
+        ) : (
+          <svg viewBox={`0 0 ${SIZE} ${SIZE}`} className="w-full md:w-[320px] shrink-0 bg-gray-50 dark:bg-white/5 rounded-lg">
+            {view.edges.map(([from, to]) => {
+              const a = positions.get(from);
+              const b = positions.get(to);
+              return a && b ? (
+                <line key={`${from}-${to}`} x1={a.x} y1={a.y} x2={b.x} y2={b.y} className="stroke-gray-300 dark:stroke-gray-600" strokeWidth={1.5} />
+              ) : null;
+            })}
+            {[...positions].map(([id, { x, y }]) => {
+              const item = itemsById.get(id);
+              if (!item) return null;
+              const isCentre = id === centre.id;
+              const isFirst = view.first.includes(id);
+              return (
+                <g key={id} onClick={() => onFocus(id)} className="cursor-pointer">
+                  <circle
+                    cx={x}
+                    cy={y}
+                    r={isCentre ? 14 : isFirst ? 9 : 6}
+                    className={isCentre ? 'fill-emerald-600' : isFirst ? 'fill-emerald-300' : 'fill-gray-300 dark:fill-gray-600'}
+                  />
+                  <text x={x} y={y + (isCentre ? 26 : 20)} textAnchor="middle" className="fill-gray-600 dark:fill-gray-300" fontSize={isCentre ? 11 : 9}>
+                    {truncate(item.title)}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        )}
+
+        <div className="flex-1 min-w-0 space-y-4 text-xs">
+          <LinkList title={`연결 ${outgoing.length}`} ids={outgoing} itemsById={itemsById} onFocus={onFocus} onUnlink={editable ? onUnlink : undefined} />
+          <LinkList title={`백링크 ${backlinks.length}`} ids={backlinks} itemsById={itemsById} onFocus={onFocus} />
+
+          {editable && suggestions.length > 0 && (
+            <div>
+              <p className="font-bold text-gray-500 uppercase tracking-wider mb-1.5">관련 인사이트</p>
+              <ul className="space-y-1">
+                {suggestions.map(({ item }) => (
+                  <li key={item.id} className="flex items-center gap-2">
+                    <button onClick={() => onFocus(item.id)} className="flex-1 min-w-0 text-left truncate text-gray-700 dark:text-gray-300 hover:text-emerald-600">
+                      {item.title}
+                    </button>
+                    <button onClick={() => onLink(item.id)} className="text-emerald-600 hover:text-emerald-700 flex items-center gap-0.5 shrink-0">
+                      <Link2 className="w-3 h-3" /> 연결
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface LinkListProps {
+  title: string;
+  ids: string[];
+  itemsById: Map<string, KnowledgeItem>;
+  onFocus: (id: string) => void;
+  onUnlink?: (id: string) => void;
+}
+
+const LinkList = ({ title, ids, itemsById, onFocus, onUnlink }: LinkListProps) => (
+  <div>
+    <p className="font-bold text-gray-500 uppercase tracking-wider mb-1.5">{title}</p>
+    {ids.length === 0 ? (
+      <p className="text-gray-400">없음</p>
+    ) : (
+      <ul className="space-y-1">
+        {ids.map((id) => (
+          <li key={id} className="flex items-center gap-2">
+            <button onClick={() => onFocus(id)} className="flex-1 min-w-0 text-left truncate text-gray-700 dark:text-gray-300 hover:text-emerald-600">
+              {itemsById.get(id)?.title ?? id}
+            </button>
+            {onUnlink && (
+              <button onClick={() => onUnlink(id)} className="text-gray-300 hover:text-red-400 shrink-0" aria-label="연결 해제">
+                <Unlink className="w-3 h-3" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default LinkGraphPanel;
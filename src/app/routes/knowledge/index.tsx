@@ -1,7 +1,22 @@
-import { useState, useMemo } from 'react';
-import { Brain, Trash2, Search, Plus, Tag, FileText, Download, X } from 'lucide-react';
+import { useState, useMemo, useEffect } from 'react';
+import { Brain, Trash2, Search, Plus, Tag, FileText, Download, X, Link2, Sparkles, CheckCircle2, BarChart3 } from 'lucide-react';
 import { useStudyStore } from '../../../stores/studyStore';
 import { useKnowledgeStore, type KnowledgeItem } from '../../../stores/knowledgeStore';
+import { useArticleStore } from '../../../stores/articleStore';
+import { useApplicationStore } from '../../../stores/applicationStore';
+import {
+  buildLinkGraph,
+  buildSearchIndex,
+  collectKnowledgeItems,
+  lexicalScores,
+  rankHits,
+  semanticScores,
+  suggestRelated,
+} from '../../../services/knowledge';
+import { DOCUMENT_TYPE_LABELS } from '../../../services/exportService';
+import LinkGraphPanel from './components/LinkGraphPanel';
+import ApplicationEditor from './components/ApplicationEditor';
+import ApplicationDashboard from './components/ApplicationDashboard';
 
 const TYPE_LABELS: Record<string, string> = {
   financial: 'Financial Analysis',
@@ -30,12 +45,18 @@ const TYPE_COLORS: Record<string, string> = {
 };
 
 type ViewFilter = 'all' | 'study' | 'article' | 'manual';
+type SemanticState = 'off' | 'loading' | 'ready' | 'unavailable';
+
+const SEMANTIC_DEBOUNCE_MS = 400;
 
 export default function KnowledgeBase() {
   const completedSessions = useStudyStore(state => state.completedSessions);
   const knowledgeItems = useKnowledgeStore(state => state.items);
   const addKnowledge = useKnowledgeStore(state => state.addItem);
   const removeKnowledge = useKnowledgeStore(state => state.removeItem);
+  const setKnowledgeLinks = useKnowledgeStore(state => state.setLinks);
+  const annotations = useArticleStore(state => state.annotations);
+  const applications = useApplicationStore(state => state.applications);
   const clearAllKnowledge = useKnowledgeStore(state => state.clearAll);
 
   const [searchQuery, setSearchQuery] = useState('');
@@ -45,28 +66,45 @@ export default function KnowledgeBase() {
   const [newNoteTitle, setNewNoteTitle] = useState('');
   const [newNoteContent, setNewNoteContent] = useState('');
   const [newNoteTags, setNewNoteTags] = useState('');
+  const [newNoteLinks, setNewNoteLinks] = useState<string[]>([]);
   const [showReport, setShowReport] = useState(false);
+  const [semanticOn, setSemanticOn] = useState(false);
+  const [semanticState, setSemanticState] = useState<SemanticState>('off');
+  const [semantic, setSemantic] = useState<Map<string, number> | null>(null);
+  const [graphFocus, setGraphFocus] = useState<string | null>(null);
+  const [showApplications, setShowApplications] = useState(false);
+  const [editingApplication, setEditingApplication] = useState<string | null>(null);
+
+  const allItems = useMemo(
+    () => collectKnowledgeItems(knowledgeItems, completedSessions, annotations, TYPE_LABELS),
+    [knowledgeItems, completedSessions, annotations]
+  );
+  const itemsById = useMemo(() => new Map(allItems.map((i) => [i.id, i])), [allItems]);
+  const storedIds = useMemo(() => new Set(knowledgeItems.map((k) => k.id)), [knowledgeItems]);
+  const searchIndex = useMemo(() => buildSearchIndex(allItems), [allItems]);
+  const linkGraph = useMemo(() => buildLinkGraph(allItems), [allItems]);
 
-  const allItems = useMemo(() => {
-    const fromStudy: KnowledgeItem[] = completedSessions
-      .filter((s) => s.data.insight?.trim())
-      .map((s) => ({
-        id: `study-${s.id}`,
-        type: 'study_insight' as const,
-        title: TYPE_LABELS[s.type] ?? s.type,
-        content: s.data.insight,
-        tags: [],
-        sourceSession: { id: s.id, type: s.type },
-        createdAt: s.completedAt,
-      }));
-
-    const alreadyLinkedIds = new Set(knowledgeItems.filter((k) => k.sourceSession?.id).map((k) => k.sourceSession!.id));
-    const deduped = fromStudy.filter((s) => !alreadyLinkedIds.has(s.sourceSession!.id));
-
-    return [...knowledgeItems, ...deduped].sort(
-      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
-  }, [completedSessions, knowledgeItems]);
+  // 의미 검색 — 입력이 멈춘 뒤 임베딩, 더 새 검색어가 오면 이전 결과는 버림
+  useEffect(() => {
+    if (!semanticOn || !searchQuery.trim()) {
+      setSemantic(null);
+      setSemanticState(semanticOn ? 'ready' : 'off');
+      return;
+    }
+    let cancelled = false;
+    setSemanticState('loading');
+    const timer = setTimeout(() => {
+      void semanticScores(allItems, searchQuery).then((scores) => {
+        if (cancelled) return;
+        setSemantic(scores);
+        setSemanticState(scores ? 'ready' : 'unavailable');
+      });
+    }, SEMANTIC_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [semanticOn, searchQuery, allItems]);
 
   const allTags = useMemo(() => {
     const tagSet = new Set<string>();
@@ -84,16 +122,30 @@ export default function KnowledgeBase() {
     if (filterTag) result = result.filter((i) => i.tags.includes(filterTag));
 
     if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase();
-      result = result.filter((i) =>
-        i.title.toLowerCase().includes(q) ||
-        i.content.toLowerCase().includes(q) ||
-        i.tags.some((t) => t.toLowerCase().includes(q))
-      );
+      result = rankHits(result, lexicalScores(searchIndex, searchQuery), semantic).map((hit) => hit.item);
     }
 
     return result;
-  }, [allItems, viewFilter, filterTag, searchQuery]);
+  }, [allItems, viewFilter, filterTag, searchQuery, searchIndex, semantic]);
+
+  const newNoteTagList = useMemo(() => newNoteTags.split(',').map((t) => t.trim()).filter(Boolean), [newNoteTags]);
+  const newNoteSuggestions = useMemo(
+    () => (showNewNote ? suggestRelated(searchIndex, { title: newNoteTitle, content: newNoteContent, tags: newNoteTagList }) : []),
+    [showNewNote, searchIndex, newNoteTitle, newNoteContent, newNoteTagList]
+  );
+
+  const focusedItem = graphFocus ? itemsById.get(graphFocus) : undefined;
+  const focusEditable = !!focusedItem && storedIds.has(focusedItem.id);
+  const focusSuggestions = useMemo(() => {
+    if (!focusedItem) return [];
+    const exclude = [focusedItem.id, ...(linkGraph.outgoing.get(focusedItem.id) ?? [])];
+    return suggestRelated(searchIndex, focusedItem, { exclude });
+  }, [focusedItem, linkGraph, searchIndex]);
+
+  const updateFocusLinks = (next: (current: string[]) => string[]) => {
+    if (!focusedItem) return;
+    setKnowledgeLinks(focusedItem.id, next(focusedItem.linkedIds ?? []));
+  };
 
   const handleAddNote = () => {
     if (!newNoteTitle.trim()) return;
@@ -101,11 +153,13 @@ export default function KnowledgeBase() {
       type: 'manual_note',
       title: newNoteTitle,
       content: newNoteContent,
-      tags: newNoteTags.split(',').map((t) => t.trim()).filter(Boolean),
+      tags: newNoteTagList,
+      linkedIds: newNoteLinks,
     });
     setNewNoteTitle('');
     setNewNoteContent('');
     setNewNoteTags('');
+    setNewNoteLinks([]);
     setShowNewNote(false);
   };
 
@@ -149,6 +203,9 @@ export default function KnowledgeBase() {
           🧠 Knowledge Base
         </h1>
         <div className="flex items-center gap-2">
+          <button onClick={() => setShowApplications((v) => !v)} className="flex items-center gap-1 text-xs text-emerald-600 dark:text-emerald-400 hover:opacity-80">
+            <BarChart3 className="w-3 h-3" /> 적용 대시보드
+          </button>
           <button onClick={() => setShowReport((v) => !v)} className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:opacity-80">
             <FileText className="w-3 h-3" /> 월간 리포트
           </button>
@@ -197,6 +254,19 @@ export default function KnowledgeBase() {
         </div>
       )}
 
+      {showApplications && (
+        <ApplicationDashboard
+          items={allItems}
+          onOpen={(id) => {
+            setViewFilter('all');
+            setFilterTag(null);
+            setSearchQuery('');
+            setEditingApplication(id);
+          }}
+          onClose={() => setShowApplications(false)}
+        />
+      )}
+
       {/* New Note Modal */}
       {showNewNote && (
         <div className="mb-6 bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-5 space-y-3">
@@ -225,12 +295,51 @@ export default function KnowledgeBase() {
             placeholder="태그 (쉼표 구분)"
             className="w-full px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-[#0a0f0a] focus:ring-1 focus:ring-emerald-500 outline-none"
           />
+          {newNoteSuggestions.length > 0 && (
+            <div className="text-xs">
+              <p className="font-bold text-gray-500 mb-1.5 flex items-center gap-1">
+                <Link2 className="w-3 h-3" /> 관련 인사이트 — 선택하면 연결해서 저장
+              </p>
+              <ul className="space-y-1">
+                {newNoteSuggestions.map(({ item }) => (
+                  <li key={item.id}>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={newNoteLinks.includes(item.id)}
+                        onChange={(e) => setNewNoteLinks((links) => (e.target.checked ? [...links, item.id] : links.filter((l) => l !== item.id)))}
+                        className="accent-emerald-600"
+                      />
+                      <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold ${TYPE_COLORS[item.type] || 'bg-gray-100 text-gray-600'}`}>
+                        {TYPE_LABELS[item.type] || item.type}
+                      </span>
+                      <span className="truncate text-gray-700 dark:text-gray-300">{item.title}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <button onClick={handleAddNote} className="px-4 py-2 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors">
             저장
           </button>
         </div>
       )}
 
+      {focusedItem && (
+        <LinkGraphPanel
+          centre={focusedItem}
+          itemsById={itemsById}
+          graph={linkGraph}
+          suggestions={focusSuggestions}
+          editable={focusEditable}
+          onFocus={setGraphFocus}
+          onLink={(id) => updateFocusLinks((links) => [...links, id])}
+          onUnlink={(id) => updateFocusLinks((links) => links.filter((l) => l !== id))}
+          onClose={() => setGraphFocus(null)}
+        />
+      )}
+
       <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl shadow-sm flex-1 overflow-hidden flex flex-col">
         <div className="p-4 border-b border-gray-100 dark:border-gray-800 bg-gray-50/50 dark:bg-[#1a1f1a]/50 space-y-3">
           <div className="flex justify-between items-center flex-wrap gap-2">
@@ -266,15 +375,25 @@ export default function KnowledgeBase() {
           </div>
 
           {/* Search */}
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
-            <input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="제목, 내용, 태그 검색..."
-              className="w-full pl-9 pr-4 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-[#0a0f0a] focus:ring-1 focus:ring-emerald-500 outline-none"
-            />
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="제목, 내용, 태그 검색..."
+                className="w-full pl-9 pr-4 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-[#0a0f0a] focus:ring-1 focus:ring-emerald-500 outline-none"
+              />
+            </div>
+            <button
+              onClick={() => setSemanticOn((v) => !v)}
+              title={semanticState === 'unavailable' ? '이 기기에서는 의미 검색을 쓸 수 없어 키워드 검색만 합니다' : '임베딩으로 비슷한 뜻의 인사이트도 찾기'}
+              className={`flex items-center gap-1 text-xs px-2.5 py-2 rounded-lg border transition-colors shrink-0 ${semanticOn ? 'bg-emerald-600 border-emerald-600 text-white' : 'border-gray-200 dark:border-gray-700 text-gray-500 hover:bg-gray-50'}`}
+            >
+              <Sparkles className={`w-3 h-3 ${semanticState === 'loading' ? 'animate-pulse' : ''}`} />
+              {semanticState === 'unavailable' ? '의미 검색 불가' : '의미 검색'}
+            </button>
           </div>
 
           {/* Tag cloud */}
@@ -320,7 +439,30 @@ export default function KnowledgeBase() {
                         원문
                       </a>
                     )}
-                    {item.type !== 'study_insight' && (
+                    {applications[item.id]?.applied && (
+                      <span className="flex items-center gap-0.5 text-[10px] font-bold text-emerald-600">
+                        <CheckCircle2 className="w-3 h-3" /> 적용됨
+                      </span>
+                    )}
+                    {applications[item.id]?.usedIn.length ? (
+                      <span className="text-[10px] text-blue-500">
+                        {[...new Set(applications[item.id]!.usedIn.map((u) => DOCUMENT_TYPE_LABELS[u.document_type]))].join('·')} 인용 {applications[item.id]!.usedIn.length}
+                      </span>
+                    ) : null}
+                    <button
+                      onClick={() => setEditingApplication(editingApplication === item.id ? null : item.id)}
+                      className={`text-[10px] hover:text-emerald-600 ${editingApplication === item.id ? 'text-emerald-600' : 'text-gray-400'}`}
+                    >
+                      실무 적용
+                    </button>
+                    <button
+                      onClick={() => setGraphFocus(item.id)}
+                      className={`flex items-center gap-1 text-[10px] hover:text-emerald-600 ${graphFocus === item.id ? 'text-emerald-600' : 'text-gray-400'}`}
+                    >
+                      <Link2 className="w-3 h-3" />
+                      연결 {linkGraph.outgoing.get(item.id)?.length ?? 0} · 백링크 {linkGraph.backlinks.get(item.id)?.length ?? 0}
+                    </button>
+                    {item.type !== 'study_insight' && storedIds.has(item.id) && (
                       <button onClick={() => removeKnowledge(item.id)} className="text-gray-300 hover:text-red-400 transition-colors ml-auto">
                         <Trash2 className="w-3 h-3" />
                       </button>
@@ -332,6 +474,10 @@ export default function KnowledgeBase() {
                     <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-wrap">{item.content}</p>
                   </div>
 
+                  {editingApplication === item.id && (
+                    <ApplicationEditor item={item} onClose={() => setEditingApplication(null)} />
+                  )}
+
                   {item.tags.length > 0 && (
                     <div className="flex flex-wrap gap-1 mt-2">
                       {item.tags.map((tag, i) => (
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Check, Loader2, LogOut, Mail, UserCircle } from 'lucide-react';
+import { useAuthStore } from '../../../../stores/authStore';
+
+/**
+ * 계정 — 매직 링크 로그인. 로그인하면 학습 세션·인사이트·주간 정리가 Supabase에도 저장됨
+ */
+const AccountSettings = () => {
+  const { status, email, sendMagicLink, signOut } = useAuthStore();
+  const [address, setAddress] = useState('');
+  const [sending, setSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async () => {
+    const target = address.trim();
+    if (!target) return;
+    setSending(true);
+    setError(null);
+    try {
+      await sendMagicLink(target);
+      setSentTo(target);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setError(null);
+    try {
+      await signOut();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2 mb-4">
+        <UserCircle className="w-5 h-5 text-teal-500" /> 계정
+      </h2>
+
+      {status === 'unconfigured' && (
+        <p className="text-sm text-gray-500">
+          VITE_SUPABASE_URL·VITE_SUPABASE_ANON_KEY가 설정되지 않아 모든 기록은 이 브라우저에만 저장됩니다.
+        </p>
+      )}
+
+      {status === 'loading' && (
+        <p className="flex items-center gap-2 text-sm text-gray-400"><Loader2 className="w-4 h-4 animate-spin" /> 세션 확인 중...</p>
+      )}
+
+      {status === 'signed-in' && (
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="font-medium text-gray-900 dark:text-gray-200">{email}</p>
+            <p className="text-sm text-gray-500">학습 세션·인사이트·주간 정리가 이 계정으로 저장됩니다.</p>
+          </div>
+          <button
+            onClick={() => void handleSignOut()}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium border border-gray-200 dark:border-gray-700 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-white/5"
+          >
+            <LogOut className="w-3.5 h-3.5" /> 로그아웃
+          </button>
+        </div>
+      )}
+
+      {status === 'signed-out' && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">메일로 받은 로그인 링크를 열면 이 브라우저가 로그인됩니다. 로그인 전 기록은 이 브라우저에만 남습니다.</p>
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') void send(); }}
+              placeholder="name@carevia.kr"
+              className="flex-1 px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-[#0a0f0a] text-gray-900 dark:text-gray-100 focus:ring-1 focus:ring-teal-500 outline-none"
+            />
+            <button
+              onClick={() => void send()}
+              disabled={sending || !address.trim()}
+              className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50"
+            >
+              {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+              로그인 링크 받기
+            </button>
+          </div>
+          {sentTo && (
+            <p className="flex items-center gap-1 text-xs text-emerald-600"><Check className="w-3 h-3" /> {sentTo}로 링크를 보냈습니다. 메일함을 확인하세요.</p>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mt-3 text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default AccountSettings;
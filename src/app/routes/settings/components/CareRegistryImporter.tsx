@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { AlertTriangle, Check, MapPin, RotateCcw, Upload } from 'lucide-react';
+import { useCareMapStore } from '../../../../stores/careMapStore';
+import {
+  CARE_REGISTRY_LABELS,
+  parseCareRegistry,
+  type CareRegistryKind,
+} from '../../../../services/care-registry';
+
+const KINDS: CareRegistryKind[] = ['facilities', 'labs', 'startups', 'policyEvents'];
+
+const HINTS: Record<CareRegistryKind, string> = {
+  facilities: '장애인 복지시설 목록 등 — 시설명·주소·유형·정원·운영기관',
+  labs: '연구소명·국가·연구분야·제품·지원기관·지원금액(백만 USD)',
+  startups: '기업명·국가·분야·투자단계·투자금액(백만 USD)·투자사',
+  policyEvents: '일정명·날짜·기관·구분·링크 (정책 캘린더에 더해 표시)',
+};
+
+/**
+ * 월드맵 care 레이어 데이터셋 가져오기 — CSV/GeoJSON을 파싱해 기본 목록과 병합 (이 브라우저에 저장)
+ */
+const CareRegistryImporter = () => {
+  const imported = useCareMapStore((s) => s.imported);
+  const merged: Record<CareRegistryKind, number> = {
+    facilities: useCareMapStore((s) => s.facilities.length),
+    labs: useCareMapStore((s) => s.labs.length),
+    startups: useCareMapStore((s) => s.startups.length),
+    policyEvents: useCareMapStore((s) => s.policyEvents.length),
+  };
+  const importRegistry = useCareMapStore((s) => s.importRegistry);
+  const resetRegistry = useCareMapStore((s) => s.resetRegistry);
+  const [notices, setNotices] = useState<Partial<Record<CareRegistryKind, { ok: boolean; text: string }>>>({});
+
+  const handleFile = async (kind: CareRegistryKind, file: File | undefined) => {
+    if (!file) return;
+    const { records, skipped } = parseCareRegistry(kind, await file.text(), file.name);
+    const skippedNote = skipped > 0 ? ` · ${skipped}행 건너뜀 (좌표·지역 없음 또는 중복)` : '';
+    if (records.length === 0) {
+      setNotices((n) => ({ ...n, [kind]: { ok: false, text: `가져올 행이 없습니다${skippedNote}` } }));
+      return;
+    }
+    importRegistry(kind, records);
+    setNotices((n) => ({ ...n, [kind]: { ok: true, text: `${file.name}: ${records.length}건 가져옴${skippedNote}` } }));
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2 mb-4">
+        <MapPin className="w-5 h-5 text-teal-500" /> 월드맵 케어 레지스트리
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        CSV 또는 GeoJSON 파일을 가져와 월드맵 care 레이어에 표시합니다. 좌표가 없는 행은 주소의 시·도 중심으로 배치되고,
+        시설 팝업은 같은 지역의 진행 중인 조달 공고를 함께 보여줍니다. 같은 ID는 기본 목록을 덮어씁니다.
+      </p>
+
+      <div className="divide-y divide-gray-100 dark:divide-gray-800">
+        {KINDS.map((kind) => {
+          const importedCount = imported[kind]?.length ?? 0;
+          return (
+            <div key={kind} className="py-3 first:pt-0 last:pb-0">
+              <div className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-200">
+                    {CARE_REGISTRY_LABELS[kind]}
+                    <span className="ml-2 text-xs font-normal text-gray-400">
+                      {merged[kind]}건{importedCount > 0 && ` (가져옴 ${importedCount})`}
+                    </span>
+                  </p>
+                  <p className="text-xs text-gray-400 truncate">{HINTS[kind]}</p>
+                </div>
+                <label className="flex items-center gap-1 px-3 py-1.5 text-xs bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors cursor-pointer">
+                  <Upload className="w-3.5 h-3.5" /> 가져오기
+                  <input
+                    type="file"
+                    accept=".csv,.geojson,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const input = e.currentTarget;
+                      void handleFile(kind, input.files?.[0]).finally(() => { input.value = ''; });
+                    }}
+                  />
+                </label>
+                <button
+                  onClick={() => {
+                    resetRegistry(kind);
+                    setNotices((n) => ({ ...n, [kind]: undefined }));
+                  }}
+                  disabled={importedCount === 0}
+                  className="flex items-center gap-1 text-xs text-gray-500 hover:text-red-600 disabled:text-gray-300 transition-colors"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" /> 초기화
+                </button>
+              </div>
+              {notices[kind] && (
+                <p className={`flex items-center gap-1 text-xs mt-1 ${notices[kind].ok ? 'text-emerald-600' : 'text-orange-500'}`}>
+                  {notices[kind].ok ? <Check className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />} {notices[kind].text}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CareRegistryImporter;
@@ -0,0 +1,143 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Building2, Check, Loader2, Plus, Search, X } from 'lucide-react';
+import { fetchCompetitors, saveCompetitors, searchDartCorps } from '../../../../services/care';
+import { MAX_COMPETITORS, type CompetitorCorp } from '../../../../services/dartApi';
+
+const inputClass = 'px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-[#0a0f0a] focus:ring-1 focus:ring-emerald-500 outline-none';
+
+/**
+ * 경쟁사 레지스트리 — DART corpCode 검색으로 등록, 서버에 저장 (공시 타임라인·S3 점수에 반영)
+ */
+const CompetitorRegistryEditor = () => {
+  const [competitors, setCompetitors] = useState<CompetitorCorp[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CompetitorCorp[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    void fetchCompetitors().then((registry) => {
+      if (cancelled) return;
+      if (registry) setCompetitors(registry.competitors);
+      else setError('경쟁사 목록을 불러오지 못했습니다');
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const persist = async (next: CompetitorCorp[]) => {
+    const prev = competitors;
+    setCompetitors(next);
+    setError(null);
+    try {
+      const registry = await saveCompetitors(next);
+      setCompetitors(registry.competitors);
+      setSaved(true);
+      setTimeout(() => setSaved(false), 1500);
+    } catch (e) {
+      setCompetitors(prev);
+      setError((e as Error).message);
+    }
+  };
+
+  const search = async () => {
+    const q = query.trim();
+    if (!q) return;
+    setSearching(true);
+    setNotice(null);
+    try {
+      const { configured, corps } = await searchDartCorps(q);
+      setResults(corps);
+      if (!configured) setNotice('서버에 DART_API_KEY가 설정되지 않아 검색할 수 없습니다');
+      else if (corps.length === 0) setNotice('일치하는 회사가 없습니다');
+    } catch (e) {
+      setResults([]);
+      setNotice(`검색 실패 — ${(e as Error).message}`);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const list = competitors ?? [];
+  const isRegistered = (corpCode: string) => list.some((c) => c.corpCode === corpCode);
+
+  return (
+    <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2">
+          <Building2 className="w-5 h-5 text-orange-500" /> 경쟁사 공시 추적
+        </h2>
+        {saved && <span className="text-xs text-emerald-500 flex items-center gap-1"><Check className="w-3 h-3" /> 저장됨</span>}
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        등록한 회사의 최근 30일 DART 공시를 자금조달·주요계약·M&A·경영진 변동·실적으로 분류해
+        트래킹 페이지 타임라인에 보여주고 S3(경쟁사) 점수에 반영합니다. 최대 {MAX_COMPETITORS}개.
+      </p>
+      {error && (
+        <p className="flex items-center gap-1 text-xs text-orange-500 mb-3">
+          <AlertTriangle className="w-3.5 h-3.5" /> 저장 실패 — {error}
+        </p>
+      )}
+
+      <div className="flex gap-2 mb-2">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && void search()}
+          placeholder="회사명, 종목코드 또는 고유번호"
+          className={`flex-1 ${inputClass}`}
+        />
+        <button
+          onClick={() => void search()}
+          disabled={searching}
+          className="flex items-center gap-1 px-3 py-2 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-60"
+        >
+          {searching ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />} 검색
+        </button>
+      </div>
+      {notice && <p className="text-xs text-gray-400 mb-2">{notice}</p>}
+
+      {results.length > 0 && (
+        <div className="mb-4 max-h-48 overflow-y-auto border border-gray-100 dark:border-gray-800 rounded-lg divide-y divide-gray-100 dark:divide-gray-800">
+          {results.map((corp) => (
+            <div key={corp.corpCode} className="flex items-center gap-3 px-3 py-2 text-sm">
+              <span className="flex-1 text-gray-800 dark:text-gray-200">{corp.name}</span>
+              <span className="text-[11px] text-gray-400">{corp.stockCode || '비상장'} · {corp.corpCode}</span>
+              <button
+                onClick={() => void persist([...list, corp])}
+                disabled={isRegistered(corp.corpCode) || list.length >= MAX_COMPETITORS}
+                className="flex items-center gap-1 text-xs text-emerald-600 hover:text-emerald-700 disabled:text-gray-300"
+              >
+                {isRegistered(corp.corpCode) ? <Check className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+                {isRegistered(corp.corpCode) ? '등록됨' : '추가'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {competitors === null ? (
+        <p className="text-xs text-gray-400">불러오는 중…</p>
+      ) : list.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {list.map((c) => (
+            <span key={c.corpCode} className="flex items-center gap-1 text-sm px-3 py-1 bg-orange-50 dark:bg-orange-900/20 text-orange-700 dark:text-orange-400 rounded-full">
+              {c.name}
+              {c.stockCode && <span className="text-[10px] opacity-60">{c.stockCode}</span>}
+              <button onClick={() => void persist(list.filter((x) => x.corpCode !== c.corpCode))} className="hover:text-red-600 transition-colors">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">등록된 경쟁사가 없습니다. S3 점수는 경쟁사 뉴스만으로 계산됩니다.</p>
+      )}
+    </div>
+  );
+};
+
+export default CompetitorRegistryEditor;
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { AlertTriangle, Ban, Check, Plus, Tag, X } from 'lucide-react';
+import { useSettingsStore } from '../../../../stores/settingsStore';
+import { KEYWORD_CATEGORY_LABELS, type KeywordCategory } from '../../../../services/keywordFilter';
+import {
+  HIGH_FITNESS_WEIGHT,
+  KEYWORD_CATEGORIES,
+  KEYWORD_WEIGHT_MAX,
+  KEYWORD_WEIGHT_MIN,
+} from '../../../../services/keywordProfile';
+
+const inputClass = 'px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-[#0a0f0a] focus:ring-1 focus:ring-emerald-500 outline-none';
+
+/**
+ * 키워드 프로필 편집 — 카테고리별 가중 키워드와 네거티브 키워드 (서버 저장, 텔레그램 봇과 공유)
+ */
+const KeywordProfileEditor = () => {
+  const { customKeywords, negativeKeywords, keywordSyncError, setCustomKeywords, setNegativeKeywords } = useSettingsStore();
+  const [newKeyword, setNewKeyword] = useState('');
+  const [category, setCategory] = useState<KeywordCategory>('market');
+  const [weight, setWeight] = useState(1);
+  const [newNegative, setNewNegative] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  const flash = () => {
+    setSaved(true);
+    setTimeout(() => setSaved(false), 1500);
+  };
+
+  const hasKeyword = (list: string[], kw: string) => list.some((k) => k.toLowerCase() === kw.toLowerCase());
+
+  const addKeyword = () => {
+    const kw = newKeyword.trim();
+    if (!kw || hasKeyword(customKeywords.map((k) => k.keyword), kw)) return;
+    setCustomKeywords([...customKeywords, { keyword: kw, category, weight }]);
+    setNewKeyword('');
+    flash();
+  };
+
+  const updateWeight = (kw: string, value: number) => {
+    setCustomKeywords(customKeywords.map((k) => (k.keyword === kw ? { ...k, weight: value } : k)));
+    flash();
+  };
+
+  const removeKeyword = (kw: string) => {
+    setCustomKeywords(customKeywords.filter((k) => k.keyword !== kw));
+    flash();
+  };
+
+  const addNegative = () => {
+    const kw = newNegative.trim();
+    if (!kw || hasKeyword(negativeKeywords, kw)) return;
+    setNegativeKeywords([...negativeKeywords, kw]);
+    setNewNegative('');
+    flash();
+  };
+
+  const removeNegative = (kw: string) => {
+    setNegativeKeywords(negativeKeywords.filter((k) => k !== kw));
+    flash();
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2">
+          <Tag className="w-5 h-5 text-emerald-500" /> 관심 키워드
+        </h2>
+        {saved && <span className="text-xs text-emerald-500 flex items-center gap-1"><Check className="w-3 h-3" /> 저장됨</span>}
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        기본 키워드 외에 추가로 트래킹할 키워드를 설정합니다. 가중치는 관련도 점수에 반영되고(기본 키워드 1.0),
+        {` ${HIGH_FITNESS_WEIGHT.toFixed(1)}`} 이상이면 공공조달 적합도 '높음' 키워드로 취급합니다. 텔레그램 봇의 /keyword 명령과 같은 목록입니다.
+      </p>
+      {keywordSyncError && (
+        <p className="flex items-center gap-1 text-xs text-orange-500 mb-3">
+          <AlertTriangle className="w-3.5 h-3.5" /> 서버 저장 실패 — 이 브라우저에만 저장됨 ({keywordSyncError})
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        <input
+          type="text"
+          value={newKeyword}
+          onChange={(e) => setNewKeyword(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addKeyword()}
+          placeholder="새 키워드 입력"
+          className={`flex-1 min-w-[160px] ${inputClass}`}
+        />
+        <select value={category} onChange={(e) => setCategory(e.target.value as KeywordCategory)} className={inputClass}>
+          {KEYWORD_CATEGORIES.map((c) => (
+            <option key={c} value={c}>{KEYWORD_CATEGORY_LABELS[c]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-xs text-gray-500">
+          가중치 {weight.toFixed(1)}
+          <input
+            type="range"
+            min={KEYWORD_WEIGHT_MIN}
+            max={KEYWORD_WEIGHT_MAX}
+            step={0.5}
+            value={weight}
+            onChange={(e) => setWeight(Number(e.target.value))}
+            className="w-24 accent-emerald-500"
+          />
+        </label>
+        <button onClick={addKeyword} className="flex items-center gap-1 px-3 py-2 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors">
+          <Plus className="w-4 h-4" /> 추가
+        </button>
+      </div>
+
+      {customKeywords.length > 0 ? (
+        <div className="space-y-2 mb-5">
+          {customKeywords.map((k) => (
+            <div key={k.keyword} className="flex items-center gap-3 text-sm px-3 py-1.5 bg-emerald-50 dark:bg-emerald-900/20 rounded-lg">
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-white dark:bg-[#0a0f0a] text-gray-500">{KEYWORD_CATEGORY_LABELS[k.category]}</span>
+              <span className="flex-1 text-emerald-700 dark:text-emerald-400">{k.keyword}</span>
+              <input
+                type="range"
+                min={KEYWORD_WEIGHT_MIN}
+                max={KEYWORD_WEIGHT_MAX}
+                step={0.5}
+                value={k.weight}
+                onChange={(e) => updateWeight(k.keyword, Number(e.target.value))}
+                className="w-24 accent-emerald-500"
+              />
+              <span className="w-8 text-right text-xs font-bold text-gray-700 dark:text-gray-300">×{k.weight.toFixed(1)}</span>
+              <button onClick={() => removeKeyword(k.keyword)} className="text-gray-400 hover:text-red-500 transition-colors">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400 mb-5">추가된 키워드가 없습니다. 기본 키워드만 사용됩니다.</p>
+      )}
+
+      <p className="text-sm text-gray-700 dark:text-gray-300 mb-2 flex items-center gap-1">
+        <Ban className="w-4 h-4 text-red-400" /> 제외 키워드
+      </p>
+      <p className="text-xs text-gray-500 mb-3">포함된 기사는 관련도가 크게 낮아지고 공공조달 목록에서 빠집니다.</p>
+      <div className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={newNegative}
+          onChange={(e) => setNewNegative(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addNegative()}
+          placeholder="제외할 키워드 입력"
+          className={`flex-1 ${inputClass}`}
+        />
+        <button onClick={addNegative} className="flex items-center gap-1 px-3 py-2 text-sm border border-red-200 dark:border-red-900 text-red-500 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors">
+          <Plus className="w-4 h-4" /> 추가
+        </button>
+      </div>
+      {negativeKeywords.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {negativeKeywords.map((kw) => (
+            <span key={kw} className="flex items-center gap-1 text-sm px-3 py-1 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-full">
+              {kw}
+              <button onClick={() => removeNegative(kw)} className="hover:text-red-700 transition-colors">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeywordProfileEditor;
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Check, Send, X } from 'lucide-react';
+import { fetchNotificationDeliveries, type NotificationChannelInfo } from '../../../../services/care';
+import { getDeliveryLog, isDesktopNotificationAvailable } from '../../../../services/notifications';
+import type { DeliveryLogEntry } from '../../../../services/notifications/types';
+import { useSettingsStore } from '../../../../stores/settingsStore';
+
+const MAX_ROWS = 20;
+
+const CHANNEL_LABELS: Record<string, string> = {
+  telegram: '텔레그램',
+  slack: 'Slack',
+  email: '메일 (SMTP)',
+  webhook: '웹훅',
+  desktop: '데스크톱',
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  opportunity: 'Opportunity',
+  procurement: '조달 공고',
+  competitor: '경쟁사 동향',
+  daily_brief: 'Daily Brief',
+  streak_warning: '스트릭 경고',
+  weekly_report: '주간 리포트',
+};
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleString('ko-KR', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * 알림 채널 — 서버 허브에 설정된 채널(환경 변수)과 이 기기의 데스크톱 알림, 최근 전송 기록
+ */
+const NotificationChannels = () => {
+  const { desktopNotifications, setDesktopNotifications } = useSettingsStore();
+  const [channels, setChannels] = useState<NotificationChannelInfo[] | null>(null);
+  const [deliveries, setDeliveries] = useState<DeliveryLogEntry[]>([]);
+  const [unreachable, setUnreachable] = useState(false);
+  const desktopAvailable = isDesktopNotificationAvailable();
+
+  useEffect(() => {
+    let cancelled = false;
+    void fetchNotificationDeliveries(MAX_ROWS).then((resp) => {
+      if (cancelled) return;
+      setUnreachable(!resp);
+      setChannels(resp?.channels ?? []);
+      const server = (resp?.deliveries ?? []) as DeliveryLogEntry[];
+      setDeliveries([...server, ...getDeliveryLog()].sort((a, b) => b.createdAt - a.createdAt).slice(0, MAX_ROWS));
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  return (
+    <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2 mb-4">
+        <Send className="w-5 h-5 text-sky-500" /> 알림 채널
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        같은 알림을 채널마다 형식에 맞춰 보내고, 실패하면 간격을 늘려 가며 재시도합니다.
+        서버 채널은 환경 변수(SLACK_WEBHOOK_URL, SMTP_*, NOTIFY_WEBHOOK_URL)로 켜고 *_NOTIFY_EVENTS로 받을 알림을 고릅니다.
+      </p>
+
+      <div className="space-y-2 mb-4">
+        {unreachable && (
+          <p className="flex items-center gap-1 text-xs text-orange-500">
+            <AlertTriangle className="w-3.5 h-3.5" /> 서버 채널 정보를 불러오지 못했습니다
+          </p>
+        )}
+        {channels?.length === 0 && !unreachable && (
+          <p className="text-sm text-gray-400">서버에 설정된 알림 채널이 없습니다</p>
+        )}
+        {channels?.map((c) => (
+          <div key={c.name} className="flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-900 dark:text-gray-200">{CHANNEL_LABELS[c.kind] ?? c.kind}</span>
+            <span className="text-xs text-gray-500">{c.events.map((e) => EVENT_LABELS[e] ?? e).join(' · ')}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between py-3 border-t border-gray-100 dark:border-gray-800">
+        <div>
+          <p className="font-medium text-gray-900 dark:text-gray-200">데스크톱 알림</p>
+          <p className="text-sm text-gray-500">
+            {desktopAvailable
+              ? 'Opportunity Score가 임계값을 넘으면 OS 알림을 띄웁니다.'
+              : '데스크톱 앱에서만 사용할 수 있습니다.'}
+          </p>
+        </div>
+        <button
+          disabled={!desktopAvailable}
+          onClick={() => setDesktopNotifications(!desktopNotifications)}
+          className={`relative w-12 h-6 rounded-full transition-colors disabled:opacity-40 ${desktopNotifications ? 'bg-emerald-500' : 'bg-gray-300 dark:bg-gray-700'}`}
+        >
+          <div className={`absolute top-0.5 w-5 h-5 bg-white rounded-full shadow transition-transform ${desktopNotifications ? 'translate-x-6' : 'translate-x-0.5'}`} />
+        </button>
+      </div>
+
+      <div className="pt-3 border-t border-gray-100 dark:border-gray-800">
+        <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">최근 전송 기록</p>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-gray-400">전송 기록이 없습니다</p>
+        ) : (
+          <table className="w-full text-xs">
+            <tbody>
+              {deliveries.map((d) => (
+                <tr key={d.id} className="border-b border-gray-50 dark:border-gray-900 last:border-0">
+                  <td className="py-1.5 text-gray-400 whitespace-nowrap">{formatTime(d.createdAt)}</td>
+                  <td className="py-1.5 text-gray-700 dark:text-gray-300">{CHANNEL_LABELS[d.kind] ?? d.channel}</td>
+                  <td className="py-1.5 text-gray-500">{EVENT_LABELS[d.eventType] ?? d.eventType}</td>
+                  <td className="py-1.5 text-right" title={d.error || undefined}>
+                    {d.status === 'sent' ? (
+                      <span className="inline-flex items-center gap-1 text-emerald-500">
+                        <Check className="w-3 h-3" /> 전송{d.attempts > 1 ? ` (${d.attempts}회 시도)` : ''}
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center gap-1 text-red-500">
+                        <X className="w-3 h-3" /> 실패 ({d.attempts}회 시도)
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationChannels;
@@ -0,0 +1,107 @@
+import { useMemo, useState } from 'react';
+import { Filter, RefreshCw } from 'lucide-react';
+import { useArticleStore } from '../../../../stores/articleStore';
+import { useExclusionStore } from '../../../../stores/exclusionStore';
+import {
+  collectFeedback,
+  currentRelevanceModel,
+  evaluateHeldOut,
+  retrainRelevanceModel,
+  topFeatures,
+  type RelevanceFeature,
+} from '../../../../services/relevance';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const Metric = ({ label, value }: { label: string; value: string }) => (
+  <div className="p-3 rounded-lg bg-gray-50 dark:bg-[#0a0f0a] border border-gray-100 dark:border-gray-800">
+    <p className="text-[11px] text-gray-500">{label}</p>
+    <p className="text-lg font-bold text-gray-900 dark:text-white">{value}</p>
+  </div>
+);
+
+const FeatureList = ({ title, features, tone }: { title: string; features: RelevanceFeature[]; tone: string }) => (
+  <div>
+    <p className="text-xs text-gray-500 mb-1.5">{title}</p>
+    {features.length === 0 ? (
+      <p className="text-xs text-gray-400">아직 없음</p>
+    ) : (
+      <div className="flex flex-wrap gap-1.5">
+        {features.map((f) => (
+          <span key={f.token} className={`text-xs px-2 py-0.5 rounded-full ${tone}`}>
+            {f.token} <span className="opacity-60">{Math.abs(f.weight).toFixed(1)}</span>
+          </span>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * 피드백 관련성 모델 — 학습 예시 수, 최근 피드백으로 잰 정밀도·재현율, 라벨별 주요 토큰
+ */
+const RelevanceModelPanel = () => {
+  const excluded = useExclusionStore((s) => s.excluded);
+  const annotations = useArticleStore((s) => s.annotations);
+  const [retrainedAt, setRetrainedAt] = useState<string | null>(null);
+
+  const examples = useMemo(() => collectFeedback(excluded, annotations), [excluded, annotations]);
+  const evaluation = useMemo(() => evaluateHeldOut(examples), [examples]);
+  const model = useMemo(() => currentRelevanceModel(), [excluded, annotations, retrainedAt]);
+
+  const handleRetrain = () => setRetrainedAt(retrainRelevanceModel().updatedAt);
+
+  return (
+    <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2">
+          <Filter className="w-5 h-5 text-emerald-500" /> 관련성 모델
+        </h2>
+        <button
+          onClick={handleRetrain}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-emerald-500"
+        >
+          <RefreshCw className="w-3.5 h-3.5" /> 처음부터 다시 학습
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-4">
+        제외한 기사 {model.docCounts.irrelevant}건(관련 없음)과 북마크·중요도·메모한 기사 {model.docCounts.relevant}건(관련)으로 학습합니다.
+        피드백이 바뀔 때마다 달라진 기사만 반영하고, 뉴스 관련성 점수를 −40 ~ +15점 조정합니다.
+      </p>
+
+      {evaluation ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-2">
+            <Metric label="정밀도 (걸러낸 것 중 실제 제외)" value={percent(evaluation.precision)} />
+            <Metric label="재현율 (제외 중 걸러낸 것)" value={percent(evaluation.recall)} />
+            <Metric label="F1" value={percent(evaluation.f1)} />
+            <Metric label="정확도" value={percent(evaluation.accuracy)} />
+          </div>
+          <p className="text-[11px] text-gray-400 mb-4">
+            최근 피드백 {evaluation.heldOut}건을 떼어 두고 이전 {evaluation.trained}건으로 학습한 결과
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-gray-400 mb-4">
+          평가하려면 피드백이 10건 이상이고 최근 피드백에 제외와 북마크가 모두 있어야 합니다 (현재 {examples.length}건).
+        </p>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <FeatureList
+          title="관련 쪽 근거"
+          features={topFeatures(model, 'relevant')}
+          tone="bg-emerald-50 text-emerald-700 dark:bg-emerald-900/25 dark:text-emerald-400"
+        />
+        <FeatureList
+          title="관련 없음 쪽 근거"
+          features={topFeatures(model, 'irrelevant')}
+          tone="bg-red-50 text-red-600 dark:bg-red-900/20 dark:text-red-400"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RelevanceModelPanel;
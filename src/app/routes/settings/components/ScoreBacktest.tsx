@@ -0,0 +1,103 @@
+import { useMemo } from 'react';
+import { FlaskConical } from 'lucide-react';
+import { runBacktest } from '../../../../services/scoreBacktest';
+import type { ScoringProfile } from '../../../../services/scoreCalculator';
+import { useTrackingStore } from '../../../../stores/trackingStore';
+
+const MAX_ROWS = 30;
+
+const formatAt = (iso: string): string => {
+  const d = new Date(iso);
+  return `${d.getMonth() + 1}/${d.getDate()} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+interface StatProps {
+  label: string;
+  value: number;
+  baseline?: number;
+}
+
+const Stat = ({ label, value, baseline }: StatProps) => {
+  const delta = baseline === undefined ? 0 : value - baseline;
+  return (
+    <div className="p-3 rounded-lg bg-gray-50 dark:bg-[#0a0f0a] border border-gray-100 dark:border-gray-800">
+      <p className="text-[11px] text-gray-500">{label}</p>
+      <p className="text-lg font-bold text-gray-900 dark:text-white">
+        {value}
+        {baseline !== undefined && delta !== 0 && (
+          <span className={`ml-1 text-xs font-medium ${delta > 0 ? 'text-emerald-500' : 'text-red-400'}`}>
+            ({delta > 0 ? `+${delta}` : delta})
+          </span>
+        )}
+      </p>
+      {baseline !== undefined && <p className="text-[10px] text-gray-400">기존 {baseline}</p>}
+    </div>
+  );
+};
+
+/**
+ * 후보 프로필로 로컬 점수 히스토리를 재생해 알림 발생 시점을 비교
+ */
+const ScoreBacktest = ({ profile }: { profile: ScoringProfile }) => {
+  const history = useTrackingStore((s) => s.scoreHistory);
+  const result = useMemo(() => runBacktest(history, profile), [history, profile]);
+
+  const rows = useMemo(
+    () => result.points.filter((p) => p.alertFired || p.baselineAlert !== p.replayed.shouldAlert).slice(-MAX_ROWS).reverse(),
+    [result],
+  );
+
+  return (
+    <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2 mb-4">
+        <FlaskConical className="w-5 h-5 text-amber-500" /> 백테스트 — {profile.name}
+      </h2>
+
+      {result.summary.checkpoints === 0 ? (
+        <p className="text-sm text-gray-400">재생할 점수 히스토리가 없습니다. /tracking 대시보드가 점수를 기록하면 백테스트할 수 있습니다.</p>
+      ) : (
+        <>
+          <p className="mb-4 text-xs text-gray-500">
+            데이터: 로컬 점수 히스토리 {result.summary.checkpoints}건 — 기록된 S1/S2/S3에 가중치·임계값만 재적용
+          </p>
+
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            <Stat label="알림 발송" value={result.summary.alertsFired} baseline={result.summary.baselineAlertsFired} />
+            <Stat label="알림 상태 시점" value={result.summary.alertPoints} baseline={result.summary.baselineAlertPoints} />
+          </div>
+
+          {rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-100 dark:border-gray-800">
+                    <th className="py-1.5 font-normal">시점</th>
+                    <th className="py-1.5 font-normal">기존 총점</th>
+                    <th className="py-1.5 font-normal">재계산 (S1/S2/S3)</th>
+                    <th className="py-1.5 font-normal">알림</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((p) => (
+                    <tr key={p.at} className="border-b border-gray-50 dark:border-gray-900">
+                      <td className="py-1.5 text-gray-600 dark:text-gray-400">{formatAt(p.at)}</td>
+                      <td className="py-1.5 text-gray-600 dark:text-gray-400">{p.stored.total}{p.baselineAlert && ' 🔔'}</td>
+                      <td className="py-1.5 font-medium text-gray-900 dark:text-white">
+                        {p.replayed.total} <span className="text-gray-400 font-normal">({p.replayed.s1}/{p.replayed.s2}/{p.replayed.s3})</span>
+                      </td>
+                      <td className="py-1.5">
+                        {p.alertFired ? <span className="text-amber-600 font-medium">발송</span> : p.replayed.shouldAlert ? <span className="text-gray-500">유지</span> : <span className="text-gray-300">—</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScoreBacktest;
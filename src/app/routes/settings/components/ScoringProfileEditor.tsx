@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { Check, Copy, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { useScoringProfileStore } from '../../../../stores/scoringProfileStore';
+import { DEFAULT_SCORING_PROFILE, type ScoreTrackKey, type ScoringProfile } from '../../../../services/scoreCalculator';
+
+const WEIGHT_LABELS: Record<ScoreTrackKey, string> = {
+  policy: 'S1 정책/예산',
+  investment: 'S2 자금유입',
+  competitor: 'S3 경쟁사',
+};
+
+interface SliderFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (v: number) => string;
+  disabled: boolean;
+  onChange: (v: number) => void;
+}
+
+const SliderField = ({ label, value, min, max, step, format, disabled, onChange }: SliderFieldProps) => (
+  <div>
+    <div className="flex items-center justify-between mb-1">
+      <p className="text-sm text-gray-700 dark:text-gray-300">{label}</p>
+      <span className="text-sm font-bold text-gray-900 dark:text-white">{format ? format(value) : value}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full accent-amber-500 disabled:opacity-50"
+    />
+  </div>
+);
+
+interface ScoringProfileEditorProps {
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+/**
+ * Opportunity Score 프로필 편집 — 기본 프로필은 읽기 전용, 복제 후 수정
+ */
+const ScoringProfileEditor = ({ selectedId, onSelect }: ScoringProfileEditorProps) => {
+  const { profiles, activeProfileId, duplicateProfile, updateProfile, removeProfile, setActiveProfile } = useScoringProfileStore();
+  const [saved, setSaved] = useState(false);
+
+  const profile = profiles.find((p) => p.id === selectedId) ?? DEFAULT_SCORING_PROFILE;
+  const readOnly = profile.id === DEFAULT_SCORING_PROFILE.id;
+  const weightSum = profile.weights.policy + profile.weights.investment + profile.weights.competitor;
+
+  const patch = (update: Partial<Omit<ScoringProfile, 'id'>>) => {
+    updateProfile(profile.id, update);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 1500);
+  };
+
+  const setWeight = (key: ScoreTrackKey, value: number) => patch({ weights: { ...profile.weights, [key]: value } });
+
+  return (
+    <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-amber-500" /> 스코어링 프로필
+        </h2>
+        {saved && <span className="text-xs text-emerald-500 flex items-center gap-1"><Check className="w-3 h-3" /> 저장됨</span>}
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Opportunity Score 산식의 가중치·포화 건수·최신성 감쇠·소스 등급 보너스를 조정합니다. 활성 프로필은 키워드 프로필과 함께 서버에 저장되어 다음 갱신부터 대시보드·텔레그램 점수와 알림에 적용되며, 알림 임계값은 위 알림 설정의 값을 따릅니다.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {profiles.map((p) => (
+          <button
+            key={p.id}
+            onClick={() => onSelect(p.id)}
+            className={`px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+              p.id === selectedId
+                ? 'border-amber-500 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400'
+                : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:border-amber-300'
+            }`}
+          >
+            {p.id === activeProfileId && <Check className="w-3 h-3 inline mr-1" />}
+            {p.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-5">
+        {readOnly ? (
+          <span className="text-xs text-gray-400">기본 프로필은 수정할 수 없습니다. 복제해서 조정하세요.</span>
+        ) : (
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(e) => patch({ name: e.target.value })}
+            className="flex-1 min-w-[160px] px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-[#0a0f0a] focus:ring-1 focus:ring-amber-500 outline-none"
+          />
+        )}
+        <button
+          onClick={() => onSelect(duplicateProfile(profile.id))}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded-lg text-gray-700 dark:text-gray-300 hover:border-amber-400"
+        >
+          <Copy className="w-3.5 h-3.5" /> 복제
+        </button>
+        {profile.id !== activeProfileId && (
+          <button
+            onClick={() => setActiveProfile(profile.id)}
+            className="px-3 py-1.5 text-sm bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors"
+          >
+            활성화
+          </button>
+        )}
+        {!readOnly && (
+          <button
+            onClick={() => { removeProfile(profile.id); onSelect(DEFAULT_SCORING_PROFILE.id); }}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-500 border border-red-200 dark:border-red-900 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20"
+          >
+            <Trash2 className="w-3.5 h-3.5" /> 삭제
+          </button>
+        )}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-x-6 gap-y-4">
+        {(Object.keys(WEIGHT_LABELS) as ScoreTrackKey[]).map((key) => (
+          <SliderField
+            key={key}
+            label={`${WEIGHT_LABELS[key]} 가중치`}
+            value={profile.weights[key]}
+            min={0}
+            max={1}
+            step={0.05}
+            format={(v) => v.toFixed(2)}
+            disabled={readOnly}
+            onChange={(v) => setWeight(key, v)}
+          />
+        ))}
+        <div className="flex items-end">
+          <p className={`text-xs ${Math.abs(weightSum - 1) > 0.001 ? 'text-orange-500' : 'text-gray-400'}`}>
+            가중치 합계 {weightSum.toFixed(2)} {Math.abs(weightSum - 1) > 0.001 && '— 1.00이 아니면 총점 범위가 달라집니다'}
+          </p>
+        </div>
+        <SliderField label="건수 포화 기준 (건)" value={profile.countSaturation} min={1} max={20} step={1} disabled={readOnly} onChange={(v) => patch({ countSaturation: v })} />
+        <SliderField label="관련도 반영 비율" value={profile.relevanceWeight} min={0} max={1} step={0.05} format={(v) => v.toFixed(2)} disabled={readOnly} onChange={(v) => patch({ relevanceWeight: v })} />
+        <SliderField label="건수 항목 배점" value={profile.countWeight} min={0} max={60} step={5} disabled={readOnly} onChange={(v) => patch({ countWeight: v })} />
+        <SliderField
+          label="최신성 반감기"
+          value={profile.recencyHalfLifeHours}
+          min={0}
+          max={168}
+          step={6}
+          format={(v) => (v === 0 ? '감쇠 없음' : `${v}시간`)}
+          disabled={readOnly}
+          onChange={(v) => patch({ recencyHalfLifeHours: v })}
+        />
+        <SliderField label="Tier 1 소스 보너스" value={profile.tierBonus} min={0} max={20} step={1} disabled={readOnly} onChange={(v) => patch({ tierBonus: v })} />
+        <SliderField label="백테스트 알림 임계값" value={profile.alertThreshold} min={30} max={95} step={5} disabled={readOnly} onChange={(v) => patch({ alertThreshold: v })} />
+        <SliderField label="최우선 임계값" value={profile.highPriorityThreshold} min={50} max={100} step={5} disabled={readOnly} onChange={(v) => patch({ highPriorityThreshold: v })} />
+      </div>
+    </div>
+  );
+};
+
+export default ScoringProfileEditor;
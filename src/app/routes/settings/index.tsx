@@ -1,6 +1,17 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useSettingsStore } from '../../../stores/settingsStore';
-import { Plus, X, Bell, BookOpen, Tag, Database, Check } from 'lucide-react';
+import { useScoringProfileStore } from '../../../stores/scoringProfileStore';
+import { DEFAULT_SCORING_PROFILE } from '../../../services/scoreCalculator';
+import { getCareServerSecret, setCareServerSecret } from '../../../services/care';
+import ScoringProfileEditor from './components/ScoringProfileEditor';
+import ScoreBacktest from './components/ScoreBacktest';
+import KeywordProfileEditor from './components/KeywordProfileEditor';
+import CompetitorRegistryEditor from './components/CompetitorRegistryEditor';
+import CareRegistryImporter from './components/CareRegistryImporter';
+import RelevanceModelPanel from './components/RelevanceModelPanel';
+import NotificationChannels from './components/NotificationChannels';
+import AccountSettings from './components/AccountSettings';
+import { Bell, BookOpen, Database, Check, KeyRound } from 'lucide-react';
 
 const FOCUS_AREA_OPTIONS = [
   { id: 'financial', label: '재무 분석' },
@@ -13,29 +24,32 @@ const FOCUS_AREA_OPTIONS = [
 
 export default function Settings() {
   const {
-    customKeywords, alertThreshold, weeklyGoalMinutes, focusAreas, telegramEnabled,
-    setCustomKeywords, setAlertThreshold, setWeeklyGoalMinutes, setFocusAreas, setTelegramEnabled,
+    alertThreshold, weeklyGoalMinutes, focusAreas,
+    setAlertThreshold, setWeeklyGoalMinutes, setFocusAreas, syncKeywordProfile,
   } = useSettingsStore();
 
-  const [newKeyword, setNewKeyword] = useState('');
+  // 텔레그램 봇(/keyword)에서 바뀐 키워드 프로필 반영
+  useEffect(() => {
+    void syncKeywordProfile();
+  }, [syncKeywordProfile]);
+
+  const profiles = useScoringProfileStore((s) => s.profiles);
+  const [profileId, setProfileId] = useState(() => useScoringProfileStore.getState().activeProfileId);
+  const candidateProfile = profiles.find((p) => p.id === profileId) ?? DEFAULT_SCORING_PROFILE;
+
   const [saved, setSaved] = useState<string | null>(null);
+  const [serverSecret, setServerSecret] = useState(getCareServerSecret);
 
   const flash = (section: string) => {
     setSaved(section);
     setTimeout(() => setSaved(null), 1500);
   };
 
-  const addKeyword = () => {
-    const kw = newKeyword.trim();
-    if (!kw || customKeywords.includes(kw)) return;
-    setCustomKeywords([...customKeywords, kw]);
-    setNewKeyword('');
-    flash('keywords');
-  };
-
-  const removeKeyword = (kw: string) => {
-    setCustomKeywords(customKeywords.filter((k) => k !== kw));
-    flash('keywords');
+  // 서버 시크릿이 생기면 로컬에만 저장돼 있던 키워드 프로필을 다시 올림
+  const saveServerSecret = () => {
+    setCareServerSecret(serverSecret.trim());
+    flash('connections');
+    void syncKeywordProfile();
   };
 
   const toggleFocusArea = (id: string) => {
@@ -52,43 +66,20 @@ export default function Settings() {
         ⚙️ Settings
       </h1>
       <div className="space-y-6">
-        {/* Custom Keywords */}
-        <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2">
-              <Tag className="w-5 h-5 text-emerald-500" /> 관심 키워드
-            </h2>
-            {saved === 'keywords' && <span className="text-xs text-emerald-500 flex items-center gap-1"><Check className="w-3 h-3" /> 저장됨</span>}
-          </div>
-          <p className="text-sm text-gray-500 mb-4">기본 키워드 외에 추가로 트래킹할 키워드를 설정합니다.</p>
-          <div className="flex gap-2 mb-3">
-            <input
-              type="text"
-              value={newKeyword}
-              onChange={(e) => setNewKeyword(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && addKeyword()}
-              placeholder="새 키워드 입력"
-              className="flex-1 px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-[#0a0f0a] focus:ring-1 focus:ring-emerald-500 outline-none"
-            />
-            <button onClick={addKeyword} className="flex items-center gap-1 px-3 py-2 text-sm bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors">
-              <Plus className="w-4 h-4" /> 추가
-            </button>
-          </div>
-          {customKeywords.length > 0 ? (
-            <div className="flex flex-wrap gap-2">
-              {customKeywords.map((kw) => (
-                <span key={kw} className="flex items-center gap-1 text-sm px-3 py-1 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400 rounded-full">
-                  {kw}
-                  <button onClick={() => removeKeyword(kw)} className="hover:text-red-500 transition-colors">
-                    <X className="w-3 h-3" />
-                  </button>
-                </span>
-              ))}
-            </div>
-          ) : (
-            <p className="text-xs text-gray-400">추가된 키워드가 없습니다. 기본 키워드만 사용됩니다.</p>
-          )}
-        </div>
+        {/* Account (magic link) */}
+        <AccountSettings />
+
+        {/* Keyword Profile */}
+        <KeywordProfileEditor />
+
+        {/* Competitor Registry (DART) */}
+        <CompetitorRegistryEditor />
+
+        {/* World map care layers (CSV/GeoJSON registries) */}
+        <CareRegistryImporter />
+
+        {/* Learned relevance (exclusions vs. bookmarks/ratings/memos) */}
+        <RelevanceModelPanel />
 
         {/* Alert Settings */}
         <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
@@ -99,21 +90,9 @@ export default function Settings() {
             {saved === 'alert' && <span className="text-xs text-emerald-500 flex items-center gap-1"><Check className="w-3 h-3" /> 저장됨</span>}
           </div>
           <div className="space-y-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="font-medium text-gray-900 dark:text-gray-200">Telegram 알림</p>
-                <p className="text-sm text-gray-500">Opportunity Score 변동 시 텔레그램으로 알림을 보냅니다.</p>
-              </div>
-              <button
-                onClick={() => { setTelegramEnabled(!telegramEnabled); flash('alert'); }}
-                className={`relative w-12 h-6 rounded-full transition-colors ${telegramEnabled ? 'bg-emerald-500' : 'bg-gray-300 dark:bg-gray-700'}`}
-              >
-                <div className={`absolute top-0.5 w-5 h-5 bg-white rounded-full shadow transition-transform ${telegramEnabled ? 'translate-x-6' : 'translate-x-0.5'}`} />
-              </button>
-            </div>
             <div>
               <div className="flex items-center justify-between mb-2">
-                <p className="text-sm text-gray-700 dark:text-gray-300">알림 임계값 (Opportunity Score)</p>
+                <p className="text-sm text-gray-700 dark:text-gray-300">알림 임계값 (Opportunity Score · 텔레그램 봇과 공유)</p>
                 <span className="text-sm font-bold text-gray-900 dark:text-white">{alertThreshold}</span>
               </div>
               <input
@@ -133,6 +112,13 @@ export default function Settings() {
           </div>
         </div>
 
+        {/* Notification Channels */}
+        <NotificationChannels />
+
+        {/* Scoring Profiles & Backtest */}
+        <ScoringProfileEditor selectedId={candidateProfile.id} onSelect={setProfileId} />
+        <ScoreBacktest profile={candidateProfile} />
+
         {/* Learning Goals */}
         <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
           <div className="flex items-center justify-between mb-4">
@@ -188,10 +174,39 @@ export default function Settings() {
 
         {/* Connections */}
         <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
-          <h2 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2 mb-4">
-            <Database className="w-5 h-5 text-gray-500" /> Connections
-          </h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white flex items-center gap-2">
+              <Database className="w-5 h-5 text-gray-500" /> Connections
+            </h2>
+            {saved === 'connections' && <span className="text-xs text-emerald-500 flex items-center gap-1"><Check className="w-3 h-3" /> 저장됨</span>}
+          </div>
           <div className="space-y-4">
+            <div>
+              <p className="font-medium text-gray-900 dark:text-gray-200 flex items-center gap-1">
+                <KeyRound className="w-4 h-4 text-gray-400" /> CareRadar 서버 시크릿
+              </p>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+                키워드 프로필·경쟁사 목록은 모든 사용자의 점수와 알림에 쓰이므로 서버의 CARE_SERVER_SECRET이 있어야 저장됩니다.
+                이 브라우저에만 보관됩니다.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  value={serverSecret}
+                  onChange={(e) => setServerSecret(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && saveServerSecret()}
+                  placeholder="CARE_SERVER_SECRET"
+                  autoComplete="off"
+                  className="flex-1 px-3 py-2 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-[#0a0f0a] focus:ring-1 focus:ring-emerald-500 outline-none"
+                />
+                <button
+                  onClick={saveServerSecret}
+                  className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-[#1a1f1a] dark:hover:bg-[#2a2f2a] text-gray-700 dark:text-gray-300 rounded-md text-sm transition-colors"
+                >
+                  저장
+                </button>
+              </div>
+            </div>
             <div className="flex items-center justify-between">
               <div>
                 <p className="font-medium text-gray-900 dark:text-gray-200">Supabase Connection</p>
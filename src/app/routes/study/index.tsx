@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Link } from 'wouter';
 import FinancialAnalysis from '../../../components/study/FinancialAnalysis';
 import PricingLab from '../../../components/study/PricingLab';
@@ -9,11 +9,14 @@ import RegulationAnalysis from '../../../components/study/RegulationAnalysis';
 import CompetitorBenchmark from '../../../components/study/CompetitorBenchmark';
 import StreakCalendar from '../../../components/study/StreakCalendar';
 import CompetencyRadar from '../../../components/study/CompetencyRadar';
+import CompetencyTrajectory from '../../../components/study/CompetencyTrajectory';
+import CumulativeFeedbackCard from '../../../components/study/CumulativeFeedbackCard';
 import LearningTimeline from '../../../components/study/LearningTimeline';
 import { useStudyStore } from '../../../stores/studyStore';
 import { getTodaySchedule } from '../../../services/dailyBriefSchedule';
 import WeeklyReview from '../../../components/study/WeeklyReview';
 import { exportSROIToCSV } from '../../../services/exportService';
+import { syncBotActions } from '../../../services/botInbox';
 
 type StudyTab = 'home' | 'financial' | 'pricing' | 'sroi' | 'pitch' | 'weekly' | 'custom' | 'regulation' | 'benchmark';
 
@@ -29,6 +32,15 @@ export default function StudyDashboard() {
     return 'home';
   });
 
+  // 텔레그램 "📚 학습" 버튼으로 준비된 세션을 열어 줌
+  useEffect(() => {
+    void syncBotActions().then((applied) => {
+      if (applied.some((a) => a.kind === 'study') && useStudyStore.getState().currentSession?.type === 'custom') {
+        setActiveTab('custom');
+      }
+    });
+  }, []);
+
   const openTool = (tab: StudyTab) => {
     if (tab !== 'home' && tab !== 'weekly') {
       startSession(tab);
@@ -170,7 +182,7 @@ export default function StudyDashboard() {
               alert('내보내기 실패: ' + (e instanceof Error ? e.message : '알 수 없는 오류'));
             }
           }}
-          title="완료한 SROI 세션을 CSV로 다운로드합니다"
+          title="완료한 SROI 계산(성과·프록시·조정 비율·현재가치)을 CSV로 다운로드합니다"
           className="flex flex-col items-center p-6 bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 hover:border-blue-500 dark:hover:border-blue-500 rounded-xl transition-all shadow-sm group"
         >
           <div className="w-10 h-10 bg-blue-50 dark:bg-blue-900/30 rounded-full flex items-center justify-center mb-2 group-hover:scale-110 transition-transform">
@@ -235,6 +247,14 @@ export default function StudyDashboard() {
           <h3 className="text-sm font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-4">학습 이력</h3>
           <LearningTimeline />
         </div>
+        <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
+          <h3 className="text-sm font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-4">역량 추이 (12주)</h3>
+          <CompetencyTrajectory />
+        </div>
+        <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm">
+          <h3 className="text-sm font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-4">누적 피드백</h3>
+          <CumulativeFeedbackCard />
+        </div>
       </div>
 
       <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-6 shadow-sm flex flex-col items-center justify-center">
@@ -0,0 +1,120 @@
+import { useMemo, useState } from 'react';
+import { DISCLOSURE_TYPE_LABELS, type DartDisclosure, type DisclosureType } from '../../../../services/dartApi';
+
+const TYPE_STYLES: Record<DisclosureType, { badge: string; dot: string }> = {
+  capital_raise: { badge: 'bg-[#edfaf6] text-[#2ec4a9]', dot: 'bg-[#2ec4a9]' },
+  major_contract: { badge: 'bg-indigo-50 text-indigo-500', dot: 'bg-indigo-400' },
+  m_and_a: { badge: 'bg-rose-50 text-rose-500', dot: 'bg-rose-400' },
+  executive_change: { badge: 'bg-orange-50 text-orange-500', dot: 'bg-orange-400' },
+  earnings: { badge: 'bg-yellow-50 text-yellow-600', dot: 'bg-yellow-400' },
+  other: { badge: 'bg-gray-50 text-gray-400', dot: 'bg-gray-300' },
+};
+
+const formatFiledAt = (filedAt: string): string => {
+  const [, m, d] = filedAt.split('-');
+  return m && d ? `${Number(m)}/${Number(d)}` : filedAt;
+};
+
+interface CompetitorGroup {
+  corpCode: string;
+  corpName: string;
+  events: DartDisclosure[];
+  signalCount: number;
+}
+
+interface CompetitorTimelineProps {
+  disclosures: DartDisclosure[];
+  configured: boolean;
+}
+
+/**
+ * 경쟁사별 DART 공시 타임라인 — 유형 배지, 'other' 외 공시는 S3 점수에 반영됨
+ */
+const CompetitorTimeline = ({ disclosures, configured }: CompetitorTimelineProps) => {
+  const [showOther, setShowOther] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const groups = useMemo<CompetitorGroup[]>(() => {
+    const byCorp = new Map<string, CompetitorGroup>();
+    for (const d of disclosures) {
+      if (!showOther && d.filingType === 'other') continue;
+      const group = byCorp.get(d.corpCode) ?? { corpCode: d.corpCode, corpName: d.corpName, events: [], signalCount: 0 };
+      group.events.push(d);
+      if (d.filingType !== 'other') group.signalCount += 1;
+      byCorp.set(d.corpCode, group);
+    }
+    // 최근 공시가 있는 경쟁사 먼저
+    return [...byCorp.values()].sort((a, b) => (b.events[0]?.filedAt ?? '').localeCompare(a.events[0]?.filedAt ?? ''));
+  }, [disclosures, showOther]);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 p-5">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <span className="w-5 h-5 flex items-center justify-center">
+            <i className="ri-building-2-line text-gray-600 text-base" />
+          </span>
+          <span className="text-xs font-bold text-gray-700 tracking-wide uppercase">경쟁사 공시 타임라인</span>
+        </div>
+        <button
+          onClick={() => setShowOther((v) => !v)}
+          className={`text-[11px] cursor-pointer transition-colors ${showOther ? 'text-[#2ec4a9]' : 'text-gray-400 hover:text-gray-500'}`}
+        >
+          기타 공시 {showOther ? '숨기기' : '포함'}
+        </button>
+      </div>
+
+      {!configured ? (
+        <p className="py-4 text-center text-xs text-gray-400">DART 연동이 설정되지 않았습니다 (서버 DART_API_KEY)</p>
+      ) : groups.length === 0 ? (
+        <p className="py-4 text-center text-xs text-gray-400">최근 30일 경쟁사 주요 공시가 없습니다</p>
+      ) : (
+        <div className="space-y-3">
+          {groups.map((group) => {
+            const isOpen = expanded === group.corpCode;
+            const events = isOpen ? group.events : group.events.slice(0, 3);
+            return (
+              <div key={group.corpCode}>
+                <div className="flex items-center justify-between mb-1.5">
+                  <span className="text-xs font-semibold text-gray-700">{group.corpName}</span>
+                  <span className="text-[11px] text-gray-400">S3 반영 {group.signalCount}건</span>
+                </div>
+                <ol className="relative border-l border-gray-100 ml-1.5 space-y-2">
+                  {events.map((event) => (
+                    <li key={event.receiptNo} className="pl-3 relative">
+                      <span className={`absolute -left-[4.5px] top-1.5 w-2 h-2 rounded-full ${TYPE_STYLES[event.filingType].dot}`} />
+                      <a
+                        href={event.link}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-start gap-2 group"
+                      >
+                        <span className="shrink-0 text-[10px] text-gray-400 w-8 pt-0.5">{formatFiledAt(event.filedAt)}</span>
+                        <span className={`shrink-0 px-1.5 py-0.5 text-[10px] font-bold rounded ${TYPE_STYLES[event.filingType].badge}`}>
+                          {DISCLOSURE_TYPE_LABELS[event.filingType]}
+                        </span>
+                        <span className="text-[11px] sm:text-xs text-gray-600 leading-snug line-clamp-2 group-hover:text-[#2ec4a9] transition-colors">
+                          {event.reportName}
+                        </span>
+                      </a>
+                    </li>
+                  ))}
+                </ol>
+                {group.events.length > 3 && (
+                  <button
+                    onClick={() => setExpanded(isOpen ? null : group.corpCode)}
+                    className="mt-1 ml-4 text-[11px] text-gray-400 hover:text-[#2ec4a9] cursor-pointer transition-colors"
+                  >
+                    {isOpen ? '접기' : `${group.events.length - 3}건 더 보기`}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompetitorTimeline;
@@ -1,9 +1,10 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
-import { newsArticles, categoryFilters, NewsArticle } from '../../../../mocks/newsData';
+import { TRACK_CATEGORY_LABELS, type NewsArticle } from '../../../../services/trackingFeed';
 
 type VisionStatFilter = 'all' | 'high-impact' | 'procurement';
 
 const typeColorMap: Record<string, string> = {
+  caretech: 'bg-sky-50 text-sky-600',
   policy: 'bg-teal-50 text-teal-600',
   investment: 'bg-amber-50 text-amber-600',
   competitor: 'bg-orange-50 text-orange-600',
@@ -79,16 +80,22 @@ const HighlightText = ({ text, query }: { text: string; query: string }) => {
   );
 };
 
+const pubTime = (a: NewsArticle) => new Date(a.pubDate).getTime() || 0;
+
 interface LiveNewsFeedProps {
+  articles: NewsArticle[];
+  isLoading?: boolean;
   onArticleClick: (article: NewsArticle) => void;
-  selectedArticleId: number | null;
-  bookmarked: number[];
-  onToggleBookmark: (id: number) => void;
+  selectedArticleId: string | null;
+  bookmarked: string[];
+  onToggleBookmark: (id: string) => void;
   visionFilter?: VisionStatFilter | null;
   onClearVisionFilter?: () => void;
 }
 
 const LiveNewsFeed = ({
+  articles,
+  isLoading = false,
   onArticleClick,
   selectedArticleId,
   bookmarked,
@@ -125,24 +132,24 @@ const LiveNewsFeed = ({
       }
     };
 
-    newsArticles.forEach((a) => {
+    articles.forEach((a) => {
       a.analysis.relatedKeywords.forEach((kw) => add(kw, '키워드'));
     });
-    newsArticles.forEach((a) => {
+    articles.forEach((a) => {
       a.tags.forEach((tag) => {
         const clean = tag.replace(/^\[.*?\]\s*/, '').trim();
         if (clean) add(clean, '태그');
       });
     });
-    newsArticles.forEach((a) => add(a.source, '출처'));
+    articles.forEach((a) => add(a.source, '출처'));
 
     return items;
-  }, []);
+  }, [articles]);
 
   // ── Hot tags (shown when focused with no query) ───────────────────────────
   const hotTags = useMemo(() => {
     const freq: Record<string, number> = {};
-    newsArticles.forEach((a) => {
+    articles.forEach((a) => {
       a.analysis.relatedKeywords.forEach((kw) => {
         freq[kw] = (freq[kw] || 0) + 1;
       });
@@ -151,7 +158,17 @@ const LiveNewsFeed = ({
       .sort((a, b) => b[1] - a[1])
       .slice(0, 8)
       .map(([text]) => text);
-  }, []);
+  }, [articles]);
+
+  const categoryFilters = useMemo(
+    () =>
+      (Object.entries(TRACK_CATEGORY_LABELS) as [NewsArticle['track'], string][]).map(([key, label]) => ({
+        key,
+        label,
+        count: articles.filter((a) => a.track === key).length,
+      })),
+    [articles]
+  );
 
   // ── Filtered suggestions ──────────────────────────────────────────────────
   const suggestions = useMemo<SuggestionItem[]>(() => {
@@ -197,7 +214,7 @@ const LiveNewsFeed = ({
 
   // ── Filtered articles ─────────────────────────────────────────────────────
   const filteredArticles = useMemo(() => {
-    return newsArticles.filter((article) => {
+    const matched = articles.filter((article) => {
       const matchesFilter = !activeFilter || article.category === activeFilter;
       const matchesImpact = !impactOnly || article.analysis.impactLevel === 'high';
       const matchesSearch =
@@ -209,7 +226,10 @@ const LiveNewsFeed = ({
         );
       return matchesFilter && matchesImpact && matchesSearch;
     });
-  }, [activeFilter, impactOnly, searchQuery]);
+    if (sortBy === '최신순') return [...matched].sort((a, b) => pubTime(b) - pubTime(a));
+    if (sortBy === '오래된순') return [...matched].sort((a, b) => pubTime(a) - pubTime(b));
+    return [...matched].sort((a, b) => b.analysis.impactScore - a.analysis.impactScore);
+  }, [articles, activeFilter, impactOnly, searchQuery, sortBy]);
 
   const hasVisionFilter = visionFilter !== null && visionFilter !== undefined;
   const showBanner = hasVisionFilter && visionFilter !== 'all';
@@ -270,7 +290,7 @@ const LiveNewsFeed = ({
           </span>
           <span className="text-sm font-semibold text-gray-800 whitespace-nowrap">LIVE NEWS FEED</span>
           <span className="text-sm text-gray-400 font-normal hidden sm:inline">
-            ({filteredArticles.length}/{newsArticles.length})
+            ({filteredArticles.length}/{articles.length})
           </span>
         </div>
         <div className="flex items-center gap-1.5 shrink-0">
@@ -411,8 +431,12 @@ const LiveNewsFeed = ({
 
       {/* Articles */}
       <div className="divide-y divide-gray-50">
-        {filteredArticles.length === 0 ? (
-          <div className="px-5 py-10 text-center text-gray-400 text-sm">검색 결과가 없습니다.</div>
+        {isLoading ? (
+          <div className="px-5 py-10 text-center text-gray-400 text-sm">뉴스를 불러오는 중...</div>
+        ) : filteredArticles.length === 0 ? (
+          <div className="px-5 py-10 text-center text-gray-400 text-sm">
+            {articles.length === 0 ? '수집된 기사가 없습니다.' : '검색 결과가 없습니다.'}
+          </div>
         ) : (
           filteredArticles.map((article) => (
             <div
@@ -1,20 +1,15 @@
 import { useState, useCallback, useMemo } from 'react';
-import { marketPulseTracks, newsArticles, NewsArticle } from '../../../../mocks/newsData';
+import type { NewsArticle, TrackCount } from '../../../../services/trackingFeed';
 import MetricPopup from './MetricPopup';
 
 interface MarketPulseProps {
+  tracks: TrackCount[];
+  articles: NewsArticle[];
   onArticleClick?: (article: NewsArticle) => void;
 }
 
-const trackArticleMap: Record<string, string[]> = {
-  '케어테크 뉴스': ['cartech'],
-  '투자/펀딩': ['investment'],
-  '경쟁사': ['competitor'],
-  '정책/조달': ['policy', 'procurement'],
-};
-
-const MarketPulse = ({ onArticleClick }: MarketPulseProps) => {
-  const total = marketPulseTracks.reduce((sum, t) => sum + t.count, 0);
+const MarketPulse = ({ tracks, articles, onArticleClick }: MarketPulseProps) => {
+  const total = tracks.reduce((sum, t) => sum + t.count, 0);
   const colors = ['bg-[#2ec4a9]', 'bg-orange-400', 'bg-indigo-400', 'bg-rose-400'];
   const textColors = ['text-[#2ec4a9]', 'text-orange-400', 'text-indigo-400', 'text-rose-400'];
 
@@ -29,20 +24,16 @@ const MarketPulse = ({ onArticleClick }: MarketPulseProps) => {
 
   const articlesByTrack = useMemo(() => {
     const map: Record<string, NewsArticle[]> = {};
-    marketPulseTracks.forEach((track) => {
-      const types = trackArticleMap[track.label] ?? [];
-      map[track.label] = [...newsArticles]
-        .filter((a) => {
-          if (types.includes('cartech')) return a.category === '케어테크 뉴스';
-          return types.includes(a.type);
-        })
+    tracks.forEach((track) => {
+      map[track.label] = articles
+        .filter((a) => a.track === track.key)
         .sort((a, b) => b.analysis.impactScore - a.analysis.impactScore);
     });
     return map;
-  }, []);
+  }, [tracks, articles]);
 
   const handleCountClick = useCallback(
-    (e: React.MouseEvent, track: { label: string; count: number }) => {
+    (e: React.MouseEvent, track: TrackCount) => {
       e.stopPropagation();
       const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
       setPopup({
@@ -62,8 +53,11 @@ const MarketPulse = ({ onArticleClick }: MarketPulseProps) => {
         <span className="text-xs text-gray-400">총 {total}건</span>
       </div>
       <div className="space-y-4">
-        {marketPulseTracks.map((track, i) => {
-          const pct = Math.round((track.count / total) * 100);
+        {tracks.length === 0 && (
+          <p className="py-4 text-center text-xs text-gray-400">수집된 기사가 없습니다</p>
+        )}
+        {tracks.map((track, i) => {
+          const pct = total > 0 ? Math.round((track.count / total) * 100) : 0;
           return (
             <div key={track.label}>
               <div className="flex items-center justify-between mb-1.5">
@@ -1,5 +1,5 @@
 import { useEffect, useRef, useState } from 'react';
-import { NewsArticle } from '../../../../mocks/newsData';
+import type { NewsArticle } from '../../../../services/trackingFeed';
 
 interface MetricPopupProps {
   anchorRect: DOMRect;
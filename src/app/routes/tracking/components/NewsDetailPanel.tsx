@@ -1,14 +1,15 @@
 import { useEffect, useRef } from 'react';
-import { NewsArticle } from '../../../../mocks/newsData';
+import type { NewsArticle } from '../../../../services/trackingFeed';
 
 interface NewsDetailPanelProps {
   article: NewsArticle | null;
   onClose: () => void;
   bookmarked: boolean;
-  onToggleBookmark: (id: number) => void;
+  onToggleBookmark: (id: string) => void;
 }
 
 const typeColorMap: Record<string, { bg: string; text: string; label: string }> = {
+  caretech: { bg: 'bg-sky-50', text: 'text-sky-600', label: '케어테크' },
   policy: { bg: 'bg-blue-50', text: 'text-blue-600', label: '정책/조달' },
   investment: { bg: 'bg-purple-50', text: 'text-purple-600', label: '투자/펀딩' },
   competitor: { bg: 'bg-orange-50', text: 'text-orange-600', label: '경쟁사' },
@@ -265,12 +266,19 @@ const NewsDetailPanel = ({ article, onClose, bookmarked, onToggleBookmark }: New
                 </span>
                 Study로 보내기
               </button>
-              <button className="w-full sm:w-auto flex items-center justify-center gap-2 px-4 py-3 border border-gray-200 text-gray-600 text-sm font-medium rounded-xl hover:bg-gray-50 transition-colors cursor-pointer whitespace-nowrap">
-                <span className="w-4 h-4 flex items-center justify-center">
-                  <i className="ri-share-line text-sm" />
-                </span>
-                공유
-              </button>
+              {article.link && (
+                <a
+                  href={article.link}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="w-full sm:w-auto flex items-center justify-center gap-2 px-4 py-3 border border-gray-200 text-gray-600 text-sm font-medium rounded-xl hover:bg-gray-50 transition-colors cursor-pointer whitespace-nowrap"
+                >
+                  <span className="w-4 h-4 flex items-center justify-center">
+                    <i className="ri-external-link-line text-sm" />
+                  </span>
+                  원문 보기
+                </a>
+              )}
             </div>
           </>
         )}
@@ -1,41 +1,69 @@
 import { useState, useMemo, useCallback } from 'react';
-import { newsArticles, NewsArticle } from '../../../../mocks/newsData';
+import type { NewsArticle } from '../../../../services/trackingFeed';
+import { useTrackingStore, type ScoreHistoryEntry, type OpportunityScoreState } from '../../../../stores/trackingStore';
 import MetricPopup from './MetricPopup';
 
-// ── Mock trend data ──────────────────────────────────────────────────────────
-const trendData = {
-  today: {
-    labels: ['09시', '11시', '13시', '15시', '17시', '19시', '지금'],
-    overall:  [61, 64, 67, 63, 70, 72, 74],
-    policy:   [58, 62, 65, 60, 68, 70, 72],
-    invest:   [65, 67, 70, 66, 73, 74, 75],
-    compete:  [60, 62, 66, 62, 69, 71, 74],
-    prevLabel: '어제',
-    prevOverall: 71,
-  },
-  week: {
-    labels: ['월', '화', '수', '목', '금', '토', '오늘'],
-    overall:  [55, 58, 62, 65, 68, 71, 74],
-    policy:   [52, 56, 60, 63, 67, 70, 72],
-    invest:   [60, 62, 65, 68, 71, 73, 75],
-    compete:  [53, 57, 62, 66, 67, 70, 74],
-    prevLabel: '지난 주',
-    prevOverall: 55,
-  },
-  month: {
-    labels: ['1주', '2주', '3주', '4주', '5주', '6주', '이번'],
-    overall:  [42, 48, 53, 58, 62, 68, 74],
-    policy:   [40, 45, 51, 56, 61, 67, 72],
-    invest:   [45, 51, 55, 60, 64, 70, 75],
-    compete:  [41, 47, 53, 59, 60, 67, 74],
-    prevLabel: '지난 달',
-    prevOverall: 42,
-  },
-};
-
 type Period = 'today' | 'week' | 'month';
 const PERIOD_LABELS: Record<Period, string> = { today: '오늘', week: '주간', month: '월간' };
 
+// ── Trend from score history ─────────────────────────────────────────────────
+interface TrendSeries {
+  labels: string[];
+  overall: number[];
+  policy: number[];
+  invest: number[];
+  compete: number[];
+  prevLabel: string;
+  prevOverall: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const PERIOD_SPAN: Record<Period, { spanMs: number; prevLabel: string; nowLabel: string }> = {
+  today: { spanMs: 24 * HOUR_MS, prevLabel: '어제', nowLabel: '지금' },
+  week: { spanMs: 7 * 24 * HOUR_MS, prevLabel: '지난 주', nowLabel: '오늘' },
+  month: { spanMs: 30 * 24 * HOUR_MS, prevLabel: '지난 달', nowLabel: '이번' },
+};
+const BUCKETS = 7;
+const WEEKDAYS = ['일', '월', '화', '수', '목', '금', '토'];
+
+const bucketLabel = (period: Period, d: Date): string => {
+  if (period === 'today') return `${String(d.getHours()).padStart(2, '0')}시`;
+  if (period === 'week') return WEEKDAYS[d.getDay()] ?? '';
+  return `${d.getMonth() + 1}/${d.getDate()}`;
+};
+
+/**
+ * 점수 히스토리를 기간별 7개 구간으로 나눔 — 각 구간은 마지막 기록값, 빈 구간은 직전 값 유지
+ */
+const buildTrend = (history: ScoreHistoryEntry[], current: OpportunityScoreState, period: Period, now: number): TrendSeries => {
+  const { spanMs, prevLabel, nowLabel } = PERIOD_SPAN[period];
+  const start = now - spanMs;
+  const bucketMs = spanMs / BUCKETS;
+  const sorted = [...history].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const before = sorted.filter((h) => new Date(h.timestamp).getTime() < start).pop();
+
+  let carry: Omit<ScoreHistoryEntry, 'timestamp'> = before ?? sorted[0] ?? current;
+  const series: TrendSeries = { labels: [], overall: [], policy: [], invest: [], compete: [], prevLabel, prevOverall: carry.total };
+
+  for (let i = 0; i < BUCKETS; i++) {
+    const bucketEnd = start + bucketMs * (i + 1);
+    const inBucket = sorted.filter((h) => {
+      const t = new Date(h.timestamp).getTime();
+      return t >= bucketEnd - bucketMs && t < bucketEnd;
+    });
+    const last = inBucket[inBucket.length - 1];
+    if (last) carry = last;
+    const isLast = i === BUCKETS - 1;
+    const point = isLast ? current : carry;
+    series.labels.push(isLast ? nowLabel : bucketLabel(period, new Date(bucketEnd)));
+    series.overall.push(point.total);
+    series.policy.push(point.s1);
+    series.invest.push(point.s2);
+    series.compete.push(point.s3);
+  }
+  return series;
+};
+
 // ── Sparkline ────────────────────────────────────────────────────────────────
 interface SparklineProps {
   data: number[];
@@ -172,10 +200,13 @@ const ActionAlert = ({ article, rank, onClick }: ActionAlertProps) => {
 
 // ── Main Component ────────────────────────────────────────────────────────────
 interface OpportunityScoreProps {
+  articles: NewsArticle[];
   onArticleClick?: (article: NewsArticle) => void;
 }
 
-const OpportunityScore = ({ onArticleClick }: OpportunityScoreProps) => {
+const OpportunityScore = ({ articles, onArticleClick }: OpportunityScoreProps) => {
+  const scores = useTrackingStore((s) => s.opportunityScores);
+  const scoreHistory = useTrackingStore((s) => s.scoreHistory);
   const [period, setPeriod] = useState<Period>('today');
   const [showActions, setShowActions] = useState(false);
   const [popup, setPopup] = useState<{
@@ -196,7 +227,7 @@ const OpportunityScore = ({ onArticleClick }: OpportunityScoreProps) => {
     []
   );
 
-  const trend = trendData[period];
+  const trend = useMemo(() => buildTrend(scoreHistory, scores, period, Date.now()), [scoreHistory, scores, period]);
   const currentOverall = trend.overall[trend.overall.length - 1] ?? 0;
   const deltaOverall = currentOverall - trend.prevOverall;
   const deltaStr = deltaOverall > 0 ? `+${deltaOverall}` : `${deltaOverall}`;
@@ -209,21 +240,21 @@ const OpportunityScore = ({ onArticleClick }: OpportunityScoreProps) => {
   }, [currentOverall]);
 
   const topActionArticles = useMemo(
-    () => [...newsArticles].sort((a, b) => b.analysis.impactScore - a.analysis.impactScore).slice(0, 3),
-    []
+    () => [...articles].sort((a, b) => b.analysis.impactScore - a.analysis.impactScore).slice(0, 3),
+    [articles]
   );
 
   const policyArticlesSorted = useMemo(
-    () => [...newsArticles].filter((a) => a.type === 'policy').sort((a, b) => b.analysis.impactScore - a.analysis.impactScore),
-    []
+    () => articles.filter((a) => a.track === 'policy').sort((a, b) => b.analysis.impactScore - a.analysis.impactScore),
+    [articles]
   );
   const investArticlesSorted = useMemo(
-    () => [...newsArticles].filter((a) => a.type === 'investment').sort((a, b) => b.analysis.impactScore - a.analysis.impactScore),
-    []
+    () => articles.filter((a) => a.track === 'investment').sort((a, b) => b.analysis.impactScore - a.analysis.impactScore),
+    [articles]
   );
   const competeArticlesSorted = useMemo(
-    () => [...newsArticles].filter((a) => a.type === 'competitor').sort((a, b) => b.analysis.impactScore - a.analysis.impactScore),
-    []
+    () => articles.filter((a) => a.track === 'competitor').sort((a, b) => b.analysis.impactScore - a.analysis.impactScore),
+    [articles]
   );
 
   const radius = 40;
@@ -324,7 +355,7 @@ const OpportunityScore = ({ onArticleClick }: OpportunityScoreProps) => {
           prevValue={prevPolicy}
           color="text-[#2ec4a9]"
           bgColor="bg-[#2ec4a9]"
-          description={`긍정 정책 ${newsArticles.filter(a => a.type === 'policy' && a.analysis.sentiment === 'positive').length}건 감지`}
+          description={`긍정 정책 ${policyArticlesSorted.filter(a => a.analysis.sentiment === 'positive').length}건 감지`}
           sparkData={trend.policy}
           sparkColor="#2ec4a9"
           onValueClick={(e) =>
@@ -338,7 +369,7 @@ const OpportunityScore = ({ onArticleClick }: OpportunityScoreProps) => {
           prevValue={prevInvest}
           color="text-orange-400"
           bgColor="bg-orange-400"
-          description={`펀딩 뉴스 ${newsArticles.filter(a => a.type === 'investment').length}건 분석`}
+          description={`펀딩 뉴스 ${investArticlesSorted.length}건 분석`}
           sparkData={trend.invest}
           sparkColor="#fb923c"
           onValueClick={(e) =>
@@ -352,7 +383,7 @@ const OpportunityScore = ({ onArticleClick }: OpportunityScoreProps) => {
           prevValue={prevCompete}
           color="text-indigo-400"
           bgColor="bg-indigo-400"
-          description={`경쟁사 위협 ${newsArticles.filter(a => a.type === 'competitor').length}건 — 역지수`}
+          description={`경쟁사 위협 ${competeArticlesSorted.length}건 — 역지수`}
           sparkData={trend.compete}
           sparkColor="#818cf8"
           onValueClick={(e) =>
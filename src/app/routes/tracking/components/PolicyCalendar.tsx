@@ -0,0 +1,163 @@
+import { useMemo, useState } from 'react';
+import {
+  POLICY_EVENT_KIND_LABELS,
+  countsTowardS1,
+  daysUntil,
+  isOngoing,
+  toICalendar,
+  type PolicyEvent,
+  type PolicyEventKind,
+} from '../../../../services/policyCalendar';
+
+const KIND_STYLES: Record<PolicyEventKind, { badge: string; dot: string }> = {
+  fiscal: { badge: 'bg-[#edfaf6] text-[#2ec4a9]', dot: 'bg-[#2ec4a9]' },
+  law: { badge: 'bg-indigo-50 text-indigo-500', dot: 'bg-indigo-400' },
+  press: { badge: 'bg-orange-50 text-orange-500', dot: 'bg-orange-400' },
+};
+
+const KIND_FILTERS: (PolicyEventKind | 'all')[] = ['all', 'fiscal', 'law', 'press'];
+
+const COLLAPSED_COUNT = 6;
+
+const formatDay = (date: string): string => {
+  const [, m, d] = date.split('-');
+  return m && d ? `${Number(m)}/${Number(d)}` : date;
+};
+
+const formatRange = (event: PolicyEvent): string =>
+  event.endDate ? `${formatDay(event.date)}–${formatDay(event.endDate)}` : formatDay(event.date);
+
+function dDayLabel(event: PolicyEvent): string {
+  if (isOngoing(event)) return event.endDate ? '진행 중' : '오늘';
+  const days = daysUntil(event);
+  return days > 0 ? `D-${days}` : '지남';
+}
+
+function downloadICalendar(events: PolicyEvent[]) {
+  const blob = new Blob([toICalendar(events)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `careradar-policy-calendar-${new Date().toISOString().slice(0, 10)}.ics`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+interface PolicyCalendarProps {
+  events: PolicyEvent[];
+}
+
+/**
+ * 정책 캘린더 — 예산 사이클·AI 법령·보도자료 일정, 점 표시가 있는 일정은 S1 점수에 반영 중
+ * 다가오는 일정을 먼저, 지난 30일 일정은 토글로. iCal 내보내기는 지금 보이는 종류 전체(지난 일정 포함)
+ */
+const PolicyCalendar = ({ events }: PolicyCalendarProps) => {
+  const [kind, setKind] = useState<PolicyEventKind | 'all'>('all');
+  const [showPast, setShowPast] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+
+  const filtered = useMemo(() => events.filter((e) => kind === 'all' || e.kind === kind), [events, kind]);
+  const visible = useMemo(
+    () => filtered.filter((e) => showPast || isOngoing(e) || daysUntil(e) >= 0),
+    [filtered, showPast],
+  );
+  const scoredCount = useMemo(() => events.filter((e) => countsTowardS1(e)).length, [events]);
+  const shown = expanded ? visible : visible.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 p-5">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <span className="w-5 h-5 flex items-center justify-center">
+            <i className="ri-calendar-event-line text-gray-600 text-base" />
+          </span>
+          <span className="text-xs font-bold text-gray-700 tracking-wide uppercase">정책 캘린더</span>
+        </div>
+        <button
+          onClick={() => downloadICalendar(filtered)}
+          disabled={filtered.length === 0}
+          className="flex items-center gap-1 text-[11px] text-gray-400 hover:text-[#2ec4a9] disabled:opacity-40 cursor-pointer transition-colors"
+          title="캘린더 앱에 가져올 수 있는 .ics 파일"
+        >
+          <i className="ri-download-2-line text-xs" />
+          iCal
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1 mb-3 flex-wrap">
+        {KIND_FILTERS.map((k) => (
+          <button
+            key={k}
+            onClick={() => setKind(k)}
+            className={`px-2 py-0.5 text-[11px] rounded-full cursor-pointer transition-colors ${
+              kind === k ? 'bg-[#2ec4a9] text-white' : 'bg-gray-50 text-gray-500 hover:bg-gray-100'
+            }`}
+          >
+            {k === 'all' ? '전체' : POLICY_EVENT_KIND_LABELS[k]}
+          </button>
+        ))}
+        <span className="ml-auto text-[11px] text-gray-400">S1 반영 {scoredCount}건</span>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="py-4 text-center text-xs text-gray-400">표시할 일정이 없습니다</p>
+      ) : (
+        <ol className="relative border-l border-gray-100 ml-1.5 space-y-2">
+          {shown.map((event) => {
+            const past = !isOngoing(event) && daysUntil(event) < 0;
+            const body = (
+              <>
+                <span className="shrink-0 text-[10px] text-gray-400 w-14 pt-0.5">{formatRange(event)}</span>
+                <span className="min-w-0 flex-1">
+                  <span className="flex items-center gap-1.5 mb-0.5">
+                    <span className={`shrink-0 px-1.5 py-0.5 text-[10px] font-bold rounded ${KIND_STYLES[event.kind].badge}`}>
+                      {POLICY_EVENT_KIND_LABELS[event.kind]}
+                    </span>
+                    <span className={`text-[10px] font-semibold ${past ? 'text-gray-300' : 'text-gray-500'}`}>{dDayLabel(event)}</span>
+                    {countsTowardS1(event) && <span className="w-1.5 h-1.5 rounded-full bg-[#2ec4a9]" title="S1 점수에 반영 중" />}
+                  </span>
+                  <span className="block text-[11px] sm:text-xs text-gray-600 leading-snug line-clamp-2 group-hover:text-[#2ec4a9] transition-colors">
+                    {event.title}
+                    {event.approximate && <span className="text-gray-400"> (예정)</span>}
+                  </span>
+                  <span className="block text-[10px] text-gray-400 line-clamp-1">{event.agency}</span>
+                </span>
+              </>
+            );
+            return (
+              <li key={event.id} className={`pl-3 relative ${past ? 'opacity-60' : ''}`} title={event.description}>
+                <span className={`absolute -left-[4.5px] top-1.5 w-2 h-2 rounded-full ${KIND_STYLES[event.kind].dot}`} />
+                {event.link ? (
+                  <a href={event.link} target="_blank" rel="noopener noreferrer" className="flex items-start gap-2 group">
+                    {body}
+                  </a>
+                ) : (
+                  <div className="flex items-start gap-2">{body}</div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <div className="flex items-center justify-between mt-2 ml-4">
+        {visible.length > COLLAPSED_COUNT ? (
+          <button
+            onClick={() => setExpanded((v) => !v)}
+            className="text-[11px] text-gray-400 hover:text-[#2ec4a9] cursor-pointer transition-colors"
+          >
+            {expanded ? '접기' : `${visible.length - COLLAPSED_COUNT}건 더 보기`}
+          </button>
+        ) : <span />}
+        <button
+          onClick={() => setShowPast((v) => !v)}
+          className={`text-[11px] cursor-pointer transition-colors ${showPast ? 'text-[#2ec4a9]' : 'text-gray-400 hover:text-gray-500'}`}
+        >
+          지난 일정 {showPast ? '숨기기' : '포함'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PolicyCalendar;
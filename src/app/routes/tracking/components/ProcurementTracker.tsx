@@ -1,16 +1,38 @@
 import { useState, useMemo, useCallback } from 'react';
-import { procurementItems, newsArticles, NewsArticle, ProcurementItem } from '../../../../mocks/newsData';
+import type { NewsArticle, ProcurementItem } from '../../../../services/trackingFeed';
+import type { ProcurementStatus } from '../../../../services/procurementTracker';
 import MetricPopup from './MetricPopup';
 
-const TODAY = new Date('2026-03-21');
-
-const getDDay = (deadline: string): number => {
+/** 마감일까지 남은 일수 — 마감일이 없는 공고(뉴스 기반)는 null */
+const getDDay = (deadline: string, today: Date): number | null => {
+  if (!deadline) return null;
   const end = new Date(deadline);
-  const diff = Math.ceil((end.getTime() - TODAY.getTime()) / (1000 * 60 * 60 * 24));
-  return diff;
+  if (Number.isNaN(end.getTime())) return null;
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+};
+
+interface BadgeConfig {
+  label: string;
+  badge: string;
+  bar: string;
+  ring: string;
+  dot: string;
+}
+
+const STATUS_CONFIG: Record<Exclude<ProcurementStatus, 'open'>, BadgeConfig> = {
+  closed: { label: '마감', badge: 'bg-gray-100 text-gray-400', bar: 'bg-gray-300', ring: 'border-gray-200', dot: 'bg-gray-300' },
+  awarded: { label: '낙찰', badge: 'bg-indigo-50 text-indigo-500', bar: 'bg-indigo-300', ring: 'border-indigo-100', dot: 'bg-indigo-400' },
+  cancelled: { label: '취소', badge: 'bg-gray-100 text-gray-400 line-through', bar: 'bg-gray-300', ring: 'border-gray-200', dot: 'bg-gray-300' },
 };
 
-const getDDayConfig = (dDay: number) => {
+const SOURCE_LABELS: Record<ProcurementItem['source'], string> = {
+  nara: '나라장터',
+  news: '뉴스',
+};
+
+const getDDayConfig = (dDay: number | null): BadgeConfig => {
+  if (dDay === null) return { label: '상시', badge: 'bg-gray-50 text-gray-500', bar: 'bg-gray-300', ring: 'border-gray-100', dot: 'bg-gray-300' };
   if (dDay < 0) return { label: '마감', badge: 'bg-gray-100 text-gray-400', bar: 'bg-gray-300', ring: 'border-gray-200', dot: 'bg-gray-300' };
   if (dDay <= 3) return { label: `D-${dDay}`, badge: 'bg-red-50 text-red-500', bar: 'bg-red-400', ring: 'border-red-200', dot: 'bg-red-400' };
   if (dDay <= 7) return { label: `D-${dDay}`, badge: 'bg-orange-50 text-orange-500', bar: 'bg-orange-400', ring: 'border-orange-200', dot: 'bg-orange-400' };
@@ -18,31 +40,39 @@ const getDDayConfig = (dDay: number) => {
   return { label: `D-${dDay}`, badge: 'bg-[#edfaf6] text-[#2ec4a9]', bar: 'bg-[#2ec4a9]', ring: 'border-[#b8f0e4]', dot: 'bg-[#2ec4a9]' };
 };
 
+/** 진행 중 공고는 D-Day, 마감·낙찰·취소 공고는 상태 배지 */
+const getCardConfig = (status: ProcurementStatus, dDay: number | null) =>
+  status === 'open' ? getDDayConfig(dDay) : STATUS_CONFIG[status];
+
+const isOpen = (item: ProcurementItem, dDay: number | null) => item.status === 'open' && (dDay === null || dDay >= 0);
+
 const formatDeadline = (deadline: string): string => {
+  if (!deadline) return '미정';
   const d = new Date(deadline);
   return `${d.getMonth() + 1}/${d.getDate()}`;
 };
 
 interface ProcurementCardProps {
   item: ProcurementItem;
-  dDay: number;
+  dDay: number | null;
   isNotified: boolean;
-  onToggleNotify: (id: number) => void;
+  onToggleNotify: (id: string) => void;
   onImpactClick: (e: React.MouseEvent) => void;
 }
 
 const ProcurementCard = ({ item, dDay, isNotified, onToggleNotify, onImpactClick }: ProcurementCardProps) => {
   const [expanded, setExpanded] = useState(false);
-  const config = getDDayConfig(dDay);
-  const isClosed = dDay < 0;
+  const config = getCardConfig(item.status, dDay);
+  const isClosed = !isOpen(item, dDay);
+  const isAwarded = item.status === 'awarded';
 
   const progressMax = 60;
-  const progressValue = Math.max(0, Math.min(progressMax - dDay, progressMax));
+  const progressValue = dDay === null ? 0 : Math.max(0, Math.min(progressMax - dDay, progressMax));
   const progressPct = Math.round((progressValue / progressMax) * 100);
 
   return (
     <div
-      className={`rounded-xl border transition-all duration-200 ${isClosed ? 'opacity-50' : ''} ${config.ring} bg-white mb-2`}
+      className={`rounded-xl border transition-all duration-200 ${isClosed && !isAwarded ? 'opacity-50' : ''} ${config.ring} bg-white mb-2`}
     >
       <button
         className="w-full text-left p-3 sm:p-3.5 cursor-pointer"
@@ -76,6 +106,13 @@ const ProcurementCard = ({ item, dDay, isNotified, onToggleNotify, onImpactClick
             </div>
 
             <div className="flex items-center gap-1.5 flex-wrap">
+              <span
+                className={`px-1.5 py-0.5 text-[10px] font-bold rounded ${
+                  item.source === 'nara' ? 'bg-[#edfaf6] text-[#2ec4a9]' : 'bg-gray-50 text-gray-400'
+                }`}
+              >
+                {SOURCE_LABELS[item.source]}
+              </span>
               <span className="text-[11px] sm:text-xs text-gray-400">{item.organization}</span>
               <span className="text-[11px] sm:text-xs text-gray-300">·</span>
               <span className="px-1.5 py-0.5 bg-gray-50 text-gray-500 text-[10px] sm:text-xs font-medium rounded-full">{item.category}</span>
@@ -83,7 +120,14 @@ const ProcurementCard = ({ item, dDay, isNotified, onToggleNotify, onImpactClick
               <span className="text-[11px] sm:text-xs font-bold text-gray-700">{item.budget}</span>
             </div>
 
-            {!isClosed && (
+            {isAwarded && (
+              <p className="mt-1.5 text-[11px] sm:text-xs text-indigo-500 font-medium truncate">
+                낙찰 {item.awardedTo} · {item.awardedPrice}
+                {item.awardRatio > 0 && ` (${(item.awardRatio * 100).toFixed(1)}%)`}
+              </p>
+            )}
+
+            {!isClosed && dDay !== null && (
               <div className="mt-2 w-full h-1.5 bg-gray-100 rounded-full overflow-hidden">
                 <div
                   className={`h-full rounded-full transition-all duration-500 ${config.bar}`}
@@ -126,21 +170,37 @@ const ProcurementCard = ({ item, dDay, isNotified, onToggleNotify, onImpactClick
             <span className="text-xs font-bold text-[#2ec4a9]">Action Tip</span>
           </div>
           <p className="text-xs text-gray-600 leading-relaxed">{item.actionTip}</p>
+          {item.sourceUrl && (
+            <a
+              href={item.sourceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 mt-2 text-[11px] font-semibold text-[#2ec4a9] hover:underline"
+            >
+              공고 원문 보기
+              <i className="ri-external-link-line text-xs" />
+            </a>
+          )}
         </div>
       )}
     </div>
   );
 };
 
-type FilterType = 'all' | 'urgent' | 'active';
+type FilterType = 'all' | 'urgent' | 'active' | 'awarded';
+
+const isUrgent = (item: ProcurementItem, dDay: number | null) => isOpen(item, dDay) && dDay !== null && dDay <= 7;
+const isActive = (item: ProcurementItem, dDay: number | null) => isOpen(item, dDay) && (dDay === null || dDay > 7);
 
 interface ProcurementTrackerProps {
+  items: ProcurementItem[];
+  articles: NewsArticle[];
   onArticleClick?: (article: NewsArticle) => void;
 }
 
-const ProcurementTracker = ({ onArticleClick }: ProcurementTrackerProps) => {
+const ProcurementTracker = ({ items, articles, onArticleClick }: ProcurementTrackerProps) => {
   const [filter, setFilter] = useState<FilterType>('all');
-  const [notified, setNotified] = useState<number[]>([]);
+  const [notified, setNotified] = useState<string[]>([]);
   const [showAll, setShowAll] = useState(false);
   const [popup, setPopup] = useState<{
     rect: DOMRect;
@@ -153,39 +213,50 @@ const ProcurementTracker = ({ onArticleClick }: ProcurementTrackerProps) => {
 
   const procurementArticles = useMemo(
     () =>
-      [...newsArticles]
+      articles
         .filter((a) => a.type === 'procurement' || a.type === 'policy')
         .sort((a, b) => b.analysis.impactScore - a.analysis.impactScore),
-    []
+    [articles]
   );
 
-  const toggleNotify = (id: number) => {
+  const toggleNotify = (id: string) => {
     setNotified((prev) => (prev.includes(id) ? prev.filter((n) => n !== id) : [...prev, id]));
   };
 
-  const itemsWithDDay = useMemo(
-    () =>
-      procurementItems
-        .map((item) => ({ item, dDay: getDDay(item.deadline) }))
-        .sort((a, b) => a.dDay - b.dDay),
-    []
-  );
+  const itemsWithDDay = useMemo(() => {
+    const today = new Date();
+    return items
+      .map((item) => ({ item, dDay: getDDay(item.deadline, today) }))
+      .sort((a, b) => {
+        // 진행 중 공고 먼저 — 마감일 있는 공고(마감순), 마감일 없는 항목(임팩트순), 이후 마감·낙찰 공고
+        const openA = isOpen(a.item, a.dDay);
+        const openB = isOpen(b.item, b.dDay);
+        if (openA !== openB) return openA ? -1 : 1;
+        if (!openA) return (b.dDay ?? 0) - (a.dDay ?? 0);
+        if (a.dDay === null && b.dDay === null) return b.item.impactScore - a.item.impactScore;
+        if (a.dDay === null) return 1;
+        if (b.dDay === null) return -1;
+        return a.dDay - b.dDay;
+      });
+  }, [items]);
 
   const filteredItems = useMemo(() => {
-    return itemsWithDDay.filter(({ dDay }) => {
-      if (filter === 'urgent') return dDay >= 0 && dDay <= 7;
-      if (filter === 'active') return dDay > 7;
+    return itemsWithDDay.filter(({ item, dDay }) => {
+      if (filter === 'urgent') return isUrgent(item, dDay);
+      if (filter === 'active') return isActive(item, dDay);
+      if (filter === 'awarded') return item.status === 'awarded';
       return true;
     });
   }, [itemsWithDDay, filter]);
 
-  const urgentCount = itemsWithDDay.filter(({ dDay }) => dDay >= 0 && dDay <= 7).length;
+  const urgentCount = itemsWithDDay.filter(({ item, dDay }) => isUrgent(item, dDay)).length;
   const displayedItems = showAll ? filteredItems : filteredItems.slice(0, 3);
 
   const filterTabs: { key: FilterType; label: string; count: number }[] = [
     { key: 'all', label: '전체', count: itemsWithDDay.length },
     { key: 'urgent', label: '마감임박', count: urgentCount },
-    { key: 'active', label: '진행중', count: itemsWithDDay.filter(({ dDay }) => dDay > 7).length },
+    { key: 'active', label: '진행중', count: itemsWithDDay.filter(({ item, dDay }) => isActive(item, dDay)).length },
+    { key: 'awarded', label: '낙찰', count: itemsWithDDay.filter(({ item }) => item.status === 'awarded').length },
   ];
 
   const handleImpactClick = useCallback(
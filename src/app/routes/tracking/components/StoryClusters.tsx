@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import NewsClusterCard from '../../../../components/tracking/NewsClusterCard';
+import type { CareStory } from '../../../../services/careStories';
+
+const COLLAPSED_COUNT = 3;
+
+interface StoryClustersProps {
+  stories: CareStory[];
+  isClustering: boolean;
+}
+
+/**
+ * 스토리 클러스터 — 같은 정책·투자 건의 한·영 기사를 묶어 몇 주에 걸친 타임라인으로
+ */
+const StoryClusters = ({ stories, isClustering }: StoryClustersProps) => {
+  const [showAll, setShowAll] = useState(false);
+  const shown = showAll ? stories : stories.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3 px-1">
+        <div className="flex items-center gap-2">
+          <span className="w-5 h-5 flex items-center justify-center">
+            <i className="ri-stack-line text-gray-600 text-base" />
+          </span>
+          <span className="text-xs font-bold text-gray-700 tracking-wide uppercase">스토리 타임라인</span>
+        </div>
+        {isClustering && <span className="text-[11px] text-gray-400">묶는 중…</span>}
+      </div>
+
+      {stories.length === 0 ? (
+        <p className="py-4 text-center text-xs text-gray-400 bg-white rounded-xl border border-gray-100">
+          두 건 이상 이어진 스토리가 아직 없습니다
+        </p>
+      ) : (
+        <>
+          {shown.map((story) => <NewsClusterCard key={story.id} story={story} />)}
+          {stories.length > COLLAPSED_COUNT && (
+            <button
+              onClick={() => setShowAll((v) => !v)}
+              className="w-full text-[11px] text-gray-400 hover:text-[#2ec4a9] cursor-pointer transition-colors"
+            >
+              {showAll ? '접기' : `스토리 ${stories.length - COLLAPSED_COUNT}개 더 보기`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StoryClusters;
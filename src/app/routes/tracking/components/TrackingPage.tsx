@@ -5,15 +5,54 @@ import LiveNewsFeed from './LiveNewsFeed';
 import OpportunityScore from './OpportunityScore';
 import ProcurementTracker from './ProcurementTracker';
 import MarketPulse from './MarketPulse';
+import CompetitorTimeline from './CompetitorTimeline';
+import PolicyCalendar from './PolicyCalendar';
+import StoryClusters from './StoryClusters';
 import NewsDetailPanel from './NewsDetailPanel';
 import VisionBanner from './VisionBanner';
-import { NewsArticle } from '../../../../mocks/newsData';
+import type { NewsArticle } from '../../../../services/trackingFeed';
+import { useTrackingFeed, type TrackingFeedStatus } from '../hooks/useTrackingFeed';
+import { useCareStories } from '../hooks/useCareStories';
 
 export type VisionStatFilter = 'all' | 'high-impact' | 'procurement';
 
+const formatClock = (d: Date): string => {
+  const h = d.getHours();
+  const m = String(d.getMinutes()).padStart(2, '0');
+  const ampm = h >= 12 ? '오후' : '오전';
+  return `${ampm} ${h > 12 ? h - 12 : h}:${m}`;
+};
+
+// ── Feed Status Banner ───────────────────────────────────────────────────────
+const STATUS_META: Record<Exclude<TrackingFeedStatus, 'fresh'>, { text: string; className: string; icon: string }> = {
+  loading: { text: 'RSS 피드를 수집하고 있습니다...', className: 'bg-[#edfaf6] text-[#2ec4a9] border-[#d4f3ec]', icon: 'ri-loader-4-line animate-spin-loop' },
+  error: { text: '피드 수집에 실패했습니다. 마지막으로 받은 데이터를 표시합니다.', className: 'bg-red-50 text-red-500 border-red-100', icon: 'ri-error-warning-line' },
+  stale: { text: '데이터가 30분 이상 갱신되지 않았습니다.', className: 'bg-amber-50 text-amber-600 border-amber-100', icon: 'ri-time-line' },
+};
+
+const FeedStatusBanner = ({ status, onRetry }: { status: TrackingFeedStatus; onRetry: () => void }) => {
+  if (status === 'fresh') return null;
+  const meta = STATUS_META[status];
+  return (
+    <div className={`flex items-center justify-between gap-2 px-3 py-2 mb-4 rounded-lg border text-xs font-medium ${meta.className}`}>
+      <span className="flex items-center gap-1.5">
+        <span className="w-4 h-4 flex items-center justify-center">
+          <i className={`${meta.icon} text-sm`} />
+        </span>
+        {meta.text}
+      </span>
+      {status !== 'loading' && (
+        <button onClick={onRetry} className="underline cursor-pointer whitespace-nowrap">
+          다시 시도
+        </button>
+      )}
+    </div>
+  );
+};
+
 // ── Insights Panel Header ────────────────────────────────────────────────────
 interface InsightsPanelHeaderProps {
-  lastUpdate: Date;
+  lastUpdate: Date | null;
   isRefreshing: boolean;
   onRefresh: () => void;
 }
@@ -22,6 +61,7 @@ const InsightsPanelHeader = ({ lastUpdate, isRefreshing, onRefresh }: InsightsPa
   const [timeAgo, setTimeAgo] = useState('방금 전');
 
   useEffect(() => {
+    if (!lastUpdate) return;
     const compute = () => {
       const diff = Math.floor((Date.now() - lastUpdate.getTime()) / 1000);
       if (diff < 60) {
@@ -40,12 +80,7 @@ const InsightsPanelHeader = ({ lastUpdate, isRefreshing, onRefresh }: InsightsPa
     return () => clearInterval(timer);
   }, [lastUpdate]);
 
-  const formatted = (() => {
-    const h = lastUpdate.getHours();
-    const m = String(lastUpdate.getMinutes()).padStart(2, '0');
-    const ampm = h >= 12 ? '오후' : '오전';
-    return `${ampm} ${h > 12 ? h - 12 : h}:${m}`;
-  })();
+  const formatted = lastUpdate ? formatClock(lastUpdate) : '-';
 
   return (
     <div className="px-1 mb-1">
@@ -55,7 +90,7 @@ const InsightsPanelHeader = ({ lastUpdate, isRefreshing, onRefresh }: InsightsPa
             <span className="w-3.5 h-3.5 flex items-center justify-center">
               <i className="ri-time-line text-gray-300 text-xs" />
             </span>
-            <span>{isRefreshing ? '업데이트 중' : `${timeAgo} 업데이트`}</span>
+            <span>{isRefreshing ? '업데이트 중' : lastUpdate ? `${timeAgo} 업데이트` : '수집 대기'}</span>
           </div>
           <button
             onClick={onRefresh}
@@ -81,10 +116,10 @@ type MobileTab = 'news' | 'insights';
 const TrackingPage = () => {
   const [_location, navigate] = useLocation();
   const [activeMenu, setActiveMenu] = useState('tracking');
-  const [lastUpdate, setLastUpdate] = useState<Date>(() => new Date());
-  const [isRefreshing, setIsRefreshing] = useState(false);
+  const { snapshot, articles, procurements, disclosures, dartConfigured, calendar, trackCounts, status, lastUpdate, isRefreshing, refresh } = useTrackingFeed();
+  const { stories, isClustering } = useCareStories(articles, snapshot?.fetchedAt);
   const [selectedArticle, setSelectedArticle] = useState<NewsArticle | null>(null);
-  const [bookmarked, setBookmarked] = useState<number[]>([]);
+  const [bookmarked, setBookmarked] = useState<string[]>([]);
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
   const [mobileTab, setMobileTab] = useState<MobileTab>('news');
   const [visionFilter, setVisionFilter] = useState<VisionStatFilter | null>(null);
@@ -106,19 +141,15 @@ const TrackingPage = () => {
 
   const handleClosePanel = () => setSelectedArticle(null);
 
-  const handleToggleBookmark = (id: number) => {
+  const handleToggleBookmark = (id: string) => {
     setBookmarked((prev) => (prev.includes(id) ? prev.filter((b) => b !== id) : [...prev, id]));
   };
 
   const handleRefresh = useCallback(() => {
     if (isRefreshing) return;
-    setIsRefreshing(true);
     setSelectedArticle(null);
-    setTimeout(() => {
-      setIsRefreshing(false);
-      setLastUpdate(new Date());
-    }, 1600);
-  }, [isRefreshing]);
+    void refresh();
+  }, [isRefreshing, refresh]);
 
   const handleStatClick = useCallback((filter: VisionStatFilter) => {
     setVisionFilter((prev) => {
@@ -145,9 +176,12 @@ const TrackingPage = () => {
     <>
       <InsightsPanelHeader lastUpdate={lastUpdate} isRefreshing={isRefreshing} onRefresh={handleRefresh} />
       <div className={`flex flex-col gap-4 transition-opacity duration-300 ${isRefreshing ? 'opacity-50 pointer-events-none' : 'opacity-100'}`}>
-        <OpportunityScore onArticleClick={handleArticleClick} />
-        <ProcurementTracker onArticleClick={handleArticleClick} />
-        <MarketPulse onArticleClick={handleArticleClick} />
+        <OpportunityScore articles={articles} onArticleClick={handleArticleClick} />
+        <ProcurementTracker items={procurements} articles={articles} onArticleClick={handleArticleClick} />
+        <PolicyCalendar events={calendar} />
+        <CompetitorTimeline disclosures={disclosures} configured={dartConfigured} />
+        <StoryClusters stories={stories} isClustering={isClustering} />
+        <MarketPulse tracks={trackCounts} articles={articles} onArticleClick={handleArticleClick} />
       </div>
     </>
   );
@@ -223,12 +257,7 @@ const TrackingPage = () => {
                   <span className="w-4 h-4 flex items-center justify-center">
                     <i className="ri-time-line text-gray-400 text-sm" />
                   </span>
-                  {isRefreshing ? '업데이트 중...' : (() => {
-                    const h = lastUpdate.getHours();
-                    const m = String(lastUpdate.getMinutes()).padStart(2, '0');
-                    const ampm = h >= 12 ? '오후' : '오전';
-                    return `${ampm} ${h > 12 ? h - 12 : h}:${m} 업데이트`;
-                  })()}
+                  {isRefreshing ? '업데이트 중...' : lastUpdate ? `${formatClock(lastUpdate)} 업데이트` : '수집 대기'}
                 </span>
                 <button
                   onClick={handleRefresh}
@@ -247,12 +276,16 @@ const TrackingPage = () => {
               </div>
             </div>
 
+            <FeedStatusBanner status={status} onRetry={handleRefresh} />
             <VisionBanner
+              articles={articles}
               activeStatFilter={visionFilter}
               onStatClick={handleStatClick}
             />
             <div ref={feedRef}>
               <LiveNewsFeed
+                articles={articles}
+                isLoading={status === 'loading'}
                 onArticleClick={handleArticleClick}
                 selectedArticleId={selectedArticle?.id ?? null}
                 bookmarked={bookmarked}
@@ -1,20 +1,21 @@
 import { useState } from 'react';
-import { newsArticles } from '../../../../mocks/newsData';
+import type { NewsArticle } from '../../../../services/trackingFeed';
 
 type StatFilter = 'all' | 'high-impact' | 'procurement';
 
 interface VisionBannerProps {
+  articles: NewsArticle[];
   activeStatFilter?: StatFilter | null;
   onStatClick?: (filter: StatFilter) => void;
 }
 
-const VisionBanner = ({ activeStatFilter, onStatClick }: VisionBannerProps) => {
+const VisionBanner = ({ articles, activeStatFilter, onStatClick }: VisionBannerProps) => {
   const [collapsed, setCollapsed] = useState(false);
 
-  const totalSignals = newsArticles.length;
-  const opportunities = newsArticles.filter((a) => a.analysis.impactLevel === 'high').length;
+  const totalSignals = articles.length;
+  const opportunities = articles.filter((a) => a.analysis.impactLevel === 'high').length;
 
-  const recentProcurements = newsArticles.filter(
+  const recentProcurements = articles.filter(
     (a) => a.type === 'procurement' && a.daysAgo <= 3
   ).length;
 
@@ -0,0 +1,35 @@
+import { useQuery } from '@tanstack/react-query';
+import { loadCareStories, updateCareStories, visibleStories } from '../../../../services/careStories';
+import type { NewsArticle } from '../../../../services/trackingFeed';
+import type { RssItem } from '../../../../services/rssFeed';
+
+const toRssItem = (a: NewsArticle): RssItem => ({
+  id: a.id,
+  title: a.title,
+  link: a.link,
+  source: a.source,
+  pubDate: a.pubDate,
+  timeAgo: '',
+  description: a.preview,
+  track: a.track,
+});
+
+/**
+ * 케어 트랙 스토리 — 피드 스냅샷이 바뀔 때마다 클러스터링해 저장된 스토리에 합침
+ * 갱신 전·실패 시에는 이 기기에 저장된 스토리를 보여 줌
+ */
+export function useCareStories(articles: NewsArticle[], fetchedAt: string | undefined) {
+  const query = useQuery({
+    queryKey: ['careradar', 'care-stories', fetchedAt],
+    queryFn: () => updateCareStories(articles.map(toRssItem)),
+    enabled: !!fetchedAt && articles.length > 0,
+    placeholderData: (previous) => previous ?? loadCareStories(),
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    stories: visibleStories(query.data ?? []),
+    isClustering: query.isFetching,
+  };
+}
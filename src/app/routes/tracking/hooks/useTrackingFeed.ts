@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchTrackingSnapshot, recordTrackingSnapshot, type TrackingSnapshot } from '../../../../services/trackingFeed';
+import { REFRESH_CARE_TRACKING_MS, STALE_CARE_TRACKING_MS } from '../../../../config/constants';
+
+export const TRACKING_FEED_QUERY_KEY = ['careradar', 'tracking-feed'] as const;
+
+export type TrackingFeedStatus = 'loading' | 'error' | 'stale' | 'fresh';
+
+/**
+ * /tracking 페이지 공용 데이터 훅 — 15분 주기 갱신, 스냅샷 생성 후 30분 경과 시 stale 표시
+ * 성공한 스냅샷의 점수는 useTrackingStore(점수·히스토리·기여 기사)에도 반영
+ */
+export function useTrackingFeed() {
+  const query = useQuery<TrackingSnapshot>({
+    queryKey: TRACKING_FEED_QUERY_KEY,
+    queryFn: fetchTrackingSnapshot,
+    refetchInterval: REFRESH_CARE_TRACKING_MS,
+    refetchOnWindowFocus: false,
+    staleTime: REFRESH_CARE_TRACKING_MS,
+    retry: 1,
+  });
+
+  const snapshot = query.data;
+
+  useEffect(() => {
+    if (snapshot) recordTrackingSnapshot(snapshot);
+  }, [snapshot]);
+
+  // 받은 시각이 아니라 서버 스냅샷 생성 시각 — 서버가 스냅샷을 못 만들어 마지막 정상 응답이 오면 stale로 표시
+  const lastUpdate = snapshot ? new Date(snapshot.fetchedAt) : null;
+  const isStale = !!lastUpdate && Date.now() - lastUpdate.getTime() > STALE_CARE_TRACKING_MS;
+
+  let status: TrackingFeedStatus = 'fresh';
+  if (!snapshot && query.isPending) status = 'loading';
+  else if (query.isError) status = 'error';
+  else if (isStale) status = 'stale';
+
+  return {
+    snapshot,
+    articles: snapshot?.articles ?? [],
+    procurements: snapshot?.procurements ?? [],
+    disclosures: snapshot?.disclosures ?? [],
+    dartConfigured: snapshot?.dartConfigured ?? true,
+    calendar: snapshot?.calendar ?? [],
+    trackCounts: snapshot?.trackCounts ?? [],
+    status,
+    error: query.error,
+    lastUpdate,
+    isRefreshing: query.isFetching,
+    refresh: query.refetch,
+  };
+}
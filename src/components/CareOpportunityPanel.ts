@@ -0,0 +1,152 @@
+import { Panel, type PanelOptions } from './Panel';
+import { h, replaceChildren } from '@/utils/dom-utils';
+import { sanitizeUrl } from '@/utils/sanitize';
+import { calcTimeAgo } from '@/services/rssFeed';
+import {
+  EMPTY_CARE_CLUSTERS,
+  loadCareOpportunity,
+  type CareClusterInput,
+  type CareOpportunityView,
+  type ScoreTrend,
+} from '@/services/care-opportunity';
+import type { TopContributingNews } from '@/stores/trackingStore';
+
+const SPARK_BARS = '▁▂▃▄▅▆▇█';
+
+const CATEGORY_LABELS: Record<string, string> = {
+  careTech: 'Care Tech',
+  impactFunding: 'Impact Funding',
+  publicProcurement: 'Public Procurement',
+  competitorIntelligence: 'Competitors',
+};
+
+const CONTRIBUTING_TRACKS: Array<{ key: keyof TopContributingNews; label: string }> = [
+  { key: 'policy', label: '🏛 S1 Policy' },
+  { key: 'investment', label: '💰 S2 Funding' },
+  { key: 'competitor', label: '⚔ S3 Rivals' },
+];
+
+/**
+ * Base for the care-variant score panels (BOS, Opportunity Radar).
+ * Loads the shared CareOpportunityView, keeps the last cluster input from
+ * DataLoader, and provides the trend / contributing-news / freshness blocks.
+ */
+export abstract class CareOpportunityPanel extends Panel {
+  private input: CareClusterInput = EMPTY_CARE_CLUSTERS;
+  private loading = false;
+  private rerun = false;
+
+  constructor(options: PanelOptions) {
+    super(options);
+    void this.refresh();
+  }
+
+  /** Called by DataLoader after each news clustering pass. */
+  public updateClusters(input: CareClusterInput): void {
+    this.input = input;
+    void this.refresh();
+  }
+
+  public async refresh(): Promise<void> {
+    if (this.loading) {
+      // New clusters arrived mid-load — render once more with them afterwards
+      this.rerun = true;
+      return;
+    }
+    this.loading = true;
+    try {
+      const view = await loadCareOpportunity(this.input);
+      this.setErrorState(false);
+      this.setDataBadge(
+        view.source === 'snapshot' && !view.isStale ? 'live' : 'cached',
+        view.generatedAt ? calcTimeAgo(new Date(view.generatedAt).toISOString()) : undefined,
+      );
+      replaceChildren(this.content, this.renderView(view));
+    } catch (error) {
+      // Before the first news load there is nothing to fall back to yet
+      if (this.input === EMPTY_CARE_CLUSTERS) {
+        this.showLoading();
+      } else {
+        this.setDataBadge('unavailable');
+        this.showError(error instanceof Error ? error.message : undefined);
+      }
+    } finally {
+      this.loading = false;
+    }
+    if (this.rerun) {
+      this.rerun = false;
+      void this.refresh();
+    }
+  }
+
+  protected abstract renderView(view: CareOpportunityView): HTMLElement;
+
+  protected scoreColor(view: CareOpportunityView): string {
+    if (view.score.isHighPriority) return 'var(--semantic-critical)';
+    return view.score.shouldAlert ? 'var(--semantic-high)' : 'var(--text-main)';
+  }
+
+  protected renderTrend(trend: ScoreTrend): HTMLElement {
+    const min = Math.min(...trend.points);
+    const range = Math.max(...trend.points) - min || 1;
+    const spark = trend.points
+      .map((p) => SPARK_BARS[Math.round(((p - min) / range) * (SPARK_BARS.length - 1))])
+      .join('');
+    const label = trend.direction === 'rising' ? '📈 Rising' : trend.direction === 'falling' ? '📉 Falling' : '➖ Stable';
+    const delta = trend.delta > 0 ? `+${trend.delta}` : `${trend.delta}`;
+
+    return h('div', { className: 'care-score-trend', style: 'display: flex; gap: 8px; justify-content: center; align-items: baseline; font-size: 12px; color: var(--text-dim);' },
+      h('span', { style: 'color: var(--text-main);' }, label),
+      h('span', {}, `${delta} vs 24h`),
+      trend.points.length > 1 ? h('span', { style: 'letter-spacing: 1px;' }, spark) : null,
+    );
+  }
+
+  protected renderConvergence(view: CareOpportunityView): HTMLElement {
+    const rows = view.convergence.length > 0
+      ? view.convergence.map((alert) =>
+        h('div', { style: 'padding: 6px 0; border-bottom: 1px solid var(--border-color);' },
+          h('div', { style: 'font-weight: 500; color: var(--text-main);' }, alert.rule.description),
+          h('div', { style: 'font-size: 11px; color: var(--text-dim);' },
+            `${alert.matchedCategories.map((c) => CATEGORY_LABELS[c] ?? c).join(' + ')} · ${alert.totalSignals} clusters`),
+          h('div', { style: 'font-size: 11px; color: var(--accent);' }, `→ ${alert.rule.action}`),
+        ))
+      : [h('div', { style: 'color: var(--text-dim);' }, 'No converging signals in the latest news clusters')];
+
+    return h('div', { className: 'care-convergence', style: 'font-size: 12px;' }, ...rows);
+  }
+
+  protected renderContributing(contributing: TopContributingNews): HTMLElement {
+    const sections = CONTRIBUTING_TRACKS.map(({ key, label }) => {
+      const items = contributing[key];
+      return h('div', { style: 'margin-bottom: 8px;' },
+        h('div', { style: 'font-size: 11px; font-weight: bold; color: var(--text-dim); margin-bottom: 4px;' }, label),
+        ...(items.length > 0
+          ? items.map((item) => h('a', {
+            href: sanitizeUrl(item.link),
+            target: '_blank',
+            rel: 'noopener noreferrer',
+            title: item.title,
+            style: 'display: block; font-size: 12px; color: var(--text-main); white-space: nowrap; overflow: hidden; text-overflow: ellipsis;',
+          }, item.title))
+          : [h('div', { style: 'font-size: 11px; color: var(--text-dim);' }, 'No matching articles')]),
+      );
+    });
+    return h('div', { className: 'care-contributing' }, ...sections);
+  }
+
+  protected renderFreshness(view: CareOpportunityView): HTMLElement {
+    const when = view.generatedAt ? calcTimeAgo(new Date(view.generatedAt).toISOString()) : 'unknown';
+    const origin = view.source === 'snapshot'
+      ? `CareRadar snapshot · collected ${when}`
+      : `care.v1 unreachable — scored from map news clusters (${when})`;
+    return h('div', {
+      className: 'care-freshness',
+      style: `margin-top: auto; padding-top: 8px; font-size: 10px; color: ${view.isStale || view.source === 'clusters' ? 'var(--warning)' : 'var(--text-dim)'};`,
+    }, view.isStale ? `⚠ Stale data · ${origin}` : origin);
+  }
+
+  protected sectionTitle(label: string): HTMLElement {
+    return h('div', { style: 'font-weight: bold; font-size: 13px; margin: 12px 0 6px;' }, label);
+  }
+}
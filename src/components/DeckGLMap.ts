@@ -8,6 +8,7 @@ import type { Layer, LayersList, PickingInfo } from '@deck.gl/core';
 import { GeoJsonLayer, ScatterplotLayer, PathLayer, IconLayer, TextLayer } from '@deck.gl/layers';
 import maplibregl from 'maplibre-gl';
 import Supercluster from 'supercluster';
+import type { Feature, FeatureCollection, Geometry } from 'geojson';
 import type {
   MapLayers,
   Hotspot,
@@ -31,6 +32,7 @@ import type {
   MapTechHQCluster,
   MapTechEventCluster,
   MapDatacenterCluster,
+  MapCareCluster,
   CyberThreat,
   CableHealthRecord,
 } from '@/types';
@@ -83,6 +85,10 @@ import {
 import { getCountryScore } from '@/services/country-instability';
 import { getAlertsNearLocation } from '@/services/geo-convergence';
 import { getCountriesGeoJson, getCountryAtCoordinates } from '@/services/country-geometry';
+import { careReadinessBand, type CareReadinessScore } from '@/services/care-readiness-index';
+import { facilityRegion, nearbyOpportunities, type CareRegistries } from '@/services/care-registry';
+import type { ProcurementItem } from '@/services/trackingFeed';
+import type { CareFacility, CarePolicyEvent, CareStartup, RoboticsLab } from '@/config/care-geo';
 
 export {
   type TimeRange,
@@ -98,6 +104,8 @@ import type { TimeRange, DeckMapView, CountryClickPayload, HotspotWithBreaking,
 import { VIEW_PRESETS, LAYER_ZOOM_THRESHOLDS } from './map/types';
 type DeckMapState = import('./map/types').MapState;
 type MapInteractionMode = 'flat' | '3d';
+type CareReadinessFeatureProps = { cri: CareReadinessScore };
+type CareMapPoint = { id: string; lat: number; lon: number; country: string };
 
 const MAP_INTERACTION_MODE: MapInteractionMode =
   import.meta.env.VITE_MAP_INTERACTION_MODE === 'flat' ? 'flat' : '3d';
@@ -163,6 +171,23 @@ function getOverlayColors() {
     ucdpStateBased: [255, 50, 50, 200] as [number, number, number, number],
     ucdpNonState: [255, 165, 0, 200] as [number, number, number, number],
     ucdpOneSided: [255, 255, 0, 200] as [number, number, number, number],
+    // Care Readiness Index choropleth (care variant): darker = more ready
+    criLeading: [13, 148, 136, isLight ? 150 : 170] as [number, number, number, number],
+    criAdvanced: [46, 196, 169, isLight ? 130 : 150] as [number, number, number, number],
+    criDeveloping: [110, 215, 190, isLight ? 120 : 130] as [number, number, number, number],
+    criEmerging: [170, 230, 215, 110] as [number, number, number, number],
+    criNascent: [215, 240, 235, isLight ? 110 : 90] as [number, number, number, number],
+    // Care registry layers
+    careFacility: isLight
+      ? [220, 80, 60, 220] as [number, number, number, number]
+      : [255, 120, 90, 210] as [number, number, number, number],
+    roboticsLab: [100, 130, 255, 210] as [number, number, number, number],
+    careStartup: isLight
+      ? [200, 50, 160, 220] as [number, number, number, number]
+      : [240, 100, 210, 200] as [number, number, number, number],
+    policyEvent: isLight
+      ? [190, 130, 0, 220] as [number, number, number, number]
+      : [255, 200, 50, 210] as [number, number, number, number],
   };
 }
 // Initialize and refresh on every buildLayers() call
@@ -219,6 +244,12 @@ export class DeckGLMap {
   private ucdpEvents: UcdpGeoEvent[] = [];
   private displacementFlows: DisplacementFlow[] = [];
   private climateAnomalies: ClimateAnomaly[] = [];
+  private careReadiness: CareReadinessScore[] = [];
+  private careReadinessFeatures: Feature<Geometry, CareReadinessFeatureProps>[] = [];
+  private careReadinessGeoJson: FeatureCollection<Geometry> | null = null;
+  private careReadinessGeoJsonRequested = false;
+  private careRegistries: CareRegistries = { facilities: [], labs: [], startups: [], policyEvents: [] };
+  private careProcurements: ProcurementItem[] = [];
 
   // Country highlight state
   private countryGeoJsonLoaded = false;
@@ -253,10 +284,18 @@ export class DeckGLMap {
   private techHQSC: Supercluster | null = null;
   private techEventSC: Supercluster | null = null;
   private datacenterSC: Supercluster | null = null;
+  private careFacilitySC: Supercluster | null = null;
+  private roboticsLabSC: Supercluster | null = null;
+  private careStartupSC: Supercluster | null = null;
+  private policyEventSC: Supercluster | null = null;
   private protestClusters: MapProtestCluster[] = [];
   private techHQClusters: MapTechHQCluster[] = [];
   private techEventClusters: MapTechEventCluster[] = [];
   private datacenterClusters: MapDatacenterCluster[] = [];
+  private careFacilityClusters: MapCareCluster<CareFacility>[] = [];
+  private roboticsLabClusters: MapCareCluster<RoboticsLab>[] = [];
+  private careStartupClusters: MapCareCluster<CareStartup>[] = [];
+  private policyEventClusters: MapCareCluster<CarePolicyEvent>[] = [];
   private lastSCZoom = -1;
   private lastSCBoundsKey = '';
   private lastSCMask = '';
@@ -648,6 +687,71 @@ export class DeckGLMap {
     this.lastSCZoom = -1;
   }
 
+  // Care registry points cluster the same way for all four layers; only the region label differs
+  private static careFacilityRegion = (f: CareFacility): string => facilityRegion(f) ?? f.country;
+  private static policyEventRegion = (e: CarePolicyEvent): string => e.region ?? e.country;
+
+  private buildCareSupercluster<T extends CareMapPoint>(items: T[], regionOf: (item: T) => string): Supercluster {
+    const sc = new Supercluster({
+      radius: 50,
+      maxZoom: 14,
+      map: (props: Record<string, unknown>) => ({
+        index: Number(props.index ?? 0),
+        region: String(props.region ?? ''),
+      }),
+      reduce: (acc: Record<string, unknown>, props: Record<string, unknown>) => {
+        if (!acc.region && props.region) acc.region = props.region;
+      },
+    });
+    sc.load(items.map((item, i) => ({
+      type: 'Feature' as const,
+      geometry: { type: 'Point' as const, coordinates: [item.lon, item.lat] as [number, number] },
+      properties: { index: i, region: regionOf(item) },
+    })));
+    return sc;
+  }
+
+  private rebuildCareSuperclusters(): void {
+    const { facilities, labs, startups, policyEvents } = this.careRegistries;
+    this.careFacilitySC = this.buildCareSupercluster(facilities, DeckGLMap.careFacilityRegion);
+    this.roboticsLabSC = this.buildCareSupercluster(labs, l => l.country);
+    this.careStartupSC = this.buildCareSupercluster(startups, s => s.country);
+    this.policyEventSC = this.buildCareSupercluster(policyEvents, DeckGLMap.policyEventRegion);
+    this.lastSCZoom = -1;
+  }
+
+  private getCareClusters<T extends CareMapPoint>(
+    sc: Supercluster | null,
+    items: T[],
+    idPrefix: string,
+    regionOf: (item: T) => string,
+    bbox: [number, number, number, number],
+    zoom: number,
+  ): MapCareCluster<T>[] {
+    if (!sc) return [];
+    return sc.getClusters(bbox, zoom).map(f => {
+      const coords = f.geometry.coordinates as [number, number];
+      if (f.properties.cluster) {
+        const leaves = sc.getLeaves(f.properties.cluster_id!, DeckGLMap.MAX_CLUSTER_LEAVES);
+        const clusterItems = leaves.map(l => items[l.properties.index]).filter((x): x is T => !!x);
+        const clusterCount = Number(f.properties.point_count ?? clusterItems.length);
+        return {
+          id: `${idPrefix}c-${f.properties.cluster_id}`,
+          lat: coords[1], lon: coords[0],
+          count: clusterCount,
+          items: clusterItems,
+          region: String((f.properties as Record<string, unknown>).region ?? ''),
+          sampled: clusterItems.length < clusterCount,
+        };
+      }
+      const item = items[f.properties.index]!;
+      return {
+        id: `${idPrefix}p-${f.properties.index}`, lat: item.lat, lon: item.lon,
+        count: 1, items: [item], region: regionOf(item), sampled: false,
+      };
+    });
+  }
+
   private updateClusterData(): void {
     const zoom = Math.floor(this.maplibreMap?.getZoom() ?? 2);
     const bounds = this.maplibreMap?.getBounds();
@@ -661,7 +765,11 @@ export class DeckGLMap {
     const useTechHQ = SITE_VARIANT === 'tech' && layers.techHQs;
     const useTechEvents = SITE_VARIANT === 'tech' && layers.techEvents && this.techEvents.length > 0;
     const useDatacenterClusters = layers.datacenters && zoom < 5;
-    const layerMask = `${Number(useProtests)}${Number(useTechHQ)}${Number(useTechEvents)}${Number(useDatacenterClusters)}`;
+    const useCare = SITE_VARIANT === 'care';
+    const careMask = useCare
+      ? `${Number(layers.careFacilities)}${Number(layers.roboticsLabs)}${Number(layers.careStartups)}${Number(layers.policyEvents)}`
+      : '';
+    const layerMask = `${Number(useProtests)}${Number(useTechHQ)}${Number(useTechEvents)}${Number(useDatacenterClusters)}${careMask}`;
     if (zoom === this.lastSCZoom && boundsKey === this.lastSCBoundsKey && layerMask === this.lastSCMask) return;
     this.lastSCZoom = zoom;
     this.lastSCBoundsKey = boundsKey;
@@ -844,6 +952,20 @@ export class DeckGLMap {
     } else {
       this.datacenterClusters = [];
     }
+
+    const { facilities, labs, startups, policyEvents } = this.careRegistries;
+    this.careFacilityClusters = useCare && layers.careFacilities
+      ? this.getCareClusters(this.careFacilitySC, facilities, 'cf', DeckGLMap.careFacilityRegion, bbox, zoom)
+      : [];
+    this.roboticsLabClusters = useCare && layers.roboticsLabs
+      ? this.getCareClusters(this.roboticsLabSC, labs, 'rl', l => l.country, bbox, zoom)
+      : [];
+    this.careStartupClusters = useCare && layers.careStartups
+      ? this.getCareClusters(this.careStartupSC, startups, 'cs', s => s.country, bbox, zoom)
+      : [];
+    this.policyEventClusters = useCare && layers.policyEvents
+      ? this.getCareClusters(this.policyEventSC, policyEvents, 'pe', DeckGLMap.policyEventRegion, bbox, zoom)
+      : [];
   }
 
 
@@ -874,6 +996,11 @@ export class DeckGLMap {
     const filteredMilitaryVesselClusters = this.filterMilitaryVesselClustersByTime(this.militaryVesselClusters);
     const filteredUcdpEvents = this.filterByTime(this.ucdpEvents, (event) => event.date_start);
 
+    // Care Readiness Index choropleth — first, so every marker layer draws above it
+    if (mapLayers.careReadiness && this.careReadinessFeatures.length > 0) {
+      layers.push(this.createCareReadinessLayer());
+    }
+
     // Undersea cables layer
     if (mapLayers.cables) {
       layers.push(this.createCablesLayer());
@@ -1086,6 +1213,23 @@ export class DeckGLMap {
       }
     }
 
+    // Care variant registry layers (Supercluster-based, like the tech HQ/event layers)
+    if (SITE_VARIANT === 'care') {
+      const { facilities, labs, startups, policyEvents } = this.careRegistries;
+      if (mapLayers.policyEvents && policyEvents.length > 0) {
+        layers.push(...this.createCareClusterLayers('policy-events-layer', () => this.policyEventClusters, COLORS.policyEvent, e => e.title));
+      }
+      if (mapLayers.careFacilities && facilities.length > 0) {
+        layers.push(...this.createCareClusterLayers('care-facilities-layer', () => this.careFacilityClusters, COLORS.careFacility, f => f.name));
+      }
+      if (mapLayers.roboticsLabs && labs.length > 0) {
+        layers.push(...this.createCareClusterLayers('robotics-labs-layer', () => this.roboticsLabClusters, COLORS.roboticsLab, l => l.name));
+      }
+      if (mapLayers.careStartups && startups.length > 0) {
+        layers.push(...this.createCareClusterLayers('care-startups-layer', () => this.careStartupClusters, COLORS.careStartup, st => st.name));
+      }
+    }
+
     // Gulf FDI investments layer
     if (mapLayers.gulfInvestments) {
       layers.push(this.createGulfInvestmentsLayer());
@@ -1206,6 +1350,28 @@ export class DeckGLMap {
     return layer;
   }
 
+  private createCareReadinessLayer(): GeoJsonLayer<CareReadinessFeatureProps> {
+    const bandColors = {
+      leading: COLORS.criLeading,
+      advanced: COLORS.criAdvanced,
+      developing: COLORS.criDeveloping,
+      emerging: COLORS.criEmerging,
+      nascent: COLORS.criNascent,
+    };
+    return new GeoJsonLayer<CareReadinessFeatureProps>({
+      id: 'care-readiness-layer',
+      data: { type: 'FeatureCollection', features: this.careReadinessFeatures },
+      filled: true,
+      stroked: true,
+      getFillColor: (f) => bandColors[careReadinessBand(f.properties.cri.overall)],
+      getLineColor: [13, 148, 136, 120],
+      getLineWidth: 1,
+      lineWidthUnits: 'pixels',
+      pickable: true,
+      updateTriggers: { getFillColor: getCurrentTheme() },
+    });
+  }
+
   private createBasesLayer(): IconLayer {
     const highlightedBases = this.highlightedAssets.base;
 
@@ -1964,6 +2130,74 @@ export class DeckGLMap {
     return layers;
   }
 
+  private createCareClusterLayers<T extends CareMapPoint>(
+    id: string,
+    getClusters: () => MapCareCluster<T>[],
+    color: [number, number, number, number],
+    labelOf: (item: T) => string,
+  ): Layer[] {
+    this.updateClusterData();
+    const clusters = getClusters();
+    const layers: Layer[] = [];
+    const zoom = this.maplibreMap?.getZoom() || 2;
+
+    layers.push(new ScatterplotLayer<MapCareCluster<T>>({
+      id,
+      data: clusters,
+      getPosition: d => [d.lon, d.lat],
+      getRadius: d => 8000 + d.count * 1200,
+      radiusMinPixels: 5,
+      radiusMaxPixels: 18,
+      getFillColor: color,
+      stroked: true,
+      getLineColor: [255, 255, 255, 160],
+      lineWidthMinPixels: 1,
+      pickable: true,
+      updateTriggers: { getRadius: this.lastSCZoom, getFillColor: color },
+    }));
+
+    layers.push(this.createGhostLayer(id, clusters, d => [d.lon, d.lat], { radiusMinPixels: 14 }));
+
+    const multiClusters = clusters.filter(c => c.count > 1);
+    if (multiClusters.length > 0) {
+      layers.push(new TextLayer<MapCareCluster<T>>({
+        id: `${id}-badge`,
+        data: multiClusters,
+        getText: d => String(d.count),
+        getPosition: d => [d.lon, d.lat],
+        background: true,
+        getBackgroundColor: [0, 0, 0, 180],
+        backgroundPadding: [4, 2, 4, 2],
+        getColor: [255, 255, 255, 255],
+        getSize: 12,
+        getPixelOffset: [0, -14],
+        pickable: false,
+        fontFamily: 'system-ui, sans-serif',
+        fontWeight: 700,
+      }));
+    }
+
+    if (zoom >= 5) {
+      const singles = clusters.filter(c => c.count === 1);
+      if (singles.length > 0) {
+        layers.push(new TextLayer<MapCareCluster<T>>({
+          id: `${id}-label`,
+          data: singles,
+          getText: d => (d.items[0] ? labelOf(d.items[0]) : ''),
+          getPosition: d => [d.lon, d.lat],
+          getSize: 11,
+          getColor: [220, 220, 220, 200],
+          getPixelOffset: [0, 12],
+          pickable: false,
+          fontFamily: 'system-ui, sans-serif',
+          characterSet: 'auto',
+        }));
+      }
+    }
+
+    return layers;
+  }
+
   private createTechEventClusterLayers(): Layer[] {
     this.updateClusterData();
     const layers: Layer[] = [];
@@ -2338,6 +2572,30 @@ export class DeckGLMap {
           : `${text(obj.type)} ${t('components.deckgl.tooltip.pipeline')}`;
         return { html: `<div class="deckgl-tooltip"><strong>${text(obj.name)}</strong><br/>${pipelineTypeLabel}</div>` };
       }
+      case 'care-facilities-layer': {
+        if (obj.count > 1) return { html: `<div class="deckgl-tooltip"><strong>${t('components.deckgl.tooltip.careFacilitiesCount', { count: String(obj.count) })}</strong><br/>${text(obj.region)}</div>` };
+        const facility = obj.items?.[0] as CareFacility | undefined;
+        if (!facility) return null;
+        const nearby = nearbyOpportunities(facility, this.careProcurements).length;
+        const nearbyLine = nearby > 0 ? `<br/>${t('components.deckgl.tooltip.nearbyOpportunities', { count: String(nearby), region: text(obj.region) })}` : '';
+        return { html: `<div class="deckgl-tooltip"><strong>${text(facility.name)}</strong><br/>${text(facility.operator || obj.region)}${nearbyLine}</div>` };
+      }
+      case 'robotics-labs-layer':
+      case 'care-startups-layer':
+      case 'policy-events-layer': {
+        const countKey = layerId === 'robotics-labs-layer' ? 'roboticsLabsCount' : layerId === 'care-startups-layer' ? 'careStartupsCount' : 'policyEventsCount';
+        if (obj.count > 1) return { html: `<div class="deckgl-tooltip"><strong>${t(`components.deckgl.tooltip.${countKey}`, { count: String(obj.count) })}</strong><br/>${text(obj.region)}</div>` };
+        const item = obj.items?.[0];
+        if (!item) return null;
+        const detail = layerId === 'policy-events-layer' ? `${text(item.date)} · ${text(item.agency)}` : text(obj.region);
+        return { html: `<div class="deckgl-tooltip"><strong>${text(item.name ?? item.title)}</strong><br/>${detail}</div>` };
+      }
+      case 'care-readiness-layer': {
+        const cri = obj.properties?.cri as CareReadinessScore | undefined;
+        if (!cri) return null;
+        const change = cri.change7d > 0 ? `+${cri.change7d}` : String(cri.change7d);
+        return { html: `<div class="deckgl-tooltip"><strong>${text(cri.nameKo)} · CRI ${cri.overall}</strong><br/>${t(`components.deckgl.tooltip.criTrend.${cri.trend}`)} (${t('components.deckgl.tooltip.criChange7d')} ${change})<br/>${t('components.deckgl.tooltip.criPolicy')} ${cri.components.policyMaturity} · ${t('components.deckgl.tooltip.criTech')} ${cri.components.techAdoption} · ${t('components.deckgl.tooltip.criRobotics')} ${cri.components.roboticsEco} · ${t('components.deckgl.tooltip.criFunding')} ${cri.components.fundingActivity}</div>` };
+      }
       case 'conflict-zones-layer': {
         const props = obj.properties || obj;
         return { html: `<div class="deckgl-tooltip"><strong>${text(props.name)}</strong><br/>${t('components.deckgl.tooltip.conflictZone')}</div>` };
@@ -2424,7 +2682,8 @@ export class DeckGLMap {
   }
 
   private handleClick(info: PickingInfo): void {
-    if (!info.object) {
+    // The CRI choropleth covers whole countries — clicks on it still open the country
+    if (!info.object || info.layer?.id === 'care-readiness-layer') {
       // Empty map click → country detection
       if (info.coordinate && this.onCountryClick) {
         const [lon, lat] = info.coordinate as [number, number];
@@ -2550,6 +2809,70 @@ export class DeckGLMap {
       return;
     }
 
+    if (layerId === 'care-facilities-layer') {
+      const cluster = info.object as MapCareCluster<CareFacility>;
+      const facility = cluster.items[0];
+      if (cluster.count === 1 && facility) {
+        this.popup.show({
+          type: 'careFacility',
+          data: facility,
+          nearbyOpportunities: nearbyOpportunities(facility, this.careProcurements),
+          x: info.x,
+          y: info.y,
+        });
+      } else {
+        this.popup.show({
+          type: 'careCluster',
+          data: { layer: 'careFacilities', items: cluster.items, region: cluster.region, count: cluster.count, sampled: cluster.sampled },
+          x: info.x,
+          y: info.y,
+        });
+      }
+      return;
+    }
+    if (layerId === 'robotics-labs-layer') {
+      const cluster = info.object as MapCareCluster<RoboticsLab>;
+      if (cluster.count === 1 && cluster.items[0]) {
+        this.popup.show({ type: 'roboticsLab', data: cluster.items[0], x: info.x, y: info.y });
+      } else {
+        this.popup.show({
+          type: 'careCluster',
+          data: { layer: 'roboticsLabs', items: cluster.items, region: cluster.region, count: cluster.count, sampled: cluster.sampled },
+          x: info.x,
+          y: info.y,
+        });
+      }
+      return;
+    }
+    if (layerId === 'care-startups-layer') {
+      const cluster = info.object as MapCareCluster<CareStartup>;
+      if (cluster.count === 1 && cluster.items[0]) {
+        this.popup.show({ type: 'careStartup', data: cluster.items[0], x: info.x, y: info.y });
+      } else {
+        this.popup.show({
+          type: 'careCluster',
+          data: { layer: 'careStartups', items: cluster.items, region: cluster.region, count: cluster.count, sampled: cluster.sampled },
+          x: info.x,
+          y: info.y,
+        });
+      }
+      return;
+    }
+    if (layerId === 'policy-events-layer') {
+      const cluster = info.object as MapCareCluster<CarePolicyEvent>;
+      if (cluster.count === 1 && cluster.items[0]) {
+        this.popup.show({ type: 'carePolicyEvent', data: cluster.items[0], x: info.x, y: info.y });
+      } else {
+        this.popup.show({
+          type: 'careCluster',
+          data: { layer: 'policyEvents', items: cluster.items, region: cluster.region, count: cluster.count, sampled: cluster.sampled },
+          x: info.x,
+          y: info.y,
+        });
+      }
+      return;
+    }
+
     // Map layer IDs to popup types
     const layerToPopupType: Record<string, PopupType> = {
       'conflict-zones-layer': 'conflict',
@@ -2706,7 +3029,15 @@ export class DeckGLMap {
     const toggles = document.createElement('div');
     toggles.className = 'layer-toggles deckgl-layer-toggles';
 
-    const layerConfig = SITE_VARIANT === 'tech'
+    const layerConfig = SITE_VARIANT === 'care'
+      ? [
+        { key: 'careFacilities', label: t('components.deckgl.layers.careFacilities'), icon: '&#127973;' },
+        { key: 'roboticsLabs', label: t('components.deckgl.layers.roboticsLabs'), icon: '&#129302;' },
+        { key: 'careStartups', label: t('components.deckgl.layers.careStartups'), icon: '&#128640;' },
+        { key: 'policyEvents', label: t('components.deckgl.layers.policyEvents'), icon: '&#128220;' },
+        { key: 'careReadiness', label: t('components.deckgl.layers.careReadiness'), icon: '&#128200;' },
+      ]
+      : SITE_VARIANT === 'tech'
       ? [
         { key: 'startupHubs', label: t('components.deckgl.layers.startupHubs'), icon: '&#128640;' },
         { key: 'techHQs', label: t('components.deckgl.layers.techHQs'), icon: '&#127970;' },
@@ -2985,7 +3316,19 @@ export class DeckGLMap {
     };
 
     const isLight = getCurrentTheme() === 'light';
-    const legendItems = SITE_VARIANT === 'tech'
+    const legendItems = SITE_VARIANT === 'care'
+      ? [
+          { shape: shapes.circle(isLight ? 'rgb(220, 80, 60)' : 'rgb(255, 120, 90)'), label: t('components.deckgl.legend.careFacility') },
+          { shape: shapes.circle('rgb(100, 130, 255)'), label: t('components.deckgl.legend.roboticsLab') },
+          { shape: shapes.circle(isLight ? 'rgb(200, 50, 160)' : 'rgb(240, 100, 210)'), label: t('components.deckgl.legend.careStartup') },
+          { shape: shapes.circle(isLight ? 'rgb(190, 130, 0)' : 'rgb(255, 200, 50)'), label: t('components.deckgl.legend.policyEvent') },
+          { shape: shapes.square('rgb(13, 148, 136)'), label: `${t('components.deckgl.legend.careReadiness')} 75+` },
+          { shape: shapes.square('rgb(46, 196, 169)'), label: '60–74' },
+          { shape: shapes.square('rgb(110, 215, 190)'), label: '45–59' },
+          { shape: shapes.square('rgb(170, 230, 215)'), label: '30–44' },
+          { shape: shapes.square('rgb(215, 240, 235)'), label: '<30' },
+        ]
+      : SITE_VARIANT === 'tech'
       ? [
           { shape: shapes.circle(isLight ? 'rgb(22, 163, 74)' : 'rgb(0, 255, 150)'), label: t('components.deckgl.legend.startupHub') },
           { shape: shapes.circle('rgb(100, 200, 255)'), label: t('components.deckgl.legend.techHQ') },
@@ -3288,6 +3631,42 @@ export class DeckGLMap {
     this.render();
   }
 
+  public setCareReadiness(scores: CareReadinessScore[]): void {
+    this.careReadiness = scores;
+    if (!this.careReadinessGeoJsonRequested) {
+      this.careReadinessGeoJsonRequested = true;
+      getCountriesGeoJson()
+        .then((geojson) => {
+          this.careReadinessGeoJson = geojson;
+          this.rebuildCareReadinessFeatures();
+        })
+        .catch((err) => console.warn('[DeckGLMap] Failed to load countries for CRI layer:', err));
+    }
+    this.rebuildCareReadinessFeatures();
+  }
+
+  /** Care registry layers — the merged bundled + imported datasets from the care map store */
+  public setCareRegistries(registries: CareRegistries): void {
+    this.careRegistries = registries;
+    this.rebuildCareSuperclusters();
+    this.render();
+  }
+
+  /** Latest procurement listings, matched to facilities by province for the "nearby opportunities" list */
+  public setCareProcurements(procurements: ProcurementItem[]): void {
+    this.careProcurements = procurements;
+  }
+
+  private rebuildCareReadinessFeatures(): void {
+    if (!this.careReadinessGeoJson) return;
+    const byCode = new Map(this.careReadiness.map((cri) => [cri.country, cri]));
+    this.careReadinessFeatures = this.careReadinessGeoJson.features.flatMap((feature) => {
+      const cri = byCode.get(String(feature.properties?.['ISO3166-1-Alpha-2'] ?? ''));
+      return cri ? [{ ...feature, properties: { cri } }] : [];
+    });
+    this.render();
+  }
+
   public setUcdpEvents(events: UcdpGeoEvent[]): void {
     this.ucdpEvents = events;
     this.render();
@@ -1,6 +1,15 @@
 import { Panel } from './Panel';
 import { t } from '@/services/i18n';
 import { h, replaceChildren } from '@/utils/dom-utils';
+import {
+  RATIO_DEFINITIONS,
+  calculateRatios,
+  formatRatio,
+  generateAnalysisQuestions,
+  latestAnalysisSession,
+  statementsFromCompany,
+} from '@/services/financials';
+import { SEED_SYNTHETIC_COMPANIES } from '@/services/study/seeds';
 
 export class FinancialGymPanel extends Panel {
   private activeTab: 'finance' | 'pricing' | 'sroi' = 'finance';
@@ -50,15 +59,27 @@ export class FinancialGymPanel extends Panel {
   }
 
   private renderFinanceContent() {
+    // 최근 저장한 분석이 없으면 합성 기업 시드로 비율과 L1 질문을 보여 줌
+    const latest = latestAnalysisSession();
+    const statements = latest?.statements ?? statementsFromCompany(SEED_SYNTHETIC_COMPANIES[0]!);
+    const ratios = calculateRatios(statements.periods);
+    const last = ratios[ratios.length - 1];
+    const level = latest?.level ?? 'L1';
+    const questions = latest?.questions ?? generateAnalysisQuestions(statements, ratios, level);
+    const metrics = last ? RATIO_DEFINITIONS.filter((d) => last[d.key] !== null).slice(0, 6) : [];
+
     return h('div', { style: 'display: flex; flex-direction: column; gap: 12px;' },
-      h('div', { style: 'font-weight: bold; font-size: 14px; margin-bottom: 4px;' }, "Today's Case: Teladoc Health (TDOC)"),
-      h('div', { style: 'font-size: 12px; color: var(--text-dim);' }, 'Analyze the Q4 2025 Earnings Call highlighting shift towards value-based care and chronic condition management.'),
-      h('div', { style: 'background: var(--surface-light); border: 1px solid var(--border-color); border-radius: 6px; padding: 12px; margin-top: 8px;' },
-        h('div', { style: 'font-size: 11px; margin-bottom: 12px; font-weight: bold;' }, '📝 3-Line Memo Practice'),
-        h('input', { type: 'text', placeholder: '1. Source (Revenue Driver)', style: 'width: 100%; padding: 8px; margin-bottom: 8px; background: var(--bg); border: 1px solid var(--border-color); color: var(--text-main); border-radius: 4px;' }),
-        h('input', { type: 'text', placeholder: '2. Cost (Largest Expense)', style: 'width: 100%; padding: 8px; margin-bottom: 8px; background: var(--bg); border: 1px solid var(--border-color); color: var(--text-main); border-radius: 4px;' }),
-        h('input', { type: 'text', placeholder: '3. Moat (Competitive Advantage)', style: 'width: 100%; padding: 8px; margin-bottom: 12px; background: var(--bg); border: 1px solid var(--border-color); color: var(--text-main); border-radius: 4px;' }),
-        h('button', { style: 'width: 100%; padding: 8px; background: var(--accent); color: var(--bg); border: none; border-radius: 4px; font-weight: bold; cursor: pointer;' }, 'Save to Daily Brief')
+      h('div', { style: 'font-weight: bold; font-size: 14px; margin-bottom: 4px;' }, `${latest ? 'Latest Analysis' : "Today's Case"}: ${statements.companyName}`),
+      h('div', { style: 'font-size: 12px; color: var(--text-dim);' }, `${statements.sourceDetail}${last ? ` · ${last.label}` : ''}`),
+      h('div', { style: 'background: var(--surface-light); border: 1px solid var(--border-color); border-radius: 6px; padding: 12px; display: flex; flex-direction: column; gap: 8px;' },
+        ...(metrics.length > 0
+          ? metrics.map((d) => h('div', { style: 'display: flex; justify-content: space-between; font-size: 13px;' }, h('span', {}, `${d.label}:`), h('strong', {}, formatRatio(last![d.key], d.format))))
+          : [h('div', { style: 'font-size: 12px; color: var(--text-dim);' }, '계산할 수 있는 지표가 없습니다.')])
+      ),
+      h('div', { style: 'background: var(--surface-light); border: 1px solid var(--border-color); border-radius: 6px; padding: 12px;' },
+        h('div', { style: 'font-size: 11px; margin-bottom: 8px; font-weight: bold;' }, `📝 ${level} 분석 질문`),
+        ...questions.map((q, i) => h('div', { style: 'font-size: 12px; margin-bottom: 6px; color: var(--text-main);' }, `${i + 1}. ${q.prompt}`)),
+        h('div', { style: 'font-size: 11px; margin-top: 8px; color: var(--text-dim);' }, 'Study → Financial Analysis에서 DART·CSV 재무제표로 분석하고 저장하세요.')
       )
     );
   }
@@ -34,6 +34,9 @@ import type { DisplacementFlow } from '@/services/displacement';
 import type { Earthquake } from '@/services/earthquakes';
 import type { ClimateAnomaly } from '@/services/climate';
 import type { WeatherAlert } from '@/services/weather';
+import type { CareReadinessScore } from '@/services/care-readiness-index';
+import type { CareRegistries } from '@/services/care-registry';
+import type { ProcurementItem } from '@/services/trackingFeed';
 
 /**
  * Unified map interface that delegates to either DeckGLMap or MapComponent
@@ -278,6 +281,24 @@ export class MapContainer {
     }
   }
 
+  public setCareReadiness(scores: CareReadinessScore[]): void {
+    if (this.useDeckGL) {
+      this.deckGLMap?.setCareReadiness(scores);
+    }
+  }
+
+  public setCareRegistries(registries: CareRegistries): void {
+    if (this.useDeckGL) {
+      this.deckGLMap?.setCareRegistries(registries);
+    }
+  }
+
+  public setCareProcurements(procurements: ProcurementItem[]): void {
+    if (this.useDeckGL) {
+      this.deckGLMap?.setCareProcurements(procurements);
+    }
+  }
+
   public setUcdpEvents(events: UcdpGeoEvent[]): void {
     if (this.useDeckGL) {
       this.deckGLMap?.setUcdpEvents(events);
@@ -4,6 +4,9 @@ import type { Earthquake } from '@/services/earthquakes';
 import type { WeatherAlert } from '@/services/weather';
 import { UNDERSEA_CABLES } from '@/config';
 import type { StartupHub, Accelerator, TechHQ, CloudRegion } from '@/config/tech-geo';
+import type { CareFacility, CarePolicyEvent, CareStartup, RoboticsLab } from '@/config/care-geo';
+import type { ProcurementItem } from '@/services/trackingFeed';
+import { facilityRegion } from '@/services/care-registry';
 // TechHubActivity and GeoHubActivity are used via PopupData (imported from ./map/popup-types)
 import { escapeHtml, sanitizeUrl } from '@/utils/sanitize';
 import { isMobileDevice, getCSSColor } from '@/utils';
@@ -24,6 +27,7 @@ import type {
   CommodityHubPopupData,
   ProtestClusterData,
   DatacenterClusterData,
+  CareClusterData,
   PopupData,
 } from './map/popup-types';
 
@@ -329,6 +333,16 @@ export class MapPopup {
         return this.renderCentralBankPopup(data.data as CentralBankPopupData);
       case 'commodityHub':
         return this.renderCommodityHubPopup(data.data as CommodityHubPopupData);
+      case 'careFacility':
+        return this.renderCareFacilityPopup(data.data as CareFacility, data.nearbyOpportunities ?? []);
+      case 'roboticsLab':
+        return this.renderRoboticsLabPopup(data.data as RoboticsLab);
+      case 'careStartup':
+        return this.renderCareStartupPopup(data.data as CareStartup);
+      case 'carePolicyEvent':
+        return this.renderCarePolicyEventPopup(data.data as CarePolicyEvent);
+      case 'careCluster':
+        return this.renderCareClusterPopup(data.data as CareClusterData);
       default:
         return '';
     }
@@ -1778,6 +1792,214 @@ export class MapPopup {
     `;
   }
 
+  private renderCareFacilityPopup(facility: CareFacility, opportunities: ProcurementItem[]): string {
+    const region = facilityRegion(facility);
+    const opportunityList = opportunities.map(p => `
+      <div class="popup-news-item">
+        <span class="news-source">${escapeHtml(p.organization)} · ${p.deadline ? t('popups.care.deadline', { date: escapeHtml(p.deadline) }) : t('popups.care.noDeadline')}</span>
+        <a href="${sanitizeUrl(p.sourceUrl)}" target="_blank" class="news-title">${escapeHtml(p.title)}</a>
+      </div>
+    `).join('');
+    const opportunitySection = !region
+      ? `<p class="popup-more">${t('popups.care.noRegion')}</p>`
+      : opportunities.length > 0
+        ? `<div class="popup-news">${opportunityList}</div>`
+        : `<p class="popup-more">${t('popups.care.noNearbyOpportunities', { region: escapeHtml(region) })}</p>`;
+
+    return `
+      <div class="popup-header care-facility ${facility.type}">
+        <span class="popup-title">🏥 ${escapeHtml(facility.name)}</span>
+        <span class="popup-badge">${t(`popups.care.facilityTypes.${facility.type}`)}</span>
+        <button class="popup-close">×</button>
+      </div>
+      <div class="popup-body">
+        <div class="popup-subtitle">${escapeHtml(facility.address || [region, facility.country].filter(Boolean).join(', '))}</div>
+        <div class="popup-stats">
+          ${facility.operator ? `
+          <div class="popup-stat">
+            <span class="stat-label">${t('popups.operator')}</span>
+            <span class="stat-value">${escapeHtml(facility.operator)}</span>
+          </div>
+          ` : ''}
+          ${facility.capacity ? `
+          <div class="popup-stat">
+            <span class="stat-label">${t('popups.capacity')}</span>
+            <span class="stat-value">${facility.capacity.toLocaleString()}</span>
+          </div>
+          ` : ''}
+          ${region ? `
+          <div class="popup-stat">
+            <span class="stat-label">${t('popups.care.region')}</span>
+            <span class="stat-value">${escapeHtml(region)}</span>
+          </div>
+          ` : ''}
+          ${facility.aiEnabled ? `
+          <div class="popup-stat">
+            <span class="stat-label">${t('popups.care.aiEnabled')}</span>
+            <span class="stat-value">✓</span>
+          </div>
+          ` : ''}
+        </div>
+        ${facility.services.length > 0 ? `
+          <div class="popup-section">
+            <span class="section-label">${t('popups.care.services')}</span>
+            <div class="popup-tags">
+              ${facility.services.map(s => `<span class="popup-tag">${escapeHtml(s.replace(/_/g, ' '))}</span>`).join('')}
+            </div>
+          </div>
+        ` : ''}
+        <div class="popup-section">
+          <span class="section-label">${t('popups.care.nearbyOpportunities', { region: escapeHtml(region ?? facility.country) })}</span>
+          ${opportunitySection}
+        </div>
+      </div>
+    `;
+  }
+
+  private renderRoboticsLabPopup(lab: RoboticsLab): string {
+    return `
+      <div class="popup-header robotics-lab">
+        <span class="popup-title">🤖 ${escapeHtml(lab.name)}</span>
+        <span class="popup-badge">${escapeHtml(lab.country)}</span>
+        <button class="popup-close">×</button>
+      </div>
+      <div class="popup-body">
+        ${this.renderCareFundingStats(lab.fundingAmountM, lab.fundedAt, lab.fundingSource)}
+        ${lab.focus.length > 0 ? `
+          <div class="popup-section">
+            <span class="section-label">${t('popups.care.focus')}</span>
+            <div class="popup-tags">
+              ${lab.focus.map(f => `<span class="popup-tag">${escapeHtml(f.replace(/_/g, ' '))}</span>`).join('')}
+            </div>
+          </div>
+        ` : ''}
+        ${lab.products?.length ? `
+          <div class="popup-section">
+            <span class="section-label">${t('popups.care.products')}</span>
+            <div class="popup-tags">
+              ${lab.products.map(p => `<span class="popup-tag">${escapeHtml(p)}</span>`).join('')}
+            </div>
+          </div>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  private renderCareStartupPopup(startup: CareStartup): string {
+    return `
+      <div class="popup-header care-startup ${startup.fundingStage}">
+        <span class="popup-title">🚀 ${escapeHtml(startup.name)}</span>
+        <span class="popup-badge">${t(`popups.care.fundingStages.${startup.fundingStage}`)}</span>
+        <button class="popup-close">×</button>
+      </div>
+      <div class="popup-body">
+        <div class="popup-subtitle">${escapeHtml([startup.domain.replace(/_/g, ' '), startup.country].filter(Boolean).join(' · '))}</div>
+        ${this.renderCareFundingStats(startup.fundingAmountM, startup.fundedAt)}
+        ${startup.investors?.length ? `
+          <div class="popup-section">
+            <span class="section-label">${t('popups.care.investors')}</span>
+            <div class="popup-tags">
+              ${startup.investors.map(i => `<span class="popup-tag">${escapeHtml(i)}</span>`).join('')}
+            </div>
+          </div>
+        ` : ''}
+        ${startup.description ? `<p class="popup-description">${escapeHtml(startup.description)}</p>` : ''}
+      </div>
+    `;
+  }
+
+  /** Funding metadata shared by the lab and startup popups; empty when the registry has none */
+  private renderCareFundingStats(amountM?: number, fundedAt?: string, source?: string): string {
+    if (amountM === undefined && !fundedAt && !source) return '';
+    return `
+      <div class="popup-stats">
+        ${amountM !== undefined ? `
+        <div class="popup-stat">
+          <span class="stat-label">${t('popups.care.funding')}</span>
+          <span class="stat-value">$${amountM.toLocaleString()}M</span>
+        </div>
+        ` : ''}
+        ${fundedAt ? `
+        <div class="popup-stat">
+          <span class="stat-label">${t('popups.care.fundedAt')}</span>
+          <span class="stat-value">${escapeHtml(fundedAt)}</span>
+        </div>
+        ` : ''}
+        ${source ? `
+        <div class="popup-stat">
+          <span class="stat-label">${t('popups.care.fundingSource')}</span>
+          <span class="stat-value">${escapeHtml(source)}</span>
+        </div>
+        ` : ''}
+      </div>
+    `;
+  }
+
+  private renderCarePolicyEventPopup(event: CarePolicyEvent): string {
+    const kindKey = `popups.care.policyKinds.${event.kind}`;
+    const kindLabel = t(kindKey);
+    return `
+      <div class="popup-header policy-event ${escapeHtml(event.kind)}">
+        <span class="popup-title">📜 ${escapeHtml(event.title)}</span>
+        <span class="popup-badge">${escapeHtml(kindLabel === kindKey ? event.kind : kindLabel)}</span>
+        <button class="popup-close">×</button>
+      </div>
+      <div class="popup-body">
+        <div class="popup-stats">
+          <div class="popup-stat">
+            <span class="stat-label">${t('popups.care.date')}</span>
+            <span class="stat-value">${escapeHtml(event.date)}</span>
+          </div>
+          ${event.agency ? `
+          <div class="popup-stat">
+            <span class="stat-label">${t('popups.care.agency')}</span>
+            <span class="stat-value">${escapeHtml(event.agency)}</span>
+          </div>
+          ` : ''}
+          ${event.region ? `
+          <div class="popup-stat">
+            <span class="stat-label">${t('popups.care.region')}</span>
+            <span class="stat-value">${escapeHtml(event.region)}</span>
+          </div>
+          ` : ''}
+        </div>
+        ${event.description ? `<p class="popup-description">${escapeHtml(event.description)}</p>` : ''}
+        ${event.link ? `<a href="${sanitizeUrl(event.link)}" target="_blank" class="popup-link">${t('popups.care.openLink')} →</a>` : ''}
+      </div>
+    `;
+  }
+
+  private renderCareClusterPopup(data: CareClusterData): string {
+    const totalCount = data.count ?? data.items.length;
+    const listItems = (() => {
+      switch (data.layer) {
+        case 'careFacilities':
+          return data.items.map(f => `<li class="cluster-item">🏥 ${escapeHtml(f.name)}${f.capacity ? ` (${f.capacity.toLocaleString()})` : ''}</li>`);
+        case 'roboticsLabs':
+          return data.items.map(l => `<li class="cluster-item">🤖 ${escapeHtml(l.name)}</li>`);
+        case 'careStartups':
+          return data.items.map(s => `<li class="cluster-item">🚀 ${escapeHtml(s.name)} · ${t(`popups.care.fundingStages.${s.fundingStage}`)}</li>`);
+        case 'policyEvents':
+          return [...data.items]
+            .sort((a, b) => a.date.localeCompare(b.date))
+            .map(e => `<li class="cluster-item">📜 ${escapeHtml(e.date)}: ${escapeHtml(e.title)}</li>`);
+      }
+    })().join('');
+
+    return `
+      <div class="popup-header care-cluster cluster">
+        <span class="popup-title">${t(`components.deckgl.layers.${data.layer}`)}</span>
+        <span class="popup-badge">${t('popups.care.clusterCount', { count: String(totalCount) })}</span>
+        <button class="popup-close">×</button>
+      </div>
+      <div class="popup-body cluster-popup">
+        <div class="popup-subtitle">📍 ${escapeHtml(data.region)}</div>
+        <ul class="cluster-list">${listItems}</ul>
+        ${data.sampled ? `<p class="popup-more">${t('popups.care.sampled', { count: String(data.items.length) })}</p>` : ''}
+      </div>
+    `;
+  }
+
   private renderTechEventClusterPopup(data: TechEventClusterData): string {
     const totalCount = data.count ?? data.items.length;
     const upcomingSoon = data.soonCount ?? data.items.filter(e => e.daysUntil <= 14).length;
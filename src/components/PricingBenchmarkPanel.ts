@@ -1,5 +1,16 @@
 import { Panel } from './Panel';
 import { h, replaceChildren } from '@/utils/dom-utils';
+import {
+  PRICING_MODEL_LABELS,
+  PRICING_UNIT_LABELS,
+  basePrice,
+  compareWithAwards,
+  latestPricingSession,
+  loadAwardedPrices,
+  loadCompetitorPrices,
+} from '@/services/pricing';
+
+const won = (v: number) => `₩${Math.round(v).toLocaleString('ko-KR')}`;
 
 export class PricingBenchmarkPanel extends Panel {
   constructor() {
@@ -13,25 +24,55 @@ export class PricingBenchmarkPanel extends Panel {
 
   public async refresh(): Promise<void> {
     this.showLoading();
-    
+
+    const awards = await loadAwardedPrices();
+    const stats = compareWithAwards(0, awards);
+    const competitors = loadCompetitorPrices();
+    const latest = latestPricingSession();
+
+    const rows: HTMLElement[] = [];
+    if (stats) {
+      rows.push(this.renderRow(`조달 낙찰가 중앙값 (${stats.count}건):`, won(stats.median)));
+      rows.push(this.renderRow('낙찰가 IQR:', `${won(stats.p25)} – ${won(stats.p75)}`));
+      if (stats.medianAwardRatio > 0) {
+        rows.push(this.renderRow('낙찰률 중앙값:', `${Math.round(stats.medianAwardRatio * 1000) / 10}%`));
+      }
+    }
+    for (const c of competitors) {
+      rows.push(this.renderRow(
+        `${c.name} (${PRICING_UNIT_LABELS[c.unit]}):`,
+        `${won(c.price)}${c.period === 'month' ? ' / 월' : ' 일시'}`,
+      ));
+    }
+    if (latest) {
+      rows.push(this.renderRow(
+        `💡 ${latest.companyName} 기준가:`,
+        `${won(basePrice(latest.scenario))} · ${PRICING_MODEL_LABELS[latest.scenario.model]}`,
+        true,
+      ));
+    }
+
+    if (rows.length === 0) {
+      replaceChildren(this.content, h('div', { style: 'padding: 1rem; font-size: 0.85rem; color: var(--text-secondary);' },
+        '아직 비교할 가격 데이터가 없습니다. 조달 낙찰 공고를 추적하거나 Study의 Pricing Lab에서 경쟁사 가격과 시나리오를 저장하세요.'
+      ));
+      return;
+    }
+
     const content = h('div', { className: 'pricing-container', style: 'padding: 1rem;' },
-      h('div', { style: 'display: flex; justify-content: space-between; margin-bottom: 0.5rem; font-size: 0.9rem;' },
-        h('span', {}, '조달청 평균 단가:'),
-        h('strong', {}, '₩1,500,000 / 단위')
-      ),
-      h('div', { style: 'display: flex; justify-content: space-between; margin-bottom: 0.5rem; font-size: 0.9rem;' },
-        h('span', {}, '경쟁사 A (SaaS):'),
-        h('strong', {}, '₩30,000 / 월')
-      ),
-      h('div', { style: 'display: flex; justify-content: space-between; margin-bottom: 0.5rem; font-size: 0.9rem;' },
-        h('span', {}, '경쟁사 B (Hardware):'),
-        h('strong', {}, '₩2,800,000')
-      ),
+      ...rows,
       h('div', { style: 'margin-top: 1rem; font-size: 0.85rem; color: var(--text-secondary);' },
-        '* 기반 데이터: Public Procurement & Competitor Intelligence 트랙'
+        '* 기반 데이터: procurement_items 낙찰 공고 · Pricing Lab 경쟁사 가격표'
       )
     );
-    
+
     replaceChildren(this.content, content);
   }
+
+  private renderRow(label: string, value: string, highlight = false): HTMLElement {
+    return h('div', { style: `display: flex; justify-content: space-between; margin-bottom: 0.5rem; font-size: 0.9rem;${highlight ? ' color: var(--accent);' : ''}` },
+      h('span', {}, label),
+      h('strong', {}, value)
+    );
+  }
 }
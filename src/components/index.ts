@@ -38,6 +38,7 @@ export * from './ClimateAnomalyPanel';
 export * from './PopulationExposurePanel';
 export * from './InvestmentsPanel';
 export * from './LanguageSelector';
+export * from './CareOpportunityPanel';
 export * from './BOSPanel';
 export * from './SROIPanel';
 export * from './PricingBenchmarkPanel';
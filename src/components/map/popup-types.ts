@@ -37,6 +37,8 @@ import type { AirportDelayAlert } from '@/services/aviation';
 import type { Earthquake } from '@/services/earthquakes';
 import type { WeatherAlert } from '@/services/weather';
 import type { StartupHub, Accelerator, TechHQ, CloudRegion } from '@/config/tech-geo';
+import type { CareFacility, CarePolicyEvent, CareStartup, RoboticsLab } from '@/config/care-geo';
+import type { ProcurementItem } from '@/services/trackingFeed';
 import type { TechHubActivity } from '@/services/tech-activity';
 import type { GeoHubActivity } from '@/services/geo-activity';
 
@@ -54,7 +56,8 @@ export type PopupType =
   | 'startupHub' | 'cloudRegion' | 'techHQ' | 'accelerator'
   | 'techEvent' | 'techHQCluster' | 'techEventCluster'
   | 'techActivity' | 'geoActivity'
-  | 'stockExchange' | 'financialCenter' | 'centralBank' | 'commodityHub';
+  | 'stockExchange' | 'financialCenter' | 'centralBank' | 'commodityHub'
+  | 'careFacility' | 'roboticsLab' | 'careStartup' | 'carePolicyEvent' | 'careCluster';
 
 // ── Popup data shapes ───────────────────────────────────────────────
 export interface TechEventPopupData {
@@ -159,6 +162,18 @@ export interface DatacenterClusterData {
   sampled?: boolean;
 }
 
+// Care variant: one cluster popup for all four registry layers, listed by layer
+export type CareClusterData = {
+  region: string;
+  count?: number;
+  sampled?: boolean;
+} & (
+  | { layer: 'careFacilities'; items: CareFacility[] }
+  | { layer: 'roboticsLabs'; items: RoboticsLab[] }
+  | { layer: 'careStartups'; items: CareStartup[] }
+  | { layer: 'policyEvents'; items: CarePolicyEvent[] }
+);
+
 export interface PopupData {
   type: PopupType;
   data:
@@ -175,8 +190,11 @@ export interface PopupData {
     | ProtestClusterData | DatacenterClusterData
     | TechHubActivity | GeoHubActivity
     | StockExchangePopupData | FinancialCenterPopupData
-    | CentralBankPopupData | CommodityHubPopupData;
+    | CentralBankPopupData | CommodityHubPopupData
+    | CareFacility | RoboticsLab | CareStartup | CarePolicyEvent | CareClusterData;
   relatedNews?: NewsItem[];
+  /** careFacility: open procurement listings in the facility's province */
+  nearbyOpportunities?: ProcurementItem[];
   x: number;
   y: number;
 }
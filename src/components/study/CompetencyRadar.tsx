@@ -1,31 +1,21 @@
 import { useMemo } from 'react';
-import { useStudyStore } from '../../stores/studyStore';
-
-interface Dimension {
-  key: string;
-  label: string;
-  types: string[];
-}
-
-const DIMENSIONS: Dimension[] = [
-  { key: 'financial', label: '재무 분석', types: ['financial'] },
-  { key: 'pricing', label: '가격 설계', types: ['pricing'] },
-  { key: 'impact', label: '임팩트', types: ['sroi'] },
-  { key: 'policy', label: '정책/규제', types: ['regulation', 'custom'] },
-  { key: 'competition', label: '경쟁 분석', types: ['benchmark', 'pitch'] },
-];
-
-const MAX_SESSIONS = 10;
-
+import { COMPETENCIES as DIMENSIONS } from '../../services/study/competencies';
+import { estimateCompetencies, HALF_LIFE_DAYS } from '../../services/study/competencyModel';
+import { useCompetencyEvidence } from './useCompetencyEvidence';
+
+const LEVEL_STYLES = {
+  L1: 'bg-gray-100 text-gray-500 dark:bg-gray-800 dark:text-gray-400',
+  L2: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400',
+  L3: 'bg-emerald-600 text-white',
+} as const;
+
+/**
+ * 역량 레이더 — 반지름은 숙련도(근거 평균 × 최근 근거량), 아래는 레벨과 다음 단계 조건
+ */
 export default function CompetencyRadar() {
-  const completedSessions = useStudyStore((s) => s.completedSessions);
-
-  const scores = useMemo(() => {
-    return DIMENSIONS.map((dim) => {
-      const count = completedSessions.filter((s) => dim.types.includes(s.type)).length;
-      return Math.min(1, count / MAX_SESSIONS);
-    });
-  }, [completedSessions]);
+  const evidence = useCompetencyEvidence();
+  const estimates = useMemo(() => estimateCompetencies(evidence), [evidence]);
+  const scores = estimates.map((e) => e.proficiency);
 
   const n = DIMENSIONS.length;
   const cx = 100;
@@ -44,7 +34,7 @@ export default function CompetencyRadar() {
   const dataPoints = scores.map((s, i) => getPoint(i, s));
   const dataPath = dataPoints.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x},${p.y}`).join(' ') + 'Z';
 
-  if (completedSessions.length === 0) {
+  if (evidence.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-8 text-gray-400">
         <p className="text-sm">아직 완료된 세션이 없습니다</p>
@@ -86,16 +76,21 @@ export default function CompetencyRadar() {
       </svg>
 
       <div className="grid grid-cols-5 gap-2 mt-3 w-full">
-        {DIMENSIONS.map((dim) => {
-          const count = completedSessions.filter((s) => dim.types.includes(s.type)).length;
-          return (
-            <div key={dim.key} className="text-center">
-              <div className="text-xs font-bold text-gray-900 dark:text-white">{count}</div>
-              <div className="text-[9px] text-gray-400">{dim.label}</div>
-            </div>
-          );
-        })}
+        {estimates.map((est) => (
+          <div
+            key={est.key}
+            className="text-center"
+            title={est.next ? `${est.next.level}까지: ${est.next.needs.join(', ')}` : '최고 레벨'}
+          >
+            <span className={`inline-block text-[10px] font-black px-1.5 py-0.5 rounded ${LEVEL_STYLES[est.level]}`}>{est.level}</span>
+            <div className="text-xs font-bold text-gray-900 dark:text-white mt-1">{Math.round(est.proficiency * 100)}</div>
+            <div className="text-[9px] text-gray-400">{est.label} · {est.sessions}회</div>
+          </div>
+        ))}
       </div>
+      <p className="text-[10px] text-gray-400 mt-3 text-center">
+        Depth·Gap Check·자기 평가·실무 적용 근거 기준, {HALF_LIFE_DAYS}일마다 근거 무게가 절반으로 줄어듭니다
+      </p>
     </div>
   );
 }
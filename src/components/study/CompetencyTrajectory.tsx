@@ -0,0 +1,79 @@
+import { useMemo } from 'react';
+import { COMPETENCIES } from '../../services/study/competencies';
+import { competencyTrajectory } from '../../services/study/competencyModel';
+import { useCompetencyEvidence } from './useCompetencyEvidence';
+
+const WIDTH = 320;
+const HEIGHT = 140;
+const PAD = { top: 8, right: 8, bottom: 18, left: 24 };
+const WEEKS = 12;
+
+const COLORS: Record<string, string> = {
+  financial: '#10b981',
+  pricing: '#3b82f6',
+  impact: '#a855f7',
+  policy: '#f59e0b',
+  competition: '#ef4444',
+};
+
+/**
+ * 역량 추이 — 최근 12주 주 단위 숙련도, 점선은 Depth 평균
+ */
+export default function CompetencyTrajectory() {
+  const evidence = useCompetencyEvidence();
+  const points = useMemo(() => competencyTrajectory(evidence, new Date(), { points: WEEKS }), [evidence]);
+
+  const first = points[0];
+  const latest = points[points.length - 1];
+
+  if (evidence.length === 0 || !first || !latest) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-center">
+        <p className="text-sm text-gray-500 dark:text-gray-400">Depth·Gap Check 근거가 쌓이면 주 단위 역량 추이가 나타납니다</p>
+      </div>
+    );
+  }
+
+  const innerW = WIDTH - PAD.left - PAD.right;
+  const innerH = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (i / (points.length - 1)) * innerW;
+  const y = (v: number) => PAD.top + (1 - v) * innerH;
+  const path = (values: Array<number | null>) =>
+    values
+      .map((v, i) => (v === null ? null : `${x(i).toFixed(1)},${y(v).toFixed(1)}`))
+      .filter(Boolean)
+      .map((p, i) => `${i === 0 ? 'M' : 'L'}${p}`)
+      .join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+        {[0, 0.5, 1].map((v) => (
+          <g key={v}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(v)} y2={y(v)} stroke="currentColor" className="text-gray-200 dark:text-gray-800" strokeWidth="1" />
+            <text x={PAD.left - 4} y={y(v) + 3} textAnchor="end" className="fill-gray-400" fontSize="8">{v * 100}</text>
+          </g>
+        ))}
+        <text x={x(0)} y={HEIGHT - 4} className="fill-gray-400" fontSize="8">{first.date.slice(5)}</text>
+        <text x={x(points.length - 1)} y={HEIGHT - 4} textAnchor="end" className="fill-gray-400" fontSize="8">{latest.date.slice(5)}</text>
+        <path d={path(points.map((p) => p.depth))} fill="none" stroke="#9ca3af" strokeWidth="1.5" strokeDasharray="3 3" />
+        {COMPETENCIES.map((c) => (
+          <path key={c.key} d={path(points.map((p) => p.proficiency[c.key]))} fill="none" stroke={COLORS[c.key]} strokeWidth="2" strokeLinejoin="round">
+            <title>{`${c.label} ${Math.round(latest.proficiency[c.key] * 100)} · ${latest.levels[c.key]}`}</title>
+          </path>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-[10px] text-gray-500">
+        {COMPETENCIES.map((c) => (
+          <span key={c.key} className="flex items-center gap-1">
+            <span className="w-2.5 h-0.5 rounded" style={{ backgroundColor: COLORS[c.key] }} />
+            {c.label} {latest.levels[c.key]}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="w-2.5 border-t border-dashed border-gray-400" /> Depth 평균
+        </span>
+      </div>
+    </div>
+  );
+}
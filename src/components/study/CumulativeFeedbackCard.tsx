@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Sparkles, TrendingUp } from 'lucide-react';
+import { useStudyStore } from '../../stores/studyStore';
+import { useApplicationStore } from '../../stores/applicationStore';
+import { ensureCumulativeFeedback, latestCumulativeFeedback, loadCumulativeFeedback } from '../../services/study/feedback';
+import type { FeedbackSignal } from '../../services/study/competencyModel';
+import type { CumulativeFeedbackRow, FeedbackPeriod } from '../../services/repository';
+
+const PERIOD_LABELS: Record<FeedbackPeriod, string> = { weekly: '지난주', monthly: '지난달' };
+
+const signalsOf = (value: unknown): FeedbackSignal[] => (Array.isArray(value) ? (value as FeedbackSignal[]) : []);
+
+/**
+ * 누적 피드백 — 직전 주·달의 사각지대, 강점, 레벨 권고
+ */
+export default function CumulativeFeedbackCard() {
+  const completedSessions = useStudyStore((s) => s.completedSessions);
+  const applications = useApplicationStore((s) => s.applications);
+  const [rows, setRows] = useState<CumulativeFeedbackRow[]>(() => loadCumulativeFeedback());
+  const [period, setPeriod] = useState<FeedbackPeriod>('weekly');
+
+  useEffect(() => {
+    let cancelled = false;
+    ensureCumulativeFeedback(completedSessions, applications).then((next) => {
+      if (!cancelled) setRows(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [completedSessions, applications]);
+
+  const row = latestCumulativeFeedback(rows)[period];
+
+  return (
+    <div>
+      <div className="flex gap-1 mb-4">
+        {(Object.keys(PERIOD_LABELS) as FeedbackPeriod[]).map((p) => (
+          <button
+            key={p}
+            onClick={() => setPeriod(p)}
+            className={`px-2.5 py-1 text-xs rounded-md font-medium transition-colors ${
+              period === p ? 'bg-emerald-600 text-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {PERIOD_LABELS[p]}
+          </button>
+        ))}
+      </div>
+
+      {!row ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">
+          {PERIOD_LABELS[period]}까지 완료한 세션이 없어 피드백이 아직 없습니다
+        </p>
+      ) : (
+        <div className="space-y-4 text-xs">
+          <p className="text-[10px] text-gray-400">{row.period_start} ~ {row.period_end}</p>
+
+          <div>
+            <p className="font-bold text-gray-500 flex items-center gap-1 mb-1.5"><TrendingUp className="w-3.5 h-3.5 text-emerald-600" /> 레벨 권고</p>
+            <p className="text-gray-800 dark:text-gray-200 leading-relaxed">{row.level_recommendation}</p>
+          </div>
+
+          <div>
+            <p className="font-bold text-gray-500 flex items-center gap-1 mb-1.5"><AlertTriangle className="w-3.5 h-3.5 text-amber-500" /> 사각지대</p>
+            {signalsOf(row.blind_spots).length === 0 ? (
+              <p className="text-gray-400">뚜렷한 사각지대 없음</p>
+            ) : (
+              <ul className="space-y-1">
+                {signalsOf(row.blind_spots).slice(0, 5).map((s) => (
+                  <li key={`${s.kind}-${s.key}`}>
+                    <span className="font-semibold text-gray-800 dark:text-gray-200">{s.label}</span>
+                    <span className="text-gray-500"> — {s.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <p className="font-bold text-gray-500 flex items-center gap-1 mb-1.5"><Sparkles className="w-3.5 h-3.5 text-blue-500" /> 강점</p>
+            {signalsOf(row.strengths).length === 0 ? (
+              <p className="text-gray-400">근거가 더 쌓이면 강점이 나타납니다</p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5">
+                {signalsOf(row.strengths).slice(0, 5).map((s) => (
+                  <span key={`${s.kind}-${s.key}`} title={s.reason} className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400 font-medium">
+                    {s.label}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { RATIO_DEFINITIONS, formatRatio, type PeriodRatios } from '../../services/financials';
+
+interface FinancialRatioTableProps {
+  ratios: PeriodRatios[];
+}
+
+const GROUP_LABELS = {
+  growth: '성장',
+  profitability: '수익성',
+  cash: '현금·안정성',
+  unit: '단위 경제 (대용)',
+} as const;
+
+/**
+ * 지표 × 기간 표 — 모든 기간이 비어 있는 지표는 숨김
+ */
+export default function FinancialRatioTable({ ratios }: FinancialRatioTableProps) {
+  const rows = RATIO_DEFINITIONS.filter((d) => ratios.some((r) => r[d.key] !== null));
+  if (rows.length === 0) {
+    return <p className="text-xs text-gray-400">계산할 수 있는 지표가 없습니다. 매출·영업이익 등 계정이 있는 출처를 고르세요.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200 dark:border-gray-800">
+            <th className="py-2 pr-3">지표</th>
+            {ratios.map((r) => <th key={r.label} className="py-2 pr-3 text-right">{r.label}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((d, i) => (
+            <tr key={d.key} className="border-b border-gray-100 dark:border-gray-800/60 text-gray-700 dark:text-gray-300">
+              <td className="py-1.5 pr-3">
+                {(i === 0 || rows[i - 1]!.group !== d.group) && (
+                  <span className="block text-[10px] font-bold text-gray-400 uppercase">{GROUP_LABELS[d.group]}</span>
+                )}
+                {d.label}
+              </td>
+              {ratios.map((r) => {
+                const value = r[d.key];
+                const negative = value !== null && value < 0;
+                return (
+                  <td key={r.label} className={`py-1.5 pr-3 text-right ${negative ? 'text-red-600 dark:text-red-400' : ''}`}>
+                    {formatRatio(value, d.format)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { Building2, FileUp, Loader2, Sparkles } from 'lucide-react';
+import { fetchCompetitors } from '../../services/care';
+import type { CompetitorCorp } from '../../services/dartApi';
+import type { SyntheticCompany } from '../../services/study/types';
+import {
+  STATEMENT_SOURCE_LABELS,
+  loadDartStatements,
+  statementsFromCompany,
+  statementsFromCsv,
+  type FinancialStatements,
+  type StatementSource,
+} from '../../services/financials';
+
+interface FinancialSourcePickerProps {
+  /** 세션 출처 합성 기업 — 없으면 합성 탭 비활성 */
+  company: SyntheticCompany | null;
+  active: StatementSource;
+  onLoad: (statements: FinancialStatements) => void;
+}
+
+const inputClass = 'px-2 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded bg-white dark:bg-[#0a0f0a] text-gray-900 dark:text-gray-100 focus:ring-1 focus:ring-emerald-500 outline-none';
+
+const SOURCE_ICONS: Record<StatementSource, typeof Building2> = {
+  synthetic: Sparkles,
+  dart: Building2,
+  csv: FileUp,
+};
+
+const CSV_EXAMPLE = '계정,2024,2025\n매출액,82억,97억\n영업이익,-3.1억,1.2억';
+
+/**
+ * 재무제표 출처 선택 — 세션의 합성 기업, 등록된 경쟁사의 DART 사업보고서, CSV 업로드
+ */
+export default function FinancialSourcePicker({ company, active, onLoad }: FinancialSourcePickerProps) {
+  const [tab, setTab] = useState<StatementSource>(active);
+  const [competitors, setCompetitors] = useState<CompetitorCorp[]>([]);
+  const [corpCode, setCorpCode] = useState('');
+  const [year, setYear] = useState(0);
+  const [csvCompany, setCsvCompany] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (tab !== 'dart' || competitors.length > 0) return;
+    let cancelled = false;
+    void fetchCompetitors().then((registry) => {
+      if (cancelled) return;
+      if (!registry) {
+        setNotice('경쟁사 레지스트리를 불러오지 못했습니다');
+        return;
+      }
+      setCompetitors(registry.competitors);
+      setCorpCode((code) => code || registry.competitors[0]?.corpCode || '');
+    });
+    return () => { cancelled = true; };
+  }, [tab, competitors.length]);
+
+  const loadDart = async () => {
+    const corp = competitors.find((c) => c.corpCode === corpCode);
+    if (!corp) return;
+    setLoading(true);
+    setNotice(null);
+    try {
+      onLoad(await loadDartStatements(corp, year));
+    } catch (e) {
+      setNotice((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadCsv = async (file: File) => {
+    setNotice(null);
+    const { statements, unknownAccounts } = statementsFromCsv(csvCompany.trim() || file.name.replace(/\.csv$/i, ''), file.name, await file.text());
+    if (statements.periods.length === 0) {
+      setNotice('기간을 읽지 못했습니다. 첫 행은 "계정,2024,2025" 또는 "연도,매출액,영업이익" 형태여야 합니다.');
+      return;
+    }
+    if (unknownAccounts.length > 0) setNotice(`인식하지 못한 계정은 건너뜀: ${unknownAccounts.join(', ')}`);
+    onLoad(statements);
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 dark:border-gray-800 rounded-lg space-y-3">
+      <div className="flex gap-2">
+        {(Object.keys(STATEMENT_SOURCE_LABELS) as StatementSource[]).map((source) => {
+          const Icon = SOURCE_ICONS[source];
+          const disabled = source === 'synthetic' && !company;
+          return (
+            <button
+              key={source}
+              disabled={disabled}
+              onClick={() => {
+                setTab(source);
+                setNotice(null);
+                if (source === 'synthetic' && company) onLoad(statementsFromCompany(company));
+              }}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors disabled:opacity-40 ${
+                tab === source
+                  ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-400'
+                  : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-white/5'
+              }`}
+            >
+              <Icon className="w-3.5 h-3.5" />
+              {STATEMENT_SOURCE_LABELS[source]}
+            </button>
+          );
+        })}
+      </div>
+
+      {tab === 'synthetic' && company && (
+        <p className="text-xs text-gray-500">{company.name} — {company.description}</p>
+      )}
+
+      {tab === 'dart' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={corpCode} onChange={(e) => setCorpCode(e.target.value)} className={inputClass}>
+            {competitors.map((c) => <option key={c.corpCode} value={c.corpCode}>{c.name}</option>)}
+          </select>
+          <input
+            type="number"
+            min={0}
+            value={year || ''}
+            onChange={(e) => setYear(parseInt(e.target.value, 10) || 0)}
+            placeholder="사업연도 (비우면 최근)"
+            className={`${inputClass} w-44`}
+          />
+          <button
+            onClick={loadDart}
+            disabled={!corpCode || loading}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+          >
+            {loading && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            사업보고서 불러오기
+          </button>
+          <span className="text-[11px] text-gray-400">경쟁사는 설정 → 경쟁사 레지스트리에서 추가</span>
+        </div>
+      )}
+
+      {tab === 'csv' && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <input value={csvCompany} onChange={(e) => setCsvCompany(e.target.value)} placeholder="회사 이름 (비우면 파일명)" className={inputClass} />
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void loadCsv(file);
+                e.target.value = '';
+              }}
+              className="text-xs text-gray-600 dark:text-gray-400"
+            />
+          </div>
+          <pre className="text-[11px] text-gray-400 bg-gray-50 dark:bg-white/5 rounded p-2">{CSV_EXAMPLE}</pre>
+        </div>
+      )}
+
+      {notice && <p className="text-xs text-amber-600 dark:text-amber-400">{notice}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { formatWon, type PeriodRatios, type StatementPeriod } from '../../services/financials';
+
+interface FinancialTrendChartProps {
+  periods: StatementPeriod[];
+  ratios: PeriodRatios[];
+}
+
+const WIDTH = 520;
+const HEIGHT = 200;
+const AXIS = 28;
+const TOP = 16;
+
+/**
+ * 기간별 매출(막대)·영업이익(막대, 음수는 아래) + 영업이익률 꺾은선
+ */
+export default function FinancialTrendChart({ periods, ratios }: FinancialTrendChartProps) {
+  const shown = periods.filter((p) => p.revenue !== null || p.operatingIncome !== null);
+  if (shown.length === 0) {
+    return <p className="text-xs text-gray-400">매출이나 영업이익이 있는 기간이 없어 추이를 그릴 수 없습니다.</p>;
+  }
+
+  const values = shown.flatMap((p) => [p.revenue ?? 0, p.operatingIncome ?? 0]);
+  const max = Math.max(0, ...values);
+  const min = Math.min(0, ...values);
+  const span = max - min || 1;
+  const plotHeight = HEIGHT - AXIS - TOP;
+  const y = (v: number) => TOP + ((max - v) / span) * plotHeight;
+  const slot = WIDTH / shown.length;
+  const barWidth = Math.min(36, slot / 3);
+
+  const margins = shown.map((p) => ratios.find((r) => r.label === p.label)?.operatingMargin ?? null);
+  const marginValues = margins.filter((m): m is number => m !== null);
+  const mMax = Math.max(0, ...marginValues);
+  const mMin = Math.min(0, ...marginValues);
+  const mSpan = mMax - mMin || 1;
+  const my = (m: number) => TOP + ((mMax - m) / mSpan) * plotHeight;
+  const linePoints = margins
+    .map((m, i) => (m === null ? null : `${slot * i + slot / 2},${my(m)}`))
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full text-gray-600 dark:text-gray-400" role="img" aria-label="매출·영업이익 추이 차트">
+        <line x1={0} x2={WIDTH} y1={y(0)} y2={y(0)} className="stroke-gray-300 dark:stroke-gray-700" />
+        {shown.map((p, i) => {
+          const cx = slot * i + slot / 2;
+          const revenue = p.revenue ?? 0;
+          const op = p.operatingIncome ?? 0;
+          return (
+            <g key={p.label}>
+              <title>{`${p.label}: 매출 ${p.revenue === null ? '—' : formatWon(revenue)}, 영업이익 ${p.operatingIncome === null ? '—' : formatWon(op)}`}</title>
+              <rect x={cx - barWidth - 1} y={Math.min(y(revenue), y(0))} width={barWidth} height={Math.max(1, Math.abs(y(revenue) - y(0)))} className="fill-emerald-500/80" />
+              <rect x={cx + 1} y={Math.min(y(op), y(0))} width={barWidth} height={Math.max(1, Math.abs(y(op) - y(0)))} className={op < 0 ? 'fill-red-400/80' : 'fill-sky-500/80'} />
+              <text x={cx} y={HEIGHT - 8} textAnchor="middle" fontSize="11" fill="currentColor">{p.label}</text>
+            </g>
+          );
+        })}
+        {marginValues.length > 1 && <polyline points={linePoints} fill="none" className="stroke-amber-500" strokeWidth={2} />}
+        {margins.map((m, i) => m !== null && (
+          <g key={i}>
+            <circle cx={slot * i + slot / 2} cy={my(m)} r={3} className="fill-amber-500" />
+            <text x={slot * i + slot / 2 + 6} y={my(m) - 4} fontSize="10" className="fill-amber-600 dark:fill-amber-400">{(m * 100).toFixed(1)}%</text>
+          </g>
+        ))}
+      </svg>
+      <div className="flex gap-4 text-[11px] text-gray-500">
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 bg-emerald-500/80 inline-block" /> 매출</span>
+        <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 bg-sky-500/80 inline-block" /> 영업이익 (적자는 빨강)</span>
+        <span className="flex items-center gap-1"><span className="w-2.5 h-0.5 bg-amber-500 inline-block" /> 영업이익률</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useCallback, useEffect, useState, type ReactNode } from 'react';
+import { ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+import SessionStepper from './SessionStepper';
+import { useStudyStore, type StudySession } from '../../stores/studyStore';
+import { evaluateStudyAnswer, generateStudySession, pickStudySource } from '../../services/study';
+import { dataBadge } from '../../services/study/generator';
+import { DEPTH_DIMENSION_LABELS, DEPTH_SCORE_MAX, type StudyGapKind, type StudySessionType, type StudySource } from '../../services/study/types';
+
+interface GeneratedStudySessionProps {
+  type: StudySessionType;
+  category: string;
+  /** 질문이 생성되기 전 헤더 제목 */
+  fallbackTitle: string;
+  answerPlaceholder: string;
+  insightPlaceholder: string;
+  /** My Answer 단계 상단의 작업 영역 (예: SROI 계산기) */
+  workspace?: ReactNode;
+  /** Gap Check에 My Answer와 함께 보낼 작업 요약 — 바뀌면 setEvaluation(undefined)로 재평가 */
+  answerAppendix?: string;
+  /** endSession 직전 호출 — Knowledge Base 저장 등 */
+  onComplete: (session: StudySession) => void;
+}
+
+const GAP_STYLES: Record<StudyGapKind, { icon: string; className: string }> = {
+  covered: { icon: '✅', className: 'bg-emerald-50 dark:bg-emerald-900/15 text-emerald-800 dark:text-emerald-200' },
+  missed: { icon: '❌', className: 'bg-red-50 dark:bg-red-900/15 text-red-800 dark:text-red-200' },
+  inaccurate: { icon: '⚠️', className: 'bg-amber-50 dark:bg-amber-900/15 text-amber-800 dark:text-amber-200' },
+};
+
+const SELF_RATING_LABELS = ['', '막막함', '일부 이해', '설명 가능', '적용 가능', '가르칠 수 있음'];
+
+const textareaClass = 'w-full p-4 text-sm border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-[#0a0f0a] text-gray-900 dark:text-gray-100 resize-none focus:ring-1 focus:ring-blue-500 outline-none min-h-[200px]';
+
+function sourceLink(source: StudySource | null | undefined): string {
+  return source?.kind === 'article' ? source.article.link : '';
+}
+
+/**
+ * 5단계 학습 세션 — 출처에서 Question을 만들고, AI Reference와 Gap Check는 LLM 체인에서 받음
+ * 세션 종류별 화면(SROICalculator, PricingLab …)은 종류·문구·작업 영역·완료 처리를 넘김
+ */
+export default function GeneratedStudySession({
+  type, category, fallbackTitle, answerPlaceholder, insightPlaceholder, workspace, answerAppendix = '', onComplete,
+}: GeneratedStudySessionProps) {
+  const currentSession = useStudyStore((s) => s.currentSession);
+  const startSession = useStudyStore((s) => s.startSession);
+  const updateMyAnswer = useStudyStore((s) => s.updateMyAnswer);
+  const updateInsight = useStudyStore((s) => s.updateInsight);
+  const setGeneration = useStudyStore((s) => s.setGeneration);
+  const setEvaluation = useStudyStore((s) => s.setEvaluation);
+  const setSelfRating = useStudyStore((s) => s.setSelfRating);
+  const endSession = useStudyStore((s) => s.endSession);
+  const [generating, setGenerating] = useState(false);
+  const [evaluating, setEvaluating] = useState(false);
+
+  const sessionId = currentSession?.id;
+  const step = currentSession?.step ?? 0;
+  const generation = currentSession?.generation;
+  const evaluation = currentSession?.evaluation;
+  const source = currentSession?.source;
+  const myAnswer = currentSession?.data.myAnswer ?? '';
+  const insight = currentSession?.data.insight ?? '';
+  const fullAnswer = [myAnswer.trim(), answerAppendix.trim()].filter(Boolean).join('\n\n');
+
+  useEffect(() => {
+    if (!currentSession) startSession(type);
+  }, [currentSession, startSession, type]);
+
+  /** 다른 세션으로 넘어간 뒤 도착한 응답은 버림 */
+  const isCurrent = (id: string) => useStudyStore.getState().currentSession?.id === id;
+
+  const generate = useCallback(async (nextSource: () => Promise<StudySource | null>) => {
+    if (!sessionId) return;
+    setGenerating(true);
+    try {
+      const picked = await nextSource();
+      const result = await generateStudySession(type, picked);
+      if (isCurrent(sessionId)) setGeneration(picked, result);
+    } finally {
+      setGenerating(false);
+    }
+  }, [sessionId, type, setGeneration]);
+
+  useEffect(() => {
+    if (!sessionId || generation) return;
+    const article = useStudyStore.getState().currentSession?.articleContext;
+    void generate(() => pickStudySource(type, article));
+  }, [sessionId, generation, generate, type]);
+
+  const evaluate = useCallback(async () => {
+    if (!sessionId || !generation || !fullAnswer) return;
+    setEvaluating(true);
+    try {
+      const result = await evaluateStudyAnswer(type, generation, fullAnswer);
+      if (isCurrent(sessionId)) setEvaluation(result);
+    } finally {
+      setEvaluating(false);
+    }
+  }, [sessionId, generation, fullAnswer, type, setEvaluation]);
+
+  // 답변을 고치면 evaluation이 지워지므로 Gap Check 단계에 다시 들어올 때 재평가
+  useEffect(() => {
+    if (step === 3 && !evaluation && !evaluating) void evaluate();
+  }, [step, evaluation, evaluating, evaluate]);
+
+  if (!currentSession) return null;
+
+  const question = generation?.question;
+  const badge = dataBadge(source ?? null);
+  const link = sourceLink(source);
+
+  const handleComplete = () => {
+    onComplete(currentSession);
+    endSession();
+  };
+
+  return (
+    <SessionStepper
+      title={question?.title || fallbackTitle}
+      category={category}
+      renderQuestion={() => (
+        <div className="space-y-4">
+          {!question ? (
+            <div className="flex items-center justify-center gap-2 py-10 text-sm text-gray-400">
+              <Loader2 className="w-4 h-4 animate-spin" /> 문제를 만드는 중...
+            </div>
+          ) : (
+            <>
+              <div className="flex items-start justify-between gap-3">
+                <h3 className="text-lg font-bold text-gray-900 dark:text-white">Q. {question.prompt}</h3>
+                <button
+                  onClick={() => void generate(() => pickStudySource(type, undefined, source))}
+                  disabled={generating}
+                  className="flex-shrink-0 flex items-center gap-1 px-3 py-1.5 text-xs text-gray-600 dark:text-gray-400 border border-gray-200 dark:border-gray-700 rounded-lg hover:text-gray-900 dark:hover:text-white disabled:opacity-40"
+                >
+                  <RefreshCw className={`w-3 h-3 ${generating ? 'animate-spin' : ''}`} /> 다른 문제
+                </button>
+              </div>
+              {question.context.length > 0 && (
+                <div className="bg-gray-100 dark:bg-gray-800 p-5 rounded-lg text-sm space-y-1.5 text-gray-600 dark:text-gray-400">
+                  {question.context.map((line, i) => <p key={i}>• {line}</p>)}
+                </div>
+              )}
+              <div className="flex items-center gap-3 text-xs">
+                {badge && (
+                  <span className={`px-2 py-0.5 rounded font-medium ${badge === 'real'
+                    ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/25 dark:text-blue-400'
+                    : 'bg-gray-100 text-gray-600 dark:bg-white/5 dark:text-gray-400'}`}
+                  >
+                    {badge === 'real' ? '실제 기사' : '합성 데이터'}
+                  </span>
+                )}
+                {link && (
+                  <a href={link} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-blue-600 hover:underline">
+                    원문 보기 <ExternalLink className="w-3 h-3" />
+                  </a>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+      renderMyAnswer={() => (
+        <div className="space-y-3">
+          {workspace}
+          <h3 className="font-bold text-gray-900 dark:text-white">나의 답변</h3>
+          {question?.answerGuide && <p className="text-sm text-gray-500">{question.answerGuide}</p>}
+          <textarea
+            value={myAnswer}
+            onChange={(e) => updateMyAnswer(e.target.value)}
+            placeholder={answerPlaceholder}
+            className={textareaClass}
+          />
+          <p className="text-xs text-gray-400">{myAnswer.length}자 작성됨</p>
+        </div>
+      )}
+      renderAiReference={() => (
+        <div className="space-y-3">
+          <h3 className="font-bold text-gray-900 dark:text-white">AI 참고 답안</h3>
+          {generating ? (
+            <div className="flex items-center justify-center gap-2 py-10 text-sm text-gray-400">
+              <Loader2 className="w-4 h-4 animate-spin" /> 참고 답안을 만드는 중...
+            </div>
+          ) : generation?.reference ? (
+            <>
+              <div className="p-5 bg-purple-50 dark:bg-purple-900/10 border border-purple-100 dark:border-purple-800 rounded-lg text-sm leading-relaxed text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
+                {generation.reference}
+              </div>
+              <p className="text-[11px] text-gray-400">
+                {generation.provider === 'cache' ? '캐시된 답안' : generation.provider} · {generation.model}
+              </p>
+            </>
+          ) : (
+            <div className="p-4 border border-gray-200 dark:border-gray-800 rounded-lg text-sm text-gray-500 space-y-3">
+              <p>AI 참고 답안을 받지 못했습니다. LLM 제공자(Ollama·Groq·OpenRouter)가 설정되어 있는지 확인하세요.</p>
+              <button
+                onClick={() => void generate(async () => source ?? null)}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs border border-gray-200 dark:border-gray-700 rounded-lg hover:text-gray-900 dark:hover:text-white"
+              >
+                <RefreshCw className="w-3 h-3" /> 다시 시도
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+      renderGapCheck={() => (
+        <div className="space-y-4">
+          <h3 className="font-bold text-gray-900 dark:text-white">Gap Check</h3>
+          {!fullAnswer ? (
+            <div className="text-center py-10 text-gray-400 text-sm">이전 단계에서 답변을 작성해주세요.</div>
+          ) : evaluating ? (
+            <div className="flex items-center justify-center gap-2 py-10 text-sm text-gray-400">
+              <Loader2 className="w-4 h-4 animate-spin" /> 답변을 비교하는 중...
+            </div>
+          ) : !evaluation || evaluation.fallback ? (
+            <div className="p-4 border border-gray-200 dark:border-gray-800 rounded-lg text-sm text-gray-500 space-y-3">
+              <p>자동 비교를 하지 못했습니다. AI 참고 답안과 직접 비교해 놓친 관점을 점검하세요.</p>
+              <button
+                onClick={() => void evaluate()}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs border border-gray-200 dark:border-gray-700 rounded-lg hover:text-gray-900 dark:hover:text-white"
+              >
+                <RefreshCw className="w-3 h-3" /> 다시 비교
+              </button>
+            </div>
+          ) : (
+            <>
+              {evaluation.summary && <p className="text-sm text-gray-700 dark:text-gray-300">{evaluation.summary}</p>}
+              <ul className="space-y-2 text-sm">
+                {evaluation.gaps.map((gap, i) => (
+                  <li key={i} className={`flex gap-3 p-3 rounded ${GAP_STYLES[gap.kind].className}`}>
+                    <span className="font-bold flex-shrink-0">{GAP_STYLES[gap.kind].icon}</span>
+                    <span><strong>{gap.point}</strong>{gap.detail && ` — ${gap.detail}`}</span>
+                  </li>
+                ))}
+              </ul>
+              {evaluation.depthScores.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Depth</h4>
+                  {evaluation.depthScores.map((d) => (
+                    <div key={d.dimension} className="grid grid-cols-[5rem_1fr_2rem] items-center gap-3 text-xs" title={d.reason}>
+                      <span className="text-gray-600 dark:text-gray-400">{DEPTH_DIMENSION_LABELS[d.dimension]}</span>
+                      <div className="h-2 rounded bg-gray-200 dark:bg-gray-800 overflow-hidden">
+                        <div className="h-full rounded bg-blue-500" style={{ width: `${(d.score / DEPTH_SCORE_MAX) * 100}%` }} />
+                      </div>
+                      <span className="text-right font-medium text-gray-700 dark:text-gray-300">{d.score}/{DEPTH_SCORE_MAX}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+      renderInsight={() => (
+        <div className="space-y-3">
+          <h3 className="font-bold text-gray-900 dark:text-white">💡 인사이트 정리</h3>
+          <p className="text-sm text-gray-500">AI 참고 답안과 Gap Check를 종합해 업무에 적용할 핵심 인사이트를 정리하세요. Knowledge Base에 저장됩니다.</p>
+          <textarea
+            value={insight}
+            onChange={(e) => updateInsight(e.target.value)}
+            placeholder={insightPlaceholder}
+            className={textareaClass}
+          />
+          <div className="flex items-center gap-3 text-xs flex-wrap">
+            <span className="text-gray-500">이 주제, 지금 어느 정도인가요?</span>
+            <div className="flex gap-1">
+              {[1, 2, 3, 4, 5].map((rating) => (
+                <button
+                  key={rating}
+                  onClick={() => setSelfRating(rating)}
+                  title={SELF_RATING_LABELS[rating]}
+                  className={`w-7 h-7 rounded-full border font-bold transition-colors ${currentSession.selfRating === rating
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-gray-200 dark:border-gray-700 text-gray-500 hover:border-blue-400'}`}
+                >
+                  {rating}
+                </button>
+              ))}
+            </div>
+            {currentSession.selfRating && <span className="text-gray-400">{SELF_RATING_LABELS[currentSession.selfRating]}</span>}
+          </div>
+        </div>
+      )}
+      onComplete={handleComplete}
+    />
+  );
+}
@@ -0,0 +1,90 @@
+import {
+  DEAL_KIND_LABELS,
+  compareWithAwards,
+  compareWithCompetitors,
+  type AwardedPrice,
+  type DealResult,
+  type PricingScenario,
+} from '../../services/pricing';
+
+interface PricingResultsProps {
+  scenario: PricingScenario;
+  results: DealResult[];
+  awards: AwardedPrice[];
+}
+
+const won = (v: number) => `${Math.round(v).toLocaleString('ko-KR')}원`;
+const pct = (v: number) => `${Math.round(v * 1000) / 10}%`;
+
+/**
+ * 거래별 결과 + 경쟁사 가격 대비 프리미엄 + B2G 계약 총액의 낙찰가 분포 내 위치
+ */
+export default function PricingResults({ scenario, results, awards }: PricingResultsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200 dark:border-gray-800">
+              <th className="py-2 pr-3">거래</th>
+              <th className="py-2 pr-3 text-right">할인 후 단가</th>
+              <th className="py-2 pr-3 text-right">계약 총액</th>
+              <th className="py-2 pr-3 text-right">매출총이익률</th>
+              <th className="py-2 pr-3 text-right">회수 기간</th>
+              <th className="py-2 text-right">단위당 월</th>
+            </tr>
+          </thead>
+          <tbody>
+            {scenario.deals.map((deal, i) => {
+              const r = results[i]!;
+              return (
+                <tr key={deal.id} className="border-b border-gray-100 dark:border-gray-800/60 text-gray-700 dark:text-gray-300">
+                  <td className="py-2 pr-3">
+                    <span className="font-medium">{deal.label}</span>
+                    <span className="ml-1 text-gray-400">{DEAL_KIND_LABELS[deal.kind]}</span>
+                  </td>
+                  <td className="py-2 pr-3 text-right">{won(r.netUnitPrice)}{r.discountRate > 0 && <span className="text-gray-400"> (−{pct(r.discountRate)})</span>}</td>
+                  <td className="py-2 pr-3 text-right font-medium">{won(r.contractRevenue)}</td>
+                  <td className={`py-2 pr-3 text-right ${r.grossMargin < 0.5 ? 'text-red-600 dark:text-red-400' : 'text-emerald-600 dark:text-emerald-400'}`}>{pct(r.grossMargin)}</td>
+                  <td className="py-2 pr-3 text-right">{r.paybackMonths === null ? '회수 불가' : `${r.paybackMonths}개월`}</td>
+                  <td className="py-2 text-right">{won(r.effectiveMonthlyPerUnit)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {scenario.deals.map((deal, i) => {
+        const r = results[i]!;
+        const competitors = compareWithCompetitors(scenario, r);
+        const award = deal.kind === 'b2g' ? compareWithAwards(r.contractRevenue, awards) : null;
+        if (competitors.length === 0 && !award) return null;
+        return (
+          <div key={deal.id} className="p-3 rounded-lg bg-gray-50 dark:bg-white/5 text-xs space-y-2">
+            <p className="font-bold text-gray-700 dark:text-gray-300">{deal.label} 비교</p>
+            {competitors.map(({ competitor, monthlyPerUnit, premium }) => (
+              <p key={competitor.id} className="text-gray-600 dark:text-gray-400">
+                {competitor.name}: 단위당 월 {won(monthlyPerUnit)}
+                {competitor.period === 'once' && ' (일시 가격 36개월 상각)'} →{' '}
+                <span className={premium > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-emerald-600 dark:text-emerald-400'}>
+                  {premium > 0 ? `${pct(premium)} 비쌈` : `${pct(-premium)} 저렴`}
+                </span>
+              </p>
+            ))}
+            {award && (
+              <p className="text-gray-600 dark:text-gray-400">
+                조달 낙찰가 {award.count}건: 중앙값 {won(award.median)} (IQR {won(award.p25)}–{won(award.p75)})
+                {award.medianAwardRatio > 0 && `, 낙찰률 중앙값 ${pct(award.medianAwardRatio)}`}
+                {' '}→ 계약 총액이 낙찰가의 <strong>{pct(award.percentile)}</strong>보다 높음
+              </p>
+            )}
+          </div>
+        );
+      })}
+      {awards.length === 0 && (
+        <p className="text-[11px] text-gray-400">낙찰 결과가 확인된 조달 공고가 아직 없어 낙찰가 비교는 생략합니다 (Tracking에서 조달 추적 후 표시).</p>
+      )}
+    </div>
+  );
+}
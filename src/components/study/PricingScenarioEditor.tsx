@@ -0,0 +1,213 @@
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  DEAL_KIND_LABELS,
+  PRICING_MODEL_LABELS,
+  PRICING_UNIT_LABELS,
+  createCompetitorPoint,
+  createDeal,
+  createDiscount,
+  createTier,
+  type CompetitorPricePoint,
+  type DealKind,
+  type DealShape,
+  type PricingDiscount,
+  type PricingModelKind,
+  type PricingScenario,
+  type PricingTier,
+  type PricingUnit,
+} from '../../services/pricing';
+
+interface PricingScenarioEditorProps {
+  scenario: PricingScenario;
+  onChange: (scenario: PricingScenario) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded bg-white dark:bg-[#0a0f0a] text-gray-900 dark:text-gray-100 focus:ring-1 focus:ring-emerald-500 outline-none';
+const labelClass = 'block text-[11px] font-medium text-gray-500 mb-1';
+const sectionClass = 'p-4 border border-gray-200 dark:border-gray-800 rounded-lg space-y-3';
+const sectionTitleClass = 'text-xs font-bold text-gray-500 uppercase tracking-wider';
+const addButtonClass = 'flex items-center gap-1 text-xs text-emerald-600 dark:text-emerald-400 hover:underline';
+
+const UNIT_PRICE_LABELS: Record<PricingModelKind, string> = {
+  subscription: '월 단가',
+  license: '라이선스 단가',
+  outcome: '성과 1건 단가',
+};
+
+function NumberField({ label, value, onChange, step = 1 }: { label: string; value: number; onChange: (v: number) => void; step?: number }) {
+  return (
+    <label className="block">
+      <span className={labelClass}>{label}</span>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={Number.isFinite(value) ? value : 0}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className={inputClass}
+      />
+    </label>
+  );
+}
+
+function PercentField({ label, value, onChange }: { label: string; value: number; onChange: (v: number) => void }) {
+  return <NumberField label={`${label} (%)`} value={Math.round(value * 1000) / 10} onChange={(v) => onChange(Math.min(100, v) / 100)} />;
+}
+
+function RemoveButton({ onClick, title }: { onClick: () => void; title: string }) {
+  return (
+    <button onClick={onClick} title={title} className="self-end p-1.5 text-gray-400 hover:text-red-500">
+      <Trash2 className="w-4 h-4" />
+    </button>
+  );
+}
+
+/**
+ * 가격 시나리오 편집 — 과금 단위·방식, 구간 단가, 할인, 거래 형태, 경쟁사 가격
+ */
+export default function PricingScenarioEditor({ scenario, onChange }: PricingScenarioEditorProps) {
+  const patchList = <K extends 'tiers' | 'discounts' | 'deals' | 'competitors'>(key: K, id: string, patch: Partial<PricingScenario[K][number]>) =>
+    onChange({ ...scenario, [key]: (scenario[key] as Array<{ id: string }>).map((item) => (item.id === id ? { ...item, ...patch } : item)) });
+  const removeFrom = (key: 'tiers' | 'discounts' | 'deals' | 'competitors', id: string) =>
+    onChange({ ...scenario, [key]: (scenario[key] as Array<{ id: string }>).filter((item) => item.id !== id) });
+
+  const patchTier = (id: string, patch: Partial<PricingTier>) => patchList('tiers', id, patch);
+  const patchDiscount = (id: string, patch: Partial<PricingDiscount>) => patchList('discounts', id, patch);
+  const patchDeal = (id: string, patch: Partial<DealShape>) => patchList('deals', id, patch);
+  const patchCompetitor = (id: string, patch: Partial<CompetitorPricePoint>) => patchList('competitors', id, patch);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 p-4 bg-emerald-50 dark:bg-emerald-900/10 border border-emerald-100 dark:border-emerald-800 rounded-lg">
+        <label className="block">
+          <span className={labelClass}>과금 단위</span>
+          <select value={scenario.unit} onChange={(e) => onChange({ ...scenario, unit: e.target.value as PricingUnit })} className={inputClass}>
+            {(Object.keys(PRICING_UNIT_LABELS) as PricingUnit[]).map((u) => <option key={u} value={u}>{PRICING_UNIT_LABELS[u]}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className={labelClass}>과금 방식</span>
+          <select value={scenario.model} onChange={(e) => onChange({ ...scenario, model: e.target.value as PricingModelKind })} className={inputClass}>
+            {(Object.keys(PRICING_MODEL_LABELS) as PricingModelKind[]).map((m) => <option key={m} value={m}>{PRICING_MODEL_LABELS[m]}</option>)}
+          </select>
+        </label>
+        {scenario.model === 'license' && (
+          <PercentField label="연 유지보수율" value={scenario.maintenanceRate} onChange={(maintenanceRate) => onChange({ ...scenario, maintenanceRate })} />
+        )}
+      </div>
+
+      <div className={sectionClass}>
+        <h4 className={sectionTitleClass}>구간 단가 (수량 이상이면 전체에 적용)</h4>
+        {scenario.tiers.map((tier) => (
+          <div key={tier.id} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-3">
+            <label className="block">
+              <span className={labelClass}>구간 이름</span>
+              <input value={tier.name} onChange={(e) => patchTier(tier.id, { name: e.target.value })} placeholder="예: Standard" className={inputClass} />
+            </label>
+            <NumberField label="최소 수량" value={tier.minUnits} onChange={(minUnits) => patchTier(tier.id, { minUnits })} />
+            <NumberField label={`${UNIT_PRICE_LABELS[scenario.model]} (원)`} step={1000} value={tier.unitPrice} onChange={(unitPrice) => patchTier(tier.id, { unitPrice })} />
+            <RemoveButton onClick={() => removeFrom('tiers', tier.id)} title="구간 삭제" />
+          </div>
+        ))}
+        <button onClick={() => onChange({ ...scenario, tiers: [...scenario.tiers, createTier(0)] })} className={addButtonClass}>
+          <Plus className="w-3 h-3" /> 구간 추가
+        </button>
+      </div>
+
+      <div className={sectionClass}>
+        <h4 className={sectionTitleClass}>할인</h4>
+        {scenario.discounts.map((d) => (
+          <div key={d.id} className="grid grid-cols-[2fr_1fr_1fr_auto] gap-3">
+            <label className="block">
+              <span className={labelClass}>할인 이름</span>
+              <input value={d.label} onChange={(e) => patchDiscount(d.id, { label: e.target.value })} placeholder="예: 다년 계약 할인" className={inputClass} />
+            </label>
+            <PercentField label="할인율" value={d.rate} onChange={(rate) => patchDiscount(d.id, { rate })} />
+            <label className="block">
+              <span className={labelClass}>적용 거래</span>
+              <select value={d.appliesTo} onChange={(e) => patchDiscount(d.id, { appliesTo: e.target.value as PricingDiscount['appliesTo'] })} className={inputClass}>
+                <option value="all">전체</option>
+                <option value="b2g">B2G</option>
+                <option value="b2b">B2B</option>
+              </select>
+            </label>
+            <RemoveButton onClick={() => removeFrom('discounts', d.id)} title="할인 삭제" />
+          </div>
+        ))}
+        <button onClick={() => onChange({ ...scenario, discounts: [...scenario.discounts, createDiscount()] })} className={addButtonClass}>
+          <Plus className="w-3 h-3" /> 할인 추가
+        </button>
+      </div>
+
+      <div className={sectionClass}>
+        <h4 className={sectionTitleClass}>거래 형태</h4>
+        {scenario.deals.map((deal) => (
+          <div key={deal.id} className="space-y-2 pb-3 border-b last:border-b-0 border-gray-100 dark:border-gray-800">
+            <div className="grid grid-cols-[1fr_2fr_auto] gap-3">
+              <label className="block">
+                <span className={labelClass}>구분</span>
+                <select value={deal.kind} onChange={(e) => patchDeal(deal.id, { kind: e.target.value as DealKind })} className={inputClass}>
+                  {(Object.keys(DEAL_KIND_LABELS) as DealKind[]).map((k) => <option key={k} value={k}>{DEAL_KIND_LABELS[k]}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className={labelClass}>거래 이름</span>
+                <input value={deal.label} onChange={(e) => patchDeal(deal.id, { label: e.target.value })} className={inputClass} />
+              </label>
+              <RemoveButton onClick={() => removeFrom('deals', deal.id)} title="거래 삭제" />
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+              <NumberField label={scenario.model === 'outcome' ? '월 성과 건수' : '수량'} value={deal.units} onChange={(units) => patchDeal(deal.id, { units })} />
+              <NumberField label="계약 기간 (개월)" value={deal.contractMonths} onChange={(contractMonths) => patchDeal(deal.id, { contractMonths })} />
+              <NumberField label="구축비 (원)" step={100000} value={deal.setupFee} onChange={(setupFee) => patchDeal(deal.id, { setupFee })} />
+              <NumberField label="단위당 월 원가 (원)" step={1000} value={deal.unitCostMonthly} onChange={(unitCostMonthly) => patchDeal(deal.id, { unitCostMonthly })} />
+              <NumberField label="획득 비용 (원)" step={100000} value={deal.acquisitionCost} onChange={(acquisitionCost) => patchDeal(deal.id, { acquisitionCost })} />
+              <NumberField label="대금 지연 (개월)" value={deal.paymentLagMonths} onChange={(paymentLagMonths) => patchDeal(deal.id, { paymentLagMonths })} />
+            </div>
+          </div>
+        ))}
+        <div className="flex gap-4">
+          {(Object.keys(DEAL_KIND_LABELS) as DealKind[]).map((kind) => (
+            <button key={kind} onClick={() => onChange({ ...scenario, deals: [...scenario.deals, createDeal(kind)] })} className={addButtonClass}>
+              <Plus className="w-3 h-3" /> {DEAL_KIND_LABELS[kind]} 거래 추가
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={sectionClass}>
+        <h4 className={sectionTitleClass}>경쟁사 가격 (시나리오 저장 시 목록도 저장)</h4>
+        {scenario.competitors.map((c) => (
+          <div key={c.id} className="grid grid-cols-2 md:grid-cols-[1.5fr_1fr_1fr_1fr_1.5fr_auto] gap-3">
+            <label className="block">
+              <span className={labelClass}>경쟁사·제품</span>
+              <input value={c.name} onChange={(e) => patchCompetitor(c.id, { name: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className={labelClass}>단위</span>
+              <select value={c.unit} onChange={(e) => patchCompetitor(c.id, { unit: e.target.value as PricingUnit })} className={inputClass}>
+                {(Object.keys(PRICING_UNIT_LABELS) as PricingUnit[]).map((u) => <option key={u} value={u}>{PRICING_UNIT_LABELS[u]}</option>)}
+              </select>
+            </label>
+            <NumberField label="가격 (원)" step={1000} value={c.price} onChange={(price) => patchCompetitor(c.id, { price })} />
+            <label className="block">
+              <span className={labelClass}>주기</span>
+              <select value={c.period} onChange={(e) => patchCompetitor(c.id, { period: e.target.value as CompetitorPricePoint['period'] })} className={inputClass}>
+                <option value="month">월</option>
+                <option value="once">일시</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>출처</span>
+              <input value={c.source} onChange={(e) => patchCompetitor(c.id, { source: e.target.value })} placeholder="예: 공식 가격표, 조달 계약" className={inputClass} />
+            </label>
+            <RemoveButton onClick={() => removeFrom('competitors', c.id)} title="경쟁사 삭제" />
+          </div>
+        ))}
+        <button onClick={() => onChange({ ...scenario, competitors: [...scenario.competitors, createCompetitorPoint(scenario.unit)] })} className={addButtonClass}>
+          <Plus className="w-3 h-3" /> 경쟁사 가격 추가
+        </button>
+      </div>
+    </div>
+  );
+}
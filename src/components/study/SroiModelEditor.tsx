@@ -0,0 +1,209 @@
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  IRIS_CATEGORIES,
+  createOutcome,
+  createStakeholder,
+  removeStakeholder,
+  suggestIrisCategory,
+  type SroiModel,
+  type SroiOutcome,
+  type SroiResult,
+  type SroiStakeholder,
+} from '../../services/sroi';
+
+interface SroiModelEditorProps {
+  model: SroiModel;
+  result: SroiResult;
+  onChange: (model: SroiModel) => void;
+}
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-200 dark:border-gray-700 rounded bg-white dark:bg-[#0a0f0a] text-gray-900 dark:text-gray-100 focus:ring-1 focus:ring-purple-500 outline-none';
+const labelClass = 'block text-[11px] font-medium text-gray-500 mb-1';
+
+const won = (v: number) => `${Math.round(v).toLocaleString('ko-KR')}원`;
+
+function NumberField({ label, value, onChange, suffix, step = 1 }: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  suffix?: string;
+  step?: number;
+}) {
+  return (
+    <label className="block">
+      <span className={labelClass}>{label}{suffix && ` (${suffix})`}</span>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={Number.isFinite(value) ? value : 0}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className={inputClass}
+      />
+    </label>
+  );
+}
+
+/** 0–1 비율을 % 입력으로 */
+function PercentField({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <NumberField
+      label={label}
+      suffix="%"
+      value={Math.round(value * 1000) / 10}
+      onChange={(v) => onChange(Math.min(100, v) / 100)}
+    />
+  );
+}
+
+/**
+ * SROI 계산기 — 투입 비용, 이해관계자, 성과별 프록시·조정 비율 편집과 실시간 결과
+ */
+export default function SroiModelEditor({ model, result, onChange }: SroiModelEditorProps) {
+  const patchOutcome = (id: string, patch: Partial<SroiOutcome>) =>
+    onChange({ ...model, outcomes: model.outcomes.map((o) => (o.id === id ? { ...o, ...patch } : o)) });
+  const patchStakeholder = (id: string, patch: Partial<SroiStakeholder>) =>
+    onChange({ ...model, stakeholders: model.stakeholders.map((s) => (s.id === id ? { ...s, ...patch } : s)) });
+
+  /** 설명이 바뀔 때 IRIS+ 카테고리가 비어 있으면 추천값을 채움 */
+  const describeOutcome = (o: SroiOutcome, description: string) =>
+    patchOutcome(o.id, { description, irisCategory: o.irisCategory || suggestIrisCategory(`${description} ${o.indicator}`) });
+
+  const resultById = new Map(result.outcomes.map((r) => [r.outcomeId, r]));
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 p-4 bg-purple-50 dark:bg-purple-900/10 border border-purple-100 dark:border-purple-800 rounded-lg">
+        <NumberField label="투입 비용" suffix="원" step={100000} value={model.investment} onChange={(investment) => onChange({ ...model, investment })} />
+        <PercentField label="할인율" value={model.discountRate} onChange={(discountRate) => onChange({ ...model, discountRate })} />
+        <label className="block">
+          <span className={labelClass}>투입 내용</span>
+          <input
+            value={model.investmentDescription}
+            onChange={(e) => onChange({ ...model, investmentDescription: e.target.value })}
+            placeholder="예: CareVia 연 구독료 + 교사 교육 시간"
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {model.stakeholders.map((stakeholder) => {
+        const outcomes = model.outcomes.filter((o) => o.stakeholderId === stakeholder.id);
+        return (
+          <div key={stakeholder.id} className="border border-gray-200 dark:border-gray-800 rounded-lg">
+            <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-100 dark:border-gray-800">
+              <input
+                value={stakeholder.name}
+                onChange={(e) => patchStakeholder(stakeholder.id, { name: e.target.value })}
+                placeholder="이해관계자"
+                className={`${inputClass} font-bold max-w-[14rem]`}
+              />
+              <input
+                value={stakeholder.description}
+                onChange={(e) => patchStakeholder(stakeholder.id, { description: e.target.value })}
+                placeholder="규모 (예: 교사 30명)"
+                className={inputClass}
+              />
+              <button
+                onClick={() => onChange(removeStakeholder(model, stakeholder.id))}
+                title="이해관계자 삭제"
+                className="p-1.5 text-gray-400 hover:text-red-500"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="divide-y divide-gray-100 dark:divide-gray-800">
+              {outcomes.map((o) => {
+                const r = resultById.get(o.id);
+                return (
+                  <div key={o.id} className="p-4 space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      <label className="block">
+                        <span className={labelClass}>성과 (변화)</span>
+                        <input value={o.description} onChange={(e) => describeOutcome(o, e.target.value)} placeholder="예: 이직 감소로 충원 비용 절감" className={inputClass} />
+                      </label>
+                      <label className="block">
+                        <span className={labelClass}>지표</span>
+                        <input value={o.indicator} onChange={(e) => patchOutcome(o.id, { indicator: e.target.value })} placeholder="예: 연간 이직자 수 감소 (명)" className={inputClass} />
+                      </label>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                      <NumberField label="수량" step={0.1} value={o.quantity} onChange={(quantity) => patchOutcome(o.id, { quantity })} />
+                      <NumberField label="재무 프록시" suffix="원" step={10000} value={o.proxyValue} onChange={(proxyValue) => patchOutcome(o.id, { proxyValue })} />
+                      <label className="block col-span-2">
+                        <span className={labelClass}>프록시 근거</span>
+                        <input value={o.proxySource} onChange={(e) => patchOutcome(o.id, { proxySource: e.target.value })} placeholder="예: 신규 교사 충원 비용 (교육청 자료)" className={inputClass} />
+                      </label>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                      <PercentField label="사중손실" value={o.deadweight} onChange={(deadweight) => patchOutcome(o.id, { deadweight })} />
+                      <PercentField label="기여도 차감" value={o.attribution} onChange={(attribution) => patchOutcome(o.id, { attribution })} />
+                      <PercentField label="대체효과" value={o.displacement} onChange={(displacement) => patchOutcome(o.id, { displacement })} />
+                      <PercentField label="연 감소율" value={o.dropOff} onChange={(dropOff) => patchOutcome(o.id, { dropOff })} />
+                      <NumberField label="지속 기간" suffix="년" value={o.durationYears} onChange={(durationYears) => patchOutcome(o.id, { durationYears })} />
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3">
+                      <select
+                        value={o.irisCategory}
+                        onChange={(e) => patchOutcome(o.id, { irisCategory: e.target.value })}
+                        className={`${inputClass} max-w-[14rem]`}
+                      >
+                        <option value="">IRIS+ 카테고리</option>
+                        {IRIS_CATEGORIES.map((c) => (
+                          <option key={c.id} value={c.id}>{c.labelKo} ({c.label})</option>
+                        ))}
+                      </select>
+                      {r && (
+                        <span className="text-xs text-gray-500">
+                          연 {won(r.annualImpact)} · 현재가치 <strong className="text-gray-800 dark:text-gray-200">{won(r.presentValue)}</strong>
+                        </span>
+                      )}
+                      <button
+                        onClick={() => onChange({ ...model, outcomes: model.outcomes.filter((x) => x.id !== o.id) })}
+                        className="ml-auto text-xs text-gray-400 hover:text-red-500"
+                      >
+                        성과 삭제
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <button
+              onClick={() => onChange({ ...model, outcomes: [...model.outcomes, createOutcome(stakeholder.id)] })}
+              className="flex items-center gap-1 px-4 py-2 text-xs text-purple-600 dark:text-purple-400 hover:underline"
+            >
+              <Plus className="w-3 h-3" /> 성과 추가
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onChange({ ...model, stakeholders: [...model.stakeholders, createStakeholder()] })}
+        className="flex items-center gap-1 px-3 py-1.5 text-xs border border-gray-200 dark:border-gray-700 rounded-lg text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+      >
+        <Plus className="w-3 h-3" /> 이해관계자 추가
+      </button>
+
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div className="p-3 rounded-lg bg-gray-50 dark:bg-white/5">
+          <p className="text-[11px] text-gray-500">총 현재가치</p>
+          <p className="font-bold text-gray-900 dark:text-white">{won(result.totalPresentValue)}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-gray-50 dark:bg-white/5">
+          <p className="text-[11px] text-gray-500">순현재가치 (NPV)</p>
+          <p className={`font-bold ${result.netPresentValue >= 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
+            {won(result.netPresentValue)}
+          </p>
+        </div>
+        <div className="p-3 rounded-lg bg-purple-50 dark:bg-purple-900/15">
+          <p className="text-[11px] text-gray-500">SROI</p>
+          <p className="font-bold text-purple-600 dark:text-purple-400">{result.ratio.toFixed(2)} : 1</p>
+        </div>
+      </div>
+    </div>
+  );
+}
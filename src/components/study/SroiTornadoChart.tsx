@@ -0,0 +1,51 @@
+import type { SensitivityBar } from '../../services/sroi';
+
+interface SroiTornadoChartProps {
+  bars: SensitivityBar[];
+  /** 기준 SROI 비율 — 막대가 갈라지는 세로선 */
+  baseRatio: number;
+  maxBars?: number;
+}
+
+const LABEL_WIDTH = 180;
+const CHART_WIDTH = 320;
+const ROW_HEIGHT = 22;
+const PADDING = 24;
+
+/**
+ * 토네이도 차트 — 변수 하나를 흔들었을 때 SROI 비율 범위, 폭이 큰 변수가 위
+ */
+export default function SroiTornadoChart({ bars, baseRatio, maxBars = 8 }: SroiTornadoChartProps) {
+  const shown = bars.slice(0, maxBars);
+  if (shown.length === 0) {
+    return <p className="text-xs text-gray-400">투입 비용과 성과 수치를 넣으면 민감도 분석이 표시됩니다.</p>;
+  }
+
+  const min = Math.min(baseRatio, ...shown.map((b) => b.lowRatio));
+  const max = Math.max(baseRatio, ...shown.map((b) => b.highRatio));
+  const span = max - min || 1;
+  const x = (ratio: number) => LABEL_WIDTH + ((ratio - min) / span) * CHART_WIDTH;
+  const height = shown.length * ROW_HEIGHT + PADDING;
+  const width = LABEL_WIDTH + CHART_WIDTH + 48;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full text-gray-600 dark:text-gray-400" role="img" aria-label="SROI 민감도 토네이도 차트">
+      {shown.map((bar, i) => {
+        const y = i * ROW_HEIGHT + 4;
+        return (
+          <g key={bar.key}>
+            <title>{`${bar.label}: ${bar.lowRatio.toFixed(2)} ~ ${bar.highRatio.toFixed(2)}`}</title>
+            <text x={LABEL_WIDTH - 8} y={y + 12} textAnchor="end" fontSize="10" fill="currentColor">
+              {bar.label.length > 28 ? `${bar.label.slice(0, 27)}…` : bar.label}
+            </text>
+            <rect x={x(bar.lowRatio)} y={y} width={Math.max(1, x(baseRatio) - x(bar.lowRatio))} height={ROW_HEIGHT - 6} className="fill-red-400/80" />
+            <rect x={x(baseRatio)} y={y} width={Math.max(1, x(bar.highRatio) - x(baseRatio))} height={ROW_HEIGHT - 6} className="fill-emerald-500/80" />
+            <text x={x(bar.highRatio) + 4} y={y + 12} fontSize="9" fill="currentColor">{bar.highRatio.toFixed(2)}</text>
+          </g>
+        );
+      })}
+      <line x1={x(baseRatio)} x2={x(baseRatio)} y1={0} y2={height - PADDING + 4} className="stroke-gray-400" strokeDasharray="3 3" />
+      <text x={x(baseRatio)} y={height - 6} textAnchor="middle" fontSize="10" fill="currentColor">기준 {baseRatio.toFixed(2)}:1</text>
+    </svg>
+  );
+}
@@ -1,5 +1,8 @@
+import { useMemo } from 'react';
 import { Flame } from 'lucide-react';
 import { useStudyStore } from '../../stores/studyStore';
+import { localDate } from '../../services/study/records';
+import { useCompetencyEvidence } from './useCompetencyEvidence';
 
 /** Mon=0, Tue=1, ..., Sun=6 */
 function getWeekDates(): Date[] {
@@ -18,13 +21,32 @@ function getWeekDates(): Date[] {
   return dates;
 }
 
-function toDateKey(d: Date): string {
-  return d.toISOString().slice(0, 10);
+/** 로컬 날짜 — toISOString은 UTC라 한국 시간 오전 9시 전 세션이 전날로 잡힘 */
+const toDateKey = localDate;
+
+/** 그날 가장 좋은 근거 점수 → 칸 색 (완료만 한 날은 옅게) */
+function evidenceTone(score: number | undefined): string {
+  if (score === undefined) return 'bg-amber-50 border-amber-200 text-amber-400 dark:bg-amber-900/10 dark:border-amber-800/50 dark:text-amber-500';
+  if (score >= 0.7) return 'bg-amber-400 border-amber-500 text-white dark:bg-amber-500 dark:border-amber-400';
+  if (score >= 0.45) return 'bg-amber-200 border-amber-300 text-amber-700 dark:bg-amber-800/50 dark:border-amber-600 dark:text-amber-300';
+  return 'bg-amber-100 border-amber-300 text-amber-600 dark:bg-amber-900/30 dark:border-amber-600/50 dark:text-amber-400';
 }
 
 export default function StreakCalendar() {
   const weekDays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
   const completedSessions = useStudyStore((s) => s.completedSessions);
+  const evidence = useCompetencyEvidence();
+
+  /** 날짜별 측정된 근거의 최고 점수 — 완료만 한 세션(Depth·Gap 없음)은 제외 */
+  const bestScoreByDate = useMemo(() => {
+    const best = new Map<string, number>();
+    for (const e of evidence) {
+      if (e.depth === null && e.coverage === null && e.application === null) continue;
+      const key = toDateKey(new Date(e.at));
+      best.set(key, Math.max(best.get(key) ?? 0, e.score));
+    }
+    return best;
+  }, [evidence]);
 
   const weekDates = getWeekDates();
   const todayKey = toDateKey(new Date());
@@ -34,6 +56,7 @@ export default function StreakCalendar() {
   );
 
   const status = weekDates.map((d) => completedDates.has(toDateKey(d)));
+  const bestScores = weekDates.map((d) => bestScoreByDate.get(toDateKey(d)));
   const todayIndex = weekDates.findIndex((d) => toDateKey(d) === todayKey);
 
   let currentStreak = 0;
@@ -55,13 +78,15 @@ export default function StreakCalendar() {
         {weekDays.map((day, i) => {
           const isCompleted = status[i];
           const isToday = i === todayIndex;
+          const best = bestScores[i];
           return (
             <div key={day} className="flex flex-col items-center gap-1.5">
               <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{day}</span>
               <div
+                title={isCompleted ? (best === undefined ? '완료 (측정된 근거 없음)' : `최고 근거 점수 ${Math.round(best * 100)}`) : undefined}
                 className={`w-10 h-10 rounded-lg flex items-center justify-center border-2 transition-colors ${
                   isCompleted
-                    ? 'bg-amber-100 border-amber-300 text-amber-600 dark:bg-amber-900/30 dark:border-amber-600/50 dark:text-amber-400'
+                    ? evidenceTone(best)
                     : isToday
                       ? 'border-gray-300 dark:border-gray-600 border-dashed text-gray-400'
                       : 'bg-gray-50 border-gray-100 text-gray-300 dark:bg-[#1a1f1a] dark:border-gray-800 dark:text-gray-600'
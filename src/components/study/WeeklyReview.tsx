@@ -1,116 +1,163 @@
 /**
  * 금요일 주간 정리 — PRD Section 5.4.3
- * 5개 필수 질문 폼 + weekly_reviews 저장
+ * 이번 주 활동으로 5개 질문 초안을 채우고, AI 요약·사각지대와 함께 weekly_reviews 저장
  */
 
-import { useState, useEffect } from 'react';
-import { supabase } from '../../lib/supabase';
-
-const QUESTIONS = [
-  { key: 'q1_market_signal', label: '이번 주에 발견한 가장 중요한 시장 시그널은?' },
-  { key: 'q2_pricing_insight', label: 'CareVia/호시담 가격/BM에 대한 새로운 관점은?' },
-  { key: 'q3_sroi_discovery', label: '이번 주 SROI 환산에서 가장 큰 발견은?' },
-  { key: 'q4_next_week_focus', label: '다음 주에 집중해야 할 학습 주제는?' },
-  { key: 'q5_applied_in_practice', label: '이번 주 학습을 실무에 적용한 것 1가지는?' },
-] as const;
-
-function getWeekBounds(date: Date): { start: Date; end: Date } {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1);
-  const start = new Date(d);
-  start.setDate(diff);
-  start.setHours(0, 0, 0, 0);
-  const end = new Date(start);
-  end.setDate(start.getDate() + 6);
-  end.setHours(23, 59, 59, 999);
-  return { start, end };
+import { useState, useEffect, useMemo } from 'react';
+import { AlertTriangle, RefreshCw, Sparkles } from 'lucide-react';
+import { repositories } from '../../services/repository';
+import { collectKnowledgeItems } from '../../services/knowledge';
+import { notifyWeeklyReport } from '../../services/notifications';
+import { generateWeeklyReview, type WeeklyAiReview } from '../../services/study';
+import {
+  WEEKLY_REVIEWS_KEY,
+  WEEKLY_REVIEW_QUESTIONS,
+  buildWeeklyDigest,
+  currentStreak,
+  draftWeeklyAnswers,
+  weekBounds,
+  weeklyReviewRow,
+  type WeeklyAnswers,
+} from '../../services/study/weeklyReview';
+import type { WeeklyReviewRow } from '../../services/repository';
+import { useStudyStore } from '../../stores/studyStore';
+import { useApplicationStore } from '../../stores/applicationStore';
+import { useKnowledgeStore } from '../../stores/knowledgeStore';
+import { useArticleStore } from '../../stores/articleStore';
+import { useTrackingStore } from '../../stores/trackingStore';
+
+function loadStoredReviews(): Record<string, WeeklyReviewRow> {
+  return JSON.parse(localStorage.getItem(WEEKLY_REVIEWS_KEY) || '{}');
+}
+
+/** 이전 버전은 주 시작을 UTC 날짜로 저장 — 한국 시간 월요일 0시는 UTC로 일요일 */
+function storedReview(stored: Record<string, WeeklyReviewRow>, start: Date, weekStart: string): WeeklyReviewRow | undefined {
+  return stored[weekStart] ?? stored[start.toISOString().slice(0, 10)];
+}
+
+function aiFromRow(row: WeeklyReviewRow): WeeklyAiReview | null {
+  if (!row.ai_weekly_summary && !row.ai_blind_spots) return null;
+  return {
+    summary: row.ai_weekly_summary ?? '',
+    blindSpots: (row.ai_blind_spots ?? '').split('\n').filter(Boolean),
+    growthNote: row.ai_growth_note ?? '',
+    provider: '',
+    fallback: !row.ai_weekly_summary,
+  };
 }
 
 export default function WeeklyReview() {
-  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const completedSessions = useStudyStore((s) => s.completedSessions);
+  const applications = useApplicationStore((s) => s.applications);
+  const knowledgeItems = useKnowledgeStore((s) => s.items);
+  const annotations = useArticleStore((s) => s.annotations);
+  const scoreHistory = useTrackingStore((s) => s.scoreHistory);
+
+  const digest = useMemo(
+    () => buildWeeklyDigest({
+      sessions: completedSessions,
+      applications,
+      notes: collectKnowledgeItems(knowledgeItems, completedSessions, annotations),
+      annotations,
+      scoreHistory,
+    }),
+    [completedSessions, applications, knowledgeItems, annotations, scoreHistory]
+  );
+
+  const [answers, setAnswers] = useState<WeeklyAnswers>({});
+  const [drafted, setDrafted] = useState<Set<string>>(new Set());
+  const [ai, setAi] = useState<WeeklyAiReview | null>(null);
+  const [generating, setGenerating] = useState(false);
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
+  const [cloudNote, setCloudNote] = useState<string | null>(null);
 
+  // 저장한 답변이 있으면 그대로, 없으면 이번 주 활동으로 초안
   useEffect(() => {
-    const { start } = getWeekBounds(new Date());
-    const weekStart = start.toISOString().slice(0, 10);
-    const stored = JSON.parse(localStorage.getItem('careradar_weekly_reviews') || '{}');
-    const prev = stored[weekStart];
+    const { start } = weekBounds(new Date());
+    const prev = storedReview(loadStoredReviews(), start, digest.weekStart);
     if (prev) {
-      setAnswers({
-        q1_market_signal: prev.q1_market_signal ?? '',
-        q2_pricing_insight: prev.q2_pricing_insight ?? '',
-        q3_sroi_discovery: prev.q3_sroi_discovery ?? '',
-        q4_next_week_focus: prev.q4_next_week_focus ?? '',
-        q5_applied_in_practice: prev.q5_applied_in_practice ?? '',
-      });
+      setAnswers(Object.fromEntries(WEEKLY_REVIEW_QUESTIONS.map(({ key }) => [key, prev[key] ?? ''])));
+      setAi(aiFromRow(prev));
+      return;
     }
+    const draft = draftWeeklyAnswers(digest);
+    setAnswers(draft);
+    setDrafted(new Set(Object.keys(draft)));
+    // 처음 열 때 한 번만 — 이후 활동 변화는 "초안 채우기"로
   }, []);
 
   const handleChange = (key: string, value: string) => {
     setAnswers((prev) => ({ ...prev, [key]: value }));
+    setDrafted((prev) => {
+      const next = new Set(prev);
+      next.delete(key);
+      return next;
+    });
   };
 
-  const handleSave = async () => {
-    setSaving(true);
+  /** 비어 있는 답변만 초안으로 채움 */
+  const fillDraft = () => {
+    const draft = draftWeeklyAnswers(digest);
+    const filled = Object.entries(draft).filter(([key]) => !answers[key as keyof WeeklyAnswers]?.trim());
+    setAnswers((prev) => ({ ...prev, ...Object.fromEntries(filled) }));
+    setDrafted((prev) => new Set([...prev, ...filled.map(([key]) => key)]));
+  };
+
+  const runAi = async (): Promise<WeeklyAiReview> => {
+    setGenerating(true);
     try {
-      const { start, end } = getWeekBounds(new Date());
-      const payload = {
-        week_start: start.toISOString().slice(0, 10),
-        week_end: end.toISOString().slice(0, 10),
-        q1_market_signal: answers.q1_market_signal || null,
-        q2_pricing_insight: answers.q2_pricing_insight || null,
-        q3_sroi_discovery: answers.q3_sroi_discovery || null,
-        q4_next_week_focus: answers.q4_next_week_focus || null,
-        q5_applied_in_practice: answers.q5_applied_in_practice || null,
-      };
-
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
-      if (supabaseUrl) {
-        const { error } = await supabase.from('weekly_reviews').insert(payload);
-        if (error) throw error;
-      }
-
-      const storageKey = 'careradar_weekly_reviews';
-      const stored = JSON.parse(localStorage.getItem(storageKey) || '{}');
-      stored[payload.week_start] = payload;
-      localStorage.setItem(storageKey, JSON.stringify(stored));
-      setSaved(true);
-    } catch (e) {
-      console.error('Weekly review save error:', e);
-      const { start, end } = getWeekBounds(new Date());
-      const fallbackPayload = {
-        week_start: start.toISOString().slice(0, 10),
-        week_end: end.toISOString().slice(0, 10),
-        q1_market_signal: answers.q1_market_signal || null,
-        q2_pricing_insight: answers.q2_pricing_insight || null,
-        q3_sroi_discovery: answers.q3_sroi_discovery || null,
-        q4_next_week_focus: answers.q4_next_week_focus || null,
-        q5_applied_in_practice: answers.q5_applied_in_practice || null,
-      };
-      const storageKey = 'careradar_weekly_reviews';
-      const stored = JSON.parse(localStorage.getItem(storageKey) || '{}');
-      stored[fallbackPayload.week_start] = fallbackPayload;
-      localStorage.setItem(storageKey, JSON.stringify(stored));
-      setSaved(true);
+      const review = await generateWeeklyReview(digest, answers);
+      setAi(review);
+      return review;
     } finally {
-      setSaving(false);
+      setGenerating(false);
     }
   };
 
+  const handleSave = async () => {
+    setSaving(true);
+    const review = ai ?? (await runAi());
+    const payload = weeklyReviewRow(digest, answers, review, currentStreak(completedSessions));
+
+    const stored = loadStoredReviews();
+    const firstSave = !storedReview(stored, weekBounds(new Date()).start, payload.week_start);
+    stored[payload.week_start] = payload;
+    localStorage.setItem(WEEKLY_REVIEWS_KEY, JSON.stringify(stored));
+
+    // 같은 주는 (user_id, week_start)로 덮어씀 — 로그인 전이면 로컬에만
+    const result = await repositories.weeklyReviews.upsert(payload);
+    if (!result.ok && result.reason === 'error') console.error('Weekly review save error:', result.message);
+    setCloudNote(result.ok || result.reason === 'unconfigured' ? null : result.message);
+
+    // 리포트는 주마다 처음 저장할 때만 — 다시 저장해도 알림이 반복되지 않도록
+    if (firstSave) void notifyWeeklyReport(review.summary || undefined);
+
+    setSaved(true);
+    setSaving(false);
+  };
+
   return (
     <div className="flex flex-col h-full bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl overflow-hidden shadow-sm">
       <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-800 bg-gray-50/50 dark:bg-[#1a1f1a]/50">
         <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">주간 정리</h2>
         <p className="text-sm text-gray-500 mt-1">매주 금요일, 5개 질문에 답하며 주간을 마무리하세요.</p>
+        <p className="text-xs text-gray-400 mt-2">
+          {digest.weekStart} ~ {digest.weekEnd} · 학습 {digest.studiedDays}/5일 · 세션 {digest.sessions.length} · 메모 {digest.memos.length} · 북마크 {digest.bookmarks.length}
+          {digest.scoreTrend && <> · Opportunity {digest.scoreTrend}</>}
+        </p>
       </div>
 
       <div className="flex-1 overflow-auto p-6 space-y-6">
-        {QUESTIONS.map(({ key, label }) => (
+        {WEEKLY_REVIEW_QUESTIONS.map(({ key, label }) => (
           <div key={key}>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               {label}
+              {drafted.has(key) && (
+                <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-blue-50 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400">
+                  활동 기록 초안
+                </span>
+              )}
             </label>
             <textarea
               value={answers[key] ?? ''}
@@ -121,9 +168,51 @@ export default function WeeklyReview() {
             />
           </div>
         ))}
+
+        <div className="rounded-lg border border-gray-200 dark:border-gray-800 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-bold text-gray-700 dark:text-gray-300 flex items-center gap-1.5">
+              <Sparkles className="w-4 h-4 text-blue-500" /> AI 주간 리뷰
+            </h3>
+            <button
+              onClick={() => void runAi()}
+              disabled={generating}
+              className="text-xs flex items-center gap-1 text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-3 h-3 ${generating ? 'animate-spin' : ''}`} />
+              {generating ? '생성 중...' : ai ? '다시 생성' : '생성'}
+            </button>
+          </div>
+
+          {!ai ? (
+            <p className="text-xs text-gray-400">저장할 때 이번 주 활동으로 요약과 사각지대를 만듭니다</p>
+          ) : (
+            <>
+              {ai.summary && <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed">{ai.summary}</p>}
+              {ai.fallback && (
+                <p className="text-xs text-gray-400">AI에 연결하지 못해 활동 기록으로 사각지대만 채웠습니다</p>
+              )}
+              {ai.blindSpots.length > 0 && (
+                <div>
+                  <p className="text-xs font-bold text-gray-500 flex items-center gap-1 mb-1">
+                    <AlertTriangle className="w-3.5 h-3.5 text-amber-500" /> 사각지대
+                  </p>
+                  <ul className="space-y-0.5 text-xs text-gray-600 dark:text-gray-400 list-disc list-inside">
+                    {ai.blindSpots.map((spot) => <li key={spot}>{spot}</li>)}
+                  </ul>
+                </div>
+              )}
+              {ai.growthNote && <p className="text-xs text-gray-500 leading-relaxed">{ai.growthNote}</p>}
+            </>
+          )}
+        </div>
       </div>
 
-      <div className="p-4 border-t border-gray-200 dark:border-gray-800 flex justify-end">
+      <div className="p-4 border-t border-gray-200 dark:border-gray-800 flex items-center justify-end gap-3">
+        {cloudNote && <span className="text-xs text-gray-500">이 브라우저에 저장됨 · {cloudNote}</span>}
+        <button onClick={fillDraft} className="px-4 py-2.5 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200">
+          빈 답변 초안 채우기
+        </button>
         <button
           onClick={handleSave}
           disabled={saving}
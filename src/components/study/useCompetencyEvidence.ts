@@ -0,0 +1,11 @@
+import { useMemo } from 'react';
+import { useStudyStore } from '../../stores/studyStore';
+import { useApplicationStore } from '../../stores/applicationStore';
+import { collectEvidence, type SessionEvidence } from '../../services/study/competencyModel';
+
+/** 완료 세션 + 실무 적용 기록 → 역량 근거 (레이더·추이·스트릭 공용) */
+export function useCompetencyEvidence(): SessionEvidence[] {
+  const completedSessions = useStudyStore((s) => s.completedSessions);
+  const applications = useApplicationStore((s) => s.applications);
+  return useMemo(() => collectEvidence(completedSessions, applications), [completedSessions, applications]);
+}
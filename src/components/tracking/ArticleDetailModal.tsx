@@ -1,9 +1,11 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { X, ExternalLink, Bookmark, BookmarkCheck, Star, StickyNote, BookOpen } from 'lucide-react';
 import { Link } from 'wouter';
 import { useArticleStore } from '../../stores/articleStore';
 import { useKnowledgeStore } from '../../stores/knowledgeStore';
+import { useExclusionStore } from '../../stores/exclusionStore';
 import { KEYWORD_CATEGORY_LABELS, type FilteredRssItem } from '../../services/keywordFilter';
+import { relevanceOf } from '../../services/relevance';
 import { TRACK_META } from '../../config/trackConfig';
 import { useStudyStore } from '../../stores/studyStore';
 
@@ -17,14 +19,22 @@ export default function ArticleDetailModal({ article, relatedArticles, onClose }
   const { annotations, setMemo, toggleBookmark, setRating } = useArticleStore();
   const addKnowledge = useKnowledgeStore((s) => s.addItem);
   const startSession = useStudyStore((s) => s.startSession);
+  const excluded = useExclusionStore((s) => s.excluded);
   const ann = annotations[article.id];
+  const meta = { title: article.title, track: article.track };
   const [memoText, setMemoText] = useState(ann?.memo ?? '');
   const [saved, setSaved] = useState(false);
 
   const trackMeta = TRACK_META[article.track];
 
+  // 북마크·제외가 바뀌면 모델도 바뀜 — 스토어 상태를 의존성으로
+  const relevance = useMemo(
+    () => relevanceOf(`${article.title} ${article.description}`),
+    [article.title, article.description, annotations, excluded],
+  );
+
   const handleSaveMemo = () => {
-    setMemo(article.id, memoText);
+    setMemo(article.id, memoText, meta);
     if (memoText.trim()) {
       addKnowledge({
         type: 'article_memo',
@@ -86,6 +96,18 @@ export default function ArticleDetailModal({ article, relatedArticles, onClose }
             </div>
           )}
 
+          {/* Learned relevance — which feedback tokens moved the score */}
+          {relevance.features.length > 0 && (
+            <p className="text-xs text-gray-500">
+              피드백 관련성 {Math.round(relevance.probability * 100)}% ·{' '}
+              {relevance.features.map((f) => (
+                <span key={f.token} className={`mr-1.5 ${f.weight > 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-500'}`}>
+                  {f.weight > 0 ? '+' : '−'}{f.token}
+                </span>
+              ))}
+            </p>
+          )}
+
           {/* Description / AI Summary */}
           {article.description && (
             <div>
@@ -96,14 +118,14 @@ export default function ArticleDetailModal({ article, relatedArticles, onClose }
 
           {/* Bookmark + Rating */}
           <div className="flex items-center gap-4">
-            <button onClick={() => toggleBookmark(article.id)} className="flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-amber-500 transition-colors">
+            <button onClick={() => toggleBookmark(article.id, meta)} className="flex items-center gap-1.5 text-sm text-gray-600 dark:text-gray-400 hover:text-amber-500 transition-colors">
               {ann?.isBookmarked ? <BookmarkCheck className="w-4 h-4 text-amber-500 fill-amber-500" /> : <Bookmark className="w-4 h-4" />}
               {ann?.isBookmarked ? '북마크됨' : '북마크'}
             </button>
             <div className="flex items-center gap-1">
               <span className="text-xs text-gray-500 mr-1">중요도</span>
               {[1, 2, 3].map((v) => (
-                <button key={v} onClick={() => setRating(article.id, (ann?.rating === v) ? 0 : v)}>
+                <button key={v} onClick={() => setRating(article.id, (ann?.rating === v) ? 0 : v, meta)}>
                   <Star className={`w-4 h-4 transition-colors ${(ann?.rating ?? 0) >= v ? 'text-amber-400 fill-amber-400' : 'text-gray-300 dark:text-gray-600'}`} />
                 </button>
               ))}
@@ -1,23 +1,26 @@
-import { Clock, ExternalLink } from 'lucide-react';
+import { Clock, ExternalLink, TrendingDown, TrendingUp } from 'lucide-react';
+import type { CareStory } from '../../services/careStories';
+import { TRACK_META } from '../../config/trackConfig';
 
-interface NewsItem {
-  id: string;
-  title: string;
-  source: string;
-  time: string;
-  isBookmarked: boolean;
-  sentiment: 'positive' | 'negative' | 'neutral';
-}
+const formatDay = (iso: string): string => {
+  const d = new Date(iso);
+  return `${d.getMonth() + 1}/${d.getDate()}`;
+};
+
+const VELOCITY_LABELS = { spike: '급증', elevated: '증가', normal: '' } as const;
 
 interface NewsClusterCardProps {
-  title: string;
-  summary: string;
-  items: NewsItem[];
-  track: string;
-  importanceScore: number;
+  story: CareStory;
+  /** 타임라인에 보일 최근 기사 수 */
+  maxItems?: number;
 }
 
-export default function NewsClusterCard({ title, summary, items, track, importanceScore }: NewsClusterCardProps) {
+/** 한 스토리의 기사 타임라인 — 처음 보도·마지막 갱신, 최근 7일 속도, 한·영 동시 보도 */
+export default function NewsClusterCard({ story, maxItems = 5 }: NewsClusterCardProps) {
+  const { title, summary, track, timeline, firstSeen, lastUpdated, velocity, importanceScore } = story;
+  const items = timeline.slice(-maxItems).reverse();
+  const crossLingual = new Set(timeline.map((a) => a.lang)).size > 1;
+
   const getTrackColor = (t: string) => {
     switch (t) {
       case 'caretech': return 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400';
@@ -30,9 +33,9 @@ export default function NewsClusterCard({ title, summary, items, track, importan
 
   return (
     <div className="bg-white dark:bg-[#141414] border border-gray-200 dark:border-gray-800 rounded-xl p-5 shadow-sm mb-4">
-      <div className="flex items-center gap-2 mb-3">
+      <div className="flex items-center gap-2 mb-3 flex-wrap">
         <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${getTrackColor(track)}`}>
-          {track}
+          {TRACK_META[track]?.label ?? track}
         </span>
         {importanceScore >= 80 && (
           <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400 flex items-center gap-1">
@@ -40,33 +43,48 @@ export default function NewsClusterCard({ title, summary, items, track, importan
             Hot
           </span>
         )}
+        {velocity.level !== 'normal' && (
+          <span className="text-[10px] font-bold px-2 py-0.5 rounded bg-orange-50 text-orange-600 dark:bg-orange-900/20 dark:text-orange-400">
+            {VELOCITY_LABELS[velocity.level]} · 시간당 {velocity.sourcesPerHour}건
+          </span>
+        )}
+        {velocity.trend === 'rising' && <TrendingUp className="w-3.5 h-3.5 text-emerald-500" />}
+        {velocity.trend === 'falling' && <TrendingDown className="w-3.5 h-3.5 text-gray-400" />}
+        {crossLingual && (
+          <span className="text-[10px] px-2 py-0.5 rounded bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400">한·영</span>
+        )}
       </div>
-      
+
       <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-2 leading-snug">
         {title}
       </h3>
-      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4 line-clamp-2">
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-2 line-clamp-2">
         {summary}
       </p>
+      <p className="text-xs text-gray-400 mb-4 flex items-center gap-1">
+        <Clock className="w-3 h-3" /> 처음 보도 {formatDay(firstSeen)} · 마지막 갱신 {formatDay(lastUpdated)}
+      </p>
 
       <div className="space-y-3 pt-4 border-t border-gray-100 dark:border-gray-800/80">
         {items.map(item => (
-          <div key={item.id} className="flex gap-3 group">
+          <a key={item.link} href={item.link} target="_blank" rel="noopener noreferrer" className="flex gap-3 group">
             <div className="w-1 h-auto bg-gray-200 dark:bg-gray-800 rounded-full group-hover:bg-emerald-500 transition-colors"></div>
-            <div className="flex-1">
-              <a href="#" className="text-sm font-medium text-gray-800 dark:text-gray-200 group-hover:text-emerald-600 dark:group-hover:text-emerald-400 transition-colors line-clamp-1 mb-1">
+            <div className="flex-1 min-w-0">
+              <span className="text-sm font-medium text-gray-800 dark:text-gray-200 group-hover:text-emerald-600 dark:group-hover:text-emerald-400 transition-colors line-clamp-1 mb-1">
                 {item.title}
-              </a>
+              </span>
               <div className="flex items-center gap-3 text-xs text-gray-500">
                 <span className="font-medium text-gray-600 dark:text-gray-400">{item.source}</span>
-                <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {item.time}</span>
+                <span>{formatDay(item.pubDate)}</span>
+                {item.lang === 'en' && <span className="uppercase">en</span>}
               </div>
             </div>
-            <button className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 transition-opacity">
-              <ExternalLink className="w-4 h-4" />
-            </button>
-          </div>
+            <ExternalLink className="w-4 h-4 text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity" />
+          </a>
         ))}
+        {timeline.length > items.length && (
+          <p className="text-xs text-gray-400">이전 기사 {timeline.length - items.length}건</p>
+        )}
       </div>
     </div>
   );
@@ -260,6 +260,28 @@ export const AI_REGULATIONS: AIRegulation[] = [
     ],
     description: 'Voluntary framework emphasizing ethical AI development and deployment.',
   },
+  {
+    id: 'kr-ai-basic-act',
+    name: 'Framework Act on the Development of AI and Establishment of Trust (인공지능 기본법)',
+    shortName: 'Korea AI Basic Act',
+    country: 'South Korea',
+    region: 'Asia',
+    type: 'comprehensive',
+    status: 'active',
+    announcedDate: '2024-12-26',
+    promulgatedDate: '2025-01-21',
+    effectiveDate: '2026-01-22',
+    scope: ['High-Impact AI', 'Generative AI', 'AI Industry Promotion', 'Public Sector AI'],
+    keyProvisions: [
+      'High-impact AI (healthcare, hiring, public services) risk management and explanation duties',
+      'Labeling of generative AI outputs',
+      'Domestic representative for large foreign AI providers',
+      'National AI master plan and AI safety institute',
+    ],
+    penalties: 'Fines up to ₩30M',
+    link: 'https://www.law.go.kr/법령/인공지능발전과신뢰기반조성등에관한기본법',
+    description: 'Korea\'s first comprehensive AI law. Passed by the National Assembly in December 2024 and in force since January 2026.',
+  },
 ];
 
 // Recent Regulatory Actions & Timeline
@@ -408,11 +430,11 @@ export const COUNTRY_REGULATION_PROFILES: CountryRegulationProfile[] = [
   {
     country: 'South Korea',
     countryCode: 'KR',
-    stance: 'permissive',
-    activeRegulations: ['kr-ai-framework'],
+    stance: 'moderate',
+    activeRegulations: ['kr-ai-framework', 'kr-ai-basic-act'],
     proposedRegulations: [],
-    lastUpdated: '2023-09-01',
-    summary: 'Voluntary ethical framework. Self-regulation approach.',
+    lastUpdated: '2026-01-22',
+    summary: 'AI Basic Act in force since 2026 alongside the voluntary ethics framework.',
   },
   {
     country: 'Brazil',
@@ -0,0 +1,114 @@
+/**
+ * CareRadar 4트랙 피드 레지스트리 — 원본 URL (프록시 미적용)
+ * 브라우저(config/feeds.ts의 CARE_FEEDS)와 서버 수집(server/worldmonitor/care)이 공유
+ */
+
+import type { Feed } from '@/types';
+
+export type CareTrack = 'caretech' | 'investment' | 'competitor' | 'policy';
+
+/** 피드 카테고리 → 트랙 */
+export const CARE_FEED_TRACKS: Record<string, CareTrack> = {
+  careTech: 'caretech',
+  impactFunding: 'investment',
+  publicProcurement: 'policy',
+  competitorIntelligence: 'competitor',
+};
+
+/** 원본 URL이 단일 문자열로 고정된 Feed */
+export interface CareFeed extends Feed {
+  url: string;
+}
+
+export const CARE_FEED_SOURCES: Record<string, CareFeed[]> = {
+  // 1. Care Tech Track — Direct RSS prioritized
+  careTech: [
+    // Direct RSS (Tier 1)
+    { name: 'Fierce Healthcare', url: 'https://www.fiercehealthcare.com/rss/xml' },
+    { name: 'MobiHealthNews', url: 'https://www.mobihealthnews.com/feed' },
+    { name: 'Healthcare IT News', url: 'https://www.healthcareitnews.com/feed' },
+    { name: 'Digital Health Today', url: 'https://digitalhealthtoday.com/feed/' },
+    { name: 'STAT News', url: 'https://www.statnews.com/feed/' },
+    { name: 'Nature Digital Medicine', url: 'https://www.nature.com/npjdigitalmed.rss' },
+    { name: 'IEEE Spectrum Health', url: 'https://spectrum.ieee.org/feeds/topic/biomedical.rss' },
+    { name: 'TechCrunch Health', url: 'https://techcrunch.com/tag/health/feed/' },
+    // Korean direct RSS (Tier 2)
+    { name: '메디게이트뉴스', url: 'https://news.google.com/rss/search?q=site:medigatenews.com+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '복지타임즈', url: 'https://www.bokjitimes.com/rss/allArticle.xml', lang: 'ko' },
+    { name: '에이블뉴스', url: 'https://www.ablenews.co.kr/rss/allArticle.xml', lang: 'ko' },
+    { name: '로봇신문', url: 'https://www.irobotnews.com/rss/allArticle.xml', lang: 'ko' },
+    { name: '인공지능신문', url: 'https://www.aitimes.com/rss/allArticle.xml', lang: 'ko' },
+    // Google News fallback (Tier 3)
+    { name: '돌봄AI 뉴스', url: 'https://news.google.com/rss/search?q=돌봄+AI+행동분석+디지털치료제+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    // Mental Health + AI (Tier 2-3)
+    { name: 'Psych Central', url: 'https://psychcentral.com/feed' },
+    { name: 'Mental Health AI', url: 'https://news.google.com/rss/search?q=AI+mental+health+therapy+chatbot+when:7d&hl=en-US&gl=US&ceid=US:en' },
+    { name: '멘탈케어 AI', url: 'https://news.google.com/rss/search?q=멘탈케어+OR+정신건강+AI+OR+마음돌봄+OR+심리상담+AI+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '디지털치료제', url: 'https://news.google.com/rss/search?q=디지털치료제+OR+DTx+정신건강+OR+우울+OR+불안+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+  ],
+
+  // 2. Impact & Funding Track — Direct RSS prioritized
+  impactFunding: [
+    // Direct RSS (Tier 1)
+    { name: 'Rock Health', url: 'https://rockhealth.com/feed/' },
+    { name: 'CB Insights', url: 'https://www.cbinsights.com/research/feed/' },
+    { name: 'ImpactAlpha', url: 'https://impactalpha.com/feed/' },
+    { name: 'Crunchbase News', url: 'https://news.crunchbase.com/feed/' },
+    { name: 'TechCrunch Startups', url: 'https://techcrunch.com/tag/startups/feed/' },
+    { name: 'PitchBook News', url: 'https://news.google.com/rss/search?q=site:pitchbook.com+digital+health+when:14d&hl=en-US&gl=US&ceid=US:en' },
+    { name: 'GIIN', url: 'https://news.google.com/rss/search?q=site:thegiin.org+when:14d&hl=en-US&gl=US&ceid=US:en' },
+    // Korean direct RSS (Tier 2)
+    { name: '벤처스퀘어', url: 'https://www.venturesquare.net/feed', lang: 'ko' },
+    { name: '플래텀', url: 'https://platum.kr/feed', lang: 'ko' },
+    { name: '더브이씨', url: 'https://news.google.com/rss/search?q=site:thevc.kr+when:14d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '스타트업엔', url: 'https://www.startupn.kr/rss/allArticle.xml', lang: 'ko' },
+    // Google News fallback (Tier 3)
+    { name: '임팩트 투자', url: 'https://news.google.com/rss/search?q=임팩트+투자+소셜벤처+돌봄+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: 'Digital Health VC', url: 'https://news.google.com/rss/search?q=digital+health+funding+series+when:7d&hl=en-US&gl=US&ceid=US:en' },
+  ],
+
+  // 3. Public Procurement & Policy Track — Direct RSS prioritized
+  publicProcurement: [
+    // Korean government (Google News site: search — direct RSS blocked by firewall)
+    { name: '고용노동부', url: 'https://news.google.com/rss/search?q=site:moel.go.kr+보도자료+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '보건복지부', url: 'https://news.google.com/rss/search?q=site:mohw.go.kr+보도자료+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '과기정통부', url: 'https://news.google.com/rss/search?q=site:msit.go.kr+보도자료+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '복지타임즈 정책', url: 'https://www.bokjitimes.com/rss/S1N2.xml', lang: 'ko' },
+    { name: '에이블뉴스 정책', url: 'https://www.ablenews.co.kr/rss/S1N1.xml', lang: 'ko' },
+    // Google News fallback (Tier 3)
+    { name: '나라장터 AI/돌봄', url: 'https://news.google.com/rss/search?q=나라장터+(AI+OR+돌봄+OR+장애+OR+정신건강)+입찰+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '디지털치료제 정책', url: 'https://news.google.com/rss/search?q=디지털치료제+수가+OR+급여+OR+인허가+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '장애인 복지 정책', url: 'https://news.google.com/rss/search?q=장애인+복지+예산+OR+고시+OR+시행령+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+  ],
+
+  // 4. Competitor Intelligence Track — Direct RSS + targeted Google News
+  competitorIntelligence: [
+    // Direct RSS where available (Tier 1-2)
+    { name: '로봇신문 기업', url: 'https://www.irobotnews.com/rss/S1N4.xml', lang: 'ko' },
+    { name: '바이오스펙테이터', url: 'https://news.google.com/rss/search?q=site:biospectator.com+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '메디게이트 기업', url: 'https://news.google.com/rss/search?q=site:medigatenews.com+기업+OR+투자+OR+인수+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '인공지능신문 기업', url: 'https://www.aitimes.com/rss/S1N3.xml', lang: 'ko' },
+    // Targeted competitor searches (Tier 3) — keep Google News for specific company names
+    { name: '네오펙트', url: 'https://news.google.com/rss/search?q=네오펙트+OR+Neofect+when:14d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '뷰노', url: 'https://news.google.com/rss/search?q=뷰노+AI+OR+Vuno+when:14d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '루닛', url: 'https://news.google.com/rss/search?q=루닛+OR+Lunit+when:14d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: '플라이투', url: 'https://news.google.com/rss/search?q=플라이투+OR+Flyto+투자+when:14d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+    { name: 'Woebot Health', url: 'https://news.google.com/rss/search?q="Woebot+Health"+OR+Woebot+AI+when:14d&hl=en-US&gl=US&ceid=US:en' },
+    { name: 'Ambient.ai', url: 'https://news.google.com/rss/search?q="Ambient.ai"+AI+vision+when:14d&hl=en-US&gl=US&ceid=US:en' },
+    { name: 'Ginger/Headspace', url: 'https://news.google.com/rss/search?q="Headspace+Health"+OR+Ginger+AI+mental+when:14d&hl=en-US&gl=US&ceid=US:en' },
+    { name: 'Talkiatry', url: 'https://news.google.com/rss/search?q=Talkiatry+OR+Cerebral+OR+mental+health+startup+when:14d&hl=en-US&gl=US&ceid=US:en' },
+    { name: '마인드AI', url: 'https://news.google.com/rss/search?q=마인드AI+OR+트로스트+OR+마보+정신건강+when:14d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+  ],
+};
+
+/**
+ * 복지정책 피드 — care 변형 패널(variants/care.ts)과 정책 캘린더의 보도자료 일정 추출이 공유
+ * 점수 트랙 피드(CARE_FEED_SOURCES)와 달리 기사 목록에는 넣지 않고 일정만 뽑아 씀
+ */
+export const WELFARE_POLICY_FEEDS: CareFeed[] = [
+  { name: '보건복지부', url: 'https://news.google.com/rss/search?q=site:mohw.go.kr+보도자료+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+  { name: '경기복지재단', url: 'https://news.google.com/rss/search?q=site:ggwf.gg.go.kr+when:14d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+  { name: 'WHO Digital Health', url: 'https://news.google.com/rss/search?q=site:who.int+digital+health+when:14d&hl=en-US&gl=US&ceid=US:en' },
+  { name: '복지정책 뉴스', url: 'https://news.google.com/rss/search?q=발달장애+OR+장애인복지+OR+AI돌봄+정책+when:7d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+  { name: '국회 복지위', url: 'https://news.google.com/rss/search?q=국회+보건복지위원회+장애인+when:14d&hl=ko&gl=KR&ceid=KR:ko', lang: 'ko' },
+];
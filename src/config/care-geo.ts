@@ -1,5 +1,7 @@
 // Care variant geographic data
-// Facilities, robotics labs, and care startups
+// Facilities, robotics labs, care startups and geocoded policy events.
+// The arrays here are the bundled seed registries — datasets imported from
+// CSV/GeoJSON (services/care-registry) are merged over them by id.
 
 export interface CareFacility {
   id: string;
@@ -12,6 +14,10 @@ export interface CareFacility {
   capacity?: number;
   services: string[];
   aiEnabled: boolean;
+  /** Street address as given by the source registry */
+  address?: string;
+  /** Korean province (KR_REGIONS code) — links the facility to procurement listings */
+  region?: string;
 }
 
 export interface RoboticsLab {
@@ -23,6 +29,11 @@ export interface RoboticsLab {
   region: string;
   focus: string[];
   products?: string[];
+  /** Main funder, e.g. a national R&D programme or the parent company */
+  fundingSource?: string;
+  fundingAmountM?: number;
+  /** YYYY-MM or YYYY-MM-DD of the latest grant or round */
+  fundedAt?: string;
 }
 
 export interface CareStartup {
@@ -34,9 +45,85 @@ export interface CareStartup {
   domain: string;
   fundingStage: 'seed' | 'seriesA' | 'seriesB' | 'seriesC' | 'later';
   fundingAmountM?: number;
+  /** YYYY-MM or YYYY-MM-DD of the latest round */
+  fundedAt?: string;
+  investors?: string[];
   description: string;
 }
 
+export interface CarePolicyEvent {
+  id: string;
+  title: string;
+  /** YYYY-MM-DD */
+  date: string;
+  lat: number;
+  lon: number;
+  country: string;
+  region?: string;
+  agency: string;
+  /** PolicyEventKind ('fiscal' | 'law' | 'press') or the category column of an imported file */
+  kind: string;
+  link?: string;
+  description?: string;
+}
+
+export interface KrRegion {
+  /** Short province name, also the region code stored on facilities */
+  code: string;
+  /** Spellings matched in addresses and agency names, longest first */
+  aliases: string[];
+  /** Provincial government seat — geocoding fallback for region-level records */
+  lat: number;
+  lon: number;
+}
+
+export const KR_REGIONS: KrRegion[] = [
+  { code: '서울', aliases: ['서울특별시', '서울시', '서울'], lat: 37.5665, lon: 126.9780 },
+  { code: '부산', aliases: ['부산광역시', '부산시', '부산'], lat: 35.1796, lon: 129.0756 },
+  { code: '대구', aliases: ['대구광역시', '대구시', '대구'], lat: 35.8714, lon: 128.6014 },
+  { code: '인천', aliases: ['인천광역시', '인천시', '인천'], lat: 37.4563, lon: 126.7052 },
+  { code: '광주', aliases: ['광주광역시', '광주시', '광주'], lat: 35.1595, lon: 126.8526 },
+  { code: '대전', aliases: ['대전광역시', '대전시', '대전'], lat: 36.3504, lon: 127.3845 },
+  { code: '울산', aliases: ['울산광역시', '울산시', '울산'], lat: 35.5384, lon: 129.3114 },
+  { code: '세종', aliases: ['세종특별자치시', '세종시', '세종'], lat: 36.4800, lon: 127.2890 },
+  { code: '경기', aliases: ['경기도', '경기'], lat: 37.2752, lon: 127.0095 },
+  { code: '강원', aliases: ['강원특별자치도', '강원도', '강원'], lat: 37.8813, lon: 127.7298 },
+  { code: '충북', aliases: ['충청북도', '충북'], lat: 36.6358, lon: 127.4917 },
+  { code: '충남', aliases: ['충청남도', '충남'], lat: 36.6588, lon: 126.6728 },
+  { code: '전북', aliases: ['전북특별자치도', '전라북도', '전북'], lat: 35.8203, lon: 127.1088 },
+  { code: '전남', aliases: ['전라남도', '전남'], lat: 34.8161, lon: 126.4629 },
+  { code: '경북', aliases: ['경상북도', '경북'], lat: 36.5760, lon: 128.5056 },
+  { code: '경남', aliases: ['경상남도', '경남'], lat: 35.2383, lon: 128.6924 },
+  { code: '제주', aliases: ['제주특별자치도', '제주도', '제주'], lat: 33.4890, lon: 126.4983 },
+];
+
+/** Capital coordinates by country code ('EU' = Brussels) — where national policy events are pinned */
+export const CARE_COUNTRY_ANCHORS: Record<string, { lat: number; lon: number }> = {
+  KR: { lat: 37.5665, lon: 126.9780 },
+  JP: { lat: 35.6762, lon: 139.6503 },
+  CN: { lat: 39.9042, lon: 116.4074 },
+  TW: { lat: 25.0330, lon: 121.5654 },
+  SG: { lat: 1.3521, lon: 103.8198 },
+  IN: { lat: 28.6139, lon: 77.2090 },
+  AU: { lat: -35.2809, lon: 149.1300 },
+  US: { lat: 38.9072, lon: -77.0369 },
+  CA: { lat: 45.4215, lon: -75.6972 },
+  BR: { lat: -15.7939, lon: -47.8828 },
+  GB: { lat: 51.5074, lon: -0.1278 },
+  DE: { lat: 52.5200, lon: 13.4050 },
+  FR: { lat: 48.8566, lon: 2.3522 },
+  NL: { lat: 52.3676, lon: 4.9041 },
+  DK: { lat: 55.6761, lon: 12.5683 },
+  SE: { lat: 59.3293, lon: 18.0686 },
+  FI: { lat: 60.1699, lon: 24.9384 },
+  IT: { lat: 41.9028, lon: 12.4964 },
+  ES: { lat: 40.4168, lon: -3.7038 },
+  NO: { lat: 59.9139, lon: 10.7522 },
+  CH: { lat: 46.9480, lon: 7.4474 },
+  IL: { lat: 31.7683, lon: 35.2137 },
+  EU: { lat: 50.8503, lon: 4.3517 },
+};
+
 export const CARE_FACILITIES: CareFacility[] = [
   // Korea (한국)
   {
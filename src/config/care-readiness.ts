@@ -0,0 +1,40 @@
+// Care Readiness Index (CRI) coverage
+// Countries scored from live care signals. `name` matches AI_REGULATIONS.country,
+// the keywords attribute care news to a country.
+
+export interface CareReadinessCountry {
+  name: string;
+  /** Korean display name (care variant UI is Korean-first) */
+  nameKo: string;
+  /** Lower-case keywords; Latin ones match whole words only */
+  keywords: string[];
+  euMember?: boolean;
+}
+
+export const CARE_READINESS_COUNTRIES: Record<string, CareReadinessCountry> = {
+  KR: { name: 'South Korea', nameKo: '한국', keywords: ['korea', 'seoul', '한국', '국내', '서울', '보건복지부', '복지부'] },
+  JP: { name: 'Japan', nameKo: '일본', keywords: ['japan', 'japanese', 'tokyo', '일본', '도쿄', '후생노동성'] },
+  CN: { name: 'China', nameKo: '중국', keywords: ['china', 'chinese', 'beijing', 'shenzhen', '중국', '베이징'] },
+  TW: { name: 'Taiwan', nameKo: '대만', keywords: ['taiwan', 'taipei', '대만', '타이완'] },
+  SG: { name: 'Singapore', nameKo: '싱가포르', keywords: ['singapore', '싱가포르'] },
+  IN: { name: 'India', nameKo: '인도', keywords: ['india', 'indian', 'bangalore'] },
+  AU: { name: 'Australia', nameKo: '호주', keywords: ['australia', 'australian', 'ndis', '호주'] },
+  US: { name: 'United States', nameKo: '미국', keywords: ['united states', 'u.s.', 'usa', 'america', 'fda', 'medicare', 'medicaid', '미국'] },
+  CA: { name: 'Canada', nameKo: '캐나다', keywords: ['canada', 'canadian', '캐나다'] },
+  BR: { name: 'Brazil', nameKo: '브라질', keywords: ['brazil', 'brazilian', '브라질'] },
+  GB: { name: 'United Kingdom', nameKo: '영국', keywords: ['united kingdom', 'britain', 'british', 'nhs', 'england', '영국'] },
+  DE: { name: 'Germany', nameKo: '독일', keywords: ['germany', 'german', 'berlin', '독일'], euMember: true },
+  FR: { name: 'France', nameKo: '프랑스', keywords: ['france', 'french', 'paris', '프랑스'], euMember: true },
+  NL: { name: 'Netherlands', nameKo: '네덜란드', keywords: ['netherlands', 'dutch', 'amsterdam', '네덜란드'], euMember: true },
+  DK: { name: 'Denmark', nameKo: '덴마크', keywords: ['denmark', 'danish', 'copenhagen', '덴마크'], euMember: true },
+  SE: { name: 'Sweden', nameKo: '스웨덴', keywords: ['sweden', 'swedish', 'stockholm', '스웨덴'], euMember: true },
+  FI: { name: 'Finland', nameKo: '핀란드', keywords: ['finland', 'finnish', 'helsinki', '핀란드'], euMember: true },
+  IT: { name: 'Italy', nameKo: '이탈리아', keywords: ['italy', 'italian', '이탈리아'], euMember: true },
+  ES: { name: 'Spain', nameKo: '스페인', keywords: ['spain', 'spanish', 'madrid', '스페인'], euMember: true },
+  NO: { name: 'Norway', nameKo: '노르웨이', keywords: ['norway', 'norwegian', '노르웨이'] },
+  CH: { name: 'Switzerland', nameKo: '스위스', keywords: ['switzerland', 'swiss', 'zurich', '스위스'] },
+  IL: { name: 'Israel', nameKo: '이스라엘', keywords: ['israel', 'israeli', 'tel aviv', '이스라엘'] },
+};
+
+/** Regulations filed under this name apply to every `euMember` country */
+export const EU_REGULATION_NAME = 'European Union';
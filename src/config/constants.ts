@@ -47,6 +47,8 @@ export const REFRESH_CABLES_MS = 30 * 60 * 1000; // 30 minutes
 export const REFRESH_CABLE_HEALTH_MS = 5 * 60 * 1000; // 5 minutes
 export const REFRESH_FLIGHTS_MS = 10 * 60 * 1000; // 10 minutes
 export const REFRESH_CYBER_THREATS_MS = 10 * 60 * 1000; // 10 minutes
+export const REFRESH_CARE_TRACKING_MS = 15 * 60 * 1000; // 15 minutes
+export const STALE_CARE_TRACKING_MS = 30 * 60 * 1000; // 30 minutes
 
 // ---------------------------------------------------------------------------
 // Banner dismiss duration
@@ -122,7 +122,10 @@ export {
   CARE_FACILITIES,
   ROBOTICS_LABS,
   CARE_STARTUPS,
+  KR_REGIONS,
   type CareFacility,
   type RoboticsLab,
   type CareStartup,
+  type CarePolicyEvent,
+  type KrRegion,
 } from './care-geo';
@@ -23,6 +23,16 @@ export const MODEL_CONFIGS: ModelConfig[] = [
     required: true,
     task: 'feature-extraction',
   },
+  {
+    // Korean/English in one vector space — care-track story clustering groups both languages
+    id: 'embeddings-multilingual',
+    name: 'paraphrase-multilingual-MiniLM-L12-v2',
+    hfModel: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+    size: 118_000_000,
+    priority: 2,
+    required: false,
+    task: 'feature-extraction',
+  },
   {
     id: 'sentiment',
     name: 'DistilBERT-SST2',
@@ -71,6 +81,7 @@ export const ML_FEATURE_FLAGS = {
 
 export const ML_THRESHOLDS = {
   semanticClusterThreshold: 0.75,
+  crossLingualClusterThreshold: 0.8,
   minClustersForML: 5,
   maxTextsPerBatch: 20,
   modelLoadTimeoutMs: 600_000,
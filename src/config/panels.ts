@@ -91,6 +91,7 @@ const FULL_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 const FULL_MOBILE_MAP_LAYERS: MapLayers = {
@@ -137,6 +138,7 @@ const FULL_MOBILE_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 // ============================================
@@ -223,6 +225,7 @@ const TECH_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 const TECH_MOBILE_MAP_LAYERS: MapLayers = {
@@ -269,6 +272,7 @@ const TECH_MOBILE_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 // ============================================
@@ -350,6 +354,7 @@ const FINANCE_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 const FINANCE_MOBILE_MAP_LAYERS: MapLayers = {
@@ -396,6 +401,7 @@ const FINANCE_MOBILE_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 // ============================================
@@ -403,6 +409,7 @@ const FINANCE_MOBILE_MAP_LAYERS: MapLayers = {
 // ============================================
 const CARE_PANELS: Record<string, PanelConfig> = {
   marketPulse: { name: 'Market Pulse', enabled: true, priority: 1 },
+  bos: { name: 'Business Opportunity Score', enabled: true, priority: 1 },
   opportunityRadar: { name: 'Opportunity Radar', enabled: true, priority: 1 },
   financialGym: { name: 'Financial Gym', enabled: true, priority: 1 },
   dailyBrief: { name: 'Daily Brief', enabled: true, priority: 1 },
@@ -452,6 +459,7 @@ const CARE_MAP_LAYERS: MapLayers = {
   roboticsLabs: true,
   policyEvents: true,
   careStartups: true,
+  careReadiness: true,
 };
 
 const CARE_MOBILE_MAP_LAYERS: MapLayers = {
@@ -498,6 +506,7 @@ const CARE_MOBILE_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: true,
   careStartups: false,
+  careReadiness: false,
 };
 
 // ============================================
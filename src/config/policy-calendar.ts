@@ -0,0 +1,128 @@
+/**
+ * 예산 사이클 — 국가재정법·지방자치법 법정 기한과 국회 심사 관행 기간
+ * 매년 같은 날짜(MM-DD)로 반복. approximate는 관행상 기간이라 해마다 국회·부처 일정에 따라 앞뒤로 움직임
+ * 정책 캘린더(services/policyCalendar.ts)가 연도별 일정으로 펼쳐 S1 점수와 iCal 내보내기에 씀
+ */
+
+export interface FiscalMilestone {
+  id: string;
+  title: string;
+  agency: string;
+  /** MM-DD */
+  start: string;
+  /** MM-DD — 기간 일정의 마지막 날 (하루 일정이면 생략) */
+  end?: string;
+  approximate?: boolean;
+  /** S1 반영 관련도 (0~100) — B2G 제안 시점과 직결될수록 높게 */
+  relevance: number;
+  description: string;
+}
+
+export const FISCAL_MILESTONES: FiscalMilestone[] = [
+  {
+    id: 'execution-open',
+    title: '신년 보조사업·공모 공고 집중기',
+    agency: '보건복지부·지자체',
+    start: '01-02',
+    end: '03-31',
+    approximate: true,
+    relevance: 80,
+    description: '확정 예산으로 보조사업·실증 공모가 몰리는 시기 — 나라장터·복지부 공고를 매일 확인',
+  },
+  {
+    id: 'mid-term-plan',
+    title: '중기사업계획서 제출',
+    agency: '각 중앙관서 → 기획재정부',
+    start: '01-31',
+    relevance: 50,
+    description: '국가재정법 제28조 — 신규·주요 계속사업이 5년 계획에 처음 오르는 단계',
+  },
+  {
+    id: 'b2g-proposal-window',
+    title: '차년도 신규사업 제안 적기',
+    agency: '보건복지부',
+    start: '03-01',
+    end: '05-15',
+    approximate: true,
+    relevance: 80,
+    description: '사업부서가 예산요구서를 쓰기 전 — 실증 결과·단가 근거를 담당 과에 전달할 마지막 창',
+  },
+  {
+    id: 'budget-guideline',
+    title: '예산안 편성지침 통보',
+    agency: '기획재정부',
+    start: '03-31',
+    relevance: 55,
+    description: '국가재정법 제29조 — 차년도 재정 기조와 부처별 지출 한도',
+  },
+  {
+    id: 'ministry-budget-request',
+    title: '부처 예산요구서 제출',
+    agency: '보건복지부 → 기획재정부',
+    start: '05-31',
+    relevance: 75,
+    description: '국가재정법 제31조 — 복지부 요구안에 들어간 사업만 정부안 심의 대상',
+  },
+  {
+    id: 'moef-deliberation',
+    title: '기획재정부 예산 심의',
+    agency: '기획재정부',
+    start: '06-01',
+    end: '08-20',
+    approximate: true,
+    relevance: 55,
+    description: '부처 요구안 삭감·조정 — 언론에 요구 규모가 보도되는 시기',
+  },
+  {
+    id: 'government-proposal',
+    title: '정부 예산안 국회 제출',
+    agency: '기획재정부 → 국회',
+    start: '09-03',
+    relevance: 70,
+    description: '국가재정법 제33조 — 회계연도 개시 120일 전까지',
+  },
+  {
+    id: 'welfare-committee-review',
+    title: '국회 보건복지위원회 예비심사',
+    agency: '국회 보건복지위원회',
+    start: '10-28',
+    end: '11-20',
+    approximate: true,
+    relevance: 85,
+    description: '상임위 증액 의견이 붙는 단계 — 지역구·비례 의원실 대상 사업 설명 적기',
+  },
+  {
+    id: 'special-committee-review',
+    title: '예산결산특별위원회 종합심사',
+    agency: '국회 예산결산특별위원회',
+    start: '11-05',
+    end: '11-30',
+    approximate: true,
+    relevance: 65,
+    description: '상임위 증액안의 최종 반영 여부가 갈리는 소위 심사',
+  },
+  {
+    id: 'local-budget-proposal',
+    title: '시·도 예산안 의회 제출',
+    agency: '시·도 → 시·도의회',
+    start: '11-12',
+    relevance: 60,
+    description: '지방자치법 제142조 — 회계연도 개시 50일 전까지, 지자체 돌봄 시범사업 반영 여부 확인',
+  },
+  {
+    id: 'national-assembly-vote',
+    title: '국회 예산안 의결 (법정 기한)',
+    agency: '국회 본회의',
+    start: '12-02',
+    relevance: 80,
+    description: '헌법 제54조 — 회계연도 개시 30일 전까지, 최종 예산 확정',
+  },
+  {
+    id: 'local-budget-vote',
+    title: '시·도의회 예산 의결',
+    agency: '시·도의회',
+    start: '12-17',
+    relevance: 60,
+    description: '지방자치법 제142조 — 회계연도 개시 15일 전까지',
+  },
+];
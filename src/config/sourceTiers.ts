@@ -20,6 +20,8 @@ export const CARE_SOURCE_TIERS: Record<string, SourceTier> = {
   'CB Insights': 1,
   'Crunchbase News': 1,
   'ImpactAlpha': 1,
+  'DART 전자공시': 1, // 경쟁사 공시 (care.v1 competitor registry)
+  '정책 캘린더': 1, // 예산 사이클·법령 일정 (services/policyCalendar.ts)
   'PitchBook News': 3, // Google News fallback (direct RSS blocked by Cloudflare)
   'GIIN': 3, // Google News fallback (403 security challenge)
   '고용노동부': 3, // Google News site: search (direct RSS blocked by firewall)
@@ -18,18 +18,13 @@ export {
 
 // Care-specific FEEDS configuration
 import type { Feed } from '@/types';
+import { WELFARE_POLICY_FEEDS } from '../care-feeds';
 
 const rss = (url: string) => `/api/rss-proxy?url=${encodeURIComponent(url)}`;
 
 export const FEEDS: Record<string, Feed[]> = {
   // === Welfare Policy (복지정책) ===
-  welfarePolicy: [
-    { name: '보건복지부', url: rss('https://news.google.com/rss/search?q=site:mohw.go.kr+보도자료+when:7d&hl=ko&gl=KR&ceid=KR:ko') },
-    { name: '경기복지재단', url: rss('https://news.google.com/rss/search?q=site:ggwf.gg.go.kr+when:14d&hl=ko&gl=KR&ceid=KR:ko') },
-    { name: 'WHO Digital Health', url: rss('https://news.google.com/rss/search?q=site:who.int+digital+health+when:14d&hl=en-US&gl=US&ceid=US:en') },
-    { name: '복지정책 뉴스', url: rss('https://news.google.com/rss/search?q=발달장애+OR+장애인복지+OR+AI돌봄+정책+when:7d&hl=ko&gl=KR&ceid=KR:ko') },
-    { name: '국회 복지위', url: rss('https://news.google.com/rss/search?q=국회+보건복지위원회+장애인+when:14d&hl=ko&gl=KR&ceid=KR:ko') },
-  ],
+  welfarePolicy: WELFARE_POLICY_FEEDS.map((feed) => ({ ...feed, url: rss(feed.url) })),
 
   // === AI Care Research (AI 케어 학술) ===
   aiCareResearch: [
@@ -150,6 +145,7 @@ export const DEFAULT_MAP_LAYERS: MapLayers = {
   roboticsLabs: true,
   policyEvents: true,
   careStartups: true,
+  careReadiness: true,
 };
 
 // Mobile defaults for care variant
@@ -196,6 +192,7 @@ export const MOBILE_DEFAULT_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: true,
   careStartups: false,
+  careReadiness: false,
 };
 
 export const VARIANT_CONFIG: VariantConfig = {
@@ -214,6 +214,7 @@ export const DEFAULT_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 // Mobile defaults for finance variant
@@ -260,6 +261,7 @@ export const MOBILE_DEFAULT_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 export const VARIANT_CONFIG: VariantConfig = {
@@ -92,6 +92,7 @@ export const DEFAULT_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 // Mobile-specific defaults for geopolitical
@@ -138,6 +139,7 @@ export const MOBILE_DEFAULT_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 export const VARIANT_CONFIG: VariantConfig = {
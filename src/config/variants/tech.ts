@@ -243,6 +243,7 @@ export const DEFAULT_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 // Mobile defaults for tech variant
@@ -289,6 +290,7 @@ export const MOBILE_DEFAULT_MAP_LAYERS: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 export const VARIANT_CONFIG: VariantConfig = {
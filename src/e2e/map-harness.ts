@@ -175,6 +175,7 @@ const allLayersEnabled: MapLayers = {
   roboticsLabs: true,
   policyEvents: true,
   careStartups: true,
+  careReadiness: true,
 };
 
 const allLayersDisabled: MapLayers = {
@@ -217,6 +218,7 @@ const allLayersDisabled: MapLayers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 const SEEDED_NEWS_LOCATIONS: Array<{
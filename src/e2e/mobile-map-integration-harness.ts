@@ -124,6 +124,7 @@ const layers = {
   roboticsLabs: false,
   policyEvents: false,
   careStartups: false,
+  careReadiness: false,
 };
 
 await initI18n();
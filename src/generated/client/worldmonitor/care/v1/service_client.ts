@@ -0,0 +1,965 @@
+// Code generated by protoc-gen-ts-client. DO NOT EDIT.
+// source: worldmonitor/care/v1/service.proto
+
+export interface ListTrackNewsRequest {
+  track: string;
+  limit: number;
+}
+
+export interface ListTrackNewsResponse {
+  articles: CareArticle[];
+  generatedAt: number;
+}
+
+export interface CareArticle {
+  id: string;
+  title: string;
+  link: string;
+  source: string;
+  publishedAt: number;
+  description: string;
+  track: string;
+  keywordMatches: KeywordMatch[];
+  relevanceScore: number;
+  verifiedScore: number;
+  sourceCount: number;
+  isVerified: boolean;
+  relatedSources: string[];
+  ref: string;
+}
+
+export interface KeywordMatch {
+  keyword: string;
+  category: string;
+}
+
+export interface GetOpportunityScoreRequest {
+}
+
+export interface GetOpportunityScoreResponse {
+  score?: OpportunityScore;
+  verification?: VerificationStats;
+  trackCounts: Record<string, number>;
+  generatedAt: number;
+}
+
+export interface OpportunityScore {
+  total: number;
+  s1: number;
+  s2: number;
+  s3: number;
+  shouldAlert: boolean;
+  isHighPriority: boolean;
+}
+
+export interface VerificationStats {
+  total: number;
+  verified: number;
+  multiSource: number;
+  singleSource: number;
+}
+
+export interface ListProcurementListingsRequest {
+  limit: number;
+}
+
+export interface ListProcurementListingsResponse {
+  listings: ProcurementListing[];
+  generatedAt: number;
+}
+
+export interface ProcurementListing {
+  id: string;
+  title: string;
+  agency: string;
+  budget: number;
+  deadline: string;
+  bidType: string;
+  sourceUrl: string;
+  fitnessScore: string;
+  fitnessReason: string;
+  matchedKeywords: string[];
+  fetchedAt: number;
+}
+
+export interface GetKeywordProfileRequest {
+}
+
+export interface GetKeywordProfileResponse {
+  profile?: KeywordProfile;
+}
+
+export interface KeywordProfile {
+  keywords: WeightedKeyword[];
+  negativeKeywords: string[];
+  alertThreshold: number;
+  updatedAt: number;
+  scoringProfile?: ScoringProfile;
+}
+
+export interface WeightedKeyword {
+  keyword: string;
+  category: string;
+  weight: number;
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  weights?: ScoreWeights;
+  countSaturation: number;
+  relevanceWeight: number;
+  countWeight: number;
+  recencyHalfLifeHours: number;
+  tierBonus: number;
+  highPriorityThreshold: number;
+}
+
+export interface ScoreWeights {
+  policy: number;
+  investment: number;
+  competitor: number;
+}
+
+export interface UpdateKeywordProfileRequest {
+  profile?: KeywordProfile;
+}
+
+export interface UpdateKeywordProfileResponse {
+  profile?: KeywordProfile;
+  error: string;
+}
+
+export interface ListCompetitorsRequest {
+}
+
+export interface ListCompetitorsResponse {
+  competitors: Competitor[];
+  updatedAt: number;
+}
+
+export interface Competitor {
+  corpCode: string;
+  name: string;
+  stockCode: string;
+}
+
+export interface UpdateCompetitorsRequest {
+  competitors: Competitor[];
+}
+
+export interface UpdateCompetitorsResponse {
+  competitors: Competitor[];
+  updatedAt: number;
+  error: string;
+}
+
+export interface SearchDartCorpsRequest {
+  query: string;
+}
+
+export interface SearchDartCorpsResponse {
+  corps: Competitor[];
+  configured: boolean;
+  error: string;
+}
+
+export interface ListCompetitorDisclosuresRequest {
+  corpCode: string;
+  limit: number;
+}
+
+export interface ListCompetitorDisclosuresResponse {
+  disclosures: CompetitorDisclosure[];
+  configured: boolean;
+  generatedAt: number;
+}
+
+export interface CompetitorDisclosure {
+  receiptNo: string;
+  corpCode: string;
+  corpName: string;
+  reportName: string;
+  filedAt: string;
+  filer: string;
+  filingType: string;
+  link: string;
+}
+
+export interface GetTelegramSubscriptionRequest {
+  chatId: string;
+}
+
+export interface GetTelegramSubscriptionResponse {
+  subscription?: TelegramSubscription;
+}
+
+export interface TelegramSubscription {
+  chatId: string;
+  tracks: string[];
+  alertThreshold: number;
+  quietStartHour: number;
+  quietEndHour: number;
+  language: string;
+  alertsEnabled: boolean;
+  updatedAt: number;
+}
+
+export interface UpdateTelegramSubscriptionRequest {
+  subscription?: TelegramSubscription;
+}
+
+export interface UpdateTelegramSubscriptionResponse {
+  subscription?: TelegramSubscription;
+  error: string;
+}
+
+export interface RecordBotActionRequest {
+  chatId: string;
+  kind: string;
+  articleRef: string;
+  title: string;
+}
+
+export interface RecordBotActionResponse {
+  action?: BotAction;
+  error: string;
+}
+
+export interface BotAction {
+  id: string;
+  kind: string;
+  chatId: string;
+  article?: BotArticle;
+  createdAt: number;
+}
+
+export interface BotArticle {
+  id: string;
+  ref: string;
+  title: string;
+  link: string;
+  source: string;
+  track: string;
+  description: string;
+}
+
+export interface ListBotActionsRequest {
+  since: number;
+  kind: string;
+  limit: number;
+}
+
+export interface ListBotActionsResponse {
+  actions: BotAction[];
+}
+
+export interface ListNotificationDeliveriesRequest {
+  limit: number;
+}
+
+export interface ListNotificationDeliveriesResponse {
+  channels: NotificationChannelInfo[];
+  deliveries: NotificationDelivery[];
+}
+
+export interface NotificationChannelInfo {
+  kind: string;
+  name: string;
+  events: string[];
+}
+
+export interface NotificationDelivery {
+  id: string;
+  channel: string;
+  kind: string;
+  eventType: string;
+  status: string;
+  attempts: number;
+  error: string;
+  createdAt: number;
+}
+
+export interface GenerateStudySessionRequest {
+  sessionType: string;
+  article?: StudyArticle;
+  company?: SyntheticCompany;
+  scenario?: SroiScenario;
+}
+
+export interface StudyArticle {
+  title: string;
+  description: string;
+  link: string;
+  track: string;
+  keywords: string[];
+}
+
+export interface SyntheticCompany {
+  id: string;
+  name: string;
+  basedOn: string;
+  category: string;
+  description: string;
+  financials: string;
+  learningFocus: string;
+  careviaRelevance: string;
+  level: string;
+}
+
+export interface SroiScenario {
+  id: string;
+  site: string;
+  event: string;
+  hint: string;
+  difficulty: string;
+  learningFocus: string;
+  basedOn: string;
+}
+
+export interface GenerateStudySessionResponse {
+  question?: StudyQuestion;
+  reference: string;
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+export interface StudyQuestion {
+  title: string;
+  prompt: string;
+  context: string[];
+  answerGuide: string;
+}
+
+export interface EvaluateStudyAnswerRequest {
+  sessionType: string;
+  question?: StudyQuestion;
+  reference: string;
+  myAnswer: string;
+}
+
+export interface EvaluateStudyAnswerResponse {
+  gaps: StudyGap[];
+  depthScores: DepthScore[];
+  summary: string;
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+export interface StudyGap {
+  kind: string;
+  point: string;
+  detail: string;
+}
+
+export interface DepthScore {
+  dimension: string;
+  score: number;
+  reason: string;
+}
+
+export interface GetCompanyFinancialsRequest {
+  corpCode: string;
+  year: number;
+}
+
+export interface GetCompanyFinancialsResponse {
+  periods: FinancialPeriod[];
+  statementKind: string;
+  year: number;
+  configured: boolean;
+  error: string;
+}
+
+export interface FinancialPeriod {
+  year: number;
+  revenue: number;
+  operatingIncome: number;
+  netIncome: number;
+  currentAssets: number;
+  currentLiabilities: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  totalEquity: number;
+}
+
+export interface GenerateWeeklyReviewRequest {
+  weekStart: string;
+  weekEnd: string;
+  sessions: WeeklyActivity[];
+  memos: WeeklyActivity[];
+  bookmarks: WeeklyActivity[];
+  competencies: WeeklyCompetency[];
+  ignored: string[];
+  scoreTrend: string;
+  answers: string[];
+}
+
+export interface WeeklyActivity {
+  kind: string;
+  title: string;
+  detail: string;
+}
+
+export interface WeeklyCompetency {
+  label: string;
+  level: string;
+  proficiency: number;
+  change: number;
+  sessions: number;
+}
+
+export interface GenerateWeeklyReviewResponse {
+  summary: string;
+  blindSpots: string[];
+  growthNote: string;
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+export interface ListPolicyCalendarRequest {
+  kind: string;
+  limit: number;
+}
+
+export interface ListPolicyCalendarResponse {
+  events: PolicyEvent[];
+  generatedAt: number;
+}
+
+export interface PolicyEvent {
+  id: string;
+  kind: string;
+  title: string;
+  date: string;
+  endDate: string;
+  agency: string;
+  description: string;
+  link: string;
+  approximate: boolean;
+  relevance: number;
+}
+
+export interface FieldViolation {
+  field: string;
+  description: string;
+}
+
+export class ValidationError extends Error {
+  violations: FieldViolation[];
+
+  constructor(violations: FieldViolation[]) {
+    super("Validation failed");
+    this.name = "ValidationError";
+    this.violations = violations;
+  }
+}
+
+export class ApiError extends Error {
+  statusCode: number;
+  body: string;
+
+  constructor(statusCode: number, message: string, body: string) {
+    super(message);
+    this.name = "ApiError";
+    this.statusCode = statusCode;
+    this.body = body;
+  }
+}
+
+export interface CareServiceClientOptions {
+  fetch?: typeof fetch;
+  defaultHeaders?: Record<string, string>;
+}
+
+export interface CareServiceCallOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export class CareServiceClient {
+  private baseURL: string;
+  private fetchFn: typeof fetch;
+  private defaultHeaders: Record<string, string>;
+
+  constructor(baseURL: string, options?: CareServiceClientOptions) {
+    this.baseURL = baseURL.replace(/\/+$/, "");
+    this.fetchFn = options?.fetch ?? globalThis.fetch;
+    this.defaultHeaders = { ...options?.defaultHeaders };
+  }
+
+  async listTrackNews(req: ListTrackNewsRequest, options?: CareServiceCallOptions): Promise<ListTrackNewsResponse> {
+    let path = "/api/care/v1/list-track-news";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as ListTrackNewsResponse;
+  }
+
+  async getOpportunityScore(req: GetOpportunityScoreRequest, options?: CareServiceCallOptions): Promise<GetOpportunityScoreResponse> {
+    let path = "/api/care/v1/get-opportunity-score";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GetOpportunityScoreResponse;
+  }
+
+  async listProcurementListings(req: ListProcurementListingsRequest, options?: CareServiceCallOptions): Promise<ListProcurementListingsResponse> {
+    let path = "/api/care/v1/list-procurement-listings";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as ListProcurementListingsResponse;
+  }
+
+  async getKeywordProfile(req: GetKeywordProfileRequest, options?: CareServiceCallOptions): Promise<GetKeywordProfileResponse> {
+    let path = "/api/care/v1/get-keyword-profile";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GetKeywordProfileResponse;
+  }
+
+  async updateKeywordProfile(req: UpdateKeywordProfileRequest, options?: CareServiceCallOptions): Promise<UpdateKeywordProfileResponse> {
+    let path = "/api/care/v1/update-keyword-profile";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as UpdateKeywordProfileResponse;
+  }
+
+  async listCompetitors(req: ListCompetitorsRequest, options?: CareServiceCallOptions): Promise<ListCompetitorsResponse> {
+    let path = "/api/care/v1/list-competitors";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as ListCompetitorsResponse;
+  }
+
+  async updateCompetitors(req: UpdateCompetitorsRequest, options?: CareServiceCallOptions): Promise<UpdateCompetitorsResponse> {
+    let path = "/api/care/v1/update-competitors";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as UpdateCompetitorsResponse;
+  }
+
+  async searchDartCorps(req: SearchDartCorpsRequest, options?: CareServiceCallOptions): Promise<SearchDartCorpsResponse> {
+    let path = "/api/care/v1/search-dart-corps";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as SearchDartCorpsResponse;
+  }
+
+  async listCompetitorDisclosures(req: ListCompetitorDisclosuresRequest, options?: CareServiceCallOptions): Promise<ListCompetitorDisclosuresResponse> {
+    let path = "/api/care/v1/list-competitor-disclosures";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as ListCompetitorDisclosuresResponse;
+  }
+
+  async getTelegramSubscription(req: GetTelegramSubscriptionRequest, options?: CareServiceCallOptions): Promise<GetTelegramSubscriptionResponse> {
+    let path = "/api/care/v1/get-telegram-subscription";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GetTelegramSubscriptionResponse;
+  }
+
+  async updateTelegramSubscription(req: UpdateTelegramSubscriptionRequest, options?: CareServiceCallOptions): Promise<UpdateTelegramSubscriptionResponse> {
+    let path = "/api/care/v1/update-telegram-subscription";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as UpdateTelegramSubscriptionResponse;
+  }
+
+  async recordBotAction(req: RecordBotActionRequest, options?: CareServiceCallOptions): Promise<RecordBotActionResponse> {
+    let path = "/api/care/v1/record-bot-action";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as RecordBotActionResponse;
+  }
+
+  async listBotActions(req: ListBotActionsRequest, options?: CareServiceCallOptions): Promise<ListBotActionsResponse> {
+    let path = "/api/care/v1/list-bot-actions";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as ListBotActionsResponse;
+  }
+
+  async listNotificationDeliveries(req: ListNotificationDeliveriesRequest, options?: CareServiceCallOptions): Promise<ListNotificationDeliveriesResponse> {
+    let path = "/api/care/v1/list-notification-deliveries";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as ListNotificationDeliveriesResponse;
+  }
+
+  async generateStudySession(req: GenerateStudySessionRequest, options?: CareServiceCallOptions): Promise<GenerateStudySessionResponse> {
+    let path = "/api/care/v1/generate-study-session";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GenerateStudySessionResponse;
+  }
+
+  async evaluateStudyAnswer(req: EvaluateStudyAnswerRequest, options?: CareServiceCallOptions): Promise<EvaluateStudyAnswerResponse> {
+    let path = "/api/care/v1/evaluate-study-answer";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as EvaluateStudyAnswerResponse;
+  }
+
+  async getCompanyFinancials(req: GetCompanyFinancialsRequest, options?: CareServiceCallOptions): Promise<GetCompanyFinancialsResponse> {
+    let path = "/api/care/v1/get-company-financials";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GetCompanyFinancialsResponse;
+  }
+
+  async generateWeeklyReview(req: GenerateWeeklyReviewRequest, options?: CareServiceCallOptions): Promise<GenerateWeeklyReviewResponse> {
+    let path = "/api/care/v1/generate-weekly-review";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as GenerateWeeklyReviewResponse;
+  }
+
+  async listPolicyCalendar(req: ListPolicyCalendarRequest, options?: CareServiceCallOptions): Promise<ListPolicyCalendarResponse> {
+    let path = "/api/care/v1/list-policy-calendar";
+    const url = this.baseURL + path;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...this.defaultHeaders,
+      ...options?.headers,
+    };
+
+    const resp = await this.fetchFn(url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(req),
+      signal: options?.signal,
+    });
+
+    if (!resp.ok) {
+      return this.handleError(resp);
+    }
+
+    return await resp.json() as ListPolicyCalendarResponse;
+  }
+
+  private async handleError(resp: Response): Promise<never> {
+    const body = await resp.text();
+    if (resp.status === 400) {
+      try {
+        const parsed = JSON.parse(body);
+        if (parsed.violations) {
+          throw new ValidationError(parsed.violations);
+        }
+      } catch (e) {
+        if (e instanceof ValidationError) throw e;
+      }
+    }
+    throw new ApiError(resp.status, `Request failed with status ${resp.status}`, body);
+  }
+}
+
@@ -0,0 +1,1336 @@
+// Code generated by protoc-gen-ts-server. DO NOT EDIT.
+// source: worldmonitor/care/v1/service.proto
+
+export interface ListTrackNewsRequest {
+  track: string;
+  limit: number;
+}
+
+export interface ListTrackNewsResponse {
+  articles: CareArticle[];
+  generatedAt: number;
+}
+
+export interface CareArticle {
+  id: string;
+  title: string;
+  link: string;
+  source: string;
+  publishedAt: number;
+  description: string;
+  track: string;
+  keywordMatches: KeywordMatch[];
+  relevanceScore: number;
+  verifiedScore: number;
+  sourceCount: number;
+  isVerified: boolean;
+  relatedSources: string[];
+  ref: string;
+}
+
+export interface KeywordMatch {
+  keyword: string;
+  category: string;
+}
+
+export interface GetOpportunityScoreRequest {
+}
+
+export interface GetOpportunityScoreResponse {
+  score?: OpportunityScore;
+  verification?: VerificationStats;
+  trackCounts: Record<string, number>;
+  generatedAt: number;
+}
+
+export interface OpportunityScore {
+  total: number;
+  s1: number;
+  s2: number;
+  s3: number;
+  shouldAlert: boolean;
+  isHighPriority: boolean;
+}
+
+export interface VerificationStats {
+  total: number;
+  verified: number;
+  multiSource: number;
+  singleSource: number;
+}
+
+export interface ListProcurementListingsRequest {
+  limit: number;
+}
+
+export interface ListProcurementListingsResponse {
+  listings: ProcurementListing[];
+  generatedAt: number;
+}
+
+export interface ProcurementListing {
+  id: string;
+  title: string;
+  agency: string;
+  budget: number;
+  deadline: string;
+  bidType: string;
+  sourceUrl: string;
+  fitnessScore: string;
+  fitnessReason: string;
+  matchedKeywords: string[];
+  fetchedAt: number;
+}
+
+export interface GetKeywordProfileRequest {
+}
+
+export interface GetKeywordProfileResponse {
+  profile?: KeywordProfile;
+}
+
+export interface KeywordProfile {
+  keywords: WeightedKeyword[];
+  negativeKeywords: string[];
+  alertThreshold: number;
+  updatedAt: number;
+  scoringProfile?: ScoringProfile;
+}
+
+export interface WeightedKeyword {
+  keyword: string;
+  category: string;
+  weight: number;
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  weights?: ScoreWeights;
+  countSaturation: number;
+  relevanceWeight: number;
+  countWeight: number;
+  recencyHalfLifeHours: number;
+  tierBonus: number;
+  highPriorityThreshold: number;
+}
+
+export interface ScoreWeights {
+  policy: number;
+  investment: number;
+  competitor: number;
+}
+
+export interface UpdateKeywordProfileRequest {
+  profile?: KeywordProfile;
+}
+
+export interface UpdateKeywordProfileResponse {
+  profile?: KeywordProfile;
+  error: string;
+}
+
+export interface ListCompetitorsRequest {
+}
+
+export interface ListCompetitorsResponse {
+  competitors: Competitor[];
+  updatedAt: number;
+}
+
+export interface Competitor {
+  corpCode: string;
+  name: string;
+  stockCode: string;
+}
+
+export interface UpdateCompetitorsRequest {
+  competitors: Competitor[];
+}
+
+export interface UpdateCompetitorsResponse {
+  competitors: Competitor[];
+  updatedAt: number;
+  error: string;
+}
+
+export interface SearchDartCorpsRequest {
+  query: string;
+}
+
+export interface SearchDartCorpsResponse {
+  corps: Competitor[];
+  configured: boolean;
+  error: string;
+}
+
+export interface ListCompetitorDisclosuresRequest {
+  corpCode: string;
+  limit: number;
+}
+
+export interface ListCompetitorDisclosuresResponse {
+  disclosures: CompetitorDisclosure[];
+  configured: boolean;
+  generatedAt: number;
+}
+
+export interface CompetitorDisclosure {
+  receiptNo: string;
+  corpCode: string;
+  corpName: string;
+  reportName: string;
+  filedAt: string;
+  filer: string;
+  filingType: string;
+  link: string;
+}
+
+export interface GetTelegramSubscriptionRequest {
+  chatId: string;
+}
+
+export interface GetTelegramSubscriptionResponse {
+  subscription?: TelegramSubscription;
+}
+
+export interface TelegramSubscription {
+  chatId: string;
+  tracks: string[];
+  alertThreshold: number;
+  quietStartHour: number;
+  quietEndHour: number;
+  language: string;
+  alertsEnabled: boolean;
+  updatedAt: number;
+}
+
+export interface UpdateTelegramSubscriptionRequest {
+  subscription?: TelegramSubscription;
+}
+
+export interface UpdateTelegramSubscriptionResponse {
+  subscription?: TelegramSubscription;
+  error: string;
+}
+
+export interface RecordBotActionRequest {
+  chatId: string;
+  kind: string;
+  articleRef: string;
+  title: string;
+}
+
+export interface RecordBotActionResponse {
+  action?: BotAction;
+  error: string;
+}
+
+export interface BotAction {
+  id: string;
+  kind: string;
+  chatId: string;
+  article?: BotArticle;
+  createdAt: number;
+}
+
+export interface BotArticle {
+  id: string;
+  ref: string;
+  title: string;
+  link: string;
+  source: string;
+  track: string;
+  description: string;
+}
+
+export interface ListBotActionsRequest {
+  since: number;
+  kind: string;
+  limit: number;
+}
+
+export interface ListBotActionsResponse {
+  actions: BotAction[];
+}
+
+export interface ListNotificationDeliveriesRequest {
+  limit: number;
+}
+
+export interface ListNotificationDeliveriesResponse {
+  channels: NotificationChannelInfo[];
+  deliveries: NotificationDelivery[];
+}
+
+export interface NotificationChannelInfo {
+  kind: string;
+  name: string;
+  events: string[];
+}
+
+export interface NotificationDelivery {
+  id: string;
+  channel: string;
+  kind: string;
+  eventType: string;
+  status: string;
+  attempts: number;
+  error: string;
+  createdAt: number;
+}
+
+export interface GenerateStudySessionRequest {
+  sessionType: string;
+  article?: StudyArticle;
+  company?: SyntheticCompany;
+  scenario?: SroiScenario;
+}
+
+export interface StudyArticle {
+  title: string;
+  description: string;
+  link: string;
+  track: string;
+  keywords: string[];
+}
+
+export interface SyntheticCompany {
+  id: string;
+  name: string;
+  basedOn: string;
+  category: string;
+  description: string;
+  financials: string;
+  learningFocus: string;
+  careviaRelevance: string;
+  level: string;
+}
+
+export interface SroiScenario {
+  id: string;
+  site: string;
+  event: string;
+  hint: string;
+  difficulty: string;
+  learningFocus: string;
+  basedOn: string;
+}
+
+export interface GenerateStudySessionResponse {
+  question?: StudyQuestion;
+  reference: string;
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+export interface StudyQuestion {
+  title: string;
+  prompt: string;
+  context: string[];
+  answerGuide: string;
+}
+
+export interface EvaluateStudyAnswerRequest {
+  sessionType: string;
+  question?: StudyQuestion;
+  reference: string;
+  myAnswer: string;
+}
+
+export interface EvaluateStudyAnswerResponse {
+  gaps: StudyGap[];
+  depthScores: DepthScore[];
+  summary: string;
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+export interface StudyGap {
+  kind: string;
+  point: string;
+  detail: string;
+}
+
+export interface DepthScore {
+  dimension: string;
+  score: number;
+  reason: string;
+}
+
+export interface GetCompanyFinancialsRequest {
+  corpCode: string;
+  year: number;
+}
+
+export interface GetCompanyFinancialsResponse {
+  periods: FinancialPeriod[];
+  statementKind: string;
+  year: number;
+  configured: boolean;
+  error: string;
+}
+
+export interface FinancialPeriod {
+  year: number;
+  revenue: number;
+  operatingIncome: number;
+  netIncome: number;
+  currentAssets: number;
+  currentLiabilities: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  totalEquity: number;
+}
+
+export interface GenerateWeeklyReviewRequest {
+  weekStart: string;
+  weekEnd: string;
+  sessions: WeeklyActivity[];
+  memos: WeeklyActivity[];
+  bookmarks: WeeklyActivity[];
+  competencies: WeeklyCompetency[];
+  ignored: string[];
+  scoreTrend: string;
+  answers: string[];
+}
+
+export interface WeeklyActivity {
+  kind: string;
+  title: string;
+  detail: string;
+}
+
+export interface WeeklyCompetency {
+  label: string;
+  level: string;
+  proficiency: number;
+  change: number;
+  sessions: number;
+}
+
+export interface GenerateWeeklyReviewResponse {
+  summary: string;
+  blindSpots: string[];
+  growthNote: string;
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+export interface ListPolicyCalendarRequest {
+  kind: string;
+  limit: number;
+}
+
+export interface ListPolicyCalendarResponse {
+  events: PolicyEvent[];
+  generatedAt: number;
+}
+
+export interface PolicyEvent {
+  id: string;
+  kind: string;
+  title: string;
+  date: string;
+  endDate: string;
+  agency: string;
+  description: string;
+  link: string;
+  approximate: boolean;
+  relevance: number;
+}
+
+export interface FieldViolation {
+  field: string;
+  description: string;
+}
+
+export class ValidationError extends Error {
+  violations: FieldViolation[];
+
+  constructor(violations: FieldViolation[]) {
+    super("Validation failed");
+    this.name = "ValidationError";
+    this.violations = violations;
+  }
+}
+
+export class ApiError extends Error {
+  statusCode: number;
+  body: string;
+
+  constructor(statusCode: number, message: string, body: string) {
+    super(message);
+    this.name = "ApiError";
+    this.statusCode = statusCode;
+    this.body = body;
+  }
+}
+
+export interface ServerContext {
+  request: Request;
+  pathParams: Record<string, string>;
+  headers: Record<string, string>;
+}
+
+export interface ServerOptions {
+  onError?: (error: unknown, req: Request) => Response | Promise<Response>;
+  validateRequest?: (methodName: string, body: unknown) => FieldViolation[] | undefined;
+}
+
+export interface RouteDescriptor {
+  method: string;
+  path: string;
+  handler: (req: Request) => Promise<Response>;
+}
+
+export interface CareServiceHandler {
+  listTrackNews(ctx: ServerContext, req: ListTrackNewsRequest): Promise<ListTrackNewsResponse>;
+  getOpportunityScore(ctx: ServerContext, req: GetOpportunityScoreRequest): Promise<GetOpportunityScoreResponse>;
+  listProcurementListings(ctx: ServerContext, req: ListProcurementListingsRequest): Promise<ListProcurementListingsResponse>;
+  getKeywordProfile(ctx: ServerContext, req: GetKeywordProfileRequest): Promise<GetKeywordProfileResponse>;
+  updateKeywordProfile(ctx: ServerContext, req: UpdateKeywordProfileRequest): Promise<UpdateKeywordProfileResponse>;
+  listCompetitors(ctx: ServerContext, req: ListCompetitorsRequest): Promise<ListCompetitorsResponse>;
+  updateCompetitors(ctx: ServerContext, req: UpdateCompetitorsRequest): Promise<UpdateCompetitorsResponse>;
+  searchDartCorps(ctx: ServerContext, req: SearchDartCorpsRequest): Promise<SearchDartCorpsResponse>;
+  listCompetitorDisclosures(ctx: ServerContext, req: ListCompetitorDisclosuresRequest): Promise<ListCompetitorDisclosuresResponse>;
+  getTelegramSubscription(ctx: ServerContext, req: GetTelegramSubscriptionRequest): Promise<GetTelegramSubscriptionResponse>;
+  updateTelegramSubscription(ctx: ServerContext, req: UpdateTelegramSubscriptionRequest): Promise<UpdateTelegramSubscriptionResponse>;
+  recordBotAction(ctx: ServerContext, req: RecordBotActionRequest): Promise<RecordBotActionResponse>;
+  listBotActions(ctx: ServerContext, req: ListBotActionsRequest): Promise<ListBotActionsResponse>;
+  listNotificationDeliveries(ctx: ServerContext, req: ListNotificationDeliveriesRequest): Promise<ListNotificationDeliveriesResponse>;
+  generateStudySession(ctx: ServerContext, req: GenerateStudySessionRequest): Promise<GenerateStudySessionResponse>;
+  evaluateStudyAnswer(ctx: ServerContext, req: EvaluateStudyAnswerRequest): Promise<EvaluateStudyAnswerResponse>;
+  getCompanyFinancials(ctx: ServerContext, req: GetCompanyFinancialsRequest): Promise<GetCompanyFinancialsResponse>;
+  generateWeeklyReview(ctx: ServerContext, req: GenerateWeeklyReviewRequest): Promise<GenerateWeeklyReviewResponse>;
+  listPolicyCalendar(ctx: ServerContext, req: ListPolicyCalendarRequest): Promise<ListPolicyCalendarResponse>;
+}
+
+export function createCareServiceRoutes(
+  handler: CareServiceHandler,
+  options?: ServerOptions,
+): RouteDescriptor[] {
+  return [
+    {
+      method: "POST",
+      path: "/api/care/v1/list-track-news",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as ListTrackNewsRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("listTrackNews", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.listTrackNews(ctx, body);
+          return new Response(JSON.stringify(result as ListTrackNewsResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/get-opportunity-score",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GetOpportunityScoreRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("getOpportunityScore", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.getOpportunityScore(ctx, body);
+          return new Response(JSON.stringify(result as GetOpportunityScoreResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/list-procurement-listings",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as ListProcurementListingsRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("listProcurementListings", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.listProcurementListings(ctx, body);
+          return new Response(JSON.stringify(result as ListProcurementListingsResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/get-keyword-profile",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GetKeywordProfileRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("getKeywordProfile", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.getKeywordProfile(ctx, body);
+          return new Response(JSON.stringify(result as GetKeywordProfileResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/update-keyword-profile",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as UpdateKeywordProfileRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("updateKeywordProfile", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.updateKeywordProfile(ctx, body);
+          return new Response(JSON.stringify(result as UpdateKeywordProfileResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/list-competitors",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as ListCompetitorsRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("listCompetitors", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.listCompetitors(ctx, body);
+          return new Response(JSON.stringify(result as ListCompetitorsResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/update-competitors",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as UpdateCompetitorsRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("updateCompetitors", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.updateCompetitors(ctx, body);
+          return new Response(JSON.stringify(result as UpdateCompetitorsResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/search-dart-corps",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as SearchDartCorpsRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("searchDartCorps", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.searchDartCorps(ctx, body);
+          return new Response(JSON.stringify(result as SearchDartCorpsResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/list-competitor-disclosures",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as ListCompetitorDisclosuresRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("listCompetitorDisclosures", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.listCompetitorDisclosures(ctx, body);
+          return new Response(JSON.stringify(result as ListCompetitorDisclosuresResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/get-telegram-subscription",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GetTelegramSubscriptionRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("getTelegramSubscription", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.getTelegramSubscription(ctx, body);
+          return new Response(JSON.stringify(result as GetTelegramSubscriptionResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/update-telegram-subscription",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as UpdateTelegramSubscriptionRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("updateTelegramSubscription", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.updateTelegramSubscription(ctx, body);
+          return new Response(JSON.stringify(result as UpdateTelegramSubscriptionResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/record-bot-action",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as RecordBotActionRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("recordBotAction", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.recordBotAction(ctx, body);
+          return new Response(JSON.stringify(result as RecordBotActionResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/list-bot-actions",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as ListBotActionsRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("listBotActions", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.listBotActions(ctx, body);
+          return new Response(JSON.stringify(result as ListBotActionsResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/list-notification-deliveries",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as ListNotificationDeliveriesRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("listNotificationDeliveries", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.listNotificationDeliveries(ctx, body);
+          return new Response(JSON.stringify(result as ListNotificationDeliveriesResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/generate-study-session",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GenerateStudySessionRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("generateStudySession", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.generateStudySession(ctx, body);
+          return new Response(JSON.stringify(result as GenerateStudySessionResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/evaluate-study-answer",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as EvaluateStudyAnswerRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("evaluateStudyAnswer", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.evaluateStudyAnswer(ctx, body);
+          return new Response(JSON.stringify(result as EvaluateStudyAnswerResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/get-company-financials",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GetCompanyFinancialsRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("getCompanyFinancials", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.getCompanyFinancials(ctx, body);
+          return new Response(JSON.stringify(result as GetCompanyFinancialsResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/generate-weekly-review",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as GenerateWeeklyReviewRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("generateWeeklyReview", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.generateWeeklyReview(ctx, body);
+          return new Response(JSON.stringify(result as GenerateWeeklyReviewResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+    {
+      method: "POST",
+      path: "/api/care/v1/list-policy-calendar",
+      handler: async (req: Request): Promise<Response> => {
+        try {
+          const pathParams: Record<string, string> = {};
+          const body = await req.json() as ListPolicyCalendarRequest;
+          if (options?.validateRequest) {
+            const bodyViolations = options.validateRequest("listPolicyCalendar", body);
+            if (bodyViolations) {
+              throw new ValidationError(bodyViolations);
+            }
+          }
+
+          const ctx: ServerContext = {
+            request: req,
+            pathParams,
+            headers: Object.fromEntries(req.headers.entries()),
+          };
+
+          const result = await handler.listPolicyCalendar(ctx, body);
+          return new Response(JSON.stringify(result as ListPolicyCalendarResponse), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          });
+        } catch (err: unknown) {
+          if (err instanceof ValidationError) {
+            return new Response(JSON.stringify({ violations: err.violations }), {
+              status: 400,
+              headers: { "Content-Type": "application/json" },
+            });
+          }
+          if (options?.onError) {
+            return options.onError(err, req);
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          return new Response(JSON.stringify({ message }), {
+            status: 500,
+            headers: { "Content-Type": "application/json" },
+          });
+        }
+      },
+    },
+  ];
+}
+
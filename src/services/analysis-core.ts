@@ -75,6 +75,13 @@ export interface NewsItemCore {
 
 export type NewsItemWithTier = NewsItemCore & { tier: number };
 
+export interface ClusterOptions {
+  /** Title tokenizer — the default keeps only ASCII words, so non-Latin feeds pass their own */
+  tokenize?: (title: string) => Set<string>;
+  /** Jaccard threshold (default SIMILARITY_THRESHOLD) */
+  threshold?: number;
+}
+
 export interface ClusteredEventCore {
   id: string;
   primaryTitle: string;
@@ -163,7 +170,7 @@ export interface StreamSnapshot {
 function generateClusterId(items: NewsItemWithTier[]): string {
   const sorted = [...items].sort((a, b) => a.pubDate.getTime() - b.pubDate.getTime());
   const first = sorted[0]!;
-  return `${first.pubDate.getTime()}-${first.title.slice(0, 20).replace(/\W/g, '')}`;
+  return `${first.pubDate.getTime()}-${first.title.slice(0, 20).replace(/[^\p{L}\p{N}_]/gu, '')}`;
 }
 
 /**
@@ -172,9 +179,12 @@ function generateClusterId(items: NewsItemWithTier[]): string {
  */
 export function clusterNewsCore(
   items: NewsItemCore[],
-  getSourceTier: (source: string) => number
+  getSourceTier: (source: string) => number,
+  options: ClusterOptions = {}
 ): ClusteredEventCore[] {
   if (items.length === 0) return [];
+  const tokenizeTitle = options.tokenize ?? tokenize;
+  const threshold = options.threshold ?? SIMILARITY_THRESHOLD;
 
   const itemsWithTier: NewsItemWithTier[] = items.map(item => ({
     ...item,
@@ -185,7 +195,7 @@ export function clusterNewsCore(
   const tokenList: Set<string>[] = [];
   const invertedIndex = new Map<string, number[]>();
   for (const item of itemsWithTier) {
-    const tokens = tokenize(item.title);
+    const tokens = tokenizeTitle(item.title);
     tokenCache.set(item.title, tokens);
     tokenList.push(tokens);
   }
@@ -234,7 +244,7 @@ export function clusterNewsCore(
       const tokensJ = tokenList[j]!;
       const similarity = jaccardSimilarity(tokensI, tokensJ);
 
-      if (similarity >= SIMILARITY_THRESHOLD) {
+      if (similarity >= threshold) {
         cluster.push(otherItem);
         assigned.add(j);
       }
@@ -0,0 +1,76 @@
+/**
+ * 텔레그램 인라인 버튼 액션 — 제외, 북마크, 학습 세션 시작
+ *
+ * 웹훅이 care.v1 서버의 액션 수신함(Redis)에 기록하고, 대시보드가 트래킹 스냅샷을 불러올 때
+ * 가져가 exclusionStore·articleStore·knowledgeStore에 반영합니다 (services/botInbox.ts).
+ */
+
+import type { BotLanguage } from './telegramSubscription';
+
+export type BotActionKind = 'exclude' | 'bookmark' | 'study';
+
+export const BOT_ACTION_KINDS: BotActionKind[] = ['exclude', 'bookmark', 'study'];
+
+/** callback_data 코드 — `a:<코드>:<기사 ref>` (api/telegram/webhook.js의 ACTION_CODES와 동일, tests/bot-actions.test.mjs가 확인) */
+export const BOT_ACTION_CODES: Record<BotActionKind, string> = { exclude: 'x', bookmark: 'b', study: 's' };
+
+const ACTION_LABELS: Record<BotLanguage, Record<BotActionKind, string>> = {
+  ko: { exclude: '🚫 제외', bookmark: '🔖 북마크', study: '📚 학습' },
+  en: { exclude: '🚫 Exclude', bookmark: '🔖 Bookmark', study: '📚 Study' },
+};
+
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data: string;
+}
+
+/** 알림의 n번째 기사에 붙는 버튼 한 줄 */
+export function articleActionRow(ref: string, index: number, language: BotLanguage): InlineKeyboardButton[] {
+  return BOT_ACTION_KINDS.map((kind) => ({
+    text: `${index} ${ACTION_LABELS[language][kind]}`,
+    callback_data: `a:${BOT_ACTION_CODES[kind]}:${ref}`,
+  }));
+}
+
+/** 액션 대상 기사 — 스냅샷의 CareArticle 일부 (제목만으로 제외한 경우 id·ref·link는 빈 값) */
+export interface BotArticle {
+  id: string;
+  ref: string;
+  title: string;
+  link: string;
+  source: string;
+  track: string;
+  description: string;
+}
+
+export interface BotAction {
+  id: string;
+  kind: BotActionKind;
+  chatId: string;
+  article: BotArticle;
+  /** 기록 시각 (Unix ms) — 대시보드 동기화 커서 */
+  createdAt: number;
+}
+
+export function normalizeBotAction(raw: Partial<BotAction> | null | undefined): BotAction | null {
+  if (!raw || !BOT_ACTION_KINDS.includes(raw.kind as BotActionKind)) return null;
+  const article = raw.article;
+  const title = String(article?.title ?? '').trim();
+  if (!raw.id || !title) return null;
+
+  return {
+    id: String(raw.id),
+    kind: raw.kind as BotActionKind,
+    chatId: String(raw.chatId ?? ''),
+    article: {
+      id: String(article?.id ?? ''),
+      ref: String(article?.ref ?? ''),
+      title,
+      link: String(article?.link ?? ''),
+      source: String(article?.source ?? ''),
+      track: String(article?.track ?? ''),
+      description: String(article?.description ?? ''),
+    },
+    createdAt: Number(raw.createdAt) || 0,
+  };
+}
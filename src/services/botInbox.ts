@@ -0,0 +1,88 @@
+/**
+ * 텔레그램 액션 수신함 — 봇 인라인 버튼(제외·북마크·학습)을 웹 UI 스토어에 반영
+ *
+ * 봇은 브라우저 localStorage에 닿을 수 없으므로 서버(care.v1 list-bot-actions)에 쌓인 액션을
+ * 마지막으로 반영한 시각(커서) 이후만 가져와 웹 UI와 같은 스토어 API로 적용합니다.
+ */
+
+import { fetchBotActions } from './care';
+import type { BotAction } from './botActions';
+import { storage } from '../utils/storage';
+import { useExclusionStore } from '../stores/exclusionStore';
+import { useArticleStore } from '../stores/articleStore';
+import { useKnowledgeStore } from '../stores/knowledgeStore';
+import { useStudyStore } from '../stores/studyStore';
+
+const CURSOR_KEY = 'careradar_bot_inbox_cursor';
+// 최근 반영한 액션 id — 커서와 같은 밀리초에 기록된 액션을 놓치지 않도록 커서 시각부터 다시 받고 id로 거름
+const APPLIED_KEY = 'careradar_bot_inbox_applied';
+const MAX_APPLIED = 200;
+
+// 트래킹 새로고침과 학습 화면이 동시에 불러도 한 번만 반영
+let inflight: Promise<BotAction[]> | null = null;
+
+function applyAction({ kind, article }: BotAction): void {
+  switch (kind) {
+    case 'exclude':
+      useExclusionStore.getState().addExclusion({
+        title: article.title,
+        link: article.link,
+        source: article.source,
+        track: article.track,
+        reason: '텔레그램에서 제외',
+      });
+      return;
+
+    case 'bookmark':
+      if (article.id) useArticleStore.getState().setBookmarked(article.id, true, { title: article.title, track: article.track });
+      return;
+
+    case 'study': {
+      // 같은 기사의 학습 버튼을 여러 번 눌러도 노트·세션은 한 번만
+      const knowledge = useKnowledgeStore.getState();
+      if (knowledge.items.some((i) => i.tags.includes('telegram') && i.sourceArticle?.title === article.title)) return;
+      knowledge.addItem({
+        type: 'manual_note',
+        title: article.title,
+        content: article.description || article.title,
+        tags: ['telegram', ...(article.track ? [article.track] : [])],
+        sourceArticle: { title: article.title, link: article.link, track: article.track },
+      });
+      // 진행 중인 세션은 덮어쓰지 않음 — 지식 베이스 노트로 나중에 이어서 학습
+      const study = useStudyStore.getState();
+      if (!study.currentSession) {
+        study.startSession('custom', {
+          title: article.title,
+          description: article.description,
+          link: article.link,
+          track: article.track,
+          keywords: [],
+        });
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * 새 봇 액션을 반영하고 반영한 액션을 반환 — 서비스에 닿지 않으면 빈 배열 (커서 유지)
+ */
+export function syncBotActions(): Promise<BotAction[]> {
+  inflight ??= (async () => {
+    const cursor = storage.get<number>(CURSOR_KEY, 0);
+    const fetched = await fetchBotActions(Math.max(0, cursor - 1));
+    const applied = new Set(storage.get<string[]>(APPLIED_KEY, []));
+    const actions = fetched.filter((a) => {
+      if (applied.has(a.id)) return false;
+      applied.add(a.id);
+      return true;
+    });
+    if (actions.length > 0) {
+      actions.forEach(applyAction);
+      storage.set(CURSOR_KEY, actions[actions.length - 1]!.createdAt);
+      storage.set(APPLIED_KEY, [...applied].slice(-MAX_APPLIED));
+    }
+    return actions;
+  })().finally(() => { inflight = null; });
+  return inflight;
+}
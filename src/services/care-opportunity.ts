@@ -0,0 +1,245 @@
+/**
+ * Care Opportunity — world-map care variant data layer for the BOS and
+ * Opportunity Radar panels.
+ *
+ * The score, contributing articles and procurement list come from the same
+ * care.v1 snapshot the /tracking page reads, and are recorded into
+ * useTrackingStore so both UIs share one score history. Convergence signals
+ * are derived from DataLoader's news clusters via CARE_CONVERGENCE_RULES.
+ * When care.v1 is unreachable the score is recomputed locally from those
+ * clusters with the same keyword -> cross-verify -> score pipeline.
+ */
+
+import type { ClusteredEvent, NewsItem } from '@/types';
+import { CARE_FEED_TRACKS } from '@/config/care-feeds';
+import { STALE_CARE_TRACKING_MS } from '@/config/constants';
+import { detectConvergence, type ConvergenceAlert, type SignalCount } from './care-insights';
+import { filterByKeywords } from './keywordFilter';
+import { crossVerify } from './crossVerification';
+import { calculateOpportunityScore, type OpportunityScoreResult } from './scoreCalculator';
+import {
+  fetchTrackingSnapshot,
+  liveScoringProfile,
+  recordTrackingSnapshot,
+  toNewsArticle,
+  topContributingNews,
+  type ProcurementItem,
+  type TrackingSnapshot,
+} from './trackingFeed';
+import { calcTimeAgo, type RssItem } from './rssFeed';
+import { relevanceAdjustment } from '@/services/relevance';
+import { useTrackingStore, type ScoreHistoryEntry, type TopContributingNews } from '@/stores/trackingStore';
+import { useSettingsStore } from '@/stores/settingsStore';
+
+export type CareOpportunitySource = 'snapshot' | 'clusters';
+
+export interface ScoreTrend {
+  direction: 'rising' | 'falling' | 'stable';
+  /** total minus the last recorded score from before the trend window */
+  delta: number;
+  /** recorded totals inside the window, oldest first, ending with the current total */
+  points: number[];
+}
+
+/** DataLoader's latest clustering pass, handed to the care panels after each news load */
+export interface CareClusterInput {
+  clusters: ClusteredEvent[];
+  newsByCategory: Record<string, NewsItem[]>;
+  updatedAt: number;
+}
+
+export const EMPTY_CARE_CLUSTERS: CareClusterInput = { clusters: [], newsByCategory: {}, updatedAt: 0 };
+
+export interface CareOpportunityView {
+  source: CareOpportunitySource;
+  score: OpportunityScoreResult;
+  contributing: TopContributingNews;
+  procurements: ProcurementItem[];
+  convergence: ConvergenceAlert[];
+  signals: SignalCount[];
+  trend: ScoreTrend;
+  generatedAt: number;
+  isStale: boolean;
+}
+
+const TREND_WINDOW_MS = 24 * 60 * 60 * 1000;
+const TREND_MAX_POINTS = 12;
+const TREND_FLAT_BAND = 3;
+const MAX_HEADLINES = 3;
+
+// ========================================================================
+// Convergence signals from news clusters
+// ========================================================================
+
+function careCategoryByLink(newsByCategory: Record<string, NewsItem[]>): Map<string, string> {
+  const byLink = new Map<string, string>();
+  for (const category of Object.keys(CARE_FEED_TRACKS)) {
+    for (const item of newsByCategory[category] ?? []) byLink.set(item.link, category);
+  }
+  return byLink;
+}
+
+function clusterCategories(cluster: ClusteredEvent, byLink: Map<string, string>): Set<string> {
+  const categories = new Set<string>();
+  for (const item of cluster.allItems) {
+    const category = byLink.get(item.link);
+    if (category) categories.add(category);
+  }
+  return categories;
+}
+
+/**
+ * Counts clusters per care feed category. A cluster spanning several categories
+ * (e.g. a procurement notice also carried by a care-tech outlet) counts once in each.
+ */
+export function buildCareSignals(
+  clusters: ClusteredEvent[],
+  newsByCategory: Record<string, NewsItem[]>,
+): SignalCount[] {
+  const byLink = careCategoryByLink(newsByCategory);
+  const signals = new Map<string, SignalCount>(
+    Object.keys(CARE_FEED_TRACKS).map((category) => [category, { category, count: 0, recentHeadlines: [] }]),
+  );
+
+  const newestFirst = [...clusters].sort((a, b) => b.lastUpdated.getTime() - a.lastUpdated.getTime());
+  for (const cluster of newestFirst) {
+    for (const category of clusterCategories(cluster, byLink)) {
+      const signal = signals.get(category)!;
+      signal.count++;
+      if (signal.recentHeadlines.length < MAX_HEADLINES) signal.recentHeadlines.push(cluster.primaryTitle);
+    }
+  }
+  return [...signals.values()];
+}
+
+// ========================================================================
+// Local fallback — score the clustered world-map news
+// ========================================================================
+
+function clustersToRssItems(
+  clusters: ClusteredEvent[],
+  newsByCategory: Record<string, NewsItem[]>,
+  now: number,
+): RssItem[] {
+  const byLink = careCategoryByLink(newsByCategory);
+  const items: RssItem[] = [];
+  for (const cluster of clusters) {
+    for (const item of cluster.allItems) {
+      const category = byLink.get(item.link);
+      const track = category ? CARE_FEED_TRACKS[category] : undefined;
+      if (!track) continue;
+      const pubDate = item.pubDate.toISOString();
+      items.push({
+        id: `${cluster.id}-${items.length}`,
+        title: item.title,
+        link: item.link,
+        source: item.source,
+        pubDate,
+        timeAgo: calcTimeAgo(pubDate, now),
+        description: '',
+        track,
+      });
+    }
+  }
+  return items;
+}
+
+function scoreFromClusters(
+  clusters: ClusteredEvent[],
+  newsByCategory: Record<string, NewsItem[]>,
+  now: number,
+): Pick<CareOpportunityView, 'score' | 'contributing'> {
+  const items = clustersToRssItems(clusters, newsByCategory, now);
+  const verified = crossVerify(filterByKeywords(items, relevanceAdjustment, useSettingsStore.getState().getKeywordProfile()));
+  return {
+    score: calculateOpportunityScore(verified, liveScoringProfile(), now),
+    contributing: topContributingNews(verified.map((item) => toNewsArticle(item, now))),
+  };
+}
+
+// ========================================================================
+// Trend
+// ========================================================================
+
+/**
+ * Compares the current total with the score history recorded over the last 24h.
+ */
+export function buildScoreTrend(history: ScoreHistoryEntry[], currentTotal: number, now = Date.now()): ScoreTrend {
+  const start = now - TREND_WINDOW_MS;
+  const sorted = [...history].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const inWindow = sorted.filter((h) => new Date(h.timestamp).getTime() >= start);
+  const baseline = sorted.filter((h) => new Date(h.timestamp).getTime() < start).pop() ?? inWindow[0];
+
+  const points = [...inWindow.map((h) => h.total).slice(-(TREND_MAX_POINTS - 1)), currentTotal];
+  const delta = baseline ? currentTotal - baseline.total : 0;
+  const direction = delta > TREND_FLAT_BAND ? 'rising' : delta < -TREND_FLAT_BAND ? 'falling' : 'stable';
+  return { direction, delta, points };
+}
+
+// ========================================================================
+// Public API
+// ========================================================================
+
+let inflight: Promise<TrackingSnapshot | null> | null = null;
+
+/** Both panels refresh on the same DataLoader tick — share one snapshot request. */
+function loadSnapshot(): Promise<TrackingSnapshot | null> {
+  if (!inflight) {
+    inflight = fetchTrackingSnapshot()
+      .catch((error) => {
+        console.warn('[CareOpportunity] care.v1 snapshot unavailable:', error);
+        return null;
+      })
+      .finally(() => { inflight = null; });
+  }
+  return inflight;
+}
+
+/**
+ * Builds the panel view. Throws only when neither care.v1 nor any clustered
+ * care news is available.
+ */
+export async function loadCareOpportunity(input: CareClusterInput): Promise<CareOpportunityView> {
+  const { clusters, newsByCategory } = input;
+  const now = Date.now();
+  const signals = buildCareSignals(clusters, newsByCategory);
+  const convergence = detectConvergence(signals);
+  const snapshot = await loadSnapshot();
+
+  if (snapshot) {
+    // Trend reads the history before this snapshot is appended, so the current total is not counted twice
+    const trend = buildScoreTrend(useTrackingStore.getState().scoreHistory, snapshot.score.total, now);
+    recordTrackingSnapshot(snapshot);
+    const generatedAt = new Date(snapshot.fetchedAt).getTime();
+    return {
+      source: 'snapshot',
+      score: snapshot.score,
+      contributing: topContributingNews(snapshot.articles),
+      procurements: snapshot.procurements,
+      convergence,
+      signals,
+      trend,
+      generatedAt,
+      isStale: now - generatedAt > STALE_CARE_TRACKING_MS,
+    };
+  }
+
+  if (!signals.some((s) => s.count > 0)) {
+    throw new Error('CareRadar 수집 서비스에 연결할 수 없습니다');
+  }
+
+  // Not recorded into score history — a different article set than care.v1
+  const { score, contributing } = scoreFromClusters(clusters, newsByCategory, now);
+  const generatedAt = input.updatedAt;
+  return {
+    source: 'clusters',
+    score,
+    contributing,
+    procurements: [],
+    convergence,
+    signals,
+    trend: buildScoreTrend(useTrackingStore.getState().scoreHistory, score.total, now),
+    generatedAt,
+    isStale: now - generatedAt > STALE_CARE_TRACKING_MS,
+  };
+}
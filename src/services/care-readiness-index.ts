@@ -1,17 +1,73 @@
 // Care Readiness Index (CRI)
 // Measures country-level care technology readiness,
 // analogous to Country Instability Index (CII) for the full variant.
+// Components are computed from live care signals (tracking snapshot news and
+// procurement listings) plus the regulation and robotics/startup registries;
+// trend compares against the stored daily history.
+
+import type { AIRegulation, RegulatoryAction } from '@/types';
+import type { RssItem } from './rssFeed';
+import { AI_REGULATIONS, REGULATORY_ACTIONS } from '../config/ai-regulations';
+import { CARE_STARTUPS, ROBOTICS_LABS, type CareStartup, type RoboticsLab } from '../config/care-geo';
+import { CARE_READINESS_COUNTRIES, EU_REGULATION_NAME } from '../config/care-readiness';
+
+export interface CareReadinessComponents {
+  policyMaturity: number;   // Welfare policy maturity (0-100)
+  techAdoption: number;     // AI care technology adoption (0-100)
+  roboticsEco: number;      // Care robotics ecosystem (0-100)
+  fundingActivity: number;  // Investment/procurement activity (0-100)
+}
+
+/** Signal counts behind the components — shown next to the score */
+export interface CareReadinessEvidence {
+  regulations: number;
+  regulationEvents: number;
+  policyNews: number;
+  techNews: number;
+  labs: number;
+  startups: number;
+  investmentNews: number;
+  procurements: number;
+}
 
 export interface CareReadinessScore {
   country: string;
+  name: string;
+  nameKo: string;
   overall: number; // 0-100
-  components: {
-    policyMaturity: number;   // Welfare policy maturity (0-100)
-    techAdoption: number;     // AI care technology adoption (0-100)
-    roboticsEco: number;      // Care robotics ecosystem (0-100)
-    fundingActivity: number;  // Investment/procurement activity (0-100)
-  };
+  components: CareReadinessComponents;
   trend: 'improving' | 'stable' | 'declining';
+  /** Overall change against the stored score from TREND_WINDOW_DAYS ago (0 while learning) */
+  change7d: number;
+  evidence: CareReadinessEvidence;
+}
+
+/** Article fields the index reads — NewsArticle maps onto this */
+export interface CareReadinessArticle {
+  title: string;
+  preview: string;
+  track: RssItem['track'];
+  sentimentScore: number; // 0-100, 50 = neutral
+}
+
+export interface CareReadinessSignals {
+  articles: CareReadinessArticle[];
+  /** Procurement listings — 나라장터 and news-based, all Korean */
+  procurementCount: number;
+}
+
+export interface CareReadinessRegistries {
+  regulations: AIRegulation[];
+  actions: RegulatoryAction[];
+  labs: RoboticsLab[];
+  startups: CareStartup[];
+}
+
+/** One stored snapshot per KST day — overall score by country code */
+export interface CareReadinessHistoryEntry {
+  day: string; // YYYY-MM-DD (KST)
+  timestamp: string;
+  scores: Record<string, number>;
 }
 
 // Component weights
@@ -22,102 +78,87 @@ const CRI_WEIGHTS = {
   fundingActivity: 0.15,
 };
 
-// Baseline scores for monitored countries (manually curated, updated periodically)
-const BASELINE_SCORES: Record<string, CareReadinessScore> = {
-  KR: {
-    country: 'KR',
-    overall: 72,
-    components: {
-      policyMaturity: 75,
-      techAdoption: 70,
-      roboticsEco: 65,
-      fundingActivity: 80,
-    },
-    trend: 'improving',
-  },
-  JP: {
-    country: 'JP',
-    overall: 85,
-    components: {
-      policyMaturity: 90,
-      techAdoption: 80,
-      roboticsEco: 95,
-      fundingActivity: 70,
-    },
-    trend: 'stable',
-  },
-  DE: {
-    country: 'DE',
-    overall: 68,
-    components: {
-      policyMaturity: 80,
-      techAdoption: 60,
-      roboticsEco: 70,
-      fundingActivity: 55,
-    },
-    trend: 'improving',
-  },
-  US: {
-    country: 'US',
-    overall: 78,
-    components: {
-      policyMaturity: 65,
-      techAdoption: 90,
-      roboticsEco: 80,
-      fundingActivity: 85,
-    },
-    trend: 'stable',
-  },
-  CN: {
-    country: 'CN',
-    overall: 70,
-    components: {
-      policyMaturity: 60,
-      techAdoption: 75,
-      roboticsEco: 80,
-      fundingActivity: 70,
-    },
-    trend: 'improving',
-  },
-  IL: {
-    country: 'IL',
-    overall: 65,
-    components: {
-      policyMaturity: 55,
-      techAdoption: 80,
-      roboticsEco: 60,
-      fundingActivity: 75,
-    },
-    trend: 'stable',
-  },
-  NL: {
-    country: 'NL',
-    overall: 62,
-    components: {
-      policyMaturity: 75,
-      techAdoption: 55,
-      roboticsEco: 50,
-      fundingActivity: 60,
-    },
-    trend: 'stable',
-  },
-  GB: {
-    country: 'GB',
-    overall: 60,
-    components: {
-      policyMaturity: 70,
-      techAdoption: 55,
-      roboticsEco: 45,
-      fundingActivity: 65,
-    },
-    trend: 'stable',
-  },
+// Bundled registries — the map store swaps in imported labs and startups
+export const DEFAULT_CARE_READINESS_REGISTRIES: CareReadinessRegistries = {
+  regulations: AI_REGULATIONS,
+  actions: REGULATORY_ACTIONS,
+  labs: ROBOTICS_LABS,
+  startups: CARE_STARTUPS,
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+// Learning mode: trend needs a stored score at least this old
+export const TREND_WINDOW_DAYS = 7;
+const TREND_FLAT_BAND = 3;
+export const MAX_HISTORY_DAYS = 180;
+
+const REGULATION_TYPE_POINTS: Record<AIRegulation['type'], number> = {
+  comprehensive: 35,
+  sectoral: 20,
+  voluntary: 12,
+  proposed: 8,
+};
+const REGULATION_STATUS_FACTOR: Record<AIRegulation['status'], number> = {
+  active: 1,
+  proposed: 0.5,
+  draft: 0.3,
+  superseded: 0,
+};
+const ACTION_IMPACT_POINTS: Record<RegulatoryAction['impact'], number> = { high: 12, medium: 7, low: 4 };
+const MILESTONE_POINTS = 8;
+const EVENT_FULL_WEIGHT_DAYS = 365;
+const EVENT_MAX_AGE_DAYS = 730;
+
+// News volume at which the tech-adoption volume part saturates
+const TECH_NEWS_SATURATION = 10;
+
+const clamp = (value: number, max = 100): number => Math.max(0, Math.min(max, value));
+
+const kstDay = (ms: number): string => new Date(ms + KST_OFFSET_MS).toISOString().slice(0, 10);
+
+const HANGUL = /[가-힣]/;
+
+const keywordMatchers = Object.entries(CARE_READINESS_COUNTRIES).map(([code, country]) => ({
+  code,
+  matchers: country.keywords.map((kw) => /[a-z]/.test(kw)
+    ? (text: string) => new RegExp(`(^|[^a-z])${kw.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}([^a-z]|$)`).test(text)
+    : (text: string) => text.includes(kw)),
+}));
+
+/**
+ * Countries an article is about. Korean-language articles that name no
+ * country are domestic coverage and count for KR.
+ */
+export function attributeCountries(text: string): string[] {
+  const lower = text.toLowerCase();
+  const codes = keywordMatchers
+    .filter(({ matchers }) => matchers.some((match) => match(lower)))
+    .map(({ code }) => code);
+  if (codes.length === 0 && HANGUL.test(text)) return ['KR'];
+  return codes;
+}
+
+function appliesTo(code: string, countryName: string): boolean {
+  const country = CARE_READINESS_COUNTRIES[code];
+  if (!country) return false;
+  return countryName === country.name || (!!country.euMember && countryName === EU_REGULATION_NAME);
+}
+
+/** Recent events count in full for a year, half for the year before, then not at all */
+function eventWeight(date: string | undefined, now: number): number {
+  const t = date ? Date.parse(date) : NaN;
+  if (!Number.isFinite(t) || t > now) return 0;
+  const ageDays = (now - t) / DAY_MS;
+  if (ageDays <= EVENT_FULL_WEIGHT_DAYS) return 1;
+  return ageDays <= EVENT_MAX_AGE_DAYS ? 0.5 : 0;
+}
+
 /**
  * Calculate the weighted CRI score from components.
  */
-function calculateOverall(components: CareReadinessScore['components']): number {
+function calculateOverall(components: CareReadinessComponents): number {
   return Math.round(
     components.policyMaturity * CRI_WEIGHTS.policyMaturity +
     components.techAdoption * CRI_WEIGHTS.techAdoption +
@@ -127,49 +168,157 @@ function calculateOverall(components: CareReadinessScore['components']): number
 }
 
 /**
- * Get the CRI score for a country.
- * Returns baseline score or null if not monitored.
+ * Trend against the latest stored score at least TREND_WINDOW_DAYS old.
+ * Until such an entry exists the country is still learning: stable, no change.
  */
-export function getCareReadinessScore(countryCode: string): CareReadinessScore | null {
-  return BASELINE_SCORES[countryCode] ?? null;
+export function careReadinessTrend(
+  code: string,
+  overall: number,
+  history: CareReadinessHistoryEntry[],
+  now = Date.now(),
+): Pick<CareReadinessScore, 'trend' | 'change7d'> {
+  const cutoff = kstDay(now - TREND_WINDOW_DAYS * DAY_MS);
+  const baseline = [...history]
+    .filter((e) => e.day <= cutoff && e.scores[code] !== undefined)
+    .sort((a, b) => a.day.localeCompare(b.day))
+    .pop();
+  if (!baseline) return { trend: 'stable', change7d: 0 };
+  const change7d = overall - baseline.scores[code]!;
+  const trend = change7d >= TREND_FLAT_BAND ? 'improving' : change7d <= -TREND_FLAT_BAND ? 'declining' : 'stable';
+  return { trend, change7d };
 }
 
 /**
- * Get all monitored countries with CRI scores.
+ * Learning progress, like the CII warmup — skipped once the stored history
+ * already spans the trend window.
  */
-export function getAllCareReadinessScores(): CareReadinessScore[] {
-  return Object.values(BASELINE_SCORES);
+export function getCareReadinessLearning(
+  history: CareReadinessHistoryEntry[],
+  now = Date.now(),
+): { inLearning: boolean; remainingDays: number; progress: number } {
+  const first = history.map((e) => e.day).sort()[0];
+  if (!first) return { inLearning: true, remainingDays: TREND_WINDOW_DAYS, progress: 0 };
+  const elapsedDays = Math.round((Date.parse(kstDay(now)) - Date.parse(first)) / DAY_MS);
+  const remainingDays = Math.max(0, TREND_WINDOW_DAYS - elapsedDays);
+  return {
+    inLearning: remainingDays > 0,
+    remainingDays,
+    progress: Math.round(Math.min(1, elapsedDays / TREND_WINDOW_DAYS) * 100),
+  };
 }
 
 /**
- * Get countries ranked by CRI score (descending).
+ * Score every covered country that has at least one signal, ranked by overall.
  */
-export function getCareReadinessRanking(): CareReadinessScore[] {
-  return Object.values(BASELINE_SCORES)
-    .sort((a, b) => b.overall - a.overall);
+export function calculateCareReadiness(
+  signals: CareReadinessSignals,
+  history: CareReadinessHistoryEntry[] = [],
+  now = Date.now(),
+  registries: CareReadinessRegistries = DEFAULT_CARE_READINESS_REGISTRIES,
+): CareReadinessScore[] {
+  const articlesByCountry = new Map<string, CareReadinessArticle[]>();
+  for (const article of signals.articles) {
+    for (const code of attributeCountries(`${article.title} ${article.preview}`)) {
+      const list = articlesByCountry.get(code) ?? [];
+      list.push(article);
+      articlesByCountry.set(code, list);
+    }
+  }
+
+  const scores: CareReadinessScore[] = [];
+  for (const [code, country] of Object.entries(CARE_READINESS_COUNTRIES)) {
+    const articles = articlesByCountry.get(code) ?? [];
+    const onTrack = (...tracks: RssItem['track'][]) => articles.filter((a) => tracks.includes(a.track));
+
+    // Policy maturity — regulations in force, recent regulation events, policy news
+    const regulations = registries.regulations.filter((r) => appliesTo(code, r.country));
+    const regulationPoints = regulations.reduce(
+      (sum, r) => sum + REGULATION_TYPE_POINTS[r.type] * REGULATION_STATUS_FACTOR[r.status], 0);
+    const actionWeights = registries.actions
+      .filter((a) => appliesTo(code, a.country))
+      .map((a) => ACTION_IMPACT_POINTS[a.impact] * eventWeight(a.date, now));
+    const milestoneWeights = regulations
+      .flatMap((r) => [r.announcedDate, r.promulgatedDate, r.effectiveDate])
+      .map((date) => MILESTONE_POINTS * eventWeight(date, now));
+    const eventPoints = [...actionWeights, ...milestoneWeights].filter((w) => w > 0);
+    const policyNews = onTrack('policy');
+    const policyMaturity = clamp(
+      clamp(regulationPoints, 60) + clamp(eventPoints.reduce((a, b) => a + b, 0), 20) + clamp(policyNews.length * 5, 20));
+
+    // Tech adoption — care-tech news volume and how positive it reads
+    const techNews = onTrack('caretech', 'competitor');
+    const avgSentiment = techNews.length > 0
+      ? techNews.reduce((sum, a) => sum + a.sentimentScore, 0) / techNews.length
+      : 0;
+    const techAdoption = clamp(70 * Math.min(1, techNews.length / TECH_NEWS_SATURATION) + 30 * (avgSentiment / 100));
+
+    // Robotics ecosystem — the roboticsLabs / careStartups registries
+    const labs = registries.labs.filter((l) => l.country === code).length;
+    const startups = registries.startups.filter((s) => s.country === code).length;
+    const roboticsEco = clamp(clamp(labs * 15, 60) + clamp(startups * 10, 40));
+
+    // Funding activity — investment news and public procurement listings
+    const investmentNews = onTrack('investment');
+    const procurements = code === 'KR' ? signals.procurementCount : 0;
+    const fundingActivity = clamp(clamp(investmentNews.length * 10, 60) + clamp(procurements * 4, 40));
+
+    const components: CareReadinessComponents = {
+      policyMaturity: Math.round(policyMaturity),
+      techAdoption: Math.round(techAdoption),
+      roboticsEco: Math.round(roboticsEco),
+      fundingActivity: Math.round(fundingActivity),
+    };
+    const overall = calculateOverall(components);
+    if (overall === 0) continue;
+
+    scores.push({
+      country: code,
+      name: country.name,
+      nameKo: country.nameKo,
+      overall,
+      components,
+      ...careReadinessTrend(code, overall, history, now),
+      evidence: {
+        regulations: regulations.length,
+        regulationEvents: eventPoints.length,
+        policyNews: policyNews.length,
+        techNews: techNews.length,
+        labs,
+        startups,
+        investmentNews: investmentNews.length,
+        procurements,
+      },
+    });
+  }
+
+  return scores.sort((a, b) => b.overall - a.overall || a.country.localeCompare(b.country));
 }
 
 /**
- * Apply a signal-based adjustment to a country's CRI.
- * Positive signals (new policy, funding) increase; negative signals (competitor entry) may decrease.
+ * Record today's scores — one entry per KST day (the latest snapshot of the
+ * day wins), keeping MAX_HISTORY_DAYS days.
  */
-export function adjustCareReadiness(
-  countryCode: string,
-  adjustments: Partial<CareReadinessScore['components']>,
-): CareReadinessScore | null {
-  const baseline = BASELINE_SCORES[countryCode];
-  if (!baseline) return null;
-
-  const components = { ...baseline.components };
-  for (const [key, value] of Object.entries(adjustments)) {
-    if (key in components && typeof value === 'number') {
-      (components as Record<string, number>)[key] = Math.max(0, Math.min(100, ((components as Record<string, number>)[key] ?? 0) + value));
-    }
-  }
-
-  return {
-    ...baseline,
-    components,
-    overall: calculateOverall(components),
+export function appendCareReadinessHistory(
+  history: CareReadinessHistoryEntry[],
+  scores: CareReadinessScore[],
+  now = Date.now(),
+): CareReadinessHistoryEntry[] {
+  const day = kstDay(now);
+  const entry: CareReadinessHistoryEntry = {
+    day,
+    timestamp: new Date(now).toISOString(),
+    scores: Object.fromEntries(scores.map((s) => [s.country, s.overall])),
   };
+  return [...history.filter((e) => e.day !== day), entry]
+    .sort((a, b) => a.day.localeCompare(b.day))
+    .slice(-MAX_HISTORY_DAYS);
+}
+
+/** Choropleth band for an overall score */
+export function careReadinessBand(overall: number): 'leading' | 'advanced' | 'developing' | 'emerging' | 'nascent' {
+  if (overall >= 75) return 'leading';
+  if (overall >= 60) return 'advanced';
+  if (overall >= 45) return 'developing';
+  if (overall >= 30) return 'emerging';
+  return 'nascent';
 }
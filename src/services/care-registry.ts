@@ -0,0 +1,403 @@
+/**
+ * 케어 지도 레지스트리 — 시설·로보틱스 연구소·스타트업·정책 일정 데이터셋 가져오기
+ *
+ * CSV(공공데이터포털 장애인 복지시설 목록 등)나 GeoJSON을 읽어 config/care-geo 형태로 변환.
+ * 좌표가 없는 행은 주소·시도 → 시도청 소재지, 국가 → 수도 좌표로 지오코딩.
+ * 시설과 나라장터 공고를 같은 시도로 묶는 "주변 조달 기회" 조회도 여기서 처리
+ */
+
+import {
+  CARE_COUNTRY_ANCHORS,
+  KR_REGIONS,
+  type CareFacility,
+  type CarePolicyEvent,
+  type CareStartup,
+  type RoboticsLab,
+} from '../config/care-geo';
+import { CARE_READINESS_COUNTRIES, EU_REGULATION_NAME } from '../config/care-readiness';
+import { splitCsvLine } from './financials/statements';
+import type { PolicyEvent } from './policyCalendar';
+import type { ProcurementItem } from './trackingFeed';
+
+export interface CareRegistryRecords {
+  facilities: CareFacility;
+  labs: RoboticsLab;
+  startups: CareStartup;
+  policyEvents: CarePolicyEvent;
+}
+
+export type CareRegistryKind = keyof CareRegistryRecords;
+
+export type CareRegistries = { [K in CareRegistryKind]: CareRegistryRecords[K][] };
+
+export const CARE_REGISTRY_LABELS: Record<CareRegistryKind, string> = {
+  facilities: '케어 시설',
+  labs: '로보틱스 연구소',
+  startups: '케어 스타트업',
+  policyEvents: '정책 일정',
+};
+
+export interface CareRegistryImport<K extends CareRegistryKind> {
+  records: CareRegistryRecords[K][];
+  /** 이름이나 위치를 알 수 없어 건너뛴 행 수 */
+  skipped: number;
+}
+
+/** 헤더 정규화(소문자, 공백·괄호·밑줄 제거) 후 키 → 값 */
+type RegistryRow = Map<string, string>;
+
+const normalizeHeader = (h: string): string => h.toLowerCase().replace(/[\s_()[\]·.-]/g, '');
+
+// 열 이름 별칭 — 공공데이터 표준 헤더와 영문 헤더를 함께 받음
+const COMMON_COLUMNS = {
+  id: ['id', '시설코드', '시설id', '관리번호', '코드'],
+  name: ['name', '시설명', '기관명', '업체명', '회사명', '기업명', '연구소명', '명칭', '이름'],
+  lat: ['lat', 'latitude', '위도', 'y좌표', 'y'],
+  lon: ['lon', 'lng', 'long', 'longitude', '경도', 'x좌표', 'x'],
+  country: ['country', '국가', '국가코드'],
+  address: ['address', '소재지도로명주소', '도로명주소', '소재지지번주소', '지번주소', '소재지주소', '소재지', '주소'],
+  region: ['region', '시도명', '시도', '광역시도', '지역'],
+};
+
+const FACILITY_COLUMNS = {
+  type: ['type', '시설종류', '시설유형', '시설구분', '시설종류명', '종류', '유형', '구분'],
+  operator: ['operator', '운영주체', '운영기관', '운영법인', '설치주체', '법인명', '관리기관명', '관리기관'],
+  capacity: ['capacity', '정원', '입소정원', '이용정원', '수용인원'],
+  services: ['services', '주요서비스', '서비스', '사업내용'],
+  aiEnabled: ['aienabled', 'ai도입', 'ai'],
+};
+
+const FUNDING_COLUMNS = {
+  fundingAmountM: ['fundingamountm', 'fundingamount', 'funding', '투자금액', '지원금액', '금액'],
+  fundedAt: ['fundedat', '최근투자일', '투자일', '지원일', '선정일'],
+};
+
+const LAB_COLUMNS = {
+  focus: ['focus', '연구분야', '주요분야', '분야'],
+  products: ['products', '주요제품', '제품'],
+  fundingSource: ['fundingsource', '지원기관', '재원', '지원사업'],
+};
+
+const STARTUP_COLUMNS = {
+  domain: ['domain', '사업분야', '분야'],
+  fundingStage: ['fundingstage', 'stage', '투자단계', '라운드', '단계'],
+  investors: ['investors', '투자사', '투자자'],
+  description: ['description', '소개', '설명', '내용'],
+};
+
+const POLICY_COLUMNS = {
+  title: ['title', '제목', '일정명', '행사명', '정책명', 'name', '명칭'],
+  date: ['date', '일자', '날짜', '시행일', '개최일', '일정'],
+  agency: ['agency', '주관기관', '소관부처', '부처', '기관', '기관명'],
+  kind: ['kind', 'category', '분류', '구분', '유형'],
+  link: ['link', 'url', '원문', '링크'],
+  description: ['description', '내용', '설명'],
+};
+
+function field(row: RegistryRow, aliases: string[]): string {
+  for (const alias of aliases) {
+    const value = row.get(alias);
+    if (value) return value.trim();
+  }
+  return '';
+}
+
+function numberField(row: RegistryRow, aliases: string[]): number | undefined {
+  const raw = field(row, aliases).replace(/,/g, '');
+  if (!raw) return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** 세미콜론·파이프·쉼표 구분 목록 (CSV 셀 안의 쉼표는 따옴표로 보존됨) */
+function listField(row: RegistryRow, aliases: string[]): string[] {
+  return field(row, aliases).split(/[;|,]/).map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * 텍스트에서 가장 먼저 나오는 시도 — "경기도 광주시"는 광주가 아니라 경기.
+ * 같은 위치면 긴 별칭(서울특별시 > 서울) 우선
+ */
+export function detectKrRegion(text: string): string | null {
+  let best: { code: string; index: number; length: number } | null = null;
+  for (const region of KR_REGIONS) {
+    for (const alias of region.aliases) {
+      const index = text.indexOf(alias);
+      if (index < 0) continue;
+      if (!best || index < best.index || (index === best.index && alias.length > best.length)) {
+        best = { code: region.code, index, length: alias.length };
+      }
+    }
+  }
+  return best?.code ?? null;
+}
+
+/** 국가 코드·영문명·한글명 → 코드. 비어 있으면 국내(KR) */
+export function normalizeCountry(raw: string): string | null {
+  const value = raw.trim();
+  if (!value) return 'KR';
+  if (/^[a-z]{2}$/i.test(value)) return value.toUpperCase();
+  if (value === EU_REGULATION_NAME) return 'EU';
+  const lower = value.toLowerCase();
+  for (const [code, country] of Object.entries(CARE_READINESS_COUNTRIES)) {
+    if (country.name.toLowerCase() === lower || country.nameKo === value) return code;
+  }
+  return null;
+}
+
+function regionCenter(code: string): { lat: number; lon: number } | null {
+  const region = KR_REGIONS.find((r) => r.code === code);
+  return region ? { lat: region.lat, lon: region.lon } : null;
+}
+
+interface RowLocation {
+  lat: number;
+  lon: number;
+  country: string;
+  region?: string;
+}
+
+/** 좌표 열 우선, 없으면 시도 → 국가 순으로 지오코딩 */
+function locateRow(row: RegistryRow, extraText = ''): RowLocation | null {
+  const country = normalizeCountry(field(row, COMMON_COLUMNS.country));
+  if (!country) return null;
+  const regionText = `${field(row, COMMON_COLUMNS.region)} ${field(row, COMMON_COLUMNS.address)} ${extraText}`;
+  const region = country === 'KR' ? detectKrRegion(regionText) ?? undefined : undefined;
+
+  const lat = numberField(row, COMMON_COLUMNS.lat);
+  const lon = numberField(row, COMMON_COLUMNS.lon);
+  if (lat !== undefined && lon !== undefined && Math.abs(lat) <= 90 && Math.abs(lon) <= 180 && (lat !== 0 || lon !== 0)) {
+    return { lat, lon, country, region };
+  }
+  const anchor = (region && regionCenter(region)) || CARE_COUNTRY_ANCHORS[country];
+  return anchor ? { ...anchor, country, region } : null;
+}
+
+const slug = (text: string): string => text.toLowerCase().replace(/\s+/g, '-').slice(0, 60);
+
+function rowId(row: RegistryRow, prefix: string, ...parts: string[]): string {
+  return field(row, COMMON_COLUMNS.id) || `${prefix}-${slug(parts.filter(Boolean).join('-'))}`;
+}
+
+const FACILITY_TYPES: CareFacility['type'][] = ['development_center', 'welfare_center', 'forensic_hospital', 'rehabilitation', 'research'];
+
+/** 공공데이터 시설 종류 → 지도 분류. 거주·주간보호·복지관 등 나머지는 복지시설 */
+export function facilityTypeOf(raw: string): CareFacility['type'] {
+  const value = raw.trim().toLowerCase();
+  if ((FACILITY_TYPES as string[]).includes(value)) return value as CareFacility['type'];
+  if (/발달|development/.test(value)) return 'development_center';
+  if (/법무|치료감호|forensic/.test(value)) return 'forensic_hospital';
+  if (/재활|rehab/.test(value)) return 'rehabilitation';
+  if (/연구|research/.test(value)) return 'research';
+  return 'welfare_center';
+}
+
+export function fundingStageOf(raw: string): CareStartup['fundingStage'] {
+  const value = raw.toLowerCase().replace(/[\s_-]/g, '').replace('시리즈', 'series');
+  if (!value || /seed|시드|엔젤|angel|prea/.test(value)) return 'seed';
+  if (/^(series)?a\+?$/.test(value)) return 'seriesA';
+  if (/^(series)?b\+?$/.test(value)) return 'seriesB';
+  if (/^(series)?c\+?$/.test(value)) return 'seriesC';
+  return 'later';
+}
+
+const ROW_PARSERS: { [K in CareRegistryKind]: (row: RegistryRow) => CareRegistryRecords[K] | null } = {
+  facilities: (row) => {
+    const name = field(row, COMMON_COLUMNS.name);
+    const operator = field(row, FACILITY_COLUMNS.operator);
+    const location = locateRow(row, operator);
+    if (!name || !location) return null;
+    const address = field(row, COMMON_COLUMNS.address);
+    return {
+      id: rowId(row, 'facility', name, address),
+      name,
+      ...location,
+      type: facilityTypeOf(field(row, FACILITY_COLUMNS.type) || name),
+      operator,
+      capacity: numberField(row, FACILITY_COLUMNS.capacity),
+      services: listField(row, FACILITY_COLUMNS.services),
+      aiEnabled: /^(y|yes|true|1|o|예)$/i.test(field(row, FACILITY_COLUMNS.aiEnabled)),
+      address: address || undefined,
+    };
+  },
+  labs: (row) => {
+    const name = field(row, COMMON_COLUMNS.name);
+    const location = locateRow(row);
+    if (!name || !location) return null;
+    const products = listField(row, LAB_COLUMNS.products);
+    return {
+      id: rowId(row, 'lab', name),
+      name,
+      lat: location.lat,
+      lon: location.lon,
+      country: location.country,
+      region: location.region ?? location.country,
+      focus: listField(row, LAB_COLUMNS.focus),
+      products: products.length > 0 ? products : undefined,
+      fundingSource: field(row, LAB_COLUMNS.fundingSource) || undefined,
+      fundingAmountM: numberField(row, FUNDING_COLUMNS.fundingAmountM),
+      fundedAt: field(row, FUNDING_COLUMNS.fundedAt) || undefined,
+    };
+  },
+  startups: (row) => {
+    const name = field(row, COMMON_COLUMNS.name);
+    const location = locateRow(row);
+    if (!name || !location) return null;
+    const investors = listField(row, STARTUP_COLUMNS.investors);
+    return {
+      id: rowId(row, 'startup', name),
+      name,
+      lat: location.lat,
+      lon: location.lon,
+      country: location.country,
+      domain: field(row, STARTUP_COLUMNS.domain),
+      fundingStage: fundingStageOf(field(row, STARTUP_COLUMNS.fundingStage)),
+      fundingAmountM: numberField(row, FUNDING_COLUMNS.fundingAmountM),
+      fundedAt: field(row, FUNDING_COLUMNS.fundedAt) || undefined,
+      investors: investors.length > 0 ? investors : undefined,
+      description: field(row, STARTUP_COLUMNS.description),
+    };
+  },
+  policyEvents: (row) => {
+    const title = field(row, POLICY_COLUMNS.title);
+    const date = field(row, POLICY_COLUMNS.date).replace(/[./]/g, '-').slice(0, 10);
+    const agency = field(row, POLICY_COLUMNS.agency);
+    const location = locateRow(row, `${agency} ${title}`);
+    if (!title || !/^\d{4}-\d{2}-\d{2}$/.test(date) || !location) return null;
+    return {
+      id: rowId(row, 'policy', date, title),
+      title,
+      date,
+      ...location,
+      agency,
+      kind: field(row, POLICY_COLUMNS.kind) || 'press',
+      link: field(row, POLICY_COLUMNS.link) || undefined,
+      description: field(row, POLICY_COLUMNS.description) || undefined,
+    };
+  },
+};
+
+function csvRows(text: string): RegistryRow[] {
+  const lines = text.replace(/^﻿/, '').split(/\r?\n/).filter((l) => l.trim());
+  const [header, ...body] = lines.map(splitCsvLine);
+  if (!header) return [];
+  const keys = header.map(normalizeHeader);
+  return body.map((cells) => new Map(keys.map((key, i) => [key, cells[i] ?? ''])));
+}
+
+/** Point(또는 MultiPoint 첫 점) 피처만 — 좌표는 properties의 위경도 열보다 우선 */
+function geoJsonRows(text: string): RegistryRow[] | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const features = (parsed as { features?: unknown }).features;
+  if (!Array.isArray(features)) return null;
+  return features.map((feature: { geometry?: { type?: string; coordinates?: unknown }; properties?: Record<string, unknown> | null }) => {
+    const row: RegistryRow = new Map();
+    for (const [key, value] of Object.entries(feature.properties ?? {})) {
+      if (value === null || value === undefined) continue;
+      row.set(normalizeHeader(key), Array.isArray(value) ? value.join(';') : String(value));
+    }
+    const { type, coordinates } = feature.geometry ?? {};
+    const point = type === 'Point' ? coordinates : type === 'MultiPoint' && Array.isArray(coordinates) ? coordinates[0] : null;
+    if (Array.isArray(point) && point.length >= 2) {
+      row.set('lon', String(point[0]));
+      row.set('lat', String(point[1]));
+    }
+    return row;
+  });
+}
+
+/**
+ * CSV 또는 GeoJSON 텍스트 → 레지스트리 레코드.
+ * 확장자(.geojson/.json)나 '{'로 시작하는 내용이면 GeoJSON으로 읽음
+ */
+export function parseCareRegistry<K extends CareRegistryKind>(kind: K, text: string, fileName = ''): CareRegistryImport<K> {
+  const isGeoJson = /\.(geo)?json$/i.test(fileName) || text.trimStart().startsWith('{');
+  const rows = (isGeoJson ? geoJsonRows(text) : csvRows(text)) ?? [];
+  const parse = ROW_PARSERS[kind] as (row: RegistryRow) => CareRegistryRecords[K] | null;
+  const records: CareRegistryRecords[K][] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+  for (const row of rows) {
+    const record = parse(row);
+    if (!record || seen.has(record.id)) {
+      skipped++;
+      continue;
+    }
+    seen.add(record.id);
+    records.push(record);
+  }
+  return { records, skipped };
+}
+
+/** 가져온 레코드가 같은 id의 기본 레코드를 대체, 새 id는 뒤에 추가 */
+export function mergeRegistry<T extends { id: string }>(seed: T[], imported: T[]): T[] {
+  const byId = new Map(imported.map((r) => [r.id, r]));
+  const merged = seed.map((r) => byId.get(r.id) ?? r);
+  const seedIds = new Set(seed.map((r) => r.id));
+  return [...merged, ...imported.filter((r) => !seedIds.has(r.id))];
+}
+
+// 시도가 드러나지 않은 국내 일정 — 국회 일정은 여의도, 나머지 부처 일정은 정부세종청사
+const NATIONAL_ASSEMBLY = { lat: 37.5319, lon: 126.9140 };
+const SEJONG_GOVERNMENT_COMPLEX = { lat: 36.5040, lon: 127.2650 };
+
+/**
+ * 정책 캘린더 일정 → 지도 좌표. 법령은 국가 수도(EU는 브뤼셀),
+ * 국내 예산·보도 일정은 제목·기관의 시도 → 국회/정부세종청사 순
+ */
+export function geocodePolicyEvent(event: PolicyEvent): CarePolicyEvent | null {
+  const base = {
+    id: event.id,
+    title: event.title,
+    date: event.date,
+    agency: event.agency,
+    kind: event.kind,
+    link: event.link || undefined,
+    description: event.description || undefined,
+  };
+  if (event.kind === 'law') {
+    const country = normalizeCountry(event.agency);
+    const anchor = country ? CARE_COUNTRY_ANCHORS[country] : undefined;
+    return country && anchor ? { ...base, ...anchor, country } : null;
+  }
+  const region = detectKrRegion(`${event.title} ${event.agency}`);
+  if (region) return { ...base, ...regionCenter(region)!, country: 'KR', region };
+  const seat = event.agency.includes('국회') ? NATIONAL_ASSEMBLY : SEJONG_GOVERNMENT_COMPLEX;
+  return { ...base, ...seat, country: 'KR' };
+}
+
+/** 국내 시설의 시도 — 가져온 값이 없으면 주소·운영기관·이름에서 추정 */
+export function facilityRegion(facility: CareFacility): string | null {
+  if (facility.region) return facility.region;
+  if (facility.country !== 'KR') return null;
+  return detectKrRegion(`${facility.address ?? ''} ${facility.operator} ${facility.name}`);
+}
+
+/** 공고의 시도 — 수요기관 이름 우선, 없으면 공고명 */
+export function procurementRegion(item: Pick<ProcurementItem, 'organization' | 'title'>): string | null {
+  return detectKrRegion(item.organization) ?? detectKrRegion(item.title);
+}
+
+export const MAX_NEARBY_OPPORTUNITIES = 5;
+
+/**
+ * 시설과 같은 시도의 진행 중 공고 — 마감 임박 순, 마감일 없는 공고는 뒤로.
+ * 해외 시설이나 시도를 알 수 없는 시설은 빈 목록
+ */
+export function nearbyOpportunities(
+  facility: CareFacility,
+  procurements: ProcurementItem[],
+  limit = MAX_NEARBY_OPPORTUNITIES,
+): ProcurementItem[] {
+  const region = facilityRegion(facility);
+  if (!region) return [];
+  return procurements
+    .filter((p) => p.status === 'open' && procurementRegion(p) === region)
+    .sort((a, b) => (a.deadline || '9999').localeCompare(b.deadline || '9999') || b.impactScore - a.impactScore)
+    .slice(0, limit);
+}
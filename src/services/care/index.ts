@@ -0,0 +1,249 @@
+import {
+  CareServiceClient,
+  type CareArticle,
+  type ListTrackNewsResponse,
+  type GetOpportunityScoreResponse,
+  type ListProcurementListingsResponse,
+  type OpportunityScore,
+  type VerificationStats,
+  type ProcurementListing,
+  type KeywordProfile as KeywordProfileMessage,
+  type ListCompetitorDisclosuresResponse,
+  type ListNotificationDeliveriesResponse,
+  type NotificationChannelInfo,
+  type GenerateStudySessionRequest,
+  type GenerateStudySessionResponse,
+  type EvaluateStudyAnswerRequest,
+  type EvaluateStudyAnswerResponse,
+  type GetCompanyFinancialsResponse,
+  type GenerateWeeklyReviewRequest,
+  type GenerateWeeklyReviewResponse,
+  type ListPolicyCalendarResponse,
+} from '@/generated/client/worldmonitor/care/v1/service_client';
+import { normalizeKeywordProfile, type KeywordProfile } from '@/services/keywordProfile';
+import {
+  classifyDisclosure,
+  normalizeCompetitorRegistry,
+  DISCLOSURE_TYPE_LABELS,
+  type CompetitorCorp,
+  type CompetitorRegistry,
+  type DartDisclosure,
+  type DisclosureType,
+} from '@/services/dartApi';
+import { normalizeBotAction, type BotAction } from '@/services/botActions';
+import { POLICY_EVENT_KIND_LABELS, buildPolicyCalendar, type PolicyEvent, type PolicyEventKind } from '@/services/policyCalendar';
+import { createCircuitBreaker } from '@/utils';
+
+// Re-export proto types — CareRadar UI adapters live in services/trackingFeed.ts
+export type { CareArticle, OpportunityScore, VerificationStats, ProcurementListing, NotificationChannelInfo };
+
+const client = new CareServiceClient('', { fetch: (...args) => globalThis.fetch(...args) });
+
+const CARE_CACHE_TTL_MS = 30 * 60 * 1000; // stale threshold for the /tracking dashboard
+
+const newsBreaker = createCircuitBreaker<ListTrackNewsResponse>({ name: 'Care Track News', cacheTtlMs: CARE_CACHE_TTL_MS });
+const scoreBreaker = createCircuitBreaker<GetOpportunityScoreResponse>({ name: 'Care Opportunity Score', cacheTtlMs: CARE_CACHE_TTL_MS });
+const procurementBreaker = createCircuitBreaker<ListProcurementListingsResponse>({ name: 'Care Procurement', cacheTtlMs: CARE_CACHE_TTL_MS });
+const disclosureBreaker = createCircuitBreaker<ListCompetitorDisclosuresResponse>({ name: 'Care Competitor Disclosures', cacheTtlMs: CARE_CACHE_TTL_MS });
+const calendarBreaker = createCircuitBreaker<ListPolicyCalendarResponse>({ name: 'Care Policy Calendar', cacheTtlMs: CARE_CACHE_TTL_MS });
+
+// generatedAt === 0 marks a fallback (service unreachable and nothing cached)
+const emptyNews: ListTrackNewsResponse = { articles: [], generatedAt: 0 };
+const emptyScore: GetOpportunityScoreResponse = { trackCounts: {}, generatedAt: 0 };
+const emptyProcurement: ListProcurementListingsResponse = { listings: [], generatedAt: 0 };
+const emptyDisclosures: ListCompetitorDisclosuresResponse = { disclosures: [], configured: false, generatedAt: 0 };
+const emptyCalendar: ListPolicyCalendarResponse = { events: [], generatedAt: 0 };
+
+/**
+ * The server also answers generatedAt 0 when it could not build the snapshot. Counting that
+ * as a failure keeps the last good response (marked stale by its age) instead of replacing it.
+ */
+function requireSnapshot<R extends { generatedAt: number }>(resp: R): R {
+  if (!resp.generatedAt) throw new Error('care.v1 snapshot unavailable');
+  return resp;
+}
+
+export async function fetchCareTrackNews(track = '', limit = 0): Promise<ListTrackNewsResponse> {
+  return newsBreaker.execute(async () => requireSnapshot(await client.listTrackNews({ track, limit })), emptyNews);
+}
+
+export async function fetchCareOpportunityScore(): Promise<GetOpportunityScoreResponse> {
+  return scoreBreaker.execute(async () => requireSnapshot(await client.getOpportunityScore({})), emptyScore);
+}
+
+export async function fetchCareProcurementListings(limit = 0): Promise<ListProcurementListingsResponse> {
+  return procurementBreaker.execute(async () => requireSnapshot(await client.listProcurementListings({ limit })), emptyProcurement);
+}
+
+const SERVER_SECRET_STORAGE_KEY = 'careradar_server_secret';
+
+/**
+ * CARE_SERVER_SECRET as entered by the operator on the Settings page. Only the RPCs
+ * that change shared state (keyword profile, competitor registry) send it.
+ */
+export function getCareServerSecret(): string {
+  try {
+    return localStorage.getItem(SERVER_SECRET_STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+}
+
+export function setCareServerSecret(secret: string): void {
+  if (secret) localStorage.setItem(SERVER_SECRET_STORAGE_KEY, secret);
+  else localStorage.removeItem(SERVER_SECRET_STORAGE_KEY);
+}
+
+function serverSecretHeaders(): { headers: Record<string, string> } {
+  const secret = getCareServerSecret();
+  return { headers: secret ? { 'X-Care-Server-Secret': secret } : {} };
+}
+
+/**
+ * Shared keyword profile — null when the service is unreachable, so callers keep their local copy.
+ */
+export async function fetchKeywordProfile(): Promise<KeywordProfile | null> {
+  try {
+    const { profile } = await client.getKeywordProfile({});
+    return profile ? normalizeKeywordProfile(profile as Partial<KeywordProfile>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves the keyword profile server-side and returns the stored (normalized) copy.
+ * Throws with the server's error (e.g. a missing server secret) so the Settings page can surface it.
+ */
+export async function saveKeywordProfile(profile: KeywordProfile): Promise<KeywordProfile> {
+  const resp = await client.updateKeywordProfile({ profile: profile as KeywordProfileMessage }, serverSecretHeaders());
+  if (resp.error || !resp.profile) throw new Error(resp.error || 'Keyword profile was not saved');
+  return normalizeKeywordProfile(resp.profile as Partial<KeywordProfile>);
+}
+
+/**
+ * Classified DART filings of the registered competitors (same set the server scored into S3).
+ */
+export async function fetchCompetitorDisclosures(corpCode = '', limit = 0): Promise<{ configured: boolean; disclosures: DartDisclosure[] }> {
+  const resp = await disclosureBreaker.execute(async () => requireSnapshot(await client.listCompetitorDisclosures({ corpCode, limit })), emptyDisclosures);
+  return {
+    configured: resp.configured,
+    disclosures: resp.disclosures.map((d) => ({
+      ...d,
+      // Unknown types from a newer server fall back to the local classifier
+      filingType: d.filingType in DISCLOSURE_TYPE_LABELS ? (d.filingType as DisclosureType) : classifyDisclosure(d.reportName),
+    })),
+  };
+}
+
+/**
+ * Policy calendar (same events the server scored into S1). When the service is unreachable,
+ * the budget cycle and law dates are built locally — only detected press releases are missing.
+ */
+export async function fetchPolicyCalendar(kind = '', limit = 0): Promise<PolicyEvent[]> {
+  const resp = await calendarBreaker.execute(async () => requireSnapshot(await client.listPolicyCalendar({ kind, limit })), emptyCalendar);
+  if (!resp.generatedAt) {
+    const local = buildPolicyCalendar([]).filter((e) => !kind || e.kind === kind);
+    return limit > 0 ? local.slice(0, limit) : local;
+  }
+  // Kinds from a newer server are dropped rather than mislabeled
+  return resp.events
+    .filter((e) => e.kind in POLICY_EVENT_KIND_LABELS)
+    .map((e) => ({ ...e, kind: e.kind as PolicyEventKind }));
+}
+
+/**
+ * Competitor registry — null when the service is unreachable.
+ */
+export async function fetchCompetitors(): Promise<CompetitorRegistry | null> {
+  try {
+    return normalizeCompetitorRegistry(await client.listCompetitors({}));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves the competitor registry and returns the stored copy. Throws with the server's error
+ * (e.g. a missing server secret).
+ */
+export async function saveCompetitors(competitors: CompetitorCorp[]): Promise<CompetitorRegistry> {
+  const resp = await client.updateCompetitors({ competitors }, serverSecretHeaders());
+  if (resp.error) throw new Error(resp.error);
+  return normalizeCompetitorRegistry(resp);
+}
+
+/**
+ * DART corp-code lookup by company name. Throws with the server's error.
+ */
+export async function searchDartCorps(query: string): Promise<{ configured: boolean; corps: CompetitorCorp[] }> {
+  const resp = await client.searchDartCorps({ query });
+  if (resp.error) throw new Error(resp.error);
+  return { configured: resp.configured, corps: resp.corps };
+}
+
+/**
+ * Telegram inline actions recorded after `since`, oldest first — empty when the service is unreachable.
+ */
+export async function fetchBotActions(since: number): Promise<BotAction[]> {
+  try {
+    const { actions } = await client.listBotActions({ since, kind: '', limit: 0 });
+    return actions.map((a) => normalizeBotAction(a as Partial<BotAction>)).filter((a): a is BotAction => a !== null);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Server notification channels and delivery log (newest first) — null when the service is unreachable.
+ */
+export async function fetchNotificationDeliveries(limit = 50): Promise<ListNotificationDeliveriesResponse | null> {
+  try {
+    return await client.listNotificationDeliveries({ limit });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Study question and AI reference answer — null when the service is unreachable,
+ * so the study flow can fall back to the locally built question.
+ */
+export async function requestStudySession(req: GenerateStudySessionRequest): Promise<GenerateStudySessionResponse | null> {
+  try {
+    return await client.generateStudySession(req);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gap check of an answer against the AI reference — null when the service is unreachable.
+ */
+export async function requestStudyEvaluation(req: EvaluateStudyAnswerRequest): Promise<EvaluateStudyAnswerResponse | null> {
+  try {
+    return await client.evaluateStudyAnswer(req);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * AI weekly review (summary, blind spots, growth note) — null when the service is unreachable.
+ */
+export async function requestWeeklyReview(req: GenerateWeeklyReviewRequest): Promise<GenerateWeeklyReviewResponse | null> {
+  try {
+    return await client.generateWeeklyReview(req);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * DART annual-report key accounts of one company. Throws with the server's error.
+ */
+export async function fetchCompanyFinancials(corpCode: string, year = 0): Promise<GetCompanyFinancialsResponse> {
+  const resp = await client.getCompanyFinancials({ corpCode, year });
+  if (resp.error) throw new Error(resp.error);
+  return resp;
+}
@@ -0,0 +1,97 @@
+/**
+ * 케어 트랙 스토리 갱신 — 수집한 RssItem을 클러스터링해 저장된 스토리에 합치고 news_clusters에 upsert
+ *
+ * 클러스터링은 clusterNewsHybrid: 한국어 토큰 Jaccard로 묶은 뒤, ML 워커가 있으면 다국어 임베딩으로
+ * 한·영 클러스터를 합침. 워커가 없는 기기에서는 같은 언어 안에서만 묶임.
+ */
+
+import { clusterNewsHybrid } from '../clustering';
+import { calculateVelocity } from '../velocity';
+import { repositories } from '../repository';
+import { storage } from '../../utils/storage';
+import { ML_THRESHOLDS } from '../../config/ml-config';
+import type { CareTrack } from '../../config/care-feeds';
+import type { RssItem } from '../rssFeed';
+import type { ClusteredEvent, NewsItem } from '../../types';
+import {
+  MIN_STORY_ARTICLES,
+  mergeStories,
+  storyFromRow,
+  storyLang,
+  storyRow,
+  storyTokens,
+  type CareStory,
+} from './model';
+
+export * from './model';
+
+const STORAGE_KEY = 'careradar_care_stories';
+/** Jaccard 1차 묶음 — 한국어 bigram까지 세므로 영어 기본값(0.5)보다 낮게 */
+const STORY_JACCARD_THRESHOLD = 0.3;
+const CLOUD_HYDRATE_LIMIT = 100;
+
+export function loadCareStories(): CareStory[] {
+  return storage.get<CareStory[]>(STORAGE_KEY, []);
+}
+
+/** 두 건 이상 모인 스토리, 중요도·최근 갱신 순 */
+export function visibleStories(stories: CareStory[]): CareStory[] {
+  return stories
+    .filter((s) => s.timeline.length >= MIN_STORY_ARTICLES)
+    .sort((a, b) => b.importanceScore - a.importanceScore || b.lastUpdated.localeCompare(a.lastUpdated));
+}
+
+function toNewsItem(item: RssItem): NewsItem {
+  return {
+    source: item.source,
+    title: item.title,
+    link: item.link,
+    pubDate: new Date(item.pubDate),
+    isAlert: false,
+    lang: storyLang(item.title),
+  };
+}
+
+export function clusterCareItems(items: RssItem[]): Promise<ClusteredEvent[]> {
+  return clusterNewsHybrid(
+    items.filter((i) => i.link && !Number.isNaN(new Date(i.pubDate).getTime())).map(toNewsItem),
+    {
+      tokenize: storyTokens,
+      threshold: STORY_JACCARD_THRESHOLD,
+      embeddingModel: 'embeddings-multilingual',
+      semanticThreshold: ML_THRESHOLDS.crossLingualClusterThreshold,
+    },
+  );
+}
+
+/** 이 기기에 스토리가 없으면 클라우드에 저장된 스토리로 시작 — 다른 기기에서 따라가던 스토리를 이어 봄 */
+async function hydrate(): Promise<CareStory[]> {
+  const local = loadCareStories();
+  if (local.length > 0) return local;
+  const result = await repositories.newsClusters.list({ orderBy: 'last_updated', limit: CLOUD_HYDRATE_LIMIT });
+  if (!result.ok) return local;
+  return result.data.map(storyFromRow).filter((s): s is CareStory => s !== null);
+}
+
+/** 이번 수집 기사로 스토리 갱신 — 기사가 늘어난 스토리(2건 이상)만 클라우드에 올림 */
+export async function updateCareStories(items: RssItem[], now: Date = new Date()): Promise<CareStory[]> {
+  const trackByLink = new Map<string, CareTrack>(items.map((i) => [i.link, i.track]));
+  const [stored, clusters] = await Promise.all([hydrate(), clusterCareItems(items)]);
+  const { stories, changed } = mergeStories(
+    stored,
+    clusters,
+    (link) => trackByLink.get(link),
+    calculateVelocity,
+    () => crypto.randomUUID(),
+    now,
+  );
+  storage.set(STORAGE_KEY, stories);
+
+  const changedIds = new Set(changed);
+  const rows = stories.filter((s) => changedIds.has(s.id) && s.timeline.length >= MIN_STORY_ARTICLES).map(storyRow);
+  if (rows.length > 0) {
+    const result = await repositories.newsClusters.upsert(rows);
+    if (!result.ok && result.reason === 'error') console.warn('[Supabase] news_clusters upsert failed (kept locally):', result.message);
+  }
+  return stories;
+}
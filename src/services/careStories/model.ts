@@ -0,0 +1,254 @@
+/**
+ * 케어 트랙 스토리 — 같은 정책·투자 건을 다룬 기사 클러스터를 수집 회차를 넘어 이어 붙임
+ *
+ * 수집 피드는 7일이 지나면 기사를 버리므로, 스토리는 저장해 둔 타임라인에 새 클러스터를 합쳐 주 단위로 자람.
+ * 새 클러스터는 기사 링크가 겹치거나(같은 기사) 최근 제목과 충분히 비슷하면(같은 트랙, 2주 이내) 기존 스토리로.
+ * velocity는 최근 7일 기사만으로 — 몇 주짜리 타임라인 전체로 재면 시간당 기사 수가 0에 가까워짐.
+ */
+
+import type { CareTrack } from '../../config/care-feeds';
+import type { ClusteredEvent, VelocityMetrics } from '../../types';
+import type { NewsClusterRow } from '../repository/types';
+import { tokenize } from '../knowledge/search';
+
+export type StoryLang = 'ko' | 'en';
+
+export interface StoryArticle {
+  link: string;
+  title: string;
+  source: string;
+  /** ISO */
+  pubDate: string;
+  track: CareTrack;
+  lang: StoryLang;
+}
+
+export interface CareStory {
+  /** news_clusters.id (uuid) */
+  id: string;
+  title: string;
+  summary: string;
+  track: CareTrack;
+  /** 오래된 기사부터 */
+  timeline: StoryArticle[];
+  firstSeen: string;
+  lastUpdated: string;
+  velocity: VelocityMetrics;
+  importanceScore: number;
+  updatedAt: string;
+}
+
+/** 클러스터·타임라인 → velocity.ts 지표 (주입 — velocity.ts는 ML 워커를 함께 불러옴) */
+export type VelocityOf = (cluster: ClusteredEvent) => VelocityMetrics;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** 이 기간 안에 갱신된 스토리에만 제목 유사도로 이어 붙임 */
+const MATCH_WINDOW_MS = 14 * DAY_MS;
+const VELOCITY_WINDOW_MS = 7 * DAY_MS;
+/** 기사 1건짜리 후보는 이 기간 동안만 보관 (이어질 기사를 기다림) */
+const CANDIDATE_RETENTION_MS = 14 * DAY_MS;
+const STORY_RETENTION_MS = 90 * DAY_MS;
+const MATCH_THRESHOLD = 0.35;
+const MATCH_RECENT_TITLES = 5;
+const MAX_TIMELINE = 60;
+const MAX_STORIES = 300;
+
+/** 두 건 이상 모인 클러스터만 스토리로 표시·저장 */
+export const MIN_STORY_ARTICLES = 2;
+
+const HANGUL = /[가-힣]/;
+
+const STILL: VelocityMetrics = { sourcesPerHour: 0, level: 'normal', trend: 'stable', sentiment: 'neutral', sentimentScore: 0 };
+
+export const storyLang = (title: string): StoryLang => (HANGUL.test(title) ? 'ko' : 'en');
+
+/** 클러스터링·스토리 매칭 공통 제목 토큰 — 한국어 조사 제거 + 음절 bigram */
+export const storyTokens = (title: string): Set<string> => new Set(tokenize(title));
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+const time = (iso: string) => new Date(iso).getTime();
+
+function majorityTrack(timeline: StoryArticle[]): CareTrack {
+  const counts = new Map<CareTrack, number>();
+  for (const a of timeline) counts.set(a.track, (counts.get(a.track) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]![0];
+}
+
+/** 타임라인 → velocity.ts가 받는 클러스터 모양 */
+export function timelineEvent(id: string, title: string, timeline: StoryArticle[]): ClusteredEvent {
+  const dates = timeline.map((a) => time(a.pubDate));
+  const latest = timeline[timeline.length - 1]!;
+  return {
+    id,
+    primaryTitle: title,
+    primarySource: latest.source,
+    primaryLink: latest.link,
+    sourceCount: timeline.length,
+    topSources: [],
+    allItems: timeline.map((a) => ({ source: a.source, title: a.title, link: a.link, pubDate: new Date(a.pubDate), isAlert: false, lang: a.lang })),
+    firstSeen: new Date(Math.min(...dates)),
+    lastUpdated: new Date(Math.max(...dates)),
+    isAlert: false,
+  };
+}
+
+/**
+ * 0–100 — 기사 수(최대 40) + 매체 수(최대 20) + 한·영 동시 보도(10) + 최근 속도(급증 20, 증가 10) + 상승 추세(10)
+ * NewsClusterCard는 80 이상을 Hot으로 표시
+ */
+export function storyImportance(timeline: StoryArticle[], velocity: VelocityMetrics): number {
+  const sources = new Set(timeline.map((a) => a.source)).size;
+  const langs = new Set(timeline.map((a) => a.lang)).size;
+  const score =
+    Math.min(40, timeline.length * 8) +
+    Math.min(20, sources * 5) +
+    (langs > 1 ? 10 : 0) +
+    (velocity.level === 'spike' ? 20 : velocity.level === 'elevated' ? 10 : 0) +
+    (velocity.trend === 'rising' ? 10 : 0);
+  return Math.min(100, score);
+}
+
+function summarize(timeline: StoryArticle[]): string {
+  const sources = new Set(timeline.map((a) => a.source)).size;
+  const latest = timeline[timeline.length - 1]!;
+  return timeline.length > 1 ? `기사 ${timeline.length}건 · 매체 ${sources}곳 · 최근: ${latest.title} (${latest.source})` : '';
+}
+
+/** 타임라인으로 시각·속도·중요도를 다시 계산 */
+function rebuild(story: Pick<CareStory, 'id' | 'title'>, timeline: StoryArticle[], velocityOf: VelocityOf, now: Date): CareStory {
+  const sorted = [...timeline].sort((a, b) => a.pubDate.localeCompare(b.pubDate));
+  const kept = sorted.slice(-MAX_TIMELINE);
+  const recent = kept.filter((a) => now.getTime() - time(a.pubDate) <= VELOCITY_WINDOW_MS);
+  const velocity = velocityOf(timelineEvent(story.id, story.title, recent.length > 0 ? recent : kept.slice(-1)));
+  return {
+    id: story.id,
+    title: story.title,
+    summary: summarize(kept),
+    track: majorityTrack(kept),
+    timeline: kept,
+    firstSeen: sorted[0]!.pubDate,
+    lastUpdated: kept[kept.length - 1]!.pubDate,
+    velocity,
+    importanceScore: storyImportance(kept, velocity),
+    updatedAt: now.toISOString(),
+  };
+}
+
+/** 새 클러스터가 이어질 스토리 — 링크가 겹치면 우선, 아니면 같은 트랙의 최근 제목 유사도 */
+function findStory(stories: CareStory[], articles: StoryArticle[], title: string, track: CareTrack, at: number): CareStory | undefined {
+  const links = new Set(articles.map((a) => a.link));
+  const byLink = stories.find((s) => s.timeline.some((a) => links.has(a.link)));
+  if (byLink) return byLink;
+
+  const tokens = storyTokens(title);
+  let best: { story: CareStory; similarity: number } | undefined;
+  for (const story of stories) {
+    if (story.track !== track || Math.abs(at - time(story.lastUpdated)) > MATCH_WINDOW_MS) continue;
+    const similarity = Math.max(
+      jaccard(tokens, storyTokens(story.title)),
+      ...story.timeline.slice(-MATCH_RECENT_TITLES).map((a) => jaccard(tokens, storyTokens(a.title))),
+    );
+    if (similarity >= MATCH_THRESHOLD && (!best || similarity > best.similarity)) best = { story, similarity };
+  }
+  return best?.story;
+}
+
+export interface StoryMergeResult {
+  stories: CareStory[];
+  /** 이번에 새로 생기거나 기사가 늘어난 스토리 id */
+  changed: string[];
+}
+
+/**
+ * 이번 수집의 클러스터를 저장된 스토리에 합침
+ * trackOf: 기사 링크 → 트랙 (클러스터 항목은 NewsItem이라 트랙이 없음)
+ */
+export function mergeStories(
+  stored: CareStory[],
+  clusters: ClusteredEvent[],
+  trackOf: (link: string) => CareTrack | undefined,
+  velocityOf: VelocityOf,
+  newId: () => string,
+  now: Date = new Date(),
+): StoryMergeResult {
+  const stories = [...stored];
+  const changed = new Set<string>();
+
+  for (const cluster of clusters) {
+    const articles = cluster.allItems.flatMap((item): StoryArticle[] => {
+      const track = trackOf(item.link);
+      if (!track || Number.isNaN(item.pubDate.getTime())) return [];
+      return [{ link: item.link, title: item.title, source: item.source, pubDate: item.pubDate.toISOString(), track, lang: storyLang(item.title) }];
+    });
+    if (articles.length === 0) continue;
+
+    const track = majorityTrack(articles);
+    const existing = findStory(stories, articles, cluster.primaryTitle, track, cluster.lastUpdated.getTime());
+    if (!existing) {
+      const story = rebuild({ id: newId(), title: cluster.primaryTitle }, articles, velocityOf, now);
+      stories.push(story);
+      changed.add(story.id);
+      continue;
+    }
+
+    const known = new Set(existing.timeline.map((a) => a.link));
+    const added = articles.filter((a) => !known.has(a.link));
+    if (added.length === 0) continue;
+    const merged = rebuild(existing, [...existing.timeline, ...added], velocityOf, now);
+    stories[stories.indexOf(existing)] = { ...merged, firstSeen: existing.firstSeen < merged.firstSeen ? existing.firstSeen : merged.firstSeen };
+    changed.add(existing.id);
+  }
+
+  return { stories: pruneStories(stories, now), changed: [...changed] };
+}
+
+/** 오래된 후보·스토리를 버리고 최근 갱신 순으로 상한까지 */
+export function pruneStories(stories: CareStory[], now: Date = new Date()): CareStory[] {
+  return stories
+    .filter((s) => {
+      const age = now.getTime() - time(s.lastUpdated);
+      return age <= (s.timeline.length >= MIN_STORY_ARTICLES ? STORY_RETENTION_MS : CANDIDATE_RETENTION_MS);
+    })
+    .sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated))
+    .slice(0, MAX_STORIES);
+}
+
+export function storyRow(story: CareStory): NewsClusterRow {
+  return {
+    id: story.id,
+    title: story.title,
+    summary: story.summary || null,
+    track: story.track,
+    importance_score: story.importanceScore,
+    first_seen: story.firstSeen,
+    last_updated: story.lastUpdated,
+    item_count: story.timeline.length,
+    velocity: story.velocity,
+    timeline: story.timeline,
+    updated_at: story.updatedAt,
+  };
+}
+
+/** news_clusters 행 → 스토리 (다른 기기에서 이어 보기) */
+export function storyFromRow(row: NewsClusterRow): CareStory | null {
+  const timeline = Array.isArray(row.timeline) ? (row.timeline as StoryArticle[]) : [];
+  if (timeline.length === 0 || !row.first_seen || !row.last_updated) return null;
+  return {
+    id: row.id,
+    title: row.title,
+    summary: row.summary ?? '',
+    track: row.track as CareTrack,
+    timeline,
+    firstSeen: row.first_seen,
+    lastUpdated: row.last_updated,
+    velocity: (row.velocity as VelocityMetrics | null) ?? STILL,
+    importanceScore: row.importance_score ?? 0,
+    updatedAt: row.updated_at ?? row.last_updated,
+  };
+}
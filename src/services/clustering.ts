@@ -6,7 +6,7 @@
 
 import type { NewsItem, ClusteredEvent } from '@/types';
 import { getSourceTier } from '@/config';
-import { clusterNewsCore } from './analysis-core';
+import { clusterNewsCore, type ClusterOptions } from './analysis-core';
 import { mlWorker } from './ml-worker';
 import { ML_THRESHOLDS } from '@/config/ml-config';
 
@@ -14,12 +14,18 @@ export function clusterNews(items: NewsItem[]): ClusteredEvent[] {
   return clusterNewsCore(items, getSourceTier) as ClusteredEvent[];
 }
 
+export interface HybridClusterOptions extends ClusterOptions {
+  /** ML worker embedding model for the semantic pass (default all-MiniLM) */
+  embeddingModel?: string;
+  semanticThreshold?: number;
+}
+
 /**
  * Hybrid clustering: Jaccard first, then semantic refinement if ML available
  */
-export async function clusterNewsHybrid(items: NewsItem[]): Promise<ClusteredEvent[]> {
+export async function clusterNewsHybrid(items: NewsItem[], options: HybridClusterOptions = {}): Promise<ClusteredEvent[]> {
   // Step 1: Fast Jaccard clustering
-  const jaccardClusters = clusterNewsCore(items, getSourceTier) as ClusteredEvent[];
+  const jaccardClusters = clusterNewsCore(items, getSourceTier, options) as ClusteredEvent[];
 
   // Step 2: If ML unavailable or too few clusters, return Jaccard results
   if (!mlWorker.isAvailable || jaccardClusters.length < ML_THRESHOLDS.minClustersForML) {
@@ -33,10 +39,16 @@ export async function clusterNewsHybrid(items: NewsItem[]): Promise<ClusteredEve
       text: c.primaryTitle,
     }));
 
+    // Optional models download on first use — load with the long model timeout, not the inference one
+    if (options.embeddingModel && !(await mlWorker.loadModel(options.embeddingModel))) {
+      return jaccardClusters;
+    }
+
     // Get semantic groupings
     const semanticGroups = await mlWorker.clusterBySemanticSimilarity(
       clusterTexts,
-      ML_THRESHOLDS.semanticClusterThreshold
+      options.semanticThreshold ?? ML_THRESHOLDS.semanticClusterThreshold,
+      options.embeddingModel
     );
 
     // Merge semantically similar clusters
@@ -130,7 +130,7 @@ const WEEKLY_SCHEDULE: Record<number, Omit<DailySchedule, 'dayOfWeek' | 'dayName
       duration: '20분',
       type: 'lunch',
       route: '/tracking',
-      description: '복지부, 과기부 보도자료, 예산 사이클',
+      description: '복지부, 과기부 보도자료, 예산 사이클 — 정책 캘린더 D-day 확인',
     },
     evening: {
       id: 'thu-evening',
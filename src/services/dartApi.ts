@@ -1,90 +1,138 @@
 /**
- * DART 전자공시 API — 경쟁사 공시 정보 조회
+ * DART 전자공시 — 경쟁사 레지스트리·공시 유형 분류 (서버/클라이언트 공용)
  * https://opendart.fss.or.kr/
  *
- * VITE_DART_API_KEY 환경변수 필요
+ * 공시 조회와 corpCode 검색은 care.v1 서버가 DART_API_KEY로 수행 (server/_shared/dart.ts)
+ * 분류된 공시는 경쟁사 트랙 항목으로 변환되어 S3 점수에 반영
  */
 
-const DART_API_KEY = import.meta.env.VITE_DART_API_KEY || '';
-const DART_BASE = 'https://opendart.fss.or.kr/api';
+import type { RssItem } from './rssFeed';
+
+export interface CompetitorCorp {
+  corpCode: string;       // DART 고유번호 (8자리)
+  name: string;           // 회사명
+  stockCode: string;      // 종목코드 (비상장이면 '')
+}
+
+export interface CompetitorRegistry {
+  competitors: CompetitorCorp[];
+  updatedAt: number;      // 0 = 기본 레지스트리
+}
+
+export type DisclosureType =
+  | 'capital_raise'
+  | 'major_contract'
+  | 'm_and_a'
+  | 'executive_change'
+  | 'earnings'
+  | 'other';
 
 export interface DartDisclosure {
-  rcept_no: string;       // 접수번호
-  corp_name: string;      // 회사명
-  report_nm: string;      // 보고서명
-  rcept_dt: string;       // 접수일자
-  flr_nm: string;         // 공시 제출인명
-  rm: string;             // 비고
+  receiptNo: string;      // 접수번호
+  corpCode: string;
+  corpName: string;       // 회사명
+  reportName: string;     // 보고서명
+  filedAt: string;        // 접수일자 (YYYY-MM-DD)
+  filer: string;          // 공시 제출인명
+  filingType: DisclosureType;
   link: string;           // DART 링크
 }
 
-// Competitor corp codes (DART에서 조회)
-const COMPETITOR_CORPS: Record<string, string> = {
-  '네오펙트': '00830628',
-  '뷰노': '01117600',
-  '루닛': '01431875',
-  // Add more as needed - corp codes from DART
+export const MAX_COMPETITORS = 30;
+
+/** 레지스트리를 저장한 적 없을 때의 기본 경쟁사 */
+export const DEFAULT_COMPETITORS: CompetitorCorp[] = [
+  { corpCode: '00830628', name: '네오펙트', stockCode: '290660' },
+  { corpCode: '01117600', name: '뷰노', stockCode: '338220' },
+  { corpCode: '01431875', name: '루닛', stockCode: '328130' },
+];
+
+export const DISCLOSURE_TYPE_LABELS: Record<DisclosureType, string> = {
+  capital_raise: '자금조달',
+  major_contract: '주요계약',
+  m_and_a: 'M&A',
+  executive_change: '경영진 변동',
+  earnings: '실적',
+  other: '기타',
+};
+
+// 위에서부터 먼저 맞는 유형 — 주요사항보고서는 괄호 안 결정 내용으로 구분됨
+// 임원·주요주주 지분 보고(소유상황보고서)는 수시로 올라오는 정기 신고라 경영진 변동에서 제외
+const DISCLOSURE_RULES: [DisclosureType, RegExp][] = [
+  ['other', /소유상황보고서|대량보유상황보고서/],
+  ['m_and_a', /합병|분할|영업양수|영업양도|주식교환|주식이전|타법인주식및출자증권(취득|처분)|자산양수도|공개매수/],
+  ['capital_raise', /유상증자|무상증자|전환사채|신주인수권부사채|교환사채|증권신고서|투자설명서|증권발행실적|주식매수선택권|자기주식처분|사채권발행/],
+  ['major_contract', /단일판매|공급계약|계약체결|수주|기술이전|라이선스|신규시설투자/],
+  ['executive_change', /대표이사|임원(의)?(선임|변경|퇴임|사임)|사외이사|감사(의|위원)?선임|최대주주변경/],
+  ['earnings', /사업보고서|반기보고서|분기보고서|잠정\)?실적|손익구조|결산실적|감사보고서/],
+];
+
+// 유형별 S3 기여 관련도 — 'other'는 점수에 반영하지 않음
+const DISCLOSURE_RELEVANCE: Record<DisclosureType, number> = {
+  m_and_a: 90,
+  capital_raise: 85,
+  major_contract: 80,
+  earnings: 65,
+  executive_change: 60,
+  other: 0,
 };
 
-export function isDartConfigured(): boolean {
-  return !!DART_API_KEY;
+export const DART_SOURCE_NAME = 'DART 전자공시';
+
+/** 점수·경쟁사 알림에 반영하는 공시인지 — '기타' 유형은 제외 */
+export function isNotableDisclosure(filingType: DisclosureType): boolean {
+  return DISCLOSURE_RELEVANCE[filingType] > 0;
 }
 
 /**
- * 특정 기업의 최근 공시 조회
+ * 보고서명으로 공시 유형 분류 — "[기재정정]" 같은 접두어와 공백은 무시
  */
-export async function fetchCompanyDisclosures(
-  corpCode: string,
-  days = 30
-): Promise<DartDisclosure[]> {
-  if (!isDartConfigured()) return [];
-
-  const endDate = new Date();
-  const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
-
-  const bgn = startDate.toISOString().slice(0, 10).replace(/-/g, '');
-  const end = endDate.toISOString().slice(0, 10).replace(/-/g, '');
-
-  try {
-    const url = `${DART_BASE}/list.json?crtfc_key=${DART_API_KEY}&corp_code=${corpCode}&bgn_de=${bgn}&end_de=${end}&page_count=20`;
-    const res = await fetch(url, { signal: AbortSignal.timeout(10000) });
-    if (!res.ok) return [];
-
-    const data = await res.json();
-    if (data.status !== '000' || !data.list) return [];
-
-    return data.list.map((item: Record<string, string>) => ({
-      rcept_no: item.rcept_no || '',
-      corp_name: item.corp_name || '',
-      report_nm: item.report_nm || '',
-      rcept_dt: item.rcept_dt || '',
-      flr_nm: item.flr_nm || '',
-      rm: item.rm || '',
-      link: `https://dart.fss.or.kr/dsaf001/main.do?rcpNo=${item.rcept_no}`,
-    }));
-  } catch (e) {
-    console.warn('[DART] Fetch failed:', e);
-    return [];
+export function classifyDisclosure(reportName: string): DisclosureType {
+  const name = reportName.replace(/\[[^\]]*\]/g, '').replace(/\s+/g, '');
+  for (const [type, pattern] of DISCLOSURE_RULES) {
+    if (pattern.test(name)) return type;
   }
+  return 'other';
 }
 
 /**
- * 모든 경쟁사의 최근 공시 일괄 조회
+ * 레지스트리 정규화 — corpCode 8자리 검증, 중복 제거, 최대 MAX_COMPETITORS개
+ * 저장된 적 없으면(null) 기본 경쟁사
  */
-export async function fetchAllCompetitorDisclosures(days = 30): Promise<DartDisclosure[]> {
-  if (!isDartConfigured()) return [];
-
-  const results = await Promise.allSettled(
-    Object.values(COMPETITOR_CORPS).map(code => fetchCompanyDisclosures(code, days))
-  );
+export function normalizeCompetitorRegistry(raw: Partial<CompetitorRegistry> | null | undefined): CompetitorRegistry {
+  if (!raw || !Array.isArray(raw.competitors)) {
+    return { competitors: DEFAULT_COMPETITORS, updatedAt: 0 };
+  }
 
-  const all: DartDisclosure[] = [];
-  for (const r of results) {
-    if (r.status === 'fulfilled') all.push(...r.value);
+  const seen = new Set<string>();
+  const competitors: CompetitorCorp[] = [];
+  for (const c of raw.competitors) {
+    const corpCode = String(c?.corpCode ?? '').trim();
+    const name = String(c?.name ?? '').trim();
+    if (!/^\d{8}$/.test(corpCode) || !name || seen.has(corpCode)) continue;
+    seen.add(corpCode);
+    competitors.push({ corpCode, name: name.slice(0, 50), stockCode: String(c?.stockCode ?? '').trim() });
+    if (competitors.length >= MAX_COMPETITORS) break;
   }
 
-  // Sort by date descending
-  return all.sort((a, b) => b.rcept_dt.localeCompare(a.rcept_dt));
+  return { competitors, updatedAt: Number(raw.updatedAt) || 0 };
 }
 
-export { COMPETITOR_CORPS };
+/**
+ * 분류된 공시 → 경쟁사 트랙 점수 항목 (calculateOpportunityScore 입력)
+ */
+export function disclosureScoreItems(disclosures: DartDisclosure[]): RssItem[] {
+  return disclosures
+    .filter((d) => isNotableDisclosure(d.filingType))
+    .map((d) => ({
+      id: `dart-${d.receiptNo}`,
+      title: `${d.corpName} ${d.reportName}`,
+      link: d.link,
+      source: DART_SOURCE_NAME,
+      pubDate: d.filedAt ? `${d.filedAt}T00:00:00+09:00` : '',
+      timeAgo: '',
+      description: DISCLOSURE_TYPE_LABELS[d.filingType],
+      track: 'competitor',
+      relevance_score: DISCLOSURE_RELEVANCE[d.filingType],
+    }));
+}
@@ -159,6 +159,7 @@ import {
   ClimateAnomalyPanel,
   PopulationExposurePanel,
   SearchModal,
+  CareOpportunityPanel,
 } from '@/components';
 
 // ---------------------------------------------------------------------------
@@ -505,6 +506,13 @@ export class DataLoader {
         insightsPanel?.updateInsights(this.latestClusters);
       }
 
+      if (SITE_VARIANT === 'care') {
+        const careInput = { clusters: this.latestClusters, newsByCategory: this.newsByCategory, updatedAt: Date.now() };
+        for (const id of ['bos', 'opportunityRadar']) {
+          (this.deps.getPanels()[id] as CareOpportunityPanel | undefined)?.updateClusters(careInput);
+        }
+      }
+
       const geoLocated = this.latestClusters
         .filter((c): c is typeof c & { lat: number; lon: number } => c.lat != null && c.lon != null)
         .map(c => ({
@@ -1,13 +1,23 @@
 /**
  * SROI 내보내기 — PRD Section 5.3.3
- * insights/sroi_sessions → CSV 내보내기, used_in 기록
+ * sroi_sessions → 계산 CSV, insights → 세션 CSV, used_in 기록
  */
 
-import { supabase } from '../lib/supabase';
 import { storage } from '../utils/storage';
+import { repositories } from './repository';
+import { loadSroiSessions } from './sroi';
+import { escapeCSV, sroiSessionsToCSV } from './sroi/csv';
 
 export type ExportDocumentType = 'IR' | 'proposal' | 'paper' | 'pitch' | 'report';
 
+export const DOCUMENT_TYPE_LABELS: Record<ExportDocumentType, string> = {
+  IR: 'IR',
+  proposal: '제안서',
+  paper: '논문',
+  pitch: '피칭',
+  report: '보고서',
+};
+
 export interface SROIExportRecord {
   id: string;
   date: string;
@@ -24,13 +34,6 @@ export interface UsedInRecord {
   used_at: string;
 }
 
-function escapeCSV(val: string): string {
-  if (val.includes(',') || val.includes('"') || val.includes('\n')) {
-    return `"${val.replace(/"/g, '""')}"`;
-  }
-  return val;
-}
-
 function toCSVRow(record: SROIExportRecord): string {
   return [
     record.id,
@@ -46,7 +49,10 @@ function toCSVRow(record: SROIExportRecord): string {
 function recordsToCSV(records: SROIExportRecord[], filename: string): void {
   const header = 'id,date,title,session_type,my_answer,insight,completed_at';
   const rows = records.map(toCSVRow);
-  const csv = [header, ...rows].join('\n');
+  downloadCSV([header, ...rows].join('\n'), filename);
+}
+
+function downloadCSV(csv: string, filename: string): void {
   const blob = new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8' });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
@@ -57,75 +63,31 @@ function recordsToCSV(records: SROIExportRecord[], filename: string): void {
 }
 
 /**
- * insights 테이블 또는 localStorage에서 SROI 세션 조회 후 CSV 다운로드
+ * sroi_sessions(없으면 로컬 기록)의 계산 전체를 CSV로 — 성과별 프록시·조정 비율·현재가치와 세션 합계
  */
 export async function exportSROIToCSV(filename = 'care radar-sroi-export'): Promise<void> {
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
-  let records: SROIExportRecord[] = [];
-
-  if (supabaseUrl) {
-    const { data, error } = await supabase
-      .from('insights')
-      .select('id, session_type, my_answer, insight_text, completed_at')
-      .eq('session_type', 'sroi')
-      .order('completed_at', { ascending: false });
-
-    if (!error && data?.length) {
-      records = data.map((row: Record<string, string>) => ({
-        id: row.id ?? '',
-        date: row.completed_at?.slice(0, 10) ?? '',
-        session_type: row.session_type ?? 'sroi',
-        my_answer: row.my_answer ?? '',
-        insight: row.insight_text ?? '',
-        completed_at: row.completed_at ?? '',
-      }));
-    }
-  }
-
-  if (records.length === 0) {
-    const stored = JSON.parse(storage.getRaw('careradar_sessions') || '[]');
-    records = stored
-      .filter((s: { type: string }) => s.type === 'sroi')
-      .map((s: { id: string; data: { myAnswer: string; insight: string }; completedAt: string }) => ({
-        id: s.id,
-        date: s.completedAt?.slice(0, 10) ?? '',
-        session_type: 'sroi',
-        my_answer: s.data?.myAnswer ?? '',
-        insight: s.data?.insight ?? '',
-        completed_at: s.completedAt ?? '',
-      }))
-      .sort((a: SROIExportRecord, b: SROIExportRecord) =>
-        (b.completed_at || '').localeCompare(a.completed_at || '')
-      );
-  }
-
-  recordsToCSV(records, filename);
+  const sessions = await loadSroiSessions();
+  if (sessions.length === 0) throw new Error('내보낼 SROI 세션이 없습니다');
+  downloadCSV(sroiSessionsToCSV(sessions), filename);
 }
 
 /**
  * 모든 insights (재무, 프라이싱, SROI, 피칭) CSV 내보내기
- * Supabase 실패 시 localStorage careradar_sessions 사용
+ * 로그인 전이거나 Supabase 실패 시 localStorage careradar_sessions 사용
  */
 export async function exportAllInsightsToCSV(filename = 'care radar-insights-export'): Promise<void> {
-  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
   let records: SROIExportRecord[] = [];
 
-  if (supabaseUrl) {
-    const { data, error } = await supabase
-      .from('insights')
-      .select('id, session_type, my_answer, insight_text, completed_at')
-      .order('completed_at', { ascending: false });
-
-    if (!error && data?.length) {
-      records = data.map((row: Record<string, string>) => ({
-        id: row.id ?? '',
-        date: row.completed_at?.slice(0, 10) ?? '',
-        session_type: row.session_type ?? 'unknown',
-        my_answer: row.my_answer ?? '',
-        insight: row.insight_text ?? '',
-        completed_at: row.completed_at ?? '',
-      }));
-    }
+  const result = await repositories.insights.list({ orderBy: 'created_at' });
+  if (result.ok) {
+    records = result.data.map((row) => ({
+      id: row.source_session_id,
+      date: row.date,
+      session_type: row.session_type || row.source_module,
+      my_answer: row.my_answer ?? '',
+      insight: row.content,
+      completed_at: row.created_at ?? '',
+    }));
   }
 
   if (records.length === 0) {
@@ -149,17 +111,17 @@ export async function exportAllInsightsToCSV(filename = 'care radar-insights-exp
 }
 
 /**
- * used_in 기록 (IR/제안서/논문/피칭에 활용 시)
- * sroi_sessions에 used_in JSONB가 있으면 업데이트, 없으면 insights 기반 로컬 기록
+ * used_in 기록 한 건 (IR/제안서/논문/피칭에 활용 시)
+ * 인사이트 적용 기록(applicationStore)에 쌓이고, 세션 인사이트면 insights.used_in으로 저장
  */
 export function recordUsedIn(
-  _sessionId: string,
   documentType: ExportDocumentType,
-  documentName: string
+  documentName: string,
+  usedAt: Date = new Date()
 ): UsedInRecord {
   return {
     document_type: documentType,
-    document_name: documentName,
-    used_at: new Date().toISOString(),
+    document_name: documentName.trim(),
+    used_at: usedAt.toISOString(),
   };
 }
@@ -0,0 +1,218 @@
+/**
+ * 재무 비율 계산과 레벨별(L1–L3) 분석 질문 생성
+ *
+ * 번(burn)은 영업손실 기준 추정 — DART 주요계정에는 현금흐름표가 없어 영업손실을 월로 나눔.
+ * CAC·LTV는 판매·마케팅비와 고객 수가 있을 때만 계산하는 대용 지표.
+ */
+
+import type { FinancialStatements, StatementPeriod } from './statements';
+
+export type AnalysisLevel = 'L1' | 'L2' | 'L3';
+
+export const ANALYSIS_LEVELS: readonly AnalysisLevel[] = ['L1', 'L2', 'L3'];
+
+export const ANALYSIS_LEVEL_LABELS: Record<AnalysisLevel, string> = {
+  L1: 'L1 읽기 — 숫자를 계산하고 설명',
+  L2: 'L2 해석 — 지표 사이의 관계와 원인',
+  L3: 'L3 전략 — CareVia 의사결정으로 연결',
+};
+
+/** LTV 대용 지표의 고객 유지 기간 가정 (년) */
+export const LTV_LIFETIME_YEARS = 3;
+
+export interface PeriodRatios {
+  label: string;
+  /** 직전 기간 대비 매출 성장률 */
+  revenueGrowth: number | null;
+  grossMargin: number | null;
+  operatingMargin: number | null;
+  netMargin: number | null;
+  rndIntensity: number | null;
+  /** 월 소진액 (영업손실 ÷ 기간 개월) — 흑자면 0 */
+  monthlyBurn: number | null;
+  /** 현금성자산(없으면 순운전자본) ÷ 월 소진액 — 소진이 없으면 null */
+  runwayMonths: number | null;
+  currentRatio: number | null;
+  debtToEquity: number | null;
+  /** 고객당 연 매출 */
+  revenuePerCustomer: number | null;
+  /** 판매·마케팅비 ÷ 신규 고객 */
+  cacProxy: number | null;
+  /** 고객당 연 매출 × 매출총이익률 × LTV_LIFETIME_YEARS */
+  ltvProxy: number | null;
+  ltvToCac: number | null;
+}
+
+export type RatioKey = Exclude<keyof PeriodRatios, 'label'>;
+export type RatioFormat = 'pct' | 'won' | 'months' | 'x';
+
+export interface RatioDefinition {
+  key: RatioKey;
+  label: string;
+  format: RatioFormat;
+  group: 'growth' | 'profitability' | 'cash' | 'unit';
+}
+
+export const RATIO_DEFINITIONS: RatioDefinition[] = [
+  { key: 'revenueGrowth', label: '매출 성장률', format: 'pct', group: 'growth' },
+  { key: 'grossMargin', label: '매출총이익률', format: 'pct', group: 'profitability' },
+  { key: 'operatingMargin', label: '영업이익률', format: 'pct', group: 'profitability' },
+  { key: 'netMargin', label: '순이익률', format: 'pct', group: 'profitability' },
+  { key: 'rndIntensity', label: 'R&D 비중', format: 'pct', group: 'profitability' },
+  { key: 'monthlyBurn', label: '월 소진액', format: 'won', group: 'cash' },
+  { key: 'runwayMonths', label: '런웨이', format: 'months', group: 'cash' },
+  { key: 'currentRatio', label: '유동비율', format: 'x', group: 'cash' },
+  { key: 'debtToEquity', label: '부채비율', format: 'pct', group: 'cash' },
+  { key: 'revenuePerCustomer', label: '고객당 연 매출', format: 'won', group: 'unit' },
+  { key: 'cacProxy', label: 'CAC (대용)', format: 'won', group: 'unit' },
+  { key: 'ltvProxy', label: `LTV (대용, ${LTV_LIFETIME_YEARS}년)`, format: 'won', group: 'unit' },
+  { key: 'ltvToCac', label: 'LTV/CAC', format: 'x', group: 'unit' },
+];
+
+const ratio = (num: number | null, den: number | null): number | null =>
+  num === null || den === null || den === 0 ? null : num / den;
+
+/** 기간 이름으로 개월 수 추정 — 분기 3, 반기 6, 그 외 12 */
+export function periodMonths(label: string): number {
+  if (/Q[1-4]$/i.test(label) || /[1-4]분기$/.test(label)) return 3;
+  if (/H[12]$/i.test(label) || /(상|하)반기$/.test(label)) return 6;
+  return 12;
+}
+
+function liquidity(p: StatementPeriod): number | null {
+  if (p.cash !== null) return p.cash;
+  if (p.currentAssets !== null && p.currentLiabilities !== null) return Math.max(0, p.currentAssets - p.currentLiabilities);
+  return null;
+}
+
+export function calculateRatios(periods: StatementPeriod[]): PeriodRatios[] {
+  return periods.map((p, i) => {
+    const prev = i > 0 ? periods[i - 1]! : null;
+    const months = periodMonths(p.label);
+    const grossMargin = ratio(p.grossProfit, p.revenue);
+    const monthlyBurn = p.operatingIncome === null ? null : Math.max(0, -p.operatingIncome) / months;
+    const cash = liquidity(p);
+    const annualRevenue = p.revenue === null ? null : (p.revenue * 12) / months;
+    const revenuePerCustomer = p.customers ? ratio(annualRevenue, p.customers) : null;
+    const newCustomers = prev?.customers != null && p.customers !== null ? p.customers - prev.customers : null;
+    const cacProxy = newCustomers !== null && newCustomers > 0 ? ratio(p.salesMarketing, newCustomers) : null;
+    const ltvProxy = revenuePerCustomer !== null && grossMargin !== null ? revenuePerCustomer * grossMargin * LTV_LIFETIME_YEARS : null;
+
+    return {
+      label: p.label,
+      revenueGrowth: prev && prev.revenue && p.revenue !== null ? p.revenue / prev.revenue - 1 : null,
+      grossMargin,
+      operatingMargin: ratio(p.operatingIncome, p.revenue),
+      netMargin: ratio(p.netIncome, p.revenue),
+      rndIntensity: ratio(p.rnd, p.revenue),
+      monthlyBurn,
+      runwayMonths: monthlyBurn && cash !== null ? cash / monthlyBurn : null,
+      currentRatio: ratio(p.currentAssets, p.currentLiabilities),
+      debtToEquity: p.totalEquity !== null && p.totalEquity > 0 ? ratio(p.totalLiabilities, p.totalEquity) : null,
+      revenuePerCustomer,
+      cacProxy,
+      ltvProxy,
+      ltvToCac: ratio(ltvProxy, cacProxy),
+    };
+  });
+}
+
+// ========================================================================
+// 표기
+// ========================================================================
+
+export function formatWon(value: number): string {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (abs >= 1e12) return `${sign}${(abs / 1e12).toFixed(2)}조원`;
+  if (abs >= 1e8) return `${sign}${(abs / 1e8).toFixed(1)}억원`;
+  if (abs >= 1e4) return `${sign}${Math.round(abs / 1e4).toLocaleString('ko-KR')}만원`;
+  return `${sign}${Math.round(abs).toLocaleString('ko-KR')}원`;
+}
+
+export function formatRatio(value: number | null, format: RatioFormat): string {
+  if (value === null || !Number.isFinite(value)) return '—';
+  switch (format) {
+    case 'pct': return `${(value * 100).toFixed(1)}%`;
+    case 'won': return formatWon(value);
+    case 'months': return `${value.toFixed(1)}개월`;
+    case 'x': return `${value.toFixed(2)}배`;
+  }
+}
+
+const definition = (key: RatioKey): RatioDefinition => RATIO_DEFINITIONS.find((d) => d.key === key)!;
+const show = (key: RatioKey, value: number | null): string => formatRatio(value, definition(key).format);
+
+// ========================================================================
+// 분석 질문
+// ========================================================================
+
+export interface AnalysisQuestion {
+  level: AnalysisLevel;
+  /** 질문이 다루는 지표 — 일반 질문이면 null */
+  metric: RatioKey | null;
+  prompt: string;
+}
+
+/** 최신 기간부터 거슬러 올라가 값이 있는 첫 기간 */
+function latestWith(ratios: PeriodRatios[], key: RatioKey): PeriodRatios | null {
+  for (let i = ratios.length - 1; i >= 0; i--) {
+    if (ratios[i]![key] !== null) return ratios[i]!;
+  }
+  return null;
+}
+
+/**
+ * 계산된 지표로 레벨에 맞는 질문 최대 3개 — 값이 없는 지표의 질문은 건너뛰고
+ * 모자라면 레벨 공통 질문으로 채움
+ */
+export function generateAnalysisQuestions(statements: FinancialStatements, ratios: PeriodRatios[], level: AnalysisLevel): AnalysisQuestion[] {
+  const name = statements.companyName || '이 기업';
+  const first = ratios[0];
+  const last = ratios[ratios.length - 1];
+  const growth = latestWith(ratios, 'revenueGrowth');
+  const opMargin = latestWith(ratios, 'operatingMargin');
+  const burn = latestWith(ratios, 'runwayMonths');
+  const unit = latestWith(ratios, 'ltvToCac');
+  const gross = latestWith(ratios, 'grossMargin');
+  const rnd = latestWith(ratios, 'rndIntensity');
+  const candidates: AnalysisQuestion[] = [];
+  const add = (metric: RatioKey | null, prompt: string) => candidates.push({ level, metric, prompt });
+
+  if (level === 'L1') {
+    if (growth) add('revenueGrowth', `${name}의 ${growth.label} 매출 성장률(${show('revenueGrowth', growth.revenueGrowth)})을 직접 계산해 보고, 성장을 이끈 요인을 가설 2개로 적으세요.`);
+    if (opMargin) add('operatingMargin', `${opMargin.label} 영업이익률은 ${show('operatingMargin', opMargin.operatingMargin)}입니다. 영업이익률이 무엇을 뜻하고 왜 매출총이익률과 다른지 설명하세요.`);
+    if (gross) add('grossMargin', `매출총이익률 ${show('grossMargin', gross.grossMargin)}는 하드웨어·서비스·SaaS 중 어떤 사업 구조에 가까운지 근거와 함께 답하세요.`);
+    if (rnd) add('rndIntensity', `R&D 비중 ${show('rndIntensity', rnd.rndIntensity)}가 돌봄·에듀테크 업계에서 높은 편인지 낮은 편인지 판단하고 이유를 적으세요.`);
+    add(null, `${name}의 재무제표에서 가장 먼저 눈에 띄는 숫자 하나를 고르고, 그 숫자가 사업에 대해 말해 주는 것을 3줄로 정리하세요.`);
+  } else if (level === 'L2') {
+    if (growth && opMargin && first && last && first !== last) {
+      add('operatingMargin', `${first.label}→${last.label} 영업이익률이 ${show('operatingMargin', first.operatingMargin)}→${show('operatingMargin', last.operatingMargin)}로 바뀌는 동안 매출은 ${show('revenueGrowth', growth.revenueGrowth)} 성장했습니다. 규모의 경제가 작동하는지, 비용 구조의 어떤 항목이 변했을지 분석하세요.`);
+    }
+    if (burn) add('runwayMonths', `월 소진액 ${show('monthlyBurn', burn.monthlyBurn)}, 런웨이 ${show('runwayMonths', burn.runwayMonths)} 기준으로 다음 투자 유치 전까지 무엇을 증명해야 하는지 정리하세요.`);
+    if (unit) add('ltvToCac', `LTV/CAC가 ${show('ltvToCac', unit.ltvToCac)}입니다 (LTV는 ${LTV_LIFETIME_YEARS}년 유지 가정). 3배 기준과 비교하고, 가장 효과가 큰 개선 레버를 고르세요.`);
+    if (gross && opMargin) add('grossMargin', `매출총이익률 ${show('grossMargin', gross.grossMargin)}와 영업이익률 ${show('operatingMargin', opMargin.operatingMargin)}의 차이는 판관비 부담을 보여 줍니다. 이 차이를 줄이려면 어떤 비용부터 봐야 하나요?`);
+    add(null, `${name}의 성장성과 수익성 중 지금 더 우선해야 할 것은 무엇인지, 지표 두 개 이상을 근거로 주장하세요.`);
+  } else {
+    if (burn && growth && growth.revenueGrowth !== null) {
+      add('runwayMonths', `매출 성장률이 ${show('revenueGrowth', growth.revenueGrowth)}에서 절반으로 꺾이면 런웨이 ${show('runwayMonths', burn.runwayMonths)}는 어떻게 바뀌고, 경영진은 어떤 선택지를 갖나요? 투자자 관점 리스크 3가지를 함께 적으세요.`);
+    }
+    if (gross) add('grossMargin', `${name}의 매출총이익률 ${show('grossMargin', gross.grossMargin)}를 볼 때, CareVia가 같은 조달·B2B 시장에서 가격으로 공략할 틈이 있는지, 없다면 무엇으로 차별화할지 제안하세요.`);
+    if (unit) add('ltvToCac', `LTV/CAC ${show('ltvToCac', unit.ltvToCac)}를 CareVia의 영업 방식(B2G 조달 vs B2B 직판)에 대입하면 어떤 채널에 영업 자원을 더 배분해야 하나요?`);
+    add(null, `${name}이(가) CareVia의 경쟁사라면 이 재무 구조에서 예상되는 다음 1년의 움직임(투자 유치·가격 인하·M&A 등)과 CareVia의 대응 전략을 쓰세요.`);
+    add(null, `${name}을(를) 파트너로 본다면 재무 지표상 어떤 조건(매출 규모·수익성·안정성)을 확인한 뒤 협업을 제안해야 하나요?`);
+  }
+  return candidates.slice(0, 3);
+}
+
+/** Gap Check에 함께 보낼 분석 요약 */
+export function describeFinancials(statements: FinancialStatements, ratios: PeriodRatios[]): string {
+  const lines = [`${statements.companyName} · ${statements.sourceDetail}`];
+  for (const r of ratios) {
+    const parts = RATIO_DEFINITIONS
+      .filter((d) => r[d.key] !== null)
+      .map((d) => `${d.label} ${formatRatio(r[d.key], d.format)}`);
+    if (parts.length > 0) lines.push(`- ${r.label}: ${parts.join(', ')}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,117 @@
+/**
+ * 재무제표 분석 — 출처별 수집(DART·CSV·합성 기업)과 analysis_sessions 저장
+ *
+ * DART 주요계정은 care.v1 GetCompanyFinancials가 서버 키로 조회.
+ */
+
+import { storage } from '../../utils/storage';
+import { repositories, type AnalysisSessionRow } from '../repository';
+import { fetchCompanyFinancials } from '../care';
+import type { CompetitorCorp } from '../dartApi';
+import type { StudyGeneration, DepthScore, SyntheticCompany } from '../study/types';
+import {
+  calculateRatios,
+  describeFinancials,
+  type AnalysisLevel,
+  type AnalysisQuestion,
+} from './engine';
+import {
+  dartPeriodsToStatements,
+  parseStatementsCsv,
+  parseSyntheticFinancials,
+  type FinancialStatements,
+} from './statements';
+
+export * from './engine';
+export * from './statements';
+
+const STORAGE_KEY = 'careradar_analysis_sessions';
+const MAX_LOCAL_SESSIONS = 200;
+
+export function statementsFromCompany(company: SyntheticCompany): FinancialStatements {
+  return {
+    companyName: company.name,
+    source: 'synthetic',
+    sourceDetail: company.basedOn ? `합성 기업 (모델: ${company.basedOn})` : '합성 기업',
+    periods: parseSyntheticFinancials(company.financials),
+  };
+}
+
+/** DART 사업보고서 주요계정 — 연도 0이면 최근 제출분. 서버 오류는 throw */
+export async function loadDartStatements(corp: CompetitorCorp, year = 0): Promise<FinancialStatements> {
+  const resp = await fetchCompanyFinancials(corp.corpCode, year);
+  if (!resp.configured) throw new Error('서버에 DART API 키가 설정되지 않았습니다.');
+  if (resp.periods.length === 0) throw new Error(`${corp.name}의 사업보고서 주요계정이 없습니다.`);
+  return {
+    companyName: corp.name,
+    source: 'dart',
+    sourceDetail: `DART ${resp.year} 사업보고서 (${resp.statementKind === 'CFS' ? '연결' : '별도'})`,
+    periods: dartPeriodsToStatements(resp.periods),
+  };
+}
+
+export function statementsFromCsv(companyName: string, fileName: string, csv: string): { statements: FinancialStatements; unknownAccounts: string[] } {
+  const { periods, unknownAccounts } = parseStatementsCsv(csv);
+  return {
+    statements: { companyName, source: 'csv', sourceDetail: `CSV 업로드 (${fileName})`, periods },
+    unknownAccounts,
+  };
+}
+
+export interface AnalysisSessionRecord {
+  id: string;
+  date: string;
+  category: string;
+  level: AnalysisLevel;
+  statements: FinancialStatements;
+  questions: AnalysisQuestion[];
+  insight: string;
+  /** 세션 자기 평가 1–5 */
+  selfRating?: number;
+  createdAt: string;
+}
+
+function toRow(record: AnalysisSessionRecord, generation?: StudyGeneration, depthScores?: DepthScore[]): AnalysisSessionRow {
+  const { statements } = record;
+  const ratios = calculateRatios(statements.periods);
+  return {
+    id: record.id,
+    date: record.date,
+    company_name: statements.companyName,
+    category: record.category,
+    level: record.level,
+    data_badge: statements.source === 'synthetic' ? 'synthetic' : 'real',
+    data_source: statements.source,
+    source_summary: describeFinancials(statements, ratios),
+    questions: [...(generation ? [generation.question] : []), ...record.questions],
+    ai_references: generation?.reference ? [generation.reference] : null,
+    my_insight: record.insight,
+    depth_scores: depthScores ?? null,
+    self_rating: record.selfRating ?? null,
+    tags: [statements.source, record.level],
+    statements: statements.periods,
+    ratios,
+    created_at: record.createdAt,
+  };
+}
+
+export function loadLocalAnalysisSessions(): AnalysisSessionRecord[] {
+  return storage.get<AnalysisSessionRecord[]>(STORAGE_KEY, []);
+}
+
+/** 가장 최근 분석 (로컬) — 대시보드 패널용 */
+export function latestAnalysisSession(): AnalysisSessionRecord | null {
+  return loadLocalAnalysisSessions()[0] ?? null;
+}
+
+/**
+ * 분석 저장 — 로컬에 먼저 남기고 analysis_sessions에 upsert
+ * generation·depthScores는 세션의 AI Reference와 Gap Check 결과
+ */
+export async function saveAnalysisSession(record: AnalysisSessionRecord, generation?: StudyGeneration, depthScores?: DepthScore[]): Promise<void> {
+  const local = [record, ...loadLocalAnalysisSessions().filter((s) => s.id !== record.id)].slice(0, MAX_LOCAL_SESSIONS);
+  storage.set(STORAGE_KEY, local);
+
+  const result = await repositories.analysisSessions.upsert(toRow(record, generation, depthScores));
+  if (!result.ok && result.reason === 'error') console.warn('[Financials] analysis_sessions upsert failed (kept locally):', result.message);
+}
@@ -0,0 +1,323 @@
+/**
+ * 재무제표 수집 — DART 주요계정, CSV 업로드, synthetic_companies.financials를 같은 기간 배열로 정규화
+ *
+ * 금액은 원 단위 숫자. 출처에 없는 계정은 null로 두고 비율 계산에서 건너뜀.
+ * "82억", "-3.1억", "3만원", "61%", "1,234,567" 같은 표기를 모두 읽음.
+ */
+
+export type StatementSource = 'dart' | 'csv' | 'synthetic';
+
+export const STATEMENT_SOURCE_LABELS: Record<StatementSource, string> = {
+  dart: 'DART 전자공시',
+  csv: 'CSV 업로드',
+  synthetic: '합성 기업',
+};
+
+export interface StatementPeriod {
+  /** 기간 이름 — 연도("2025") 또는 분기("2025Q1") */
+  label: string;
+  revenue: number | null;
+  costOfSales: number | null;
+  grossProfit: number | null;
+  operatingIncome: number | null;
+  netIncome: number | null;
+  cash: number | null;
+  currentAssets: number | null;
+  currentLiabilities: number | null;
+  totalAssets: number | null;
+  totalLiabilities: number | null;
+  totalEquity: number | null;
+  /** 판매·마케팅비 (광고선전비 포함) — CAC 대용 */
+  salesMarketing: number | null;
+  rnd: number | null;
+  /** 고객 수 (기관·사용자) — ARPA·CAC 대용 */
+  customers: number | null;
+}
+
+export interface FinancialStatements {
+  companyName: string;
+  source: StatementSource;
+  /** 출처 설명 (예: "DART CFS 2025 사업보고서", 파일명) */
+  sourceDetail: string;
+  /** 오래된 기간부터 */
+  periods: StatementPeriod[];
+}
+
+export type StatementField = Exclude<keyof StatementPeriod, 'label'>;
+
+export const STATEMENT_FIELD_LABELS: Record<StatementField, string> = {
+  revenue: '매출액',
+  costOfSales: '매출원가',
+  grossProfit: '매출총이익',
+  operatingIncome: '영업이익',
+  netIncome: '당기순이익',
+  cash: '현금성자산',
+  currentAssets: '유동자산',
+  currentLiabilities: '유동부채',
+  totalAssets: '자산총계',
+  totalLiabilities: '부채총계',
+  totalEquity: '자본총계',
+  salesMarketing: '판매·마케팅비',
+  rnd: 'R&D비',
+  customers: '고객 수',
+};
+
+// 계정 이름 별칭 — 공백을 지운 소문자로 비교 (괄호 주석이 붙어도 일치)
+const FIELD_ALIASES: Record<StatementField, string[]> = {
+  revenue: ['매출액', '매출', '수익(매출액)', '영업수익', 'revenue', 'sales'],
+  costOfSales: ['매출원가', 'cogs', 'costofsales', 'costofrevenue'],
+  grossProfit: ['매출총이익', 'grossprofit'],
+  operatingIncome: ['영업이익', '영업이익(손실)', '영업손익', 'operatingincome', 'ebit'],
+  netIncome: ['당기순이익', '당기순이익(손실)', '순이익', 'netincome'],
+  cash: ['현금및현금성자산', '현금성자산', '현금', 'cash'],
+  currentAssets: ['유동자산', 'currentassets'],
+  currentLiabilities: ['유동부채', 'currentliabilities'],
+  totalAssets: ['자산총계', '총자산', 'totalassets'],
+  totalLiabilities: ['부채총계', '총부채', 'totalliabilities'],
+  totalEquity: ['자본총계', '총자본', 'totalequity', 'equity'],
+  salesMarketing: ['판매·마케팅비', '마케팅비', '광고선전비', '판매촉진비', 'salesmarketing', 's&m', 'marketing'],
+  rnd: ['r&d비', 'r&d', '연구개발비', 'rnd'],
+  customers: ['고객기관', '고객수', '고객', '고객사', 'customers'],
+};
+
+// 다른 계정에서 환산되는 비율 표기
+const RATE_ALIASES: Record<'grossMarginRate' | 'rndRate', string[]> = {
+  grossMarginRate: ['매출총이익률', 'grossmargin'],
+  rndRate: ['r&d비중', '연구개발비중', 'rndratio'],
+};
+
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[\s_]/g, '');
+
+const FIELD_BY_ALIAS = new Map<string, StatementField>(
+  (Object.entries(FIELD_ALIASES) as [StatementField, string[]][]).flatMap(([field, aliases]) =>
+    aliases.map((alias) => [normalizeKey(alias), field] as [string, StatementField])),
+);
+const RATE_BY_ALIAS = new Map<string, keyof typeof RATE_ALIASES>(
+  (Object.entries(RATE_ALIASES) as [keyof typeof RATE_ALIASES, string[]][]).flatMap(([rate, aliases]) =>
+    aliases.map((alias) => [normalizeKey(alias), rate] as [string, keyof typeof RATE_ALIASES])),
+);
+
+export function emptyPeriod(label: string): StatementPeriod {
+  return {
+    label,
+    revenue: null,
+    costOfSales: null,
+    grossProfit: null,
+    operatingIncome: null,
+    netIncome: null,
+    cash: null,
+    currentAssets: null,
+    currentLiabilities: null,
+    totalAssets: null,
+    totalLiabilities: null,
+    totalEquity: null,
+    salesMarketing: null,
+    rnd: null,
+    customers: null,
+  };
+}
+
+const UNIT_MULTIPLIERS: [string, number][] = [
+  ['조', 1e12],
+  ['억', 1e8],
+  ['백만', 1e6],
+  ['천만', 1e7],
+  ['만', 1e4],
+  ['천', 1e3],
+];
+
+/**
+ * 금액·수량 표기 → 숫자. "1.2조 3,000억"처럼 단위가 여러 개면 더함. 퍼센트는 0–1 비율.
+ * 읽을 수 없으면 null
+ */
+export function parseAmount(raw: unknown): number | null {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+  if (typeof raw !== 'string') return null;
+  let text = raw.replace(/[,\s]/g, '').replace(/(원|곳|개|명|건|개사|KRW|₩)$/i, '').replace(/^₩/, '');
+  if (!text || text === '-') return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  // △는 국내 재무제표의 음수 표기
+  if (text.startsWith('-') || text.startsWith('△')) {
+    sign = -1;
+    text = text.slice(1);
+  }
+
+  if (text.endsWith('%')) {
+    const pct = Number(text.slice(0, -1));
+    return Number.isFinite(pct) ? (sign * pct) / 100 : null;
+  }
+
+  let total = 0;
+  let matched = false;
+  const unitPattern = new RegExp(`(\\d+(?:\\.\\d+)?)(${UNIT_MULTIPLIERS.map(([u]) => u).join('|')})`, 'g');
+  let rest = text;
+  for (const m of text.matchAll(unitPattern)) {
+    total += Number(m[1]) * UNIT_MULTIPLIERS.find(([u]) => u === m[2])![1];
+    rest = rest.replace(m[0], '');
+    matched = true;
+  }
+  if (matched) {
+    if (rest && Number.isFinite(Number(rest))) total += Number(rest);
+    return sign * total;
+  }
+  const value = Number(text);
+  return Number.isFinite(value) ? sign * value : null;
+}
+
+/** 계정 이름과 값 하나를 기간에 반영 — 모르는 계정이면 false */
+function applyAccount(period: StatementPeriod, rates: Partial<Record<keyof typeof RATE_ALIASES, number>>, key: string, raw: unknown): boolean {
+  const normalized = normalizeKey(key);
+  const field = FIELD_BY_ALIAS.get(normalized) ?? FIELD_BY_ALIAS.get(normalized.replace(/\(.*\)/g, ''));
+  const value = parseAmount(raw);
+  if (field) {
+    if (value !== null) period[field] = value;
+    return true;
+  }
+  const rate = RATE_BY_ALIAS.get(normalized);
+  if (rate) {
+    if (value !== null) rates[rate] = value;
+    return true;
+  }
+  return false;
+}
+
+/** 비율로만 주어진 계정을 금액으로 환산하고 매출총이익을 채움 */
+function completePeriod(period: StatementPeriod, rates: Partial<Record<keyof typeof RATE_ALIASES, number>>): StatementPeriod {
+  const p = { ...period };
+  if (p.revenue !== null) {
+    if (p.grossProfit === null && rates.grossMarginRate !== undefined) p.grossProfit = p.revenue * rates.grossMarginRate;
+    if (p.rnd === null && rates.rndRate !== undefined) p.rnd = p.revenue * rates.rndRate;
+    if (p.grossProfit === null && p.costOfSales !== null) p.grossProfit = p.revenue - p.costOfSales;
+  }
+  return p;
+}
+
+const periodOrder = (a: StatementPeriod, b: StatementPeriod) => a.label.localeCompare(b.label, 'en', { numeric: true });
+
+/**
+ * synthetic_companies.financials (JSON 문자열) → 기간 배열
+ * { "2024": { "매출액": "82억", ... } } 형태만 읽고, 기간이 아닌 최상위 값은 무시
+ */
+export function parseSyntheticFinancials(financials: string): StatementPeriod[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(financials);
+  } catch {
+    return [];
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return [];
+
+  const periods: StatementPeriod[] = [];
+  for (const [label, accounts] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!accounts || typeof accounts !== 'object' || Array.isArray(accounts)) continue;
+    const period = emptyPeriod(label);
+    const rates = {};
+    for (const [key, raw] of Object.entries(accounts as Record<string, unknown>)) applyAccount(period, rates, key, raw);
+    periods.push(completePeriod(period, rates));
+  }
+  return periods.sort(periodOrder);
+}
+
+/** 따옴표 안 쉼표("1,234")를 지키는 CSV 분리 */
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]!;
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+const PERIOD_HEADER = /^(연도|년도|기간|회계연도|year|period)$/i;
+
+export interface CsvParseResult {
+  periods: StatementPeriod[];
+  /** 인식하지 못한 계정 이름 — 업로드 화면에 안내 */
+  unknownAccounts: string[];
+}
+
+/**
+ * 재무제표 CSV → 기간 배열. 두 가지 배치를 모두 읽음:
+ *   계정이 행:  "계정,2024,2025" / "매출액,82억,97억"
+ *   기간이 행:  "연도,매출액,영업이익" / "2024,82억,-3.1억"
+ */
+export function parseStatementsCsv(csv: string): CsvParseResult {
+  const rows = csv.replace(/^﻿/, '').split(/\r?\n/).map((l) => l.trim()).filter(Boolean).map(splitCsvLine);
+  if (rows.length < 2) return { periods: [], unknownAccounts: [] };
+
+  const header = rows[0]!;
+  const unknown = new Set<string>();
+  const periods: StatementPeriod[] = [];
+
+  if (PERIOD_HEADER.test(header[0] ?? '')) {
+    for (const row of rows.slice(1)) {
+      const label = row[0] ?? '';
+      if (!label) continue;
+      const period = emptyPeriod(label);
+      const rates = {};
+      header.slice(1).forEach((account, i) => {
+        if (account && !applyAccount(period, rates, account, row[i + 1])) unknown.add(account);
+      });
+      periods.push(completePeriod(period, rates));
+    }
+  } else {
+    const labels = header.slice(1);
+    const byLabel = labels.map((label) => ({ period: emptyPeriod(label), rates: {} }));
+    for (const row of rows.slice(1)) {
+      const account = row[0] ?? '';
+      if (!account) continue;
+      let known = true;
+      byLabel.forEach((entry, i) => {
+        known = applyAccount(entry.period, entry.rates, account, row[i + 1]) && known;
+      });
+      if (!known) unknown.add(account);
+    }
+    for (const { period, rates } of byLabel) {
+      if (period.label) periods.push(completePeriod(period, rates));
+    }
+  }
+
+  return { periods: periods.sort(periodOrder), unknownAccounts: [...unknown] };
+}
+
+/** DART 주요계정 기간 (care.v1 FinancialPeriod) → 기간 */
+export function dartPeriodsToStatements(
+  periods: Array<{ year: number; revenue: number; operatingIncome: number; netIncome: number; currentAssets: number; currentLiabilities: number; totalAssets: number; totalLiabilities: number; totalEquity: number }>,
+): StatementPeriod[] {
+  // DART 응답은 없는 계정을 0으로 채우므로 대차 계정은 자산총계가 있을 때만 채택
+  return periods.map((p) => ({
+    ...emptyPeriod(String(p.year)),
+    revenue: p.revenue || null,
+    operatingIncome: p.revenue || p.operatingIncome ? p.operatingIncome : null,
+    netIncome: p.revenue || p.netIncome ? p.netIncome : null,
+    currentAssets: p.totalAssets ? p.currentAssets : null,
+    currentLiabilities: p.totalAssets ? p.currentLiabilities : null,
+    totalAssets: p.totalAssets || null,
+    totalLiabilities: p.totalAssets ? p.totalLiabilities : null,
+    totalEquity: p.totalAssets ? p.totalEquity : null,
+  }));
+}
@@ -1,11 +1,16 @@
 /**
  * 나라장터 공공조달 트래커 — PRD Section 5.2.2, Appendix A.1
- * Google News RSS 기반 조달 관련 뉴스 수집 + 적합도 태깅
- * (나라장터 API 연동 시 VITE_G2B_API_KEY로 확장 가능)
+ * policy 트랙 뉴스에서 조달 관련 항목 추출 + 적합도 태깅 (수집은 care.v1 서버에서 수행)
+ * 나라장터 실제 입찰공고는 procurementTracker가 같은 적합도 규칙(gradeProcurement)으로 태깅
  */
 
-import { fetchAllNews } from './rssFeed';
-import { filterByKeywords, type FilteredRssItem } from './keywordFilter';
+import type { FilteredRssItem } from './keywordFilter';
+import {
+  DEFAULT_KEYWORD_PROFILE,
+  HIGH_FITNESS_WEIGHT,
+  matchNegativeKeywords,
+  type KeywordProfile,
+} from './keywordProfile';
 
 export interface ProcurementListing {
   id: string;
@@ -62,24 +67,37 @@ const EXCLUSION_KEYWORDS = [
   '출입통제',
 ];
 
-function hasExclusion(text: string): boolean {
+function hasExclusion(text: string, profile: KeywordProfile): boolean {
   const lower = text.toLowerCase();
-  return EXCLUSION_KEYWORDS.some((kw) => lower.includes(kw.toLowerCase()));
+  return EXCLUSION_KEYWORDS.some((kw) => lower.includes(kw.toLowerCase()))
+    || matchNegativeKeywords(text, profile).length > 0;
 }
 
-function computeFitness(text: string): { score: 'high' | 'medium' | 'low'; reason: string; matched: string[] } | null {
-  if (hasExclusion(text)) return null;
+/**
+ * 사용자 키워드는 가중치 HIGH_FITNESS_WEIGHT 이상이면 high, 그 외 medium 규칙에 추가
+ */
+function computeFitness(
+  text: string,
+  profile: KeywordProfile
+): { score: 'high' | 'medium' | 'low'; reason: string; matched: string[] } | null {
+  if (hasExclusion(text, profile)) return null;
 
   const lower = text.toLowerCase();
   const highMatched: string[] = [];
   const mediumMatched: string[] = [];
   const lowMatched: string[] = [];
 
-  for (const kw of FITNESS_RULES.high) {
-    if (lower.includes(kw.toLowerCase())) highMatched.push(kw);
+  const high = [...FITNESS_RULES.high];
+  const medium = [...FITNESS_RULES.medium];
+  for (const { keyword, weight } of profile.keywords) {
+    (weight >= HIGH_FITNESS_WEIGHT ? high : medium).push(keyword);
+  }
+
+  for (const kw of high) {
+    if (lower.includes(kw.toLowerCase()) && !highMatched.includes(kw)) highMatched.push(kw);
   }
-  for (const kw of FITNESS_RULES.medium) {
-    if (lower.includes(kw.toLowerCase())) mediumMatched.push(kw);
+  for (const kw of medium) {
+    if (lower.includes(kw.toLowerCase()) && !mediumMatched.includes(kw)) mediumMatched.push(kw);
   }
   for (const kw of FITNESS_RULES.low) {
     if (lower.includes(kw.toLowerCase())) lowMatched.push(kw);
@@ -119,6 +137,16 @@ function computeFitness(text: string): { score: 'high' | 'medium' | 'low'; reaso
   };
 }
 
+/**
+ * 조달 텍스트 적합도 등급 — 제외·네거티브 키워드에 걸리면 null
+ */
+export function gradeProcurement(
+  text: string,
+  profile: KeywordProfile = DEFAULT_KEYWORD_PROFILE
+): { score: 'high' | 'medium' | 'low'; reason: string; matched: string[] } | null {
+  return computeFitness(text, profile);
+}
+
 function extractAgencyFromTitle(title: string): string {
   const patterns = [
     /(보건복지부|과기정통부|고용노동부|복지부|과기부|노동부)/,
@@ -134,11 +162,13 @@ function extractAgencyFromTitle(title: string): string {
 
 /**
  * policy 트랙 뉴스에서 조달 관련 항목 추출 및 적합도 태깅
- * high/medium 우선, low도 "참고" 등급으로 포함 (exclusion 키워드 매칭 시 제외)
+ * high/medium 우선, low도 "참고" 등급으로 포함 (exclusion·네거티브 키워드 매칭 시 제외)
  */
-export async function fetchProcurementListings(): Promise<ProcurementListing[]> {
-  const items = await fetchAllNews();
-  const filtered = filterByKeywords(items);
+export function extractProcurementListings(
+  filtered: FilteredRssItem[],
+  fetchedAt = new Date().toISOString(),
+  profile: KeywordProfile = DEFAULT_KEYWORD_PROFILE
+): ProcurementListing[] {
   const policyItems = filtered.filter((i) => i.track === 'policy') as FilteredRssItem[];
 
   const highMed: ProcurementListing[] = [];
@@ -147,7 +177,7 @@ export async function fetchProcurementListings(): Promise<ProcurementListing[]>
 
   for (const item of policyItems) {
     const text = `${item.title} ${item.description}`;
-    const result = computeFitness(text);
+    const result = computeFitness(text, profile);
     if (!result) continue;
 
     const { score, reason, matched } = result;
@@ -165,7 +195,7 @@ export async function fetchProcurementListings(): Promise<ProcurementListing[]>
       matched_keywords: [...matched, ...(item.keywords_matched ?? [])].filter(
         (k, i, arr) => arr.indexOf(k) === i
       ),
-      fetched_at: new Date().toISOString(),
+      fetched_at: fetchedAt,
     };
 
     if (score === 'low') {
@@ -1,11 +1,11 @@
 /**
  * 키워드 필터링 엔진 — PRD Section 5.1.2
- * 시장/BM/정책/투자 4개 카테고리 키워드 매칭
+ * 시장/BM/정책/투자 4개 카테고리 키워드 매칭 (+ 키워드 프로필의 사용자 키워드·네거티브 키워드)
  */
 
 import type { RssItem } from './rssFeed';
-import { getSourceTier } from '@/config/sourceTiers';
-import { isExcludedByKB } from '@/stores/exclusionStore';
+import { getSourceTier } from '../config/sourceTiers';
+import { DEFAULT_KEYWORD_PROFILE, matchNegativeKeywords, type KeywordProfile } from './keywordProfile';
 
 export type KeywordCategory = 'market' | 'bm' | 'policy' | 'investment';
 
@@ -100,16 +100,30 @@ export interface KeywordMatch {
   category: KeywordCategory;
 }
 
-function matchKeywordsWithCategory(text: string): KeywordMatch[] {
+interface WeightedMatch extends KeywordMatch {
+  weight: number;
+}
+
+function matchKeywordsWithCategory(text: string, profile: KeywordProfile): WeightedMatch[] {
   const lower = text.toLowerCase();
   const seen = new Set<string>();
-  const matches: KeywordMatch[] = [];
+  const matches: WeightedMatch[] = [];
+
+  // 사용자 키워드를 먼저 매칭 — 기본 키워드와 겹치면 사용자 가중치·카테고리 우선
+  for (const { keyword, category, weight } of profile.keywords) {
+    const key = keyword.toLowerCase();
+    if (lower.includes(key) && !seen.has(key)) {
+      seen.add(key);
+      matches.push({ keyword, category, weight });
+    }
+  }
 
   for (const [category, keywords] of Object.entries(CARE_KEYWORDS) as [KeywordCategory, string[]][]) {
     for (const kw of keywords) {
-      if (lower.includes(kw.toLowerCase()) && !seen.has(kw)) {
-        seen.add(kw);
-        matches.push({ keyword: kw, category });
+      const key = kw.toLowerCase();
+      if (lower.includes(key) && !seen.has(key)) {
+        seen.add(key);
+        matches.push({ keyword: kw, category, weight: 1 });
       }
     }
   }
@@ -133,17 +147,25 @@ export const KEYWORD_CATEGORY_LABELS: Record<KeywordCategory, string> = {
 
 /**
  * RssItem에 키워드 매칭 및 관련성 점수 적용
- * relevance_score: 0-100 (매칭 키워드 수 + 카테고리 다양성 기반)
+ * relevance_score: 0-100 (매칭 키워드 가중치 합 — 기본 키워드 1, 사용자 키워드는 프로필 가중치)
+ * relevance: 피드백 관련성 모델의 점수 조정 — 서버 수집에서도 쓰이므로 스토어를 직접 참조하지 않고 주입받음
+ * profile: 키워드 프로필 — 같은 이유로 주입받음 (기본값은 사용자 키워드 없음)
  */
-export function filterByKeywords(items: RssItem[]): FilteredRssItem[] {
+export function filterByKeywords(
+  items: RssItem[],
+  relevance: (text: string) => number = () => 0,
+  profile: KeywordProfile = DEFAULT_KEYWORD_PROFILE
+): FilteredRssItem[] {
   return items.map((item) => {
     const searchText = `${item.title} ${item.description}`;
-    const keywordCategories = matchKeywordsWithCategory(searchText);
+    const matches = matchKeywordsWithCategory(searchText, profile);
+    const keywordCategories: KeywordMatch[] = matches.map(({ keyword, category }) => ({ keyword, category }));
     const keywords_matched = keywordCategories.map((m) => m.keyword);
 
     let relevance_score = 50;
-    if (keywords_matched.length > 0) {
-      relevance_score = Math.min(100, 50 + keywords_matched.length * 10);
+    if (matches.length > 0) {
+      const weightSum = matches.reduce((sum, m) => sum + m.weight, 0);
+      relevance_score = Math.min(100, Math.round(50 + weightSum * 10));
     }
 
     // Source tier bonus: Tier 1 +15, Tier 2 +10, Tier 3 +0, Tier 4 -5
@@ -151,8 +173,11 @@ export function filterByKeywords(items: RssItem[]): FilteredRssItem[] {
     const tierBonus = tier === 1 ? 15 : tier === 2 ? 10 : tier === 4 ? -5 : 0;
     relevance_score = Math.max(0, Math.min(100, relevance_score + tierBonus));
 
-    // Penalize articles similar to user-excluded content
-    if (isExcludedByKB(searchText)) {
+    // Learned from the user's exclusions (down) and bookmarks/ratings/memos (up)
+    relevance_score = Math.max(0, Math.min(100, relevance_score + relevance(searchText)));
+
+    // Penalize articles matching a negative keyword
+    if (matchNegativeKeywords(searchText, profile).length > 0) {
       relevance_score = Math.max(0, relevance_score - 40); // Heavy penalty
     }
 
@@ -0,0 +1,141 @@
+/**
+ * 키워드 프로필 — 사용자 키워드(카테고리·가중치), 네거티브 키워드, 알림 임계값, 활성 스코어링 프로필
+ *
+ * care.v1 서버(Redis)에 저장되는 단일 프로필을 Settings 화면과 텔레그램 봇(/keyword)이
+ * 함께 편집합니다. 관련도 산출(keywordFilter), 조달 적합도(g2bCrawler), 알림 판정에 반영됩니다.
+ * 알림 임계값은 채팅별 임계값(/threshold)을 따로 정하지 않은 텔레그램 채팅의 기본값입니다.
+ * 활성 스코어링 프로필은 서버 스냅샷 점수와 스케줄러·텔레그램 알림에 같은 산식을 적용합니다.
+ * 서버 수집에서도 쓰이므로 브라우저 전용 의존성을 두지 않습니다.
+ */
+
+import type { KeywordCategory } from './keywordFilter';
+import type { ActiveScoringProfile, ScoreTrackKey } from './scoreCalculator';
+
+export interface WeightedKeyword {
+  keyword: string;
+  category: KeywordCategory;
+  /** 관련도 가중치 — 기본 키워드는 1 */
+  weight: number;
+}
+
+export interface KeywordProfile {
+  keywords: WeightedKeyword[];
+  negativeKeywords: string[];
+  alertThreshold: number;
+  /** 마지막 저장 시각 (Unix ms) — 0이면 저장된 적 없는 기본 프로필 */
+  updatedAt: number;
+  /** Settings에서 활성화한 스코어링 프로필 — 없으면 기본 프로필(DEFAULT_SCORING_PROFILE) */
+  scoringProfile?: ActiveScoringProfile;
+}
+
+export const KEYWORD_CATEGORIES: KeywordCategory[] = ['market', 'bm', 'policy', 'investment'];
+
+export const KEYWORD_WEIGHT_MIN = 0.5;
+export const KEYWORD_WEIGHT_MAX = 3;
+export const ALERT_THRESHOLD_MIN = 30;
+export const ALERT_THRESHOLD_MAX = 95;
+
+/** 조달 적합도 'high'로 취급하는 사용자 키워드 가중치 하한 */
+export const HIGH_FITNESS_WEIGHT = 2;
+
+const MAX_KEYWORDS = 100;
+const MAX_KEYWORD_LENGTH = 50;
+const MAX_PROFILE_ID_LENGTH = 64;
+
+/** 스코어링 프로필 수치 범위 — Settings 편집 슬라이더와 같음 */
+const SCORING_RANGES: Record<Exclude<keyof ActiveScoringProfile, 'id' | 'name' | 'weights'>, [number, number]> = {
+  countSaturation: [1, 20],
+  relevanceWeight: [0, 1],
+  countWeight: [0, 60],
+  recencyHalfLifeHours: [0, 168],
+  tierBonus: [0, 20],
+  highPriorityThreshold: [50, 100],
+};
+const SCORE_TRACKS: ScoreTrackKey[] = ['policy', 'investment', 'competitor'];
+
+export const DEFAULT_KEYWORD_PROFILE: KeywordProfile = {
+  keywords: [],
+  negativeKeywords: [],
+  alertThreshold: 70,
+  updatedAt: 0,
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function cleanKeyword(value: unknown): string {
+  return typeof value === 'string' ? value.trim().slice(0, MAX_KEYWORD_LENGTH) : '';
+}
+
+/**
+ * 활성 스코어링 프로필 정리 — 수치는 편집 범위로 보정하고, 빠진 값이 있거나
+ * 기본 프로필이면 undefined (기본 프로필 적용)
+ */
+function normalizeScoringProfile(raw: Partial<ActiveScoringProfile> | null | undefined): ActiveScoringProfile | undefined {
+  const id = typeof raw?.id === 'string' ? raw.id.trim().slice(0, MAX_PROFILE_ID_LENGTH) : '';
+  if (!raw || !id || id === 'default') return undefined;
+
+  const weights = {} as ActiveScoringProfile['weights'];
+  for (const track of SCORE_TRACKS) {
+    const value = Number(raw.weights?.[track]);
+    if (!Number.isFinite(value)) return undefined;
+    weights[track] = clamp(value, 0, 1);
+  }
+  const values = {} as Pick<ActiveScoringProfile, keyof typeof SCORING_RANGES>;
+  for (const [key, [min, max]] of Object.entries(SCORING_RANGES) as [keyof typeof SCORING_RANGES, [number, number]][]) {
+    const value = Number(raw[key]);
+    if (!Number.isFinite(value)) return undefined;
+    values[key] = clamp(value, min, max);
+  }
+  values.countSaturation = Math.round(values.countSaturation);
+  values.highPriorityThreshold = Math.round(values.highPriorityThreshold);
+
+  return { id, name: cleanKeyword(raw.name) || id, weights, ...values };
+}
+
+/**
+ * 저장본·요청 본문을 검증된 프로필로 정리 — 빈 값·중복 제거, 가중치·임계값 범위 보정
+ */
+export function normalizeKeywordProfile(raw: Partial<KeywordProfile> | null | undefined): KeywordProfile {
+  const seen = new Set<string>();
+  const keywords: WeightedKeyword[] = [];
+  for (const entry of raw?.keywords ?? []) {
+    const keyword = cleanKeyword(entry?.keyword);
+    const key = keyword.toLowerCase();
+    if (!keyword || seen.has(key)) continue;
+    seen.add(key);
+    keywords.push({
+      keyword,
+      category: KEYWORD_CATEGORIES.includes(entry.category) ? entry.category : 'market',
+      weight: clamp(Number(entry.weight) || 1, KEYWORD_WEIGHT_MIN, KEYWORD_WEIGHT_MAX),
+    });
+  }
+
+  const negativeSeen = new Set<string>();
+  const negativeKeywords: string[] = [];
+  for (const entry of raw?.negativeKeywords ?? []) {
+    const keyword = cleanKeyword(entry);
+    const key = keyword.toLowerCase();
+    if (!keyword || negativeSeen.has(key)) continue;
+    negativeSeen.add(key);
+    negativeKeywords.push(keyword);
+  }
+
+  const threshold = Number(raw?.alertThreshold);
+  return {
+    keywords: keywords.slice(0, MAX_KEYWORDS),
+    negativeKeywords: negativeKeywords.slice(0, MAX_KEYWORDS),
+    alertThreshold: Number.isFinite(threshold) && threshold > 0
+      ? clamp(Math.round(threshold), ALERT_THRESHOLD_MIN, ALERT_THRESHOLD_MAX)
+      : DEFAULT_KEYWORD_PROFILE.alertThreshold,
+    updatedAt: Number(raw?.updatedAt) || 0,
+    scoringProfile: normalizeScoringProfile(raw?.scoringProfile),
+  };
+}
+
+/** 텍스트에 포함된 네거티브 키워드 목록 */
+export function matchNegativeKeywords(text: string, profile: KeywordProfile): string[] {
+  const lower = text.toLowerCase();
+  return profile.negativeKeywords.filter((kw) => lower.includes(kw.toLowerCase()));
+}
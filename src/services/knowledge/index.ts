@@ -0,0 +1,103 @@
+/**
+ * Knowledge Base 색인 대상 모으기와 의미 검색
+ *
+ * 대상: 지식 항목(직접·기사 메모, 학습 인사이트), 완료 세션 인사이트, 지식 항목으로 옮기지 않은 기사 메모.
+ * 의미 검색은 ML 워커 임베딩(all-MiniLM) — 워커를 못 띄우는 기기에서는 null을 돌려 어휘 검색만 씀.
+ */
+
+import { mlWorker } from '../ml-worker';
+import type { ArticleAnnotation } from '../../stores/articleStore';
+import type { KnowledgeItem } from '../../stores/knowledgeStore';
+import type { CompletedSession } from '../../stores/studyStore';
+import { cosineSimilarity } from './search';
+
+export * from './search';
+
+const EMBED_BATCH = 32;
+/** 임베딩할 최대 항목 수 (최근 순) — 워커 추론 시간 제한 */
+const MAX_EMBEDDED = 400;
+
+export const sessionItemId = (sessionId: string) => `study-${sessionId}`;
+
+/** 세션 종류 → 표시 이름 (세션 인사이트 제목) */
+export type SessionTitles = Record<string, string>;
+
+export function collectKnowledgeItems(
+  items: KnowledgeItem[],
+  sessions: CompletedSession[],
+  annotations: Record<string, ArticleAnnotation>,
+  sessionTitles: SessionTitles = {},
+): KnowledgeItem[] {
+  const linkedSessions = new Set(items.map((k) => k.sourceSession?.id).filter(Boolean));
+  const fromStudy: KnowledgeItem[] = sessions
+    .filter((s) => s.data.insight?.trim() && !linkedSessions.has(s.id))
+    .map((s) => ({
+      id: sessionItemId(s.id),
+      type: 'study_insight',
+      title: sessionTitles[s.type] ?? s.type,
+      content: s.data.insight,
+      tags: [],
+      sourceSession: { id: s.id, type: s.type },
+      createdAt: s.completedAt,
+    }));
+
+  // 메모 저장은 article_memo 항목도 만들지만, 항목을 지운 뒤에도 기사 메모는 남음
+  const memoTexts = new Set(items.filter((k) => k.type === 'article_memo').map((k) => k.content.trim()));
+  const fromMemos: KnowledgeItem[] = Object.values(annotations)
+    .filter((a) => a.memo.trim() && !memoTexts.has(a.memo.trim()))
+    .map((a) => ({
+      id: `memo-${a.articleId}`,
+      type: 'article_memo',
+      title: '기사 메모',
+      content: a.memo,
+      tags: [],
+      createdAt: a.createdAt,
+      updatedAt: a.updatedAt,
+    }));
+
+  return [...items, ...fromStudy, ...fromMemos].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
+
+const embeddingText = (item: KnowledgeItem) => `${item.title}\n${item.tags.join(', ')}\n${item.content}`.slice(0, 1000);
+
+// 항목 id → 임베딩 (텍스트가 바뀌면 다시 계산)
+const embeddingCache = new Map<string, { text: string; vector: number[] }>();
+let workerReady: Promise<boolean> | null = null;
+
+async function ensureWorker(): Promise<boolean> {
+  if (mlWorker.isAvailable) return true;
+  workerReady ??= mlWorker.init().catch(() => false);
+  return workerReady;
+}
+
+/** 검색어와 각 항목의 코사인 유사도 — ML 미지원·실패 시 null */
+export async function semanticScores(items: KnowledgeItem[], query: string): Promise<Map<string, number> | null> {
+  if (!query.trim() || items.length === 0 || !(await ensureWorker())) return null;
+
+  try {
+    const targets = items.slice(0, MAX_EMBEDDED);
+    const missing = targets.filter((item) => embeddingCache.get(item.id)?.text !== embeddingText(item));
+    for (let i = 0; i < missing.length; i += EMBED_BATCH) {
+      const batch = missing.slice(i, i + EMBED_BATCH);
+      const vectors = await mlWorker.embedTexts(batch.map(embeddingText));
+      batch.forEach((item, j) => {
+        const vector = vectors[j];
+        if (vector) embeddingCache.set(item.id, { text: embeddingText(item), vector });
+      });
+    }
+
+    const [queryVector] = await mlWorker.embedTexts([query]);
+    if (!queryVector) return null;
+    const scores = new Map<string, number>();
+    for (const item of targets) {
+      const cached = embeddingCache.get(item.id);
+      if (cached) scores.set(item.id, cosineSimilarity(queryVector, cached.vector));
+    }
+    return scores;
+  } catch (error) {
+    console.warn('[Knowledge] Semantic search failed, using keyword search only:', error);
+    return null;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Knowledge Base 검색 색인 — 한국어 토큰화 + BM25, 임베딩 점수 합산, 연결(backlink) 그래프
+ *
+ * 한국어는 띄어쓰기 단위로 조사를 떼고, 붙여 쓴 복합명사("방문요양서비스")도 찾도록 음절 bigram을 함께 색인.
+ * 의미 검색 점수(코사인)는 어휘 점수를 대신하지 않고 섞음 — 임베딩 모델이 한국어에 약해도 어휘 일치가 순위를 지킴.
+ */
+
+import type { KnowledgeItem } from '../../stores/knowledgeStore';
+
+const HANGUL = /[가-힣]/;
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// 긴 것부터 — "에서는"을 "는"보다 먼저
+const JOSA = [
+  '에서는', '으로는', '에게서', '까지는', '이라는', '입니다',
+  '에서', '으로', '에게', '한테', '까지', '부터', '처럼', '보다', '이라', '이다', '라는',
+  '은', '는', '이', '가', '을', '를', '의', '에', '와', '과', '도', '만', '로',
+];
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'of', 'to', 'in', 'on', 'is', 'an', 'a',
+  '그리고', '하지만', '또는', '있다', '없다', '한다', '했다', '하는', '대한', '통해', '위한', '이번', '것',
+]);
+
+function stripJosa(word: string): string {
+  for (const josa of JOSA) {
+    if (word.length - josa.length >= 2 && word.endsWith(josa)) return word.slice(0, -josa.length);
+  }
+  return word;
+}
+
+/** 검색어·문서 공통 토큰화 — 소문자, 조사 제거, 3음절 이상 한글 단어는 bigram 추가 */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const raw of text.toLowerCase().match(WORD) ?? []) {
+    if (!HANGUL.test(raw)) {
+      if (raw.length >= 2 && !STOPWORDS.has(raw)) tokens.push(raw);
+      continue;
+    }
+    const word = stripJosa(raw);
+    if (STOPWORDS.has(word)) continue;
+    if (word.length >= 2) tokens.push(word);
+    if (word.length >= 3) {
+      for (let i = 0; i < word.length - 1; i++) tokens.push(word.slice(i, i + 2));
+    }
+  }
+  return tokens;
+}
+
+export interface SearchIndex {
+  items: KnowledgeItem[];
+  postings: Map<string, Map<number, number>>;
+  lengths: number[];
+  avgLength: number;
+}
+
+// 제목·태그는 본문보다 두 배
+const fieldTokens = (item: KnowledgeItem) => [
+  ...tokenize(item.title), ...tokenize(item.title),
+  ...tokenize(item.tags.join(' ')), ...tokenize(item.tags.join(' ')),
+  ...tokenize(item.content),
+];
+
+export function buildSearchIndex(items: KnowledgeItem[]): SearchIndex {
+  const postings = new Map<string, Map<number, number>>();
+  const lengths = items.map((item, doc) => {
+    const tokens = fieldTokens(item);
+    for (const token of tokens) {
+      let posting = postings.get(token);
+      if (!posting) postings.set(token, (posting = new Map()));
+      posting.set(doc, (posting.get(doc) ?? 0) + 1);
+    }
+    return tokens.length;
+  });
+  const avgLength = lengths.length ? lengths.reduce((sum, n) => sum + n, 0) / lengths.length : 0;
+  return { items, postings, lengths, avgLength };
+}
+
+const K1 = 1.2;
+const B = 0.75;
+
+/** BM25 점수 — 최고점 1로 정규화, 일치가 없는 항목은 빠짐 */
+export function lexicalScores(index: SearchIndex, query: string): Map<string, number> {
+  const scores = new Map<number, number>();
+  const n = index.items.length;
+  for (const token of new Set(tokenize(query))) {
+    const posting = index.postings.get(token);
+    if (!posting) continue;
+    const idf = Math.log(1 + (n - posting.size + 0.5) / (posting.size + 0.5));
+    for (const [doc, tf] of posting) {
+      const norm = tf + K1 * (1 - B + B * (index.lengths[doc]! / (index.avgLength || 1)));
+      scores.set(doc, (scores.get(doc) ?? 0) + idf * ((tf * (K1 + 1)) / norm));
+    }
+  }
+  const max = Math.max(0, ...scores.values());
+  const out = new Map<string, number>();
+  for (const [doc, score] of scores) out.set(index.items[doc]!.id, max > 0 ? score / max : 0);
+  return out;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i]! * b[i]!;
+    na += a[i]! * a[i]!;
+    nb += b[i]! * b[i]!;
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+export interface SearchHit {
+  item: KnowledgeItem;
+  score: number;
+  lexical: number;
+  semantic: number | null;
+}
+
+export const SEMANTIC_WEIGHT = 0.4;
+/** 어휘 일치 없이 의미 점수만으로 결과에 넣는 최소 코사인 */
+export const SEMANTIC_ONLY_MIN = 0.45;
+
+/** 어휘 + (있으면) 의미 점수 합산 순위 */
+export function rankHits(
+  items: KnowledgeItem[],
+  lexical: Map<string, number>,
+  semantic: Map<string, number> | null,
+  limit = Infinity,
+): SearchHit[] {
+  const hits: SearchHit[] = [];
+  for (const item of items) {
+    const lex = lexical.get(item.id) ?? 0;
+    const sem = semantic?.get(item.id) ?? null;
+    if (lex === 0 && (sem === null || sem < SEMANTIC_ONLY_MIN)) continue;
+    const score = sem === null ? lex : (1 - SEMANTIC_WEIGHT) * lex + SEMANTIC_WEIGHT * Math.max(0, sem);
+    hits.push({ item, score, lexical: lex, semantic: sem });
+  }
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+export interface NoteDraft {
+  title: string;
+  content: string;
+  tags: string[];
+}
+
+/** 작성 중인 메모와 관련된 기존 인사이트 — 제목·태그·본문 전체를 검색어로 */
+export function suggestRelated(
+  index: SearchIndex,
+  draft: NoteDraft,
+  { exclude = [], limit = 5, minScore = 0.2, semantic = null }: {
+    exclude?: string[];
+    limit?: number;
+    minScore?: number;
+    semantic?: Map<string, number> | null;
+  } = {},
+): SearchHit[] {
+  const query = [draft.title, draft.tags.join(' '), draft.content].join(' ');
+  if (tokenize(query).length === 0) return [];
+  const skip = new Set(exclude);
+  return rankHits(index.items.filter((item) => !skip.has(item.id)), lexicalScores(index, query), semantic)
+    .filter((hit) => hit.score >= minScore)
+    .slice(0, limit);
+}
+
+export interface LinkGraph {
+  outgoing: Map<string, string[]>;
+  backlinks: Map<string, string[]>;
+}
+
+/** linkedIds(= insights.linked_insight_ids) 그래프 — 사라진 항목으로의 연결은 무시 */
+export function buildLinkGraph(items: KnowledgeItem[]): LinkGraph {
+  const ids = new Set(items.map((item) => item.id));
+  const outgoing = new Map<string, string[]>();
+  const backlinks = new Map<string, string[]>();
+  for (const item of items) {
+    const targets = [...new Set(item.linkedIds ?? [])].filter((id) => id !== item.id && ids.has(id));
+    outgoing.set(item.id, targets);
+    for (const target of targets) backlinks.set(target, [...(backlinks.get(target) ?? []), item.id]);
+  }
+  return { outgoing, backlinks };
+}
+
+/** 방향 무시 이웃 (1촌) */
+export function neighboursOf(graph: LinkGraph, id: string): string[] {
+  return [...new Set([...(graph.outgoing.get(id) ?? []), ...(graph.backlinks.get(id) ?? [])])];
+}
+
+export interface GraphView {
+  centre: string;
+  first: string[];
+  second: string[];
+  edges: Array<[string, string]>;
+}
+
+/** 중심 항목 기준 2촌까지 — 그래프 패널 표시용 */
+export function graphAround(graph: LinkGraph, centre: string, maxSecond = 12): GraphView {
+  const first = neighboursOf(graph, centre);
+  const seen = new Set([centre, ...first]);
+  const second: string[] = [];
+  for (const id of first) {
+    for (const next of neighboursOf(graph, id)) {
+      if (seen.has(next) || second.length >= maxSecond) continue;
+      seen.add(next);
+      second.push(next);
+    }
+  }
+  const edges: Array<[string, string]> = [];
+  for (const from of seen) {
+    for (const to of graph.outgoing.get(from) ?? []) {
+      if (seen.has(to)) edges.push([from, to]);
+    }
+  }
+  return { centre, first, second, edges };
+}
@@ -268,11 +268,11 @@ class MLWorkerManager {
   }
 
   /**
-   * Generate embeddings for texts
+   * Generate embeddings for texts (default model: all-MiniLM)
    */
-  async embedTexts(texts: string[]): Promise<number[][]> {
+  async embedTexts(texts: string[], modelId?: string): Promise<number[][]> {
     if (!this.isReady) throw new Error('ML Worker not ready');
-    return this.request<number[][]>('embed', { texts });
+    return this.request<number[][]>('embed', { texts, ...(modelId && { modelId }) });
   }
 
   /**
@@ -315,9 +315,10 @@ class MLWorkerManager {
    */
   async clusterBySemanticSimilarity(
     items: Array<{ id: string; text: string }>,
-    threshold = ML_THRESHOLDS.semanticClusterThreshold
+    threshold = ML_THRESHOLDS.semanticClusterThreshold,
+    modelId?: string
   ): Promise<string[][]> {
-    const embeddings = await this.embedTexts(items.map(i => i.text));
+    const embeddings = await this.embedTexts(items.map(i => i.text), modelId);
     const clusterIndices = await this.semanticCluster(embeddings, threshold);
     return clusterIndices.map(cluster =>
       cluster.map(idx => items[idx]?.id).filter((id): id is string => id !== undefined)
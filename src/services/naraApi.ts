@@ -1,106 +1,57 @@
 /**
- * 나라장터 조달 API — 공공조달 입찰 공고 직접 조회
+ * 나라장터 조달 API — 공공조달 입찰 공고·낙찰 결과 조회
  * https://www.g2b.go.kr/
  *
- * VITE_G2B_API_KEY 환경변수 필요
+ * data.go.kr 인증키는 서버(/api/g2b 프록시, G2B_API_KEY)에만 두고 클라이언트는 정규화된 결과만 받음
+ * 낙찰 결과 조회는 서버 조달 추적 작업(server/_shared/g2b)에서만 수행
  */
 
-const G2B_API_KEY = import.meta.env.VITE_G2B_API_KEY || '';
-const G2B_BASE = 'https://apis.data.go.kr/1230000/BidPublicInfoService04';
+export type NaraBidKind = 'service' | 'goods';
 
 export interface NaraProcurement {
-  bidNtceNo: string;       // 입찰공고번호
-  bidNtceNm: string;       // 입찰공고명
-  ntceInsttNm: string;     // 공고기관명
-  dminsttNm: string;       // 수요기관명
-  presmptPrce: number;     // 추정가격
-  bidNtceDt: string;       // 입찰공고일시
-  bidClseDt: string;       // 입찰마감일시
-  link: string;            // 나라장터 링크
-  rgstDt: string;          // 등록일시
+  id: string;               // 입찰공고번호-차수
+  bidNtceNo: string;        // 입찰공고번호
+  bidNtceOrd: string;       // 입찰공고차수 (재공고 시 증가, 최신 차수만 반환)
+  kind: NaraBidKind;        // 용역 / 물품
+  title: string;            // 입찰공고명
+  agency: string;           // 공고기관명
+  demandAgency: string;     // 수요기관명
+  estimatedPrice: number;   // 추정가격 (없으면 배정예산)
+  announcedAt: string;      // 입찰공고일시 (ISO)
+  deadline: string;         // 입찰마감일시 (ISO, 없으면 '')
+  openingAt: string;        // 개찰일시 (ISO)
+  cancelled: boolean;       // 취소공고 여부
+  url: string;              // 나라장터 공고 링크
 }
 
-// AI/돌봄 관련 검색 키워드
-const SEARCH_KEYWORDS = [
-  '인공지능',
-  'AI',
-  '돌봄',
-  '장애인',
-  '행동분석',
-  '정신건강',
-  '디지털치료',
-  '원격의료',
-  '케어',
-  '복지',
-];
+export interface NaraAward {
+  bidNtceNo: string;
+  bidNtceOrd: string;
+  awardedTo: string;        // 낙찰업체명
+  awardedPrice: number;     // 낙찰금액
+  awardRate: number;        // 낙찰률 (%)
+  openedAt: string;         // 실개찰일시 (ISO)
+}
 
-export function isNaraConfigured(): boolean {
-  return !!G2B_API_KEY;
+export interface NaraBidsResult {
+  /** 서버에 G2B_API_KEY가 설정돼 있는지 — false면 뉴스 기반 항목만 사용 */
+  configured: boolean;
+  bids: NaraProcurement[];
 }
 
+const G2B_PROXY = '/api/g2b';
+
 /**
- * 키워드별 입찰 공고 조회
+ * AI/돌봄 관련 입찰 공고 일괄 조회 (최근 days일, 용역+물품)
  */
-async function searchBids(keyword: string): Promise<NaraProcurement[]> {
-  if (!isNaraConfigured()) return [];
-
+export async function fetchNaraProcurements(days = 30): Promise<NaraBidsResult> {
   try {
-    const url = `${G2B_BASE}/getBidPblancListInfoThngPPSSrch?serviceKey=${G2B_API_KEY}&numOfRows=10&pageNo=1&inqryDiv=1&inqryBgnDt=${getDateStr(-30)}&inqryEndDt=${getDateStr(0)}&bidNtceNm=${encodeURIComponent(keyword)}&type=json`;
-
-    const res = await fetch(url, { signal: AbortSignal.timeout(15000) });
-    if (!res.ok) return [];
-
+    const res = await fetch(`${G2B_PROXY}/bids?days=${days}`, { signal: AbortSignal.timeout(30000) });
+    if (!res.ok) return { configured: true, bids: [] };
     const data = await res.json();
-    const items = data?.response?.body?.items ?? [];
-    if (!Array.isArray(items)) return [];
-
-    return items.map((item: Record<string, unknown>) => ({
-      bidNtceNo: String(item.bidNtceNo || ''),
-      bidNtceNm: String(item.bidNtceNm || ''),
-      ntceInsttNm: String(item.ntceInsttNm || ''),
-      dminsttNm: String(item.dminsttNm || ''),
-      presmptPrce: Number(item.presmptPrce || 0),
-      bidNtceDt: String(item.bidNtceDt || ''),
-      bidClseDt: String(item.bidClseDt || ''),
-      link: `https://www.g2b.go.kr/pt/menu/selectSubFrame.do?framesrc=/pt/menu/frameTgong.do?bidNtceNo=${item.bidNtceNo}`,
-      rgstDt: String(item.rgstDt || ''),
-    }));
+    return { configured: data.configured !== false, bids: Array.isArray(data.bids) ? data.bids : [] };
   } catch (e) {
-    console.warn(`[나라장터] Search failed for "${keyword}":`, e);
-    return [];
+    console.warn('[나라장터] Bid fetch failed:', e);
+    return { configured: true, bids: [] };
   }
 }
-
-function getDateStr(offsetDays: number): string {
-  const d = new Date();
-  d.setDate(d.getDate() + offsetDays);
-  return d.toISOString().slice(0, 10).replace(/-/g, '');
-}
-
-/**
- * AI/돌봄 관련 입찰 공고 일괄 조회
- */
-export async function fetchNaraProcurements(): Promise<NaraProcurement[]> {
-  if (!isNaraConfigured()) return [];
-
-  const results = await Promise.allSettled(
-    SEARCH_KEYWORDS.map(kw => searchBids(kw))
-  );
-
-  const all: NaraProcurement[] = [];
-  const seen = new Set<string>();
-
-  for (const r of results) {
-    if (r.status === 'fulfilled') {
-      for (const item of r.value) {
-        if (!seen.has(item.bidNtceNo)) {
-          seen.add(item.bidNtceNo);
-          all.push(item);
-        }
-      }
-    }
-  }
-
-  // Sort by registration date descending
-  return all.sort((a, b) => b.bidNtceDt.localeCompare(a.bidNtceDt));
-}
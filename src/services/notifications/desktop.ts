@@ -0,0 +1,25 @@
+/**
+ * 데스크톱 알림 채널 — Tauri 앱의 show_desktop_notification 명령으로 OS 기본 알림을 띄움
+ * 브라우저에는 Tauri 브리지가 없으므로 채널을 만들지 않습니다.
+ */
+
+import { hasTauriInvokeBridge, invokeTauri } from '../tauri-bridge';
+import { renderDesktop } from './templates';
+import { NOTIFICATION_EVENT_TYPES, type NotificationChannel } from './types';
+
+export function isDesktopNotificationAvailable(): boolean {
+  return hasTauriInvokeBridge();
+}
+
+export function createDesktopChannel(): NotificationChannel | null {
+  if (!isDesktopNotificationAvailable()) return null;
+  return {
+    kind: 'desktop',
+    name: 'desktop',
+    events: [...NOTIFICATION_EVENT_TYPES],
+    send: async (event) => {
+      const { title, body } = renderDesktop(event);
+      await invokeTauri<void>('show_desktop_notification', { title, body });
+    },
+  };
+}
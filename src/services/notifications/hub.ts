@@ -0,0 +1,106 @@
+/**
+ * 알림 허브 — 이벤트를 구독 채널 전부에 병렬로 보내고, 채널별로 지수 백오프 재시도 후 전송 기록을 남김
+ *
+ * 채널 구성과 기록 저장소는 실행 환경이 주입합니다: 서버는 환경 변수 + Redis
+ * (server/notifications), 브라우저·데스크톱 앱은 Tauri 브리지 + localStorage (./index.ts).
+ */
+
+import type {
+  DeliveryLogEntry,
+  NotificationChannel,
+  NotificationChannelKind,
+  NotificationEvent,
+  NotificationEventType,
+  RetryPolicy,
+} from './types';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { attempts: 3, baseDelayMs: 1000, maxDelayMs: 30_000 };
+
+/** n번째 시도가 실패한 뒤 기다릴 시간 — base, 2×base, 4×base … (maxDelayMs 상한) */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+}
+
+export interface DispatchOptions {
+  /** 이 종류의 채널에만 보냄 */
+  only?: NotificationChannelKind[];
+  /** 이 종류의 채널은 제외 (예: 채팅별로 따로 보내는 텔레그램) */
+  exclude?: NotificationChannelKind[];
+}
+
+export interface NotificationHubOptions {
+  channels: NotificationChannel[];
+  retry?: Partial<RetryPolicy>;
+  /** 전송 기록 저장 — 저장 실패는 전송 결과에 영향을 주지 않음 */
+  onDelivery?: (entry: DeliveryLogEntry) => void | Promise<void>;
+  /** 테스트에서 백오프 대기를 건너뛸 때 교체 */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface NotificationHub {
+  channels: NotificationChannel[];
+  /** 이벤트를 받을 채널 — 비어 있으면 dispatch는 아무것도 보내지 않음 */
+  channelsFor: (type: NotificationEventType, options?: DispatchOptions) => NotificationChannel[];
+  /** 채널별 최종 결과 (재시도 포함) — 채널 하나의 실패가 다른 채널을 막지 않음 */
+  dispatch: (event: NotificationEvent, options?: DispatchOptions) => Promise<DeliveryLogEntry[]>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** 전송 결과 중 하나라도 성공했는지 — 모두 실패면 마지막 오류들을 합쳐 throw */
+export function assertDelivered(entries: DeliveryLogEntry[]): void {
+  if (entries.length > 0 && entries.every((e) => e.status === 'failed')) {
+    throw new Error(entries.map((e) => `${e.channel}: ${e.error}`).join('; '));
+  }
+}
+
+export function createNotificationHub(options: NotificationHubOptions): NotificationHub {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const sleep = options.sleep ?? defaultSleep;
+
+  const channelsFor = (type: NotificationEventType, filter: DispatchOptions = {}) =>
+    options.channels.filter((c) =>
+      c.events.includes(type)
+      && (!filter.only || filter.only.includes(c.kind))
+      && !filter.exclude?.includes(c.kind));
+
+  async function deliver(channel: NotificationChannel, event: NotificationEvent): Promise<DeliveryLogEntry> {
+    let attempts = 0;
+    let error = '';
+    while (attempts < policy.attempts) {
+      attempts++;
+      try {
+        await channel.send(event);
+        error = '';
+        break;
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+        if (attempts < policy.attempts) await sleep(backoffDelay(attempts, policy));
+      }
+    }
+
+    const createdAt = Date.now();
+    const entry: DeliveryLogEntry = {
+      id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      channel: channel.name,
+      kind: channel.kind,
+      eventType: event.type,
+      status: error ? 'failed' : 'sent',
+      attempts,
+      error,
+      createdAt,
+    };
+    try {
+      await options.onDelivery?.(entry);
+    } catch (e) {
+      console.warn('[notifications] Failed to record delivery:', e);
+    }
+    return entry;
+  }
+
+  return {
+    channels: options.channels,
+    channelsFor,
+    dispatch: (event, filter) => Promise.all(channelsFor(event.type, filter).map((c) => deliver(c, event))),
+  };
+}
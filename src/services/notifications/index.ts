@@ -0,0 +1,46 @@
+/**
+ * 브라우저·데스크톱 앱의 알림 허브
+ *
+ * 이 기기에서만 의미 있는 채널 — 데스크톱 알림(Tauri) — 으로 보냅니다.
+ * 조달·경쟁사 알림과 Slack·메일·웹훅·텔레그램 알림은 서버 스케줄러가 같은 템플릿으로 보내고
+ * (server/notifications), 그 전송 기록은 care.v1 list-notification-deliveries로 조회합니다.
+ * 이 기기의 전송 기록은 localStorage에 최근 LOG_MAX건만 남깁니다.
+ */
+
+import { storage } from '../../utils/storage';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useStudyStore } from '../../stores/studyStore';
+import { weeklyCounts } from '../study/weeklyReview';
+import { createDesktopChannel } from './desktop';
+import { createNotificationHub, type DispatchOptions } from './hub';
+import type { DeliveryLogEntry, NotificationChannel, NotificationEvent } from './types';
+
+export { isDesktopNotificationAvailable } from './desktop';
+
+const LOG_KEY = 'careradar_notification_log';
+const LOG_MAX = 100;
+
+function enabledChannels(): NotificationChannel[] {
+  const channel = useSettingsStore.getState().desktopNotifications ? createDesktopChannel() : null;
+  return channel ? [channel] : [];
+}
+
+/** 이 기기의 전송 기록, 최신순 */
+export function getDeliveryLog(): DeliveryLogEntry[] {
+  return storage.get<DeliveryLogEntry[]>(LOG_KEY, []);
+}
+
+function recordDelivery(entry: DeliveryLogEntry): void {
+  storage.set(LOG_KEY, [entry, ...getDeliveryLog()].slice(0, LOG_MAX));
+}
+
+/** 호출마다 채널을 구성 — Settings 토글이 바로 반영되도록 */
+export function notify(event: NotificationEvent, options?: DispatchOptions): Promise<DeliveryLogEntry[]> {
+  return createNotificationHub({ channels: enabledChannels(), onDelivery: recordDelivery }).dispatch(event, options);
+}
+
+/** 주간 리포트 — 완료 일수·재무·SROI 건수는 호출자가 아니라 이 기기의 완료 세션에서 셈 */
+export function notifyWeeklyReport(summary?: string, now: Date = new Date()): Promise<DeliveryLogEntry[]> {
+  const counts = weeklyCounts(useStudyStore.getState().completedSessions, now);
+  return notify({ type: 'weekly_report', payload: { ...counts, summary } });
+}
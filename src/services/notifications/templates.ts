@@ -0,0 +1,161 @@
+/**
+ * 채널별 알림 템플릿 — 같은 이벤트 페이로드를 채널 문법에 맞춰 렌더링
+ *
+ * 텔레그램은 기존 TELEGRAM_TEMPLATES(HTML)를 그대로 쓰고, 나머지 채널은 채널 중립 요약
+ * (제목 + 줄 목록 + 대표 링크)을 각자 Slack mrkdwn·메일 본문·데스크톱 토스트·웹훅 JSON으로 바꿉니다.
+ */
+
+import { TELEGRAM_TEMPLATES } from '../telegramTemplates';
+import type {
+  DesktopMessage,
+  EmailMessage,
+  NotificationEvent,
+  NotificationLine,
+  SlackMessage,
+  WebhookBody,
+} from './types';
+
+export interface NotificationSummary {
+  title: string;
+  lines: NotificationLine[];
+  /** 대표 링크 — 없으면 빈 문자열 */
+  url: string;
+}
+
+const NEWS_PER_TRACK = 3;
+const DESKTOP_BODY_LINES = 3;
+const EMAIL_SUBJECT_PREFIX = '[CareRadar]';
+
+const TRACK_LABELS = { policy: '정책/예산', investment: '자금유입', competitor: '경쟁사' } as const;
+
+function formatBudget(budget: number): string {
+  return budget > 0 ? `${(budget / 100000000).toFixed(1)}억원` : '—';
+}
+
+/** 채널 중립 요약 — Slack·메일·데스크톱·웹훅 템플릿의 공통 재료 */
+export function summarizeNotification(event: NotificationEvent): NotificationSummary {
+  switch (event.type) {
+    case 'opportunity': {
+      const p = event.payload;
+      const news = (Object.keys(TRACK_LABELS) as Array<keyof typeof TRACK_LABELS>).flatMap((track) =>
+        p.newsByTrack[track].slice(0, NEWS_PER_TRACK).map((n) => ({ text: `[${TRACK_LABELS[track]}] ${n.title}`, url: n.link })),
+      );
+      return {
+        title: `🎯 Opportunity Alert — Total ${p.total}${p.shouldAlert ? ' (ACT NOW)' : ''}`,
+        lines: [{ text: `S1 정책/예산 ${p.s1} · S2 자금유입 ${p.s2} · S3 경쟁사 ${p.s3}` }, ...news],
+        url: '',
+      };
+    }
+
+    case 'procurement': {
+      const p = event.payload;
+      return {
+        title: `🏛️ 조달 공고 (${p.fitness_score.toUpperCase()})`,
+        lines: [
+          { text: p.title, url: p.source_url || undefined },
+          { text: `💰 ${formatBudget(p.budget)} · 📅 ${p.deadline || '—'}` },
+          { text: `🏢 ${p.agency}` },
+          ...(p.matched_keywords.length > 0 ? [{ text: `키워드: ${p.matched_keywords.join(', ')}` }] : []),
+        ],
+        url: p.source_url,
+      };
+    }
+
+    case 'competitor':
+      return {
+        title: '👀 경쟁사 동향',
+        lines: [{ text: event.payload.title, url: event.payload.url || undefined }, { text: event.payload.summary }],
+        url: event.payload.url,
+      };
+
+    case 'daily_brief':
+      return {
+        title: '☀️ Daily Brief — 오늘의 학습',
+        lines: [
+          ...event.payload.items.map((item, i) => ({ text: `${i + 1}. ${item}` })),
+          ...(event.payload.pending.length > 0 ? [{ text: `⚠️ 어제 미완료: ${event.payload.pending.join(', ')}` }] : []),
+        ],
+        url: '',
+      };
+
+    case 'streak_warning':
+      return {
+        title: '⏰ 오늘 학습 아직 미완료',
+        lines: [{ text: `🔥 현재 ${event.payload.streak}일 연속 중. 10분만 투자하세요.` }],
+        url: '',
+      };
+
+    case 'weekly_report': {
+      const p = event.payload;
+      return {
+        title: '📊 주간 리포트',
+        lines: [
+          { text: `완료율: ${p.studiedDays}/5일` },
+          { text: `📝 재무메모 ${p.financialMemos}건 | 📈 SROI ${p.sroiCount}건` },
+          ...(p.summary ? [{ text: p.summary }] : []),
+        ],
+        url: '',
+      };
+    }
+  }
+}
+
+export function renderTelegram(event: NotificationEvent): string {
+  switch (event.type) {
+    case 'opportunity': return TELEGRAM_TEMPLATES.opportunity(event.payload);
+    case 'procurement': return TELEGRAM_TEMPLATES.procurement(event.payload);
+    case 'competitor': return TELEGRAM_TEMPLATES.competitor(event.payload.title, event.payload.summary, event.payload.url);
+    case 'daily_brief': return TELEGRAM_TEMPLATES.daily_brief(event.payload.items, event.payload.pending);
+    case 'streak_warning': return TELEGRAM_TEMPLATES.streak_warning(event.payload.streak);
+    case 'weekly_report': {
+      const p = event.payload;
+      return TELEGRAM_TEMPLATES.weekly_report(p.studiedDays, p.financialMemos, p.sroiCount, p.summary);
+    }
+  }
+}
+
+/** Slack mrkdwn은 &, <, > 만 이스케이프 */
+function escapeMrkdwn(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeHtml(s: string): string {
+  return escapeMrkdwn(s).replace(/"/g, '&quot;');
+}
+
+export function renderSlack(event: NotificationEvent): SlackMessage {
+  const { title, lines } = summarizeNotification(event);
+  const body = lines
+    .map((l) => (l.url ? `• <${l.url}|${escapeMrkdwn(l.text)}>` : escapeMrkdwn(l.text)))
+    .join('\n');
+  return {
+    text: title,
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: `*${escapeMrkdwn(title)}*` } },
+      ...(body ? [{ type: 'section', text: { type: 'mrkdwn', text: body } }] : []),
+    ],
+  };
+}
+
+export function renderEmail(event: NotificationEvent): EmailMessage {
+  const { title, lines, url } = summarizeNotification(event);
+  const text = [title, '', ...lines.map((l) => (l.url ? `${l.text}\n  ${l.url}` : l.text)), ...(url ? ['', url] : [])].join('\n');
+  const items = lines
+    .map((l) => `<li>${l.url ? `<a href="${escapeHtml(l.url)}">${escapeHtml(l.text)}</a>` : escapeHtml(l.text)}</li>`)
+    .join('');
+  return {
+    subject: `${EMAIL_SUBJECT_PREFIX} ${title}`,
+    text,
+    html: `<h2 style="font-size:16px">${escapeHtml(title)}</h2><ul style="padding-left:18px">${items}</ul>`,
+  };
+}
+
+export function renderDesktop(event: NotificationEvent): DesktopMessage {
+  const { title, lines } = summarizeNotification(event);
+  return { title, body: lines.slice(0, DESKTOP_BODY_LINES).map((l) => l.text).join('\n') };
+}
+
+export function renderWebhook(event: NotificationEvent, sentAt = new Date()): WebhookBody {
+  const { title, lines, url } = summarizeNotification(event);
+  return { event: event.type, sentAt: sentAt.toISOString(), title, lines, url, payload: event.payload };
+}
@@ -0,0 +1,117 @@
+/**
+ * 알림 허브 공용 타입 — 이벤트(페이로드), 채널, 전송 기록
+ *
+ * 이벤트 하나를 채널마다 자기 템플릿(templates.ts)으로 렌더링해 보냅니다.
+ * 서버(server/notifications)와 브라우저·데스크톱(services/notifications/index.ts)이 함께 사용하므로
+ * 브라우저·Node 의존성을 두지 않습니다.
+ */
+
+import type { ProcurementListing } from '../g2bCrawler';
+import type { OpportunityAlertPayload } from '../telegramTemplates';
+
+export type NotificationChannelKind = 'telegram' | 'slack' | 'email' | 'webhook' | 'desktop';
+
+export const NOTIFICATION_CHANNEL_KINDS: NotificationChannelKind[] = ['telegram', 'slack', 'email', 'webhook', 'desktop'];
+
+export interface CompetitorNotice {
+  title: string;
+  summary: string;
+  url: string;
+}
+
+export interface DailyBriefNotice {
+  /** 오늘의 학습 항목 (예: "재무제표 읽기 (15분)") */
+  items: string[];
+  /** 직전 평일 미완료 항목 */
+  pending: string[];
+}
+
+export interface WeeklyReportNotice {
+  studiedDays: number;
+  financialMemos: number;
+  sroiCount: number;
+  summary?: string;
+}
+
+export type NotificationEvent =
+  | { type: 'opportunity'; payload: OpportunityAlertPayload }
+  | { type: 'procurement'; payload: ProcurementListing }
+  | { type: 'competitor'; payload: CompetitorNotice }
+  | { type: 'daily_brief'; payload: DailyBriefNotice }
+  | { type: 'streak_warning'; payload: { streak: number } }
+  | { type: 'weekly_report'; payload: WeeklyReportNotice };
+
+export type NotificationEventType = NotificationEvent['type'];
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = [
+  'opportunity', 'procurement', 'competitor', 'daily_brief', 'streak_warning', 'weekly_report',
+];
+
+/** 팀 채널(Slack·메일·웹훅) 기본 구독 — 학습 루틴 알림은 개인 채널(텔레그램·데스크톱)로만 */
+export const TEAM_EVENT_TYPES: NotificationEventType[] = ['opportunity', 'procurement', 'competitor'];
+
+export interface NotificationChannel {
+  kind: NotificationChannelKind;
+  /** 전송 기록에 남는 이름 (예: "slack", "email:ops@…") */
+  name: string;
+  /** 이 채널이 받는 이벤트 */
+  events: NotificationEventType[];
+  /** 렌더링 + 전송 — 실패하면 throw (허브가 재시도) */
+  send: (event: NotificationEvent) => Promise<void>;
+}
+
+export interface RetryPolicy {
+  /** 첫 시도 포함 최대 시도 횟수 */
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface DeliveryLogEntry {
+  id: string;
+  channel: string;
+  kind: NotificationChannelKind;
+  eventType: NotificationEventType;
+  status: 'sent' | 'failed';
+  attempts: number;
+  /** 마지막 실패 메시지 — 성공이면 빈 문자열 */
+  error: string;
+  /** 전송 완료·포기 시각 (Unix ms) */
+  createdAt: number;
+}
+
+// ========================================================================
+// 채널별 렌더링 결과
+// ========================================================================
+
+/** 채널 중립 요약의 한 줄 — 링크가 있으면 채널 문법(HTML·mrkdwn)으로 감쌈 */
+export interface NotificationLine {
+  text: string;
+  url?: string;
+}
+
+export interface SlackMessage {
+  /** 알림 미리보기·폴백 텍스트 */
+  text: string;
+  blocks: Array<Record<string, unknown>>;
+}
+
+export interface EmailMessage {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface DesktopMessage {
+  title: string;
+  body: string;
+}
+
+export interface WebhookBody {
+  event: NotificationEventType;
+  sentAt: string;
+  title: string;
+  lines: NotificationLine[];
+  url: string;
+  payload: NotificationEvent['payload'];
+}
@@ -45,6 +45,7 @@ import {
   PopulationExposurePanel,
   InvestmentsPanel,
   MarketPulsePanel,
+  BOSPanel,
   OpportunityRadarPanel,
   FinancialGymPanel,
   DailyBriefPanel,
@@ -272,6 +273,7 @@ export class PanelManager {
     // Care Variant Panels
     if (SITE_VARIANT === 'care') {
       this._panels['marketPulse'] = new MarketPulsePanel();
+      this._panels['bos'] = new BOSPanel();
       this._panels['opportunityRadar'] = new OpportunityRadarPanel();
       this._panels['financialGym'] = new FinancialGymPanel();
       this._panels['dailyBrief'] = new DailyBriefPanel();
@@ -0,0 +1,302 @@
+/**
+ * 정책 캘린더 — 예산 사이클(config/policy-calendar.ts), AI 법령 공포·시행일(config/ai-regulations.ts),
+ * 복지정책 피드 보도자료에서 뽑은 일정을 하나의 타임라인으로
+ *
+ * care.v1 서버가 수집 스냅샷마다 한 번 만들어 S1(정책/예산) 점수에 반영하고,
+ * 대시보드는 같은 목록을 보여 주고 iCal(.ics)로 내보냄. 날짜는 모두 KST 기준 YYYY-MM-DD.
+ */
+
+import type { AIRegulation } from '@/types';
+import type { RssItem } from './rssFeed';
+import { FISCAL_MILESTONES, type FiscalMilestone } from '../config/policy-calendar';
+import { AI_REGULATIONS } from '../config/ai-regulations';
+
+export type PolicyEventKind = 'fiscal' | 'law' | 'press';
+
+export const POLICY_EVENT_KIND_LABELS: Record<PolicyEventKind, string> = {
+  fiscal: '예산 사이클',
+  law: '법령',
+  press: '보도자료',
+};
+
+export interface PolicyEvent {
+  id: string;
+  kind: PolicyEventKind;
+  title: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** YYYY-MM-DD — 기간 일정의 마지막 날, 하루 일정이면 '' */
+  endDate: string;
+  agency: string;
+  description: string;
+  link: string;
+  /** 관행상 기간 — 정확한 날짜는 해마다 달라짐 */
+  approximate: boolean;
+  /** S1 반영 관련도 (0~100) */
+  relevance: number;
+}
+
+export const POLICY_CALENDAR_SOURCE = '정책 캘린더';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+/** 막 끝난 심사·공고도 돌아볼 수 있게 지난 일정을 남겨 두는 기간 */
+const PAST_DAYS = 30;
+const AHEAD_DAYS = 365;
+/** 진행 중이거나 이 기간 안에 시작하는 일정만 S1에 반영 */
+export const SCORE_LEAD_DAYS = 45;
+
+/** 국내 법령은 B2G 사업 요건에 바로 걸리므로 해외 법령보다 높게 */
+const DOMESTIC_LAW_RELEVANCE = 75;
+const FOREIGN_LAW_RELEVANCE = 40;
+const DOMESTIC_COUNTRY = 'South Korea';
+
+const LAW_DATES: { field: 'promulgatedDate' | 'effectiveDate' | 'complianceDeadline'; label: string }[] = [
+  { field: 'promulgatedDate', label: '공포' },
+  { field: 'effectiveDate', label: '시행' },
+  { field: 'complianceDeadline', label: '의무 준수 기한' },
+];
+
+/** 보도자료 일정 후보 — 제목에 이런 말이 없으면 일반 기사로 봄 */
+const PRESS_RULES: { pattern: RegExp; relevance: number }[] = [
+  { pattern: /예산|추경|증액|기금/, relevance: 80 },
+  { pattern: /공모|입찰|사업\s*설명회|참여기관\s*모집/, relevance: 75 },
+  { pattern: /시행|고시|입법예고|시행령|시행규칙|개정/, relevance: 65 },
+  { pattern: /보도자료|설명회|공청회|간담회|의결|심사|consultation|guideline/i, relevance: 50 },
+];
+
+const MONTH_DAY = /(\d{1,2})월\s*(\d{1,2})일/;
+
+/** ms → KST 날짜 */
+export function kstDate(ms: number): string {
+  return new Date(ms + KST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+const dayIndex = (date: string): number => Math.round(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+const shiftDate = (date: string, days: number): string => new Date((dayIndex(date) + days) * DAY_MS).toISOString().slice(0, 10);
+const lastDay = (event: PolicyEvent): string => event.endDate || event.date;
+
+/** 2월 30일처럼 없는 날짜는 Date가 다음 달로 넘기므로 되돌려 비교 */
+function isCalendarDate(date: string): boolean {
+  const ms = Date.parse(`${date}T00:00:00Z`);
+  return !Number.isNaN(ms) && new Date(ms).toISOString().slice(0, 10) === date;
+}
+
+/** 오늘(KST)부터 일정 시작까지 남은 일수 — 이미 시작했으면 0 이하 */
+export function daysUntil(event: PolicyEvent, now = Date.now()): number {
+  return dayIndex(event.date) - dayIndex(kstDate(now));
+}
+
+export function isOngoing(event: PolicyEvent, now = Date.now()): boolean {
+  const today = kstDate(now);
+  return event.date <= today && today <= lastDay(event);
+}
+
+/** 예산 사이클을 연도별 일정으로 펼침 */
+export function fiscalEvents(years: number[], milestones: FiscalMilestone[] = FISCAL_MILESTONES): PolicyEvent[] {
+  return years.flatMap((year) =>
+    milestones.map((m) => ({
+      id: `fiscal-${m.id}-${year}`,
+      kind: 'fiscal' as const,
+      title: m.title,
+      date: `${year}-${m.start}`,
+      endDate: m.end ? `${year}-${m.end}` : '',
+      agency: m.agency,
+      description: m.description,
+      link: '',
+      approximate: m.approximate ?? false,
+      relevance: m.relevance,
+    })),
+  );
+}
+
+/** 법령의 공포·시행·준수 기한 — 같은 날짜가 겹치면 앞 단계 하나만 */
+export function lawEvents(regulations: AIRegulation[] = AI_REGULATIONS): PolicyEvent[] {
+  return regulations.flatMap((reg) => {
+    const seen = new Set<string>();
+    return LAW_DATES.flatMap(({ field, label }): PolicyEvent[] => {
+      const date = reg[field];
+      if (!date || seen.has(date)) return [];
+      seen.add(date);
+      return [{
+        id: `law-${reg.id}-${field}`,
+        kind: 'law',
+        title: `${reg.shortName} ${label}`,
+        date,
+        endDate: '',
+        agency: reg.country,
+        description: reg.description ?? reg.name,
+        link: reg.link ?? '',
+        approximate: false,
+        relevance: reg.country === DOMESTIC_COUNTRY ? DOMESTIC_LAW_RELEVANCE : FOREIGN_LAW_RELEVANCE,
+      }];
+    });
+  });
+}
+
+/**
+ * 제목·본문의 "N월 N일"을 보도 시점에 가장 가까운 연도로 — 12월 기사의 "1월 5일"은 다음 해
+ */
+function mentionedDate(text: string, published: string): string | null {
+  const match = MONTH_DAY.exec(text);
+  if (!match) return null;
+  const month = Number(match[1]);
+  const day = Number(match[2]);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const year = Number(published.slice(0, 4));
+  const candidates = [year - 1, year, year + 1].map((y) => `${y}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`);
+  const valid = candidates.filter(isCalendarDate);
+  if (valid.length === 0) return null;
+  return valid.reduce((best, d) => (Math.abs(dayIndex(d) - dayIndex(published)) < Math.abs(dayIndex(best) - dayIndex(published)) ? d : best));
+}
+
+/**
+ * 복지정책 피드 기사 → 보도자료 일정
+ * 본문에 날짜가 있으면(시행일·설명회 등) 그 날짜, 없으면 보도일
+ */
+export function detectPressEvents(items: RssItem[]): PolicyEvent[] {
+  const events = new Map<string, PolicyEvent>();
+  for (const item of items) {
+    const rule = PRESS_RULES.find((r) => r.pattern.test(item.title));
+    const publishedMs = new Date(item.pubDate).getTime();
+    if (!rule || Number.isNaN(publishedMs)) continue;
+
+    const published = kstDate(publishedMs);
+    const id = `press-${item.link || item.id}`;
+    if (events.has(id)) continue;
+    events.set(id, {
+      id,
+      kind: 'press',
+      title: item.title,
+      date: mentionedDate(item.title, published) ?? mentionedDate(item.description, published) ?? published,
+      endDate: '',
+      agency: item.source,
+      description: item.description,
+      link: item.link,
+      approximate: false,
+      relevance: rule.relevance,
+    });
+  }
+  return [...events.values()];
+}
+
+/**
+ * 예산 사이클·법령·보도자료 일정을 합쳐 지난 30일 ~ 앞으로 1년 범위로, 날짜순
+ */
+export function buildPolicyCalendar(press: PolicyEvent[], now = Date.now()): PolicyEvent[] {
+  const today = kstDate(now);
+  const year = Number(today.slice(0, 4));
+  const from = shiftDate(today, -PAST_DAYS);
+  const to = shiftDate(today, AHEAD_DAYS);
+
+  const byId = new Map<string, PolicyEvent>();
+  for (const event of [...fiscalEvents([year - 1, year, year + 1]), ...lawEvents(), ...press]) {
+    if (lastDay(event) < from || event.date > to || byId.has(event.id)) continue;
+    byId.set(event.id, event);
+  }
+  return [...byId.values()].sort((a, b) => a.date.localeCompare(b.date) || lastDay(a).localeCompare(lastDay(b)) || a.title.localeCompare(b.title));
+}
+
+/** S1 반영 대상 — 진행 중이거나 SCORE_LEAD_DAYS 안에 시작하는 일정 */
+export function countsTowardS1(event: PolicyEvent, now = Date.now()): boolean {
+  const days = daysUntil(event, now);
+  if (event.kind === 'press') return days > 0 && days <= SCORE_LEAD_DAYS;
+  return isOngoing(event, now) || (days > 0 && days <= SCORE_LEAD_DAYS);
+}
+
+/**
+ * 일정 → 정책 트랙 점수 항목 (calculateOpportunityScore 입력)
+ * 진행 중인 일정은 관련도 그대로, 다가오는 일정은 멀수록 최대 절반까지 낮춤.
+ * 지난 보도자료는 이미 정책 트랙 기사로 집계되므로 앞으로 있을 날짜(시행일·설명회)만 넣음.
+ */
+export function policyCalendarScoreItems(events: PolicyEvent[], now = Date.now()): RssItem[] {
+  const pubDate = new Date(now).toISOString();
+  return events.flatMap((event): RssItem[] => {
+    if (!countsTowardS1(event, now)) return [];
+    const days = daysUntil(event, now);
+    const ongoing = isOngoing(event, now);
+    const proximity = ongoing ? 1 : 1 - 0.5 * (days / SCORE_LEAD_DAYS);
+    return [{
+      id: `calendar-${event.id}`,
+      title: event.title,
+      link: event.link,
+      source: POLICY_CALENDAR_SOURCE,
+      pubDate,
+      timeAgo: '',
+      description: ongoing ? `${POLICY_EVENT_KIND_LABELS[event.kind]} 진행 중` : `${POLICY_EVENT_KIND_LABELS[event.kind]} D-${days}`,
+      track: 'policy',
+      relevance_score: Math.round(event.relevance * proximity),
+    }];
+  });
+}
+
+// ========================================================================
+// iCal (RFC 5545)
+// ========================================================================
+
+const ICAL_LINE_OCTETS = 75;
+const encoder = new TextEncoder();
+
+function icalText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** 75바이트 초과 줄은 공백으로 시작하는 다음 줄로 접음 — 한글(3바이트)이 잘리지 않게 코드포인트 단위로 */
+function foldLine(line: string): string[] {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = lines.length === 0 ? ICAL_LINE_OCTETS : ICAL_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(lines.length === 0 ? current : ` ${current}`);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(lines.length === 0 ? current : ` ${current}`);
+  return lines;
+}
+
+const icalDate = (date: string): string => date.replace(/-/g, '');
+
+/**
+ * 일정 → iCalendar — 종일 일정(DTEND는 마지막 날 다음 날), 관행상 기간은 제목에 "(예정)"
+ */
+export function toICalendar(events: PolicyEvent[], now = Date.now()): string {
+  const stamp = new Date(now).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CareRadar//Policy Calendar//KO',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:CareRadar 정책 캘린더',
+    'X-WR-TIMEZONE:Asia/Seoul',
+  ];
+  for (const event of events) {
+    const label = POLICY_EVENT_KIND_LABELS[event.kind];
+    const description = [event.agency, event.description, event.approximate ? '관행상 기간 — 실제 일정은 해마다 다름' : '']
+      .filter(Boolean)
+      .join('\n');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${icalText(event.id)}@careradar`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icalDate(event.date)}`,
+      `DTEND;VALUE=DATE:${icalDate(shiftDate(lastDay(event), 1))}`,
+      `SUMMARY:${icalText(`[${label}] ${event.title}${event.approximate ? ' (예정)' : ''}`)}`,
+      `DESCRIPTION:${icalText(description)}`,
+      `CATEGORIES:${icalText(label)}`,
+    );
+    if (event.link) lines.push(`URL:${event.link}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.flatMap(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,333 @@
+/**
+ * 가격 모델 시뮬레이터 — 과금 단위·구간 단가·할인으로 B2G/B2B 거래별 매출, 매출총이익률, 회수 기간 계산
+ *
+ * 단가 의미는 과금 방식에 따라 다름:
+ *   subscription  단위당 월 구독료
+ *   license       단위당 일시 라이선스 (유지보수율로 월 유지보수 매출 발생)
+ *   outcome       성과 1건 단가 (수량 = 월 예상 성과 건수)
+ * 순수 함수만 있어 UI·저장·테스트가 같은 계산을 사용.
+ */
+
+export type PricingUnit = 'camera' | 'facility' | 'seat' | 'outcome';
+export type PricingModelKind = 'subscription' | 'license' | 'outcome';
+export type DealKind = 'b2g' | 'b2b';
+
+export const PRICING_UNIT_LABELS: Record<PricingUnit, string> = {
+  camera: '카메라당',
+  facility: '시설당',
+  seat: '사용자(좌석)당',
+  outcome: '성과당',
+};
+
+export const PRICING_MODEL_LABELS: Record<PricingModelKind, string> = {
+  subscription: '월 구독',
+  license: '일시 라이선스 + 유지보수',
+  outcome: '성과 연동',
+};
+
+export const DEAL_KIND_LABELS: Record<DealKind, string> = {
+  b2g: 'B2G (조달)',
+  b2b: 'B2B (직판)',
+};
+
+/** 일시 가격을 월 환산할 때 쓰는 상각 기간 */
+export const AMORTIZATION_MONTHS = 36;
+/** 회수 기간을 찾는 최대 개월 수 */
+export const PAYBACK_HORIZON_MONTHS = 120;
+
+export interface PricingTier {
+  id: string;
+  name: string;
+  /** 이 수량 이상이면 전체 수량에 이 단가 적용 (볼륨 단가) */
+  minUnits: number;
+  unitPrice: number;
+}
+
+export interface PricingDiscount {
+  id: string;
+  label: string;
+  /** 0–1 */
+  rate: number;
+  appliesTo: DealKind | 'all';
+}
+
+export interface DealShape {
+  id: string;
+  kind: DealKind;
+  label: string;
+  units: number;
+  contractMonths: number;
+  /** 일회성 구축·설치비 매출 */
+  setupFee: number;
+  /** 단위당 월 원가 (클라우드·지원·하드웨어 감가) */
+  unitCostMonthly: number;
+  /** 일회성 획득 비용 (영업·입찰 준비·설치 인건비) */
+  acquisitionCost: number;
+  /** 대금 수령 지연 개월 (B2G 검수 후 지급 등) */
+  paymentLagMonths: number;
+}
+
+export interface CompetitorPricePoint {
+  id: string;
+  name: string;
+  unit: PricingUnit;
+  price: number;
+  period: 'month' | 'once';
+  source: string;
+}
+
+export interface PricingScenario {
+  name: string;
+  unit: PricingUnit;
+  model: PricingModelKind;
+  tiers: PricingTier[];
+  discounts: PricingDiscount[];
+  /** license 전용 — 연 유지보수율 (라이선스 금액 대비, 0–1) */
+  maintenanceRate: number;
+  deals: DealShape[];
+  competitors: CompetitorPricePoint[];
+}
+
+export interface DealResult {
+  dealId: string;
+  tier: PricingTier | null;
+  /** 적용 할인 합성률 (0–1) */
+  discountRate: number;
+  /** 할인 후 단가 */
+  netUnitPrice: number;
+  /** 반복 매출 (월) */
+  monthlyRevenue: number;
+  /** 일회성 매출 (구축비 + 라이선스) */
+  oneTimeRevenue: number;
+  contractRevenue: number;
+  contractCost: number;
+  /** (매출 − 원가 − 획득 비용) */
+  grossProfit: number;
+  /** (매출 − 원가) ÷ 매출 — 매출이 0이면 0 */
+  grossMargin: number;
+  /** 누적 순현금이 획득 비용을 넘는 첫 달 — 회수 불가면 null */
+  paybackMonths: number | null;
+  /** 계약 총액 ÷ 계약 기간 ÷ 수량 — 경쟁사 비교용 */
+  effectiveMonthlyPerUnit: number;
+}
+
+const nonNegative = (v: number): number => (Number.isFinite(v) ? Math.max(0, v) : 0);
+const clampShare = (v: number): number => (Number.isFinite(v) ? Math.min(1, Math.max(0, v)) : 0);
+const months = (v: number): number => Math.max(1, Math.round(nonNegative(v)));
+
+/** 수량에 맞는 구간 — minUnits가 가장 큰 충족 구간, 없으면 가장 낮은 구간 */
+export function tierFor(tiers: PricingTier[], units: number): PricingTier | null {
+  if (tiers.length === 0) return null;
+  const sorted = [...tiers].sort((a, b) => a.minUnits - b.minUnits);
+  let chosen = sorted[0]!;
+  for (const tier of sorted) {
+    if (units >= tier.minUnits) chosen = tier;
+  }
+  return chosen;
+}
+
+/** 거래 종류에 적용되는 할인을 곱으로 합성 — 1 − Π(1 − rate) */
+export function combinedDiscount(discounts: PricingDiscount[], kind: DealKind): number {
+  const remaining = discounts
+    .filter((d) => d.appliesTo === 'all' || d.appliesTo === kind)
+    .reduce((acc, d) => acc * (1 - clampShare(d.rate)), 1);
+  return 1 - remaining;
+}
+
+export function calculateDeal(scenario: PricingScenario, deal: DealShape): DealResult {
+  const units = nonNegative(deal.units);
+  const term = months(deal.contractMonths);
+  const tier = tierFor(scenario.tiers, units);
+  const discountRate = combinedDiscount(scenario.discounts, deal.kind);
+  const netUnitPrice = nonNegative(tier?.unitPrice ?? 0) * (1 - discountRate);
+
+  let monthlyRevenue = 0;
+  let oneTimeRevenue = nonNegative(deal.setupFee);
+  if (scenario.model === 'license') {
+    const license = netUnitPrice * units;
+    oneTimeRevenue += license;
+    monthlyRevenue = (license * clampShare(scenario.maintenanceRate)) / 12;
+  } else {
+    monthlyRevenue = netUnitPrice * units;
+  }
+
+  const monthlyCost = nonNegative(deal.unitCostMonthly) * units;
+  const acquisitionCost = nonNegative(deal.acquisitionCost);
+  const contractRevenue = oneTimeRevenue + monthlyRevenue * term;
+  const operatingCost = monthlyCost * term;
+
+  // 월별 현금흐름: 획득 비용은 0개월차, 매출은 지급 지연만큼 밀려 들어옴, 원가는 1개월차부터
+  const lag = Math.round(nonNegative(deal.paymentLagMonths));
+  let cumulative = -acquisitionCost;
+  let paybackMonths: number | null = acquisitionCost === 0 ? 0 : null;
+  for (let m = 1; m <= PAYBACK_HORIZON_MONTHS && paybackMonths === null; m++) {
+    const serviceMonth = m - lag;
+    const inflow = serviceMonth >= 1 && serviceMonth <= term
+      ? monthlyRevenue + (serviceMonth === 1 ? oneTimeRevenue : 0)
+      : 0;
+    const outflow = m <= term ? monthlyCost : 0;
+    cumulative += inflow - outflow;
+    if (cumulative >= 0) paybackMonths = m;
+    if (m > term + lag) break;
+  }
+
+  return {
+    dealId: deal.id,
+    tier,
+    discountRate,
+    netUnitPrice,
+    monthlyRevenue,
+    oneTimeRevenue,
+    contractRevenue,
+    contractCost: operatingCost + acquisitionCost,
+    grossProfit: contractRevenue - operatingCost - acquisitionCost,
+    grossMargin: contractRevenue > 0 ? (contractRevenue - operatingCost) / contractRevenue : 0,
+    paybackMonths,
+    effectiveMonthlyPerUnit: units > 0 ? contractRevenue / term / units : 0,
+  };
+}
+
+export function calculatePricing(scenario: PricingScenario): DealResult[] {
+  return scenario.deals.map((deal) => calculateDeal(scenario, deal));
+}
+
+// ========================================================================
+// 비교 — 경쟁사 가격, 조달 낙찰가
+// ========================================================================
+
+/** 경쟁사 가격의 단위당 월 환산 — 일시 가격은 AMORTIZATION_MONTHS로 나눔 */
+export function competitorMonthlyPrice(point: CompetitorPricePoint): number {
+  return point.period === 'once' ? nonNegative(point.price) / AMORTIZATION_MONTHS : nonNegative(point.price);
+}
+
+export interface CompetitorComparison {
+  competitor: CompetitorPricePoint;
+  monthlyPerUnit: number;
+  /** 우리 단위당 월 가격 ÷ 경쟁사 − 1 (양수면 우리가 비쌈) */
+  premium: number;
+}
+
+/** 같은 과금 단위의 경쟁사만 비교 */
+export function compareWithCompetitors(scenario: PricingScenario, result: DealResult): CompetitorComparison[] {
+  return scenario.competitors
+    .filter((c) => c.unit === scenario.unit && c.price > 0)
+    .map((competitor) => {
+      const monthlyPerUnit = competitorMonthlyPrice(competitor);
+      return { competitor, monthlyPerUnit, premium: result.effectiveMonthlyPerUnit / monthlyPerUnit - 1 };
+    });
+}
+
+export interface AwardedPrice {
+  title: string;
+  organization: string;
+  estimatedPrice: number;
+  awardedPrice: number;
+}
+
+export interface AwardComparison {
+  count: number;
+  median: number;
+  p25: number;
+  p75: number;
+  /** 낙찰가 ÷ 추정가 중앙값 (추정가 있는 건만, 없으면 0) */
+  medianAwardRatio: number;
+  /** 우리 계약 총액보다 낮은 낙찰가 비율 (0–1) */
+  percentile: number;
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo]! + (sorted[hi]! - sorted[lo]!) * (pos - lo);
+}
+
+/** B2G 계약 총액을 낙찰가 분포에 놓아 봄 — 낙찰가가 없으면 null */
+export function compareWithAwards(contractValue: number, awards: AwardedPrice[]): AwardComparison | null {
+  const prices = awards.map((a) => a.awardedPrice).filter((p) => p > 0).sort((a, b) => a - b);
+  if (prices.length === 0) return null;
+  const ratios = awards
+    .filter((a) => a.awardedPrice > 0 && a.estimatedPrice > 0)
+    .map((a) => a.awardedPrice / a.estimatedPrice)
+    .sort((a, b) => a - b);
+  return {
+    count: prices.length,
+    median: quantile(prices, 0.5),
+    p25: quantile(prices, 0.25),
+    p75: quantile(prices, 0.75),
+    medianAwardRatio: quantile(ratios, 0.5),
+    percentile: prices.filter((p) => p < contractValue).length / prices.length,
+  };
+}
+
+// ========================================================================
+// 모델 편집
+// ========================================================================
+
+const newId = (): string => crypto.randomUUID();
+
+export function createTier(minUnits = 1, unitPrice = 0): PricingTier {
+  return { id: newId(), name: '', minUnits, unitPrice };
+}
+
+export function createDiscount(appliesTo: PricingDiscount['appliesTo'] = 'all'): PricingDiscount {
+  return { id: newId(), label: '', rate: 0, appliesTo };
+}
+
+export function createDeal(kind: DealKind): DealShape {
+  return {
+    id: newId(),
+    kind,
+    label: DEAL_KIND_LABELS[kind],
+    units: 0,
+    contractMonths: 12,
+    setupFee: 0,
+    unitCostMonthly: 0,
+    acquisitionCost: 0,
+    paymentLagMonths: kind === 'b2g' ? 2 : 0,
+  };
+}
+
+export function createCompetitorPoint(unit: PricingUnit): CompetitorPricePoint {
+  return { id: newId(), name: '', unit, price: 0, period: 'month', source: '' };
+}
+
+/** 빈 시나리오 — B2G·B2B 거래 하나씩, 단가는 학습자가 채움 */
+export function createPricingScenario(name = ''): PricingScenario {
+  return {
+    name,
+    unit: 'facility',
+    model: 'subscription',
+    tiers: [createTier(1)],
+    discounts: [],
+    maintenanceRate: 0.15,
+    deals: [createDeal('b2g'), createDeal('b2b')],
+    competitors: [],
+  };
+}
+
+/** 대표 단가 — 가장 낮은 구간 단가 (pricing_sessions.base_price) */
+export function basePrice(scenario: PricingScenario): number {
+  return tierFor(scenario.tiers, 0)?.unitPrice ?? 0;
+}
+
+/** Gap Check에 함께 보낼 시뮬레이션 요약 */
+export function describePricing(scenario: PricingScenario, results: DealResult[] = calculatePricing(scenario)): string {
+  const won = (v: number) => `${Math.round(v).toLocaleString('ko-KR')}원`;
+  const pct = (v: number) => `${Math.round(v * 1000) / 10}%`;
+  const tiers = [...scenario.tiers]
+    .sort((a, b) => a.minUnits - b.minUnits)
+    .map((t) => `${t.minUnits}+ ${won(t.unitPrice)}`)
+    .join(', ');
+  const deals = scenario.deals.map((deal, i) => {
+    const r = results[i]!;
+    return `- ${deal.label} (${deal.units}단위, ${deal.contractMonths}개월, 할인 ${pct(r.discountRate)}): `
+      + `계약 총액 ${won(r.contractRevenue)}, 매출총이익률 ${pct(r.grossMargin)}, `
+      + `회수 ${r.paybackMonths === null ? '불가' : `${r.paybackMonths}개월`}, 단위당 월 ${won(r.effectiveMonthlyPerUnit)}`;
+  });
+  return [
+    `${PRICING_MODEL_LABELS[scenario.model]} · ${PRICING_UNIT_LABELS[scenario.unit]} · 구간 단가 ${tiers}`,
+    ...deals,
+  ].join('\n');
+}
@@ -0,0 +1,112 @@
+/**
+ * Pricing Lab 저장소 — pricing_sessions, 경쟁사 가격표, 조달 낙찰가
+ *
+ * 경쟁사 가격은 사용자가 관리하는 목록(localStorage)이고 시나리오를 저장할 때 함께 기록.
+ * 낙찰가는 서버 조달 추적 작업(procurementTracker)이 쌓은 procurement_items의 낙찰 공고에서 읽음.
+ */
+
+import { storage } from '../../utils/storage';
+import { repositories, type PricingSessionRow } from '../repository';
+import { loadAwardedProcurements } from '../procurementFeed';
+import type { SyntheticCompany } from '../study/types';
+import {
+  basePrice,
+  calculatePricing,
+  createPricingScenario,
+  type AwardedPrice,
+  type CompetitorPricePoint,
+  type PricingScenario,
+} from './engine';
+
+export * from './engine';
+
+const SESSIONS_KEY = 'careradar_pricing_sessions';
+const COMPETITORS_KEY = 'careradar_competitor_prices';
+const MAX_LOCAL_SESSIONS = 200;
+
+export interface PricingSessionRecord {
+  id: string;
+  date: string;
+  companyName: string;
+  scenario: PricingScenario;
+  insight: string;
+  dataBadge: 'real' | 'synthetic' | 'mixed';
+  /** 비교에 쓴 낙찰 공고 수 — 0이면 시뮬레이션만 */
+  awardsCompared: number;
+  createdAt: string;
+}
+
+/** 합성 기업에서 출발 시나리오 — 저장된 경쟁사 가격표를 함께 불러옴 */
+export function starterPricingScenario(company?: SyntheticCompany | null): PricingScenario {
+  return {
+    ...createPricingScenario(company?.name ? `${company.name} 가격 설계` : 'CareVia 가격 설계'),
+    competitors: loadCompetitorPrices(),
+  };
+}
+
+export function loadCompetitorPrices(): CompetitorPricePoint[] {
+  return storage.get<CompetitorPricePoint[]>(COMPETITORS_KEY, []);
+}
+
+export function saveCompetitorPrices(points: CompetitorPricePoint[]): void {
+  storage.set(COMPETITORS_KEY, points.filter((p) => p.name.trim() && p.price > 0));
+}
+
+/** 조달 낙찰가 — 낙찰 금액이 확인된 공고만 */
+export async function loadAwardedPrices(limit = 100): Promise<AwardedPrice[]> {
+  const items = await loadAwardedProcurements(limit);
+  return items.map((item) => ({
+    title: item.title,
+    organization: item.organization,
+    estimatedPrice: item.estimatedPrice,
+    awardedPrice: item.awardedPrice,
+  }));
+}
+
+function toRow(record: PricingSessionRecord, questions: unknown): PricingSessionRow {
+  const results = calculatePricing(record.scenario);
+  return {
+    id: record.id,
+    date: record.date,
+    company_name: record.companyName,
+    data_badge: record.dataBadge,
+    data_source: record.awardsCompared > 0 ? `procurement_items (${record.awardsCompared}건)` : 'simulation',
+    questions,
+    my_insight: record.insight,
+    pricing_unit: record.scenario.unit,
+    pricing_model: record.scenario.model,
+    base_price: String(Math.round(basePrice(record.scenario))),
+    scenario: record.scenario,
+    results: results.map((r) => ({
+      deal_id: r.dealId,
+      contract_revenue: Math.round(r.contractRevenue),
+      gross_margin: Number(r.grossMargin.toFixed(4)),
+      payback_months: r.paybackMonths,
+      effective_monthly_per_unit: Math.round(r.effectiveMonthlyPerUnit),
+    })),
+    tags: [record.scenario.unit, record.scenario.model],
+    created_at: record.createdAt,
+  };
+}
+
+export function loadLocalPricingSessions(): PricingSessionRecord[] {
+  return storage.get<PricingSessionRecord[]>(SESSIONS_KEY, []);
+}
+
+/**
+ * 시나리오 저장 — 로컬에 먼저 남기고 pricing_sessions에 upsert, 경쟁사 가격표도 갱신
+ * questions는 세션 Question 단계 (pricing_sessions.questions NOT NULL)
+ */
+export async function savePricingSession(record: PricingSessionRecord, questions: unknown = []): Promise<void> {
+  const local = [record, ...loadLocalPricingSessions().filter((s) => s.id !== record.id)].slice(0, MAX_LOCAL_SESSIONS);
+  storage.set(SESSIONS_KEY, local);
+  saveCompetitorPrices(record.scenario.competitors);
+
+  const result = await repositories.pricingSessions.upsert(toRow(record, questions));
+  if (!result.ok && result.reason === 'error') console.warn('[Pricing] pricing_sessions upsert failed (kept locally):', result.message);
+}
+
+/** 가장 최근 저장 시나리오 (로컬) — 대시보드 패널용 */
+export function latestPricingSession(): PricingSessionRecord | null {
+  return loadLocalPricingSessions()[0] ?? null;
+}
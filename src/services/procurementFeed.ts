@@ -0,0 +1,76 @@
+/**
+ * 조달 목록 조회 (브라우저) — 나라장터 공고 + 뉴스 항목을 병합하고 서버 작업이 저장한 상태를 덧씌움
+ * procurement_items / bid_analyses는 익명 사용자에게 읽기 전용 — 추적·저장은 procurementTracker(서버 작업)
+ */
+
+import { DEFAULT_KEYWORD_PROFILE, type KeywordProfile } from './keywordProfile';
+import { fetchNaraProcurements } from './naraApi';
+import {
+  ROW_COLUMNS,
+  fromNaraBid,
+  fromNewsListing,
+  fromRow,
+  mergeProcurements,
+  withStoredState,
+  type ProcurementRow,
+  type TrackedProcurement,
+} from './procurementTracker';
+import type { ProcurementListing } from './care';
+
+// 월드맵 care 패널도 이 모듈을 거치므로 Supabase 클라이언트는 설정된 경우에만 로드
+// (URL 없이 createClient를 호출하면 모듈 로드 단계에서 예외)
+async function loadSupabase() {
+  if (!import.meta.env.VITE_SUPABASE_URL) return null;
+  const { supabase } = await import('../lib/supabase');
+  return supabase;
+}
+
+async function loadStoredById(externalIds: string[]): Promise<Map<string, TrackedProcurement>> {
+  const supabase = externalIds.length > 0 ? await loadSupabase() : null;
+  if (!supabase) return new Map();
+
+  const { data, error } = await supabase.from('procurement_items').select(ROW_COLUMNS).in('external_id', externalIds);
+  if (error) console.warn('[조달 추적] Supabase load failed:', error.message);
+  return new Map(((data ?? []) as ProcurementRow[]).map((r) => [r.external_id, fromRow(r)]));
+}
+
+/**
+ * 조달 목록 — 나라장터 공고(프록시) + 뉴스 항목 병합, 서버가 확인한 낙찰 결과 반영
+ * 나라장터 키가 없거나 조회가 실패하면 뉴스 항목만, Supabase 미설정이면 저장된 상태 없이 반환
+ */
+export async function loadProcurements(
+  newsListings: ProcurementListing[],
+  profile: KeywordProfile = DEFAULT_KEYWORD_PROFILE,
+  now = Date.now()
+): Promise<TrackedProcurement[]> {
+  const { bids } = await fetchNaraProcurements();
+  const nara = bids
+    .map((bid) => fromNaraBid(bid, profile, now))
+    .filter((item): item is TrackedProcurement => item !== null);
+  const news = newsListings.map((listing) => fromNewsListing(listing, now));
+
+  const stored = await loadStoredById(nara.map((i) => i.id));
+  return mergeProcurements(nara.map((item) => withStoredState(item, stored.get(item.id))), news);
+}
+
+/**
+ * 낙찰 결과가 확인된 공고 (최근 마감 순) — 가격 시뮬레이터의 낙찰가 비교용
+ * Supabase 미설정·조회 실패 시 빈 배열
+ */
+export async function loadAwardedProcurements(limit = 100): Promise<TrackedProcurement[]> {
+  const supabase = await loadSupabase();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('procurement_items')
+    .select(ROW_COLUMNS)
+    .eq('status', 'awarded')
+    .gt('awarded_price', 0)
+    .order('bid_deadline', { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.warn('[조달 추적] awarded items load failed:', error.message);
+    return [];
+  }
+  return ((data ?? []) as ProcurementRow[]).map(fromRow);
+}
@@ -0,0 +1,368 @@
+/**
+ * Procurement Tracker — 나라장터 실제 입찰공고 + 뉴스 기반 조달 항목 통합
+ * 공고 → 마감 → 낙찰 상태를 추적하고 procurement_items / bid_analyses에 저장
+ * 적합도는 뉴스 항목과 같은 키워드 프로필 규칙(gradeProcurement)으로 태깅
+ *
+ * 공용 행(낙찰가는 Pricing Lab의 기준값)은 서버 작업(server/scheduler/procurement)만 service role로 씀.
+ * DB·나라장터 클라이언트는 주입받고, 브라우저는 procurementFeed에서 읽기만 함.
+ */
+
+import { gradeProcurement } from './g2bCrawler';
+import { DEFAULT_KEYWORD_PROFILE, type KeywordProfile } from './keywordProfile';
+import type { NaraAward, NaraBidKind, NaraProcurement } from './naraApi';
+import type { ProcurementListing } from '../generated/client/worldmonitor/care/v1/service_client';
+
+export type ProcurementStatus = 'open' | 'closed' | 'awarded' | 'cancelled';
+export type ProcurementSource = 'nara' | 'news';
+
+export interface TrackedProcurement {
+  id: string;                 // procurement_items.external_id — 나라장터 "공고번호-차수" 또는 뉴스 항목 id
+  source: ProcurementSource;
+  bidNtceNo: string;          // 나라장터 공고번호 (뉴스 항목은 '')
+  kind: NaraBidKind | 'news';
+  title: string;
+  organization: string;
+  estimatedPrice: number;
+  announcedAt: string;        // ISO, 없으면 ''
+  deadline: string;           // ISO, 없으면 ''
+  sourceUrl: string;
+  matchedKeywords: string[];
+  fitnessScore: 'high' | 'medium' | 'low';
+  fitnessReason: string;
+  status: ProcurementStatus;
+  awardedTo: string;
+  awardedPrice: number;
+  awardRatio: number;         // 낙찰금액 / 추정가격 (0 = 미확인)
+  awardCheckedAt: string;     // 낙찰 결과 마지막 조회 시각 (ISO, 없으면 '')
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 마감 후 이 기간까지 낙찰 결과를 다시 조회 (유찰·재공고 등으로 결과가 안 나오는 공고 정리)
+const AWARD_FOLLOW_UP_DAYS = 60;
+// 같은 공고의 낙찰 결과 재조회 간격
+const AWARD_RECHECK_MS = 6 * 60 * 60 * 1000;
+const MAX_AWARD_LOOKUPS = 20;
+
+const KIND_LABELS: Record<NaraBidKind, string> = {
+  service: '용역 입찰',
+  goods: '물품 입찰',
+};
+
+export function procurementKindLabel(kind: TrackedProcurement['kind']): string {
+  return kind === 'news' ? '조달 뉴스' : KIND_LABELS[kind];
+}
+
+/**
+ * 상태 판정 — 취소 > 낙찰 > 마감(마감일 경과) > 진행
+ */
+export function resolveProcurementStatus(
+  item: Pick<TrackedProcurement, 'status' | 'deadline' | 'awardedTo'>,
+  now = Date.now()
+): ProcurementStatus {
+  if (item.status === 'cancelled') return 'cancelled';
+  if (item.awardedTo) return 'awarded';
+  const deadline = item.deadline ? new Date(item.deadline).getTime() : 0;
+  return deadline && deadline < now ? 'closed' : 'open';
+}
+
+/** 나라장터 공고 → 추적 항목 (제외·네거티브 키워드에 걸리면 null) */
+export function fromNaraBid(
+  bid: NaraProcurement,
+  profile: KeywordProfile = DEFAULT_KEYWORD_PROFILE,
+  now = Date.now()
+): TrackedProcurement | null {
+  const fitness = gradeProcurement(`${bid.title} ${bid.agency} ${bid.demandAgency}`, profile);
+  if (!fitness) return null;
+
+  const item: TrackedProcurement = {
+    id: bid.id,
+    source: 'nara',
+    bidNtceNo: bid.bidNtceNo,
+    kind: bid.kind,
+    title: bid.title,
+    organization: bid.demandAgency && bid.demandAgency !== bid.agency
+      ? `${bid.agency} (${bid.demandAgency})`
+      : bid.agency,
+    estimatedPrice: bid.estimatedPrice,
+    announcedAt: bid.announcedAt,
+    deadline: bid.deadline,
+    sourceUrl: bid.url,
+    matchedKeywords: fitness.matched,
+    fitnessScore: fitness.score,
+    fitnessReason: fitness.reason,
+    status: bid.cancelled ? 'cancelled' : 'open',
+    awardedTo: '',
+    awardedPrice: 0,
+    awardRatio: 0,
+    awardCheckedAt: '',
+  };
+  return { ...item, status: resolveProcurementStatus(item, now) };
+}
+
+/** care.v1 뉴스 기반 조달 항목 → 추적 항목 */
+export function fromNewsListing(listing: ProcurementListing, now = Date.now()): TrackedProcurement {
+  const item: TrackedProcurement = {
+    id: listing.id,
+    source: 'news',
+    bidNtceNo: '',
+    kind: 'news',
+    title: listing.title,
+    organization: listing.agency,
+    estimatedPrice: listing.budget,
+    announcedAt: listing.fetchedAt ? new Date(listing.fetchedAt).toISOString() : '',
+    deadline: listing.deadline,
+    sourceUrl: listing.sourceUrl,
+    matchedKeywords: listing.matchedKeywords,
+    fitnessScore: (listing.fitnessScore as TrackedProcurement['fitnessScore']) || 'low',
+    fitnessReason: listing.fitnessReason,
+    status: 'open',
+    awardedTo: '',
+    awardedPrice: 0,
+    awardRatio: 0,
+    awardCheckedAt: '',
+  };
+  return { ...item, status: resolveProcurementStatus(item, now) };
+}
+
+function titleKey(title: string): string {
+  return title
+    .replace(/\[[^\]]*\]|\([^)]*\)|<[^>]*>/g, ' ')
+    .replace(/[^0-9a-z가-힣]/gi, '')
+    .toLowerCase();
+}
+
+/**
+ * 나라장터 공고 우선 병합 — 같은 공고를 다룬 뉴스 항목(제목 포함 관계)은 제외
+ */
+export function mergeProcurements(nara: TrackedProcurement[], news: TrackedProcurement[]): TrackedProcurement[] {
+  const naraKeys = nara.map((n) => titleKey(n.title)).filter((k) => k.length >= 6);
+  const seen = new Set(nara.map((n) => n.id));
+  const merged = [...nara];
+
+  for (const item of news) {
+    if (seen.has(item.id)) continue;
+    const key = titleKey(item.title);
+    if (key.length >= 6 && naraKeys.some((k) => k.includes(key) || key.includes(k))) continue;
+    seen.add(item.id);
+    merged.push(item);
+  }
+  return merged;
+}
+
+/** 저장된 행의 낙찰 결과·마지막 조회 시각 유지 (취소 공고는 낙찰로 되돌리지 않음) */
+export function withStoredState(item: TrackedProcurement, stored: TrackedProcurement | undefined): TrackedProcurement {
+  if (!stored) return item;
+  const kept = { ...item, awardCheckedAt: stored.awardCheckedAt };
+  return stored.awardedTo && item.status !== 'cancelled'
+    ? { ...kept, status: 'awarded', awardedTo: stored.awardedTo, awardedPrice: stored.awardedPrice, awardRatio: stored.awardRatio }
+    : kept;
+}
+
+/** 낙찰 결과 반영 — 낙찰률은 추정가격 대비 (추정가격이 없으면 API 낙찰률 사용) */
+export function applyAward(item: TrackedProcurement, award: NaraAward): TrackedProcurement {
+  const awardRatio = item.estimatedPrice > 0
+    ? Math.round((award.awardedPrice / item.estimatedPrice) * 10000) / 10000
+    : Math.round(award.awardRate * 100) / 10000;
+  return {
+    ...item,
+    status: 'awarded',
+    awardedTo: award.awardedTo,
+    awardedPrice: award.awardedPrice,
+    awardRatio,
+  };
+}
+
+// ─── 저장 ─────────────────────────────────────────────
+
+export interface ProcurementRow {
+  id: string;
+  external_id: string;
+  source: ProcurementSource;
+  bid_ntce_no: string | null;
+  bid_kind: string;
+  title: string;
+  organization: string | null;
+  estimated_price: number | null;
+  bid_deadline: string | null;
+  announcement_date: string | null;
+  source_url: string | null;
+  matched_keywords: string[] | null;
+  fit_score: TrackedProcurement['fitnessScore'] | null;
+  fit_reason: string | null;
+  status: ProcurementStatus;
+  awarded_to: string | null;
+  awarded_price: number | null;
+  award_checked_at: string | null;
+}
+
+/** PostgREST 조회 조건 — 예: [['status', 'eq.closed']] */
+export type ProcurementQuery = Array<[string, string]>;
+
+/**
+ * 추적 행 저장소 — 서버는 server/_shared/supabase(service role), 테스트는 로컬 대역
+ * 실패는 예외로 알림 (스케줄러가 다음 틱에 다시 실행)
+ */
+export interface ProcurementDb {
+  selectRows<T>(table: string, query: ProcurementQuery): Promise<T[]>;
+  upsertRows<T>(table: string, rows: object[], onConflict: string, select?: string): Promise<T[]>;
+}
+
+/** 나라장터 조회 — 서버는 server/_shared/g2b */
+export interface NaraClient {
+  searchBids(): Promise<NaraProcurement[]>;
+  lookupAwards(bidNtceNos: string[]): Promise<NaraAward[]>;
+}
+
+function toRow(item: TrackedProcurement, now: number): Omit<ProcurementRow, 'id'> & { updated_at: string } {
+  return {
+    external_id: item.id,
+    source: item.source,
+    bid_ntce_no: item.bidNtceNo || null,
+    bid_kind: item.kind,
+    title: item.title,
+    organization: item.organization || null,
+    estimated_price: item.estimatedPrice || null,
+    bid_deadline: item.deadline || null,
+    announcement_date: item.announcedAt || null,
+    source_url: item.sourceUrl || null,
+    matched_keywords: item.matchedKeywords,
+    fit_score: item.fitnessScore,
+    fit_reason: item.fitnessReason || null,
+    status: item.status,
+    awarded_to: item.awardedTo || null,
+    awarded_price: item.awardedPrice || null,
+    award_checked_at: item.awardCheckedAt || null,
+    updated_at: new Date(now).toISOString(),
+  };
+}
+
+export function fromRow(row: ProcurementRow): TrackedProcurement {
+  return {
+    id: row.external_id,
+    source: row.source,
+    bidNtceNo: row.bid_ntce_no ?? '',
+    kind: (row.bid_kind as TrackedProcurement['kind']) || 'news',
+    title: row.title,
+    organization: row.organization ?? '',
+    estimatedPrice: row.estimated_price ?? 0,
+    announcedAt: row.announcement_date ?? '',
+    deadline: row.bid_deadline ?? '',
+    sourceUrl: row.source_url ?? '',
+    matchedKeywords: row.matched_keywords ?? [],
+    fitnessScore: row.fit_score ?? 'low',
+    fitnessReason: row.fit_reason ?? '',
+    status: row.status,
+    awardedTo: row.awarded_to ?? '',
+    awardedPrice: row.awarded_price ?? 0,
+    awardRatio: row.awarded_price && row.estimated_price ? row.awarded_price / row.estimated_price : 0,
+    awardCheckedAt: row.award_checked_at ?? '',
+  };
+}
+
+export const ROW_COLUMNS = 'id, external_id, source, bid_ntce_no, bid_kind, title, organization, estimated_price, bid_deadline, announcement_date, source_url, matched_keywords, fit_score, fit_reason, status, awarded_to, awarded_price, award_checked_at';
+
+/**
+ * 저장된 상태 조회 — 이번에 받은 공고의 기존 행 + 낙찰 결과를 기다리는 마감 공고 (오래 조회하지 않은 순)
+ */
+async function loadStoredRows(db: ProcurementDb, externalIds: string[], now: number): Promise<ProcurementRow[]> {
+  const followUpSince = new Date(now - AWARD_FOLLOW_UP_DAYS * DAY_MS).toISOString();
+  const [known, pending] = await Promise.all([
+    externalIds.length > 0
+      ? db.selectRows<ProcurementRow>('procurement_items', [
+          ['select', ROW_COLUMNS],
+          ['external_id', `in.(${externalIds.map((id) => `"${id.replace(/"/g, '')}"`).join(',')})`],
+        ])
+      : Promise.resolve([]),
+    db.selectRows<ProcurementRow>('procurement_items', [
+      ['select', ROW_COLUMNS],
+      ['source', 'eq.nara'],
+      ['status', 'eq.closed'],
+      ['bid_deadline', `gte.${followUpSince}`],
+      ['order', 'award_checked_at.asc.nullsfirst'],
+      ['limit', String(MAX_AWARD_LOOKUPS)],
+    ]),
+  ]);
+  return [...new Map([...known, ...pending].map((r) => [r.external_id, r])).values()];
+}
+
+async function persistProcurements(
+  db: ProcurementDb,
+  items: TrackedProcurement[],
+  newlyAwarded: Set<string>,
+  now: number
+): Promise<void> {
+  if (items.length === 0) return;
+  const stored = await db.upsertRows<{ id: string; external_id: string }>(
+    'procurement_items',
+    items.map((item) => toRow(item, now)),
+    'external_id',
+    'id,external_id'
+  );
+
+  const rowIds = new Map(stored.map((r) => [r.external_id, r.id]));
+  const analyses = items
+    .filter((item) => newlyAwarded.has(item.id) && rowIds.has(item.id))
+    .map((item) => ({
+      date: new Date(now).toISOString().slice(0, 10),
+      procurement_id: rowIds.get(item.id),
+      title: item.title,
+      estimated_price: item.estimatedPrice || null,
+      awarded_price: item.awardedPrice,
+      award_ratio: item.awardRatio || null,
+      awarded_company: item.awardedTo,
+    }));
+  if (analyses.length > 0) await db.upsertRows('bid_analyses', analyses, 'procurement_id', 'id');
+}
+
+/**
+ * 조달 목록 수집·추적 (서버 작업) — 나라장터 공고 + 뉴스 항목 병합, 마감 공고 낙찰 결과 조회, 저장
+ * 낙찰 재조회 간격은 행의 award_checked_at 기준이라 인스턴스가 바뀌어도 유지됨
+ * 반환값은 이번에 저장한 항목 (병합 목록 + 목록에서 빠졌다가 낙찰이 확인된 공고)
+ */
+export async function trackProcurements(
+  db: ProcurementDb,
+  nara: NaraClient,
+  newsListings: ProcurementListing[],
+  profile: KeywordProfile = DEFAULT_KEYWORD_PROFILE,
+  now = Date.now()
+): Promise<TrackedProcurement[]> {
+  let bids = (await nara.searchBids())
+    .map((bid) => fromNaraBid(bid, profile, now))
+    .filter((item): item is TrackedProcurement => item !== null);
+  const news = newsListings.map((listing) => fromNewsListing(listing, now));
+
+  const stored = await loadStoredRows(db, [...bids, ...news].map((i) => i.id), now);
+  const storedById = new Map(stored.map((r) => [r.external_id, fromRow(r)]));
+  bids = bids.map((item) => withStoredState(item, storedById.get(item.id)));
+
+  // 이번 목록에서 빠졌지만 낙찰 결과를 기다리는 마감 공고 (조회 기간 밖으로 밀려난 공고)
+  const currentIds = new Set(bids.map((i) => i.id));
+  const pending = stored
+    .filter((r) => r.source === 'nara' && r.status === 'closed' && !currentIds.has(r.external_id))
+    .map(fromRow);
+
+  const lookups = [...bids, ...pending]
+    .filter((item) => item.status === 'closed' && item.bidNtceNo
+      && now - (item.awardCheckedAt ? Date.parse(item.awardCheckedAt) : 0) > AWARD_RECHECK_MS)
+    .slice(0, MAX_AWARD_LOOKUPS)
+    .map((item) => item.bidNtceNo);
+  const awards = new Map((lookups.length > 0 ? await nara.lookupAwards(lookups) : []).map((a) => [a.bidNtceNo, a]));
+  const checkedAt = new Date(now).toISOString();
+
+  const newlyAwarded = new Set<string>();
+  const followUp = (item: TrackedProcurement): TrackedProcurement => {
+    if (item.status !== 'closed' || !lookups.includes(item.bidNtceNo)) return item;
+    const award = awards.get(item.bidNtceNo);
+    if (!award) return { ...item, awardCheckedAt: checkedAt };
+    newlyAwarded.add(item.id);
+    return { ...applyAward(item, award), awardCheckedAt: checkedAt };
+  };
+  bids = bids.map(followUp);
+  // 목록 밖 공고도 조회 시각은 기록 — 결과가 없던 공고를 6시간 안에 다시 조회하지 않음
+  const followedUp = pending.map(followUp).filter((item) => lookups.includes(item.bidNtceNo));
+
+  const merged = mergeProcurements(bids, news);
+  const tracked = [...merged, ...followedUp];
+  await persistProcurements(db, tracked, newlyAwarded, now);
+  return tracked;
+}
@@ -0,0 +1,109 @@
+/**
+ * 피드백 기반 기사 관련성 — 제외(관련 없음)와 북마크·중요도·메모(관련)로 학습
+ *
+ * 모델은 로컬에 저장해 두고, 스토어가 바뀐 뒤 처음 점수를 낼 때 달라진 예시만 더하고 뺌.
+ * 기사마다 localStorage를 다시 읽지 않도록 모듈에 캐시 — 스토어 상태 객체가 바뀌었는지만 비교.
+ */
+
+import { storage } from '../../utils/storage';
+import { useArticleStore, type ArticleAnnotation } from '../../stores/articleStore';
+import { useExclusionStore, type ExcludedArticle } from '../../stores/exclusionStore';
+import {
+  emptyModel,
+  scoreRelevance,
+  trainIncremental,
+  trainModel,
+  type FeedbackExample,
+  type RelevanceModel,
+  type RelevanceScore,
+} from './model';
+
+export * from './model';
+
+const STORAGE_KEY = 'careradar_relevance_model';
+
+/** 이 확률 미만이면 추적 피드에서 숨김 (예전 제목 유사도 0.4 기준과 비슷한 강도) */
+const HIDE_BELOW = 0.2;
+/** filterByKeywords 관련성 점수 조정 폭 — 관련 없음 쪽은 예전 제외 감점(−40)까지 */
+const MAX_PENALTY = 40;
+const MAX_BONUS = 15;
+
+/** 관련 신호 이름 — 여러 개면 가장 강한 것 하나 */
+function positiveSource(a: ArticleAnnotation): string | null {
+  if (a.memo.trim()) return '메모';
+  if (a.isBookmarked) return '북마크';
+  if (a.rating > 0) return '중요도';
+  return null;
+}
+
+const titleKey = (title: string) => title.trim().toLowerCase();
+
+/** 학습 예시 — 같은 제목에 상반된 피드백이 있으면 나중 것 */
+export function collectFeedback(
+  excluded: ExcludedArticle[],
+  annotations: Record<string, ArticleAnnotation>,
+): FeedbackExample[] {
+  const negatives: FeedbackExample[] = excluded
+    .filter((e) => e.title.trim())
+    .map((e) => ({ id: `exclusion:${e.id}`, label: 'irrelevant', text: e.title, at: e.excludedAt, source: '제외' }));
+  const positives = Object.values(annotations).flatMap((a): FeedbackExample[] => {
+    const source = positiveSource(a);
+    if (!source || !a.article?.title.trim()) return [];
+    return [{ id: `annotation:${a.articleId}`, label: 'relevant', text: a.article.title, at: a.updatedAt, source }];
+  });
+
+  const latest = new Map<string, FeedbackExample>();
+  for (const example of [...negatives, ...positives]) {
+    const key = titleKey(example.text);
+    const seen = latest.get(key);
+    if (!seen || example.at > seen.at) latest.set(key, example);
+  }
+  return [...latest.values()];
+}
+
+let cached: RelevanceModel | null = null;
+let seen: { excluded: ExcludedArticle[]; annotations: Record<string, ArticleAnnotation> } | null = null;
+
+function persist(model: RelevanceModel): void {
+  storage.set(STORAGE_KEY, model);
+}
+
+/** 현재 피드백에 맞춘 모델 — 스토어가 그대로면 캐시를 그대로 씀 */
+export function currentRelevanceModel(): RelevanceModel {
+  const { excluded } = useExclusionStore.getState();
+  const { annotations } = useArticleStore.getState();
+  if (cached && seen?.excluded === excluded && seen.annotations === annotations) return cached;
+
+  const base = cached ?? storage.get<RelevanceModel>(STORAGE_KEY, emptyModel());
+  const next = trainIncremental(base, collectFeedback(excluded, annotations));
+  if (next !== base) persist(next);
+  cached = next;
+  seen = { excluded, annotations };
+  return next;
+}
+
+/** 저장된 모델을 버리고 모든 피드백으로 처음부터 다시 학습 */
+export function retrainRelevanceModel(): RelevanceModel {
+  const { excluded } = useExclusionStore.getState();
+  const { annotations } = useArticleStore.getState();
+  cached = trainModel(collectFeedback(excluded, annotations));
+  seen = { excluded, annotations };
+  persist(cached);
+  return cached;
+}
+
+export function relevanceOf(text: string): RelevanceScore {
+  return scoreRelevance(currentRelevanceModel(), text);
+}
+
+/** filterByKeywords에 주입하는 점수 조정 (−40 ~ +15) */
+export function relevanceAdjustment(text: string): number {
+  const { probability } = relevanceOf(text);
+  return probability < 0.5
+    ? -Math.round(MAX_PENALTY * (0.5 - probability) * 2)
+    : Math.round(MAX_BONUS * (probability - 0.5) * 2);
+}
+
+export function isLikelyIrrelevant(text: string): boolean {
+  return relevanceOf(text).probability < HIDE_BELOW;
+}
@@ -0,0 +1,201 @@
+/**
+ * 기사 관련성 모델 — 사용자 피드백으로 학습하는 나이브 베이즈 (관련 / 관련 없음)
+ *
+ * 토큰은 지식 베이스 검색과 같은 한국어 토큰화(조사 제거 + 음절 bigram)를 씀.
+ * 클래스 사전확률은 50:50으로 고정 — 제외가 북마크보다 훨씬 많아도 그 비율만으로 기사를 깎지 않도록.
+ * 학습에 없던 토큰은 점수에서 빼고, 어휘 크기에 하한을 둬 예시가 몇 건뿐일 때도 겹치는 토큰이 근거가 되게 함.
+ */
+
+import { tokenize } from '../knowledge/search';
+
+export type RelevanceLabel = 'relevant' | 'irrelevant';
+
+export interface FeedbackExample {
+  /** 출처별 고유 id — 예: exclusion:<id>, annotation:<articleId> */
+  id: string;
+  label: RelevanceLabel;
+  text: string;
+  /** 피드백 시각 (ISO) — 평가 때 최근 피드백을 검증용으로 떼어 냄 */
+  at: string;
+  /** 설명용 출처 — 예: '제외', '북마크' */
+  source: string;
+}
+
+interface TrainedDoc {
+  label: RelevanceLabel;
+  tokens: string[];
+}
+
+export interface RelevanceModel {
+  docs: Record<string, TrainedDoc>;
+  tokenCounts: Record<RelevanceLabel, Record<string, number>>;
+  tokenTotals: Record<RelevanceLabel, number>;
+  docCounts: Record<RelevanceLabel, number>;
+  updatedAt: string;
+}
+
+export interface RelevanceFeature {
+  token: string;
+  /** 로그 우도비 — 양수면 관련, 음수면 관련 없음 쪽 근거 */
+  weight: number;
+}
+
+export interface RelevanceScore {
+  /** P(관련) — 근거가 없으면 0.5 */
+  probability: number;
+  logOdds: number;
+  /** 점수를 가장 크게 움직인 토큰 (|weight| 내림차순) */
+  features: RelevanceFeature[];
+}
+
+export interface RelevanceEvaluation {
+  trained: number;
+  heldOut: number;
+  /** "관련 없음" 판정 기준 — 걸러낸 것 중 실제 제외한 비율 */
+  precision: number;
+  /** 검증용 제외 중 모델이 걸러낸 비율 */
+  recall: number;
+  f1: number;
+  accuracy: number;
+}
+
+const SMOOTHING = 1;
+const VOCAB_FLOOR = 500;
+const MAX_LOG_ODDS = 8;
+const MAX_FEATURES = 5;
+const HOLDOUT_SHARE = 0.2;
+const MIN_EVAL_EXAMPLES = 10;
+
+const LABELS: RelevanceLabel[] = ['relevant', 'irrelevant'];
+
+export function emptyModel(): RelevanceModel {
+  return {
+    docs: {},
+    tokenCounts: { relevant: {}, irrelevant: {} },
+    tokenTotals: { relevant: 0, irrelevant: 0 },
+    docCounts: { relevant: 0, irrelevant: 0 },
+    updatedAt: new Date(0).toISOString(),
+  };
+}
+
+/** 토큰은 문서당 한 번만 — 제목에 같은 단어가 반복돼도 근거가 부풀지 않도록 */
+const docTokens = (text: string) => [...new Set(tokenize(text))];
+
+function apply(model: RelevanceModel, doc: TrainedDoc, sign: 1 | -1): void {
+  const counts = model.tokenCounts[doc.label];
+  for (const token of doc.tokens) {
+    const next = (counts[token] ?? 0) + sign;
+    if (next > 0) counts[token] = next;
+    else delete counts[token];
+  }
+  model.tokenTotals[doc.label] += sign * doc.tokens.length;
+  model.docCounts[doc.label] += sign;
+}
+
+/**
+ * 피드백 목록에 맞춰 모델을 갱신 — 새로 생긴 예시만 더하고, 사라지거나 라벨이 바뀐 예시만 뺌
+ * 입력 모델은 바꾸지 않음. 바뀐 것이 없으면 같은 객체를 돌려줌.
+ */
+export function trainIncremental(model: RelevanceModel, examples: FeedbackExample[], now: Date = new Date()): RelevanceModel {
+  const wanted = new Map(examples.map((e) => [e.id, e]));
+  const removed = Object.entries(model.docs).filter(([id, doc]) => wanted.get(id)?.label !== doc.label);
+  const added = examples.filter((e) => model.docs[e.id]?.label !== e.label);
+  if (removed.length === 0 && added.length === 0) return model;
+
+  const next: RelevanceModel = {
+    docs: { ...model.docs },
+    tokenCounts: { relevant: { ...model.tokenCounts.relevant }, irrelevant: { ...model.tokenCounts.irrelevant } },
+    tokenTotals: { ...model.tokenTotals },
+    docCounts: { ...model.docCounts },
+    updatedAt: now.toISOString(),
+  };
+  for (const [id, doc] of removed) {
+    apply(next, doc, -1);
+    delete next.docs[id];
+  }
+  for (const example of added) {
+    const doc: TrainedDoc = { label: example.label, tokens: docTokens(example.text) };
+    apply(next, doc, 1);
+    next.docs[example.id] = doc;
+  }
+  return next;
+}
+
+export const trainModel = (examples: FeedbackExample[], now?: Date) => trainIncremental(emptyModel(), examples, now);
+
+export function exampleCount(model: RelevanceModel): number {
+  return model.docCounts.relevant + model.docCounts.irrelevant;
+}
+
+function vocabularySize(model: RelevanceModel): number {
+  const vocab = new Set([...Object.keys(model.tokenCounts.relevant), ...Object.keys(model.tokenCounts.irrelevant)]);
+  return Math.max(vocab.size, VOCAB_FLOOR);
+}
+
+/** 토큰 하나의 로그 우도비 log P(t|관련) − log P(t|관련 없음) */
+function tokenWeight(model: RelevanceModel, token: string, vocab: number): number {
+  const likelihood = (label: RelevanceLabel) =>
+    ((model.tokenCounts[label][token] ?? 0) + SMOOTHING) / (model.tokenTotals[label] + SMOOTHING * vocab);
+  return Math.log(likelihood('relevant')) - Math.log(likelihood('irrelevant'));
+}
+
+export function scoreRelevance(model: RelevanceModel, text: string): RelevanceScore {
+  if (exampleCount(model) === 0) return { probability: 0.5, logOdds: 0, features: [] };
+  const vocab = vocabularySize(model);
+  const features = docTokens(text)
+    .filter((token) => model.tokenCounts.relevant[token] || model.tokenCounts.irrelevant[token])
+    .map((token) => ({ token, weight: tokenWeight(model, token, vocab) }));
+
+  const raw = features.reduce((sum, f) => sum + f.weight, 0);
+  const logOdds = Math.max(-MAX_LOG_ODDS, Math.min(MAX_LOG_ODDS, raw));
+  return {
+    probability: 1 / (1 + Math.exp(-logOdds)),
+    logOdds,
+    features: features.sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight)).slice(0, MAX_FEATURES),
+  };
+}
+
+/** 라벨별로 가장 강한 토큰 — 설정 화면에서 모델이 무엇을 배웠는지 보여 줌 */
+export function topFeatures(model: RelevanceModel, label: RelevanceLabel, limit = 8): RelevanceFeature[] {
+  const vocab = vocabularySize(model);
+  const sign = label === 'relevant' ? 1 : -1;
+  return Object.keys(model.tokenCounts[label])
+    .map((token) => ({ token, weight: tokenWeight(model, token, vocab) }))
+    .filter((f) => f.weight * sign > 0)
+    .sort((a, b) => (b.weight - a.weight) * sign)
+    .slice(0, limit);
+}
+
+/**
+ * 최근 피드백 20%를 떼어 내고 나머지로 학습해 평가 — 시간순 분할이라 "앞으로 올 기사"에 가까움
+ * 예시가 적거나 검증용에 한쪽 라벨만 있으면 null
+ */
+export function evaluateHeldOut(examples: FeedbackExample[], threshold = 0.5): RelevanceEvaluation | null {
+  if (examples.length < MIN_EVAL_EXAMPLES) return null;
+  const sorted = [...examples].sort((a, b) => a.at.localeCompare(b.at));
+  const cut = sorted.length - Math.max(1, Math.round(sorted.length * HOLDOUT_SHARE));
+  const train = sorted.slice(0, cut);
+  const test = sorted.slice(cut);
+  if (!LABELS.every((label) => test.some((e) => e.label === label))) return null;
+
+  const model = trainModel(train);
+  let truePos = 0, falsePos = 0, falseNeg = 0, correct = 0;
+  for (const example of test) {
+    const flagged = scoreRelevance(model, example.text).probability < threshold;
+    const irrelevant = example.label === 'irrelevant';
+    if (flagged && irrelevant) truePos++;
+    else if (flagged) falsePos++;
+    else if (irrelevant) falseNeg++;
+    if (flagged === irrelevant) correct++;
+  }
+  const precision = truePos + falsePos > 0 ? truePos / (truePos + falsePos) : 0;
+  const recall = truePos + falseNeg > 0 ? truePos / (truePos + falseNeg) : 0;
+  return {
+    trained: train.length,
+    heldOut: test.length,
+    precision,
+    recall,
+    f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+    accuracy: correct / test.length,
+  };
+}
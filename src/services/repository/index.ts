@@ -0,0 +1,52 @@
+/**
+ * 학습·지식 저장소 — Supabase가 설정된 경우에만 클라이언트를 로드
+ *
+ * 대시보드 패널(FinancialGymPanel 등)이 이 모듈을 거치므로 URL 없이 createClient를 부르지 않도록
+ * lib/supabase는 처음 저장·조회할 때 동적으로 import.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createStudyRepositories, type ClientProvider } from './repository';
+import type { DbClient } from './types';
+
+export * from './types';
+export { createRepository, createStudyRepositories, type ClientProvider, type ListOptions, type Repository, type StudyRepositories } from './repository';
+
+/** supabase-js 클라이언트를 저장소 연산으로 — 로컬 `supabase start` 스택도 같은 경로 */
+export function supabaseDbClient(supabase: SupabaseClient): DbClient {
+  return {
+    async currentUserId() {
+      const { data } = await supabase.auth.getSession();
+      return data.session?.user.id ?? null;
+    },
+
+    async upsert(table, rows, onConflict) {
+      const { error } = await supabase.from(table).upsert(rows, { onConflict });
+      return error;
+    },
+
+    async select(table, filter) {
+      let query = supabase.from(table).select('*');
+      for (const [column, value] of Object.entries(filter.eq ?? {})) query = query.eq(column, value);
+      if (filter.range) {
+        const [column, from, to] = filter.range;
+        query = query.gte(column, from).lte(column, to);
+      }
+      if (filter.orderBy) query = query.order(filter.orderBy, { ascending: filter.ascending ?? false });
+      if (filter.limit) query = query.limit(filter.limit);
+      const { data, error } = await query;
+      return { data, error };
+    },
+  };
+}
+
+let clientPromise: Promise<DbClient | null> | null = null;
+
+export const loadDbClient: ClientProvider = () => {
+  clientPromise ??= import.meta.env.VITE_SUPABASE_URL
+    ? import('../../lib/supabase').then(({ supabase }) => supabaseDbClient(supabase))
+    : Promise.resolve(null);
+  return clientPromise;
+};
+
+export const repositories = createStudyRepositories(loadDbClient);
@@ -0,0 +1,102 @@
+/**
+ * 테이블별 저장소 — 행을 쓸 때 로그인 사용자 id를 채우고, 읽을 때는 RLS(auth.uid() = user_id)에 맡김
+ *
+ * 클라이언트는 주입받음: 앱은 lib/supabase 어댑터, 테스트는 로컬 Postgres/Supabase 대역.
+ * 클라이언트가 없으면(null) Supabase 미설정으로 보고 호출부가 로컬 기록만 유지.
+ */
+
+import type {
+  DbClient,
+  RepositoryResult,
+  StudyTable,
+  StudyTableRows,
+} from './types';
+
+export type ClientProvider = () => Promise<DbClient | null>;
+
+type Column<Row> = keyof Row & string;
+
+export interface ListOptions<Row> {
+  /** 같음 조건 — 예: { source_module: 'pitch' } */
+  where?: Partial<Record<Column<Row>, string | number | boolean>>;
+  /** [column, from, to] 닫힌 구간 — 예: ['date', '2026-01-01', '2026-01-31'] */
+  range?: [Column<Row>, string, string];
+  orderBy?: Column<Row>;
+  ascending?: boolean;
+  limit?: number;
+}
+
+export interface Repository<Row> {
+  readonly table: StudyTable;
+  upsert(rows: Row | Row[]): Promise<RepositoryResult<number>>;
+  list(options?: ListOptions<Row>): Promise<RepositoryResult<Row[]>>;
+}
+
+/** upsert 충돌 키 — 기본은 id */
+const CONFLICT_KEYS: Partial<Record<StudyTable, string>> = {
+  daily_streaks: 'date,user_id',
+  weekly_reviews: 'user_id,week_start',
+  cumulative_feedback: 'user_id,period,period_start',
+  sync_records: 'user_id,collection,record_id',
+};
+
+const UNCONFIGURED = { ok: false, reason: 'unconfigured', message: 'Supabase가 설정되지 않았습니다' } as const;
+
+export function createRepository<T extends StudyTable>(table: T, getClient: ClientProvider): Repository<StudyTableRows[T]> {
+  type Row = StudyTableRows[T];
+
+  return {
+    table,
+
+    async upsert(rows) {
+      const client = await getClient();
+      if (!client) return UNCONFIGURED;
+      const userId = await client.currentUserId();
+      if (!userId) return { ok: false, reason: 'signed-out', message: '로그인하면 클라우드에 저장됩니다' };
+
+      const owned = (Array.isArray(rows) ? rows : [rows]).map((row) => ({ ...row, user_id: userId }));
+      if (owned.length === 0) return { ok: true, data: 0 };
+      const error = await client.upsert(table, owned, CONFLICT_KEYS[table] ?? 'id');
+      if (error) return { ok: false, reason: 'error', message: error.message };
+      return { ok: true, data: owned.length };
+    },
+
+    async list(options = {}) {
+      const client = await getClient();
+      if (!client) return UNCONFIGURED;
+      if (!(await client.currentUserId())) return { ok: false, reason: 'signed-out', message: '로그인 후 불러올 수 있습니다' };
+
+      const eq: Record<string, string | number | boolean> = {};
+      for (const [column, value] of Object.entries(options.where ?? {})) {
+        if (value !== undefined) eq[column] = value as string | number | boolean;
+      }
+      const { data, error } = await client.select(table, {
+        eq,
+        range: options.range,
+        orderBy: options.orderBy,
+        ascending: options.ascending ?? false,
+        limit: options.limit,
+      });
+      if (error) return { ok: false, reason: 'error', message: error.message };
+      return { ok: true, data: (data ?? []) as unknown as Row[] };
+    },
+  };
+}
+
+/** 학습·지식 테이블 저장소 묶음 */
+export function createStudyRepositories(getClient: ClientProvider) {
+  return {
+    analysisSessions: createRepository('analysis_sessions', getClient),
+    pricingSessions: createRepository('pricing_sessions', getClient),
+    sroiSessions: createRepository('sroi_sessions', getClient),
+    pitchSessions: createRepository('pitch_sessions', getClient),
+    insights: createRepository('insights', getClient),
+    weeklyReviews: createRepository('weekly_reviews', getClient),
+    dailyStreaks: createRepository('daily_streaks', getClient),
+    cumulativeFeedback: createRepository('cumulative_feedback', getClient),
+    syncRecords: createRepository('sync_records', getClient),
+    newsClusters: createRepository('news_clusters', getClient),
+  };
+}
+
+export type StudyRepositories = ReturnType<typeof createStudyRepositories>;
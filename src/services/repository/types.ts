@@ -0,0 +1,255 @@
+/**
+ * 학습·지식 테이블 행 타입 — supabase/migrations 001 스키마 (+ 004·005·006·010 추가 컬럼)
+ *
+ * user_id는 저장소가 로그인 세션에서 채우므로 행 타입에서 선택 항목.
+ */
+
+export type DataBadge = 'real' | 'synthetic' | 'mixed';
+export type SessionLevel = 'L1' | 'L2' | 'L3';
+
+/** insights.source_module — 006에서 규제·경쟁사·자유 주제 세션까지 확장 */
+export type InsightSourceModule =
+  | 'analysis'
+  | 'pricing'
+  | 'sroi'
+  | 'pitch'
+  | 'field_story'
+  | 'regulation'
+  | 'benchmark'
+  | 'custom';
+
+interface OwnedRow {
+  id: string;
+  user_id?: string | null;
+  created_at?: string;
+}
+
+export interface AnalysisSessionRow extends OwnedRow {
+  date: string;
+  company_name: string;
+  category?: string | null;
+  level?: SessionLevel | null;
+  data_badge?: DataBadge | null;
+  data_source?: string | null;
+  source_url?: string | null;
+  source_summary?: string | null;
+  questions: unknown;
+  ai_references?: unknown;
+  my_insight?: string | null;
+  carevia_application?: string | null;
+  depth_scores?: unknown;
+  time_spent_minutes?: number | null;
+  self_rating?: number | null;
+  tags?: string[] | null;
+  statements?: unknown;
+  ratios?: unknown;
+}
+
+export interface PricingSessionRow extends OwnedRow {
+  date: string;
+  company_name: string;
+  level?: SessionLevel | null;
+  data_badge?: DataBadge | null;
+  data_source?: string | null;
+  source_url?: string | null;
+  questions: unknown;
+  ai_references?: unknown;
+  my_insight?: string | null;
+  carevia_application?: string | null;
+  pricing_unit?: string | null;
+  pricing_model?: string | null;
+  base_price?: string | null;
+  depth_scores?: unknown;
+  tags?: string[] | null;
+  scenario?: unknown;
+  results?: unknown;
+}
+
+export interface SroiSessionRow extends OwnedRow {
+  date: string;
+  title: string;
+  scenario_type?: 'real_event' | 'tracking_linked' | 'ai_scenario' | null;
+  data_badge?: DataBadge | null;
+  input_description?: string | null;
+  input_amount: number;
+  outputs: unknown;
+  total_output: number;
+  sroi_ratio: number;
+  iris_categories?: string[] | null;
+  questions?: unknown;
+  ai_feedback?: unknown;
+  my_insight?: string | null;
+  depth_scores?: unknown;
+  source_project?: 'carevia' | 'hosidahm' | 'other' | null;
+  source_site?: string | null;
+  tags?: string[] | null;
+}
+
+export interface PitchSessionRow extends OwnedRow {
+  date: string;
+  company_name?: string | null;
+  source_url?: string | null;
+  source_type?: string | null;
+  questions: unknown;
+  ai_references?: unknown;
+  my_carevia_script?: string | null;
+  script_feedback?: string | null;
+  my_insight?: string | null;
+  depth_scores?: unknown;
+  tags?: string[] | null;
+}
+
+export interface InsightRow extends OwnedRow {
+  date: string;
+  source_session_id: string;
+  source_module: InsightSourceModule;
+  content: string;
+  /** 학습 세션 종류 (financial·pricing …) — 002 데모 테이블에서 이어받은 컬럼 */
+  session_type?: string | null;
+  my_answer?: string | null;
+  carevia_application?: string | null;
+  applied_in_practice?: boolean | null;
+  applied_description?: string | null;
+  applied_date?: string | null;
+  applied_outcome?: string | null;
+  /** IR·제안서 등 활용 기록 (migration 008) */
+  used_in?: UsedInRow[] | null;
+  tags?: string[] | null;
+  linked_insight_ids?: string[] | null;
+}
+
+export interface UsedInRow {
+  document_type: string;
+  document_name: string;
+  used_at: string;
+}
+
+/** weekly_reviews는 (user_id, week_start)가 유일 — 같은 주를 다시 저장하면 덮어씀 */
+export interface WeeklyReviewRow {
+  id?: string;
+  week_start: string;
+  week_end: string;
+  q1_market_signal?: string | null;
+  q2_pricing_insight?: string | null;
+  q3_sroi_discovery?: string | null;
+  q4_next_week_focus?: string | null;
+  q5_applied_in_practice?: string | null;
+  ai_weekly_summary?: string | null;
+  ai_blind_spots?: string | null;
+  ai_growth_note?: string | null;
+  streak_days?: number | null;
+  total_memos?: number | null;
+  competency_scores?: unknown;
+  user_id?: string | null;
+  created_at?: string;
+}
+
+/** daily_streaks는 (date, user_id)가 유일 — 슬롯 컬럼만 보내면 나머지 슬롯은 유지 */
+export interface DailyStreakRow {
+  id?: string;
+  date: string;
+  morning_completed?: boolean;
+  lunch_completed?: boolean;
+  evening_completed?: boolean;
+  morning_session_id?: string | null;
+  lunch_session_id?: string | null;
+  evening_session_id?: string | null;
+  user_id?: string | null;
+}
+
+export type FeedbackPeriod = 'weekly' | 'monthly';
+
+/** cumulative_feedback — (user_id, period, period_start)가 유일 (migration 009), JSONB 컬럼 모양은 study/competencyModel */
+export interface CumulativeFeedbackRow {
+  id?: string;
+  period: FeedbackPeriod;
+  period_start: string;
+  period_end: string;
+  blind_spots?: unknown;
+  growth_trajectory?: unknown;
+  strengths?: unknown;
+  level_recommendation?: string | null;
+  overall_depth_trend?: unknown;
+  user_id?: string | null;
+  created_at?: string;
+}
+
+/** news_clusters — 케어 트랙 스토리 (migration 010에서 타임라인·velocity 추가), JSONB 모양은 services/careStories */
+export interface NewsClusterRow {
+  id: string;
+  title: string;
+  summary?: string | null;
+  track: string;
+  importance_score?: number | null;
+  first_seen?: string | null;
+  last_updated?: string | null;
+  item_count?: number | null;
+  velocity?: unknown;
+  timeline?: unknown;
+  updated_at?: string | null;
+  user_id?: string | null;
+  created_at?: string;
+}
+
+/** 오프라인 우선 동기화 레코드 — (user_id, collection, record_id)가 유일, synced_at은 서버 트리거가 기록 */
+export interface SyncRecordRow {
+  collection: string;
+  record_id: string;
+  payload: unknown;
+  deleted: boolean;
+  updated_at: string;
+  synced_at?: string;
+  device_id?: string | null;
+  user_id?: string | null;
+}
+
+export interface StudyTableRows {
+  analysis_sessions: AnalysisSessionRow;
+  pricing_sessions: PricingSessionRow;
+  sroi_sessions: SroiSessionRow;
+  pitch_sessions: PitchSessionRow;
+  insights: InsightRow;
+  weekly_reviews: WeeklyReviewRow;
+  daily_streaks: DailyStreakRow;
+  cumulative_feedback: CumulativeFeedbackRow;
+  sync_records: SyncRecordRow;
+  news_clusters: NewsClusterRow;
+}
+
+export type StudyTable = keyof StudyTableRows;
+
+export interface DbError {
+  message: string;
+}
+
+export interface DbResponse<T> {
+  data: T | null;
+  error: DbError | null;
+}
+
+/** select 조건 — PostgREST 필터 중 저장소가 쓰는 것만 */
+export interface DbFilter {
+  eq?: Record<string, string | number | boolean>;
+  /** [column, from, to] 닫힌 구간 */
+  range?: [string, string, string];
+  orderBy?: string;
+  ascending?: boolean;
+  limit?: number;
+}
+
+/**
+ * 저장소가 쓰는 데이터베이스 연산 — Supabase 클라이언트 어댑터나 테스트용 로컬 대역이 구현
+ */
+export interface DbClient {
+  /** 로그인 세션의 auth.users id — 로그인 전이면 null */
+  currentUserId(): Promise<string | null>;
+  upsert(table: StudyTable, rows: object[], onConflict: string): Promise<DbError | null>;
+  select(table: StudyTable, filter: DbFilter): Promise<DbResponse<Record<string, unknown>[]>>;
+}
+
+/** 저장 실패 사유 — unconfigured(Supabase 미설정)·signed-out(로그인 전)은 로컬에만 남김 */
+export type RepositoryFailure = 'unconfigured' | 'signed-out' | 'error';
+
+export type RepositoryResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; reason: RepositoryFailure; message: string };
@@ -0,0 +1,76 @@
+/**
+ * Score Backtest — 로컬 점수 히스토리를 후보 프로필로 재생
+ *
+ * /tracking 대시보드가 기록한 점수 히스토리(careradar_score_history)의 S1~S3에
+ * 후보 프로필의 가중치·임계값을 다시 적용해, 알림이 언제 발송됐을지 기본 프로필과 비교합니다.
+ * 트랙 점수 자체(포화 건수·관련도 가중치·등급 보너스)는 기록 시점의 값을 그대로 씁니다.
+ */
+
+import {
+  DEFAULT_SCORING_PROFILE,
+  combineTrackScores,
+  type OpportunityScoreResult,
+  type ScoringProfile,
+} from './scoreCalculator';
+import type { ScoreHistoryEntry } from '../stores/trackingStore';
+
+export interface BacktestPoint {
+  at: string;
+  stored: ScoreHistoryEntry;
+  replayed: OpportunityScoreResult;
+  /** 기존(기본 프로필) 기준 알림 여부 */
+  baselineAlert: boolean;
+  /** 이 시점에 알림이 새로 발송됐을지 (임계값 상향 돌파) */
+  alertFired: boolean;
+}
+
+export interface BacktestSummary {
+  checkpoints: number;
+  alertsFired: number;
+  baselineAlertsFired: number;
+  /** 후보 프로필이 알림 상태였던 시점 수 */
+  alertPoints: number;
+  baselineAlertPoints: number;
+}
+
+export interface BacktestResult {
+  points: BacktestPoint[];
+  summary: BacktestSummary;
+}
+
+/**
+ * 후보 프로필로 히스토리 재생 — 순수 함수 (Settings 백테스트 뷰에서 호출)
+ */
+export function runBacktest(history: ScoreHistoryEntry[], profile: ScoringProfile): BacktestResult {
+  const entries = [...history].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  const points: BacktestPoint[] = [];
+  let prevAlert = false;
+  let prevBaseline = false;
+  let alertsFired = 0;
+  let baselineAlertsFired = 0;
+
+  for (const stored of entries) {
+    const replayed = combineTrackScores(stored.s1, stored.s2, stored.s3, profile);
+    const baselineAlert = stored.total >= DEFAULT_SCORING_PROFILE.alertThreshold;
+
+    const alertFired = replayed.shouldAlert && !prevAlert;
+    if (alertFired) alertsFired++;
+    if (baselineAlert && !prevBaseline) baselineAlertsFired++;
+    prevAlert = replayed.shouldAlert;
+    prevBaseline = baselineAlert;
+
+    points.push({ at: stored.timestamp, stored, replayed, baselineAlert, alertFired });
+  }
+
+  return {
+    points,
+    summary: {
+      checkpoints: points.length,
+      alertsFired,
+      baselineAlertsFired,
+      alertPoints: points.filter((p) => p.replayed.shouldAlert).length,
+      baselineAlertPoints: points.filter((p) => p.baselineAlert).length,
+    },
+  };
+}
@@ -1,15 +1,59 @@
 /**
  * Opportunity Score 산출 — PRD Section 5.2.1
- * Score = S1×0.4 + S2×0.3 + S3×0.3
+ * Score = S1×w1 + S2×w2 + S3×w3 (기본 프로필: 0.4 / 0.3 / 0.3)
  * S1: 정책/예산 (policy), S2: 자금유입 (investment), S3: 경쟁사 (competitor)
+ *
+ * 트랙 점수 = 평균 관련도 × relevanceWeight + 건수 포화도 × countWeight + 소스 등급 보너스
+ * 가중치·포화 건수·최신성 감쇠·등급 보너스·알림 임계값은 ScoringProfile로 조정
  */
 
 import type { RssItem } from './rssFeed';
 import type { FilteredRssItem } from './keywordFilter';
+import { getSourceTier } from '../config/sourceTiers';
 
-const WEIGHTS = { S1_policy: 0.4, S2_funding: 0.3, S3_competitor: 0.3 } as const;
-const ALERT_THRESHOLD = 70;
-const HIGH_PRIORITY_THRESHOLD = 85;
+export type ScoreTrackKey = 'policy' | 'investment' | 'competitor';
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  weights: Record<ScoreTrackKey, number>;
+  /** 건수 포화 기준 — 이 건수 이상이면 건수 항목 만점 */
+  countSaturation: number;
+  /** 평균 관련도 반영 비율 (0~1), 나머지 점수 폭은 countWeight */
+  relevanceWeight: number;
+  countWeight: number;
+  /** 최신성 반감기(시간) — 0이면 감쇠 없음 */
+  recencyHalfLifeHours: number;
+  /** Tier 1 소스 비중 100%일 때 트랙 점수에 더하는 최대 보너스 */
+  tierBonus: number;
+  alertThreshold: number;
+  highPriorityThreshold: number;
+}
+
+/**
+ * Settings에서 활성화해 키워드 프로필과 함께 서버에 저장하는 프로필 —
+ * 알림 임계값은 키워드 프로필 값을 쓰므로 저장하지 않음 (프로필의 임계값은 백테스트 비교용)
+ */
+export type ActiveScoringProfile = Omit<ScoringProfile, 'alertThreshold'>;
+
+/** 현행 산식 그대로 — 활성 프로필을 저장하지 않았을 때 care.v1 서버와 텔레그램 알림이 쓰는 기준 프로필 */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: 'default',
+  name: '기본 (PRD 5.2.1)',
+  weights: { policy: 0.4, investment: 0.3, competitor: 0.3 },
+  countSaturation: 5,
+  relevanceWeight: 0.6,
+  countWeight: 40,
+  recencyHalfLifeHours: 0,
+  tierBonus: 0,
+  alertThreshold: 70,
+  highPriorityThreshold: 85,
+};
+
+const ALERT_THRESHOLD = DEFAULT_SCORING_PROFILE.alertThreshold;
+const HIGH_PRIORITY_THRESHOLD = DEFAULT_SCORING_PROFILE.highPriorityThreshold;
+
+const HOUR_MS = 60 * 60 * 1000;
 
 export interface OpportunityScoreResult {
   total: number;
@@ -20,41 +64,80 @@ export interface OpportunityScoreResult {
   isHighPriority: boolean;
 }
 
+function clampScore(value: number): number {
+  return Math.min(100, Math.max(0, Math.round(value)));
+}
+
+function recencyWeight(item: RssItem, profile: ScoringProfile, now: number): number {
+  if (profile.recencyHalfLifeHours <= 0) return 1;
+  const published = new Date(item.pubDate).getTime();
+  if (!published) return 1;
+  const ageHours = Math.max(0, now - published) / HOUR_MS;
+  return Math.pow(0.5, ageHours / profile.recencyHalfLifeHours);
+}
+
 function computeTrackScore(
   items: RssItem[],
-  track: 'policy' | 'investment' | 'competitor',
-  maxScore = 100
+  track: ScoreTrackKey,
+  profile: ScoringProfile,
+  now: number,
 ): number {
-  const filtered = items.filter((i) => i.track === track);
+  const filtered = items.filter((i) => i.track === track) as FilteredRssItem[];
   if (filtered.length === 0) return 0;
 
-  const withRelevance = filtered as FilteredRssItem[];
-  const avgRelevance =
-    withRelevance.reduce((sum, i) => sum + (i.relevance_score ?? 50), 0) / filtered.length;
-  const countFactor = Math.min(1, filtered.length / 5);
-  const score = Math.round(avgRelevance * 0.6 + countFactor * 40);
-  return Math.min(maxScore, Math.max(0, score));
+  // 감쇠 없음(가중치 1)이면 단순 평균·건수와 동일
+  let weightSum = 0;
+  let relevanceSum = 0;
+  let tierShare = 0;
+  for (const item of filtered) {
+    const w = recencyWeight(item, profile, now);
+    weightSum += w;
+    relevanceSum += (item.relevance_score ?? 50) * w;
+    if (getSourceTier(item.source) === 1) tierShare += 1 / filtered.length;
+  }
+  if (weightSum === 0) return 0;
+
+  const avgRelevance = relevanceSum / weightSum;
+  const countFactor = Math.min(1, weightSum / Math.max(1, profile.countSaturation));
+  return clampScore(avgRelevance * profile.relevanceWeight + countFactor * profile.countWeight + tierShare * profile.tierBonus);
 }
 
 /**
- * 뉴스 아이템으로부터 Opportunity Score 산출
+ * 트랙 점수(S1~S3)에 프로필 가중치·임계값 적용
  */
-export function calculateOpportunityScore(items: RssItem[]): OpportunityScoreResult {
-  const s1 = computeTrackScore(items, 'policy');
-  const s2 = computeTrackScore(items, 'investment');
-  const s3 = computeTrackScore(items, 'competitor');
-
-  const total = Math.round(s1 * WEIGHTS.S1_policy + s2 * WEIGHTS.S2_funding + s3 * WEIGHTS.S3_competitor);
-  const clampedTotal = Math.min(100, Math.max(0, total));
+export function combineTrackScores(
+  s1: number,
+  s2: number,
+  s3: number,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): OpportunityScoreResult {
+  const { weights } = profile;
+  const total = clampScore(s1 * weights.policy + s2 * weights.investment + s3 * weights.competitor);
 
   return {
-    total: clampedTotal,
+    total,
     s1,
     s2,
     s3,
-    shouldAlert: clampedTotal >= ALERT_THRESHOLD,
-    isHighPriority: clampedTotal >= HIGH_PRIORITY_THRESHOLD,
+    shouldAlert: total >= profile.alertThreshold,
+    isHighPriority: total >= profile.highPriorityThreshold,
   };
 }
 
+/**
+ * 뉴스 아이템으로부터 Opportunity Score 산출
+ */
+export function calculateOpportunityScore(
+  items: RssItem[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  now = Date.now(),
+): OpportunityScoreResult {
+  return combineTrackScores(
+    computeTrackScore(items, 'policy', profile, now),
+    computeTrackScore(items, 'investment', profile, now),
+    computeTrackScore(items, 'competitor', profile, now),
+    profile,
+  );
+}
+
 export { ALERT_THRESHOLD, HIGH_PRIORITY_THRESHOLD };
@@ -0,0 +1,62 @@
+/**
+ * SROI 계산 CSV — 성과 한 줄에 세션 합계를 함께 적어 스프레드시트에서 바로 검산 가능
+ */
+
+import { calculateSroi, type SroiModel } from './engine';
+import { irisCategory } from './iris';
+
+export interface SroiCsvSession {
+  id: string;
+  date: string;
+  title: string;
+  model: SroiModel;
+  insight: string;
+}
+
+export const SROI_CSV_HEADER = [
+  'session_id', 'date', 'title', 'investment', 'discount_rate',
+  'stakeholder', 'outcome', 'indicator', 'quantity', 'proxy_value', 'proxy_source',
+  'deadweight', 'attribution', 'displacement', 'drop_off', 'duration_years', 'iris_category',
+  'gross_value', 'annual_impact', 'present_value',
+  'total_present_value', 'net_present_value', 'sroi_ratio', 'insight',
+] as const;
+
+export function escapeCSV(val: string): string {
+  if (val.includes(',') || val.includes('"') || val.includes('\n')) {
+    return `"${val.replace(/"/g, '""')}"`;
+  }
+  return val;
+}
+
+const money = (v: number): string => String(Math.round(v));
+const share = (v: number): string => String(Number(v.toFixed(4)));
+
+/** 세션마다 성과 수만큼 행 — 성과가 없는 세션도 합계 한 줄은 남김 */
+export function sroiSessionsToCSV(sessions: SroiCsvSession[]): string {
+  const rows: string[][] = [];
+  for (const session of sessions) {
+    const { model } = session;
+    const result = calculateSroi(model);
+    const head = [session.id, session.date, session.title, money(model.investment), share(model.discountRate)];
+    const tail = [money(result.totalPresentValue), money(result.netPresentValue), result.ratio.toFixed(2), session.insight];
+    const stakeholderName = new Map(model.stakeholders.map((s) => [s.id, s.name]));
+
+    if (model.outcomes.length === 0) {
+      rows.push([...head, ...Array<string>(15).fill(''), ...tail]);
+      continue;
+    }
+    model.outcomes.forEach((o, i) => {
+      const r = result.outcomes[i]!;
+      rows.push([
+        ...head,
+        stakeholderName.get(o.stakeholderId) ?? '', o.description, o.indicator,
+        String(o.quantity), money(o.proxyValue), o.proxySource,
+        share(o.deadweight), share(o.attribution), share(o.displacement), share(o.dropOff),
+        String(r.yearlyValues.length), irisCategory(o.irisCategory)?.label ?? '',
+        money(r.grossValue), money(r.annualImpact), money(r.presentValue),
+        ...tail,
+      ]);
+    });
+  }
+  return [SROI_CSV_HEADER.join(','), ...rows.map((row) => row.map(escapeCSV).join(','))].join('\n');
+}
@@ -0,0 +1,265 @@
+/**
+ * SROI 계산 엔진 — SROI Network 가이드의 6단계 중 3–5단계 (성과 화폐화 → 임팩트 확정 → 비율 산출)
+ *
+ * 이해관계자별 성과마다 재무 프록시 × 수량으로 연간 가치를 구하고
+ * 사중손실(deadweight)·기여도(attribution)·대체효과(displacement)를 뺀 뒤,
+ * 지속 기간 동안 감소율(drop-off)을 적용해 할인율로 현재가치를 합산.
+ * 순수 함수만 있어 UI·내보내기·테스트가 같은 계산을 사용.
+ */
+
+export interface SroiStakeholder {
+  id: string;
+  name: string;
+  /** 이해관계자 규모 설명 (예: "교사 30명") */
+  description: string;
+}
+
+export interface SroiOutcome {
+  id: string;
+  stakeholderId: string;
+  /** 변화 내용 (예: "이직 감소로 충원 비용 절감") */
+  description: string;
+  /** 측정 지표 (예: "연간 이직자 수 감소") */
+  indicator: string;
+  /** 연간 성과 수량 (명, 시간, 건 …) */
+  quantity: number;
+  /** 단위당 재무 프록시 (원) */
+  proxyValue: number;
+  proxySource: string;
+  /** 0–1: 개입이 없어도 일어났을 비율 */
+  deadweight: number;
+  /** 0–1: 다른 주체의 기여 비율 */
+  attribution: number;
+  /** 0–1: 다른 곳의 성과를 옮겨 온 비율 */
+  displacement: number;
+  /** 0–1: 2년차부터 매년 줄어드는 비율 */
+  dropOff: number;
+  /** 성과 지속 연수 (1년 이상) */
+  durationYears: number;
+  /** IRIS+ 카테고리 id (iris.ts) */
+  irisCategory: string;
+}
+
+export interface SroiModel {
+  title: string;
+  /** 총 투입 비용 (원) — sroi_sessions.input_amount */
+  investment: number;
+  investmentDescription: string;
+  /** 0–1 연 할인율 */
+  discountRate: number;
+  stakeholders: SroiStakeholder[];
+  outcomes: SroiOutcome[];
+}
+
+export interface SroiOutcomeResult {
+  outcomeId: string;
+  /** 수량 × 프록시 (조정 전) */
+  grossValue: number;
+  /** 사중손실·기여도·대체효과를 뺀 1년차 가치 */
+  annualImpact: number;
+  /** 연차별 감소율 적용 가치 (할인 전) */
+  yearlyValues: number[];
+  presentValue: number;
+}
+
+export interface SroiResult {
+  outcomes: SroiOutcomeResult[];
+  /** 연차별 전체 가치 (할인 전) */
+  yearlyTotals: number[];
+  totalPresentValue: number;
+  /** 현재가치 − 투입 비용 */
+  netPresentValue: number;
+  /** 현재가치 ÷ 투입 비용 — 투입 비용이 0이면 0 */
+  ratio: number;
+}
+
+export const MAX_DURATION_YEARS = 10;
+export const DEFAULT_DISCOUNT_RATE = 0.035;
+
+const clampShare = (value: number): number => (Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0);
+const nonNegative = (value: number): number => (Number.isFinite(value) ? Math.max(0, value) : 0);
+const clampYears = (value: number): number =>
+  Math.min(MAX_DURATION_YEARS, Math.max(1, Math.round(Number.isFinite(value) ? value : 1)));
+
+/** 성과 하나의 연간 임팩트 — 수량 × 프록시 × (1−사중) × (1−기여) × (1−대체) */
+export function outcomeAnnualImpact(outcome: SroiOutcome): number {
+  return nonNegative(outcome.quantity) * nonNegative(outcome.proxyValue)
+    * (1 - clampShare(outcome.deadweight))
+    * (1 - clampShare(outcome.attribution))
+    * (1 - clampShare(outcome.displacement));
+}
+
+export function calculateOutcome(outcome: SroiOutcome, discountRate: number): SroiOutcomeResult {
+  const rate = nonNegative(discountRate);
+  const annualImpact = outcomeAnnualImpact(outcome);
+  const dropOff = clampShare(outcome.dropOff);
+  const yearlyValues: number[] = [];
+  let presentValue = 0;
+  for (let year = 1; year <= clampYears(outcome.durationYears); year++) {
+    const value = annualImpact * (1 - dropOff) ** (year - 1);
+    yearlyValues.push(value);
+    presentValue += value / (1 + rate) ** year;
+  }
+  return {
+    outcomeId: outcome.id,
+    grossValue: nonNegative(outcome.quantity) * nonNegative(outcome.proxyValue),
+    annualImpact,
+    yearlyValues,
+    presentValue,
+  };
+}
+
+export function calculateSroi(model: SroiModel): SroiResult {
+  const outcomes = model.outcomes.map((o) => calculateOutcome(o, model.discountRate));
+  const horizon = outcomes.reduce((max, o) => Math.max(max, o.yearlyValues.length), 0);
+  const yearlyTotals = Array.from({ length: horizon }, (_, i) =>
+    outcomes.reduce((sum, o) => sum + (o.yearlyValues[i] ?? 0), 0));
+  const totalPresentValue = outcomes.reduce((sum, o) => sum + o.presentValue, 0);
+  const investment = nonNegative(model.investment);
+  return {
+    outcomes,
+    yearlyTotals,
+    totalPresentValue,
+    netPresentValue: totalPresentValue - investment,
+    ratio: investment > 0 ? totalPresentValue / investment : 0,
+  };
+}
+
+// ========================================================================
+// 민감도 분석 (토네이도 차트)
+// ========================================================================
+
+export type SensitivityParameter = 'proxyValue' | 'quantity' | 'deadweight' | 'attribution' | 'dropOff' | 'durationYears' | 'discountRate';
+
+export const SENSITIVITY_LABELS: Record<SensitivityParameter, string> = {
+  proxyValue: '재무 프록시',
+  quantity: '성과 수량',
+  deadweight: '사중손실',
+  attribution: '기여도',
+  dropOff: '감소율',
+  durationYears: '지속 기간',
+  discountRate: '할인율',
+};
+
+export interface SensitivityBar {
+  key: string;
+  label: string;
+  parameter: SensitivityParameter;
+  outcomeId: string | null;
+  /** 변수를 불리하게/유리하게 바꿨을 때 SROI 비율 */
+  lowRatio: number;
+  highRatio: number;
+  /** highRatio − lowRatio */
+  swing: number;
+}
+
+export interface SensitivityOptions {
+  /** 수량·프록시 변동 폭 (기본 ±20%) */
+  relativeShift?: number;
+  /** 사중손실·기여도·감소율 변동 폭 (기본 ±10%p) */
+  shareShift?: number;
+  /** 할인율 변동 폭 (기본 ±2%p) */
+  rateShift?: number;
+  /** 지속 기간 변동 폭 (기본 ±1년) */
+  yearShift?: number;
+}
+
+function withOutcome(model: SroiModel, outcomeId: string, patch: Partial<SroiOutcome>): SroiModel {
+  return { ...model, outcomes: model.outcomes.map((o) => (o.id === outcomeId ? { ...o, ...patch } : o)) };
+}
+
+/**
+ * 변수를 하나씩 흔들어 SROI 비율 변동 폭을 구함 — 폭이 큰 순서 (토네이도)
+ * 비율이 0이면(투입 비용 없음) 빈 배열
+ */
+export function sensitivityAnalysis(model: SroiModel, options: SensitivityOptions = {}): SensitivityBar[] {
+  const { relativeShift = 0.2, shareShift = 0.1, rateShift = 0.02, yearShift = 1 } = options;
+  if (calculateSroi(model).ratio === 0) return [];
+
+  const ratioOf = (m: SroiModel) => calculateSroi(m).ratio;
+  const bars: SensitivityBar[] = [];
+  const push = (parameter: SensitivityParameter, outcomeId: string | null, label: string, a: SroiModel, b: SroiModel) => {
+    const [lowRatio, highRatio] = [ratioOf(a), ratioOf(b)].sort((x, y) => x - y) as [number, number];
+    bars.push({ key: `${outcomeId ?? 'model'}:${parameter}`, label, parameter, outcomeId, lowRatio, highRatio, swing: highRatio - lowRatio });
+  };
+
+  for (const o of model.outcomes) {
+    if (outcomeAnnualImpact(o) === 0) continue;
+    const name = o.description || o.indicator || o.id;
+    const label = (p: SensitivityParameter) => `${name} · ${SENSITIVITY_LABELS[p]}`;
+    push('proxyValue', o.id, label('proxyValue'),
+      withOutcome(model, o.id, { proxyValue: o.proxyValue * (1 - relativeShift) }),
+      withOutcome(model, o.id, { proxyValue: o.proxyValue * (1 + relativeShift) }));
+    push('quantity', o.id, label('quantity'),
+      withOutcome(model, o.id, { quantity: o.quantity * (1 - relativeShift) }),
+      withOutcome(model, o.id, { quantity: o.quantity * (1 + relativeShift) }));
+    for (const p of ['deadweight', 'attribution', 'dropOff'] as const) {
+      push(p, o.id, label(p),
+        withOutcome(model, o.id, { [p]: clampShare(o[p] + shareShift) }),
+        withOutcome(model, o.id, { [p]: clampShare(o[p] - shareShift) }));
+    }
+    push('durationYears', o.id, label('durationYears'),
+      withOutcome(model, o.id, { durationYears: clampYears(o.durationYears - yearShift) }),
+      withOutcome(model, o.id, { durationYears: clampYears(o.durationYears + yearShift) }));
+  }
+  push('discountRate', null, SENSITIVITY_LABELS.discountRate,
+    { ...model, discountRate: model.discountRate + rateShift },
+    { ...model, discountRate: Math.max(0, model.discountRate - rateShift) });
+
+  return bars.filter((b) => b.swing > 0).sort((a, b) => b.swing - a.swing);
+}
+
+// ========================================================================
+// 모델 편집
+// ========================================================================
+
+const newId = (): string => crypto.randomUUID();
+
+export function createStakeholder(name = ''): SroiStakeholder {
+  return { id: newId(), name, description: '' };
+}
+
+export function createOutcome(stakeholderId: string): SroiOutcome {
+  return {
+    id: newId(),
+    stakeholderId,
+    description: '',
+    indicator: '',
+    quantity: 0,
+    proxyValue: 0,
+    proxySource: '',
+    deadweight: 0,
+    attribution: 0,
+    displacement: 0,
+    dropOff: 0,
+    durationYears: 1,
+    irisCategory: '',
+  };
+}
+
+/** 이해관계자를 지우면 그 성과도 함께 지움 */
+export function removeStakeholder(model: SroiModel, stakeholderId: string): SroiModel {
+  return {
+    ...model,
+    stakeholders: model.stakeholders.filter((s) => s.id !== stakeholderId),
+    outcomes: model.outcomes.filter((o) => o.stakeholderId !== stakeholderId),
+  };
+}
+
+/** Gap Check에 함께 보낼 계산 요약 — 한 줄에 성과 하나 */
+export function describeSroi(model: SroiModel, result: SroiResult = calculateSroi(model)): string {
+  const won = (v: number) => `${Math.round(v).toLocaleString('ko-KR')}원`;
+  const pct = (v: number) => `${Math.round(clampShare(v) * 100)}%`;
+  const stakeholderName = new Map(model.stakeholders.map((s) => [s.id, s.name]));
+  const lines = model.outcomes.map((o, i) => {
+    const r = result.outcomes[i]!;
+    return `- [${stakeholderName.get(o.stakeholderId) || '이해관계자'}] ${o.description || o.indicator}: `
+      + `${o.quantity} × ${won(o.proxyValue)} (사중 ${pct(o.deadweight)}, 기여 ${pct(o.attribution)}, 대체 ${pct(o.displacement)}, `
+      + `감소 ${pct(o.dropOff)}, ${clampYears(o.durationYears)}년) → 현재가치 ${won(r.presentValue)}`;
+  });
+  return [
+    `투입 비용 ${won(model.investment)}, 할인율 ${(nonNegative(model.discountRate) * 100).toFixed(1)}%`,
+    ...lines,
+    `총 현재가치 ${won(result.totalPresentValue)}, 순현재가치 ${won(result.netPresentValue)}, SROI ${result.ratio.toFixed(2)}:1`,
+  ].join('\n');
+}
@@ -0,0 +1,179 @@
+/**
+ * SROI 세션 저장소 — sroi_sessions 테이블과 localStorage
+ *
+ * 계산 입력(이해관계자·성과·프록시·조정 비율)은 outputs JSONB에 그대로 넣어
+ * 내보내기·재계산이 저장된 행만으로 가능하도록 함.
+ * Supabase에 쓰지 못해도 로컬 기록은 남김.
+ */
+
+import { storage } from '../../utils/storage';
+import { repositories, type SroiSessionRow } from '../repository';
+import type { SroiScenario } from '../study/types';
+import {
+  DEFAULT_DISCOUNT_RATE,
+  calculateSroi,
+  createOutcome,
+  createStakeholder,
+  type SroiModel,
+  type SroiOutcome,
+  type SroiStakeholder,
+} from './engine';
+
+export * from './engine';
+export { IRIS_CATEGORIES, irisCategory, suggestIrisCategory, type IrisCategory } from './iris';
+
+const STORAGE_KEY = 'careradar_sroi_sessions';
+const MAX_LOCAL_SESSIONS = 200;
+
+export interface SroiSessionRecord {
+  id: string;
+  date: string;
+  title: string;
+  model: SroiModel;
+  totalPresentValue: number;
+  netPresentValue: number;
+  ratio: number;
+  irisCategories: string[];
+  insight: string;
+  sourceSite: string;
+  dataBadge: 'real' | 'synthetic' | 'mixed';
+  createdAt: string;
+}
+
+/** sroi_sessions.outputs JSONB */
+interface SroiOutputs {
+  discount_rate: number;
+  net_present_value: number;
+  stakeholders: SroiStakeholder[];
+  outcomes: Array<SroiOutcome & { present_value: number; annual_impact: number }>;
+}
+
+/**
+ * 시나리오에서 출발 모델 — 현장 이해관계자 셋과 빈 성과 하나
+ * 수치는 학습자가 채움
+ */
+export function starterSroiModel(scenario?: SroiScenario | null): SroiModel {
+  const stakeholders = [createStakeholder('종사자 (교사·돌봄인력)'), createStakeholder('이용자 (발달장애인)'), createStakeholder('가족')];
+  if (scenario?.site) stakeholders[0]!.description = scenario.site;
+  return {
+    title: scenario?.learningFocus || scenario?.site || 'SROI 산출',
+    investment: 0,
+    investmentDescription: '',
+    discountRate: DEFAULT_DISCOUNT_RATE,
+    stakeholders,
+    outcomes: [createOutcome(stakeholders[0]!.id)],
+  };
+}
+
+/** 성과에 태그된 IRIS+ 카테고리 (중복 제거, 입력 순서) */
+export function collectIrisCategories(model: SroiModel): string[] {
+  return [...new Set(model.outcomes.map((o) => o.irisCategory).filter(Boolean))];
+}
+
+export function buildSroiSessionRecord(
+  id: string,
+  model: SroiModel,
+  insight: string,
+  sourceSite = '',
+  dataBadge: SroiSessionRecord['dataBadge'] = 'synthetic',
+): SroiSessionRecord {
+  const result = calculateSroi(model);
+  const createdAt = new Date().toISOString();
+  return {
+    id,
+    date: createdAt.slice(0, 10),
+    title: model.title || 'SROI 산출',
+    model,
+    totalPresentValue: result.totalPresentValue,
+    netPresentValue: result.netPresentValue,
+    ratio: result.ratio,
+    irisCategories: collectIrisCategories(model),
+    insight,
+    sourceSite,
+    dataBadge,
+    createdAt,
+  };
+}
+
+function toRow(record: SroiSessionRecord): SroiSessionRow {
+  const result = calculateSroi(record.model);
+  const outputs: SroiOutputs = {
+    discount_rate: record.model.discountRate,
+    net_present_value: Math.round(record.netPresentValue),
+    stakeholders: record.model.stakeholders,
+    outcomes: record.model.outcomes.map((o, i) => ({
+      ...o,
+      annual_impact: Math.round(result.outcomes[i]!.annualImpact),
+      present_value: Math.round(result.outcomes[i]!.presentValue),
+    })),
+  };
+  return {
+    id: record.id,
+    date: record.date,
+    title: record.title,
+    scenario_type: 'ai_scenario',
+    data_badge: record.dataBadge,
+    input_description: record.model.investmentDescription,
+    input_amount: Math.round(record.model.investment),
+    outputs,
+    total_output: Math.round(record.totalPresentValue),
+    sroi_ratio: Number(record.ratio.toFixed(4)),
+    iris_categories: record.irisCategories,
+    my_insight: record.insight,
+    source_project: 'carevia',
+    source_site: record.sourceSite,
+    created_at: record.createdAt,
+  };
+}
+
+function fromRow(row: SroiSessionRow): SroiSessionRecord | null {
+  const outputs = row.outputs as Partial<SroiOutputs> | null;
+  if (!outputs || !Array.isArray(outputs.outcomes)) return null;
+  const model: SroiModel = {
+    title: String(row.title ?? ''),
+    investment: Number(row.input_amount ?? 0),
+    investmentDescription: String(row.input_description ?? ''),
+    discountRate: Number(outputs.discount_rate ?? DEFAULT_DISCOUNT_RATE),
+    stakeholders: outputs.stakeholders ?? [],
+    outcomes: outputs.outcomes.map(({ present_value: _pv, annual_impact: _ai, ...o }) => o),
+  };
+  return {
+    id: String(row.id ?? ''),
+    date: String(row.date ?? ''),
+    title: model.title,
+    model,
+    totalPresentValue: Number(row.total_output ?? 0),
+    netPresentValue: Number(outputs.net_present_value ?? 0),
+    ratio: Number(row.sroi_ratio ?? 0),
+    irisCategories: Array.isArray(row.iris_categories) ? (row.iris_categories as string[]) : [],
+    insight: String(row.my_insight ?? ''),
+    sourceSite: String(row.source_site ?? ''),
+    dataBadge: (row.data_badge as SroiSessionRecord['dataBadge']) ?? 'synthetic',
+    createdAt: String(row.created_at ?? ''),
+  };
+}
+
+export function loadLocalSroiSessions(): SroiSessionRecord[] {
+  return storage.get<SroiSessionRecord[]>(STORAGE_KEY, []);
+}
+
+/** 로컬에 먼저 남기고 sroi_sessions에 upsert */
+export async function saveSroiSession(record: SroiSessionRecord): Promise<void> {
+  const local = [record, ...loadLocalSroiSessions().filter((s) => s.id !== record.id)].slice(0, MAX_LOCAL_SESSIONS);
+  storage.set(STORAGE_KEY, local);
+
+  const result = await repositories.sroiSessions.upsert(toRow(record));
+  if (!result.ok && result.reason === 'error') console.warn('[SROI] sroi_sessions upsert failed (kept locally):', result.message);
+}
+
+/** sroi_sessions 최신순 — 읽지 못하거나 비어 있으면 로컬 기록 */
+export async function loadSroiSessions(): Promise<SroiSessionRecord[]> {
+  const result = await repositories.sroiSessions.list({ orderBy: 'created_at' });
+  if (result.ok) {
+    const records = result.data.map(fromRow).filter((r): r is SroiSessionRecord => r !== null);
+    if (records.length > 0) return records;
+  } else if (result.reason === 'error') {
+    console.warn('[SROI] sroi_sessions load failed:', result.message);
+  }
+  return loadLocalSroiSessions().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,55 @@
+/**
+ * IRIS+ Impact Categories (GIIN) — 성과 태그와 sroi_sessions.iris_categories 값
+ *
+ * 케어 분야에서 쓰는 카테고리만 키워드를 두어 성과 설명에서 추천하고,
+ * 나머지는 선택 목록에만 노출.
+ */
+
+export interface IrisCategory {
+  id: string;
+  label: string;
+  labelKo: string;
+  /** 성과 설명·지표에 나오면 이 카테고리를 추천 */
+  keywords: string[];
+}
+
+export const IRIS_CATEGORIES: IrisCategory[] = [
+  { id: 'health', label: 'Health', labelKo: '보건·돌봄', keywords: ['건강', '돌봄', '의료', '치료', '행동', '스트레스', '정신', '재활', '입원', '사고'] },
+  { id: 'education', label: 'Education', labelKo: '교육', keywords: ['교육', '학습', '학교', '교사', '특수교육', '훈련'] },
+  { id: 'employment', label: 'Employment', labelKo: '고용', keywords: ['고용', '이직', '채용', '일자리', '근로', '인건비', '종사자', '업무 시간', '행정'] },
+  { id: 'diversity-inclusion', label: 'Diversity & Inclusion', labelKo: '다양성·포용', keywords: ['장애', '발달장애', '포용', '사회참여', '차별', '가족'] },
+  { id: 'financial-services', label: 'Financial Services', labelKo: '금융 서비스', keywords: ['소득', '금융', '보조금', '수당'] },
+  { id: 'infrastructure', label: 'Infrastructure', labelKo: '인프라', keywords: ['시설', '디지털 전환', '시스템'] },
+  { id: 'real-estate', label: 'Real Estate', labelKo: '부동산', keywords: ['주거', '그룹홈'] },
+  { id: 'agriculture', label: 'Agriculture', labelKo: '농업', keywords: [] },
+  { id: 'air', label: 'Air', labelKo: '대기', keywords: [] },
+  { id: 'biodiversity', label: 'Biodiversity & Ecosystems', labelKo: '생물다양성', keywords: [] },
+  { id: 'climate', label: 'Climate', labelKo: '기후', keywords: [] },
+  { id: 'energy', label: 'Energy', labelKo: '에너지', keywords: [] },
+  { id: 'land', label: 'Land', labelKo: '토지', keywords: [] },
+  { id: 'oceans', label: 'Oceans & Coastal Zones', labelKo: '해양', keywords: [] },
+  { id: 'pollution', label: 'Pollution', labelKo: '오염', keywords: [] },
+  { id: 'waste', label: 'Waste', labelKo: '폐기물', keywords: [] },
+  { id: 'water', label: 'Water', labelKo: '수자원', keywords: [] },
+];
+
+const BY_ID = new Map(IRIS_CATEGORIES.map((c) => [c.id, c]));
+
+export function irisCategory(id: string): IrisCategory | undefined {
+  return BY_ID.get(id);
+}
+
+/** 성과 설명·지표와 키워드가 가장 많이 겹치는 카테고리 id — 없으면 '' */
+export function suggestIrisCategory(text: string): string {
+  const lower = text.toLowerCase();
+  let best = '';
+  let bestHits = 0;
+  for (const category of IRIS_CATEGORIES) {
+    const hits = category.keywords.filter((k) => lower.includes(k)).length;
+    if (hits > bestHits) {
+      best = category.id;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,134 @@
+/**
+ * 인사이트 실무 적용 — 적용 표시 · 활용 문서(IR/제안서 …) · 나중에 적는 결과
+ *
+ * 지식 항목 id 기준으로 기록하고, 세션 인사이트(`study-<세션 id>`)는
+ * insights.applied_* · used_in 컬럼으로도 저장. 대시보드 집계는 여기서.
+ */
+
+import type { ExportDocumentType, UsedInRecord } from '../exportService';
+import type { KnowledgeItem } from '../../stores/knowledgeStore';
+import type { InsightRow } from '../repository/types';
+import { COMPETENCIES, competencyForType, type CompetencyKey } from './competencies';
+
+export interface InsightApplication {
+  /** 지식 항목 id */
+  insightId: string;
+  /** 세션 인사이트면 세션 id — insights 행 키 */
+  sessionId?: string;
+  applied: boolean;
+  description: string;
+  /** YYYY-MM-DD */
+  appliedDate: string | null;
+  outcome: string;
+  outcomeDate: string | null;
+  usedIn: UsedInRecord[];
+  updatedAt: string;
+}
+
+export function emptyApplication(insightId: string, sessionId?: string): InsightApplication {
+  return {
+    insightId,
+    sessionId,
+    applied: false,
+    description: '',
+    appliedDate: null,
+    outcome: '',
+    outcomeDate: null,
+    usedIn: [],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function applicationColumns(app: InsightApplication): Pick<InsightRow,
+  'applied_in_practice' | 'applied_description' | 'applied_date' | 'applied_outcome' | 'used_in'> {
+  return {
+    applied_in_practice: app.applied,
+    applied_description: app.description || null,
+    applied_date: app.appliedDate,
+    applied_outcome: app.outcome || null,
+    used_in: app.usedIn,
+  };
+}
+
+export interface CompetencyApplicationStat {
+  key: CompetencyKey | 'other';
+  label: string;
+  insights: number;
+  applied: number;
+  /** 적용 후 결과까지 적은 수 */
+  withOutcome: number;
+  /** applied / insights (0~1) */
+  rate: number;
+}
+
+/** 역량별 실무 적용률 — 세션이 아닌 메모는 "메모·기타"로 (있을 때만) */
+export function applicationRateByCompetency(
+  items: KnowledgeItem[],
+  applications: Record<string, InsightApplication>,
+): CompetencyApplicationStat[] {
+  const buckets = new Map<CompetencyKey | 'other', CompetencyApplicationStat>([
+    ...COMPETENCIES.map((c) => [c.key, { key: c.key, label: c.label, insights: 0, applied: 0, withOutcome: 0, rate: 0 }] as const),
+    ['other', { key: 'other', label: '메모·기타', insights: 0, applied: 0, withOutcome: 0, rate: 0 }],
+  ]);
+
+  for (const item of items) {
+    const bucket = buckets.get(competencyForType(item.sourceSession?.type)?.key ?? 'other')!;
+    const app = applications[item.id];
+    bucket.insights += 1;
+    if (app?.applied) {
+      bucket.applied += 1;
+      if (app.outcome.trim()) bucket.withOutcome += 1;
+    }
+  }
+
+  return [...buckets.values()]
+    .filter((b) => b.key !== 'other' || b.insights > 0)
+    .map((b) => ({ ...b, rate: b.insights ? b.applied / b.insights : 0 }));
+}
+
+/** 인용 집계 기본 대상 — 외부에 내는 IR·제안서 */
+export const CITATION_DOCUMENT_TYPES: ExportDocumentType[] = ['IR', 'proposal'];
+
+export interface CitedInsight {
+  item: KnowledgeItem;
+  citations: number;
+  byType: Partial<Record<ExportDocumentType, number>>;
+  documents: string[];
+  lastUsedAt: string;
+}
+
+/** 문서에 가장 많이 인용된 인사이트 — 인용 수, 같으면 최근 인용 순 */
+export function mostCitedInsights(
+  items: KnowledgeItem[],
+  applications: Record<string, InsightApplication>,
+  { types = CITATION_DOCUMENT_TYPES, limit = 5 }: { types?: ExportDocumentType[]; limit?: number } = {},
+): CitedInsight[] {
+  const cited: CitedInsight[] = [];
+  for (const item of items) {
+    const uses = (applications[item.id]?.usedIn ?? []).filter((u) => types.includes(u.document_type));
+    if (uses.length === 0) continue;
+    const byType: Partial<Record<ExportDocumentType, number>> = {};
+    for (const use of uses) byType[use.document_type] = (byType[use.document_type] ?? 0) + 1;
+    cited.push({
+      item,
+      citations: uses.length,
+      byType,
+      documents: [...new Set(uses.map((u) => u.document_name))],
+      lastUsedAt: uses.reduce((max, u) => (u.used_at > max ? u.used_at : max), ''),
+    });
+  }
+  return cited
+    .sort((a, b) => b.citations - a.citations || b.lastUsedAt.localeCompare(a.lastUsedAt))
+    .slice(0, limit);
+}
+
+/** 적용했지만 결과를 아직 안 적은 항목 — 적용일이 오래된 순 */
+export function awaitingOutcome(
+  items: KnowledgeItem[],
+  applications: Record<string, InsightApplication>,
+): Array<{ item: KnowledgeItem; application: InsightApplication }> {
+  return items
+    .map((item) => ({ item, application: applications[item.id] }))
+    .filter((e): e is { item: KnowledgeItem; application: InsightApplication } => !!e.application?.applied && !e.application.outcome.trim())
+    .sort((a, b) => (a.application.appliedDate ?? '').localeCompare(b.application.appliedDate ?? ''));
+}
@@ -0,0 +1,24 @@
+/**
+ * 역량 축 — 세션 종류를 다섯 역량으로 묶음 (역량 레이더·실무 적용 대시보드 공통)
+ */
+
+export type CompetencyKey = 'financial' | 'pricing' | 'impact' | 'policy' | 'competition';
+
+export interface Competency {
+  key: CompetencyKey;
+  label: string;
+  types: string[];
+}
+
+export const COMPETENCIES: Competency[] = [
+  { key: 'financial', label: '재무 분석', types: ['financial'] },
+  { key: 'pricing', label: '가격 설계', types: ['pricing'] },
+  { key: 'impact', label: '임팩트', types: ['sroi'] },
+  { key: 'policy', label: '정책/규제', types: ['regulation', 'custom'] },
+  { key: 'competition', label: '경쟁 분석', types: ['benchmark', 'pitch'] },
+];
+
+/** 세션 종류 → 역량 (메모처럼 세션이 아닌 항목은 undefined) */
+export function competencyForType(type: string | undefined): Competency | undefined {
+  return type ? COMPETENCIES.find((c) => c.types.includes(type)) : undefined;
+}
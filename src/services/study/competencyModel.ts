@@ -0,0 +1,336 @@
+/**
+ * 근거 기반 역량 모델 — 세션 수 대신 Depth 점수 · Gap Check · 자기 평가 · 실무 적용 결과로 역량과 레벨(L1–L3)을 추정
+ *
+ * 세션마다 근거 점수(0–1)를 만들고 반감기(45일)로 오래된 근거의 무게를 줄여 합산.
+ * 숙련도 = 근거 평균 × 확신도(최근 근거량) — 오래전에 잘한 세션 하나로 역량이 높게 나오지 않음.
+ * 주간·월간 cumulative_feedback 행(사각지대·강점·레벨 권고·추이)도 여기서 만든다.
+ */
+
+import type { CompletedSession } from '../../stores/studyStore';
+import type { CumulativeFeedbackRow, FeedbackPeriod } from '../repository/types';
+import type { InsightApplication } from './applications';
+import { COMPETENCIES, competencyForType, type CompetencyKey } from './competencies';
+import { localDate } from './records';
+import { DEPTH_DIMENSIONS, DEPTH_DIMENSION_LABELS, DEPTH_SCORE_MAX, type DepthDimension } from './types';
+
+const DAY_MS = 86_400_000;
+export const HALF_LIFE_DAYS = 45;
+
+/** 세션 근거 점수의 신호별 가중치 — 없는 신호는 빼고 나머지로 정규화 */
+const SIGNAL_WEIGHTS = { depth: 0.4, coverage: 0.3, application: 0.2, selfRating: 0.1 } as const;
+/** Gap Check·Depth가 없는 세션(평가 전 기록, 자동 비교 실패)은 완료 자체만 약한 근거로 */
+const COMPLETION_ONLY_SCORE = 0.3;
+/** 확신도 1 - e^(-근거량/3) — 최근 세션 3회면 63% */
+const CONFIDENCE_SCALE = 3;
+const GAP_CREDIT = { covered: 1, inaccurate: 0.25, missed: 0 } as const;
+
+export type CompetencyLevel = 'L1' | 'L2' | 'L3';
+
+export const LEVEL_RULES = {
+  L2: { quality: 0.5, evidence: 3, outcomes: 0 },
+  L3: { quality: 0.7, evidence: 6, outcomes: 1 },
+} as const;
+
+export interface SessionEvidence {
+  sessionId: string;
+  competency: CompetencyKey;
+  at: string;
+  /** 0–1 */
+  score: number;
+  depth: number | null;
+  coverage: number | null;
+  selfRating: number | null;
+  application: number | null;
+  depthByDimension: Partial<Record<DepthDimension, number>>;
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((s, v) => s + v, 0) / values.length : null);
+
+function applicationScore(app: InsightApplication | undefined): number | null {
+  if (!app) return null;
+  if (app.applied) return app.outcome.trim() ? 1 : 0.7;
+  return app.usedIn.length > 0 ? 0.5 : null;
+}
+
+export function sessionEvidence(session: CompletedSession, app?: InsightApplication): SessionEvidence | null {
+  const competency = competencyForType(session.type);
+  if (!competency) return null;
+
+  const depthByDimension: Partial<Record<DepthDimension, number>> = {};
+  for (const d of session.depthScores ?? []) depthByDimension[d.dimension] = d.score / DEPTH_SCORE_MAX;
+  const depth = mean(Object.values(depthByDimension));
+  const coverage = mean((session.gaps ?? []).map((g) => GAP_CREDIT[g.kind] ?? 0));
+  const selfRating = session.selfRating ? (session.selfRating - 1) / 4 : null;
+  const application = applicationScore(app);
+
+  const signals: Array<[number, number | null]> = [
+    [SIGNAL_WEIGHTS.depth, depth],
+    [SIGNAL_WEIGHTS.coverage, coverage],
+    [SIGNAL_WEIGHTS.application, application],
+  ];
+  const measured = signals.some(([, v]) => v !== null);
+  // 자기 평가만으로는 점수를 올리지 않음 — 측정된 근거가 있을 때만 보탬
+  if (measured) signals.push([SIGNAL_WEIGHTS.selfRating, selfRating]);
+  const present = signals.filter((s): s is [number, number] => s[1] !== null);
+  const score = measured
+    ? present.reduce((sum, [w, v]) => sum + w * v, 0) / present.reduce((sum, [w]) => sum + w, 0)
+    : COMPLETION_ONLY_SCORE;
+
+  return { sessionId: session.id, competency: competency.key, at: session.completedAt, score, depth, coverage, selfRating, application, depthByDimension };
+}
+
+/** 완료 세션 + 실무 적용 기록 → 세션별 근거 */
+export function collectEvidence(
+  sessions: CompletedSession[],
+  applications: Record<string, InsightApplication> = {},
+): SessionEvidence[] {
+  const bySession = new Map<string, InsightApplication>();
+  for (const app of Object.values(applications)) {
+    if (!app.sessionId) continue;
+    const current = bySession.get(app.sessionId);
+    if (!current || (applicationScore(app) ?? 0) > (applicationScore(current) ?? 0)) bySession.set(app.sessionId, app);
+  }
+  return sessions
+    .map((s) => sessionEvidence(s, bySession.get(s.id)))
+    .filter((e): e is SessionEvidence => e !== null);
+}
+
+const decayWeight = (at: string, asOf: Date) => {
+  const ageDays = Math.max(0, (asOf.getTime() - new Date(at).getTime()) / DAY_MS);
+  return 0.5 ** (ageDays / HALF_LIFE_DAYS);
+};
+
+const upTo = (evidence: SessionEvidence[], asOf: Date) => evidence.filter((e) => new Date(e.at).getTime() <= asOf.getTime());
+
+export interface LevelStep {
+  level: CompetencyLevel;
+  needs: string[];
+}
+
+export interface CompetencyEstimate {
+  key: CompetencyKey;
+  label: string;
+  /** 화면 표시용 0–1 = quality × confidence */
+  proficiency: number;
+  /** 감쇠 가중 근거 평균 0–1 */
+  quality: number;
+  confidence: number;
+  /** 감쇠 가중 근거량 (최근 세션 1회 ≈ 1) */
+  evidence: number;
+  sessions: number;
+  /** 결과까지 기록한 실무 적용 수 */
+  outcomes: number;
+  /** 자기 평가 − 측정(Depth·Gap) 평균, +면 과대평가 */
+  calibration: number | null;
+  level: CompetencyLevel;
+  next: LevelStep | null;
+}
+
+function levelFor(quality: number, evidence: number, outcomes: number): CompetencyLevel {
+  const meets = (rule: (typeof LEVEL_RULES)[keyof typeof LEVEL_RULES]) =>
+    quality >= rule.quality && evidence >= rule.evidence && outcomes >= rule.outcomes;
+  if (meets(LEVEL_RULES.L3)) return 'L3';
+  if (meets(LEVEL_RULES.L2)) return 'L2';
+  return 'L1';
+}
+
+function nextStep(level: CompetencyLevel, quality: number, evidence: number, outcomes: number): LevelStep | null {
+  if (level === 'L3') return null;
+  const target = level === 'L1' ? 'L2' : 'L3';
+  const rule = LEVEL_RULES[target];
+  const needs: string[] = [];
+  if (evidence < rule.evidence) needs.push(`최근 세션 ${Math.ceil(rule.evidence - evidence)}회 더`);
+  if (quality < rule.quality) needs.push(`근거 평균 ${Math.round(quality * 100)}% → ${Math.round(rule.quality * 100)}%`);
+  if (outcomes < rule.outcomes) needs.push('결과까지 기록한 실무 적용 1건');
+  return { level: target, needs };
+}
+
+export function estimateCompetencies(evidence: SessionEvidence[], asOf: Date = new Date()): CompetencyEstimate[] {
+  const visible = upTo(evidence, asOf);
+  return COMPETENCIES.map(({ key, label }) => {
+    const own = visible.filter((e) => e.competency === key);
+    let mass = 0;
+    let weighted = 0;
+    for (const e of own) {
+      const w = decayWeight(e.at, asOf);
+      mass += w;
+      weighted += w * e.score;
+    }
+    const quality = mass > 0 ? weighted / mass : 0;
+    const confidence = 1 - Math.exp(-mass / CONFIDENCE_SCALE);
+    const outcomes = own.filter((e) => e.application === 1).length;
+    const calibrations = own
+      .map((e) => {
+        const measured = mean([e.depth, e.coverage].filter((v): v is number => v !== null));
+        return e.selfRating !== null && measured !== null ? e.selfRating - measured : null;
+      })
+      .filter((v): v is number => v !== null);
+    const level = levelFor(quality, mass, outcomes);
+    return {
+      key,
+      label,
+      proficiency: quality * confidence,
+      quality,
+      confidence,
+      evidence: mass,
+      sessions: own.length,
+      outcomes,
+      calibration: mean(calibrations),
+      level,
+      next: nextStep(level, quality, mass, outcomes),
+    };
+  });
+}
+
+/** Depth 관점별 감쇠 가중 평균 (0–1) — 점수가 한 번도 없으면 null */
+export function depthProfile(evidence: SessionEvidence[], asOf: Date = new Date()): Record<DepthDimension, number | null> {
+  const visible = upTo(evidence, asOf);
+  const profile = {} as Record<DepthDimension, number | null>;
+  for (const dimension of DEPTH_DIMENSIONS) {
+    let mass = 0;
+    let weighted = 0;
+    for (const e of visible) {
+      const value = e.depthByDimension[dimension];
+      if (value === undefined) continue;
+      const w = decayWeight(e.at, asOf);
+      mass += w;
+      weighted += w * value;
+    }
+    profile[dimension] = mass > 0 ? weighted / mass : null;
+  }
+  return profile;
+}
+
+export interface TrajectoryPoint {
+  date: string;
+  proficiency: Record<CompetencyKey, number>;
+  levels: Record<CompetencyKey, CompetencyLevel>;
+  /** 그 시점 Depth 평균 0–1 */
+  depth: number | null;
+}
+
+/** asOf에서 stepDays 간격으로 거슬러 points개 — 오래된 것부터 */
+export function competencyTrajectory(
+  evidence: SessionEvidence[],
+  asOf: Date = new Date(),
+  { points = 12, stepDays = 7 }: { points?: number; stepDays?: number } = {},
+): TrajectoryPoint[] {
+  return Array.from({ length: points }, (_, i) => {
+    const at = new Date(asOf.getTime() - (points - 1 - i) * stepDays * DAY_MS);
+    const estimates = estimateCompetencies(evidence, at);
+    const depths = Object.values(depthProfile(evidence, at)).filter((v): v is number => v !== null);
+    return {
+      date: localDate(at),
+      proficiency: Object.fromEntries(estimates.map((e) => [e.key, e.proficiency])) as Record<CompetencyKey, number>,
+      levels: Object.fromEntries(estimates.map((e) => [e.key, e.level])) as Record<CompetencyKey, CompetencyLevel>,
+      depth: mean(depths),
+    };
+  });
+}
+
+export interface FeedbackSignal {
+  kind: 'competency' | 'depth' | 'calibration';
+  key: string;
+  label: string;
+  score: number;
+  reason: string;
+}
+
+const BLIND_SPOT_QUALITY = 0.45;
+const BLIND_SPOT_DEPTH = 0.4;
+const STALE_EVIDENCE = 0.5;
+const OVERCONFIDENCE = 0.25;
+const STRENGTH_PROFICIENCY = 0.55;
+const STRENGTH_DEPTH = 0.7;
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+export function blindSpots(estimates: CompetencyEstimate[], depth: Record<DepthDimension, number | null>): FeedbackSignal[] {
+  const spots: FeedbackSignal[] = [];
+  for (const e of estimates) {
+    if (e.sessions > 0 && e.quality < BLIND_SPOT_QUALITY) {
+      spots.push({ kind: 'competency', key: e.key, label: e.label, score: e.quality, reason: `근거 평균 ${pct(e.quality)} — Gap Check에서 놓친 관점이 많음` });
+    } else if (e.evidence < STALE_EVIDENCE) {
+      spots.push({ kind: 'competency', key: e.key, label: e.label, score: e.proficiency, reason: e.sessions ? `최근 ${HALF_LIFE_DAYS}일 넘게 세션 없음` : '아직 세션 없음' });
+    }
+    if (e.calibration !== null && e.calibration > OVERCONFIDENCE) {
+      spots.push({ kind: 'calibration', key: e.key, label: e.label, score: e.calibration, reason: `자기 평가가 측정보다 ${pct(e.calibration)}p 높음` });
+    }
+  }
+  for (const dimension of DEPTH_DIMENSIONS) {
+    const value = depth[dimension];
+    if (value !== null && value < BLIND_SPOT_DEPTH) {
+      spots.push({ kind: 'depth', key: dimension, label: DEPTH_DIMENSION_LABELS[dimension], score: value, reason: `Depth ${pct(value)} — 답변에 이 관점이 약함` });
+    }
+  }
+  return spots.sort((a, b) => a.score - b.score);
+}
+
+export function strengths(estimates: CompetencyEstimate[], depth: Record<DepthDimension, number | null>): FeedbackSignal[] {
+  const found: FeedbackSignal[] = estimates
+    .filter((e) => e.proficiency >= STRENGTH_PROFICIENCY)
+    .map((e) => ({ kind: 'competency' as const, key: e.key, label: e.label, score: e.proficiency, reason: `${e.level} · 숙련도 ${pct(e.proficiency)}` }));
+  for (const dimension of DEPTH_DIMENSIONS) {
+    const value = depth[dimension];
+    if (value !== null && value >= STRENGTH_DEPTH) {
+      found.push({ kind: 'depth', key: dimension, label: DEPTH_DIMENSION_LABELS[dimension], score: value, reason: `Depth ${pct(value)}` });
+    }
+  }
+  return found.sort((a, b) => b.score - a.score);
+}
+
+const LEVEL_RANK: Record<CompetencyLevel, number> = { L1: 1, L2: 2, L3: 3 };
+
+/** 권장 레벨 — 근거가 있는 역량 레벨의 중앙값, 다음 단계는 가장 가까운 역량 하나 */
+export function levelRecommendation(estimates: CompetencyEstimate[]): string {
+  const active = estimates.filter((e) => e.sessions > 0);
+  if (active.length === 0) return 'L1 — 세션을 완료하면 역량 근거가 쌓입니다';
+  const ranks = active.map((e) => LEVEL_RANK[e.level]).sort((a, b) => a - b);
+  const overall = `L${ranks[Math.floor((ranks.length - 1) / 2)]}`;
+  const levels = active.map((e) => `${e.label} ${e.level}`).join(' · ');
+  const closest = active
+    .filter((e) => e.next)
+    .sort((a, b) => a.next!.needs.length - b.next!.needs.length || b.quality - a.quality)[0];
+  const next = closest?.next ? ` / 다음: ${closest.label} ${closest.next.level} — ${closest.next.needs.join(', ')}` : '';
+  return `${overall} (${levels})${next}`;
+}
+
+/** 기준일 직전에 끝난 주(월–일) 또는 달 */
+export function feedbackPeriodRange(period: FeedbackPeriod, reference: Date): { start: Date; end: Date } {
+  const today = new Date(reference.getFullYear(), reference.getMonth(), reference.getDate());
+  if (period === 'weekly') {
+    const sinceMonday = (today.getDay() + 6) % 7;
+    const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - sinceMonday - 7);
+    return { start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6) };
+  }
+  return {
+    start: new Date(today.getFullYear(), today.getMonth() - 1, 1),
+    end: new Date(today.getFullYear(), today.getMonth(), 0),
+  };
+}
+
+/** 기간 누적 피드백 행 — 기간 끝까지 근거가 하나도 없으면 null */
+export function buildCumulativeFeedback(
+  evidence: SessionEvidence[],
+  period: FeedbackPeriod,
+  reference: Date = new Date(),
+): CumulativeFeedbackRow | null {
+  const { start, end } = feedbackPeriodRange(period, reference);
+  const asOf = new Date(end.getFullYear(), end.getMonth(), end.getDate(), 23, 59, 59, 999);
+  if (upTo(evidence, asOf).length === 0) return null;
+
+  const estimates = estimateCompetencies(evidence, asOf);
+  const depth = depthProfile(evidence, asOf);
+  const trajectory = competencyTrajectory(evidence, asOf, period === 'weekly' ? { points: 4, stepDays: 7 } : { points: 6, stepDays: 30 });
+
+  return {
+    period,
+    period_start: localDate(start),
+    period_end: localDate(end),
+    blind_spots: blindSpots(estimates, depth),
+    strengths: strengths(estimates, depth),
+    level_recommendation: levelRecommendation(estimates),
+    growth_trajectory: trajectory.map(({ date, proficiency, levels }) => ({ date, proficiency, levels })),
+    overall_depth_trend: trajectory.map(({ date, depth: value }) => ({ date, depth: value })),
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * 주간·월간 누적 피드백 — 끝난 기간마다 한 번 만들어 로컬에 두고 cumulative_feedback에 upsert
+ *
+ * 끝난 기간은 다시 계산하지 않음(그 시점의 판단을 남김). 클라우드 저장은 매번 다시 시도해
+ * 로그인 전에 만든 행도 나중에 올라감 — 충돌 키 (user_id, period, period_start)라 중복되지 않음.
+ */
+
+import { storage } from '../../utils/storage';
+import { repositories, type CumulativeFeedbackRow, type FeedbackPeriod } from '../repository';
+import type { CompletedSession } from '../../stores/studyStore';
+import type { InsightApplication } from './applications';
+import { buildCumulativeFeedback, collectEvidence } from './competencyModel';
+
+const STORAGE_KEY = 'careradar_cumulative_feedback';
+const MAX_LOCAL_ROWS = 40;
+const PERIODS: FeedbackPeriod[] = ['weekly', 'monthly'];
+
+const keyOf = (row: Pick<CumulativeFeedbackRow, 'period' | 'period_start'>) => `${row.period}:${row.period_start}`;
+
+export function loadCumulativeFeedback(): CumulativeFeedbackRow[] {
+  return storage.get<CumulativeFeedbackRow[]>(STORAGE_KEY, []);
+}
+
+/** 가장 최근 기간의 피드백 (주간·월간 각각) */
+export function latestCumulativeFeedback(rows = loadCumulativeFeedback()): Partial<Record<FeedbackPeriod, CumulativeFeedbackRow>> {
+  const latest: Partial<Record<FeedbackPeriod, CumulativeFeedbackRow>> = {};
+  for (const row of rows) {
+    const seen = latest[row.period];
+    if (!seen || row.period_start > seen.period_start) latest[row.period] = row;
+  }
+  return latest;
+}
+
+/** 직전에 끝난 주·달의 피드백이 없으면 만들고, 둘 다 클라우드에 upsert */
+export async function ensureCumulativeFeedback(
+  sessions: CompletedSession[],
+  applications: Record<string, InsightApplication>,
+  now: Date = new Date(),
+): Promise<CumulativeFeedbackRow[]> {
+  const evidence = collectEvidence(sessions, applications);
+  let rows = loadCumulativeFeedback();
+  const current: CumulativeFeedbackRow[] = [];
+
+  for (const period of PERIODS) {
+    const built = buildCumulativeFeedback(evidence, period, now);
+    if (!built) continue;
+    const existing = rows.find((r) => keyOf(r) === keyOf(built));
+    if (!existing) rows = [built, ...rows];
+    current.push(existing ?? built);
+  }
+
+  rows = rows.sort((a, b) => b.period_end.localeCompare(a.period_end)).slice(0, MAX_LOCAL_ROWS);
+  storage.set(STORAGE_KEY, rows);
+
+  if (current.length > 0) {
+    const result = await repositories.cumulativeFeedback.upsert(current.map(({ id: _id, user_id: _userId, ...row }) => row));
+    if (!result.ok && result.reason === 'error') console.warn('[Supabase] cumulative_feedback upsert failed (kept locally):', result.message);
+  }
+  return rows;
+}
@@ -0,0 +1,207 @@
+/**
+ * 학습 세션 질문 생성기 — 세션 종류와 출처로 Question 단계를 만듦
+ *
+ * 순수 함수만 있고 런타임 import가 없어 서버(care.v1 generate-study-session)도 그대로 사용.
+ * AI Reference·Gap Check는 서버가 이 질문을 프롬프트로 LLM 체인에 보냄.
+ */
+
+import type {
+  StudyArticle,
+  StudyQuestion,
+  StudySessionType,
+  StudySource,
+  StudySourceKind,
+  SroiScenario,
+  SyntheticCompany,
+} from './types';
+
+const SOURCE_KINDS: Record<StudySessionType, StudySourceKind> = {
+  financial: 'company',
+  pricing: 'company',
+  sroi: 'scenario',
+  pitch: 'scenario',
+  regulation: 'article',
+  benchmark: 'article',
+  custom: 'article',
+};
+
+const ARTICLE_TRACKS: Partial<Record<StudySessionType, string>> = {
+  regulation: 'policy',
+  benchmark: 'competitor',
+};
+
+const TRACK_LABELS: Record<string, string> = {
+  caretech: '케어테크',
+  investment: '투자',
+  competitor: '경쟁사',
+  policy: '정책',
+};
+
+export function isStudySessionType(value: string): value is StudySessionType {
+  return value in SOURCE_KINDS;
+}
+
+/** 세션 종류가 받는 출처 — 재무·가격은 합성 기업, SROI·피치는 시나리오, 나머지는 기사 */
+export function sourceKindFor(type: StudySessionType): StudySourceKind {
+  return SOURCE_KINDS[type];
+}
+
+/** 기사 세션이 고를 트랙 — 비어 있으면 전 트랙 */
+export function articleTrackFor(type: StudySessionType): string {
+  return ARTICLE_TRACKS[type] ?? '';
+}
+
+/** 실제 데이터인지 — 기사는 real, 합성 기업·시나리오는 synthetic (세션 테이블의 data_badge) */
+export function dataBadge(source: StudySource | null): 'real' | 'synthetic' | null {
+  if (!source) return null;
+  return source.kind === 'article' ? 'real' : 'synthetic';
+}
+
+function formatValue(value: unknown): string {
+  if (value && typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).map(([k, v]) => `${k} ${String(v)}`).join(', ');
+  }
+  return String(value);
+}
+
+/** synthetic_companies.financials (JSONB) → "키: 값" 줄 — JSON이 아니면 원문 한 줄 */
+export function formatFinancials(financials: string): string[] {
+  const raw = financials.trim();
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return Object.entries(parsed as Record<string, unknown>).map(([key, value]) => `${key}: ${formatValue(value)}`);
+    }
+  } catch {
+    // 자유 형식 텍스트
+  }
+  return [raw];
+}
+
+function companyContext(company: SyntheticCompany): string[] {
+  return [
+    `🏢 ${company.name}${company.category ? ` (${company.category})` : ''}${company.level ? ` · ${company.level}` : ''}`,
+    company.description,
+    company.basedOn ? `모델 기업: ${company.basedOn} (합성 데이터)` : '',
+    ...formatFinancials(company.financials),
+    company.careviaRelevance ? `CareVia 연관성: ${company.careviaRelevance}` : '',
+  ].filter(Boolean);
+}
+
+function scenarioContext(scenario: SroiScenario): string[] {
+  return [
+    `📍 현장: ${scenario.site}${scenario.difficulty ? ` · ${scenario.difficulty}` : ''}`,
+    ...scenario.event.split('\n').map((line) => line.trim()).filter(Boolean),
+    scenario.basedOn ? `근거: ${scenario.basedOn}` : '',
+  ].filter(Boolean);
+}
+
+function articleContext(article: StudyArticle): string[] {
+  return [
+    `📰 ${article.title}`,
+    article.description,
+    article.track ? `트랙: ${TRACK_LABELS[article.track] ?? article.track}` : '',
+    article.keywords.length > 0 ? `매칭 키워드: ${article.keywords.join(', ')}` : '',
+  ].filter(Boolean);
+}
+
+function companyQuestion(type: StudySessionType, company: SyntheticCompany): StudyQuestion {
+  if (type === 'pricing') {
+    return {
+      title: `가격 설계: ${company.name}`,
+      prompt: `Q. ${company.name}의 서비스를 B2G 조달과 B2B 판매로 낼 때 과금 단위·가격 모델·기준 가격을 설계하세요.`,
+      context: companyContext(company),
+      answerGuide: company.learningFocus
+        || '과금 단위(기관·좌석·카메라·성과)와 원가 구조, 조달 평가 방식(기술/가격 배점)을 근거로 가격을 숫자로 제시하세요.',
+    };
+  }
+  return {
+    title: `재무 분석: ${company.name}`,
+    prompt: `Q. ${company.name}의 재무 데이터에서 성장성·수익성·지속 가능성 관점의 핵심 인사이트를 도출하세요.`,
+    context: companyContext(company),
+    answerGuide: company.learningFocus
+      || '증감률과 비중을 직접 계산하고, 경쟁사 대비 CareVia의 포지셔닝까지 연결해 보세요.',
+  };
+}
+
+function scenarioQuestion(type: StudySessionType, scenario: SroiScenario): StudyQuestion {
+  if (type === 'pitch') {
+    return {
+      title: `Pitch: ${scenario.site}`,
+      prompt: 'Q. 이 현장 사례를 근거로 60초 피치 오프닝 훅을 작성하세요.',
+      context: scenarioContext(scenario),
+      answerGuide: scenario.hint
+        || '청중의 반대 의견을 먼저 무력화하고, 현장 사건을 숫자와 장면으로 보여 주세요.',
+    };
+  }
+  return {
+    title: `SROI 산출: ${scenario.site}`,
+    prompt: 'Q. 아래 시나리오의 SROI를 추정하세요.',
+    context: scenarioContext(scenario),
+    answerGuide: scenario.hint
+      || '투입 비용, 이해관계자별 성과와 화폐 환산(프록시), 자중손실·기여도를 고려해 비율을 계산하세요.',
+  };
+}
+
+function articleQuestion(type: StudySessionType, article: StudyArticle): StudyQuestion {
+  const context = articleContext(article);
+  if (type === 'regulation') {
+    return {
+      title: `규제 분석: ${article.title}`,
+      prompt: 'Q. 이 규제·정책 변화가 CareVia 사업에 미치는 영향과 선제 대응 전략은?',
+      context,
+      answerGuide: '규제 환경 → 직접 영향 → 기회/위협 → 대응 전략 순서로, 관련 법규(장애인복지법, 디지털치료기기 수가제, CSAP 등)를 짚어 보세요.',
+    };
+  }
+  if (type === 'benchmark') {
+    return {
+      title: `벤치마킹: ${article.title}`,
+      prompt: 'Q. 이 경쟁사 동향이 CareVia의 기술·BM·시장 전략 포지셔닝에 주는 시사점은?',
+      context,
+      answerGuide: '경쟁사 맵핑 → 기술 비교 → 수익 모델·가격 → 시장 확장 전략 순서로 우리의 우위/열위를 구체적으로 적어 보세요.',
+    };
+  }
+  return {
+    title: article.title,
+    prompt: 'Q. 이 뉴스가 케어테크 시장에 미치는 영향과 CareVia/호시담 사업에 적용할 인사이트는?',
+    context,
+    answerGuide: '시장 기회, 경쟁 구도, 규제 환경, 기술 트렌드 네 축으로 영향을 평가하고 실행 가능한 액션을 적어 보세요.',
+  };
+}
+
+/** 출처가 없는 기사 세션 — 추적 기사가 없을 때의 자유 주제 프레임워크 */
+function frameworkQuestion(type: StudySessionType): StudyQuestion {
+  if (type === 'regulation') {
+    return {
+      title: '규제 동향 분석',
+      prompt: 'Q. 케어테크 관련 최신 법률·제도 변화가 CareVia 사업에 미치는 영향과 대응 전략은?',
+      context: ['주요 관련 법규: 장애인복지법, 정신건강복지법, 디지털치료기기 수가제, CSAP, 소프트웨어진흥법'],
+      answerGuide: '규제 환경 → 직접 영향 → 기회/위협 → 대응 전략 순서로 작성하세요.',
+    };
+  }
+  if (type === 'benchmark') {
+    return {
+      title: '경쟁사/기술 벤치마킹',
+      prompt: 'Q. 국내외 주요 케어테크 경쟁사 대비 CareVia의 기술·BM·시장 전략 우위와 열위는?',
+      context: ['비교 대상 예: 카카오헬스케어, 네이버 AI 헬스, 삼성 봇 케어'],
+      answerGuide: '경쟁사 맵핑 → 기술 비교 → 수익 모델 → 시장 전략 순서로 작성하세요.',
+    };
+  }
+  return {
+    title: '자유 주제 학습',
+    prompt: 'Q. 원하는 주제를 정하고 케어테크 시장 관점에서 분석하세요.',
+    context: [],
+    answerGuide: '시장 기회, 경쟁 구도, 규제 환경, 기술 트렌드 중 두 축 이상으로 분석하세요.',
+  };
+}
+
+/**
+ * 세션 종류와 출처로 Question 단계를 만듦 — 출처 종류가 세션과 맞지 않으면 무시
+ */
+export function buildStudyQuestion(type: StudySessionType, source: StudySource | null): StudyQuestion {
+  if (source?.kind === 'company' && sourceKindFor(type) === 'company') return companyQuestion(type, source.company);
+  if (source?.kind === 'scenario' && sourceKindFor(type) === 'scenario') return scenarioQuestion(type, source.scenario);
+  if (source?.kind === 'article' && sourceKindFor(type) === 'article') return articleQuestion(type, source.article);
+  return frameworkQuestion(type);
+}
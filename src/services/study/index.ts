@@ -0,0 +1,216 @@
+/**
+ * AI 학습 세션 — 출처 고르기, Question·AI Reference 생성, Gap Check
+ *
+ * 출처: 추적 기사(care.v1 트랙 뉴스 또는 "📚 학습"으로 넘어온 기사),
+ * Supabase synthetic_companies·sroi_scenarios 행 (없으면 seeds.ts).
+ * AI Reference·Gap Check는 서버 LLM 체인(Ollama → Groq → OpenRouter)이 만들고,
+ * 서버에 닿지 않거나 모든 제공자가 실패하면 로컬에서 만든 질문만으로 세션을 진행.
+ */
+
+import { supabase } from '../../lib/supabase';
+import { fetchCareTrackNews, requestStudyEvaluation, requestStudySession, requestWeeklyReview } from '../care';
+import { articleTrackFor, buildStudyQuestion, sourceKindFor } from './generator';
+import { SEED_SROI_SCENARIOS, SEED_SYNTHETIC_COMPANIES } from './seeds';
+import { localBlindSpots, weeklyReviewRequest, type WeeklyAnswers, type WeeklyDigest } from './weeklyReview';
+import {
+  DEPTH_DIMENSIONS,
+  STUDY_GAP_KINDS,
+  type DepthDimension,
+  type DepthScore,
+  type SroiScenario,
+  type StudyArticle,
+  type StudyEvaluation,
+  type StudyGap,
+  type StudyGapKind,
+  type StudyGeneration,
+  type StudySessionType,
+  type StudySource,
+  type SyntheticCompany,
+} from './types';
+
+const ROW_LIMIT = 50;
+const ARTICLE_POOL = 5;
+
+type Row = Record<string, unknown>;
+
+const str = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+function toSyntheticCompany(row: Row): SyntheticCompany {
+  const financials = row.financials;
+  return {
+    id: str(row.id),
+    name: str(row.name),
+    basedOn: str(row.based_on),
+    category: str(row.category),
+    description: str(row.description),
+    financials: typeof financials === 'string' ? financials : financials ? JSON.stringify(financials) : '',
+    learningFocus: str(row.learning_focus),
+    careviaRelevance: str(row.carevia_relevance),
+    level: str(row.level),
+  };
+}
+
+function toSroiScenario(row: Row): SroiScenario {
+  return {
+    id: str(row.id),
+    site: str(row.site),
+    event: str(row.event),
+    hint: str(row.hint),
+    difficulty: str(row.difficulty),
+    learningFocus: str(row.learning_focus),
+    basedOn: str(row.based_on),
+  };
+}
+
+async function loadRows<T>(table: string, map: (row: Row) => T, valid: (item: T) => boolean, seeds: T[]): Promise<T[]> {
+  try {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .order('generated_at', { ascending: false })
+      .limit(ROW_LIMIT);
+    if (error) throw error;
+    const rows = ((data ?? []) as Row[]).map(map).filter(valid);
+    if (rows.length > 0) return rows;
+  } catch (err) {
+    console.warn(`[Study] ${table} load failed, using seed rows:`, err instanceof Error ? err.message : err);
+  }
+  return seeds;
+}
+
+/** synthetic_companies 행 — 비어 있거나 연결되지 않으면 기본 출처 */
+export function loadSyntheticCompanies(): Promise<SyntheticCompany[]> {
+  return loadRows('synthetic_companies', toSyntheticCompany, (c) => !!c.name, SEED_SYNTHETIC_COMPANIES);
+}
+
+/** sroi_scenarios 행 — 비어 있거나 연결되지 않으면 기본 출처 */
+export function loadSroiScenarios(): Promise<SroiScenario[]> {
+  return loadRows('sroi_scenarios', toSroiScenario, (s) => !!s.site, SEED_SROI_SCENARIOS);
+}
+
+/** 직전 출처와 다른 항목을 무작위로 — 항목이 하나면 그대로 */
+function pick<T extends { id: string }>(items: T[], previousId = ''): T {
+  const candidates = items.length > 1 ? items.filter((item) => item.id !== previousId) : items;
+  return candidates[Math.floor(Math.random() * candidates.length)]!;
+}
+
+function sourceId(source: StudySource | null | undefined): string {
+  if (!source) return '';
+  if (source.kind === 'company') return source.company.id;
+  if (source.kind === 'scenario') return source.scenario.id;
+  return source.article.link || source.article.title;
+}
+
+/**
+ * 세션 종류에 맞는 출처를 고름
+ * - 기사 세션: 넘겨받은 기사 → 규제·벤치마킹은 해당 트랙 상위 기사 중 하나 → 없으면 null (프레임워크 질문)
+ * - 재무·가격: synthetic_companies, SROI·피치: sroi_scenarios
+ * `previous`를 주면 다른 출처를 고름 ("다른 문제")
+ */
+export async function pickStudySource(
+  type: StudySessionType,
+  article?: StudyArticle,
+  previous?: StudySource | null,
+): Promise<StudySource | null> {
+  const kind = sourceKindFor(type);
+  if (kind === 'company') {
+    return { kind, company: pick(await loadSyntheticCompanies(), sourceId(previous)) };
+  }
+  if (kind === 'scenario') {
+    return { kind, scenario: pick(await loadSroiScenarios(), sourceId(previous)) };
+  }
+  if (article && !previous) return { kind, article };
+
+  const track = articleTrackFor(type);
+  if (!track) return article ? { kind, article } : null;
+  const { articles } = await fetchCareTrackNews(track, ARTICLE_POOL);
+  if (articles.length === 0) return null;
+  const chosen = pick(articles, sourceId(previous));
+  return {
+    kind,
+    article: {
+      title: chosen.title,
+      description: chosen.description,
+      link: chosen.link,
+      track: chosen.track,
+      keywords: chosen.keywordMatches.map((m) => m.keyword),
+    },
+  };
+}
+
+/**
+ * Question + AI Reference — 서비스에 닿지 않으면 로컬 질문에 빈 참고 답안 (fallback)
+ */
+export async function generateStudySession(type: StudySessionType, source: StudySource | null): Promise<StudyGeneration> {
+  const resp = await requestStudySession({
+    sessionType: type,
+    article: source?.kind === 'article' ? source.article : undefined,
+    company: source?.kind === 'company' ? source.company : undefined,
+    scenario: source?.kind === 'scenario' ? source.scenario : undefined,
+  });
+  return {
+    question: resp?.question ?? buildStudyQuestion(type, source),
+    reference: resp?.reference ?? '',
+    provider: resp?.provider ?? '',
+    model: resp?.model ?? '',
+    fallback: resp ? resp.fallback : true,
+  };
+}
+
+function normalizeGaps(gaps: Array<{ kind: string; point: string; detail: string }>): StudyGap[] {
+  return gaps.filter((g): g is StudyGap => STUDY_GAP_KINDS.includes(g.kind as StudyGapKind));
+}
+
+function normalizeDepthScores(scores: Array<{ dimension: string; score: number; reason: string }>): DepthScore[] {
+  return scores.filter((s): s is DepthScore => DEPTH_DIMENSIONS.includes(s.dimension as DepthDimension));
+}
+
+/**
+ * Gap Check — My Answer를 AI Reference와 비교해 놓친 점과 depth_scores를 받음
+ */
+export async function evaluateStudyAnswer(
+  type: StudySessionType,
+  generation: StudyGeneration,
+  myAnswer: string,
+): Promise<StudyEvaluation> {
+  const resp = await requestStudyEvaluation({
+    sessionType: type,
+    question: generation.question,
+    reference: generation.reference,
+    myAnswer,
+  });
+  return {
+    gaps: normalizeGaps(resp?.gaps ?? []),
+    depthScores: normalizeDepthScores(resp?.depthScores ?? []),
+    summary: resp?.summary ?? '',
+    provider: resp?.provider ?? '',
+    model: resp?.model ?? '',
+    fallback: resp ? resp.fallback : true,
+  };
+}
+
+export interface WeeklyAiReview {
+  summary: string;
+  blindSpots: string[];
+  growthNote: string;
+  provider: string;
+  /** true면 AI 없이 활동 기록만으로 사각지대를 채움 */
+  fallback: boolean;
+}
+
+/**
+ * 주간 AI 리뷰 — 요약·사각지대·성장 노트. AI가 실패하면 손대지 않은 트랙·역량을 사각지대로
+ */
+export async function generateWeeklyReview(digest: WeeklyDigest, answers: WeeklyAnswers): Promise<WeeklyAiReview> {
+  const resp = await requestWeeklyReview(weeklyReviewRequest(digest, answers));
+  if (!resp || resp.fallback) {
+    return { summary: '', blindSpots: localBlindSpots(digest), growthNote: '', provider: '', fallback: true };
+  }
+  return { summary: resp.summary, blindSpots: resp.blindSpots, growthNote: resp.growthNote, provider: resp.provider, fallback: false };
+}
+
+/** depth_scores 평균 (0–5) — 점수가 없으면 null */
+export function averageDepth(scores: DepthScore[]): number | null {
+  if (scores.length === 0) return null;
+  return scores.reduce((sum, s) => sum + s.score, 0) / scores.length;
+}
@@ -0,0 +1,134 @@
+/**
+ * 완료한 학습 세션 → Supabase 행 (insights · pitch_sessions · daily_streaks)
+ *
+ * 재무·프라이싱·SROI 세션은 각 도구가 자기 테이블(analysis_sessions …)에 저장하고,
+ * 여기서는 모든 세션 공통인 인사이트 행과 루틴 슬롯, 저장 테이블이 따로 없는 피칭 세션을 만든다.
+ */
+
+import { getTodaySchedule } from '../dailyBriefSchedule';
+import type { CompletedSession, StudySession } from '../../stores/studyStore';
+import type { DailyStreakRow, InsightRow, InsightSourceModule, PitchSessionRow } from '../repository/types';
+import type { StudySessionType } from './types';
+
+export type RoutineSlot = 'morning' | 'lunch' | 'evening';
+
+export const INSIGHT_SOURCE_MODULES: Record<StudySessionType, InsightSourceModule> = {
+  financial: 'analysis',
+  pricing: 'pricing',
+  sroi: 'sroi',
+  pitch: 'pitch',
+  regulation: 'regulation',
+  benchmark: 'benchmark',
+  custom: 'custom',
+};
+
+/** YYYY-MM-DD (브라우저 현지 날짜 — 스트릭은 사용자가 공부한 날 기준) */
+export function localDate(at: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())}`;
+}
+
+/** 오늘 루틴에 배정된 도구면 그 슬롯, 아니면 시각으로 (11시 전 아침 · 15시 전 점심 · 이후 퇴근) */
+export function routineSlotFor(type: string, at: Date): RoutineSlot {
+  const schedule = getTodaySchedule(at);
+  const slots: RoutineSlot[] = ['morning', 'lunch', 'evening'];
+  const scheduled = slots.find((slot) => schedule[slot].tool === type);
+  if (scheduled) return scheduled;
+  const hour = at.getHours();
+  return hour < 11 ? 'morning' : hour < 15 ? 'lunch' : 'evening';
+}
+
+export interface StudySessionRows {
+  /** 인사이트와 답변이 모두 비어 있으면 null */
+  insight: InsightRow | null;
+  /** 피칭 세션만 */
+  pitch: PitchSessionRow | null;
+  streak: DailyStreakRow;
+}
+
+export function studySessionRows(session: StudySession, completedAt: Date): StudySessionRows {
+  const type = session.type as StudySessionType;
+  const date = completedAt.toISOString().slice(0, 10);
+  const insight = session.data.insight.trim();
+  const myAnswer = session.data.myAnswer.trim();
+  const keywords = session.source?.kind === 'article' ? session.source.article.keywords : session.articleContext?.keywords;
+  const question = session.generation?.question;
+  const depthScores = session.evaluation?.depthScores ?? null;
+  const slot = routineSlotFor(type, completedAt);
+
+  return {
+    insight: insight || myAnswer
+      ? {
+        id: session.id,
+        date,
+        source_session_id: session.id,
+        source_module: INSIGHT_SOURCE_MODULES[type] ?? 'custom',
+        session_type: type,
+        content: insight || myAnswer,
+        my_answer: myAnswer || null,
+        tags: keywords?.length ? keywords : null,
+        created_at: completedAt.toISOString(),
+      }
+      : null,
+    pitch: type === 'pitch'
+      ? {
+        id: session.id,
+        date,
+        company_name: session.source?.kind === 'company' ? session.source.company.name : question?.title ?? null,
+        source_url: session.source?.kind === 'article' ? session.source.article.link : null,
+        source_type: session.source?.kind ?? null,
+        questions: question ? [question] : [],
+        ai_references: session.generation?.reference ? [session.generation.reference] : null,
+        my_carevia_script: myAnswer || null,
+        script_feedback: session.evaluation?.summary || null,
+        my_insight: insight || null,
+        depth_scores: depthScores,
+        created_at: completedAt.toISOString(),
+      }
+      : null,
+    streak: {
+      date: localDate(completedAt),
+      [`${slot}_completed`]: true,
+      [`${slot}_session_id`]: session.id,
+    },
+  };
+}
+
+/** 완료 기록 → insights 행 — 세션 직후가 아니어도(실무 적용 기록 등) NOT NULL 컬럼을 채운 행으로 upsert */
+export function insightRowFromCompleted(session: CompletedSession): InsightRow | null {
+  const insight = session.data.insight.trim();
+  const myAnswer = session.data.myAnswer.trim();
+  if (!insight && !myAnswer) return null;
+  const type = session.type as StudySessionType;
+  return {
+    id: session.id,
+    date: session.completedAt.slice(0, 10),
+    source_session_id: session.id,
+    source_module: INSIGHT_SOURCE_MODULES[type] ?? 'custom',
+    session_type: type,
+    content: insight || myAnswer,
+    my_answer: myAnswer || null,
+    tags: session.articleContext?.keywords?.length ? session.articleContext.keywords : null,
+    created_at: session.completedAt,
+  };
+}
+
+const SESSION_TYPES = Object.keys(INSIGHT_SOURCE_MODULES) as StudySessionType[];
+
+/** insights 행 → 학습 기록 — session_type이 없는 행은 source_module에서 되짚음 */
+export function completedSessionFromInsight(row: InsightRow): CompletedSession {
+  const type = row.session_type || SESSION_TYPES.find((t) => INSIGHT_SOURCE_MODULES[t] === row.source_module) || row.source_module;
+  return {
+    id: row.source_session_id,
+    type,
+    data: { myAnswer: row.my_answer ?? '', insight: row.content },
+    completedAt: row.created_at ?? `${row.date}T00:00:00.000Z`,
+  };
+}
+
+/** 같은 세션은 로컬 기록(질문·Depth 포함)을 우선, 완료 시각 오름차순 */
+export function mergeCompletedSessions(local: CompletedSession[], cloud: CompletedSession[]): CompletedSession[] {
+  const byId = new Map(cloud.map((s) => [s.id, s]));
+  for (const s of local) byId.set(s.id, s);
+  return [...byId.values()].sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+}
@@ -0,0 +1,65 @@
+/**
+ * Supabase에 synthetic_companies·sroi_scenarios 행이 없거나 연결되지 않을 때 쓰는 기본 출처
+ * (기존 학습 도구에 고정돼 있던 시나리오)
+ */
+
+import type { SroiScenario, SyntheticCompany } from './types';
+
+export const SEED_SYNTHETIC_COMPANIES: SyntheticCompany[] = [
+  {
+    id: 'seed-woori-kids',
+    name: '우리아이들',
+    basedOn: '국내 발달장애인 특수교육 기업 사업보고서',
+    category: '특수교육',
+    description: '발달장애 아동·청소년 대상 특수교육 서비스와 교구를 공급하는 기업',
+    financials: JSON.stringify({
+      2024: { 매출액: '82억', 영업이익: '-3.1억', 'R&D비': '4.0억', 'R&D 비중': '4.9%' },
+      2025: { 매출액: '97억', 영업이익: '1.2억', 'R&D비': '7.5억', 'R&D 비중': '7.7%' },
+    }),
+    learningFocus: 'R&D 비중 급증과 흑자 전환이 특수교육 시장의 기술 투자 흐름에 대해 말해 주는 것',
+    careviaRelevance: 'CareVia의 기관 고객(특수학교·복지관)과 겹치는 잠재 경쟁사이자 파트너 후보',
+    level: 'L1',
+  },
+  {
+    id: 'seed-carevision-labs',
+    name: '케어비전랩스',
+    basedOn: 'AI 행동분석 CCTV 스타트업 공개 자료',
+    category: 'AI 행동분석',
+    description: '복지시설 CCTV 영상에서 도전 행동을 감지해 교사 리포트를 만드는 B2G·B2B SaaS',
+    financials: JSON.stringify({
+      2025: { 매출액: '18억', '고객 기관': '42곳', '카메라당 월 구독료': '3만원', 매출총이익률: '61%' },
+    }),
+    learningFocus: '카메라당 과금과 기관당 과금의 매출·마진 차이, 기술 70점 + 가격 30점 조달 평가에서의 투찰률',
+    careviaRelevance: 'CareVia와 같은 조달 공고(발달장애인 AI 돌봄 시스템)에서 경쟁',
+    level: 'L2',
+  },
+];
+
+export const SEED_SROI_SCENARIOS: SroiScenario[] = [
+  {
+    id: 'seed-teacher-burnout',
+    site: '서울 소재 특수학교 A (교사 30명)',
+    event: [
+      '도입 전(2025): 교사 이직률 25%, 신규 교사 충원 비용 인당 850만원, 평균 온보딩 3.5개월',
+      '도입 후(2026 목표): 이직률 12%로 감소, AI 기록 자동화로 교사 행정 시간 40% 절감',
+      'CareVia 도입 비용: 연 4,500만 원',
+    ].join('\n'),
+    hint: '이직률 감소분의 충원·온보딩 비용과 행정시간 절감의 금전 가치를 각각 환산해 투입 비용과 비교하세요.',
+    difficulty: 'L2',
+    learningFocus: '교사 번아웃 절감의 화폐 환산',
+    basedOn: 'CareVia 도입 효과 가정',
+  },
+  {
+    id: 'seed-foundation-skeptic',
+    site: 'Tier 2 복지재단 (발달장애인 주간보호시설 6곳 운영)',
+    event: [
+      '이사장은 AI 도구가 교사에게 입력 업무만 늘릴 것이라고 회의적',
+      '시설당 교사 8명이 하루 평균 70분을 종이 관찰 기록과 보고서 작성에 사용',
+      '작년 도전 행동 사고 보고 14건 중 9건이 기록 누락으로 원인 분석 불가',
+    ].join('\n'),
+    hint: '반대 의견을 최대한 빨리 무력화하세요 — 화면을 추가하는 게 아니라 클립보드를 없애는 이야기로.',
+    difficulty: 'L1',
+    learningFocus: '현장 사건을 숫자로 바꾸는 스토리텔링',
+    basedOn: '호시담 현장 인터뷰 재구성',
+  },
+];
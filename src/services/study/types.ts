@@ -0,0 +1,103 @@
+/**
+ * AI 학습 세션 — 출처(추적 기사·synthetic_companies·sroi_scenarios 행)와 생성 결과 타입
+ *
+ * 필드 구성은 care.v1 StudyArticle·SyntheticCompany·SroiScenario·StudyQuestion 메시지와 같음
+ * (서버 핸들러가 같은 생성기를 import)
+ */
+
+export type StudySessionType = 'financial' | 'pricing' | 'sroi' | 'pitch' | 'regulation' | 'benchmark' | 'custom';
+
+export type StudySourceKind = 'article' | 'company' | 'scenario';
+
+export interface StudyArticle {
+  title: string;
+  description: string;
+  link: string;
+  track: string;
+  keywords: string[];
+}
+
+/** synthetic_companies 행 — financials는 JSONB 컬럼을 JSON 문자열로 */
+export interface SyntheticCompany {
+  id: string;
+  name: string;
+  basedOn: string;
+  category: string;
+  description: string;
+  financials: string;
+  learningFocus: string;
+  careviaRelevance: string;
+  level: string;
+}
+
+/** sroi_scenarios 행 */
+export interface SroiScenario {
+  id: string;
+  site: string;
+  event: string;
+  hint: string;
+  difficulty: string;
+  learningFocus: string;
+  basedOn: string;
+}
+
+export type StudySource =
+  | { kind: 'article'; article: StudyArticle }
+  | { kind: 'company'; company: SyntheticCompany }
+  | { kind: 'scenario'; scenario: SroiScenario };
+
+export interface StudyQuestion {
+  title: string;
+  prompt: string;
+  context: string[];
+  answerGuide: string;
+}
+
+export type StudyGapKind = 'covered' | 'missed' | 'inaccurate';
+
+export const STUDY_GAP_KINDS: readonly StudyGapKind[] = ['covered', 'missed', 'inaccurate'];
+
+export interface StudyGap {
+  kind: StudyGapKind;
+  point: string;
+  detail: string;
+}
+
+export type DepthDimension = 'accuracy' | 'quantification' | 'structure' | 'application' | 'risk';
+
+export const DEPTH_DIMENSIONS: readonly DepthDimension[] = ['accuracy', 'quantification', 'structure', 'application', 'risk'];
+
+export const DEPTH_DIMENSION_LABELS: Record<DepthDimension, string> = {
+  accuracy: '정확성',
+  quantification: '정량화',
+  structure: '구조화',
+  application: '사업 적용',
+  risk: '리스크 인식',
+};
+
+/** 0–5점 — 0은 답변에 해당 관점이 아예 없음 */
+export const DEPTH_SCORE_MAX = 5;
+
+export interface DepthScore {
+  dimension: DepthDimension;
+  score: number;
+  reason: string;
+}
+
+export interface StudyGeneration {
+  question: StudyQuestion;
+  /** 빈 문자열이면 모든 AI 제공자가 실패 (fallback) */
+  reference: string;
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
+
+export interface StudyEvaluation {
+  gaps: StudyGap[];
+  depthScores: DepthScore[];
+  summary: string;
+  provider: string;
+  model: string;
+  fallback: boolean;
+}
@@ -0,0 +1,257 @@
+/**
+ * 주간 정리 — 이번 주 세션·메모·북마크·점수 이력을 모아 5개 질문 초안과 AI 리뷰 요청을 만듦
+ *
+ * 초안은 로컬 데이터만으로 채우고(빈 답변만), AI 요약·사각지대는 서버 LLM 체인(care.v1 generate-weekly-review)이 씀.
+ * 서버에 닿지 않거나 모든 제공자가 실패하면 localBlindSpots가 "손대지 않은 트랙·역량"을 대신 채움.
+ */
+
+import type { ArticleAnnotation } from '../../stores/articleStore';
+import type { KnowledgeItem } from '../../stores/knowledgeStore';
+import type { CompletedSession } from '../../stores/studyStore';
+import type { ScoreHistoryEntry } from '../../stores/trackingStore';
+import type {
+  GenerateWeeklyReviewRequest,
+  WeeklyActivity,
+  WeeklyCompetency,
+} from '../../generated/client/worldmonitor/care/v1/service_client';
+import type { WeeklyReportNotice } from '../notifications/types';
+import type { WeeklyReviewRow } from '../repository/types';
+import type { InsightApplication } from './applications';
+import { TRACK_META, type TrackType } from '../../config/trackConfig';
+import { COMPETENCIES, competencyForType } from './competencies';
+import { collectEvidence, estimateCompetencies } from './competencyModel';
+import { localDate } from './records';
+
+export const WEEKLY_REVIEWS_KEY = 'careradar_weekly_reviews';
+
+export const WEEKLY_REVIEW_QUESTIONS = [
+  { key: 'q1_market_signal', label: '이번 주에 발견한 가장 중요한 시장 시그널은?' },
+  { key: 'q2_pricing_insight', label: 'CareVia/호시담 가격/BM에 대한 새로운 관점은?' },
+  { key: 'q3_sroi_discovery', label: '이번 주 SROI 환산에서 가장 큰 발견은?' },
+  { key: 'q4_next_week_focus', label: '다음 주에 집중해야 할 학습 주제는?' },
+  { key: 'q5_applied_in_practice', label: '이번 주 학습을 실무에 적용한 것 1가지는?' },
+] as const;
+
+export type WeeklyAnswerKey = (typeof WEEKLY_REVIEW_QUESTIONS)[number]['key'];
+export type WeeklyAnswers = Partial<Record<WeeklyAnswerKey, string>>;
+
+const MAX_ITEMS = 10;
+const DETAIL_LEN = 200;
+
+/** 월요일 00:00 ~ 일요일 23:59:59.999 (로컬 시간) */
+export function weekBounds(date: Date): { start: Date; end: Date } {
+  const sinceMonday = (date.getDay() + 6) % 7;
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - sinceMonday);
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6, 23, 59, 59, 999);
+  return { start, end };
+}
+
+export interface WeeklyActivityInput {
+  sessions: CompletedSession[];
+  applications: Record<string, InsightApplication>;
+  /** 지식 베이스 항목 (collectKnowledgeItems — 남은 기사 메모 포함) */
+  notes: KnowledgeItem[];
+  annotations: Record<string, ArticleAnnotation>;
+  scoreHistory: ScoreHistoryEntry[];
+}
+
+export interface WeeklyDigest {
+  weekStart: string;
+  weekEnd: string;
+  /** 세션을 완료한 평일 수 (루틴은 월–금) */
+  studiedDays: number;
+  financialMemos: number;
+  sroiCount: number;
+  sessions: WeeklyActivity[];
+  memos: WeeklyActivity[];
+  bookmarks: WeeklyActivity[];
+  competencies: WeeklyCompetency[];
+  ignoredTracks: string[];
+  ignoredCompetencies: string[];
+  /** 예: "52 → 61 (S1 +8, S2 -2, S3 +1)" — 이력이 두 건 미만이면 빈 문자열 */
+  scoreTrend: string;
+  /** 이번 주에 실무 적용으로 표시한 내용 */
+  applied: string[];
+}
+
+const clip = (text: string) => text.trim().replace(/\s+/g, ' ').slice(0, DETAIL_LEN);
+const signed = (n: number) => `${n >= 0 ? '+' : ''}${n}`;
+
+function inWeek(iso: string | undefined, start: Date, end: Date): boolean {
+  if (!iso) return false;
+  const t = new Date(iso).getTime();
+  return t >= start.getTime() && t <= end.getTime();
+}
+
+function sessionTitle(session: CompletedSession): string {
+  return session.question?.title || session.articleContext?.title || competencyForType(session.type)?.label || session.type;
+}
+
+/** 완료 일수·재무·SROI 건수 — 주간 리포트 알림의 숫자 */
+export function weeklyCounts(sessions: CompletedSession[], now: Date = new Date()): Omit<WeeklyReportNotice, 'summary'> {
+  const { start, end } = weekBounds(now);
+  const week = sessions.filter((s) => inWeek(s.completedAt, start, end));
+  const weekdays = new Set(
+    week.map((s) => new Date(s.completedAt)).filter((d) => d.getDay() >= 1 && d.getDay() <= 5).map(localDate),
+  );
+  return {
+    studiedDays: weekdays.size,
+    financialMemos: week.filter((s) => s.type === 'financial').length,
+    sroiCount: week.filter((s) => s.type === 'sroi').length,
+  };
+}
+
+function scoreTrend(history: ScoreHistoryEntry[], start: Date, end: Date): string {
+  const week = history.filter((h) => inWeek(h.timestamp, start, end));
+  const first = week[0];
+  const last = week[week.length - 1];
+  if (!first || !last || week.length < 2) return '';
+  return `${first.total} → ${last.total} (S1 ${signed(last.s1 - first.s1)}, S2 ${signed(last.s2 - first.s2)}, S3 ${signed(last.s3 - first.s3)})`;
+}
+
+export function buildWeeklyDigest(input: WeeklyActivityInput, now: Date = new Date()): WeeklyDigest {
+  const { start, end } = weekBounds(now);
+  const sessions = input.sessions.filter((s) => inWeek(s.completedAt, start, end));
+  const notes = input.notes.filter(
+    (n) => (n.type === 'article_memo' || n.type === 'manual_note') && inWeek(n.updatedAt ?? n.createdAt, start, end),
+  );
+  const bookmarks = Object.values(input.annotations).filter(
+    (a): a is ArticleAnnotation & { article: NonNullable<ArticleAnnotation['article']> } =>
+      a.isBookmarked && !!a.article && inWeek(a.updatedAt, start, end),
+  );
+
+  const activeTracks = new Set<string>([
+    ...bookmarks.map((a) => a.article.track),
+    ...notes.map((n) => n.sourceArticle?.track ?? ''),
+    ...sessions.map((s) => s.articleContext?.track ?? ''),
+  ]);
+  const ignoredTracks = (Object.keys(TRACK_META) as TrackType[])
+    .filter((track) => !activeTracks.has(track))
+    .map((track) => TRACK_META[track].label);
+
+  // 역량 변화는 주 시작 대비 — 아직 끝나지 않은 주는 지금까지
+  const asOf = new Date(Math.min(end.getTime(), now.getTime()));
+  const evidence = collectEvidence(input.sessions, input.applications);
+  const before = new Map(estimateCompetencies(evidence, new Date(start.getTime() - 1)).map((e) => [e.key, e.proficiency]));
+  const weekSessions = (key: string) => sessions.filter((s) => competencyForType(s.type)?.key === key).length;
+  const competencies = estimateCompetencies(evidence, asOf).map((e) => ({
+    label: e.label,
+    level: e.level,
+    proficiency: Math.round(e.proficiency * 100),
+    change: Math.round((e.proficiency - (before.get(e.key) ?? 0)) * 100),
+    sessions: weekSessions(e.key),
+  }));
+  const ignoredCompetencies = COMPETENCIES.filter((c) => weekSessions(c.key) === 0).map((c) => c.label);
+
+  const applied = Object.values(input.applications)
+    .filter((a) => a.applied && a.appliedDate && a.appliedDate >= localDate(start) && a.appliedDate <= localDate(end))
+    .map((a) => a.description.trim())
+    .filter(Boolean);
+
+  return {
+    weekStart: localDate(start),
+    weekEnd: localDate(end),
+    ...weeklyCounts(input.sessions, now),
+    sessions: sessions.slice(0, MAX_ITEMS).map((s) => ({ kind: s.type, title: sessionTitle(s), detail: clip(s.data.insight ?? '') })),
+    memos: notes.slice(0, MAX_ITEMS).map((n) => ({ kind: n.type, title: n.title, detail: clip(n.content) })),
+    bookmarks: bookmarks.slice(0, MAX_ITEMS).map((a) => ({
+      kind: a.article.track,
+      title: a.article.title,
+      detail: clip(a.memo),
+    })),
+    competencies,
+    ignoredTracks,
+    ignoredCompetencies,
+    scoreTrend: scoreTrend(input.scoreHistory, start, end),
+    applied,
+  };
+}
+
+function insightsOf(digest: WeeklyDigest, type: string): string {
+  return digest.sessions
+    .filter((s) => s.kind === type && s.detail)
+    .map((s) => `· ${s.title}: ${s.detail}`)
+    .join('\n');
+}
+
+/** 5개 질문 초안 — 근거가 있는 질문만 채움 (빈 값은 키 자체를 뺌) */
+export function draftWeeklyAnswers(digest: WeeklyDigest): WeeklyAnswers {
+  const signals = digest.bookmarks.length > 0
+    ? digest.bookmarks.slice(0, 3).map((b) => `· ${b.title} (${TRACK_META[b.kind as TrackType]?.label ?? b.kind})`)
+    : digest.memos.slice(0, 3).map((m) => `· ${m.title}`);
+  if (signals.length > 0 && digest.scoreTrend) signals.push(`Opportunity Score ${digest.scoreTrend}`);
+
+  const weakest = [...digest.competencies].sort((a, b) => a.proficiency - b.proficiency)[0];
+  const focus = [...new Set([...digest.ignoredCompetencies.slice(0, 2), ...(weakest ? [weakest.label] : [])])];
+
+  const draft: WeeklyAnswers = {
+    q1_market_signal: signals.join('\n'),
+    q2_pricing_insight: insightsOf(digest, 'pricing'),
+    q3_sroi_discovery: insightsOf(digest, 'sroi'),
+    q4_next_week_focus: focus.length > 0 ? `${focus.join(', ')} — 세션 1회씩` : '',
+    q5_applied_in_practice: digest.applied.slice(0, 2).map((a) => `· ${a}`).join('\n'),
+  };
+  return Object.fromEntries(Object.entries(draft).filter(([, v]) => v)) as WeeklyAnswers;
+}
+
+/** AI 없이 만드는 사각지대 — 세션 없는 역량, 손대지 않은 트랙, 숙련도가 떨어진 역량 */
+export function localBlindSpots(digest: WeeklyDigest): string[] {
+  return [
+    ...digest.ignoredCompetencies.map((label) => `${label} — 이번 주 세션 없음`),
+    ...digest.ignoredTracks.map((label) => `${label} — 북마크·메모·학습 없음`),
+    ...digest.competencies
+      .filter((c) => c.change < 0 && c.sessions === 0)
+      .map((c) => `${c.label} — 숙련도 ${c.change} (근거가 오래됨)`),
+  ];
+}
+
+export function weeklyReviewRequest(digest: WeeklyDigest, answers: WeeklyAnswers): GenerateWeeklyReviewRequest {
+  return {
+    weekStart: digest.weekStart,
+    weekEnd: digest.weekEnd,
+    sessions: digest.sessions,
+    memos: digest.memos,
+    bookmarks: digest.bookmarks,
+    competencies: digest.competencies,
+    ignored: [...digest.ignoredCompetencies, ...digest.ignoredTracks],
+    scoreTrend: digest.scoreTrend,
+    answers: WEEKLY_REVIEW_QUESTIONS.map(({ key }) => answers[key] ?? ''),
+  };
+}
+
+/** weekly_reviews 행 — 답변 + AI 컬럼 + 이번 주 수치 */
+export function weeklyReviewRow(
+  digest: WeeklyDigest,
+  answers: WeeklyAnswers,
+  ai: { summary: string; blindSpots: string[]; growthNote: string },
+  streakDays: number,
+): WeeklyReviewRow {
+  return {
+    week_start: digest.weekStart,
+    week_end: digest.weekEnd,
+    q1_market_signal: answers.q1_market_signal || null,
+    q2_pricing_insight: answers.q2_pricing_insight || null,
+    q3_sroi_discovery: answers.q3_sroi_discovery || null,
+    q4_next_week_focus: answers.q4_next_week_focus || null,
+    q5_applied_in_practice: answers.q5_applied_in_practice || null,
+    ai_weekly_summary: ai.summary || null,
+    ai_blind_spots: ai.blindSpots.length > 0 ? ai.blindSpots.join('\n') : null,
+    ai_growth_note: ai.growthNote || null,
+    streak_days: streakDays,
+    total_memos: digest.memos.length,
+    competency_scores: Object.fromEntries(digest.competencies.map((c) => [c.label, { level: c.level, proficiency: c.proficiency, change: c.change }])),
+  };
+}
+
+/** 연속 학습일 — 오늘 세션이 없으면 어제부터 셈 (StreakCalendar와 같은 로컬 날짜 기준) */
+export function currentStreak(sessions: CompletedSession[], now: Date = new Date()): number {
+  const days = new Set(sessions.map((s) => localDate(new Date(s.completedAt))));
+  let day = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (!days.has(localDate(day))) day = new Date(day.getFullYear(), day.getMonth(), day.getDate() - 1);
+  let streak = 0;
+  while (days.has(localDate(day))) {
+    streak++;
+    day = new Date(day.getFullYear(), day.getMonth(), day.getDate() - 1);
+  }
+  return streak;
+}
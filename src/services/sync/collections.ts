@@ -0,0 +1,111 @@
+/**
+ * 동기화 대상 — careradar_* 키에 저장하는 zustand 스토어들
+ */
+
+import { defineCollection } from './engine';
+import type { CollectionHandle } from './types';
+import { STORAGE_KEY as ANNOTATIONS_KEY, useArticleStore, type ArticleAnnotation } from '../../stores/articleStore';
+import { STORAGE_KEY as EXCLUSIONS_KEY, useExclusionStore, type ExcludedArticle } from '../../stores/exclusionStore';
+import { STORAGE_KEY as KNOWLEDGE_KEY, useKnowledgeStore, type KnowledgeItem } from '../../stores/knowledgeStore';
+import { HISTORY_KEY, MAX_HISTORY, useTrackingStore, type ScoreHistoryEntry } from '../../stores/trackingStore';
+import { HISTORY_KEY as CRI_HISTORY_KEY, useCareReadinessStore } from '../../stores/careReadinessStore';
+import { MAX_HISTORY_DAYS as MAX_CRI_HISTORY_DAYS, type CareReadinessHistoryEntry } from '../care-readiness-index';
+import { STORAGE_KEY as SESSIONS_KEY, useStudyStore, type CompletedSession } from '../../stores/studyStore';
+import { STORAGE_KEY as APPLICATIONS_KEY, useApplicationStore } from '../../stores/applicationStore';
+import type { InsightApplication } from '../study/applications';
+
+const byField = <T>(field: keyof T) => (a: T, b: T) => String(a[field]).localeCompare(String(b[field]));
+
+export function createSyncCollections(): CollectionHandle[] {
+  return [
+    defineCollection({
+      name: 'annotations',
+      store: useArticleStore,
+      storageKey: ANNOTATIONS_KEY,
+      items: (s) => Object.values(s.annotations),
+      idOf: (a: ArticleAnnotation) => a.articleId,
+      updatedAtOf: (a) => a.updatedAt,
+      toState: (items) => {
+        const annotations = Object.fromEntries(items.map((a) => [a.articleId, a]));
+        return { state: { annotations }, stored: annotations };
+      },
+    }),
+    defineCollection({
+      name: 'exclusions',
+      store: useExclusionStore,
+      storageKey: EXCLUSIONS_KEY,
+      items: (s) => s.excluded,
+      // 기기마다 id가 달라도 같은 기사는 하나 — 링크 없이 제외한 항목(봇 /exclude)은 제목으로
+      idOf: (e: ExcludedArticle) => e.link || `title:${e.title}`,
+      updatedAtOf: (e) => e.excludedAt,
+      toState: (items) => {
+        const excluded = [...items].sort(byField('excludedAt'));
+        return { state: { excluded }, stored: excluded };
+      },
+    }),
+    defineCollection({
+      name: 'knowledge',
+      store: useKnowledgeStore,
+      storageKey: KNOWLEDGE_KEY,
+      items: (s) => s.items,
+      idOf: (i: KnowledgeItem) => i.id,
+      updatedAtOf: (i) => i.updatedAt ?? i.createdAt,
+      toState: (items) => {
+        const sorted = [...items].sort(byField('createdAt'));
+        return { state: { items: sorted }, stored: sorted };
+      },
+    }),
+    defineCollection({
+      name: 'score_history',
+      store: useTrackingStore,
+      storageKey: HISTORY_KEY,
+      items: (s) => s.scoreHistory,
+      idOf: (e: ScoreHistoryEntry) => e.timestamp,
+      updatedAtOf: (e) => e.timestamp,
+      toState: (items) => {
+        const scoreHistory = [...items].sort(byField('timestamp')).slice(-MAX_HISTORY);
+        return { state: { scoreHistory }, stored: scoreHistory };
+      },
+      // 보관 한도로 잘린 이력은 이 기기에서만 지움
+      syncDeletes: false,
+    }),
+    defineCollection({
+      name: 'cri_history',
+      store: useCareReadinessStore,
+      storageKey: CRI_HISTORY_KEY,
+      items: (s) => s.history,
+      // 하루 한 항목 — 같은 날 다른 기기의 기록은 나중 스냅샷이 이김
+      idOf: (e: CareReadinessHistoryEntry) => e.day,
+      updatedAtOf: (e) => e.timestamp,
+      toState: (items) => {
+        const history = [...items].sort(byField('day')).slice(-MAX_CRI_HISTORY_DAYS);
+        return { state: { history }, stored: history };
+      },
+      syncDeletes: false,
+    }),
+    defineCollection({
+      name: 'study_sessions',
+      store: useStudyStore,
+      storageKey: SESSIONS_KEY,
+      items: (s) => s.completedSessions,
+      idOf: (s: CompletedSession) => s.id,
+      updatedAtOf: (s) => s.completedAt,
+      toState: (items) => {
+        const completedSessions = [...items].sort(byField('completedAt'));
+        return { state: { completedSessions }, stored: completedSessions };
+      },
+    }),
+    defineCollection({
+      name: 'applications',
+      store: useApplicationStore,
+      storageKey: APPLICATIONS_KEY,
+      items: (s) => Object.values(s.applications),
+      idOf: (a: InsightApplication) => a.insightId,
+      updatedAtOf: (a) => a.updatedAt,
+      toState: (items) => {
+        const applications = Object.fromEntries(items.map((a) => [a.insightId, a]));
+        return { state: { applications }, stored: applications };
+      },
+    }),
+  ];
+}
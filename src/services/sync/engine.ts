@@ -0,0 +1,220 @@
+/**
+ * 동기화 엔진 — 로컬 변경을 outbox에 쌓고, 온라인이면 보내고(push) 원격 변경을 받아(pull) 반영
+ *
+ * 충돌은 레코드 단위 last-write-wins(updatedAt). 서버(sync_records 트리거)도 더 오래된 쓰기를 버리므로
+ * 데스크톱 앱과 브라우저가 오프라인에서 같은 메모를 고쳐도 마지막 수정이 양쪽에 남음.
+ * 스토어·큐·원격은 주입 — 앱은 zustand·IndexedDB·Supabase, 테스트는 메모리 대역.
+ */
+
+import type {
+  CollectionHandle,
+  RemoteChange,
+  SyncChange,
+  SyncCollection,
+  SyncQueue,
+  SyncRemote,
+  SyncState,
+} from './types';
+
+const changeKey = (c: { collection: string; id: string }) => `${c.collection}:${c.id}`;
+
+function writeLocalStorage(key: string, value: unknown): void {
+  try {
+    globalThis.localStorage?.setItem(key, JSON.stringify(value));
+  } catch { /* quota exceeded — 스토어 상태는 반영됨 */ }
+}
+
+/** 타입 있는 스토어 정의 → 엔진이 다루는 핸들 (변경 감지는 항목 참조가 바뀐 것만 비교) */
+export function defineCollection<S, T>(
+  def: SyncCollection<S, T>,
+  persist: (key: string, value: unknown) => void = writeLocalStorage,
+  now: () => string = () => new Date().toISOString(),
+): CollectionHandle {
+  let applying = false;
+
+  const byId = (state: S) => new Map(def.items(state).map((item) => [def.idOf(item), item]));
+
+  return {
+    name: def.name,
+
+    snapshot() {
+      const out = new Map<string, { payload: unknown; updatedAt: string | undefined }>();
+      for (const [id, item] of byId(def.store.getState())) out.set(id, { payload: item, updatedAt: def.updatedAtOf(item) });
+      return out;
+    },
+
+    watch(onChanges) {
+      return def.store.subscribe((state, prev) => {
+        if (applying) return;
+        const nextItems = def.items(state);
+        if (nextItems === def.items(prev)) return;
+        const before = byId(prev);
+        const after = byId(state);
+        const stamp = now();
+        const changes: SyncChange[] = [];
+        for (const [id, item] of after) {
+          const old = before.get(id);
+          if (old === item || (old && JSON.stringify(old) === JSON.stringify(item))) continue;
+          changes.push({ collection: def.name, id, payload: item, deleted: false, updatedAt: def.updatedAtOf(item) ?? stamp });
+        }
+        if (def.syncDeletes !== false) {
+          for (const id of before.keys()) {
+            if (!after.has(id)) changes.push({ collection: def.name, id, payload: null, deleted: true, updatedAt: stamp });
+          }
+        }
+        if (changes.length > 0) onChanges(changes);
+      });
+    },
+
+    apply(changes) {
+      const items = byId(def.store.getState());
+      for (const change of changes) {
+        if (change.deleted) items.delete(change.id);
+        else items.set(change.id, change.payload as T);
+      }
+      const { state, stored } = def.toState([...items.values()]);
+      applying = true;
+      try {
+        def.store.setState(state);
+      } finally {
+        applying = false;
+      }
+      persist(def.storageKey, stored);
+    },
+  };
+}
+
+/**
+ * 받은 변경 중 반영할 것 — 더 최근 로컬 수정(outbox 대기 또는 레코드 자체 시각)이 있으면 건너뜀
+ */
+export function resolveIncoming(
+  incoming: RemoteChange[],
+  pending: Map<string, SyncChange>,
+  local: Map<string, Map<string, { updatedAt: string | undefined }>>,
+): RemoteChange[] {
+  const latest = new Map<string, RemoteChange>();
+  for (const change of incoming) {
+    const key = changeKey(change);
+    const seen = latest.get(key);
+    if (!seen || seen.updatedAt <= change.updatedAt) latest.set(key, change);
+  }
+  return [...latest.values()].filter((change) => {
+    const queued = pending.get(changeKey(change));
+    if (queued && queued.updatedAt > change.updatedAt) return false;
+    const current = local.get(change.collection)?.get(change.id);
+    if (current?.updatedAt && current.updatedAt > change.updatedAt) return false;
+    return true;
+  });
+}
+
+export interface SyncEngineOptions {
+  collections: CollectionHandle[];
+  queue: SyncQueue;
+  remote: SyncRemote;
+  isOnline?: () => boolean;
+  onState?: (state: SyncState) => void;
+}
+
+export interface SyncEngine {
+  /** 스토어 변경 감지 시작 — 해제 함수 반환 */
+  watch(onLocalChange?: () => void): () => void;
+  /** push → pull 한 번 (동시에 한 번만) */
+  sync(): Promise<SyncState>;
+  readonly state: SyncState;
+}
+
+const EPOCH = '1970-01-01T00:00:00.000Z';
+
+export function createSyncEngine({ collections, queue, remote, isOnline = () => true, onState }: SyncEngineOptions): SyncEngine {
+  let state: SyncState = { status: 'idle', pending: 0, lastSyncedAt: null, error: null };
+  let running: Promise<SyncState> | null = null;
+  let enqueueing: Promise<unknown> = Promise.resolve();
+
+  const update = (patch: Partial<SyncState>) => {
+    state = { ...state, ...patch };
+    onState?.(state);
+    return state;
+  };
+
+  const enqueue = (changes: SyncChange[]) => {
+    enqueueing = enqueueing.then(async () => {
+      for (const change of changes) await queue.put(change);
+      update({ pending: (await queue.all()).length });
+    }).catch((err: unknown) => {
+      // 저장 실패가 이후 큐잉까지 막지 않도록 체인은 계속 이어감
+      update({ status: 'error', error: err instanceof Error ? err.message : String(err) });
+    });
+    return enqueueing;
+  };
+
+  // 로그인한 사용자마다 처음 한 번, 이 기기에만 있던 레코드를 모두 outbox에
+  async function seed(userId: string) {
+    if (await queue.getMeta(`seeded:${userId}`)) return;
+    const changes: SyncChange[] = [];
+    for (const collection of collections) {
+      for (const [id, { payload, updatedAt }] of collection.snapshot()) {
+        changes.push({ collection: collection.name, id, payload, deleted: false, updatedAt: updatedAt ?? EPOCH });
+      }
+    }
+    await enqueue(changes);
+    await queue.setMeta(`seeded:${userId}`, new Date().toISOString());
+  }
+
+  async function run(): Promise<SyncState> {
+    await enqueueing;
+    const pendingCount = (await queue.all()).length;
+    if (!isOnline()) return update({ status: 'offline', pending: pendingCount });
+
+    const userId = await remote.currentUserId();
+    if (!userId) return update({ status: 'signed-out', pending: pendingCount });
+
+    update({ status: 'syncing', error: null });
+    await seed(userId);
+
+    const outbox = await queue.all();
+    if (outbox.length > 0) {
+      const pushed = await remote.push(outbox);
+      if (!pushed.ok) return update({ status: pushed.reason === 'error' ? 'error' : pushed.reason, error: pushed.message, pending: outbox.length });
+      await queue.removeIfUnchanged(outbox);
+    }
+
+    const cursorKey = `cursor:${userId}`;
+    const since = (await queue.getMeta(cursorKey)) ?? EPOCH;
+    const pulled = await remote.pull(since);
+    if (!pulled.ok) return update({ status: pulled.reason === 'error' ? 'error' : pulled.reason, error: pulled.message });
+
+    if (pulled.data.length > 0) {
+      const pending = new Map((await queue.all()).map((c) => [changeKey(c), c]));
+      const local = new Map(collections.map((c) => [c.name, c.snapshot()]));
+      const accepted = resolveIncoming(pulled.data, pending, local);
+      for (const collection of collections) {
+        const changes = accepted.filter((c) => c.collection === collection.name);
+        if (changes.length > 0) collection.apply(changes);
+      }
+      const cursor = pulled.data.reduce((max, c) => (c.syncedAt > max ? c.syncedAt : max), since);
+      await queue.setMeta(cursorKey, cursor);
+    }
+
+    return update({ status: 'idle', pending: (await queue.all()).length, lastSyncedAt: new Date().toISOString(), error: null });
+  }
+
+  return {
+    get state() {
+      return state;
+    },
+
+    watch(onLocalChange) {
+      const unsubscribers = collections.map((collection) => collection.watch((changes) => {
+        void enqueue(changes).then(() => onLocalChange?.());
+      }));
+      return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    },
+
+    sync() {
+      running ??= run()
+        .catch((err: unknown) => update({ status: 'error', error: err instanceof Error ? err.message : String(err) }))
+        .finally(() => { running = null; });
+      return running;
+    },
+  };
+}
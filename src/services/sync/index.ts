@@ -0,0 +1,118 @@
+/**
+ * 오프라인 우선 동기화 — 기사 메모·북마크, 제외 KB, Knowledge Base, 점수 이력, 완료 세션
+ *
+ * 로컬 변경은 IndexedDB outbox에 쌓였다가 로그인·온라인 상태에서 sync_records로 upsert.
+ * 다른 기기(데스크톱 앱 ↔ 브라우저) 변경은 주기적으로 당겨와 updatedAt이 더 늦은 쪽으로 합침.
+ */
+
+import { useAuthStore } from '../../stores/authStore';
+import { useSyncStore } from '../../stores/syncStore';
+import { loadDbClient, repositories, type SyncRecordRow } from '../repository';
+import { createSyncCollections } from './collections';
+import { createSyncEngine, type SyncEngine } from './engine';
+import { createIndexedDbQueue, createMemoryQueue } from './queue';
+import type { RemoteChange, RemoteResult, SyncRemote } from './types';
+
+export * from './types';
+export { createSyncEngine, defineCollection, resolveIncoming } from './engine';
+export { createIndexedDbQueue, createMemoryQueue } from './queue';
+
+const PUSH_DEBOUNCE_MS = 2_000;
+const PULL_INTERVAL_MS = 60_000;
+const PULL_PAGE_SIZE = 1_000;
+const FAR_FUTURE = '9999-12-31T00:00:00.000Z';
+const DEVICE_KEY = 'careradar_device_id';
+
+function deviceId(): string {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+}
+
+function toChange(row: SyncRecordRow): RemoteChange {
+  return {
+    collection: row.collection,
+    id: row.record_id,
+    payload: row.payload,
+    deleted: row.deleted,
+    updatedAt: row.updated_at,
+    syncedAt: row.synced_at ?? row.updated_at,
+  };
+}
+
+const supabaseRemote: SyncRemote = {
+  async currentUserId() {
+    const client = await loadDbClient();
+    return client ? client.currentUserId() : null;
+  },
+
+  push(changes) {
+    const device = deviceId();
+    return repositories.syncRecords.upsert(changes.map((c) => ({
+      collection: c.collection,
+      record_id: c.id,
+      payload: c.deleted ? null : c.payload,
+      deleted: c.deleted,
+      updated_at: c.updatedAt,
+      device_id: device,
+    })));
+  },
+
+  async pull(since): Promise<RemoteResult<RemoteChange[]>> {
+    const changes: RemoteChange[] = [];
+    let cursor = since;
+    for (;;) {
+      const page = await repositories.syncRecords.list({
+        range: ['synced_at', cursor, FAR_FUTURE],
+        orderBy: 'synced_at',
+        ascending: true,
+        limit: PULL_PAGE_SIZE,
+      });
+      if (!page.ok) return page;
+      changes.push(...page.data.map(toChange));
+      const last = page.data[page.data.length - 1]?.synced_at;
+      // 커서(synced_at 이상)는 경계 행을 다시 받지만 반영은 멱등
+      if (page.data.length < PULL_PAGE_SIZE || !last || last === cursor) break;
+      cursor = last;
+    }
+    return { ok: true, data: changes };
+  },
+};
+
+let engine: SyncEngine | null = null;
+let timer: ReturnType<typeof setTimeout> | undefined;
+
+function schedule(delayMs: number): void {
+  clearTimeout(timer);
+  timer = setTimeout(() => void engine?.sync(), delayMs);
+}
+
+/** 앱 시작 시 한 번 — Supabase 미설정이면 아무것도 하지 않음 */
+export function startSync(): void {
+  if (engine || !import.meta.env.VITE_SUPABASE_URL) return;
+
+  engine = createSyncEngine({
+    collections: createSyncCollections(),
+    queue: typeof indexedDB === 'undefined' ? createMemoryQueue() : createIndexedDbQueue(),
+    remote: supabaseRemote,
+    isOnline: () => navigator.onLine,
+    onState: (state) => useSyncStore.setState(state),
+  });
+  engine.watch(() => schedule(PUSH_DEBOUNCE_MS));
+
+  window.addEventListener('online', () => schedule(0));
+  window.addEventListener('offline', () => useSyncStore.setState({ status: 'offline' }));
+  setInterval(() => void engine?.sync(), PULL_INTERVAL_MS);
+  useAuthStore.subscribe((state, prev) => {
+    if (state.userId !== prev.userId) schedule(0);
+  });
+  schedule(0);
+}
+
+/** 상태 배지의 "지금 동기화" */
+export function syncNow(): void {
+  schedule(0);
+}
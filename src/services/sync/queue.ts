@@ -0,0 +1,104 @@
+/**
+ * 동기화 outbox — IndexedDB(careradar_sync)에 레코드별 마지막 변경과 커서를 보관
+ *
+ * 탭을 닫거나 오프라인으로 앱을 꺼도 보내지 못한 변경이 남음.
+ * IndexedDB를 못 쓰는 환경(사파리 개인 정보 보호 모드 등)은 메모리 큐로 대신함.
+ */
+
+import type { SyncChange, SyncQueue } from './types';
+
+const DB_NAME = 'careradar_sync';
+const DB_VERSION = 1;
+const OUTBOX = 'outbox';
+const META = 'meta';
+
+interface OutboxEntry extends SyncChange {
+  key: string;
+}
+
+const keyOf = (c: SyncChange) => `${c.collection}:${c.id}`;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(OUTBOX)) database.createObjectStore(OUTBOX, { keyPath: 'key' });
+      if (!database.objectStoreNames.contains(META)) database.createObjectStore(META, { keyPath: 'key' });
+    };
+  });
+}
+
+export function createIndexedDbQueue(): SyncQueue {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const store = async (name: string, mode: IDBTransactionMode) => {
+    dbPromise ??= openDB().then((db) => {
+      db.onclose = () => { dbPromise = null; };
+      return db;
+    });
+    return (await dbPromise).transaction(name, mode).objectStore(name);
+  };
+
+  return {
+    async put(change) {
+      const entry: OutboxEntry = { ...change, key: keyOf(change) };
+      await promisify((await store(OUTBOX, 'readwrite')).put(entry));
+    },
+
+    async all() {
+      const entries = await promisify((await store(OUTBOX, 'readonly')).getAll()) as OutboxEntry[];
+      return entries.map(({ key: _key, ...change }) => change);
+    },
+
+    async removeIfUnchanged(changes) {
+      const outbox = await store(OUTBOX, 'readwrite');
+      for (const change of changes) {
+        const current = await promisify(outbox.get(keyOf(change))) as OutboxEntry | undefined;
+        if (current && current.updatedAt === change.updatedAt) await promisify(outbox.delete(keyOf(change)));
+      }
+    },
+
+    async getMeta(key) {
+      const entry = await promisify((await store(META, 'readonly')).get(key)) as { key: string; value: string } | undefined;
+      return entry?.value ?? null;
+    },
+
+    async setMeta(key, value) {
+      await promisify((await store(META, 'readwrite')).put({ key, value }));
+    },
+  };
+}
+
+export function createMemoryQueue(): SyncQueue {
+  const outbox = new Map<string, SyncChange>();
+  const meta = new Map<string, string>();
+  return {
+    async put(change) {
+      outbox.set(keyOf(change), change);
+    },
+    async all() {
+      return [...outbox.values()];
+    },
+    async removeIfUnchanged(changes) {
+      for (const change of changes) {
+        if (outbox.get(keyOf(change))?.updatedAt === change.updatedAt) outbox.delete(keyOf(change));
+      }
+    },
+    async getMeta(key) {
+      return meta.get(key) ?? null;
+    },
+    async setMeta(key, value) {
+      meta.set(key, value);
+    },
+  };
+}
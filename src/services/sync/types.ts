@@ -0,0 +1,81 @@
+/**
+ * 오프라인 우선 동기화 — careradar_* 로컬 저장소 ↔ Supabase sync_records
+ */
+
+/** 레코드 하나의 변경 — 삭제는 payload 없이 deleted */
+export interface SyncChange {
+  collection: string;
+  id: string;
+  payload: unknown;
+  deleted: boolean;
+  /** 변경 시각 (ISO) — 충돌은 더 늦은 쪽이 이김 */
+  updatedAt: string;
+}
+
+/** 원격에서 받은 변경 — syncedAt은 서버가 기록한 시각(당겨오기 커서) */
+export interface RemoteChange extends SyncChange {
+  syncedAt: string;
+}
+
+/** 아직 보내지 못한 로컬 변경 (IndexedDB outbox) — 같은 레코드는 마지막 변경만 남김 */
+export interface SyncQueue {
+  put(change: SyncChange): Promise<void>;
+  all(): Promise<SyncChange[]>;
+  /** 보낸 뒤 그 사이 다시 바뀌지 않은 항목만 지움 */
+  removeIfUnchanged(changes: SyncChange[]): Promise<void>;
+  getMeta(key: string): Promise<string | null>;
+  setMeta(key: string, value: string): Promise<void>;
+}
+
+export type RemoteResult<T> = { ok: true; data: T } | { ok: false; reason: 'unconfigured' | 'signed-out' | 'error'; message: string };
+
+export interface SyncRemote {
+  currentUserId(): Promise<string | null>;
+  push(changes: SyncChange[]): Promise<RemoteResult<number>>;
+  /** syncedAt이 since 이후인 변경, 오래된 순 */
+  pull(since: string): Promise<RemoteResult<RemoteChange[]>>;
+}
+
+/** zustand 스토어 중 동기화가 쓰는 부분 */
+export interface SyncStoreApi<S> {
+  getState(): S;
+  setState(partial: Partial<S>): void;
+  subscribe(listener: (state: S, prev: S) => void): () => void;
+}
+
+export interface SyncCollection<S, T> {
+  /** sync_records.collection */
+  name: string;
+  store: SyncStoreApi<S>;
+  /** 스토어가 쓰는 localStorage 키 — 원격 변경을 반영할 때 함께 저장 */
+  storageKey: string;
+  items(state: S): T[];
+  idOf(item: T): string;
+  /** 레코드 자체의 수정 시각 — 없으면 변경을 감지한 시각 */
+  updatedAtOf(item: T): string | undefined;
+  /** 정렬·개수 제한 후 스토어 상태와 localStorage 값 */
+  toState(items: T[]): { state: Partial<S>; stored: unknown };
+  /** false면 로컬에서 지운 항목(보관 한도로 잘린 이력 등)을 원격에 삭제로 보내지 않음 */
+  syncDeletes?: boolean;
+}
+
+/** 타입을 지운 컬렉션 — defineCollection이 SyncCollection에서 만듦 */
+export interface CollectionHandle {
+  name: string;
+  /** 현재 로컬 레코드 — id → (payload, updatedAt) */
+  snapshot(): Map<string, { payload: unknown; updatedAt: string | undefined }>;
+  /** 사용자 변경을 SyncChange로 — 원격 반영 중 생긴 상태 변화는 알리지 않음 */
+  watch(onChanges: (changes: SyncChange[]) => void): () => void;
+  /** 원격 변경 반영 (스토어 + localStorage) */
+  apply(changes: SyncChange[]): void;
+}
+
+export type SyncStatus = 'unconfigured' | 'signed-out' | 'offline' | 'idle' | 'syncing' | 'error';
+
+export interface SyncState {
+  status: SyncStatus;
+  /** outbox에 남은 변경 수 */
+  pending: number;
+  lastSyncedAt: string | null;
+  error: string | null;
+}
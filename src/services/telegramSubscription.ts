@@ -0,0 +1,88 @@
+/**
+ * 텔레그램 채팅별 구독 설정 — 알림 트랙, 임계값, 방해 금지 시간, 언어
+ *
+ * care.v1 서버(Redis)에 채팅 ID별로 저장되어 웹훅(/subscribe, /threshold, /quiet …)과
+ * 서버 스케줄러의 Opportunity 알림 발송이 함께 사용합니다. 서버 전용 모듈에서도 import하므로
+ * 브라우저 의존성을 두지 않습니다.
+ */
+
+import type { CareTrack } from '../config/care-feeds';
+import { ALERT_THRESHOLD_MAX, ALERT_THRESHOLD_MIN } from './keywordProfile';
+
+export type BotLanguage = 'ko' | 'en';
+
+export interface TelegramSubscription {
+  chatId: string;
+  /** 알림·/news에 포함할 트랙 */
+  tracks: CareTrack[];
+  /** 0이면 키워드 프로필(Settings)의 공용 임계값을 따름 */
+  alertThreshold: number;
+  /** 방해 금지 시작·종료 시각 (KST, 0-23) — 같으면 방해 금지 없음 */
+  quietStartHour: number;
+  quietEndHour: number;
+  language: BotLanguage;
+  alertsEnabled: boolean;
+  /** 마지막 저장 시각 (Unix ms) — 0이면 저장된 적 없는 기본 구독 */
+  updatedAt: number;
+}
+
+export const SUBSCRIPTION_TRACKS: CareTrack[] = ['policy', 'investment', 'competitor', 'caretech'];
+
+export const BOT_LANGUAGES: BotLanguage[] = ['ko', 'en'];
+
+export function defaultTelegramSubscription(chatId: string): TelegramSubscription {
+  return {
+    chatId,
+    tracks: [...SUBSCRIPTION_TRACKS],
+    alertThreshold: 0,
+    quietStartHour: 0,
+    quietEndHour: 0,
+    language: 'ko',
+    alertsEnabled: true,
+    updatedAt: 0,
+  };
+}
+
+function toHour(value: unknown): number {
+  const n = Math.trunc(Number(value));
+  return Number.isFinite(n) && n >= 0 && n <= 23 ? n : 0;
+}
+
+/**
+ * 저장본·요청 본문 정리 — 알 수 없는 트랙 제거, 임계값은 0(공용) 또는 30-95
+ */
+export function normalizeTelegramSubscription(
+  raw: Partial<TelegramSubscription> | null | undefined,
+  chatId = String(raw?.chatId ?? ''),
+): TelegramSubscription {
+  const base = defaultTelegramSubscription(chatId.trim());
+  if (!raw) return base;
+
+  const tracks = Array.isArray(raw.tracks)
+    ? SUBSCRIPTION_TRACKS.filter((t) => raw.tracks!.includes(t))
+    : base.tracks;
+  const threshold = Math.round(Number(raw.alertThreshold) || 0);
+
+  return {
+    chatId: base.chatId,
+    tracks,
+    alertThreshold: threshold === 0 ? 0 : Math.min(ALERT_THRESHOLD_MAX, Math.max(ALERT_THRESHOLD_MIN, threshold)),
+    quietStartHour: toHour(raw.quietStartHour),
+    quietEndHour: toHour(raw.quietEndHour),
+    language: BOT_LANGUAGES.includes(raw.language as BotLanguage) ? (raw.language as BotLanguage) : 'ko',
+    alertsEnabled: raw.alertsEnabled ?? true,
+    updatedAt: Number(raw.updatedAt) || 0,
+  };
+}
+
+/** 방해 금지 시간대인지 — 23→7처럼 자정을 넘는 구간 지원 */
+export function isQuietHour(sub: TelegramSubscription, kstHour: number): boolean {
+  const { quietStartHour: start, quietEndHour: end } = sub;
+  if (start === end) return false;
+  return start < end ? kstHour >= start && kstHour < end : kstHour >= start || kstHour < end;
+}
+
+/** 이 채팅의 알림 임계값 — 개별 설정이 없으면 공용 임계값 */
+export function effectiveAlertThreshold(sub: TelegramSubscription, sharedThreshold: number): number {
+  return sub.alertThreshold || sharedThreshold;
+}
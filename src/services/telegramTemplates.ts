@@ -0,0 +1,133 @@
+/**
+ * WoohanaBot 메시지 템플릿 — PRD Appendix A.3
+ * 알림 허브 템플릿(notifications/templates.ts)과 서버 스케줄러(server/scheduler)가 공용으로 사용
+ */
+
+import type { ProcurementListing } from './g2bCrawler';
+import type { OpportunityScoreState } from '../stores/trackingStore';
+import type { BotLanguage } from './telegramSubscription';
+
+/** 트랙별 뉴스 아이템 (알림용) */
+export interface TrackNewsItem {
+  title: string;
+  link: string;
+}
+
+/** 채팅별 구독 알림의 기사 — 번호 순서가 인라인 버튼 줄과 같음 */
+export interface SubscriptionAlertItem extends TrackNewsItem {
+  track: string;
+}
+
+/** Opportunity 알림 페이로드 — 트랙별 점수 + 해당 뉴스 목록 */
+export interface OpportunityAlertPayload extends OpportunityScoreState {
+  newsByTrack: {
+    policy: TrackNewsItem[];
+    investment: TrackNewsItem[];
+    competitor: TrackNewsItem[];
+  };
+}
+
+const MAX_NEWS_PER_TRACK = 5;
+const MAX_TITLE_LEN = 60;
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function truncate(s: string, len: number): string {
+  return s.length <= len ? s : s.slice(0, len - 1) + '…';
+}
+
+const ALERT_TRACK_LABELS: Record<BotLanguage, Record<string, string>> = {
+  ko: { policy: '정책/예산', investment: '자금유입', competitor: '경쟁사', caretech: '케어테크' },
+  en: { policy: 'Policy', investment: 'Funding', competitor: 'Competitors', caretech: 'Care tech' },
+};
+
+function formatTrackNews(items: TrackNewsItem[]): string {
+  if (items.length === 0) return '  (해당 트랙 뉴스 없음)';
+  return items
+    .slice(0, MAX_NEWS_PER_TRACK)
+    .map((n) => `  • <a href="${n.link}">${escapeHtml(truncate(n.title, MAX_TITLE_LEN))}</a>`)
+    .join('\n');
+}
+
+export const TELEGRAM_TEMPLATES = {
+  procurement: (item: ProcurementListing) =>
+    `🏛️ [조달 공고] ${item.fitness_score === 'high' ? '🔴' : '🟡'} ${item.fitness_score.toUpperCase()}\n` +
+    `${item.title}\n` +
+    `💰 ${item.budget > 0 ? (item.budget / 100000000).toFixed(1) + '억원' : '—'} | 📅 ${item.deadline || '—'}\n` +
+    `🏢 ${item.agency}\n` +
+    `${item.source_url}`,
+
+  opportunity: (payload: OpportunityAlertPayload) => {
+    const lines: string[] = [
+      `🎯 [Opportunity Alert] Total: <b>${payload.total}</b>`,
+      payload.shouldAlert ? '⚠️ ACT NOW' : '📊 Monitor',
+      '',
+      '📊 <b>트랙별 점수</b>',
+      `• S1 정책/예산: ${payload.s1}`,
+      `• S2 자금유입: ${payload.s2}`,
+      `• S3 경쟁사: ${payload.s3}`,
+      '',
+      '📰 <b>트랙별 트래킹 뉴스</b>',
+      '',
+      `📌 <b>정책/예산</b> (S1: ${payload.s1})`,
+      formatTrackNews(payload.newsByTrack.policy),
+      '',
+      `📌 <b>자금유입</b> (S2: ${payload.s2})`,
+      formatTrackNews(payload.newsByTrack.investment),
+      '',
+      `📌 <b>경쟁사</b> (S3: ${payload.s3})`,
+      formatTrackNews(payload.newsByTrack.competitor),
+    ];
+    return lines.join('\n');
+  },
+
+  subscription_alert: (
+    score: Pick<OpportunityScoreState, 'total' | 's1' | 's2' | 's3'>,
+    threshold: number,
+    items: SubscriptionAlertItem[],
+    language: BotLanguage,
+    withActions = true,
+  ) => {
+    const labels = ALERT_TRACK_LABELS[language];
+    const news = items.map(
+      (n, i) => `${i + 1}. [${labels[n.track] ?? n.track}] <a href="${n.link}">${escapeHtml(truncate(n.title, MAX_TITLE_LEN))}</a>`,
+    );
+    const lines = language === 'en'
+      ? [
+          `🎯 [Opportunity Alert] Total: <b>${score.total}</b> (threshold ${threshold})`,
+          `S1 policy ${score.s1} · S2 funding ${score.s2} · S3 competitors ${score.s3}`,
+          '',
+          '📰 <b>Top news in your tracks</b>',
+          ...(news.length > 0 ? news : ['(no news)']),
+          ...(withActions ? ['', 'Use the buttons to exclude, bookmark or study an item.'] : []),
+        ]
+      : [
+          `🎯 [Opportunity Alert] Total: <b>${score.total}</b> (임계값 ${threshold})`,
+          `S1 정책/예산 ${score.s1} · S2 자금유입 ${score.s2} · S3 경쟁사 ${score.s3}`,
+          '',
+          '📰 <b>구독 트랙 주요 뉴스</b>',
+          ...(news.length > 0 ? news : ['(뉴스 없음)']),
+          ...(withActions ? ['', '버튼으로 제외·북마크·학습 세션을 바로 실행할 수 있습니다.'] : []),
+        ];
+    return lines.join('\n');
+  },
+
+  competitor: (title: string, summary: string, url: string) =>
+    `👀 [경쟁사 동향]\n${title}\n${summary}\n🔗 ${url}`,
+
+  daily_brief: (items: string[], pending: string[]) =>
+    `☀️ [Daily Brief] 오늘의 학습\n` +
+    items.map((item, i) => `${i + 1}. ${item}`).join('\n') +
+    (pending.length > 0 ? `\n\n⚠️ 어제 미완료: ${pending.join(', ')}` : ''),
+
+  streak_warning: (streak: number) =>
+    `⏰ 오늘 학습 아직 미완료!\n🔥 현재 ${streak}일 연속 중. 10분만 투자하세요.`,
+
+  weekly_report: (streakDays: number, financialMemos: number, sroiCount: number, summary?: string) =>
+    `📊 [주간 리포트]\n` +
+    `완료율: ${streakDays}/5일\n` +
+    `📝 재무메모 ${financialMemos}건 | 📈 SROI ${sroiCount}건\n` +
+    (summary || ''),
+};
@@ -0,0 +1,413 @@
+/**
+ * Tracking Feed — /tracking 대시보드 데이터 레이어
+ * care.v1 서버가 한 번 계산한 뉴스·Opportunity Score·조달 목록을 받아
+ * 대시보드 위젯이 쓰는 형태(NewsArticle, ProcurementItem)로 변환
+ * 조달 목록은 나라장터 실제 공고와 병합하고 서버 작업이 추적한 상태(procurementFeed)를 반영해 변환
+ * 정책 캘린더(예산 사이클·법령·보도자료 일정)는 서버와 같은 방식으로 S1에 함께 반영
+ * 스냅샷마다 국가별 케어 준비도(CRI)도 다시 계산해 일별 이력에 기록 (월드맵 CRI 레이어)
+ * 피드백 관련성 모델(services/relevance)은 표시 단계에서만 적용 — 점수는 서버 결과를 그대로 공유
+ */
+
+import { calcTimeAgo, type RssItem } from './rssFeed';
+import type { KeywordCategory, KeywordMatch } from './keywordFilter';
+import type { VerifiedRssItem } from './crossVerification';
+import { calculateOpportunityScore, type OpportunityScoreResult, type ScoringProfile } from './scoreCalculator';
+import {
+  fetchCareTrackNews,
+  fetchCareOpportunityScore,
+  fetchCareProcurementListings,
+  fetchKeywordProfile,
+  fetchCompetitorDisclosures,
+  fetchPolicyCalendar,
+  type CareArticle,
+  type VerificationStats,
+} from './care';
+import { loadProcurements } from './procurementFeed';
+import {
+  procurementKindLabel,
+  type ProcurementSource,
+  type ProcurementStatus,
+  type TrackedProcurement,
+} from './procurementTracker';
+import { disclosureScoreItems, type DartDisclosure } from './dartApi';
+import { policyCalendarScoreItems, type PolicyEvent } from './policyCalendar';
+import { isLikelyIrrelevant } from './relevance';
+import { syncBotActions } from './botInbox';
+import { notify } from './notifications';
+import { storage } from '../utils/storage';
+import { useTrackingStore, type ContributingNewsItem, type TopContributingNews } from '../stores/trackingStore';
+import { useCareReadinessStore } from '../stores/careReadinessStore';
+import { useCareMapStore } from '../stores/careMapStore';
+import { useScoringProfileStore } from '../stores/scoringProfileStore';
+import { useSettingsStore } from '../stores/settingsStore';
+
+export type ArticleType = RssItem['track'] | 'procurement';
+
+export interface ArticleAnalysis {
+  sentiment: 'positive' | 'neutral' | 'negative';
+  sentimentScore: number; // 0~100
+  impactScore: number; // 0~100
+  impactLevel: 'high' | 'medium' | 'low';
+  keyInsights: string[];
+  relatedKeywords: string[];
+  stakeholders: string[];
+  fullContent: string;
+  actionTip: string;
+}
+
+export interface NewsArticle {
+  id: string;
+  source: string;
+  category: string;
+  tags: string[];
+  title: string;
+  preview: string;
+  link: string;
+  pubDate: string;
+  daysAgo: number;
+  type: ArticleType;
+  track: RssItem['track'];
+  isVerified: boolean;
+  analysis: ArticleAnalysis;
+}
+
+export interface ProcurementItem {
+  id: string;
+  title: string;
+  organization: string;
+  category: string;
+  budget: string;
+  deadline: string; // YYYY-MM-DD, '' when 공고에 마감일 없음
+  impactScore: number;
+  actionTip: string;
+  sourceUrl: string;
+  status: ProcurementStatus;
+  source: ProcurementSource; // 'nara' = 나라장터 공고, 'news' = 뉴스 기반 항목
+  awardedTo: string;         // 낙찰업체 ('' = 미낙찰·미확인)
+  awardedPrice: string;
+  awardRatio: number;        // 낙찰금액 / 추정가격
+}
+
+export interface TrackCount {
+  key: RssItem['track'];
+  label: string;
+  count: number;
+}
+
+export interface TrackingSnapshot {
+  articles: NewsArticle[];
+  procurements: ProcurementItem[];
+  /** 경쟁사 DART 공시 (유형 분류, 최신순) — S3 점수에 뉴스와 함께 반영 */
+  disclosures: DartDisclosure[];
+  dartConfigured: boolean;
+  /** 정책 캘린더 — 지난 30일 ~ 앞으로 1년, 날짜순 */
+  calendar: PolicyEvent[];
+  trackCounts: TrackCount[];
+  score: OpportunityScoreResult;
+  verification: VerificationStats;
+  fetchedAt: string;
+}
+
+/** RssItem.track → 대시보드 카테고리 라벨 */
+export const TRACK_CATEGORY_LABELS: Record<RssItem['track'], string> = {
+  caretech: '케어테크 뉴스',
+  investment: '투자/펀딩',
+  competitor: '경쟁사',
+  policy: '정책/조달',
+};
+
+const TRACK_TAG_PREFIX: Record<RssItem['track'], string> = {
+  caretech: '[케어테크]',
+  investment: '[투자]',
+  competitor: '[경쟁사]',
+  policy: '[정책]',
+};
+
+const PROCUREMENT_PATTERN = /입찰|조달|나라장터|공고|용역|g2b/i;
+
+const POSITIVE_TERMS = ['확대', '증가', '유치', '선정', '지원', '신설', '도입', '성장', '협약', '개정', 'launch', 'raises', 'expands', 'growth', 'approval'];
+const NEGATIVE_TERMS = ['축소', '감소', '중단', '폐지', '삭감', '논란', '위반', '적자', '철회', 'cut', 'decline', 'lawsuit', 'layoff', 'recall'];
+
+const ACTION_TIPS: Record<ArticleType, string> = {
+  caretech: '유사 솔루션의 기능·고객군을 확인하고 CareVia 차별화 포인트와 비교하세요.',
+  investment: '투자 주체와 라운드 규모를 기록하고 IR 대상 VC 리스트에 반영하세요.',
+  competitor: '경쟁사의 타깃 시장과 가격 정책 변화를 모니터링하고 대응 메시지를 준비하세요.',
+  policy: '소관 부처와 시행 일정을 확인하고 B2G 제안 타이밍에 반영하세요.',
+  procurement: '공고 원문에서 자격 요건과 마감일을 확인하고 입찰 참여 여부를 검토하세요.',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysSince(pubDate: string, now: number): number {
+  const t = new Date(pubDate).getTime();
+  if (!t) return 0;
+  return Math.max(0, Math.floor((now - t) / DAY_MS));
+}
+
+function scoreSentiment(text: string): Pick<ArticleAnalysis, 'sentiment' | 'sentimentScore'> {
+  const lower = text.toLowerCase();
+  const pos = POSITIVE_TERMS.filter((t) => lower.includes(t)).length;
+  const neg = NEGATIVE_TERMS.filter((t) => lower.includes(t)).length;
+  const sentimentScore = Math.max(0, Math.min(100, 50 + (pos - neg) * 12));
+  const sentiment = sentimentScore >= 60 ? 'positive' : sentimentScore <= 40 ? 'negative' : 'neutral';
+  return { sentiment, sentimentScore };
+}
+
+function impactLevelOf(score: number): ArticleAnalysis['impactLevel'] {
+  if (score >= 75) return 'high';
+  if (score >= 55) return 'medium';
+  return 'low';
+}
+
+function resolveType(item: VerifiedRssItem): ArticleType {
+  if (item.track === 'policy' && PROCUREMENT_PATTERN.test(item.title)) return 'procurement';
+  return item.track;
+}
+
+/**
+ * 파이프라인 결과(VerifiedRssItem)를 대시보드 NewsArticle로 변환
+ */
+export function toNewsArticle(item: VerifiedRssItem, now = Date.now()): NewsArticle {
+  const type = resolveType(item);
+  const text = `${item.title} ${item.description}`;
+  const impactScore = item.verifiedScore;
+  const prefix = TRACK_TAG_PREFIX[item.track];
+  const keyInsights = [
+    item.isVerified
+      ? `${item.sourceCount}개 소스에서 교차 확인된 이슈`
+      : item.sourceCount >= 2
+      ? `${item.sourceCount}개 소스에서 보도`
+      : '단일 소스 보도 — 추가 확인 필요',
+  ];
+  if (item.keywordCategories.length > 0) {
+    keyInsights.push(`매칭 키워드: ${item.keywords_matched.slice(0, 4).join(', ')}`);
+  }
+
+  return {
+    id: item.id,
+    source: item.source,
+    category: TRACK_CATEGORY_LABELS[item.track],
+    tags: item.keywords_matched.slice(0, 3).map((kw) => `${prefix} ${kw}`),
+    title: item.title,
+    preview: item.description || item.title,
+    link: item.link,
+    pubDate: item.pubDate,
+    daysAgo: daysSince(item.pubDate, now),
+    type,
+    track: item.track,
+    isVerified: item.isVerified,
+    analysis: {
+      ...scoreSentiment(text),
+      impactScore,
+      impactLevel: impactLevelOf(impactScore),
+      keyInsights,
+      relatedKeywords: item.keywords_matched,
+      stakeholders: [item.source, ...item.relatedSources],
+      fullContent: item.description,
+      actionTip: ACTION_TIPS[type],
+    },
+  };
+}
+
+/** 원 단위 예산을 "24억원" 형태로 표시 */
+export function formatBudget(won: number): string {
+  if (!won || won <= 0) return '미공개';
+  if (won >= 1e8) return `${Math.round((won / 1e8) * 10) / 10}억원`;
+  if (won >= 1e4) return `${Math.round(won / 1e4).toLocaleString('ko-KR')}만원`;
+  return `${won.toLocaleString('ko-KR')}원`;
+}
+
+const FITNESS_IMPACT: Record<string, number> = {
+  high: 85,
+  medium: 65,
+  low: 40,
+};
+
+export function toProcurementItem(item: TrackedProcurement): ProcurementItem {
+  const bonus = Math.min(10, Math.max(0, item.matchedKeywords.length - 1) * 3);
+  return {
+    id: item.id,
+    title: item.title,
+    organization: item.organization,
+    category: item.matchedKeywords[0] ?? procurementKindLabel(item.kind),
+    budget: formatBudget(item.estimatedPrice),
+    deadline: item.deadline ? item.deadline.slice(0, 10) : '',
+    impactScore: Math.min(100, (FITNESS_IMPACT[item.fitnessScore] ?? FITNESS_IMPACT.low!) + bonus),
+    actionTip: item.fitnessReason,
+    sourceUrl: item.sourceUrl,
+    status: item.status,
+    source: item.source,
+    awardedTo: item.awardedTo,
+    awardedPrice: item.awardedPrice ? formatBudget(item.awardedPrice) : '',
+    awardRatio: item.awardRatio,
+  };
+}
+
+/**
+ * care.v1 CareArticle → 파이프라인 타입(VerifiedRssItem) 복원
+ */
+export function fromCareArticle(article: CareArticle, now = Date.now()): VerifiedRssItem {
+  const pubDate = article.publishedAt ? new Date(article.publishedAt).toISOString() : '';
+  const keywordCategories: KeywordMatch[] = article.keywordMatches.map((m) => ({
+    keyword: m.keyword,
+    category: m.category as KeywordCategory,
+  }));
+  return {
+    id: article.id,
+    title: article.title,
+    link: article.link,
+    source: article.source,
+    pubDate,
+    timeAgo: pubDate ? calcTimeAgo(pubDate, now) : 'Recently',
+    description: article.description,
+    track: article.track as RssItem['track'],
+    keywords_matched: keywordCategories.map((m) => m.keyword),
+    keywordCategories,
+    relevance_score: article.relevanceScore,
+    sourceCount: article.sourceCount,
+    isVerified: article.isVerified,
+    relatedSources: article.relatedSources,
+    verifiedScore: article.verifiedScore,
+  };
+}
+
+function countByTrack(articles: NewsArticle[]): TrackCount[] {
+  return (Object.keys(TRACK_CATEGORY_LABELS) as RssItem['track'][]).map((key) => ({
+    key,
+    label: TRACK_CATEGORY_LABELS[key],
+    count: articles.filter((a) => a.track === key).length,
+  }));
+}
+
+const EMPTY_SCORE: OpportunityScoreResult = { total: 0, s1: 0, s2: 0, s3: 0, shouldAlert: false, isHighPriority: false };
+const EMPTY_VERIFICATION: VerificationStats = { total: 0, verified: 0, multiSource: 0, singleSource: 0 };
+
+/**
+ * 실시간 점수 산식 — 활성 스코어링 프로필 + 키워드 프로필의 알림 임계값
+ * (서버 스냅샷과 같은 조합, 스코어링 프로필의 임계값은 백테스트 비교용)
+ */
+export function liveScoringProfile(): ScoringProfile {
+  return {
+    ...useScoringProfileStore.getState().getActiveProfile(),
+    alertThreshold: useSettingsStore.getState().alertThreshold,
+  };
+}
+
+/**
+ * 대시보드 전체 스냅샷 수집 — 세 RPC 모두 서버의 동일한 수집 스냅샷을 읽음
+ * 키워드 프로필도 함께 받아 텔레그램 봇에서 바꾼 키워드를 Settings에 반영하고,
+ * 봇 인라인 버튼으로 남긴 제외·북마크·학습 액션을 로컬 스토어에 적용
+ */
+export async function fetchTrackingSnapshot(): Promise<TrackingSnapshot> {
+  const [news, scoreResp, procurement, keywordProfile, dart, calendar] = await Promise.all([
+    fetchCareTrackNews(),
+    fetchCareOpportunityScore(),
+    fetchCareProcurementListings(),
+    fetchKeywordProfile(),
+    fetchCompetitorDisclosures(),
+    fetchPolicyCalendar(),
+    // 아래 제외 필터가 텔레그램에서 제외한 기사까지 거르도록 먼저 반영
+    syncBotActions(),
+  ]);
+  await useSettingsStore.getState().syncKeywordProfile(keywordProfile);
+  const procurements = await loadProcurements(procurement.listings, useSettingsStore.getState().getKeywordProfile());
+
+  if (!news.generatedAt && !scoreResp.generatedAt && !procurement.generatedAt) {
+    throw new Error('CareRadar 수집 서비스에 연결할 수 없습니다');
+  }
+
+  const now = Date.now();
+  const verified = news.articles.map((a) => fromCareArticle(a, now));
+  const articles = verified
+    .filter((a) => !isLikelyIrrelevant(`${a.title} ${a.description}`))
+    .map((a) => toNewsArticle(a, now));
+  const generatedAt = scoreResp.generatedAt || news.generatedAt || procurement.generatedAt;
+
+  // 서버 점수는 저장된 활성 프로필 기준 — 아직 저장 중인 편집도 바로 보이도록 같은 기사·공시·일정 집합에
+  // 로컬 활성 프로필을 다시 적용 (저장이 끝났으면 서버 값과 동일, 뉴스 RPC가 실패했으면 서버 값 유지)
+  const score = news.generatedAt
+    ? calculateOpportunityScore(
+        [...verified, ...disclosureScoreItems(dart.disclosures), ...policyCalendarScoreItems(calendar, generatedAt)],
+        liveScoringProfile(),
+        generatedAt,
+      )
+    : scoreResp.score ?? EMPTY_SCORE;
+
+  return {
+    articles,
+    procurements: procurements.map(toProcurementItem),
+    disclosures: dart.disclosures,
+    dartConfigured: dart.configured,
+    calendar,
+    trackCounts: countByTrack(articles),
+    score,
+    verification: scoreResp.verification ?? EMPTY_VERIFICATION,
+    fetchedAt: new Date(generatedAt).toISOString(),
+  };
+}
+
+function topContributing(articles: NewsArticle[], track: keyof TopContributingNews): ContributingNewsItem[] {
+  return articles
+    .filter((a) => a.track === track)
+    .sort((a, b) => b.analysis.impactScore - a.analysis.impactScore)
+    .slice(0, 3)
+    .map((a) => ({ id: a.id, title: a.title, link: a.link }));
+}
+
+/** 점수 트랙(S1~S3)별 영향도 상위 3개 기사 */
+export function topContributingNews(articles: NewsArticle[]): TopContributingNews {
+  return {
+    policy: topContributing(articles, 'policy'),
+    investment: topContributing(articles, 'investment'),
+    competitor: topContributing(articles, 'competitor'),
+  };
+}
+
+const OPPORTUNITY_ALERTED_KEY = 'careradar_opportunity_alerted';
+
+/**
+ * 점수가 임계값을 새로 넘은 순간에만 이 기기 채널(데스크톱 알림)로 알림
+ * 넘은 상태는 localStorage에 남겨 새로고침·앱 재시작마다 반복하지 않음
+ */
+function notifyOpportunityCrossing(score: OpportunityScoreResult, news: TopContributingNews): void {
+  const alerted = storage.get<boolean>(OPPORTUNITY_ALERTED_KEY, false);
+  if (score.shouldAlert === alerted) return;
+  storage.set(OPPORTUNITY_ALERTED_KEY, score.shouldAlert);
+  if (!score.shouldAlert) return;
+
+  const items = (list: ContributingNewsItem[]) => list.map(({ title, link }) => ({ title, link }));
+  const { total, s1, s2, s3, shouldAlert } = score;
+  void notify({
+    type: 'opportunity',
+    payload: {
+      total, s1, s2, s3, shouldAlert,
+      newsByTrack: { policy: items(news.policy), investment: items(news.investment), competitor: items(news.competitor) },
+    },
+  });
+}
+
+/**
+ * 스냅샷 점수를 useTrackingStore(점수·히스토리·기여 기사)에 반영
+ * /tracking 훅과 월드맵 care 패널이 함께 호출 — 두 화면이 같은 점수·추이를 보도록
+ * 같은 기사·조달 목록으로 CRI(useCareReadinessStore)도 갱신
+ * 조달 공고·정책 일정은 월드맵 care 레이어(useCareMapStore)로 전달
+ */
+export function recordTrackingSnapshot(snapshot: TrackingSnapshot): void {
+  const { setOpportunityScores, addScoreHistory, setTopContributingNews } = useTrackingStore.getState();
+  const { total, s1, s2, s3, shouldAlert } = snapshot.score;
+  const news = topContributingNews(snapshot.articles);
+  setOpportunityScores({ total, s1, s2, s3, shouldAlert });
+  addScoreHistory({ timestamp: snapshot.fetchedAt, total, s1, s2, s3 });
+  setTopContributingNews(news);
+  notifyOpportunityCrossing(snapshot.score, news);
+  useCareMapStore.getState().setSnapshot(snapshot.procurements, snapshot.calendar);
+  useCareReadinessStore.getState().record(
+    {
+      articles: snapshot.articles.map(({ title, preview, track, analysis }) => ({
+        title, preview, track, sentimentScore: analysis.sentimentScore,
+      })),
+      procurementCount: snapshot.procurements.length,
+    },
+    new Date(snapshot.fetchedAt).getTime(),
+  );
+}
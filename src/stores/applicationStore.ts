@@ -0,0 +1,75 @@
+import { create } from 'zustand';
+import { recordUsedIn, type ExportDocumentType } from '../services/exportService';
+import { repositories } from '../services/repository';
+import { applicationColumns, emptyApplication, type InsightApplication } from '../services/study/applications';
+import { insightRowFromCompleted, localDate } from '../services/study/records';
+import { useStudyStore } from './studyStore';
+
+export interface ApplicationTarget {
+  insightId: string;
+  sessionId?: string;
+}
+
+interface ApplicationState {
+  applications: Record<string, InsightApplication>;
+  markApplied: (target: ApplicationTarget, details: { description: string; appliedDate: string }) => void;
+  unmarkApplied: (insightId: string) => void;
+  addUsage: (target: ApplicationTarget, documentType: ExportDocumentType, documentName: string) => void;
+  removeUsage: (insightId: string, usedAt: string) => void;
+  setOutcome: (insightId: string, outcome: string) => void;
+}
+
+export const STORAGE_KEY = 'careradar_applications';
+
+function load(): Record<string, InsightApplication> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function persist(applications: Record<string, InsightApplication>) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(applications));
+}
+
+/** 세션 인사이트면 insights 행의 applied_* · used_in 갱신 — 실패해도 로컬 기록은 유지 */
+async function saveToCloud(app: InsightApplication): Promise<void> {
+  if (!app.sessionId) return;
+  const session = useStudyStore.getState().completedSessions.find((s) => s.id === app.sessionId);
+  const row = session ? insightRowFromCompleted(session) : null;
+  if (!row) return;
+  const result = await repositories.insights.upsert({ ...row, ...applicationColumns(app) });
+  if (!result.ok && result.reason === 'error') console.warn('[Supabase] insights upsert failed (kept locally):', result.message);
+}
+
+export const useApplicationStore = create<ApplicationState>((set, get) => {
+  const update = (target: ApplicationTarget, patch: (app: InsightApplication) => Partial<InsightApplication>) => {
+    const prev = get().applications;
+    const current = prev[target.insightId] ?? emptyApplication(target.insightId, target.sessionId);
+    const app = { ...current, ...patch(current), sessionId: current.sessionId ?? target.sessionId, updatedAt: new Date().toISOString() };
+    const next = { ...prev, [target.insightId]: app };
+    persist(next);
+    set({ applications: next });
+    void saveToCloud(app);
+  };
+
+  return {
+    applications: load(),
+
+    markApplied: (target, { description, appliedDate }) =>
+      update(target, () => ({ applied: true, description: description.trim(), appliedDate })),
+
+    unmarkApplied: (insightId) =>
+      update({ insightId }, () => ({ applied: false, appliedDate: null, outcome: '', outcomeDate: null })),
+
+    addUsage: (target, documentType, documentName) =>
+      update(target, (app) => ({ usedIn: [...app.usedIn, recordUsedIn(documentType, documentName)] })),
+
+    removeUsage: (insightId, usedAt) =>
+      update({ insightId }, (app) => ({ usedIn: app.usedIn.filter((u) => u.used_at !== usedAt) })),
+
+    setOutcome: (insightId, outcome) =>
+      update({ insightId }, () => ({ outcome: outcome.trim(), outcomeDate: outcome.trim() ? localDate(new Date()) : null })),
+  };
+});
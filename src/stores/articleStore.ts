@@ -1,7 +1,14 @@
 import { create } from 'zustand';
 
+/** 북마크·메모·평가한 기사의 제목·트랙 — 주간 정리 초안과 관련성 모델이 기사 목록 없이도 쓸 수 있도록 */
+export interface AnnotatedArticle {
+  title: string;
+  track: string;
+}
+
 export interface ArticleAnnotation {
   articleId: string;
+  article?: AnnotatedArticle;
   memo: string;
   isBookmarked: boolean;
   rating: number;
@@ -11,13 +18,14 @@ export interface ArticleAnnotation {
 
 interface ArticleState {
   annotations: Record<string, ArticleAnnotation>;
-  setMemo: (articleId: string, memo: string) => void;
-  toggleBookmark: (articleId: string) => void;
-  setRating: (articleId: string, rating: number) => void;
+  setMemo: (articleId: string, memo: string, article?: AnnotatedArticle) => void;
+  toggleBookmark: (articleId: string, article?: AnnotatedArticle) => void;
+  setBookmarked: (articleId: string, isBookmarked: boolean, article?: AnnotatedArticle) => void;
+  setRating: (articleId: string, rating: number, article?: AnnotatedArticle) => void;
   getAnnotation: (articleId: string) => ArticleAnnotation | undefined;
 }
 
-const STORAGE_KEY = 'careradar_annotations';
+export const STORAGE_KEY = 'careradar_annotations';
 
 function loadAnnotations(): Record<string, ArticleAnnotation> {
   try {
@@ -49,26 +57,37 @@ function ensureAnnotation(
 export const useArticleStore = create<ArticleState>((set, get) => ({
   annotations: loadAnnotations(),
 
-  setMemo: (articleId, memo) => {
+  setMemo: (articleId, memo, article) => {
     const prev = get().annotations;
-    const ann = { ...ensureAnnotation(prev, articleId), memo, updatedAt: new Date().toISOString() };
+    const existing = ensureAnnotation(prev, articleId);
+    const ann = { ...existing, article: article ?? existing.article, memo, updatedAt: new Date().toISOString() };
     const next = { ...prev, [articleId]: ann };
     persist(next);
     set({ annotations: next });
   },
 
-  toggleBookmark: (articleId) => {
+  toggleBookmark: (articleId, article) => {
     const prev = get().annotations;
     const existing = ensureAnnotation(prev, articleId);
-    const ann = { ...existing, isBookmarked: !existing.isBookmarked, updatedAt: new Date().toISOString() };
+    const ann = { ...existing, article: article ?? existing.article, isBookmarked: !existing.isBookmarked, updatedAt: new Date().toISOString() };
     const next = { ...prev, [articleId]: ann };
     persist(next);
     set({ annotations: next });
   },
 
-  setRating: (articleId, rating) => {
+  setBookmarked: (articleId, isBookmarked, article) => {
     const prev = get().annotations;
-    const ann = { ...ensureAnnotation(prev, articleId), rating, updatedAt: new Date().toISOString() };
+    const existing = ensureAnnotation(prev, articleId);
+    const ann = { ...existing, article: article ?? existing.article, isBookmarked, updatedAt: new Date().toISOString() };
+    const next = { ...prev, [articleId]: ann };
+    persist(next);
+    set({ annotations: next });
+  },
+
+  setRating: (articleId, rating, article) => {
+    const prev = get().annotations;
+    const existing = ensureAnnotation(prev, articleId);
+    const ann = { ...existing, article: article ?? existing.article, rating, updatedAt: new Date().toISOString() };
     const next = { ...prev, [articleId]: ann };
     persist(next);
     set({ annotations: next });
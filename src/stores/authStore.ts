@@ -0,0 +1,63 @@
+import { create } from 'zustand';
+import { useStudyStore } from './studyStore';
+
+/**
+ * Supabase 매직 링크 로그인 — 학습·지식 테이블 RLS(auth.uid() = user_id)를 통과하려면 로그인 필요
+ *
+ * 메일의 링크로 돌아오면 supabase-js가 URL의 토큰으로 세션을 만들고 onAuthStateChange가 알려줌.
+ * VITE_SUPABASE_URL이 없으면 'unconfigured' — 모든 기록은 이 브라우저(localStorage)에만.
+ */
+
+export type AuthStatus = 'unconfigured' | 'loading' | 'signed-out' | 'signed-in';
+
+interface AuthState {
+  status: AuthStatus;
+  email: string | null;
+  userId: string | null;
+  /** 세션 복원 + 상태 구독 (여러 번 불러도 한 번만) */
+  init: () => Promise<void>;
+  /** 로그인 링크 메일 발송 — 실패하면 throw */
+  sendMagicLink: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+let initialized = false;
+
+async function loadSupabase() {
+  const { supabase } = await import('../lib/supabase');
+  return supabase;
+}
+
+export const useAuthStore = create<AuthState>((set) => ({
+  status: import.meta.env.VITE_SUPABASE_URL ? 'loading' : 'unconfigured',
+  email: null,
+  userId: null,
+
+  init: async () => {
+    if (initialized || !import.meta.env.VITE_SUPABASE_URL) return;
+    initialized = true;
+    const supabase = await loadSupabase();
+
+    supabase.auth.onAuthStateChange((event, session) => {
+      const user = session?.user ?? null;
+      set({ status: user ? 'signed-in' : 'signed-out', email: user?.email ?? null, userId: user?.id ?? null });
+      // 세션 복원·로그인 직후 다른 기기에서 남긴 인사이트를 학습 기록에 합침
+      if (user && (event === 'SIGNED_IN' || event === 'INITIAL_SESSION')) void useStudyStore.getState().loadFromSupabase();
+    });
+  },
+
+  sendMagicLink: async (email) => {
+    const supabase = await loadSupabase();
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: `${window.location.origin}/settings` },
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  signOut: async () => {
+    const supabase = await loadSupabase();
+    const { error } = await supabase.auth.signOut();
+    if (error) throw new Error(error.message);
+  },
+}));
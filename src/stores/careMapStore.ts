@@ -0,0 +1,95 @@
+import { create } from 'zustand';
+import {
+  CARE_FACILITIES,
+  CARE_STARTUPS,
+  ROBOTICS_LABS,
+  type CareFacility,
+  type CarePolicyEvent,
+  type CareStartup,
+  type RoboticsLab,
+} from '../config/care-geo';
+import {
+  geocodePolicyEvent,
+  mergeRegistry,
+  type CareRegistries,
+  type CareRegistryKind,
+  type CareRegistryRecords,
+} from '../services/care-registry';
+import { buildPolicyCalendar, type PolicyEvent } from '../services/policyCalendar';
+import type { ProcurementItem } from '../services/trackingFeed';
+
+/**
+ * 월드맵 care 레이어 데이터 — 가져온 레지스트리(영구 저장)를 기본 목록과 병합하고,
+ * 최신 트래킹 스냅샷의 조달 공고·정책 일정을 함께 보관
+ */
+interface CareMapState {
+  /** 사용자가 가져온 데이터셋만 (종류별) */
+  imported: Partial<CareRegistries>;
+  facilities: CareFacility[];
+  labs: RoboticsLab[];
+  startups: CareStartup[];
+  /** 지오코딩한 정책 캘린더 + 가져온 정책 일정 */
+  policyEvents: CarePolicyEvent[];
+  /** 최신 스냅샷의 조달 공고 — 시설 팝업의 주변 조달 기회 */
+  procurements: ProcurementItem[];
+  calendarEvents: CarePolicyEvent[];
+  importRegistry: <K extends CareRegistryKind>(kind: K, records: CareRegistryRecords[K][]) => void;
+  resetRegistry: (kind: CareRegistryKind) => void;
+  setSnapshot: (procurements: ProcurementItem[], calendar: PolicyEvent[]) => void;
+}
+
+export const REGISTRIES_KEY = 'careradar_care_registries';
+
+function loadImported(): Partial<CareRegistries> {
+  try {
+    return JSON.parse(localStorage.getItem(REGISTRIES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function geocodeCalendar(calendar: PolicyEvent[]): CarePolicyEvent[] {
+  return calendar.map(geocodePolicyEvent).filter((e): e is CarePolicyEvent => e !== null);
+}
+
+function merged(imported: Partial<CareRegistries>, calendarEvents: CarePolicyEvent[]) {
+  return {
+    facilities: mergeRegistry(CARE_FACILITIES, imported.facilities ?? []),
+    labs: mergeRegistry(ROBOTICS_LABS, imported.labs ?? []),
+    startups: mergeRegistry(CARE_STARTUPS, imported.startups ?? []),
+    policyEvents: mergeRegistry(calendarEvents, imported.policyEvents ?? []),
+  };
+}
+
+function persist(imported: Partial<CareRegistries>): void {
+  localStorage.setItem(REGISTRIES_KEY, JSON.stringify(imported));
+}
+
+// 스냅샷 전에도 법령·예산 일정은 보이도록 보도자료 없는 캘린더로 시작
+const initialImported = loadImported();
+const initialCalendar = geocodeCalendar(buildPolicyCalendar([]));
+
+export const useCareMapStore = create<CareMapState>((set, get) => ({
+  imported: initialImported,
+  ...merged(initialImported, initialCalendar),
+  procurements: [],
+  calendarEvents: initialCalendar,
+
+  importRegistry: (kind, records) => {
+    const imported = { ...get().imported, [kind]: records };
+    persist(imported);
+    set({ imported, ...merged(imported, get().calendarEvents) });
+  },
+
+  resetRegistry: (kind) => {
+    const imported = { ...get().imported };
+    delete imported[kind];
+    persist(imported);
+    set({ imported, ...merged(imported, get().calendarEvents) });
+  },
+
+  setSnapshot: (procurements, calendar) => {
+    const calendarEvents = geocodeCalendar(calendar);
+    set({ procurements, calendarEvents, ...merged(get().imported, calendarEvents) });
+  },
+}));
@@ -0,0 +1,41 @@
+import { create } from 'zustand';
+import {
+  appendCareReadinessHistory,
+  calculateCareReadiness,
+  DEFAULT_CARE_READINESS_REGISTRIES,
+  type CareReadinessHistoryEntry,
+  type CareReadinessScore,
+  type CareReadinessSignals,
+} from '../services/care-readiness-index';
+import { useCareMapStore } from './careMapStore';
+
+interface CareReadinessState {
+  scores: CareReadinessScore[];
+  history: CareReadinessHistoryEntry[];
+  /** 스냅샷 신호로 CRI를 다시 계산하고 오늘 점수를 이력에 기록 */
+  record: (signals: CareReadinessSignals, now?: number) => void;
+}
+
+export const HISTORY_KEY = 'careradar_cri_history';
+
+function loadHistory(): CareReadinessHistoryEntry[] {
+  try {
+    return JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+export const useCareReadinessStore = create<CareReadinessState>((set, get) => ({
+  scores: [],
+  history: loadHistory(),
+
+  record: (signals, now = Date.now()) => {
+    // 추이는 오늘 항목을 덮어쓰기 전 이력 기준, 로보틱스 생태계는 가져온 연구소·스타트업 포함
+    const { labs, startups } = useCareMapStore.getState();
+    const scores = calculateCareReadiness(signals, get().history, now, { ...DEFAULT_CARE_READINESS_REGISTRIES, labs, startups });
+    const history = appendCareReadinessHistory(get().history, scores, now);
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+    set({ scores, history });
+  },
+}));
@@ -1,8 +1,8 @@
 /**
  * Exclusion Knowledge Base — 비관련 기사 학습을 통한 크롤링 정밀도 개선
  *
- * 사용자가 "관련 없음"으로 표시한 기사를 저장하고,
- * 이후 크롤링에서 유사한 기사를 자동으로 필터링합니다.
+ * 사용자가 "관련 없음"으로 표시한 기사를 저장합니다.
+ * 유사 기사 판정은 이 목록을 부정 예시로 학습하는 관련성 모델(services/relevance)이 맡습니다.
  */
 import { create } from 'zustand';
 
@@ -14,8 +14,6 @@ export interface ExcludedArticle {
   track: string;
   reason: string;         // 사용자가 입력한 제외 사유 (optional)
   excludedAt: string;
-  // Learning data - extracted from title for similarity matching
-  titleWords: string[];   // normalized words for matching
 }
 
 interface ExclusionState {
@@ -33,12 +31,6 @@ interface ExclusionState {
   // Remove from exclusion list (if user changes mind)
   removeExclusion: (id: string) => void;
 
-  // Check if an article is similar to any excluded article
-  isSimilarToExcluded: (title: string) => boolean;
-
-  // Get the similarity score against excluded articles (0-1)
-  getExclusionScore: (title: string) => number;
-
   // Get all excluded articles
   getAll: () => ExcludedArticle[];
 
@@ -49,27 +41,7 @@ interface ExclusionState {
   exportSummary: () => string;
 }
 
-const STORAGE_KEY = 'careradar_exclusions';
-const SIMILARITY_THRESHOLD = 0.4; // 40% word overlap = similar to excluded
-
-function normalize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^\w\sㄱ-ㅎ가-힣]/g, '')
-    .split(/\s+/)
-    .filter(w => w.length > 1);
-}
-
-function wordOverlap(wordsA: string[], wordsB: string[]): number {
-  if (wordsA.length === 0 || wordsB.length === 0) return 0;
-  const setB = new Set(wordsB);
-  let intersection = 0;
-  for (const w of wordsA) {
-    if (setB.has(w)) intersection++;
-  }
-  const union = new Set([...wordsA, ...wordsB]).size;
-  return union > 0 ? intersection / union : 0;
-}
+export const STORAGE_KEY = 'careradar_exclusions';
 
 function load(): ExcludedArticle[] {
   try {
@@ -89,7 +61,6 @@ export const useExclusionStore = create<ExclusionState>((set, get) => ({
   excluded: load(),
 
   addExclusion: (article) => {
-    const titleWords = normalize(article.title);
     const item: ExcludedArticle = {
       id: crypto.randomUUID(),
       title: article.title,
@@ -98,12 +69,11 @@ export const useExclusionStore = create<ExclusionState>((set, get) => ({
       track: article.track,
       reason: article.reason || '',
       excludedAt: new Date().toISOString(),
-      titleWords,
     };
 
-    // Avoid exact duplicates
+    // Avoid exact duplicates — by link, or by title when excluded without one (e.g. bot /exclude)
     const existing = get().excluded;
-    if (existing.some(e => e.link === article.link)) return;
+    if (existing.some(e => (article.link ? e.link === article.link : e.title === article.title))) return;
 
     const next = [...existing, item];
     persist(next);
@@ -116,23 +86,6 @@ export const useExclusionStore = create<ExclusionState>((set, get) => ({
     set({ excluded: next });
   },
 
-  isSimilarToExcluded: (title) => {
-    return get().getExclusionScore(title) >= SIMILARITY_THRESHOLD;
-  },
-
-  getExclusionScore: (title) => {
-    const words = normalize(title);
-    const excluded = get().excluded;
-    if (excluded.length === 0 || words.length === 0) return 0;
-
-    let maxSim = 0;
-    for (const ex of excluded) {
-      const sim = wordOverlap(words, ex.titleWords);
-      if (sim > maxSim) maxSim = sim;
-    }
-    return maxSim;
-  },
-
   getAll: () => get().excluded,
 
   clearAll: () => {
@@ -149,25 +102,3 @@ export const useExclusionStore = create<ExclusionState>((set, get) => ({
     ).join('\n\n');
   },
 }));
-
-/**
- * Standalone function for use outside React (e.g., in keywordFilter)
- * Reads directly from localStorage without Zustand
- */
-export function isExcludedByKB(title: string): boolean {
-  try {
-    const stored: ExcludedArticle[] = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
-    if (stored.length === 0) return false;
-
-    const words = normalize(title);
-    if (words.length === 0) return false;
-
-    for (const ex of stored) {
-      const sim = wordOverlap(words, ex.titleWords || normalize(ex.title));
-      if (sim >= SIMILARITY_THRESHOLD) return true;
-    }
-    return false;
-  } catch {
-    return false;
-  }
-}
@@ -8,17 +8,22 @@ export interface KnowledgeItem {
   tags: string[];
   sourceArticle?: { title: string; link: string; track: string };
   sourceSession?: { id: string; type: string };
+  /** 연결한 인사이트 id (insights.linked_insight_ids) — 세션 인사이트는 `study-<세션 id>` */
+  linkedIds?: string[];
   createdAt: string;
+  /** 연결 편집 등 생성 후 수정 시각 — 기기 간 동기화 충돌 판단용 */
+  updatedAt?: string;
 }
 
 interface KnowledgeState {
   items: KnowledgeItem[];
   addItem: (item: Omit<KnowledgeItem, 'id' | 'createdAt'>) => void;
   removeItem: (id: string) => void;
+  setLinks: (id: string, linkedIds: string[]) => void;
   clearAll: () => void;
 }
 
-const STORAGE_KEY = 'careradar_knowledge';
+export const STORAGE_KEY = 'careradar_knowledge';
 
 function load(): KnowledgeItem[] {
   try {
@@ -52,6 +57,14 @@ export const useKnowledgeStore = create<KnowledgeState>((set, get) => ({
     set({ items: next });
   },
 
+  setLinks: (id, linkedIds) => {
+    const next = get().items.map((i) =>
+      i.id === id ? { ...i, linkedIds: [...new Set(linkedIds)].filter((l) => l !== id), updatedAt: new Date().toISOString() } : i
+    );
+    persist(next);
+    set({ items: next });
+  },
+
   clearAll: () => {
     localStorage.removeItem(STORAGE_KEY);
     set({ items: [] });
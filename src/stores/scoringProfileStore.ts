@@ -0,0 +1,137 @@
+/**
+ * Scoring Profiles — Opportunity Score 산식 프로필 (Settings에서 편집)
+ *
+ * 기본 프로필(DEFAULT_SCORING_PROFILE)은 수정·삭제 불가.
+ * 프로필 목록은 이 브라우저에만 저장되고, 활성 프로필은 키워드 프로필과 함께 care.v1 서버에
+ * 저장되어 서버 스냅샷 점수, 스케줄러·텔레그램 알림, /tracking 대시보드와 월드맵 care 패널에
+ * 같은 산식으로 적용됩니다. 다른 기기에서 바꾼 활성 프로필은 키워드 프로필 동기화 때 반영됩니다.
+ */
+import { create } from 'zustand';
+import { DEFAULT_SCORING_PROFILE, type ActiveScoringProfile, type ScoringProfile } from '../services/scoreCalculator';
+import { useSettingsStore } from './settingsStore';
+
+interface ScoringProfileState {
+  profiles: ScoringProfile[];
+  activeProfileId: string;
+
+  /** 기존 프로필을 복제해 새 프로필 생성 — 새 프로필 id 반환 */
+  duplicateProfile: (sourceId: string) => string;
+  updateProfile: (id: string, patch: Partial<Omit<ScoringProfile, 'id'>>) => void;
+  removeProfile: (id: string) => void;
+  setActiveProfile: (id: string) => void;
+  getActiveProfile: () => ScoringProfile;
+}
+
+interface StoredProfiles {
+  profiles: ScoringProfile[];
+  activeProfileId: string;
+}
+
+const STORAGE_KEY = 'careradar_scoring_profiles';
+
+function load(): StoredProfiles {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    // 저장본에 없던 필드는 기본 프로필 값으로 채움
+    const custom: ScoringProfile[] = (raw.profiles ?? [])
+      .filter((p: ScoringProfile) => p.id !== DEFAULT_SCORING_PROFILE.id)
+      .map((p: ScoringProfile) => ({
+        ...DEFAULT_SCORING_PROFILE,
+        ...p,
+        weights: { ...DEFAULT_SCORING_PROFILE.weights, ...p.weights },
+      }));
+    const profiles = [DEFAULT_SCORING_PROFILE, ...custom];
+    const activeProfileId = profiles.some((p) => p.id === raw.activeProfileId)
+      ? raw.activeProfileId
+      : DEFAULT_SCORING_PROFILE.id;
+    return { profiles, activeProfileId };
+  } catch {
+    return { profiles: [DEFAULT_SCORING_PROFILE], activeProfileId: DEFAULT_SCORING_PROFILE.id };
+  }
+}
+
+function persist(s: StoredProfiles) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({
+    profiles: s.profiles.filter((p) => p.id !== DEFAULT_SCORING_PROFILE.id),
+    activeProfileId: s.activeProfileId,
+  }));
+}
+
+/** 서버에 저장할 형태 — 기본 프로필은 저장하지 않고, 알림 임계값은 키워드 프로필 값을 씀 */
+function toActive(profile: ScoringProfile): ActiveScoringProfile | undefined {
+  if (profile.id === DEFAULT_SCORING_PROFILE.id) return undefined;
+  const { alertThreshold: _backtestOnly, ...active } = profile;
+  return active;
+}
+
+function publish(profile: ScoringProfile) {
+  useSettingsStore.getState().setScoringProfile(toActive(profile));
+}
+
+export const useScoringProfileStore = create<ScoringProfileState>((set, get) => ({
+  ...load(),
+
+  duplicateProfile: (sourceId) => {
+    const source = get().profiles.find((p) => p.id === sourceId) ?? DEFAULT_SCORING_PROFILE;
+    const copy: ScoringProfile = {
+      ...source,
+      weights: { ...source.weights },
+      id: `profile-${Date.now()}`,
+      name: `${source.name} 사본`,
+    };
+    const profiles = [...get().profiles, copy];
+    set({ profiles });
+    persist({ profiles, activeProfileId: get().activeProfileId });
+    return copy.id;
+  },
+
+  updateProfile: (id, patch) => {
+    if (id === DEFAULT_SCORING_PROFILE.id) return;
+    const profiles = get().profiles.map((p) => (p.id === id ? { ...p, ...patch, id } : p));
+    set({ profiles });
+    persist({ profiles, activeProfileId: get().activeProfileId });
+    // 백테스트 임계값만 바뀌면 서버에 저장할 산식은 그대로
+    const edited = profiles.find((p) => p.id === id);
+    if (edited && id === get().activeProfileId && Object.keys(patch).some((k) => k !== 'alertThreshold')) publish(edited);
+  },
+
+  removeProfile: (id) => {
+    if (id === DEFAULT_SCORING_PROFILE.id) return;
+    const profiles = get().profiles.filter((p) => p.id !== id);
+    const wasActive = get().activeProfileId === id;
+    const activeProfileId = wasActive ? DEFAULT_SCORING_PROFILE.id : get().activeProfileId;
+    set({ profiles, activeProfileId });
+    persist({ profiles, activeProfileId });
+    if (wasActive) publish(DEFAULT_SCORING_PROFILE);
+  },
+
+  setActiveProfile: (id) => {
+    const profile = get().profiles.find((p) => p.id === id);
+    if (!profile) return;
+    set({ activeProfileId: id });
+    persist({ profiles: get().profiles, activeProfileId: id });
+    publish(profile);
+  },
+
+  getActiveProfile: () => {
+    const { profiles, activeProfileId } = get();
+    return profiles.find((p) => p.id === activeProfileId) ?? DEFAULT_SCORING_PROFILE;
+  },
+}));
+
+// 서버(또는 다른 기기)의 활성 프로필을 받으면 목록에 넣고 활성화 — 백테스트 임계값은 로컬 값 유지
+useSettingsStore.subscribe((state, prev) => {
+  if (state.scoringProfile === prev.scoringProfile) return;
+  const remote = state.scoringProfile;
+  const { profiles } = useScoringProfileStore.getState();
+  if (!remote) {
+    useScoringProfileStore.setState({ activeProfileId: DEFAULT_SCORING_PROFILE.id });
+    persist({ profiles, activeProfileId: DEFAULT_SCORING_PROFILE.id });
+    return;
+  }
+  const existing = profiles.find((p) => p.id === remote.id);
+  const adopted: ScoringProfile = { ...(existing ?? DEFAULT_SCORING_PROFILE), ...remote, weights: { ...remote.weights } };
+  const next = existing ? profiles.map((p) => (p.id === remote.id ? adopted : p)) : [...profiles, adopted];
+  useScoringProfileStore.setState({ profiles: next, activeProfileId: remote.id });
+  persist({ profiles: next, activeProfileId: remote.id });
+});
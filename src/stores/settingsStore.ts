@@ -1,41 +1,86 @@
 import { create } from 'zustand';
+import {
+  DEFAULT_KEYWORD_PROFILE,
+  normalizeKeywordProfile,
+  type KeywordProfile,
+  type WeightedKeyword,
+} from '../services/keywordProfile';
+import { fetchKeywordProfile, saveKeywordProfile } from '../services/care';
+import type { ActiveScoringProfile } from '../services/scoreCalculator';
 
 export interface UserSettings {
-  customKeywords: string[];
+  customKeywords: WeightedKeyword[];
+  negativeKeywords: string[];
   alertThreshold: number;
+  /** 키워드 프로필 마지막 수정 시각 — 서버 저장본과 비교해 최신 쪽을 채택 */
+  keywordProfileUpdatedAt: number;
+  /** 서버 점수·알림에 적용되는 활성 스코어링 프로필 (키워드 프로필과 함께 저장) — 없으면 기본 프로필 */
+  scoringProfile?: ActiveScoringProfile;
   weeklyGoalMinutes: number;
   focusAreas: string[];
-  telegramEnabled: boolean;
+  /** 데스크톱 앱(Tauri)의 OS 알림 — 브라우저에서는 무시 */
+  desktopNotifications: boolean;
 }
 
 interface SettingsState extends UserSettings {
-  setCustomKeywords: (kw: string[]) => void;
+  /** 서버 동기화 실패 메시지 — 로컬에는 저장된 상태 */
+  keywordSyncError: string | null;
+
+  setCustomKeywords: (kw: WeightedKeyword[]) => void;
+  setNegativeKeywords: (kw: string[]) => void;
   setAlertThreshold: (v: number) => void;
+  /** scoringProfileStore가 활성 프로필을 바꾸거나 편집할 때 호출 */
+  setScoringProfile: (profile: ActiveScoringProfile | undefined) => void;
   setWeeklyGoalMinutes: (v: number) => void;
   setFocusAreas: (areas: string[]) => void;
-  setTelegramEnabled: (v: boolean) => void;
+  setDesktopNotifications: (v: boolean) => void;
+
+  /** 키워드·네거티브 키워드·임계값·활성 스코어링 프로필을 KeywordProfile로 */
+  getKeywordProfile: () => KeywordProfile;
+  /** 서버 프로필이 더 최신이면 반영, 로컬 수정이 더 최신이면 서버에 저장 */
+  syncKeywordProfile: (remote?: KeywordProfile | null) => Promise<void>;
 }
 
 const STORAGE_KEY = 'careradar_settings';
+const PUSH_DEBOUNCE_MS = 800;
+
+const DEFAULTS: UserSettings = {
+  customKeywords: [],
+  negativeKeywords: [],
+  alertThreshold: DEFAULT_KEYWORD_PROFILE.alertThreshold,
+  keywordProfileUpdatedAt: 0,
+  weeklyGoalMinutes: 300,
+  focusAreas: ['financial', 'pricing', 'sroi', 'pitch'],
+  desktopNotifications: true,
+};
 
 function load(): UserSettings {
   try {
     const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    // 이전 저장본의 customKeywords는 문자열 배열 — 시장 카테고리·가중치 1로 이전하고,
+    // 서버에 아직 없는 값이므로 첫 동기화 때 업로드되도록 최소 시각(1)으로 표시
+    const legacy = raw.keywordProfileUpdatedAt === undefined
+      && (raw.customKeywords?.length > 0 || raw.alertThreshold !== undefined);
+    const profile = normalizeKeywordProfile({
+      keywords: (raw.customKeywords ?? []).map((k: string | WeightedKeyword) =>
+        typeof k === 'string' ? { keyword: k, category: 'market', weight: 1 } : k),
+      negativeKeywords: raw.negativeKeywords,
+      alertThreshold: raw.alertThreshold,
+      updatedAt: legacy ? 1 : raw.keywordProfileUpdatedAt,
+      scoringProfile: raw.scoringProfile,
+    });
     return {
-      customKeywords: raw.customKeywords ?? [],
-      alertThreshold: raw.alertThreshold ?? 70,
-      weeklyGoalMinutes: raw.weeklyGoalMinutes ?? 300,
-      focusAreas: raw.focusAreas ?? ['financial', 'pricing', 'sroi', 'pitch'],
-      telegramEnabled: raw.telegramEnabled ?? true,
+      customKeywords: profile.keywords,
+      negativeKeywords: profile.negativeKeywords,
+      alertThreshold: profile.alertThreshold,
+      keywordProfileUpdatedAt: profile.updatedAt,
+      scoringProfile: profile.scoringProfile,
+      weeklyGoalMinutes: raw.weeklyGoalMinutes ?? DEFAULTS.weeklyGoalMinutes,
+      focusAreas: raw.focusAreas ?? DEFAULTS.focusAreas,
+      desktopNotifications: raw.desktopNotifications ?? DEFAULTS.desktopNotifications,
     };
   } catch {
-    return {
-      customKeywords: [],
-      alertThreshold: 70,
-      weeklyGoalMinutes: 300,
-      focusAreas: ['financial', 'pricing', 'sroi', 'pitch'],
-      telegramEnabled: true,
-    };
+    return DEFAULTS;
   }
 }
 
@@ -46,21 +91,87 @@ function persist(s: UserSettings) {
 function snapshot(state: SettingsState): UserSettings {
   return {
     customKeywords: state.customKeywords,
+    negativeKeywords: state.negativeKeywords,
     alertThreshold: state.alertThreshold,
+    keywordProfileUpdatedAt: state.keywordProfileUpdatedAt,
+    scoringProfile: state.scoringProfile,
     weeklyGoalMinutes: state.weeklyGoalMinutes,
     focusAreas: state.focusAreas,
-    telegramEnabled: state.telegramEnabled,
+    desktopNotifications: state.desktopNotifications,
+  };
+}
+
+function profileOf(state: UserSettings): KeywordProfile {
+  return {
+    keywords: state.customKeywords,
+    negativeKeywords: state.negativeKeywords,
+    alertThreshold: state.alertThreshold,
+    updatedAt: state.keywordProfileUpdatedAt,
+    scoringProfile: state.scoringProfile,
   };
 }
 
 export const useSettingsStore = create<SettingsState>((set, get) => {
   const initial = load();
+  let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const applyProfile = (profile: KeywordProfile) => {
+    const next = {
+      customKeywords: profile.keywords,
+      negativeKeywords: profile.negativeKeywords,
+      alertThreshold: profile.alertThreshold,
+      keywordProfileUpdatedAt: profile.updatedAt,
+      scoringProfile: profile.scoringProfile,
+    };
+    set(next);
+    persist(snapshot({ ...get(), ...next }));
+  };
+
+  const push = async () => {
+    try {
+      const saved = await saveKeywordProfile(profileOf(get()));
+      // 저장 중에 다시 수정됐으면 그 수정이 다음 push로 나가므로 덮어쓰지 않음
+      if (pushTimer === null) applyProfile(saved);
+      set({ keywordSyncError: null });
+    } catch (error) {
+      set({ keywordSyncError: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  // 키워드 프로필 변경 — 로컬에 즉시 저장하고 서버 저장은 슬라이더 연속 입력을 고려해 지연
+  const editProfile = (patch: Partial<UserSettings>) => {
+    const next = { ...patch, keywordProfileUpdatedAt: Date.now() };
+    set(next);
+    persist(snapshot({ ...get(), ...next }));
+    if (pushTimer) clearTimeout(pushTimer);
+    pushTimer = setTimeout(() => {
+      pushTimer = null;
+      void push();
+    }, PUSH_DEBOUNCE_MS);
+  };
+
   return {
     ...initial,
-    setCustomKeywords: (kw) => { set({ customKeywords: kw }); persist(snapshot({ ...get(), customKeywords: kw })); },
-    setAlertThreshold: (v) => { set({ alertThreshold: v }); persist(snapshot({ ...get(), alertThreshold: v })); },
+    keywordSyncError: null,
+    setCustomKeywords: (kw) => editProfile({ customKeywords: kw }),
+    setNegativeKeywords: (kw) => editProfile({ negativeKeywords: kw }),
+    setAlertThreshold: (v) => editProfile({ alertThreshold: v }),
+    setScoringProfile: (profile) => editProfile({ scoringProfile: profile }),
     setWeeklyGoalMinutes: (v) => { set({ weeklyGoalMinutes: v }); persist(snapshot({ ...get(), weeklyGoalMinutes: v })); },
     setFocusAreas: (areas) => { set({ focusAreas: areas }); persist(snapshot({ ...get(), focusAreas: areas })); },
-    setTelegramEnabled: (v) => { set({ telegramEnabled: v }); persist(snapshot({ ...get(), telegramEnabled: v })); },
+    setDesktopNotifications: (v) => { set({ desktopNotifications: v }); persist(snapshot({ ...get(), desktopNotifications: v })); },
+
+    getKeywordProfile: () => profileOf(get()),
+
+    syncKeywordProfile: async (remote) => {
+      const server = remote === undefined ? await fetchKeywordProfile() : remote;
+      if (!server || pushTimer) return;
+      const localUpdatedAt = get().keywordProfileUpdatedAt;
+      if (server.updatedAt > localUpdatedAt) {
+        applyProfile(server);
+      } else if (localUpdatedAt > server.updatedAt) {
+        await push();
+      }
+    },
   };
 });
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
-import { supabase } from '../lib/supabase';
+import { repositories, type RepositoryResult } from '../services/repository';
+import { completedSessionFromInsight, mergeCompletedSessions, studySessionRows } from '../services/study/records';
+import type { DepthScore, StudyEvaluation, StudyGap, StudyGeneration, StudyQuestion, StudySource } from '../services/study/types';
 
 export interface ArticleContext {
   title: string;
@@ -21,6 +23,14 @@ export interface StudySession {
   data: SessionData;
   startedAt: string;
   articleContext?: ArticleContext;
+  /** 세션 출처 (기사·합성 기업·SROI 시나리오) */
+  source?: StudySource | null;
+  /** Question + AI Reference */
+  generation?: StudyGeneration;
+  /** Gap Check 결과 — My Answer가 바뀌면 지워짐 */
+  evaluation?: StudyEvaluation;
+  /** 인사이트 단계의 자기 평가 1–5 */
+  selfRating?: number;
 }
 
 export interface CompletedSession {
@@ -29,6 +39,10 @@ export interface CompletedSession {
   data: SessionData;
   completedAt: string;
   articleContext?: ArticleContext;
+  question?: StudyQuestion;
+  depthScores?: DepthScore[];
+  gaps?: StudyGap[];
+  selfRating?: number;
 }
 
 interface StudyState {
@@ -40,12 +54,30 @@ interface StudyState {
   endSession: () => void;
   updateMyAnswer: (answer: string) => void;
   updateInsight: (insight: string) => void;
+  setGeneration: (source: StudySource | null, generation: StudyGeneration) => void;
+  setEvaluation: (evaluation: StudyEvaluation | undefined) => void;
+  setSelfRating: (rating: number) => void;
   loadFromSupabase: () => Promise<void>;
 }
 
+export const STORAGE_KEY = 'careradar_sessions';
+
+function warnIfFailed(table: string, result: RepositoryResult<number>) {
+  if (!result.ok && result.reason === 'error') console.warn(`[Supabase] ${table} upsert failed (kept locally):`, result.message);
+}
+
+/** 인사이트·루틴 슬롯(+피칭 세션) 저장 — 재무·프라이싱·SROI 세션 행은 각 도구가 저장 */
+async function saveSessionRows(session: StudySession, completedAt: Date): Promise<void> {
+  const rows = studySessionRows(session, completedAt);
+  const { insights, pitchSessions, dailyStreaks } = repositories;
+  if (rows.pitch) warnIfFailed('pitch_sessions', await pitchSessions.upsert(rows.pitch));
+  if (rows.insight) warnIfFailed('insights', await insights.upsert(rows.insight));
+  warnIfFailed('daily_streaks', await dailyStreaks.upsert(rows.streak));
+}
+
 export const useStudyStore = create<StudyState>((set, get) => ({
   currentSession: null,
-  completedSessions: JSON.parse(localStorage.getItem('careradar_sessions') || '[]'),
+  completedSessions: JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]'),
 
   setSessionStep: (step) => set((state) => ({
     currentSession: state.currentSession ? { ...state.currentSession, step } : null
@@ -74,28 +106,23 @@ export const useStudyStore = create<StudyState>((set, get) => ({
       data: state.currentSession.data,
       completedAt: new Date().toISOString(),
       articleContext: state.currentSession.articleContext,
+      question: state.currentSession.generation?.question,
+      depthScores: state.currentSession.evaluation?.depthScores,
+      gaps: state.currentSession.evaluation?.gaps,
+      selfRating: state.currentSession.selfRating,
     };
     
     const sessions = [...state.completedSessions, completed];
-    localStorage.setItem('careradar_sessions', JSON.stringify(sessions));
-
-    supabase.from('insights').insert({
-      id: completed.id,
-      session_type: completed.type,
-      my_answer: completed.data.myAnswer,
-      insight_text: completed.data.insight,
-      completed_at: completed.completedAt,
-    }).then(({ error }) => {
-      if (error) console.warn('[Supabase] Insert failed (table may not exist yet):', error.message);
-      else console.log('[Supabase] Session saved to cloud');
-    });
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+
+    void saveSessionRows(state.currentSession, new Date(completed.completedAt));
 
     set({ currentSession: null, completedSessions: sessions });
   },
 
   updateMyAnswer: (answer) => set((state) => ({
     currentSession: state.currentSession
-      ? { ...state.currentSession, data: { ...state.currentSession.data, myAnswer: answer } }
+      ? { ...state.currentSession, data: { ...state.currentSession.data, myAnswer: answer }, evaluation: undefined }
       : null
   })),
 
@@ -105,27 +132,29 @@ export const useStudyStore = create<StudyState>((set, get) => ({
       : null
   })),
 
+  setGeneration: (source, generation) => set((state) => ({
+    currentSession: state.currentSession
+      ? { ...state.currentSession, source, generation, evaluation: undefined }
+      : null
+  })),
+
+  setEvaluation: (evaluation) => set((state) => ({
+    currentSession: state.currentSession ? { ...state.currentSession, evaluation } : null
+  })),
+
+  setSelfRating: (selfRating) => set((state) => ({
+    currentSession: state.currentSession ? { ...state.currentSession, selfRating } : null
+  })),
+
   loadFromSupabase: async () => {
-    const { data, error } = await supabase
-      .from('insights')
-      .select('*')
-      .order('completed_at', { ascending: false });
-    
-    if (error) {
-      console.warn('[Supabase] Load failed:', error.message);
+    const result = await repositories.insights.list({ orderBy: 'created_at' });
+    if (!result.ok) {
+      if (result.reason === 'error') console.warn('[Supabase] insights load failed:', result.message);
       return;
     }
-    
-    if (data && data.length > 0) {
-      const sessions: CompletedSession[] = data.map((row: Record<string, string>) => ({
-        id: row.id ?? crypto.randomUUID(),
-        type: row.session_type ?? 'unknown',
-        data: { myAnswer: row.my_answer ?? '', insight: row.insight_text ?? '' },
-        completedAt: row.completed_at ?? new Date().toISOString(),
-      }));
-      localStorage.setItem('careradar_sessions', JSON.stringify(sessions));
-      set({ completedSessions: sessions });
-      console.log(`[Supabase] Loaded ${sessions.length} sessions from cloud`);
-    }
+
+    const sessions = mergeCompletedSessions(get().completedSessions, result.data.map(completedSessionFromInsight));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+    set({ completedSessions: sessions });
   },
 }));
@@ -0,0 +1,10 @@
+import { create } from 'zustand';
+import type { SyncState } from '../services/sync/types';
+
+/** 동기화 상태 — services/sync가 갱신하고 Layout이 표시 */
+export const useSyncStore = create<SyncState>(() => ({
+  status: import.meta.env.VITE_SUPABASE_URL ? 'signed-out' : 'unconfigured',
+  pending: 0,
+  lastSyncedAt: null,
+  error: null,
+}));
@@ -39,8 +39,8 @@ interface TrackingState {
   setTopContributingNews: (news: TopContributingNews) => void;
 }
 
-const HISTORY_KEY = 'careradar_score_history';
-const MAX_HISTORY = 20;
+export const HISTORY_KEY = 'careradar_score_history';
+export const MAX_HISTORY = 2880; // 15분 갱신 기준 30일치 (월간 추이)
 
 function loadHistory(): ScoreHistoryEntry[] {
   try {
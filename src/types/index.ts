@@ -524,6 +524,7 @@ export interface MapLayers {
   roboticsLabs: boolean;
   policyEvents: boolean;
   careStartups: boolean;
+  careReadiness: boolean;
 }
 
 export interface AIDataCenter {
@@ -1013,6 +1014,8 @@ export interface AIRegulation {
   type: RegulationType;
   status: ComplianceStatus;
   announcedDate: string;
+  /** 공포일 (법률만) — 의결·발표일(announcedDate)과 다름 */
+  promulgatedDate?: string;
   effectiveDate?: string;
   complianceDeadline?: string;
   scope: string[];
@@ -1263,6 +1266,18 @@ export interface MapTechEventCluster {
   sampled?: boolean;
 }
 
+/** Care variant registry point clustered on the map (facility, lab, startup or policy event) */
+export interface MapCareCluster<T> {
+  id: string;
+  lat: number;
+  lon: number;
+  count: number;
+  items: T[];
+  /** Korean province for domestic points, otherwise the country code */
+  region: string;
+  sampled?: boolean;
+}
+
 export interface MapDatacenterCluster {
   id: string;
   lat: number;
@@ -32,6 +32,7 @@ interface EmbedMessage {
   type: 'embed';
   id: string;
   texts: string[];
+  modelId?: string;
 }
 
 interface SummarizeMessage {
@@ -140,9 +141,9 @@ function unloadModel(modelId: string): void {
   }
 }
 
-async function embedTexts(texts: string[]): Promise<number[][]> {
-  await loadModel('embeddings');
-  const pipe = loadedPipelines.get('embeddings')!;
+async function embedTexts(texts: string[], modelId = 'embeddings'): Promise<number[][]> {
+  await loadModel(modelId);
+  const pipe = loadedPipelines.get(modelId)!;
 
   const results: number[][] = [];
   for (const text of texts) {
@@ -308,7 +309,7 @@ self.onmessage = async (event: MessageEvent<MLWorkerMessage>) => {
       }
 
       case 'embed': {
-        const embeddings = await embedTexts(message.texts);
+        const embeddings = await embedTexts(message.texts, message.modelId);
         self.postMessage({
           type: 'embed-result',
           id: message.id,
@@ -0,0 +1,39 @@
+-- CareRadar: 나라장터 입찰공고 수집 + 공고 → 마감 → 낙찰 상태 추적
+ALTER TABLE procurement_items
+  ADD COLUMN IF NOT EXISTS external_id TEXT,
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'news' CHECK (source IN ('nara','news')),
+  ADD COLUMN IF NOT EXISTS bid_ntce_no TEXT,
+  ADD COLUMN IF NOT EXISTS bid_kind TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- 나라장터 "공고번호-차수" 또는 뉴스 항목 id — 수집 시 upsert 키
+CREATE UNIQUE INDEX IF NOT EXISTS procurement_items_external_id_key ON procurement_items (external_id);
+CREATE INDEX IF NOT EXISTS procurement_items_status_deadline_idx ON procurement_items (status, bid_deadline);
+
+-- 001의 status는 자유 텍스트 — 제약을 걸기 전에 기존 값을 네 상태로 정리
+UPDATE procurement_items
+SET status = CASE lower(trim(status)) WHEN 'canceled' THEN 'cancelled' ELSE lower(trim(status)) END
+WHERE status IS NOT NULL;
+UPDATE procurement_items
+SET status = CASE
+  WHEN awarded_to IS NOT NULL OR awarded_price IS NOT NULL THEN 'awarded'
+  WHEN bid_deadline < NOW() THEN 'closed'
+  ELSE 'open'
+END
+WHERE status IS NULL OR status NOT IN ('open','closed','awarded','cancelled');
+
+ALTER TABLE procurement_items DROP CONSTRAINT IF EXISTS procurement_items_status_check;
+ALTER TABLE procurement_items
+  ADD CONSTRAINT procurement_items_status_check CHECK (status IN ('open','closed','awarded','cancelled'));
+
+-- 공고당 낙찰 분석 1건 (낙찰률 자동 기록)
+CREATE UNIQUE INDEX IF NOT EXISTS bid_analyses_procurement_id_key ON bid_analyses (procurement_id);
+
+-- 공용 행(user_id IS NULL, Pricing Lab이 기준으로 쓰는 낙찰가 포함)은 익명 읽기만 허용.
+-- 쓰기는 RLS를 우회하는 서버 작업(server/scheduler/procurement, service role)만 가능.
+DROP POLICY IF EXISTS "Allow anonymous procurement read" ON procurement_items;
+CREATE POLICY "Allow anonymous procurement read" ON procurement_items
+  FOR SELECT USING (user_id IS NULL);
+DROP POLICY IF EXISTS "Allow anonymous bid analysis read" ON bid_analyses;
+CREATE POLICY "Allow anonymous bid analysis read" ON bid_analyses
+  FOR SELECT USING (user_id IS NULL);
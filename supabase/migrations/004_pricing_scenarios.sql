@@ -0,0 +1,7 @@
+-- CareRadar: Pricing Lab 시뮬레이터 시나리오 저장
+-- pricing_unit / pricing_model / base_price는 요약 값, 전체 입력과 거래별 결과는 JSONB
+ALTER TABLE pricing_sessions
+  ADD COLUMN IF NOT EXISTS scenario JSONB,
+  ADD COLUMN IF NOT EXISTS results JSONB;
+
+CREATE INDEX IF NOT EXISTS pricing_sessions_created_at_idx ON pricing_sessions (created_at DESC);
@@ -0,0 +1,7 @@
+-- CareRadar: 재무제표 분석 세션 — 수집한 기간별 계정과 계산한 비율
+-- data_source는 출처 종류(dart / csv / synthetic), source_summary는 비율 요약 텍스트
+ALTER TABLE analysis_sessions
+  ADD COLUMN IF NOT EXISTS statements JSONB,
+  ADD COLUMN IF NOT EXISTS ratios JSONB;
+
+CREATE INDEX IF NOT EXISTS analysis_sessions_created_at_idx ON analysis_sessions (created_at DESC);
@@ -0,0 +1,90 @@
+-- CareRadar: insights 정의 통합 — 001(지식 베이스)과 002(익명 데모)가 같은 테이블을 다르게 정의
+-- 001 다음 002를 돌린 프로젝트는 CREATE TABLE IF NOT EXISTS가 건너뛰어지고 익명 정책만 붙었고,
+-- 002만 돌린 프로젝트는 session_type / my_answer / insight_text / completed_at 형태 — 어느 쪽이든 001 형태로 맞춤
+
+-- 1) 001 컬럼 (002 형태 테이블에는 없음) + 학습 세션 종류·답변은 유지
+ALTER TABLE insights
+  ADD COLUMN IF NOT EXISTS date DATE,
+  ADD COLUMN IF NOT EXISTS source_session_id UUID,
+  ADD COLUMN IF NOT EXISTS source_module TEXT,
+  ADD COLUMN IF NOT EXISTS content TEXT,
+  ADD COLUMN IF NOT EXISTS carevia_application TEXT,
+  ADD COLUMN IF NOT EXISTS applied_in_practice BOOLEAN DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS applied_description TEXT,
+  ADD COLUMN IF NOT EXISTS applied_date DATE,
+  ADD COLUMN IF NOT EXISTS applied_outcome TEXT,
+  ADD COLUMN IF NOT EXISTS tags TEXT[],
+  ADD COLUMN IF NOT EXISTS linked_insight_ids UUID[],
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS session_type TEXT,
+  ADD COLUMN IF NOT EXISTS my_answer TEXT;
+
+ALTER TABLE insights
+  ALTER COLUMN session_type DROP NOT NULL,
+  ALTER COLUMN my_answer DROP DEFAULT;
+
+-- 2) 002 행을 001 컬럼으로 옮기고 중복 컬럼 삭제 (세션 id를 그대로 source_session_id로)
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'insights' AND column_name = 'insight_text'
+  ) THEN
+    EXECUTE $sql$
+      UPDATE insights SET
+        date = COALESCE(date, completed_at::date),
+        source_session_id = COALESCE(source_session_id, id),
+        source_module = COALESCE(source_module, CASE session_type
+          WHEN 'financial' THEN 'analysis'
+          WHEN 'pricing' THEN 'pricing'
+          WHEN 'sroi' THEN 'sroi'
+          WHEN 'pitch' THEN 'pitch'
+          WHEN 'regulation' THEN 'regulation'
+          WHEN 'benchmark' THEN 'benchmark'
+          ELSE 'custom'
+        END),
+        content = COALESCE(content, NULLIF(insight_text, ''), my_answer, ''),
+        created_at = COALESCE(completed_at, created_at)
+    $sql$;
+    ALTER TABLE insights DROP COLUMN insight_text, DROP COLUMN completed_at;
+  END IF;
+END $$;
+
+-- 3) 규제·경쟁사·자유 주제 세션도 인사이트 출처로
+ALTER TABLE insights DROP CONSTRAINT IF EXISTS insights_source_module_check;
+ALTER TABLE insights ADD CONSTRAINT insights_source_module_check
+  CHECK (source_module IN ('analysis','pricing','sroi','pitch','field_story','regulation','benchmark','custom'));
+
+ALTER TABLE insights
+  ALTER COLUMN date SET NOT NULL,
+  ALTER COLUMN source_session_id SET NOT NULL,
+  ALTER COLUMN source_module SET NOT NULL,
+  ALTER COLUMN content SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS insights_user_created_idx ON insights (user_id, created_at DESC);
+
+-- 4) 익명 정책 제거 — 로그인 사용자 본인 행만 (매직 링크 로그인 필요)
+-- 002 시절 익명 행은 user_id가 비어 있어 보이지 않음. SQL Editor에서 소유자를 지정:
+--   UPDATE insights SET user_id = '<auth.users id>' WHERE user_id IS NULL;
+DROP POLICY IF EXISTS "Allow anonymous insert" ON insights;
+DROP POLICY IF EXISTS "Allow anonymous select" ON insights;
+DROP POLICY IF EXISTS "users_own_data" ON insights;
+CREATE POLICY "users_own_data" ON insights
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- 5) 학습 테이블 소유자 기본값 — user_id 없이 들어온 행도 로그인 사용자 소유
+ALTER TABLE analysis_sessions ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE pricing_sessions ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE sroi_sessions ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE pitch_sessions ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE insights ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE weekly_reviews ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE daily_streaks ALTER COLUMN user_id SET DEFAULT auth.uid();
+
+-- 6) 주간 정리는 사용자·주당 1건 — 다시 저장하면 upsert (on_conflict=user_id,week_start)
+DELETE FROM weekly_reviews older
+  USING weekly_reviews newer
+  WHERE older.user_id IS NOT DISTINCT FROM newer.user_id
+    AND older.week_start = newer.week_start
+    AND (older.created_at, older.id) < (newer.created_at, newer.id);
+CREATE UNIQUE INDEX IF NOT EXISTS weekly_reviews_user_week_key ON weekly_reviews (user_id, week_start);
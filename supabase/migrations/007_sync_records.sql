@@ -0,0 +1,40 @@
+-- CareRadar: 기기 간 동기화 — careradar_* localStorage 스토어의 레코드별 최신본
+-- 클라이언트(services/sync)는 outbox를 upsert하고 synced_at 커서 이후 행을 당겨감.
+-- 삭제는 tombstone(deleted = TRUE, payload NULL)으로 남겨 다른 기기에도 전달.
+
+CREATE TABLE IF NOT EXISTS sync_records (
+  collection TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  payload JSONB,
+  deleted BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMPTZ NOT NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+  device_id TEXT,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id),
+  PRIMARY KEY (user_id, collection, record_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_records_cursor ON sync_records(user_id, synced_at);
+
+-- synced_at은 서버 시각 — 기기 시계가 어긋나도 pull 커서가 건너뛰지 않음
+-- 더 오래된 updated_at으로 덮어쓰는 upsert는 버림 (last-write-wins)
+CREATE OR REPLACE FUNCTION sync_records_stamp() RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.updated_at < OLD.updated_at THEN
+    RETURN NULL;
+  END IF;
+  NEW.synced_at := clock_timestamp();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_records_stamp ON sync_records;
+CREATE TRIGGER sync_records_stamp
+  BEFORE INSERT OR UPDATE ON sync_records
+  FOR EACH ROW EXECUTE FUNCTION sync_records_stamp();
+
+ALTER TABLE sync_records ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_own_data" ON sync_records;
+CREATE POLICY "users_own_data" ON sync_records
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- CareRadar: 인사이트 활용 기록 — 어느 문서(IR·제안서·논문·피칭·보고서)에 인용했는지
+-- 원소: { "document_type": "IR", "document_name": "2026 시리즈A IR", "used_at": "2026-10-19T09:00:00Z" }
+
+ALTER TABLE insights
+  ADD COLUMN IF NOT EXISTS used_in JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- 실무 적용률 집계용
+CREATE INDEX IF NOT EXISTS idx_insights_applied ON insights(user_id, applied_in_practice);
@@ -0,0 +1,17 @@
+-- CareRadar: 누적 피드백은 사용자·기간(주/월)당 1건 — 같은 기간을 다시 만들면 upsert (on_conflict=user_id,period,period_start)
+
+DELETE FROM cumulative_feedback older
+  USING cumulative_feedback newer
+  WHERE older.user_id IS NOT DISTINCT FROM newer.user_id
+    AND older.period IS NOT DISTINCT FROM newer.period
+    AND older.period_start = newer.period_start
+    AND (older.created_at, older.id) < (newer.created_at, newer.id);
+
+ALTER TABLE cumulative_feedback ALTER COLUMN period SET NOT NULL;
+ALTER TABLE cumulative_feedback ALTER COLUMN user_id SET DEFAULT auth.uid();
+CREATE UNIQUE INDEX IF NOT EXISTS cumulative_feedback_user_period_key
+  ON cumulative_feedback (user_id, period, period_start);
+
+DROP POLICY IF EXISTS "users_own_data" ON cumulative_feedback;
+CREATE POLICY "users_own_data" ON cumulative_feedback
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,19 @@
+-- CareRadar: 케어 트랙 스토리 — 같은 정책·투자 건을 다룬 한·영 기사 클러스터를 주 단위로 이어 봄
+-- 클라이언트(services/careStories)가 기사가 늘어난 스토리만 id(uuid)로 upsert.
+-- timeline은 기사 목록(오래된 순), velocity는 최근 7일 기사로 계산한 velocity.ts 지표.
+
+ALTER TABLE news_clusters ADD COLUMN IF NOT EXISTS first_seen TIMESTAMPTZ;
+ALTER TABLE news_clusters ADD COLUMN IF NOT EXISTS last_updated TIMESTAMPTZ;
+ALTER TABLE news_clusters ADD COLUMN IF NOT EXISTS item_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE news_clusters ADD COLUMN IF NOT EXISTS velocity JSONB;
+ALTER TABLE news_clusters ADD COLUMN IF NOT EXISTS timeline JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE news_clusters ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+ALTER TABLE news_clusters ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id);
+
+CREATE INDEX IF NOT EXISTS idx_news_clusters_user_updated ON news_clusters(user_id, last_updated DESC);
+
+ALTER TABLE news_clusters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_own_data" ON news_clusters;
+CREATE POLICY "users_own_data" ON news_clusters
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
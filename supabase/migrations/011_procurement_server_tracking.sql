@@ -0,0 +1,3 @@
+-- CareRadar: 조달 추적을 서버 작업(server/scheduler/procurement, service role)으로 수행
+-- 낙찰 결과 마지막 조회 시각 — 재조회 간격(6시간)과 조회 순서(오래된 순)의 기준
+ALTER TABLE procurement_items ADD COLUMN IF NOT EXISTS award_checked_at TIMESTAMPTZ;
@@ -0,0 +1,78 @@
+/**
+ * Shared loader for the repo's TypeScript modules under `node --test`.
+ *
+ * Node strips the types but does not resolve the extensionless and '@/'
+ * specifiers the bundler handles, so a module is copied to a temp directory
+ * with those specifiers rewritten to file URLs. Browser-only or IO modules can
+ * be swapped for inline stub sources the same way.
+ */
+
+import { after } from 'node:test';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+import { tmpdir } from 'node:os';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+export const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+/** Repo-relative or absolute path → file URL; file URLs pass through */
+export function fileUrl(target) {
+  return target.startsWith('file:') ? target : pathToFileURL(resolve(root, target)).href;
+}
+
+export const readSrc = (relPath) => readFileSync(resolve(root, relPath), 'utf-8');
+
+/** Imports a module that needs no rewriting (no runtime imports, or only ones Node resolves) */
+export const importTs = (relPath) => import(fileUrl(relPath));
+
+/** Imports a separate copy of the module, with its own module state */
+export const importFresh = (url) => import(`${url}?t=${Date.now()}-${Math.random().toString(16).slice(2)}`);
+
+/** Source of `relPath` with each quoted specifier replaced by its target's file URL */
+export function patchSource(relPath, replacements = {}) {
+  let source = readSrc(relPath);
+  for (const [specifier, target] of Object.entries(replacements)) {
+    source = source.replaceAll(`'${specifier}'`, `'${fileUrl(target)}'`);
+  }
+  return source;
+}
+
+/**
+ * A temp directory for patched copies and stubs, removed when the test file ends.
+ * Call it at the top level of the test file.
+ */
+export function createModuleDir(prefix = 'wm-ts-module-') {
+  const dir = mkdtempSync(join(tmpdir(), prefix));
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  const write = (name, source) => {
+    const path = join(dir, name);
+    writeFileSync(path, source);
+    return pathToFileURL(path).href;
+  };
+
+  return {
+    dir,
+    /** Writes the patched copy (as `name`, default the file name) and returns its file URL */
+    patch: (relPath, replacements = {}, name = basename(relPath)) => write(name, patchSource(relPath, replacements)),
+    /** Writes an inline module source and returns its file URL */
+    stub: (name, source) => write(`${name}.mjs`, source),
+    /** Patches and imports a fresh copy */
+    import: (relPath, replacements = {}, name) => importFresh(write(name ?? basename(relPath), patchSource(relPath, replacements))),
+  };
+}
+
+/** Patches one module into its own temp directory and imports a fresh copy; `cleanup` removes the directory. */
+export async function importPatchedTsModule(relPath, replacements = {}) {
+  const tempDir = mkdtempSync(join(tmpdir(), 'wm-ts-module-'));
+  const tempPath = join(tempDir, basename(relPath));
+  writeFileSync(tempPath, patchSource(relPath, replacements));
+
+  const module = await importFresh(pathToFileURL(tempPath).href);
+  return {
+    module,
+    cleanup() {
+      rmSync(tempDir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,162 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir, importTs, readSrc } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-bot-actions-');
+
+const { BOT_ACTION_CODES, articleActionRow, normalizeBotAction } = await importTs('src/services/botActions.ts');
+
+describe('inline action codes', () => {
+  // The webhook is plain JS and cannot import botActions.ts, so its copy is evaluated here
+  const webhook = readSrc('api/telegram/webhook.js');
+  const codes = webhook.match(/const ACTION_CODES = (\{[^}]*\});/)[1];
+  const row = webhook.match(/function articleActionRow\(ref, index, lang\) \{[\s\S]*?\n\}/)[0];
+  const [ko, en] = [...webhook.matchAll(/actionLabels: (\{[^}]*\}),/g)].map((m) => m[1]);
+  const T = new Function(`return { ko: { actionLabels: ${ko} }, en: { actionLabels: ${en} } };`)();
+  const webhookCopy = new Function('T', `const ACTION_CODES = ${codes};\n${row}\nreturn { ACTION_CODES, articleActionRow };`)(T);
+
+  it('decodes every callback code to the kind that encoded it', () => {
+    const decoded = Object.fromEntries(Object.entries(BOT_ACTION_CODES).map(([kind, code]) => [code, kind]));
+    assert.deepEqual(webhookCopy.ACTION_CODES, decoded);
+  });
+
+  it('draws the same button row as the scheduler alerts', () => {
+    for (const lang of ['ko', 'en']) {
+      assert.deepEqual(webhookCopy.articleActionRow('a1b2c3', 2, lang), articleActionRow('a1b2c3', 2, lang));
+    }
+    assert.deepEqual(articleActionRow('a1b2c3', 2, 'ko').map((b) => b.callback_data), ['a:x:a1b2c3', 'a:b:a1b2c3', 'a:s:a1b2c3']);
+  });
+
+  it('drops actions without a known kind, an id or a title', () => {
+    const article = { title: ' 돌봄 로봇 시범사업 ', ref: 'r1' };
+    assert.equal(normalizeBotAction({ id: '1', kind: 'share', article }), null);
+    assert.equal(normalizeBotAction({ kind: 'study', article }), null);
+    assert.equal(normalizeBotAction({ id: '1', kind: 'study', article: { title: ' ' } }), null);
+    assert.deepEqual(normalizeBotAction({ id: '1', kind: 'study', article, createdAt: '5' }).article, {
+      id: '', ref: 'r1', title: '돌봄 로봇 시범사업', link: '', source: '', track: '', description: '',
+    });
+  });
+});
+
+describe('syncBotActions', () => {
+  // care.v1 inbox: actions after `since`, oldest first, like list-bot-actions
+  const careUrl = modules.stub('care', `
+export const inbox = { actions: [], requests: [] };
+export async function fetchBotActions(since) {
+  inbox.requests.push(since);
+  await new Promise((r) => setTimeout(r, 5));
+  return inbox.actions.filter((a) => a.createdAt > since);
+}
+`);
+  const storageUrl = modules.stub('storage', `
+export const saved = new Map();
+export const storage = {
+  get: (key, fallback) => (saved.has(key) ? structuredClone(saved.get(key)) : fallback),
+  set: (key, value) => { saved.set(key, structuredClone(value)); return true; },
+};
+`);
+  const storesUrl = modules.stub('stores', `
+export const state = { exclusions: [], bookmarks: [], knowledge: [], sessions: [], currentSession: null };
+export const useExclusionStore = { getState: () => ({ addExclusion: (a) => state.exclusions.push(a) }) };
+export const useArticleStore = { getState: () => ({ setBookmarked: (id, on, a) => state.bookmarks.push({ id, on, ...a }) }) };
+export const useKnowledgeStore = { getState: () => ({ items: state.knowledge, addItem: (item) => state.knowledge.push(item) }) };
+export const useStudyStore = {
+  getState: () => ({
+    currentSession: state.currentSession,
+    startSession: (type, context) => { state.currentSession = { type, context }; state.sessions.push(state.currentSession); },
+  }),
+};
+`);
+
+  const loadInbox = () => modules.import('src/services/botInbox.ts', {
+    './care': careUrl,
+    '../utils/storage': storageUrl,
+    '../stores/exclusionStore': storesUrl,
+    '../stores/articleStore': storesUrl,
+    '../stores/knowledgeStore': storesUrl,
+    '../stores/studyStore': storesUrl,
+  });
+
+  let inbox;
+  let saved;
+  let stores;
+
+  const action = (id, kind, createdAt, title = '돌봄 로봇 시범사업') => ({
+    id,
+    kind,
+    chatId: '',
+    article: { id: `art-${title}`, ref: 'r1', title, link: 'https://news.test/1', source: '연합뉴스', track: 'policy', description: '요약' },
+    createdAt,
+  });
+
+  beforeEach(async () => {
+    ({ inbox } = await import(careUrl));
+    ({ saved } = await import(storageUrl));
+    ({ state: stores } = await import(storesUrl));
+    inbox.actions = [];
+    inbox.requests = [];
+    saved.clear();
+    Object.assign(stores, { exclusions: [], bookmarks: [], knowledge: [], sessions: [], currentSession: null });
+  });
+
+  it('applies each kind to its store and advances the cursor', async () => {
+    const { syncBotActions } = await loadInbox();
+    inbox.actions = [action('a1', 'exclude', 100, '무관한 기사'), action('a2', 'bookmark', 200), action('a3', 'study', 300)];
+
+    const applied = await syncBotActions();
+    assert.deepEqual(applied.map((a) => a.id), ['a1', 'a2', 'a3']);
+    assert.deepEqual(stores.exclusions.map((e) => [e.title, e.reason]), [['무관한 기사', '텔레그램에서 제외']]);
+    assert.deepEqual(stores.bookmarks, [{ id: 'art-돌봄 로봇 시범사업', on: true, title: '돌봄 로봇 시범사업', track: 'policy' }]);
+    assert.deepEqual(stores.knowledge.map((k) => k.tags), [['telegram', 'policy']]);
+    assert.equal(stores.sessions[0].type, 'custom');
+    assert.equal(saved.get('careradar_bot_inbox_cursor'), 300);
+  });
+
+  it('re-reads the cursor millisecond and applies each action id once', async () => {
+    const { syncBotActions } = await loadInbox();
+    inbox.actions = [action('a1', 'exclude', 100, '첫 기사')];
+    await syncBotActions();
+
+    // recorded in the same millisecond, after the first sync read the inbox
+    inbox.actions.push(action('a2', 'exclude', 100, '같은 시각 기사'));
+    assert.deepEqual((await syncBotActions()).map((a) => a.id), ['a2']);
+    assert.deepEqual(await syncBotActions(), []);
+    assert.deepEqual(inbox.requests, [0, 99, 99]);
+    assert.deepEqual(stores.exclusions.map((e) => e.title), ['첫 기사', '같은 시각 기사']);
+  });
+
+  it('queues a study session only once per article', async () => {
+    const { syncBotActions } = await loadInbox();
+    inbox.actions = [action('s1', 'study', 100), action('s2', 'study', 200)];
+    await syncBotActions();
+    inbox.actions.push(action('s3', 'study', 300));
+    await syncBotActions();
+
+    assert.equal(stores.knowledge.length, 1);
+    assert.equal(stores.sessions.length, 1);
+  });
+
+  it('keeps a running session and only adds the note for another article', async () => {
+    const { syncBotActions } = await loadInbox();
+    stores.currentSession = { type: 'daily', context: null };
+    inbox.actions = [action('s1', 'study', 100, '다른 기사')];
+    await syncBotActions();
+
+    assert.deepEqual(stores.knowledge.map((k) => k.title), ['다른 기사']);
+    assert.deepEqual(stores.sessions, []);
+    assert.equal(stores.currentSession.type, 'daily');
+  });
+
+  it('shares one request between concurrent callers and keeps the cursor when nothing arrives', async () => {
+    const { syncBotActions } = await loadInbox();
+    inbox.actions = [action('a1', 'bookmark', 100)];
+    const [first, second] = await Promise.all([syncBotActions(), syncBotActions()]);
+    assert.equal(first, second);
+    assert.equal(inbox.requests.length, 1);
+    assert.equal(stores.bookmarks.length, 1);
+
+    inbox.actions = [];
+    await syncBotActions();
+    assert.equal(saved.get('careradar_bot_inbox_cursor'), 100);
+  });
+});
@@ -0,0 +1,243 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir, fileUrl } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-care-opportunity-');
+
+const sourceTiersUrl = fileUrl('src/config/sourceTiers.ts');
+const keywordProfileUrl = fileUrl('src/services/keywordProfile.ts');
+const calculatorUrl = modules.patch('src/services/scoreCalculator.ts', { '../config/sourceTiers': sourceTiersUrl });
+const keywordFilterUrl = modules.patch('src/services/keywordFilter.ts', {
+  '../config/sourceTiers': sourceTiersUrl,
+  './keywordProfile': keywordProfileUrl,
+});
+
+// trackingFeed and the stores read care.v1, localStorage and zustand; the test controls them through `state`
+const trackingFeedUrl = modules.stub('trackingFeed', `
+import { DEFAULT_SCORING_PROFILE } from '${calculatorUrl}';
+export const state = { snapshot: null, fetches: 0, recorded: [] };
+export async function fetchTrackingSnapshot() {
+  state.fetches++;
+  await new Promise((r) => setTimeout(r, 5));
+  if (!state.snapshot) throw new Error('care.v1 offline');
+  return state.snapshot;
+}
+export function recordTrackingSnapshot(snapshot) { state.recorded.push(snapshot); }
+export function liveScoringProfile() { return DEFAULT_SCORING_PROFILE; }
+export function toNewsArticle(item) {
+  return { id: item.id, title: item.title, link: item.link, track: item.track, analysis: { impactScore: item.verifiedScore } };
+}
+export function topContributingNews(articles) {
+  const top = (track) => articles.filter((a) => a.track === track).map((a) => a.title);
+  return { policy: top('policy'), investment: top('investment'), competitor: top('competitor') };
+}
+`);
+const storesUrl = modules.stub('stores', `
+import { DEFAULT_KEYWORD_PROFILE } from '${keywordProfileUrl}';
+export const state = { scoreHistory: [], keywordProfile: DEFAULT_KEYWORD_PROFILE };
+export const useTrackingStore = { getState: () => ({ scoreHistory: state.scoreHistory }) };
+export const useSettingsStore = { getState: () => ({ getKeywordProfile: () => state.keywordProfile }) };
+`);
+
+const { buildCareSignals, buildScoreTrend, loadCareOpportunity } = await import(modules.patch('src/services/care-opportunity.ts', {
+  '@/config/care-feeds': fileUrl('src/config/care-feeds.ts'),
+  '@/config/constants': fileUrl('src/config/constants.ts'),
+  './care-insights': fileUrl('src/services/care-insights.ts'),
+  './keywordFilter': keywordFilterUrl,
+  './crossVerification': fileUrl('src/services/crossVerification.ts'),
+  './scoreCalculator': calculatorUrl,
+  './trackingFeed': trackingFeedUrl,
+  './rssFeed': fileUrl('src/services/rssFeed.ts'),
+  '@/services/relevance': modules.stub('relevance', 'export const relevanceAdjustment = () => 0;\n'),
+  '@/stores/trackingStore': storesUrl,
+  '@/stores/settingsStore': storesUrl,
+}));
+const { state: feed } = await import(trackingFeedUrl);
+const { state: stores } = await import(storesUrl);
+const { DEFAULT_KEYWORD_PROFILE } = await import(keywordProfileUrl);
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const news = (link, title, source = 'unknown', at = Date.now() - HOUR) => ({
+  source, title, link, pubDate: new Date(at), isAlert: false,
+});
+
+const cluster = (id, items, lastUpdated = Date.now() - HOUR) => ({
+  id,
+  primaryTitle: items[0].title,
+  primarySource: items[0].source,
+  primaryLink: items[0].link,
+  sourceCount: items.length,
+  topSources: [],
+  allItems: items,
+  firstSeen: new Date(lastUpdated),
+  lastUpdated: new Date(lastUpdated),
+  isAlert: false,
+});
+
+const procurementNews = news('https://news.test/g2b', '보건복지부 AI 돌봄로봇 조달 입찰 공고');
+const careTechNews = news('https://news.test/tech', '발달장애인 AI 돌봄 플랫폼 출시');
+const fundingNews = news('https://news.test/fund', '돌봄 스타트업 시리즈A 투자 유치');
+const worldNews = news('https://news.test/world', 'Central bank holds rates');
+
+const newsByCategory = {
+  publicProcurement: [procurementNews],
+  careTech: [careTechNews],
+  impactFunding: [fundingNews],
+  world: [worldNews],
+};
+
+const clusters = () => [
+  cluster('c-procurement', [procurementNews, careTechNews], Date.now() - 2 * HOUR),
+  cluster('c-funding', [fundingNews], Date.now() - HOUR),
+  cluster('c-world', [worldNews]),
+];
+
+const history = (hoursAgo, total) => ({
+  timestamp: new Date(Date.now() - hoursAgo * HOUR).toISOString(),
+  total, s1: total, s2: total, s3: total,
+});
+
+const snapshot = (total, fetchedAt = Date.now() - 10 * MINUTE) => ({
+  articles: [
+    { id: 'a1', title: '정책 기사', link: '', track: 'policy', analysis: { impactScore: 80 } },
+    { id: 'a2', title: '경쟁사 기사', link: '', track: 'competitor', analysis: { impactScore: 60 } },
+  ],
+  procurements: [{ id: 'p1', title: 'AI 돌봄 서비스 구축' }],
+  disclosures: [],
+  dartConfigured: false,
+  calendar: [],
+  trackCounts: [],
+  score: { total, s1: 70, s2: 50, s3: 40, shouldAlert: false, isHighPriority: false },
+  verification: { total: 2, verified: 0, multiSource: 0, singleSource: 2 },
+  fetchedAt: new Date(fetchedAt).toISOString(),
+});
+
+beforeEach(() => {
+  feed.snapshot = null;
+  feed.fetches = 0;
+  feed.recorded = [];
+  stores.scoreHistory = [];
+  stores.keywordProfile = DEFAULT_KEYWORD_PROFILE;
+});
+
+describe('buildCareSignals', () => {
+  it('counts clusters per care category, once in each category a cluster spans', () => {
+    const signals = buildCareSignals(clusters(), newsByCategory);
+    assert.deepEqual(signals.map((s) => [s.category, s.count]), [
+      ['careTech', 1],
+      ['impactFunding', 1],
+      ['publicProcurement', 1],
+      ['competitorIntelligence', 0],
+    ]);
+    assert.deepEqual(signals.find((s) => s.category === 'careTech').recentHeadlines, [procurementNews.title]);
+  });
+
+  it('keeps the three newest headlines', () => {
+    const items = [1, 2, 3, 4].map((n) => news(`https://news.test/tech-${n}`, `케어테크 ${n}`));
+    const byAge = items.map((item, i) => cluster(`c${i}`, [item], Date.now() - (i + 1) * HOUR));
+    const [careTech] = buildCareSignals(byAge.reverse(), { careTech: items });
+    assert.equal(careTech.count, 4);
+    assert.deepEqual(careTech.recentHeadlines, ['케어테크 1', '케어테크 2', '케어테크 3']);
+  });
+});
+
+describe('buildScoreTrend', () => {
+  const NOW = Date.parse('2026-10-19T09:00:00.000Z');
+  const at = (hoursAgo, total) => ({ ...history(0, total), timestamp: new Date(NOW - hoursAgo * HOUR).toISOString() });
+
+  it('compares with the last score recorded before the 24h window', () => {
+    const trend = buildScoreTrend([at(2, 55), at(30, 40), at(20, 50), at(48, 90)], 62, NOW);
+    assert.deepEqual(trend, { direction: 'rising', delta: 22, points: [50, 55, 62] });
+  });
+
+  it('falls back to the oldest score in the window and treats small moves as stable', () => {
+    assert.deepEqual(buildScoreTrend([at(10, 60), at(1, 70)], 58, NOW), { direction: 'stable', delta: -2, points: [60, 70, 58] });
+    assert.equal(buildScoreTrend([at(10, 60)], 50, NOW).direction, 'falling');
+    assert.deepEqual(buildScoreTrend([], 50, NOW), { direction: 'stable', delta: 0, points: [50] });
+  });
+
+  it('keeps at most 12 points, ending with the current total', () => {
+    const hourly = Array.from({ length: 20 }, (_, i) => at(i + 1, i));
+    const { points } = buildScoreTrend(hourly, 99, NOW);
+    assert.equal(points.length, 12);
+    assert.deepEqual(points, [10, 9, 8, 7, 6, 5, 4, 3, 2, 1, 0, 99]);
+  });
+});
+
+describe('loadCareOpportunity', () => {
+  it('uses the care.v1 snapshot score and trends it against the history recorded before it', async () => {
+    feed.snapshot = snapshot(62);
+    stores.scoreHistory = [history(30, 40), history(2, 55)];
+
+    const view = await loadCareOpportunity({ clusters: clusters(), newsByCategory, updatedAt: Date.now() });
+
+    assert.equal(view.source, 'snapshot');
+    assert.deepEqual(view.score, feed.snapshot.score);
+    assert.deepEqual(view.trend, { direction: 'rising', delta: 22, points: [55, 62] });
+    assert.deepEqual(feed.recorded, [feed.snapshot], 'recorded after the trend is read');
+    assert.deepEqual(view.contributing, { policy: ['정책 기사'], investment: [], competitor: ['경쟁사 기사'] });
+    assert.deepEqual(view.procurements, feed.snapshot.procurements);
+    assert.equal(view.generatedAt, Date.parse(feed.snapshot.fetchedAt));
+    assert.equal(view.isStale, false);
+    assert.deepEqual(view.convergence.map((c) => c.rule.name), [
+      'procurement_opportunity',
+      'investment_trend',
+      'market_expansion',
+      'super_convergence',
+    ]);
+  });
+
+  it('marks a snapshot older than 30 minutes as stale', async () => {
+    feed.snapshot = snapshot(62, Date.now() - 45 * MINUTE);
+    const view = await loadCareOpportunity({ clusters: [], newsByCategory: {}, updatedAt: 0 });
+    assert.equal(view.isStale, true);
+    assert.deepEqual(view.convergence, []);
+  });
+
+  it('shares one snapshot request between panels refreshing together', async () => {
+    feed.snapshot = snapshot(62);
+    const input = { clusters: clusters(), newsByCategory, updatedAt: Date.now() };
+    const [bos, radar] = await Promise.all([loadCareOpportunity(input), loadCareOpportunity(input)]);
+    assert.equal(feed.fetches, 1);
+    assert.equal(bos.score.total, radar.score.total);
+
+    await loadCareOpportunity(input);
+    assert.equal(feed.fetches, 2, 'the next tick fetches again');
+  });
+
+  it('scores the clustered care news when care.v1 is unreachable, without recording it', async () => {
+    const updatedAt = Date.now() - 5 * MINUTE;
+    const view = await loadCareOpportunity({ clusters: clusters(), newsByCategory, updatedAt });
+
+    assert.equal(view.source, 'clusters');
+    // policy: 조달 + 돌봄 매칭 기사 1건, investment: 투자 기사 1건 — the careTech item is not a score track
+    assert.deepEqual(view.contributing, { policy: [procurementNews.title], investment: [fundingNews.title], competitor: [] });
+    // keyword -> cross-verify -> score under the live (default) profile: 49 × 0.4 + 39 × 0.3
+    assert.deepEqual(view.score, { total: 31, s1: 49, s2: 39, s3: 0, shouldAlert: false, isHighPriority: false });
+    assert.deepEqual(view.procurements, []);
+    assert.equal(view.generatedAt, updatedAt);
+    assert.equal(view.isStale, false);
+    assert.deepEqual(feed.recorded, []);
+    assert.deepEqual(view.trend.points, [view.score.total]);
+  });
+
+  it('applies the settings keyword profile to the fallback score', async () => {
+    const input = { clusters: clusters(), newsByCategory, updatedAt: Date.now() };
+    const base = await loadCareOpportunity(input);
+
+    stores.keywordProfile = { ...DEFAULT_KEYWORD_PROFILE, negativeKeywords: ['입찰'] };
+    const excluded = await loadCareOpportunity(input);
+    assert.deepEqual([base.score.s1, excluded.score.s1], [49, 30], 'a negative keyword lowers the policy track');
+    assert.equal(excluded.score.s2, base.score.s2);
+    assert.equal(excluded.score.total, 24);
+  });
+
+  it('fails only when there is neither a snapshot nor clustered care news', async () => {
+    await assert.rejects(
+      loadCareOpportunity({ clusters: [cluster('c-world', [worldNews])], newsByCategory, updatedAt: Date.now() }),
+      /CareRadar 수집 서비스에 연결할 수 없습니다/,
+    );
+  });
+});
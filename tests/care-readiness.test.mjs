@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-care-readiness-');
+
+const {
+  appendCareReadinessHistory,
+  attributeCountries,
+  calculateCareReadiness,
+  careReadinessTrend,
+  getCareReadinessLearning,
+} = await modules.import('src/services/care-readiness-index.ts', {
+  '../config/ai-regulations': 'src/config/ai-regulations.ts',
+  '../config/care-geo': 'src/config/care-geo.ts',
+  '../config/care-readiness': 'src/config/care-readiness.ts',
+});
+
+// Monday evening in Seoul — 2026-10-19 KST
+const NOW = Date.parse('2026-10-19T18:00:00+09:00');
+const DAY = 24 * 60 * 60 * 1000;
+
+const regulation = (country, type, status, dates = {}) => ({
+  id: `${country}-${type}`, name: type, shortName: type, country, type, status,
+  announcedDate: '2020-01-01', scope: [], keyProvisions: [], ...dates,
+});
+
+const REGISTRIES = {
+  regulations: [
+    regulation('South Korea', 'comprehensive', 'active', {
+      announcedDate: '2024-12-26', promulgatedDate: '2025-01-21', effectiveDate: '2026-01-22',
+    }),
+    regulation('European Union', 'sectoral', 'proposed', { announcedDate: '2026-06-01' }),
+  ],
+  actions: [{ id: 'a', date: '2026-03-01', country: 'South Korea', title: '', type: 'guideline', description: '', impact: 'high' }],
+  labs: [{ country: 'JP' }, { country: 'JP' }],
+  startups: [{ country: 'KR' }],
+};
+
+const article = (title, track, sentimentScore = 50) => ({ title, preview: '', track, sentimentScore });
+
+const SIGNALS = {
+  articles: [
+    article('복지부 돌봄로봇 보급 확대', 'policy'),
+    article('AI 돌봄 스타트업 투자 유치', 'investment'),
+    article('Japan care robot launch', 'caretech', 62),
+    article('German nursing AI expands', 'caretech', 62),
+  ],
+  procurementCount: 3,
+};
+
+describe('care readiness index', () => {
+  it('attributes articles by whole-word country names, Korean articles without one to KR', () => {
+    assert.deepEqual(attributeCountries('Robot usage in care homes'), []);
+    assert.deepEqual(attributeCountries('U.S. Medicare covers care robots'), ['US']);
+    assert.deepEqual(attributeCountries('일본 후생노동성, 개호 로봇 지원'), ['JP']);
+    assert.deepEqual(attributeCountries('발달장애인 행동분석 AI 실증'), ['KR']);
+  });
+
+  it('computes components from regulations, news, registries and procurement', () => {
+    const scores = calculateCareReadiness(SIGNALS, [], NOW, REGISTRIES);
+    const byCode = Object.fromEntries(scores.map((s) => [s.country, s]));
+
+    // 35 (law in force) + 20 (capped events: three law milestones and one action) + 5 (one policy article)
+    assert.deepEqual(byCode.KR.components, { policyMaturity: 60, techAdoption: 0, roboticsEco: 10, fundingActivity: 22 });
+    assert.equal(byCode.KR.overall, 26);
+    assert.deepEqual(byCode.KR.evidence, {
+      regulations: 1, regulationEvents: 4, policyNews: 1, techNews: 0,
+      labs: 0, startups: 1, investmentNews: 1, procurements: 3,
+    });
+
+    // 7 from one article + 30 × 0.62 sentiment
+    assert.deepEqual(byCode.JP.components, { policyMaturity: 0, techAdoption: 26, roboticsEco: 30, fundingActivity: 0 });
+    // the proposed EU regulation (half of 20) and its announcement reach every member state
+    assert.equal(byCode.DE.components.policyMaturity, 18);
+    assert.equal(byCode.FR.components.policyMaturity, 18);
+    assert.equal(byCode.GB, undefined, 'no signal, no score');
+
+    assert.deepEqual(scores.slice(0, 3).map((s) => s.country), ['KR', 'DE', 'JP']);
+  });
+
+  it('covers more than the five curated countries with the shipped registries', () => {
+    const scores = calculateCareReadiness({ articles: [], procurementCount: 0 }, [], NOW);
+    const codes = scores.map((s) => s.country);
+    for (const code of ['KR', 'JP', 'US', 'CN', 'DE', 'FR', 'IL', 'SG']) assert.ok(codes.includes(code), code);
+    assert.ok(scores.every((s) => s.overall > 0 && s.overall <= 100));
+  });
+
+  it('keeps the trend stable while learning, then compares against the score a week back', () => {
+    assert.deepEqual(careReadinessTrend('KR', 60, [], NOW), { trend: 'stable', change7d: 0 });
+
+    const recent = [{ day: '2026-10-15', timestamp: '', scores: { KR: 40 } }];
+    assert.deepEqual(careReadinessTrend('KR', 60, recent, NOW), { trend: 'stable', change7d: 0 });
+    assert.equal(getCareReadinessLearning(recent, NOW).inLearning, true);
+    assert.equal(getCareReadinessLearning(recent, NOW).remainingDays, 3);
+
+    const history = [
+      { day: '2026-10-01', timestamp: '', scores: { KR: 70 } },
+      { day: '2026-10-12', timestamp: '', scores: { KR: 55, JP: 30 } },
+      ...recent,
+    ];
+    assert.deepEqual(careReadinessTrend('KR', 60, history, NOW), { trend: 'improving', change7d: 5 });
+    assert.deepEqual(careReadinessTrend('JP', 28, history, NOW), { trend: 'stable', change7d: -2 });
+    assert.deepEqual(getCareReadinessLearning(history, NOW), { inLearning: false, remainingDays: 0, progress: 100 });
+  });
+
+  it('stores one history entry per KST day, the latest snapshot winning', () => {
+    const scores = calculateCareReadiness(SIGNALS, [], NOW, REGISTRIES);
+    let history = appendCareReadinessHistory([], scores, NOW - DAY);
+    history = appendCareReadinessHistory(history, scores, NOW);
+    history = appendCareReadinessHistory(history, scores.slice(0, 1), NOW + 60 * 60 * 1000);
+
+    assert.deepEqual(history.map((e) => e.day), ['2026-10-18', '2026-10-19']);
+    assert.deepEqual(history[1].scores, { KR: 26 });
+    assert.equal(history[0].scores.JP, 14);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-care-registry-');
+
+const {
+  detectKrRegion,
+  fundingStageOf,
+  geocodePolicyEvent,
+  mergeRegistry,
+  nearbyOpportunities,
+  parseCareRegistry,
+} = await modules.import('src/services/care-registry.ts', {
+  '../config/care-geo': 'src/config/care-geo.ts',
+  '../config/care-readiness': 'src/config/care-readiness.ts',
+  './financials/statements': 'src/services/financials/statements.ts',
+});
+
+const SEOUL = { lat: 37.5665, lon: 126.978 };
+const GYEONGGI = { lat: 37.2752, lon: 127.0095 };
+
+const FACILITY_CSV = [
+  '시설명,시설종류,운영주체,소재지도로명주소,정원,위도,경도',
+  '한빛 발달장애인 주간보호센터,발달장애인 주간보호시설,사회복지법인 한빛,"경기도 광주시 오포로 1, 2층",30,,',
+  '누리 장애인복지관,장애인복지관,누리재단,서울특별시 마포구 월드컵로 10,,37.56,126.90',
+  '주소 없는 시설,장애인복지관,,해외 어딘가,,,',
+  ',발달장애인지원센터,이름 없음,부산광역시 해운대구,,,',
+].join('\n');
+
+const procurement = (id, organization, status, deadline, impactScore = 50) => ({
+  id, title: `돌봄로봇 구매 ${id}`, organization, status, deadline, impactScore,
+  budget: 0, sourceUrl: '', category: 'goods',
+});
+
+describe('care registry import', () => {
+  it('detects the province that appears first, the longest alias on a tie', () => {
+    assert.equal(detectKrRegion('경기도 광주시 오포읍'), '경기');
+    assert.equal(detectKrRegion('광주광역시 북구청'), '광주');
+    assert.equal(detectKrRegion('서울특별시 사회서비스원'), '서울');
+    assert.equal(detectKrRegion('보건복지부'), null);
+  });
+
+  it('parses Korean-headed CSV, geocoding rows without coordinates to the province centroid', () => {
+    const { records, skipped } = parseCareRegistry('facilities', FACILITY_CSV, 'facilities.csv');
+    assert.equal(skipped, 1, 'the row without a name');
+    assert.equal(records.length, 3);
+
+    const [hanbit, nuri, unplaced] = records;
+    assert.equal(hanbit.address, '경기도 광주시 오포로 1, 2층', 'quoted commas survive');
+    assert.equal(hanbit.region, '경기');
+    assert.deepEqual({ lat: hanbit.lat, lon: hanbit.lon }, GYEONGGI);
+    assert.equal(hanbit.type, 'development_center');
+    assert.equal(hanbit.capacity, 30);
+    assert.equal(hanbit.operator, '사회복지법인 한빛');
+
+    assert.deepEqual({ lat: nuri.lat, lon: nuri.lon, region: nuri.region }, { lat: 37.56, lon: 126.9, region: '서울' });
+    assert.equal(nuri.type, 'welfare_center');
+    assert.equal(nuri.capacity, undefined);
+
+    // no province in the address: falls back to the country anchor, without a region
+    assert.deepEqual({ lat: unplaced.lat, lon: unplaced.lon, region: unplaced.region }, { ...SEOUL, region: undefined });
+  });
+
+  it('reads GeoJSON points and funding metadata', () => {
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: [139.7, 35.7] },
+          properties: { id: 'st-care', name: 'CareBot', country: 'Japan', stage: 'Series B', funding: '12.5', investors: ['SBI', 'JAFCO'] },
+        },
+        { type: 'Feature', geometry: null, properties: { name: 'Seoul Robotics', 국가: '한국', 투자단계: 'pre-A' } },
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [0, 0] }, properties: { name: 'Nowhere', country: 'Atlantis' } },
+      ],
+    });
+    const { records, skipped } = parseCareRegistry('startups', geojson, 'startups.geojson');
+    assert.equal(skipped, 1);
+    assert.deepEqual(records[0], {
+      id: 'st-care', name: 'CareBot', lat: 35.7, lon: 139.7, country: 'JP', domain: '',
+      fundingStage: 'seriesB', fundingAmountM: 12.5, fundedAt: undefined, investors: ['SBI', 'JAFCO'], description: '',
+    });
+    assert.deepEqual({ country: records[1].country, lat: records[1].lat, stage: records[1].fundingStage }, { country: 'KR', lat: SEOUL.lat, stage: 'seed' });
+  });
+
+  it('maps funding rounds to stages', () => {
+    assert.equal(fundingStageOf('시리즈A'), 'seriesA');
+    assert.equal(fundingStageOf('Series C+'), 'seriesC');
+    assert.equal(fundingStageOf('엔젤'), 'seed');
+    assert.equal(fundingStageOf('IPO'), 'later');
+  });
+
+  it('places policy events at capitals, the National Assembly or the Sejong complex', () => {
+    const event = (kind, agency, title = '돌봄 정책') => ({ id: `${kind}-${agency}`, title, date: '2026-11-01', kind, agency, link: '', description: '' });
+
+    assert.deepEqual(geocodePolicyEvent(event('law', 'Japan')).country, 'JP');
+    const eu = geocodePolicyEvent(event('law', 'European Union'));
+    assert.deepEqual({ lat: eu.lat, lon: eu.lon, country: eu.country }, { lat: 50.8503, lon: 4.3517, country: 'EU' });
+    assert.equal(geocodePolicyEvent(event('law', 'Atlantis')), null);
+
+    const assembly = geocodePolicyEvent(event('fiscal', '국회 예산결산특별위원회'));
+    assert.deepEqual({ lat: assembly.lat, lon: assembly.lon }, { lat: 37.5319, lon: 126.914 });
+    const sejong = geocodePolicyEvent(event('press', '보건복지부'));
+    assert.deepEqual({ lat: sejong.lat, lon: sejong.lon }, { lat: 36.504, lon: 127.265 });
+    assert.equal(geocodePolicyEvent(event('press', '보건복지부', '서울시 돌봄로봇 시범사업')).region, '서울');
+  });
+
+  it('lists open procurement in the facility province, closest deadline first', () => {
+    const [facility] = parseCareRegistry('facilities', FACILITY_CSV).records;
+    const items = [
+      procurement('late', '경기도 성남시', 'open', '2026-12-01'),
+      procurement('undated', '경기도청', 'open', '', 90),
+      procurement('soon', '경기도 광주시', 'open', '2026-10-25'),
+      procurement('closed', '경기도 수원시', 'closed', '2026-10-20'),
+      procurement('elsewhere', '광주광역시 북구', 'open', '2026-10-21'),
+    ];
+    assert.deepEqual(nearbyOpportunities(facility, items).map((p) => p.id), ['soon', 'late', 'undated']);
+    assert.deepEqual(nearbyOpportunities(facility, items, 1).map((p) => p.id), ['soon']);
+    assert.deepEqual(nearbyOpportunities({ ...facility, country: 'JP', region: undefined }, items), []);
+  });
+
+  it('lets imported records replace bundled ones by id and appends the rest', () => {
+    const seed = [{ id: 'a', v: 1 }, { id: 'b', v: 1 }];
+    assert.deepEqual(mergeRegistry(seed, [{ id: 'b', v: 2 }, { id: 'c', v: 2 }]), [
+      { id: 'a', v: 1 }, { id: 'b', v: 2 }, { id: 'c', v: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-care-auth-');
+
+const { CARE_SERVER_SECRET_HEADER, requireServerSecret } = await modules.import('server/worldmonitor/care/v1/_auth.ts', {
+  '../../../../src/generated/server/worldmonitor/care/v1/service_server': 'src/generated/server/worldmonitor/care/v1/service_server.ts',
+});
+
+const ctx = (headers = {}) => ({ request: new Request('https://care.test/api/care/v1/record-bot-action'), pathParams: {}, headers });
+
+function withSecret(value, fn) {
+  const previous = process.env.CARE_SERVER_SECRET;
+  if (value === undefined) delete process.env.CARE_SERVER_SECRET;
+  else process.env.CARE_SERVER_SECRET = value;
+  try {
+    fn();
+  } finally {
+    if (previous === undefined) delete process.env.CARE_SERVER_SECRET;
+    else process.env.CARE_SERVER_SECRET = previous;
+  }
+}
+
+describe('care server secret', () => {
+  it('passes only requests carrying the configured secret', () => {
+    withSecret('s3cret', () => {
+      assert.doesNotThrow(() => requireServerSecret(ctx({ [CARE_SERVER_SECRET_HEADER]: 's3cret' })));
+      for (const given of [undefined, '', 's3cre', 's3cret!', 'S3CRET']) {
+        assert.throws(
+          () => requireServerSecret(ctx(given === undefined ? {} : { [CARE_SERVER_SECRET_HEADER]: given })),
+          (err) => err.statusCode === 401,
+          `rejects ${JSON.stringify(given)}`,
+        );
+      }
+    });
+  });
+
+  it('keeps the writes closed when no secret is configured', () => {
+    withSecret(undefined, () => {
+      assert.throws(() => requireServerSecret(ctx({ [CARE_SERVER_SECRET_HEADER]: '' })), (err) => err.statusCode === 503);
+    });
+  });
+});
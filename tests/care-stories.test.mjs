@@ -0,0 +1,142 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-care-stories-');
+
+const {
+  mergeStories,
+  pruneStories,
+  storyFromRow,
+  storyImportance,
+  storyLang,
+  storyRow,
+} = await modules.import('src/services/careStories/model.ts', {
+  '../knowledge/search': 'src/services/knowledge/search.ts',
+});
+
+const NOW = new Date('2026-10-19T09:00:00.000Z');
+const day = (d, h = 9) => new Date(Date.UTC(2026, 9, d, h));
+
+const item = (link, title, source, date) => ({ link, title, source, pubDate: date, isAlert: false });
+const cluster = (items) => {
+  const dates = items.map((i) => i.pubDate.getTime());
+  return {
+    id: items[0].link,
+    primaryTitle: items[0].title,
+    primarySource: items[0].source,
+    primaryLink: items[0].link,
+    sourceCount: items.length,
+    topSources: [],
+    allItems: items,
+    firstSeen: new Date(Math.min(...dates)),
+    lastUpdated: new Date(Math.max(...dates)),
+    isAlert: false,
+  };
+};
+
+const TRACKS = { policy: 'policy', investment: 'investment' };
+const trackOf = (link) => TRACKS[link.split('/')[0]];
+
+// velocity.ts itself pulls in the ML worker; the model takes the metric as a function
+const velocityOf = (event) => ({
+  sourcesPerHour: event.allItems.length,
+  level: event.allItems.length >= 3 ? 'elevated' : 'normal',
+  trend: 'stable',
+  sentiment: 'neutral',
+  sentimentScore: 0,
+});
+
+let seq = 0;
+const newId = () => `story-${++seq}`;
+
+describe('care story timelines', () => {
+  it('starts a story per cluster and keeps its timeline oldest first', () => {
+    const voucher = cluster([
+      item('policy/2', 'Korea raises home-care voucher rates', 'Korea Herald', day(13)),
+      item('policy/1', '방문요양 바우처 단가 4% 인상', '연합뉴스', day(12)),
+    ]);
+    const { stories, changed } = mergeStories([], [voucher], trackOf, velocityOf, newId, NOW);
+
+    assert.equal(stories.length, 1);
+    const [story] = stories;
+    assert.deepEqual(changed, [story.id]);
+    assert.equal(story.track, 'policy');
+    assert.deepEqual(story.timeline.map((a) => [a.link, a.lang]), [['policy/1', 'ko'], ['policy/2', 'en']]);
+    assert.equal(story.firstSeen, day(12).toISOString());
+    assert.equal(story.lastUpdated, day(13).toISOString());
+    assert.match(story.summary, /^기사 2건 · 매체 2곳 · 최근: Korea raises/);
+    // 2 articles (16) + 2 sources (10) + Korean and English (10)
+    assert.equal(story.importanceScore, 36);
+  });
+
+  it('continues a story over the following weeks by shared link or similar title', () => {
+    const first = mergeStories([], [cluster([
+      item('policy/1', '방문요양 바우처 단가 인상 고시', '연합뉴스', day(1)),
+      item('policy/2', '방문요양 바우처 단가 인상 확정', '뉴시스', day(2)),
+    ])], trackOf, velocityOf, newId, day(2, 12)).stories;
+    const id = first[0].id;
+
+    // a week later the feed no longer carries the first articles — the title still matches
+    const later = mergeStories(first, [
+      cluster([item('policy/3', '방문요양 바우처 단가 인상 시행', '보건복지부', day(12))]),
+      cluster([item('investment/9', '케어테크 스타트업 시리즈A 유치', '더벨', day(12))]),
+    ], trackOf, velocityOf, newId, NOW);
+
+    const story = later.stories.find((s) => s.id === id);
+    assert.deepEqual(story.timeline.map((a) => a.link), ['policy/1', 'policy/2', 'policy/3']);
+    assert.equal(story.firstSeen, day(1).toISOString());
+    assert.equal(story.lastUpdated, day(12).toISOString());
+    assert.equal(later.stories.length, 2, 'the unrelated investment article starts its own candidate');
+    assert.ok(later.changed.includes(id));
+
+    // velocity only counts the last 7 days of the timeline
+    assert.equal(story.velocity.sourcesPerHour, 1);
+
+    // re-clustering articles already in the story changes nothing
+    const again = mergeStories(later.stories, [cluster([item('policy/3', '방문요양 바우처 단가 인상 시행', '보건복지부', day(12))])], trackOf, velocityOf, newId, NOW);
+    assert.deepEqual(again.changed, []);
+  });
+
+  it('does not join a similar title from another track or after the match window', () => {
+    const stored = mergeStories([], [cluster([
+      item('policy/1', '장기요양 수가 인상 발표', '연합뉴스', day(1)),
+      item('policy/2', '장기요양 수가 인상 확정', '뉴시스', day(1, 12)),
+    ])], trackOf, velocityOf, newId, day(2)).stories;
+
+    const otherTrack = mergeStories(stored, [cluster([item('investment/1', '장기요양 수가 인상 발표', '더벨', day(3))])], trackOf, velocityOf, newId, day(3));
+    assert.equal(otherTrack.stories.length, 2);
+
+    const tooLate = mergeStories(stored, [cluster([item('policy/5', '장기요양 수가 인상 발표', '연합뉴스', day(18))])], trackOf, velocityOf, newId, NOW);
+    assert.equal(tooLate.stories.length, 2);
+  });
+
+  it('drops stale single-article candidates sooner than stories', () => {
+    const story = { timeline: [{}, {}], lastUpdated: day(1).toISOString() };
+    const candidate = { timeline: [{}], lastUpdated: day(1).toISOString() };
+    assert.deepEqual(pruneStories([story, candidate], NOW), [story]);
+    assert.deepEqual(pruneStories([story, candidate], day(10)), [story, candidate]);
+  });
+
+  it('scores importance from volume, sources, languages and velocity', () => {
+    const article = (source, lang) => ({ source, lang });
+    const busy = Array.from({ length: 6 }, (_, i) => article(`s${i}`, i % 2 ? 'ko' : 'en'));
+    assert.equal(storyImportance(busy, { level: 'spike', trend: 'rising' }), 100);
+    assert.equal(storyImportance([article('a', 'ko')], { level: 'normal', trend: 'stable' }), 13);
+    assert.equal(storyLang('Seoul care voucher'), 'en');
+  });
+
+  it('round-trips a story through a news_clusters row', () => {
+    const [story] = mergeStories([], [cluster([
+      item('policy/1', '방문요양 바우처 단가 인상', '연합뉴스', day(12)),
+      item('policy/2', '방문요양 바우처 단가 인상 확정', '뉴시스', day(13)),
+    ])], trackOf, velocityOf, newId, NOW).stories;
+
+    const row = storyRow(story);
+    assert.equal(row.item_count, 2);
+    assert.equal(row.importance_score, story.importanceScore);
+    assert.equal(row.first_seen, story.firstSeen);
+    assert.deepEqual(storyFromRow(JSON.parse(JSON.stringify(row))), story);
+    assert.equal(storyFromRow({ ...row, timeline: [] }), null);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-competency-model-');
+
+const recordsUrl = modules.patch('src/services/study/records.ts', {
+  '../dailyBriefSchedule': 'src/services/dailyBriefSchedule.ts',
+});
+const modelUrl = modules.patch('src/services/study/competencyModel.ts', {
+  './competencies': 'src/services/study/competencies.ts',
+  './records': recordsUrl,
+  './types': 'src/services/study/types.ts',
+});
+
+const {
+  buildCumulativeFeedback,
+  collectEvidence,
+  estimateCompetencies,
+  feedbackPeriodRange,
+  sessionEvidence,
+} = await import(modelUrl);
+const { localDate } = await import(recordsUrl);
+
+const DAY = 86_400_000;
+const NOW = new Date(2026, 9, 19, 12); // Monday 2026-10-19, local time
+
+const depth = (scores) =>
+  Object.entries(scores).map(([dimension, score]) => ({ dimension, score, reason: '' }));
+const gaps = (covered, missed = 0, inaccurate = 0) => [
+  ...Array.from({ length: covered }, () => ({ kind: 'covered', point: 'c', detail: '' })),
+  ...Array.from({ length: missed }, () => ({ kind: 'missed', point: 'm', detail: '' })),
+  ...Array.from({ length: inaccurate }, () => ({ kind: 'inaccurate', point: 'i', detail: '' })),
+];
+
+let seq = 0;
+const session = (type, daysAgo, extra = {}) => ({
+  id: `s${++seq}`,
+  type,
+  title: `${type} ${seq}`,
+  completedAt: new Date(NOW.getTime() - daysAgo * DAY).toISOString(),
+  durationSeconds: 600,
+  ...extra,
+});
+
+const strong = { depthScores: depth({ accuracy: 5, quantification: 4, structure: 5, application: 4, risk: 4 }), gaps: gaps(4) };
+
+describe('competency model', () => {
+  it('scores a session from depth, gap coverage and self-rating, ignoring self-rating alone', () => {
+    const measured = sessionEvidence(session('financial', 1, { depthScores: depth({ accuracy: 5, risk: 0 }), gaps: gaps(1, 1), selfRating: 5 }));
+    // depth 0.5 (w .4), coverage 0.5 (w .3), self-rating 1 (w .1)
+    assert.equal(measured.competency, 'financial');
+    assert.ok(Math.abs(measured.score - (0.4 * 0.5 + 0.3 * 0.5 + 0.1 * 1) / 0.8) < 1e-9);
+
+    const selfOnly = sessionEvidence(session('financial', 1, { selfRating: 5 }));
+    const bare = sessionEvidence(session('financial', 1));
+    assert.equal(selfOnly.score, bare.score);
+    assert.ok(bare.score < measured.score);
+
+    assert.equal(sessionEvidence(session('weekly_review', 1)), null);
+  });
+
+  it('decays old evidence so a strong session months ago counts less than a recent one', () => {
+    const recent = estimateCompetencies(collectEvidence([session('pricing', 2, strong)]), NOW);
+    const old = estimateCompetencies(collectEvidence([session('pricing', 180, strong)]), NOW);
+    const pricing = (list) => list.find((e) => e.key === 'pricing');
+
+    assert.ok(Math.abs(pricing(recent).quality - pricing(old).quality) < 1e-9);
+    assert.ok(pricing(old).evidence < pricing(recent).evidence / 10);
+    assert.ok(pricing(old).proficiency < pricing(recent).proficiency / 5);
+  });
+
+  it('progresses L1 → L2 with enough recent evidence and requires an applied outcome for L3', () => {
+    const level = (sessions, applications) =>
+      estimateCompetencies(collectEvidence(sessions, applications), NOW).find((e) => e.key === 'impact');
+
+    assert.equal(level([session('sroi', 1, strong)]).level, 'L1');
+
+    const eight = Array.from({ length: 8 }, (_, i) => session('sroi', i + 1, strong));
+    const l2 = level(eight);
+    assert.equal(l2.level, 'L2');
+    assert.deepEqual(l2.next, { level: 'L3', needs: ['결과까지 기록한 실무 적용 1건'] });
+
+    const applied = {
+      'study-x': { insightId: 'study-x', sessionId: eight[0].id, applied: true, outcome: 'SROI 2.1 보고', usedIn: [], updatedAt: NOW.toISOString() },
+    };
+    const l3 = level(eight, applied);
+    assert.equal(l3.level, 'L3');
+    assert.equal(l3.outcomes, 1);
+    assert.equal(l3.next, null);
+  });
+
+  it('reports weak depth dimensions and overconfident self-ratings as blind spots', () => {
+    const weakRisk = { depthScores: depth({ accuracy: 5, quantification: 5, structure: 5, application: 5, risk: 0 }), gaps: gaps(1, 3), selfRating: 5 };
+    const sessions = [session('financial', 9, weakRisk), session('financial', 10, weakRisk)];
+    const row = buildCumulativeFeedback(collectEvidence(sessions), 'weekly', NOW);
+
+    const spots = row.blind_spots.map((s) => `${s.kind}:${s.key}`);
+    assert.ok(spots.includes('depth:risk'));
+    assert.ok(spots.includes('calibration:financial'));
+    assert.ok(row.strengths.some((s) => s.kind === 'depth' && s.key === 'accuracy'));
+    assert.match(row.level_recommendation, /^L1 /);
+  });
+
+  it('builds rows for the previous completed week and month, or nothing without evidence', () => {
+    const week = feedbackPeriodRange('weekly', NOW);
+    assert.deepEqual([localDate(week.start), localDate(week.end)], ['2026-10-12', '2026-10-18']);
+    const month = feedbackPeriodRange('monthly', NOW);
+    assert.deepEqual([localDate(month.start), localDate(month.end)], ['2026-09-01', '2026-09-30']);
+
+    // only evidence after the period ended → no row for that period
+    const evidence = collectEvidence([session('benchmark', 0, strong)]);
+    assert.equal(buildCumulativeFeedback(evidence, 'weekly', NOW), null);
+    assert.equal(buildCumulativeFeedback([], 'monthly', NOW), null);
+
+    const row = buildCumulativeFeedback(collectEvidence([session('benchmark', 20, strong)]), 'monthly', NOW);
+    assert.equal(row.period_start, '2026-09-01');
+    assert.equal(row.growth_trajectory.length, 6);
+    assert.equal(row.overall_depth_trend.at(-1).date, '2026-09-30');
+  });
+});
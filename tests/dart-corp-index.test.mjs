@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { crc32, deflateRawSync } from 'node:zlib';
+import { createModuleDir, importFresh } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-dart-corp-index-');
+
+// In-memory Redis shared by every dart.ts copy, so a fresh copy stands in for a cold instance
+const redisUrl = modules.stub('redis', `
+export const store = new Map();
+export const state = { failWrites: false };
+export async function getCachedJson(key) { return store.has(key) ? JSON.parse(store.get(key)) : null; }
+export async function setCachedJson(key, value) { store.set(key, JSON.stringify(value)); }
+export async function setJsonChecked(key, value) {
+  if (state.failWrites) return false;
+  store.set(key, JSON.stringify(value));
+  return true;
+}
+`);
+const dartUrl = modules.patch('server/_shared/dart.ts', {
+  './constants': 'server/_shared/constants.ts',
+  './redis': redisUrl,
+});
+const { store, state } = await import(redisUrl);
+
+const CORP_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<result>
+  <list><corp_code>00126380</corp_code><corp_name>삼성전자</corp_name><stock_code>005930</stock_code><modify_date>20260101</modify_date></list>
+  <list><corp_code>01234567</corp_code><corp_name>케어닥</corp_name><stock_code> </stock_code><modify_date>20260101</modify_date></list>
+  <list><corp_code>01234568</corp_code><corp_name>케어링</corp_name><stock_code>123456</stock_code><modify_date>20260101</modify_date></list>
+  <list><corp_code>01234569</corp_code><corp_name>한국케어링서비스</corp_name><stock_code></stock_code><modify_date>20260101</modify_date></list>
+  <list><corp_code></corp_code><corp_name>코드 없음</corp_name><stock_code></stock_code></list>
+</result>`;
+
+/**
+ * A one-entry zip like the corpCode.zip DART serves: the local header defers
+ * the sizes to a data descriptor (flag bit 3), only the central directory has them.
+ */
+function corpCodeZip(xml, { method = 8 } = {}) {
+  const name = Buffer.from('CORPCODE.xml');
+  const raw = Buffer.from(xml);
+  const data = method === 8 ? deflateRawSync(raw) : raw;
+  const crc = crc32(raw);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4);
+  local.writeUInt16LE(0x08, 6);
+  local.writeUInt16LE(method, 8);
+  local.writeUInt16LE(name.length, 26);
+
+  const descriptor = Buffer.alloc(16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(crc, 4);
+  descriptor.writeUInt32LE(data.length, 8);
+  descriptor.writeUInt32LE(raw.length, 12);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(20, 4);
+  central.writeUInt16LE(20, 6);
+  central.writeUInt16LE(0x08, 8);
+  central.writeUInt16LE(method, 10);
+  central.writeUInt32LE(crc, 16);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(raw.length, 24);
+  central.writeUInt16LE(name.length, 28);
+  central.writeUInt32LE(0, 42);
+
+  const centralOffset = local.length + name.length + data.length + descriptor.length;
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(1, 8);
+  eocd.writeUInt16LE(1, 10);
+  eocd.writeUInt32LE(central.length + name.length, 12);
+  eocd.writeUInt32LE(centralOffset, 16);
+
+  const zip = Buffer.concat([local, name, data, descriptor, central, name, eocd]);
+  return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.byteLength);
+}
+
+describe('corpCode.xml parser', () => {
+  it('reads the deflated entry through the central directory', async () => {
+    const { readCorpCodeZip } = await importFresh(dartUrl);
+    assert.deepEqual(await readCorpCodeZip(corpCodeZip(CORP_XML)), [
+      { corpCode: '00126380', name: '삼성전자', stockCode: '005930' },
+      { corpCode: '01234567', name: '케어닥', stockCode: '' },
+      { corpCode: '01234568', name: '케어링', stockCode: '123456' },
+      { corpCode: '01234569', name: '한국케어링서비스', stockCode: '' },
+    ]);
+  });
+
+  it('reads a stored entry and rejects DART error bodies', async () => {
+    const { readCorpCodeZip } = await importFresh(dartUrl);
+    assert.equal((await readCorpCodeZip(corpCodeZip(CORP_XML, { method: 0 }))).length, 4);
+
+    const error = new TextEncoder().encode('<result><status>020</status><message>요청 제한을 초과하였습니다.</message></result>');
+    await assert.rejects(readCorpCodeZip(error.buffer), /DART corpCode error: .*020/);
+  });
+});
+
+describe('DART corp index', () => {
+  const originalFetch = globalThis.fetch;
+  const originalKey = process.env.DART_API_KEY;
+  let downloads = 0;
+
+  beforeEach(() => {
+    store.clear();
+    state.failWrites = false;
+    downloads = 0;
+    process.env.DART_API_KEY = 'test-key';
+    globalThis.fetch = async (url) => {
+      assert.match(String(url), /\/corpCode\.xml\?crtfc_key=test-key$/);
+      downloads++;
+      return new Response(corpCodeZip(CORP_XML));
+    };
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    if (originalKey === undefined) delete process.env.DART_API_KEY;
+    else process.env.DART_API_KEY = originalKey;
+  });
+
+  it('stores the refreshed index in Redis as compact lines', async () => {
+    const { refreshDartCorpIndex } = await importFresh(dartUrl);
+    assert.equal(await refreshDartCorpIndex(), 4);
+    assert.equal(JSON.parse(store.get('dart:corp-index:v1')).split('\n')[1], '01234567\t케어닥\t');
+
+    state.failWrites = true;
+    assert.equal(await refreshDartCorpIndex(), null, 'a failed write is reported');
+    delete process.env.DART_API_KEY;
+    assert.equal(await refreshDartCorpIndex(), null);
+    assert.equal(downloads, 2);
+  });
+
+  it('searches the stored index without downloading the dump', async () => {
+    await (await importFresh(dartUrl)).refreshDartCorpIndex();
+    const { searchDartCorps } = await importFresh(dartUrl);
+
+    const results = await searchDartCorps('케어링');
+    assert.deepEqual(results.map((c) => c.name), ['케어링', '한국케어링서비스'], 'exact match first');
+    assert.deepEqual((await searchDartCorps('005930')).map((c) => c.corpCode), ['00126380']);
+    assert.equal(downloads, 1, 'only the refresh downloaded corpCode.xml');
+  });
+
+  it('builds the index once when it is missing and shares it with other instances', async () => {
+    const first = await importFresh(dartUrl);
+    const [a, b] = await Promise.all([first.searchDartCorps('케어'), first.searchDartCorps('삼성')]);
+    assert.deepEqual([a.length, b.length], [3, 1]);
+    assert.equal(downloads, 1, 'concurrent searches share one download');
+
+    const cold = await importFresh(dartUrl);
+    assert.deepEqual((await cold.searchDartCorps('케어닥')).map((c) => c.corpCode), ['01234567']);
+    assert.equal(downloads, 1, 'a cold instance reads the index from Redis');
+  });
+});
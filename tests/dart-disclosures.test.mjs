@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { importTs } from './_helpers.mjs';
+
+const {
+  DART_SOURCE_NAME,
+  classifyDisclosure,
+  disclosureScoreItems,
+  isNotableDisclosure,
+} = await importTs('src/services/dartApi.ts');
+
+// Report names as DART lists them (list.json report_nm)
+const CASES = [
+  ['주요사항보고서(유상증자결정)', 'capital_raise'],
+  ['주요사항보고서(전환사채권발행결정)', 'capital_raise'],
+  ['증권신고서(지분증권)', 'capital_raise'],
+  ['주식매수선택권부여에관한신고', 'capital_raise'],
+  ['주요사항보고서(회사합병결정)', 'm_and_a'],
+  ['타법인주식및출자증권취득결정', 'm_and_a'],
+  ['단일판매ㆍ공급계약체결', 'major_contract'],
+  ['기술도입ㆍ이전ㆍ제휴계약체결', 'major_contract'],
+  ['최대주주변경', 'executive_change'],
+  ['대표이사변경', 'executive_change'],
+  ['사외이사의선임ㆍ해임또는중도퇴임에관한신고', 'executive_change'],
+  ['주주총회소집결의(감사위원선임)', 'executive_change'],
+  ['사업보고서 (2025.12)', 'earnings'],
+  ['분기보고서 (2026.09)', 'earnings'],
+  ['연결재무제표기준영업(잠정)실적(공정공시)', 'earnings'],
+  ['감사보고서제출', 'earnings'],
+  ['매출액또는손익구조30%(대규모법인은15%)이상변동', 'earnings'],
+  ['임원ㆍ주요주주특정증권등소유상황보고서', 'other'],
+  ['주식등의대량보유상황보고서(일반)', 'other'],
+  ['기업설명회(IR)개최(안내공시)', 'other'],
+];
+
+describe('classifyDisclosure', () => {
+  for (const [reportName, type] of CASES) {
+    it(`${reportName} → ${type}`, () => {
+      assert.equal(classifyDisclosure(reportName), type);
+    });
+  }
+
+  it('ignores correction prefixes and spacing', () => {
+    assert.equal(classifyDisclosure('[기재정정]주요사항보고서(유상증자결정)'), 'capital_raise');
+    assert.equal(classifyDisclosure('[첨부정정] 단일판매ㆍ공급계약 체결'), 'major_contract');
+    assert.equal(classifyDisclosure('[기재정정]임원ㆍ주요주주특정증권등소유상황보고서'), 'other');
+  });
+
+  it('tells an audit report from an audit committee appointment', () => {
+    assert.equal(classifyDisclosure('감사보고서제출'), 'earnings');
+    assert.equal(classifyDisclosure('주주총회소집결의(감사위원선임)'), 'executive_change');
+    assert.equal(classifyDisclosure('감사의선임'), 'executive_change');
+  });
+
+  it('keeps ownership filings by officers out of executive changes', () => {
+    // 소유상황보고서 mentions 임원 but is a routine holding report
+    assert.equal(classifyDisclosure('임원ㆍ주요주주특정증권등소유상황보고서'), 'other');
+    assert.equal(isNotableDisclosure('other'), false);
+    assert.equal(isNotableDisclosure('executive_change'), true);
+  });
+});
+
+describe('disclosureScoreItems', () => {
+  const disclosure = (receiptNo, reportName, filedAt = '2026-10-16') => ({
+    receiptNo,
+    corpCode: '00830628',
+    corpName: '네오펙트',
+    reportName,
+    filedAt,
+    filer: '네오펙트',
+    filingType: classifyDisclosure(reportName),
+    link: `https://dart.fss.or.kr/dsaf001/main.do?rcpNo=${receiptNo}`,
+  });
+
+  it('drops other filings and scores the rest into the competitor track', () => {
+    const items = disclosureScoreItems([
+      disclosure('20261016000001', '주요사항보고서(유상증자결정)'),
+      disclosure('20261016000002', '임원ㆍ주요주주특정증권등소유상황보고서'),
+      disclosure('20261016000003', '감사보고서제출', ''),
+      disclosure('20261016000004', '기업설명회(IR)개최(안내공시)'),
+    ]);
+
+    assert.deepEqual(items.map((i) => i.id), ['dart-20261016000001', 'dart-20261016000003']);
+    assert.deepEqual(items[0], {
+      id: 'dart-20261016000001',
+      title: '네오펙트 주요사항보고서(유상증자결정)',
+      link: 'https://dart.fss.or.kr/dsaf001/main.do?rcpNo=20261016000001',
+      source: DART_SOURCE_NAME,
+      pubDate: '2026-10-16T00:00:00+09:00',
+      timeAgo: '',
+      description: '자금조달',
+      track: 'competitor',
+      relevance_score: 85,
+    });
+    assert.equal(items[1].pubDate, '', 'a missing filing date stays empty');
+    assert.equal(items[1].relevance_score, 65);
+  });
+});
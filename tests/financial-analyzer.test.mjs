@@ -0,0 +1,183 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir, importTs } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-dart-');
+
+const close = (actual, expected, msg) => assert.ok(Math.abs(actual - expected) < 1e-6, `${msg}: ${actual} != ${expected}`);
+
+describe('financial statement ingestion', () => {
+  it('reads Korean amount notations, percentages and negatives', async () => {
+    const { parseAmount } = await importTs('src/services/financials/statements.ts');
+    assert.equal(parseAmount('82억'), 8_200_000_000);
+    assert.equal(parseAmount('-3.1억'), -310_000_000);
+    assert.equal(parseAmount('1조 2,000억'), 1_200_000_000_000);
+    assert.equal(parseAmount('3만원'), 30_000);
+    assert.equal(parseAmount('42곳'), 42);
+    assert.equal(parseAmount('△1,500'), -1500);
+    assert.equal(parseAmount('(2,000)'), -2000);
+    close(parseAmount('61%'), 0.61, 'percent');
+    assert.equal(parseAmount('-'), null);
+    assert.equal(parseAmount('n/a'), null);
+  });
+
+  it('turns synthetic_companies.financials into sorted periods and converts rates', async () => {
+    const { parseSyntheticFinancials } = await importTs('src/services/financials/statements.ts');
+    const periods = parseSyntheticFinancials(JSON.stringify({
+      2025: { 매출액: '18억', '고객 기관': '42곳', '카메라당 월 구독료': '3만원', 매출총이익률: '61%', 'R&D 비중': '10%' },
+      2024: { 매출액: '12억', '고객 기관': '30곳' },
+    }));
+    assert.deepEqual(periods.map((p) => p.label), ['2024', '2025']);
+    assert.equal(periods[1].customers, 42);
+    close(periods[1].grossProfit, 1_800_000_000 * 0.61, 'gross profit from margin');
+    close(periods[1].rnd, 180_000_000, 'rnd from ratio');
+    assert.deepEqual(parseSyntheticFinancials('not json'), []);
+  });
+
+  it('parses both CSV layouts and reports unknown accounts', async () => {
+    const { parseStatementsCsv } = await importTs('src/services/financials/statements.ts');
+    const byAccount = parseStatementsCsv('계정,2024,2025\n매출액,"8,200,000,000","9,700,000,000"\n매출원가,50억,55억\n기타수익,1억,2억');
+    assert.deepEqual(byAccount.periods.map((p) => p.label), ['2024', '2025']);
+    assert.equal(byAccount.periods[1].revenue, 9_700_000_000);
+    assert.equal(byAccount.periods[0].grossProfit, 8_200_000_000 - 5_000_000_000);
+    assert.deepEqual(byAccount.unknownAccounts, ['기타수익']);
+
+    const byPeriod = parseStatementsCsv('연도,Revenue,Operating Income,Cash\n2025Q2,30억,-2억,40억\n2025Q1,25억,-3억,45억');
+    assert.deepEqual(byPeriod.periods.map((p) => p.label), ['2025Q1', '2025Q2']);
+    assert.equal(byPeriod.periods[1].operatingIncome, -200_000_000);
+    assert.equal(byPeriod.periods[1].cash, 4_000_000_000);
+  });
+});
+
+describe('financial ratios', () => {
+  it('computes growth, margins, burn and runway per period', async () => {
+    const { emptyPeriod } = await importTs('src/services/financials/statements.ts');
+    const { calculateRatios } = await importTs('src/services/financials/engine.ts');
+    const ratios = calculateRatios([
+      { ...emptyPeriod('2024'), revenue: 100, operatingIncome: -24, netIncome: -30, cash: 60, currentAssets: 80, currentLiabilities: 40, totalLiabilities: 50, totalEquity: 100 },
+      { ...emptyPeriod('2025'), revenue: 150, grossProfit: 90, operatingIncome: 15 },
+      { ...emptyPeriod('2026Q1'), revenue: 45, operatingIncome: -6, currentAssets: 30, currentLiabilities: 10 },
+    ]);
+
+    assert.equal(ratios[0].revenueGrowth, null);
+    close(ratios[1].revenueGrowth, 0.5, 'growth');
+    close(ratios[0].operatingMargin, -0.24, 'operating margin');
+    close(ratios[1].grossMargin, 0.6, 'gross margin');
+    close(ratios[0].monthlyBurn, 2, 'annual burn per month');
+    close(ratios[0].runwayMonths, 30, 'runway from cash');
+    close(ratios[0].currentRatio, 2, 'current ratio');
+    close(ratios[0].debtToEquity, 0.5, 'debt to equity');
+    assert.equal(ratios[1].monthlyBurn, 0);
+    assert.equal(ratios[1].runwayMonths, null);
+    close(ratios[2].monthlyBurn, 2, 'quarterly burn per month');
+    close(ratios[2].runwayMonths, 10, 'runway from working capital');
+  });
+
+  it('derives CAC and LTV proxies from marketing spend and customer counts', async () => {
+    const { emptyPeriod } = await importTs('src/services/financials/statements.ts');
+    const { calculateRatios, LTV_LIFETIME_YEARS } = await importTs('src/services/financials/engine.ts');
+    const ratios = calculateRatios([
+      { ...emptyPeriod('2024'), revenue: 1_000, customers: 10 },
+      { ...emptyPeriod('2025'), revenue: 2_000, grossProfit: 1_200, customers: 20, salesMarketing: 500 },
+    ]);
+    assert.equal(ratios[0].cacProxy, null);
+    close(ratios[1].revenuePerCustomer, 100, 'ARPA');
+    close(ratios[1].cacProxy, 50, 'CAC');
+    close(ratios[1].ltvProxy, 100 * 0.6 * LTV_LIFETIME_YEARS, 'LTV');
+    close(ratios[1].ltvToCac, (100 * 0.6 * LTV_LIFETIME_YEARS) / 50, 'LTV/CAC');
+  });
+
+  it('asks level-specific questions about the metrics that exist', async () => {
+    const { parseSyntheticFinancials } = await importTs('src/services/financials/statements.ts');
+    const { calculateRatios, generateAnalysisQuestions } = await importTs('src/services/financials/engine.ts');
+    const periods = parseSyntheticFinancials(JSON.stringify({
+      2024: { 매출액: '82억', 영업이익: '-3.1억', 'R&D비': '4.0억' },
+      2025: { 매출액: '97억', 영업이익: '1.2억', 'R&D비': '7.5억' },
+    }));
+    const statements = { companyName: '우리아이들', source: 'synthetic', sourceDetail: '합성 기업', periods };
+    const ratios = calculateRatios(periods);
+
+    for (const level of ['L1', 'L2', 'L3']) {
+      const questions = generateAnalysisQuestions(statements, ratios, level);
+      assert.ok(questions.length >= 1 && questions.length <= 3, level);
+      assert.ok(questions.every((q) => q.level === level && q.prompt.length > 0));
+    }
+    const l1 = generateAnalysisQuestions(statements, ratios, 'L1');
+    assert.equal(l1[0].metric, 'revenueGrowth');
+    assert.match(l1[0].prompt, /18\.3%/);
+    assert.ok(!generateAnalysisQuestions(statements, ratios, 'L2').some((q) => q.metric === 'ltvToCac'));
+  });
+});
+
+describe('getCompanyFinancials RPC', () => {
+  const originalFetch = globalThis.fetch;
+  const originalKey = process.env.DART_API_KEY;
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    if (originalKey === undefined) delete process.env.DART_API_KEY;
+    else process.env.DART_API_KEY = originalKey;
+  });
+
+  // Fresh copies of both modules per test, so dart.ts module state does not leak between tests
+  async function importHandler() {
+    const dartUrl = modules.patch('server/_shared/dart.ts', {
+      './constants': 'server/_shared/constants.ts',
+      './redis': 'server/_shared/redis.ts',
+    });
+    return modules.import('server/worldmonitor/care/v1/get-company-financials.ts', {
+      '../../../_shared/dart': `${dartUrl}?t=${Date.now()}-${Math.random().toString(16).slice(2)}`,
+    });
+  }
+
+  const row = (fs_div, account_nm, thstrm, frmtrm, bfefrmtrm) => ({
+    fs_div, account_nm, thstrm_amount: thstrm, frmtrm_amount: frmtrm, bfefrmtrm_amount: bfefrmtrm,
+  });
+
+  it('reports an unconfigured server without calling DART', async () => {
+    delete process.env.DART_API_KEY;
+    globalThis.fetch = async () => assert.fail('fetch must not be called');
+    const { getCompanyFinancials } = await importHandler();
+    const resp = await getCompanyFinancials({}, { corpCode: '00830628', year: 0 });
+    assert.equal(resp.configured, false);
+    assert.deepEqual(resp.periods, []);
+  });
+
+  it('falls back to the prior year and prefers consolidated rows', async () => {
+    process.env.DART_API_KEY = 'test-key';
+    const years = [];
+    globalThis.fetch = async (url) => {
+      const year = Number(new URL(url).searchParams.get('bsns_year'));
+      years.push(year);
+      if (years.length === 1) return new Response(JSON.stringify({ status: '013', message: '조회된 데이타가 없습니다.' }));
+      return new Response(JSON.stringify({
+        status: '000',
+        list: [
+          row('CFS', '매출액', '9,700,000,000', '8,200,000,000', '7,000,000,000'),
+          row('CFS', '영업이익(손실)', '120,000,000', '-310,000,000', '-'),
+          row('CFS', '자산총계', '20,000,000,000', '18,000,000,000', ''),
+          row('OFS', '매출액', '1', '1', '1'),
+        ],
+      }));
+    };
+    const { getCompanyFinancials } = await importHandler();
+    const resp = await getCompanyFinancials({}, { corpCode: '00830628', year: 0 });
+
+    assert.equal(years.length, 2);
+    assert.equal(years[1], years[0] - 1);
+    assert.equal(resp.year, years[1]);
+    assert.equal(resp.statementKind, 'CFS');
+    assert.deepEqual(resp.periods.map((p) => p.year), [years[1] - 2, years[1] - 1, years[1]]);
+    assert.equal(resp.periods[2].revenue, 9_700_000_000);
+    assert.equal(resp.periods[1].operatingIncome, -310_000_000);
+    assert.equal(resp.periods[0].operatingIncome, 0);
+  });
+
+  it('surfaces DART errors', async () => {
+    process.env.DART_API_KEY = 'test-key';
+    globalThis.fetch = async () => new Response(JSON.stringify({ status: '020', message: '요청 제한을 초과하였습니다.' }));
+    const { getCompanyFinancials } = await importHandler();
+    const resp = await getCompanyFinancials({}, { corpCode: '00830628', year: 2024 });
+    assert.match(resp.error, /DART 020/);
+    assert.equal(resp.configured, true);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-insight-applications-');
+
+const {
+  applicationColumns,
+  applicationRateByCompetency,
+  awaitingOutcome,
+  emptyApplication,
+  mostCitedInsights,
+} = await modules.import('src/services/study/applications.ts', {
+  './competencies': 'src/services/study/competencies.ts',
+});
+
+const item = (id, sessionType) => ({
+  id,
+  type: sessionType ? 'study_insight' : 'manual_note',
+  title: id,
+  content: `${id} content`,
+  tags: [],
+  sourceSession: sessionType ? { id: id.replace('study-', ''), type: sessionType } : undefined,
+  createdAt: '2026-10-01T00:00:00.000Z',
+});
+
+const use = (document_type, document_name, used_at) => ({ document_type, document_name, used_at });
+
+const ITEMS = [
+  item('study-f1', 'financial'),
+  item('study-f2', 'financial'),
+  item('study-p1', 'pricing'),
+  item('study-c1', 'custom'),
+  item('note-1'),
+];
+
+const APPLICATIONS = {
+  'study-f1': {
+    ...emptyApplication('study-f1', 'f1'),
+    applied: true,
+    appliedDate: '2026-10-05',
+    outcome: '단가 8% 인상',
+    usedIn: [use('IR', '시리즈A IR', '2026-10-06T00:00:00.000Z'), use('proposal', '서울시 제안서', '2026-10-07T00:00:00.000Z')],
+  },
+  'study-p1': {
+    ...emptyApplication('study-p1', 'p1'),
+    applied: true,
+    appliedDate: '2026-10-02',
+    usedIn: [use('IR', '시리즈A IR', '2026-10-08T00:00:00.000Z'), use('paper', '학회 발표', '2026-10-09T00:00:00.000Z')],
+  },
+  'note-1': {
+    ...emptyApplication('note-1'),
+    applied: true,
+    appliedDate: '2026-10-01',
+    usedIn: [use('IR', '시리즈A IR', '2026-10-10T00:00:00.000Z'), use('IR', '브릿지 IR', '2026-10-11T00:00:00.000Z')],
+  },
+};
+
+describe('insight applications', () => {
+  it('computes the application rate per competency with an "other" bucket for notes', () => {
+    const rates = applicationRateByCompetency(ITEMS, APPLICATIONS);
+    const byKey = Object.fromEntries(rates.map((r) => [r.key, r]));
+
+    assert.deepEqual(rates.map((r) => r.key), ['financial', 'pricing', 'impact', 'policy', 'competition', 'other']);
+    assert.deepEqual(
+      { insights: byKey.financial.insights, applied: byKey.financial.applied, withOutcome: byKey.financial.withOutcome, rate: byKey.financial.rate },
+      { insights: 2, applied: 1, withOutcome: 1, rate: 0.5 },
+    );
+    assert.equal(byKey.pricing.rate, 1);
+    assert.equal(byKey.policy.rate, 0);
+    assert.equal(byKey.impact.insights, 0);
+    assert.equal(byKey.other.applied, 1);
+
+    assert.ok(!applicationRateByCompetency(ITEMS.slice(0, 4), {}).some((r) => r.key === 'other'));
+  });
+
+  it('ranks insights by IR/proposal citations and ignores other document types by default', () => {
+    const cited = mostCitedInsights(ITEMS, APPLICATIONS);
+    assert.deepEqual(cited.map((c) => [c.item.id, c.citations]), [['note-1', 2], ['study-f1', 2], ['study-p1', 1]]);
+    assert.deepEqual(cited[0].byType, { IR: 2 });
+    assert.deepEqual(cited[0].documents, ['시리즈A IR', '브릿지 IR']);
+
+    const papers = mostCitedInsights(ITEMS, APPLICATIONS, { types: ['paper'] });
+    assert.deepEqual(papers.map((c) => c.item.id), ['study-p1']);
+  });
+
+  it('lists applied insights still waiting for an outcome, oldest first', () => {
+    assert.deepEqual(awaitingOutcome(ITEMS, APPLICATIONS).map((e) => e.item.id), ['note-1', 'study-p1']);
+  });
+
+  it('maps an application to the insights applied_* and used_in columns', () => {
+    assert.deepEqual(applicationColumns(APPLICATIONS['study-p1']), {
+      applied_in_practice: true,
+      applied_description: null,
+      applied_date: '2026-10-02',
+      applied_outcome: null,
+      used_in: APPLICATIONS['study-p1'].usedIn,
+    });
+  });
+});
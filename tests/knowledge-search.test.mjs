@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(__dirname, '..');
+
+const {
+  tokenize,
+  buildSearchIndex,
+  lexicalScores,
+  rankHits,
+  suggestRelated,
+  buildLinkGraph,
+  graphAround,
+  cosineSimilarity,
+} = await import(pathToFileURL(resolve(root, 'src/services/knowledge/search.ts')).href);
+
+const item = (id, title, content, extra = {}) => ({
+  id,
+  type: 'manual_note',
+  title,
+  content,
+  tags: [],
+  createdAt: '2026-10-01T00:00:00.000Z',
+  ...extra,
+});
+
+const ITEMS = [
+  item('visit', '방문요양서비스 단가 분석', '장기요양보험 수가가 올라 방문요양 센터의 마진이 개선됐다.', { tags: ['수가'] }),
+  item('daycare', '주간보호센터 입지', '주간보호는 도심보다 신도시에서 이용률이 높다.'),
+  item('sroi', 'SROI impact memo', 'Social return on investment for caregiver training programs.'),
+  item('pitch', '투자 피치 연습', '돌봄 플랫폼의 TAM을 설명하는 연습을 했다.'),
+];
+
+describe('knowledge search', () => {
+  it('tokenizes Korean with particles stripped and syllable bigrams for compounds', () => {
+    const tokens = tokenize('방문요양서비스를 분석했다');
+    assert.ok(tokens.includes('방문요양서비스'));
+    assert.ok(tokens.includes('요양'));
+    assert.ok(tokens.includes('서비'));
+    assert.ok(!tokens.some((t) => t.endsWith('를')));
+    assert.deepEqual(tokenize('센터의 마진'), ['센터', '마진']);
+    assert.deepEqual(tokenize('The SROI of training'), ['sroi', 'training']);
+  });
+
+  it('finds a compound noun from one of its parts and ranks title hits first', () => {
+    const index = buildSearchIndex(ITEMS);
+    const scores = lexicalScores(index, '요양');
+    assert.deepEqual([...scores.keys()], ['visit']);
+    assert.equal(scores.get('visit'), 1);
+
+    const hits = rankHits(ITEMS, lexicalScores(index, '센터'), null);
+    assert.deepEqual(hits.map((h) => h.item.id), ['daycare', 'visit']);
+  });
+
+  it('blends semantic similarity and admits semantic-only hits above the threshold', () => {
+    const index = buildSearchIndex(ITEMS);
+    const lexical = lexicalScores(index, 'social impact');
+    const semantic = new Map([['sroi', 0.8], ['pitch', 0.6], ['daycare', 0.2]]);
+
+    const hits = rankHits(ITEMS, lexical, semantic);
+    assert.deepEqual(hits.map((h) => h.item.id), ['sroi', 'pitch']);
+    assert.ok(hits[0].score > hits[1].score);
+    assert.equal(hits[1].lexical, 0);
+  });
+
+  it('suggests related insights for a draft note, excluding already linked ones', () => {
+    const index = buildSearchIndex(ITEMS);
+    const draft = { title: '요양 수가 인상 영향', content: '방문요양 센터 수익성', tags: ['수가'] };
+
+    assert.equal(suggestRelated(index, draft)[0].item.id, 'visit');
+    assert.ok(!suggestRelated(index, draft, { exclude: ['visit'] }).some((h) => h.item.id === 'visit'));
+    assert.deepEqual(suggestRelated(index, { title: '', content: '   ', tags: [] }), []);
+  });
+
+  it('builds backlinks, ignoring links to missing items and self links', () => {
+    const items = [
+      item('a', 'A', '', { linkedIds: ['b', 'c', 'gone', 'a'] }),
+      item('b', 'B', '', { linkedIds: ['c'] }),
+      item('c', 'C', ''),
+      item('d', 'D', '', { linkedIds: ['c'] }),
+      item('e', 'E', ''),
+    ];
+    const graph = buildLinkGraph(items);
+    assert.deepEqual(graph.outgoing.get('a'), ['b', 'c']);
+    assert.deepEqual(graph.backlinks.get('c'), ['a', 'b', 'd']);
+    assert.equal(graph.backlinks.get('e'), undefined);
+
+    const view = graphAround(graph, 'a');
+    assert.deepEqual(view.first, ['b', 'c']);
+    assert.deepEqual(view.second, ['d']);
+    assert.deepEqual(view.edges.map((e) => e.join('>')).sort(), ['a>b', 'a>c', 'b>c', 'd>c']);
+  });
+
+  it('computes cosine similarity', () => {
+    assert.equal(cosineSimilarity([1, 0], [1, 0]), 1);
+    assert.equal(cosineSimilarity([1, 0], [0, 1]), 0);
+    assert.equal(cosineSimilarity([0, 0], [1, 1]), 0);
+  });
+});
@@ -0,0 +1,209 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { createNotificationStubServer } from '../scripts/notification-stub-server.mjs';
+import { createModuleDir, importTs } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-notification-hub-');
+
+const importTemplates = () => modules.import('src/services/notifications/templates.ts', {
+  '../telegramTemplates': 'src/services/telegramTemplates.ts',
+});
+
+const LISTING = {
+  id: 'R26BK00000101',
+  title: '발달장애인 행동분석 AI 돌봄 플랫폼 <구축> 용역',
+  agency: '보건복지부',
+  budget: 320000000,
+  deadline: '2026-11-20',
+  bid_type: 'service',
+  source_url: 'https://www.g2b.go.kr/link/R26BK00000101',
+  fitness_score: 'high',
+  fitness_reason: 'AI 돌봄',
+  matched_keywords: ['AI 돌봄', '발달장애'],
+  fetched_at: '2026-10-19T00:00:00.000Z',
+};
+
+const PROCUREMENT_EVENT = { type: 'procurement', payload: LISTING };
+
+function channel(kind, send, events = ['procurement']) {
+  return { kind, name: kind, events, send };
+}
+
+describe('notification hub', () => {
+  it('retries a failing channel with exponential backoff and logs the final outcome', async () => {
+    const { createNotificationHub } = await importTs('src/services/notifications/hub.ts');
+    const sleeps = [];
+    const logged = [];
+    let calls = 0;
+
+    const hub = createNotificationHub({
+      channels: [channel('slack', async () => {
+        calls += 1;
+        if (calls < 3) throw new Error(`boom ${calls}`);
+      })],
+      retry: { attempts: 4, baseDelayMs: 100, maxDelayMs: 1000 },
+      sleep: async (ms) => { sleeps.push(ms); },
+      onDelivery: (entry) => { logged.push(entry); },
+    });
+
+    const [entry] = await hub.dispatch(PROCUREMENT_EVENT);
+    assert.equal(entry.status, 'sent');
+    assert.equal(entry.attempts, 3);
+    assert.equal(entry.error, '');
+    assert.deepEqual(sleeps, [100, 200]);
+    assert.deepEqual(logged, [entry]);
+  });
+
+  it('gives up after the configured attempts without blocking other channels', async () => {
+    const { assertDelivered, createNotificationHub } = await importTs('src/services/notifications/hub.ts');
+    const sent = [];
+    const hub = createNotificationHub({
+      channels: [
+        channel('slack', async () => { throw new Error('slack down'); }),
+        channel('webhook', async (event) => { sent.push(event.type); }),
+        channel('email', async () => { throw new Error('not subscribed'); }, ['opportunity']),
+      ],
+      retry: { attempts: 2, baseDelayMs: 1, maxDelayMs: 1 },
+      sleep: async () => {},
+    });
+
+    const entries = await hub.dispatch(PROCUREMENT_EVENT);
+    assert.deepEqual(entries.map((e) => [e.channel, e.status, e.attempts]), [['slack', 'failed', 2], ['webhook', 'sent', 1]]);
+    assert.equal(entries[0].error, 'slack down');
+    assert.deepEqual(sent, ['procurement']);
+    assert.doesNotThrow(() => assertDelivered(entries));
+    assert.throws(() => assertDelivered(entries.slice(0, 1)), /slack: slack down/);
+    assert.deepEqual(hub.channelsFor('procurement', { exclude: ['slack'] }).map((c) => c.name), ['webhook']);
+  });
+});
+
+describe('notification templates', () => {
+  it('renders one payload for every channel', async () => {
+    const { renderDesktop, renderEmail, renderSlack, renderTelegram, renderWebhook } = await importTemplates();
+
+    assert.match(renderTelegram(PROCUREMENT_EVENT), /\[조달 공고\] 🔴 HIGH/);
+
+    const slack = renderSlack(PROCUREMENT_EVENT);
+    assert.match(slack.text, /조달 공고 \(HIGH\)/);
+    assert.match(JSON.stringify(slack.blocks), /<https:\/\/www\.g2b\.go\.kr\/link\/R26BK00000101\|발달장애인 행동분석 AI 돌봄 플랫폼 &lt;구축&gt; 용역>/);
+    assert.match(JSON.stringify(slack.blocks), /3\.2억원/);
+
+    const email = renderEmail(PROCUREMENT_EVENT);
+    assert.match(email.subject, /^\[CareRadar\] 🏛️ 조달 공고 \(HIGH\)$/);
+    assert.match(email.html, /&lt;구축&gt;/);
+    assert.match(email.text, /https:\/\/www\.g2b\.go\.kr\/link\/R26BK00000101/);
+
+    const desktop = renderDesktop(PROCUREMENT_EVENT);
+    assert.equal(desktop.body.split('\n').length, 3);
+
+    const webhook = renderWebhook(PROCUREMENT_EVENT, new Date('2026-10-19T00:00:00Z'));
+    assert.equal(webhook.event, 'procurement');
+    assert.equal(webhook.sentAt, '2026-10-19T00:00:00.000Z');
+    assert.deepEqual(webhook.payload, LISTING);
+  });
+});
+
+describe('notification channels against the local stub server', { concurrency: 1 }, () => {
+  let stub;
+
+  before(async () => {
+    stub = await createNotificationStubServer({ failures: { slack: 1, smtp: 1 } });
+  });
+
+  after(async () => {
+    await stub.close();
+  });
+
+  it('posts Slack blocks and recovers from a failed first attempt through the hub', async () => {
+    const { createNotificationHub } = await importTs('src/services/notifications/hub.ts');
+    const { postSlackMessage } = await importTs('server/notifications/channels/slack.ts');
+    const { renderSlack } = await importTemplates();
+
+    const hub = createNotificationHub({
+      channels: [channel('slack', (event) => postSlackMessage(`${stub.origin}/slack/T000/B000`, renderSlack(event)))],
+      sleep: async () => {},
+    });
+    const [entry] = await hub.dispatch(PROCUREMENT_EVENT);
+
+    assert.equal(entry.status, 'sent');
+    assert.equal(entry.attempts, 2);
+    const received = stub.requests.filter((r) => r.channel === 'slack');
+    assert.equal(received.length, 1);
+    assert.equal(received[0].body.blocks[0].type, 'section');
+  });
+
+  it('signs generic webhook bodies with HMAC-SHA256', async () => {
+    const { postWebhook } = await importTs('server/notifications/channels/webhook.ts');
+    const { renderWebhook } = await importTemplates();
+
+    await postWebhook(`${stub.origin}/webhook`, renderWebhook(PROCUREMENT_EVENT), 'stub-secret');
+
+    const [received] = stub.requests.filter((r) => r.channel === 'webhook');
+    assert.equal(received.headers['x-careradar-event'], 'procurement');
+    const expected = `sha256=${createHmac('sha256', 'stub-secret').update(JSON.stringify(received.body)).digest('hex')}`;
+    assert.equal(received.headers['x-careradar-signature'], expected);
+    assert.equal(received.body.payload.id, LISTING.id);
+  });
+
+  it('sends Telegram messages to the configured API base', async () => {
+    const restore = { base: process.env.TELEGRAM_API_BASE, token: process.env.TELEGRAM_BOT_TOKEN };
+    process.env.TELEGRAM_API_BASE = stub.origin;
+    process.env.TELEGRAM_BOT_TOKEN = 'stub-token';
+    try {
+      const { sendTelegramMessage } = await importTs('server/_shared/telegram.ts');
+      await sendTelegramMessage('<b>hello</b>', { chatId: '42' });
+    } finally {
+      for (const [key, value] of [['TELEGRAM_API_BASE', restore.base], ['TELEGRAM_BOT_TOKEN', restore.token]]) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    }
+
+    const [received] = stub.requests.filter((r) => r.channel === 'telegram');
+    assert.equal(received.path, '/botstub-token/sendMessage');
+    assert.deepEqual([received.body.chat_id, received.body.parse_mode], ['42', 'HTML']);
+  });
+
+  it('delivers SMTP mail with an encoded subject after a temporary rejection', async () => {
+    const { sendSmtpMail } = await importTs('server/notifications/channels/smtp.ts');
+    const { renderEmail } = await importTemplates();
+    const config = {
+      host: '127.0.0.1',
+      port: stub.smtpPort,
+      secure: false,
+      user: '',
+      pass: '',
+      from: 'CareRadar 알림 <bot@careradar.local>',
+      to: ['team@careradar.local', 'ops@careradar.local'],
+      timeoutMs: 2000,
+    };
+    const message = renderEmail(PROCUREMENT_EVENT);
+
+    await assert.rejects(sendSmtpMail(config, message), /SMTP MAIL FROM rejected: 451/);
+    await sendSmtpMail(config, message);
+
+    const [mail] = stub.requests.filter((r) => r.channel === 'smtp');
+    assert.equal(mail.from, 'bot@careradar.local');
+    assert.deepEqual(mail.to, ['team@careradar.local', 'ops@careradar.local']);
+    const subject = mail.data.match(/^Subject: ((?:.*\r\n )*.*)$/m)[1];
+    const decoded = [...subject.matchAll(/=\?UTF-8\?B\?([^?]+)\?=/g)].map((m) => Buffer.from(m[1], 'base64').toString('utf8')).join('');
+    assert.equal(decoded, message.subject);
+    assert.match(mail.data, /Content-Type: multipart\/alternative/);
+  });
+
+  it('refuses to send SMTP credentials without TLS', async () => {
+    const authStub = await createNotificationStubServer({ smtpAuth: true });
+    try {
+      const { sendSmtpMail } = await importTs('server/notifications/channels/smtp.ts');
+      const config = {
+        host: '127.0.0.1', port: authStub.smtpPort, secure: false, user: 'bot', pass: 'secret',
+        from: 'bot@careradar.local', to: ['team@careradar.local'], timeoutMs: 2000,
+      };
+      await assert.rejects(sendSmtpMail(config, { subject: 's', text: 't', html: 'h' }), /refusing to send credentials/);
+      assert.equal(authStub.requests.length, 0);
+    } finally {
+      await authStub.close();
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir, importTs, readSrc } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-opportunity-score-');
+
+const calculatorUrl = modules.patch('src/services/scoreCalculator.ts', {
+  '../config/sourceTiers': 'src/config/sourceTiers.ts',
+});
+const { DEFAULT_SCORING_PROFILE, calculateOpportunityScore, combineTrackScores } = await import(calculatorUrl);
+const { runBacktest } = await import(modules.patch('src/services/scoreBacktest.ts', { './scoreCalculator': calculatorUrl }));
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2026-10-19T09:00:00.000Z');
+
+const profile = (overrides = {}) => ({ ...DEFAULT_SCORING_PROFILE, id: 'test', name: 'test', ...overrides });
+
+const item = (id, overrides = {}) => ({
+  id,
+  title: `돌봄 정책 ${id}`,
+  link: '',
+  source: 'unknown',
+  pubDate: new Date(NOW).toISOString(),
+  timeAgo: '',
+  description: '',
+  track: 'policy',
+  relevance_score: 50,
+  ...overrides,
+});
+
+const items = (count, overrides) => Array.from({ length: count }, (_, i) => item(`i${i}`, overrides));
+
+describe('combineTrackScores', () => {
+  it('weights the track scores and applies the profile thresholds', () => {
+    const base = combineTrackScores(80, 60, 50);
+    assert.deepEqual(base, { total: 65, s1: 80, s2: 60, s3: 50, shouldAlert: false, isHighPriority: false });
+
+    const policyHeavy = combineTrackScores(80, 60, 50, profile({ weights: { policy: 0.6, investment: 0.2, competitor: 0.2 }, alertThreshold: 65 }));
+    assert.equal(policyHeavy.total, 70);
+    assert.equal(policyHeavy.shouldAlert, true);
+    assert.equal(policyHeavy.isHighPriority, false);
+
+    assert.equal(combineTrackScores(100, 100, 100, profile({ weights: { policy: 1, investment: 1, competitor: 1 } })).total, 100, 'clamped');
+  });
+});
+
+describe('calculateOpportunityScore', () => {
+  it('matches the PRD formula under the default profile', () => {
+    // 평균 관련도 50 × 0.6 + 건수 포화도 (2/5) × 40
+    assert.equal(calculateOpportunityScore(items(2), undefined, NOW).s1, 46);
+    const result = calculateOpportunityScore([...items(5), item('inv', { track: 'investment', relevance_score: 100 })], undefined, NOW);
+    assert.deepEqual([result.s1, result.s2, result.s3], [70, 68, 0]);
+    assert.equal(result.total, Math.round(70 * 0.4 + 68 * 0.3));
+  });
+
+  it('saturates the count factor at countSaturation', () => {
+    assert.equal(calculateOpportunityScore(items(2), profile({ countSaturation: 2 }), NOW).s1, 70);
+    assert.equal(calculateOpportunityScore(items(8), profile({ countSaturation: 2 }), NOW).s1, 70, 'more items add nothing');
+  });
+
+  it('discounts older items by the recency half-life', () => {
+    const mixed = [item('fresh', { relevance_score: 100 }), item('day-old', { relevance_score: 0, pubDate: new Date(NOW - 24 * HOUR).toISOString() })];
+    assert.equal(calculateOpportunityScore(mixed, undefined, NOW).s1, 46, 'no decay: plain average and count');
+    // weights 1 and 0.5 — relevance 100/1.5 × 0.6 + (1.5/5) × 40
+    assert.equal(calculateOpportunityScore(mixed, profile({ recencyHalfLifeHours: 24 }), NOW).s1, 52);
+  });
+
+  it('adds the tier bonus for the share of Tier 1 sources, by source name', () => {
+    const sources = [item('a', { source: 'STAT News' }), item('b', { source: 'unknown' })];
+    assert.equal(calculateOpportunityScore(sources, profile({ tierBonus: 20 }), NOW).s1, 56);
+    assert.equal(calculateOpportunityScore(sources, undefined, NOW).s1, 46, 'the default profile has no bonus');
+    assert.equal(calculateOpportunityScore([item('c', { source: 'www.statnews.com' })], profile({ tierBonus: 20 }), NOW).s1, 38, 'a hostname is not a tiered source');
+  });
+});
+
+describe('active scoring profile', () => {
+  const active = (overrides = {}) => {
+    const { alertThreshold: _unused, ...rest } = profile({ id: 'profile-1', name: '정책 중심', weights: { policy: 0.6, investment: 0.2, competitor: 0.2 } });
+    return { ...rest, ...overrides };
+  };
+
+  it('is stored with the keyword profile, clamped to the editor ranges', async () => {
+    const { normalizeKeywordProfile } = await importTs('src/services/keywordProfile.ts');
+    const { scoringProfile } = normalizeKeywordProfile({
+      scoringProfile: active({ weights: { policy: 1.4, investment: -0.1, competitor: 0.2 }, countSaturation: 7.6, tierBonus: 45, highPriorityThreshold: 20, alertThreshold: 40 }),
+    });
+    assert.deepEqual(scoringProfile, {
+      ...active(),
+      weights: { policy: 1, investment: 0, competitor: 0.2 },
+      countSaturation: 8,
+      tierBonus: 20,
+      highPriorityThreshold: 50,
+    });
+  });
+
+  it('falls back to the default profile when unset, the default or incomplete', async () => {
+    const { normalizeKeywordProfile } = await importTs('src/services/keywordProfile.ts');
+    assert.equal(normalizeKeywordProfile({}).scoringProfile, undefined);
+    assert.equal(normalizeKeywordProfile({ scoringProfile: active({ id: 'default' }) }).scoringProfile, undefined);
+    assert.equal(normalizeKeywordProfile({ scoringProfile: active({ weights: { policy: 0.5 } }) }).scoringProfile, undefined);
+    assert.equal(normalizeKeywordProfile({ scoringProfile: active({ countWeight: 'n/a' }) }).scoringProfile, undefined);
+  });
+
+  it('scores the server snapshot and keeps the keyword profile alert threshold', () => {
+    assert.match(
+      readSrc('server/worldmonitor/care/v1/_shared.ts'),
+      /\{ \.\.\.DEFAULT_SCORING_PROFILE, \.\.\.profile\.scoringProfile, alertThreshold: profile\.alertThreshold \}/,
+    );
+    assert.match(readSrc('api/telegram/webhook.js'), /async function getKeywordProfile\(\) \{[\s\S]*?\.\.\.profile,/, '/keyword edits keep the scoring profile');
+  });
+});
+
+describe('runBacktest', () => {
+  const entry = (timestamp, total, s = total) => ({ timestamp, s1: s, s2: s, s3: s, total });
+
+  it('reweights the stored track scores in time order and counts upward crossings', () => {
+    const history = [
+      entry('2026-10-11T00:00:00.000Z', 75, 60),
+      entry('2026-10-01T00:00:00.000Z', 30),
+      entry('2026-10-10T00:00:00.000Z', 60, 50),
+      entry('2026-10-30T00:00:00.000Z', 10),
+    ];
+    const { points, summary } = runBacktest(history, profile({ weights: { policy: 1, investment: 0, competitor: 0 }, alertThreshold: 50 }));
+
+    assert.deepEqual(points.map((p) => p.at.slice(0, 10)), ['2026-10-01', '2026-10-10', '2026-10-11', '2026-10-30']);
+    assert.deepEqual(points.map((p) => p.replayed.total), [30, 50, 60, 10]);
+    assert.deepEqual(points.map((p) => p.alertFired), [false, true, false, false], 'only the upward crossing fires');
+    assert.deepEqual(points.map((p) => p.baselineAlert), [false, false, true, false]);
+    assert.deepEqual(summary, { checkpoints: 4, alertsFired: 1, baselineAlertsFired: 1, alertPoints: 2, baselineAlertPoints: 1 });
+  });
+
+  it('reads no stored history beyond the local score history', () => {
+    assert.doesNotMatch(readSrc('src/services/scoreBacktest.ts'), /supabase|signal_events|opportunity_scores/);
+    assert.deepEqual(runBacktest([], profile()).summary, { checkpoints: 0, alertsFired: 0, baselineAlertsFired: 0, alertPoints: 0, baselineAlertPoints: 0 });
+  });
+});
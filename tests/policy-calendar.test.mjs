@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-policy-calendar-');
+
+const {
+  buildPolicyCalendar,
+  detectPressEvents,
+  fiscalEvents,
+  lawEvents,
+  policyCalendarScoreItems,
+  toICalendar,
+} = await modules.import('src/services/policyCalendar.ts', {
+  '../config/policy-calendar': 'src/config/policy-calendar.ts',
+  '../config/ai-regulations': 'src/config/ai-regulations.ts',
+});
+
+// Monday evening in Seoul — 2026-10-19 KST
+const NOW = Date.parse('2026-10-19T18:00:00+09:00');
+
+const item = (title, pubDate, extra = {}) => ({
+  id: title,
+  title,
+  link: `https://example.kr/${encodeURIComponent(title)}`,
+  source: '보건복지부',
+  pubDate,
+  timeAgo: '',
+  description: '',
+  track: 'policy',
+  ...extra,
+});
+
+describe('policy calendar', () => {
+  it('lays the budget cycle out for the year and keeps 30 days back to a year ahead, by date', () => {
+    const calendar = buildPolicyCalendar([], NOW);
+    const ids = calendar.map((e) => e.id);
+
+    assert.ok(ids.includes('fiscal-welfare-committee-review-2026'));
+    assert.ok(ids.includes('fiscal-national-assembly-vote-2026'));
+    assert.ok(ids.includes('fiscal-ministry-budget-request-2027'), 'next May is inside the one-year window');
+    assert.ok(!ids.includes('fiscal-government-proposal-2026'), 'September 3 ended more than 30 days ago');
+    assert.ok(!ids.includes('fiscal-national-assembly-vote-2027'), 'beyond one year ahead');
+    assert.deepEqual(calendar.map((e) => e.date), [...calendar.map((e) => e.date)].sort());
+
+    const review = calendar.find((e) => e.id === 'fiscal-welfare-committee-review-2026');
+    assert.equal(review.agency, '국회 보건복지위원회');
+    assert.equal(review.endDate, '2026-11-20');
+    assert.equal(review.approximate, true);
+  });
+
+  it('turns promulgation, effective and compliance dates into law events without repeating a date', () => {
+    const basicAct = lawEvents().filter((e) => e.id.startsWith('law-kr-ai-basic-act-'));
+    assert.deepEqual(basicAct.map((e) => [e.title, e.date]), [
+      ['Korea AI Basic Act 공포', '2025-01-21'],
+      ['Korea AI Basic Act 시행', '2026-01-22'],
+    ]);
+    assert.equal(basicAct[0].relevance, 75);
+
+    const sameDay = lawEvents([{
+      id: 'x', shortName: 'X Act', name: 'X Act', country: 'Canada', announcedDate: '2026-01-01',
+      promulgatedDate: '2026-11-01', effectiveDate: '2026-11-01', complianceDeadline: '2027-06-01',
+      type: 'comprehensive', status: 'proposed', scope: [], keyProvisions: [],
+    }]);
+    assert.deepEqual(sameDay.map((e) => e.title), ['X Act 공포', 'X Act 의무 준수 기한']);
+    assert.equal(sameDay[0].relevance, 40);
+  });
+
+  it('detects press-release dates from the welfare policy feeds', () => {
+    const events = detectPressEvents([
+      item('복지부, 11월 1일부터 돌봄로봇 보급사업 시행', '2026-10-15T01:00:00Z'),
+      item('내년 1월 5일 AI 돌봄 실증 공모 접수', 'Sun, 20 Dec 2026 02:00:00 GMT'),
+      item('장애인 활동지원 예산 2조 돌파', '2026-10-16T23:30:00Z'),
+      item('2월 30일 고시 예정', '2026-01-10T00:00:00Z'),
+      item('발달장애 가족 인터뷰', '2026-10-16T00:00:00Z'),
+      item('날짜 없는 시행 소식', 'not a date'),
+    ]);
+
+    assert.deepEqual(events.map((e) => [e.date, e.relevance]), [
+      ['2026-11-01', 65],
+      ['2027-01-05', 75],
+      ['2026-10-17', 80], // no date in the text: the KST publication day
+      ['2026-01-10', 65], // impossible date falls back to the publication day
+    ]);
+    assert.equal(events[0].agency, '보건복지부');
+    assert.equal(events[0].kind, 'press');
+  });
+
+  it('scores ongoing and upcoming events into S1, discounting the far ones', () => {
+    const press = detectPressEvents([
+      item('복지부, 11월 1일부터 돌봄로봇 보급사업 시행', '2026-10-15T01:00:00Z'),
+      item('장애인 활동지원 예산 2조 돌파', '2026-10-16T23:30:00Z'),
+    ]);
+    const items = policyCalendarScoreItems([...fiscalEvents([2026]), ...press], NOW);
+
+    assert.deepEqual(items.map((i) => [i.title, i.relevance_score]), [
+      ['국회 보건복지위원회 예비심사', 77], // D-9: 85 × (1 − 0.5 × 9/45)
+      ['예산결산특별위원회 종합심사', 53],
+      ['시·도 예산안 의회 제출', 44],
+      ['국회 예산안 의결 (법정 기한)', 41],
+      ['복지부, 11월 1일부터 돌봄로봇 보급사업 시행', 56], // the already-reported budget article is not counted again
+    ]);
+    assert.ok(items.every((i) => i.track === 'policy' && i.source === '정책 캘린더'));
+    assert.equal(items[0].description, '예산 사이클 D-9');
+
+    // inside a window the event counts in full
+    const during = policyCalendarScoreItems(fiscalEvents([2026]), Date.parse('2026-11-10T12:00:00+09:00'));
+    assert.equal(during.find((i) => i.id === 'calendar-fiscal-welfare-committee-review-2026').relevance_score, 85);
+  });
+
+  it('exports all-day iCal events with escaped, folded lines', () => {
+    const [review] = fiscalEvents([2026]).filter((e) => e.id === 'fiscal-welfare-committee-review-2026');
+    const ics = toICalendar([review, { ...review, id: 'one-day', endDate: '', link: 'https://example.kr/a', approximate: false }], NOW);
+    const lines = ics.split('\r\n');
+
+    assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+    assert.ok(!/[^\r]\n/.test(ics), 'every line ends with CRLF');
+    assert.ok(lines.every((l) => new TextEncoder().encode(l).length <= 75), 'lines are folded at 75 octets');
+
+    const unfolded = ics.replace(/\r\n /g, '');
+    assert.match(unfolded, /UID:fiscal-welfare-committee-review-2026@careradar\r\n/);
+    assert.match(unfolded, /DTSTAMP:20261019T090000Z\r\n/);
+    assert.match(unfolded, /DTSTART;VALUE=DATE:20261028\r\nDTEND;VALUE=DATE:20261121\r\n/);
+    assert.match(unfolded, /SUMMARY:\[예산 사이클\] 국회 보건복지위원회 예비심사 \(예정\)\r\n/);
+    assert.match(unfolded, /DESCRIPTION:국회 보건복지위원회\\n상임위 증액 의견이 붙는 단계 — 지역구·비례 의원실 대상 사업 설명 적기\\n관행상 기간/);
+    assert.match(unfolded, /UID:one-day@careradar\r\nDTSTAMP:\d{8}T\d{6}Z\r\nDTSTART;VALUE=DATE:20261028\r\nDTEND;VALUE=DATE:20261029\r\n/);
+    assert.match(unfolded, /URL:https:\/\/example\.kr\/a\r\nEND:VEVENT/);
+    assert.equal(lines.filter((l) => l === 'BEGIN:VEVENT').length, 2);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(__dirname, '..');
+
+const importEngine = () => import(pathToFileURL(resolve(root, 'src/services/pricing/engine.ts')).href);
+
+const close = (actual, expected, msg) => assert.ok(Math.abs(actual - expected) < 1e-6, `${msg}: ${actual} != ${expected}`);
+
+function deal(overrides = {}) {
+  return {
+    id: 'd1',
+    kind: 'b2b',
+    label: '요양원 직판',
+    units: 10,
+    contractMonths: 12,
+    setupFee: 0,
+    unitCostMonthly: 0,
+    acquisitionCost: 0,
+    paymentLagMonths: 0,
+    ...overrides,
+  };
+}
+
+function scenario(overrides = {}) {
+  return {
+    name: 'CareVia',
+    unit: 'camera',
+    model: 'subscription',
+    tiers: [
+      { id: 't1', name: 'Standard', minUnits: 1, unitPrice: 30_000 },
+      { id: 't2', name: 'Volume', minUnits: 50, unitPrice: 25_000 },
+    ],
+    discounts: [],
+    maintenanceRate: 0.15,
+    deals: [deal()],
+    competitors: [],
+    ...overrides,
+  };
+}
+
+describe('pricing engine', () => {
+  it('picks the volume tier and compounds the discounts that apply to the deal kind', async () => {
+    const { tierFor, combinedDiscount, calculateDeal } = await importEngine();
+    const s = scenario();
+    assert.equal(tierFor(s.tiers, 10).id, 't1');
+    assert.equal(tierFor(s.tiers, 50).id, 't2');
+    assert.equal(tierFor(s.tiers, 0).id, 't1');
+    assert.equal(tierFor([], 10), null);
+
+    const discounts = [
+      { id: 'a', label: '다년', rate: 0.1, appliesTo: 'all' },
+      { id: 'b', label: '조달', rate: 0.2, appliesTo: 'b2g' },
+    ];
+    close(combinedDiscount(discounts, 'b2g'), 1 - 0.9 * 0.8, 'b2g discount');
+    close(combinedDiscount(discounts, 'b2b'), 0.1, 'b2b discount');
+
+    const r = calculateDeal(scenario({ discounts }), deal({ units: 60 }));
+    close(r.netUnitPrice, 25_000 * 0.9, 'net unit price');
+    close(r.contractRevenue, 25_000 * 0.9 * 60 * 12, 'contract revenue');
+  });
+
+  it('splits a license into one-time revenue plus monthly maintenance', async () => {
+    const { calculateDeal } = await importEngine();
+    const s = scenario({ model: 'license', tiers: [{ id: 't', name: '', minUnits: 1, unitPrice: 1_200_000 }] });
+    const r = calculateDeal(s, deal({ units: 5, contractMonths: 24, setupFee: 500_000, unitCostMonthly: 5_000 }));
+
+    close(r.oneTimeRevenue, 6_500_000, 'one-time');
+    close(r.monthlyRevenue, (6_000_000 * 0.15) / 12, 'maintenance');
+    close(r.contractRevenue, 6_500_000 + 75_000 * 24, 'contract');
+    close(r.grossMargin, (r.contractRevenue - 5_000 * 5 * 24) / r.contractRevenue, 'margin');
+    close(r.effectiveMonthlyPerUnit, r.contractRevenue / 24 / 5, 'per unit');
+  });
+
+  it('delays payback by the payment lag and reports null when the deal never recovers', async () => {
+    const { calculateDeal } = await importEngine();
+    const base = deal({ unitCostMonthly: 10_000, acquisitionCost: 1_000_000 });
+    // 월 순현금 (30,000 − 10,000) × 10 = 200,000 → 5개월차 회수
+    assert.equal(calculateDeal(scenario(), base).paybackMonths, 5);
+    // 대금 2개월 지연: 1–2개월차는 원가만 나가서 8개월차 회수
+    assert.equal(calculateDeal(scenario(), { ...base, paymentLagMonths: 2 }).paybackMonths, 8);
+    assert.equal(calculateDeal(scenario(), { ...base, acquisitionCost: 10_000_000 }).paybackMonths, null);
+    assert.equal(calculateDeal(scenario(), deal()).paybackMonths, 0);
+  });
+
+  it('compares with same-unit competitors, amortizing one-time prices', async () => {
+    const { calculateDeal, compareWithCompetitors, AMORTIZATION_MONTHS } = await importEngine();
+    const s = scenario({
+      competitors: [
+        { id: 'c1', name: 'A', unit: 'camera', price: 20_000, period: 'month', source: '' },
+        { id: 'c2', name: 'B', unit: 'camera', price: 1_440_000, period: 'once', source: '' },
+        { id: 'c3', name: 'C', unit: 'seat', price: 10_000, period: 'month', source: '' },
+      ],
+    });
+    const comparisons = compareWithCompetitors(s, calculateDeal(s, deal()));
+    assert.deepEqual(comparisons.map((c) => c.competitor.id), ['c1', 'c2']);
+    close(comparisons[0].premium, 0.5, 'premium vs monthly');
+    close(comparisons[1].monthlyPerUnit, 1_440_000 / AMORTIZATION_MONTHS, 'amortized');
+    close(comparisons[1].premium, -0.25, 'premium vs once');
+  });
+
+  it('places a contract value in the awarded-price distribution', async () => {
+    const { compareWithAwards } = await importEngine();
+    const awards = [10, 20, 30, 40, 50].map((m) => ({
+      title: `공고 ${m}`,
+      organization: '기관',
+      estimatedPrice: m * 1_000_000 / 0.9,
+      awardedPrice: m * 1_000_000,
+    }));
+    awards.push({ title: '낙찰가 없음', organization: '', estimatedPrice: 0, awardedPrice: 0 });
+
+    const cmp = compareWithAwards(35_000_000, awards);
+    assert.equal(cmp.count, 5);
+    assert.equal(cmp.median, 30_000_000);
+    assert.equal(cmp.p25, 20_000_000);
+    assert.equal(cmp.p75, 40_000_000);
+    close(cmp.medianAwardRatio, 0.9, 'award ratio');
+    close(cmp.percentile, 0.6, 'percentile');
+    assert.equal(compareWithAwards(1, []), null);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir, fileUrl } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-procurement-tracking-');
+
+// procurementTracker.ts and g2bCrawler.ts import their modules without an extension; point them at the .ts files
+const keywordProfileUrl = fileUrl('src/services/keywordProfile.ts');
+const g2bCrawlerUrl = modules.patch('src/services/g2bCrawler.ts', { './keywordProfile': keywordProfileUrl });
+const { trackProcurements } = await import(modules.patch('src/services/procurementTracker.ts', {
+  './g2bCrawler': g2bCrawlerUrl,
+  './keywordProfile': keywordProfileUrl,
+}));
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const NOW = Date.parse('2026-10-19T09:00:00.000Z');
+
+/**
+ * Local stand-in for the service-role PostgREST helpers (server/_shared/supabase):
+ * the eq / in / gte filters, order (nullsfirst) and limit the tracker sends, and
+ * merge-duplicates upserts that return the stored rows.
+ */
+function createLocalPostgrest() {
+  const tables = new Map();
+  let nextId = 1;
+  const rowsOf = (table) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table);
+  };
+
+  return {
+    tables,
+    async selectRows(table, query) {
+      let rows = [...rowsOf(table)];
+      let order = null;
+      let limit = Infinity;
+      for (const [key, value] of query) {
+        if (key === 'select') continue;
+        if (key === 'order') order = value.split('.');
+        else if (key === 'limit') limit = Number(value);
+        else if (value.startsWith('eq.')) rows = rows.filter((r) => String(r[key]) === value.slice(3));
+        else if (value.startsWith('gte.')) rows = rows.filter((r) => r[key] !== null && r[key] >= value.slice(4));
+        else if (value.startsWith('in.(')) {
+          const ids = value.slice(4, -1).split(',').map((v) => v.replace(/^"|"$/g, ''));
+          rows = rows.filter((r) => ids.includes(r[key]));
+        } else throw new Error(`unsupported filter ${key}=${value}`);
+      }
+      if (order) {
+        const [column, direction] = order;
+        const sign = direction === 'desc' ? -1 : 1;
+        rows.sort((a, b) => {
+          if (a[column] === b[column]) return 0;
+          if (a[column] === null) return -1;
+          if (b[column] === null) return 1;
+          return sign * String(a[column]).localeCompare(String(b[column]));
+        });
+      }
+      return rows.slice(0, limit).map((r) => ({ ...r }));
+    },
+    async upsertRows(table, rows, onConflict) {
+      const stored = rowsOf(table);
+      return rows.map((row) => {
+        const existing = stored.find((r) => r[onConflict] === row[onConflict]);
+        if (existing) return { ...Object.assign(existing, row) };
+        const created = { id: `row-${nextId++}`, user_id: null, ...row };
+        stored.push(created);
+        return { ...created };
+      });
+    },
+  };
+}
+
+function createNara(bids = [], awards = []) {
+  const nara = {
+    bids,
+    awards: new Map(awards.map((a) => [a.bidNtceNo, a])),
+    lookups: [],
+    async searchBids() {
+      return nara.bids;
+    },
+    async lookupAwards(bidNtceNos) {
+      nara.lookups.push([...bidNtceNos]);
+      return bidNtceNos.map((no) => nara.awards.get(no)).filter(Boolean);
+    },
+  };
+  return nara;
+}
+
+const bid = (bidNtceNo, deadline, overrides = {}) => ({
+  id: `${bidNtceNo}-000`,
+  bidNtceNo,
+  bidNtceOrd: '000',
+  kind: 'service',
+  title: `발달장애인 AI 돌봄 서비스 구축 ${bidNtceNo}`,
+  agency: '경기도',
+  demandAgency: '경기도 광주시',
+  estimatedPrice: 100_000_000,
+  announcedAt: '2026-09-01T00:00:00.000Z',
+  deadline,
+  openingAt: deadline,
+  cancelled: false,
+  url: `https://www.g2b.go.kr/${bidNtceNo}`,
+  ...overrides,
+});
+
+const award = (bidNtceNo, awardedPrice) => ({
+  bidNtceNo, bidNtceOrd: '000', awardedTo: '주식회사 케어비아', awardedPrice, awardRate: 87.5, openedAt: '2026-10-10T01:00:00.000Z',
+});
+
+const listing = (id, title) => ({
+  id, title, agency: '보건복지부', budget: 0, deadline: '', bidType: '', sourceUrl: '',
+  fitnessScore: 'medium', fitnessReason: '', matchedKeywords: ['돌봄'], fetchedAt: NOW - HOUR,
+});
+
+const itemRow = (db, externalId) => db.tables.get('procurement_items').find((r) => r.external_id === externalId);
+
+describe('procurement tracking', () => {
+  it('stores bids with their deadline status and merges news that is not a duplicate', async () => {
+    const db = createLocalPostgrest();
+    const nara = createNara([
+      bid('R26-OPEN', new Date(NOW + 5 * DAY).toISOString()),
+      bid('R26-CLOSED', new Date(NOW - 2 * DAY).toISOString()),
+      bid('R26-CANCEL', new Date(NOW - 2 * DAY).toISOString(), { cancelled: true }),
+    ]);
+    const news = [
+      listing('news-dup', '발달장애인 AI 돌봄 서비스 구축'),
+      listing('news-own', '노인 돌봄로봇 보급 사업 공고'),
+    ];
+
+    const tracked = await trackProcurements(db, nara, news, undefined, NOW);
+
+    assert.deepEqual(tracked.map((t) => [t.id, t.status]), [
+      ['R26-OPEN-000', 'open'],
+      ['R26-CLOSED-000', 'closed'],
+      ['R26-CANCEL-000', 'cancelled'],
+      ['news-own', 'open'],
+    ]);
+    assert.deepEqual(nara.lookups, [['R26-CLOSED']], 'only the closed bid is followed up');
+    assert.equal(itemRow(db, 'R26-CLOSED-000').award_checked_at, new Date(NOW).toISOString());
+    assert.equal(itemRow(db, 'R26-OPEN-000').award_checked_at, null);
+    assert.equal(db.tables.get('bid_analyses'), undefined);
+  });
+
+  it('rechecks a closed bid only after the recheck interval and keeps the award on later runs', async () => {
+    const db = createLocalPostgrest();
+    const nara = createNara([bid('R26-WAIT', new Date(NOW - DAY).toISOString())]);
+
+    await trackProcurements(db, nara, [], undefined, NOW);
+    await trackProcurements(db, nara, [], undefined, NOW + 2 * HOUR);
+    assert.equal(nara.lookups.length, 1, 'checked within the last 6 hours — even by another instance');
+
+    nara.awards.set('R26-WAIT', award('R26-WAIT', 87_500_000));
+    const [awarded] = await trackProcurements(db, nara, [], undefined, NOW + 7 * HOUR);
+    assert.equal(nara.lookups.length, 2);
+    assert.deepEqual(
+      [awarded.status, awarded.awardedTo, awarded.awardedPrice, awarded.awardRatio],
+      ['awarded', '주식회사 케어비아', 87_500_000, 0.875],
+    );
+
+    const row = itemRow(db, 'R26-WAIT-000');
+    assert.deepEqual([row.status, row.awarded_price], ['awarded', 87_500_000]);
+    const analyses = db.tables.get('bid_analyses');
+    assert.equal(analyses.length, 1);
+    assert.deepEqual(
+      [analyses[0].procurement_id, analyses[0].award_ratio, analyses[0].awarded_company],
+      [row.id, 0.875, '주식회사 케어비아'],
+    );
+
+    // the proxy keeps returning the bid without an award: the stored result is kept, nothing is looked up
+    const [kept] = await trackProcurements(db, nara, [], undefined, NOW + 20 * HOUR);
+    assert.equal(kept.status, 'awarded');
+    assert.equal(nara.lookups.length, 2);
+    assert.equal(db.tables.get('bid_analyses').length, 1);
+  });
+
+  it('follows up closed bids that left the search window, least recently checked first', async () => {
+    const db = createLocalPostgrest();
+    const nara = createNara([
+      bid('R26-RECENT', new Date(NOW - 10 * DAY).toISOString()),
+      bid('R26-STALE', new Date(NOW - 90 * DAY).toISOString()),
+    ]);
+    await trackProcurements(db, nara, [], undefined, NOW - 10 * DAY + HOUR);
+
+    // both dropped out of the 30-day search; one award is published meanwhile
+    nara.bids = [];
+    nara.awards.set('R26-RECENT', award('R26-RECENT', 92_000_000));
+    const tracked = await trackProcurements(db, nara, [], undefined, NOW);
+
+    assert.deepEqual(nara.lookups.at(-1), ['R26-RECENT'], 'bids closed over 60 days ago are no longer followed up');
+    assert.deepEqual(tracked.map((t) => [t.id, t.status]), [['R26-RECENT-000', 'awarded']]);
+    assert.equal(itemRow(db, 'R26-RECENT-000').awarded_price, 92_000_000);
+    assert.equal(itemRow(db, 'R26-STALE-000').status, 'closed');
+    assert.equal(db.tables.get('bid_analyses').length, 1);
+  });
+});
@@ -1,14 +1,8 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
-import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
-import { basename, dirname, join, resolve } from 'node:path';
-import { tmpdir } from 'node:os';
-import { fileURLToPath, pathToFileURL } from 'node:url';
+import { fileUrl, importFresh, importPatchedTsModule } from './_helpers.mjs';
 
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const root = resolve(__dirname, '..');
-
-const REDIS_MODULE_URL = pathToFileURL(resolve(root, 'server/_shared/redis.ts')).href;
+const REDIS_MODULE_URL = fileUrl('server/_shared/redis.ts');
 
 function jsonResponse(payload, ok = true) {
   return {
@@ -41,28 +35,7 @@ function withEnv(overrides) {
 }
 
 async function importRedisFresh() {
-  return import(`${REDIS_MODULE_URL}?t=${Date.now()}-${Math.random().toString(16).slice(2)}`);
-}
-
-async function importPatchedTsModule(relPath, replacements) {
-  const sourcePath = resolve(root, relPath);
-  let source = readFileSync(sourcePath, 'utf-8');
-
-  for (const [specifier, targetPath] of Object.entries(replacements)) {
-    source = source.replaceAll(`'${specifier}'`, `'${pathToFileURL(targetPath).href}'`);
-  }
-
-  const tempDir = mkdtempSync(join(tmpdir(), 'wm-ts-module-'));
-  const tempPath = join(tempDir, basename(sourcePath));
-  writeFileSync(tempPath, source);
-
-  const module = await import(`${pathToFileURL(tempPath).href}?t=${Date.now()}-${Math.random().toString(16).slice(2)}`);
-  return {
-    module,
-    cleanup() {
-      rmSync(tempDir, { recursive: true, force: true });
-    },
-  };
+  return importFresh(REDIS_MODULE_URL);
 }
 
 describe('redis caching behavior', { concurrency: 1 }, () => {
@@ -151,14 +124,50 @@ describe('redis caching behavior', { concurrency: 1 }, () => {
       restoreEnv();
     }
   });
+
+  it('writes checked JSON and set members in the request body and reports failures', async () => {
+    const redis = await importRedisFresh();
+    const restoreEnv = withEnv({
+      UPSTASH_REDIS_REST_URL: 'https://redis.test',
+      UPSTASH_REDIS_REST_TOKEN: 'token',
+      RAILWAY_ENVIRONMENT: undefined,
+      RAILWAY_GIT_COMMIT_SHA: undefined,
+    });
+    const originalFetch = globalThis.fetch;
+
+    const pipelines = [];
+    let failNext = false;
+    globalThis.fetch = async (url, init = {}) => {
+      assert.equal(String(url), 'https://redis.test/pipeline');
+      pipelines.push(JSON.parse(String(init.body)));
+      if (failNext) return jsonResponse([{ error: 'OOM command not allowed' }]);
+      return jsonResponse([{ result: 'OK' }, { result: 1 }]);
+    };
+
+    try {
+      const big = { words: 'x'.repeat(10_000) };
+      assert.equal(await redis.setJsonChecked('care:profile', big, 60), true);
+      assert.deepEqual(pipelines[0], [['SET', 'care:profile', JSON.stringify(big), 'EX', '60']]);
+
+      assert.equal(await redis.addSetMember('care:chats', '42', 60), true);
+      assert.deepEqual(pipelines[1], [['SADD', 'care:chats', '42'], ['EXPIRE', 'care:chats', '60']]);
+
+      failNext = true;
+      assert.equal(await redis.setJsonChecked('care:profile', big, 60), false, 'a command error is a failed write');
+      assert.equal(await redis.addSetMember('care:chats', '42', 60), false);
+    } finally {
+      globalThis.fetch = originalFetch;
+      restoreEnv();
+    }
+  });
 });
 
 describe('military flights bbox behavior', { concurrency: 1 }, () => {
   async function importListMilitaryFlights() {
     return importPatchedTsModule('server/worldmonitor/military/v1/list-military-flights.ts', {
-      './_shared': resolve(root, 'server/worldmonitor/military/v1/_shared.ts'),
-      '../../../_shared/constants': resolve(root, 'server/_shared/constants.ts'),
-      '../../../_shared/redis': resolve(root, 'server/_shared/redis.ts'),
+      './_shared': 'server/worldmonitor/military/v1/_shared.ts',
+      '../../../_shared/constants': 'server/_shared/constants.ts',
+      '../../../_shared/redis': 'server/_shared/redis.ts',
     });
   }
 
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-relevance-model-');
+
+const {
+  emptyModel,
+  evaluateHeldOut,
+  exampleCount,
+  scoreRelevance,
+  topFeatures,
+  trainIncremental,
+  trainModel,
+} = await modules.import('src/services/relevance/model.ts', {
+  '../knowledge/search': 'src/services/knowledge/search.ts',
+});
+
+let seq = 0;
+const example = (label, text, day = 1) => ({
+  id: `${label}:${++seq}`,
+  label,
+  text,
+  at: `2026-10-${String(day).padStart(2, '0')}T09:00:00.000Z`,
+  source: label === 'relevant' ? '북마크' : '제외',
+});
+
+const NEGATIVE = [
+  example('irrelevant', '연예인 요양원 봉사 화보 공개', 1),
+  example('irrelevant', '아이돌 화보 촬영 현장 공개', 2),
+  example('irrelevant', '배우 화보 공개 팬미팅', 3),
+];
+const POSITIVE = [
+  example('relevant', '노인장기요양 수가 인상 고시', 1),
+  example('relevant', '방문요양 바우처 단가 인상', 2),
+  example('relevant', '장기요양 재가급여 수가 개편', 3),
+];
+
+describe('relevance model', () => {
+  it('scores texts toward the label whose feedback they share tokens with', () => {
+    const model = trainModel([...NEGATIVE, ...POSITIVE]);
+    const gossip = scoreRelevance(model, '걸그룹 화보 공개 현장');
+    const policy = scoreRelevance(model, '요양 수가 인상 발표');
+
+    assert.ok(gossip.probability < 0.2, `gossip ${gossip.probability}`);
+    assert.ok(policy.probability > 0.8, `policy ${policy.probability}`);
+    assert.deepEqual(scoreRelevance(model, 'completely unseen words'), { probability: 0.5, logOdds: 0, features: [] });
+    assert.deepEqual(scoreRelevance(emptyModel(), '화보'), { probability: 0.5, logOdds: 0, features: [] });
+  });
+
+  it('explains a score with the strongest features first', () => {
+    const model = trainModel([...NEGATIVE, ...POSITIVE]);
+    const { features } = scoreRelevance(model, '화보 공개 수가 인상');
+    assert.ok(features.length <= 5);
+    assert.deepEqual(new Set(features.map((f) => f.token)), new Set(['화보', '공개', '수가', '인상']));
+    assert.ok(features.every((f, i) => i === 0 || Math.abs(features[i - 1].weight) >= Math.abs(f.weight)));
+    assert.ok(features.find((f) => f.token === '화보').weight < 0);
+    assert.ok(features.find((f) => f.token === '수가').weight > 0);
+
+    assert.deepEqual(topFeatures(model, 'irrelevant', 2).map((f) => f.token).sort(), ['공개', '화보']);
+    assert.ok(topFeatures(model, 'relevant').every((f) => f.weight > 0));
+  });
+
+  it('penalizes lookalikes of a single exclusion before any positive feedback exists', () => {
+    const model = trainModel([example('irrelevant', '연예인 요양원 봉사 화보 공개')]);
+    assert.ok(scoreRelevance(model, '연예인 요양원 봉사 화보').probability < 0.2);
+  });
+
+  it('retrains incrementally to the same model as a full retrain', () => {
+    const first = trainModel([...NEGATIVE, POSITIVE[0]]);
+    assert.equal(trainIncremental(first, [...NEGATIVE, POSITIVE[0]]), first, 'unchanged feedback keeps the model');
+
+    // drop one exclusion, flip one example's label, add new feedback
+    const flipped = { ...NEGATIVE[1], label: 'relevant' };
+    const feedback = [NEGATIVE[0], flipped, POSITIVE[0], POSITIVE[1], POSITIVE[2]];
+    const incremental = trainIncremental(first, feedback);
+    const full = trainModel(feedback);
+
+    assert.deepEqual(incremental.tokenCounts, full.tokenCounts);
+    assert.deepEqual(incremental.tokenTotals, full.tokenTotals);
+    assert.deepEqual(incremental.docCounts, { relevant: 4, irrelevant: 1 });
+    assert.equal(exampleCount(incremental), 5);
+    assert.equal(exampleCount(first), 4, 'the input model is not mutated');
+  });
+
+  it('evaluates precision and recall on the most recent feedback', () => {
+    assert.equal(evaluateHeldOut([...NEGATIVE, ...POSITIVE]), null, 'too few examples');
+
+    const feedback = [
+      ...NEGATIVE,
+      ...POSITIVE,
+      example('irrelevant', '배우 화보 비하인드 공개', 4),
+      example('relevant', '요양 수가 인상 확정', 5),
+      example('irrelevant', '걸그룹 화보 공개', 20),
+      example('relevant', '방문요양 수가 인상 고시', 21),
+    ];
+    const evaluation = evaluateHeldOut(feedback);
+    assert.deepEqual(
+      { trained: evaluation.trained, heldOut: evaluation.heldOut, precision: evaluation.precision, recall: evaluation.recall, accuracy: evaluation.accuracy },
+      { trained: 8, heldOut: 2, precision: 1, recall: 1, accuracy: 1 },
+    );
+
+    const oneSided = [...feedback.slice(0, 9), example('irrelevant', '화보', 22)];
+    assert.equal(evaluateHeldOut(oneSided), null, 'held-out set needs both labels');
+  });
+});
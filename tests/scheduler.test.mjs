@@ -0,0 +1,292 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir, fileUrl, importFresh, importTs, readSrc } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-scheduler-');
+
+// The scheduler imports its modules without an extension; point them at the .ts files
+const registryUrl = modules.patch('server/scheduler/registry.ts', {
+  './cron': 'server/scheduler/cron.ts',
+  '../_shared/redis': 'server/_shared/redis.ts',
+});
+const streaksUrl = modules.patch('server/scheduler/streaks.ts', { '../_shared/supabase': 'server/_shared/supabase.ts' });
+
+const { kstTime, latestSlot, matchesCron, parseCron } = await import(fileUrl('server/scheduler/cron.ts'));
+const { countStreak, incompleteSlots, previousRoutineDay } = await import(streaksUrl);
+
+// registry.ts keeps its jobs and finished slots in module state — each test gets its own copy
+const importRegistry = () => importFresh(registryUrl);
+
+/** KST wall-clock time → Date */
+const kst = (isoLocal) => new Date(`${isoLocal}+09:00`);
+
+function withEnv(overrides) {
+  const previous = new Map();
+  for (const [key, value] of Object.entries(overrides)) {
+    previous.set(key, process.env[key]);
+    if (value == null) delete process.env[key];
+    else process.env[key] = value;
+  }
+  return () => {
+    for (const [key, value] of previous.entries()) {
+      if (value == null) delete process.env[key];
+      else process.env[key] = value;
+    }
+  };
+}
+
+/** Upstash REST stand-in for SET NX / DEL, shared by every registry copy in a test */
+function mockRedis() {
+  const keys = new Set();
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async (url) => {
+    const path = new URL(String(url)).pathname.split('/').map(decodeURIComponent);
+    if (path[1] === 'set') {
+      const claimed = !keys.has(path[2]);
+      keys.add(path[2]);
+      return { ok: true, json: async () => ({ result: claimed ? 'OK' : null }) };
+    }
+    if (path[1] === 'del') {
+      keys.delete(path[2]);
+      return { ok: true, json: async () => ({ result: 1 }) };
+    }
+    throw new Error(`unexpected Redis call ${url}`);
+  };
+  const restoreEnv = withEnv({
+    UPSTASH_REDIS_REST_URL: 'https://redis.test',
+    UPSTASH_REDIS_REST_TOKEN: 'token',
+    RAILWAY_ENVIRONMENT: undefined,
+    RAILWAY_GIT_COMMIT_SHA: undefined,
+    VERCEL_ENV: undefined,
+  });
+  return {
+    keys,
+    restore() {
+      globalThis.fetch = originalFetch;
+      restoreEnv();
+    },
+  };
+}
+
+describe('cron schedules in KST', () => {
+  const firesAt = (expression, isoLocal) => matchesCron(parseCron(expression), kstTime(kst(isoLocal)));
+
+  it('reads KST wall-clock fields from a UTC instant', () => {
+    // 2026-10-18 23:30 UTC is Monday morning in Seoul
+    assert.deepEqual(kstTime(new Date('2026-10-18T23:30:00Z')), {
+      date: '2026-10-19', year: 2026, month: 10, day: 19, hour: 8, minute: 30, dayOfWeek: 1,
+    });
+  });
+
+  it('fires */30 on the hour and half hour only', () => {
+    assert.equal(firesAt('*/30 * * * *', '2026-10-19T08:00'), true);
+    assert.equal(firesAt('*/30 * * * *', '2026-10-19T08:30'), true);
+    assert.equal(firesAt('*/30 * * * *', '2026-10-19T08:15'), false);
+  });
+
+  it('fires 0 8 * * 1-5 at 08:00 KST on weekdays', () => {
+    assert.equal(firesAt('0 8 * * 1-5', '2026-10-19T08:00'), true, 'Monday');
+    assert.equal(firesAt('0 8 * * 1-5', '2026-10-23T08:00'), true, 'Friday');
+    assert.equal(firesAt('0 8 * * 1-5', '2026-10-24T08:00'), false, 'Saturday');
+    assert.equal(firesAt('0 8 * * 1-5', '2026-10-19T09:00'), false);
+    // 08:00 UTC is 17:00 in Seoul
+    assert.equal(matchesCron(parseCron('0 8 * * 1-5'), kstTime(new Date('2026-10-19T08:00:00Z'))), false);
+  });
+
+  it('accepts lists, stepped ranges and 7 as Sunday, and matches either restricted day field', () => {
+    assert.deepEqual([...parseCron('0-30/10 * * * *').minutes], [0, 10, 20, 30]);
+    assert.deepEqual([...parseCron('15,45 * * * *').minutes], [15, 45]);
+    assert.equal(firesAt('0 9 * * 7', '2026-10-25T09:00'), true, 'Sunday');
+    assert.equal(firesAt('0 9 13 * 5', '2026-10-13T09:00'), true, 'the 13th, a Tuesday');
+    assert.equal(firesAt('0 9 13 * 5', '2026-10-23T09:00'), true, 'a Friday');
+    assert.equal(firesAt('0 9 13 * 5', '2026-10-22T09:00'), false);
+  });
+
+  it('rejects malformed expressions', () => {
+    assert.throws(() => parseCron('0 8 * *'), /5 fields/);
+    assert.throws(() => parseCron('60 * * * *'), /Invalid cron field "60"/);
+    assert.throws(() => parseCron('*/0 * * * *'), /Invalid cron field/);
+    assert.throws(() => parseCron('0 8 * * 5-1'), /Invalid cron field/);
+  });
+
+  it('finds the latest slot within the lookback window', () => {
+    const weekdayBrief = parseCron('0 8 * * 1-5');
+    assert.deepEqual(latestSlot(weekdayBrief, kst('2026-10-19T08:40:30'), 60), kst('2026-10-19T08:00'));
+    assert.equal(latestSlot(weekdayBrief, kst('2026-10-19T08:40'), 30), null);
+    assert.equal(latestSlot(weekdayBrief, kst('2026-10-24T08:10'), 60), null, 'no Saturday slot');
+  });
+});
+
+describe('job registry', { concurrency: 1 }, () => {
+  it('catches up on a slot missed within the window and runs it once', async () => {
+    const redis = mockRedis();
+    try {
+      const { registerJob, runDueJobs } = await importRegistry();
+      const runs = [];
+      registerJob({ name: 'daily-brief', cron: '0 8 * * 1-5', run: async (ctx) => { runs.push(ctx); return { status: 'sent' }; } });
+
+      const bootedAt = kst('2026-10-19T08:35');
+      await runDueJobs(kst('2026-10-19T08:40'), bootedAt);
+      await runDueJobs(kst('2026-10-19T08:41'), bootedAt);
+
+      assert.equal(runs.length, 1);
+      assert.deepEqual(runs[0].slot, kst('2026-10-19T08:00'), 'runs the scheduled minute, not the wall clock');
+      assert.equal(runs[0].kst.hour, 8);
+      assert.ok(redis.keys.has('scheduler:v1:daily-brief:2026-10-19T08:00'));
+
+      // another instance sharing Redis does not send the slot again
+      const other = await importRegistry();
+      let otherRuns = 0;
+      other.registerJob({ name: 'daily-brief', cron: '0 8 * * 1-5', run: async () => { otherRuns++; return { status: 'sent' }; } });
+      await other.runDueJobs(kst('2026-10-19T08:42'), bootedAt);
+      assert.equal(otherRuns, 0);
+    } finally {
+      redis.restore();
+    }
+  });
+
+  it('releases the slot of a failed run so the next tick retries, up to three attempts', async () => {
+    const redis = mockRedis();
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      const { registerJob, runDueJobs } = await importRegistry();
+      let flakyRuns = 0;
+      let brokenRuns = 0;
+      registerJob({
+        name: 'flaky',
+        cron: '*/30 * * * *',
+        run: async () => {
+          flakyRuns++;
+          if (flakyRuns === 1) throw new Error('Telegram 502');
+          return { status: 'sent' };
+        },
+      });
+      registerJob({ name: 'broken', cron: '*/30 * * * *', run: async () => { brokenRuns++; throw new Error('always'); } });
+
+      const bootedAt = kst('2026-10-19T08:00');
+      await runDueJobs(kst('2026-10-19T08:30'), bootedAt);
+      assert.equal(flakyRuns, 1);
+      assert.equal(redis.keys.has('scheduler:v1:flaky:2026-10-19T08:30'), false, 'the failed run released its slot');
+
+      for (const minute of ['31', '32', '33', '34']) await runDueJobs(kst(`2026-10-19T08:${minute}`), bootedAt);
+      assert.equal(flakyRuns, 2, 'retried once, then done');
+      assert.ok(redis.keys.has('scheduler:v1:flaky:2026-10-19T08:30'));
+      assert.equal(brokenRuns, 3, 'gives up after three attempts');
+    } finally {
+      console.error = originalError;
+      redis.restore();
+    }
+  });
+
+  it('without Redis skips slots from before boot but runs later ones', async () => {
+    const restoreEnv = withEnv({ UPSTASH_REDIS_REST_URL: undefined, UPSTASH_REDIS_REST_TOKEN: undefined });
+    try {
+      const { registerJob, runDueJobs } = await importRegistry();
+      const slots = [];
+      registerJob({ name: 'alert', cron: '*/30 * * * *', run: async ({ slot }) => { slots.push(slot); return { status: 'sent' }; } });
+
+      const bootedAt = kst('2026-10-19T08:20');
+      await runDueJobs(kst('2026-10-19T08:25'), bootedAt);
+      assert.deepEqual(slots, [], 'the 08:00 slot may have been sent by the previous instance');
+      await runDueJobs(kst('2026-10-19T08:30'), bootedAt);
+      assert.deepEqual(slots, [kst('2026-10-19T08:30')]);
+    } finally {
+      restoreEnv();
+    }
+  });
+
+  it('rejects a duplicate job name', async () => {
+    const { registerJob } = await importRegistry();
+    const job = { name: 'weekly-report', cron: '0 18 * * 5', run: async () => ({ status: 'sent' }) };
+    registerJob(job);
+    assert.throws(() => registerJob(job), /already registered/);
+  });
+});
+
+describe('study streaks', () => {
+  const done = (date, slots = ['morning']) => ({
+    date,
+    morning_completed: slots.includes('morning'),
+    lunch_completed: slots.includes('lunch'),
+    evening_completed: slots.includes('evening'),
+  });
+
+  it('steps back over weekends to the previous routine day', () => {
+    assert.equal(previousRoutineDay('2026-10-19'), '2026-10-16', 'Monday → Friday');
+    assert.equal(previousRoutineDay('2026-10-25'), '2026-10-23', 'Sunday → Friday');
+    assert.equal(previousRoutineDay('2026-10-21'), '2026-10-20');
+  });
+
+  it('does not break a streak over the weekend', () => {
+    const week = [done('2026-10-14'), done('2026-10-15', ['evening']), done('2026-10-16', ['lunch'])];
+    assert.equal(countStreak(week, '2026-10-19'), 3, 'Monday not studied yet: Wed–Fri');
+    assert.equal(countStreak([...week, done('2026-10-19')], '2026-10-19'), 4);
+    assert.equal(countStreak([...week, done('2026-10-18')], '2026-10-19'), 3, 'weekend study neither adds nor breaks');
+  });
+
+  it('stops at the first routine day without a completed slot', () => {
+    const rows = [done('2026-10-13'), done('2026-10-14', []), done('2026-10-15'), done('2026-10-16')];
+    assert.equal(countStreak(rows, '2026-10-19'), 2);
+    assert.equal(countStreak([], '2026-10-19'), 0);
+  });
+
+  it('lists the slots still open for a day', () => {
+    assert.deepEqual(incompleteSlots(done('2026-10-16', ['morning'])), ['lunch', 'evening']);
+    assert.deepEqual(incompleteSlots(undefined), ['morning', 'lunch', 'evening']);
+    assert.deepEqual(incompleteSlots(done('2026-10-16', ['morning', 'lunch', 'evening'])), []);
+  });
+});
+
+describe('notification jobs wiring', () => {
+  const jobsSrc = readSrc('server/scheduler/jobs.ts');
+
+  it('registers daily brief, streak warning and weekly report jobs', () => {
+    for (const name of ['daily-brief', 'streak-warning', 'weekly-report']) {
+      assert.match(jobsSrc, new RegExp(`name: '${name}'`));
+    }
+  });
+
+  it('sends through the server-only Telegram client', () => {
+    assert.match(jobsSrc, /from '\.\.\/_shared\/telegram'/);
+    assert.match(readSrc('server/_shared/telegram.ts'), /process\.env\.TELEGRAM_BOT_TOKEN/);
+    assert.doesNotMatch(readSrc('src/services/notifications/index.ts'), /telegram/i, 'the browser hub has no Telegram channel');
+  });
+
+  it('sends opportunity alerts per subscribed chat with inline actions', () => {
+    assert.match(jobsSrc, /name: 'opportunity-alert'/);
+    assert.match(jobsSrc, /listTelegramSubscriptions\(\)/);
+    assert.match(jobsSrc, /isQuietHour\(sub, kst\.hour\)/);
+    assert.match(jobsSrc, /effectiveAlertThreshold\(sub, profile\.alertThreshold\)/);
+    assert.match(jobsSrc, /chatId: sub\.chatId/);
+    assert.match(jobsSrc, /articleActionRow\(/);
+  });
+
+  it('attaches the inline actions only for admin chats', async () => {
+    assert.match(jobsSrc, /const withActions = isAdminChat\(sub\.chatId\)/);
+    const { isAdminChat } = await importTs('server/_shared/telegram.ts');
+    const restore = withEnv({ TELEGRAM_CHAT_ID: '100', VITE_TELEGRAM_CHAT_ID: undefined, TELEGRAM_ADMIN_CHAT_IDS: ' 200, -300 ,' });
+    try {
+      assert.equal(isAdminChat(100), true);
+      assert.equal(isAdminChat('200'), true);
+      assert.equal(isAdminChat(-300), true);
+      assert.equal(isAdminChat(400), false);
+      assert.equal(isAdminChat(''), false);
+    } finally {
+      restore();
+    }
+  });
+
+  it('sends procurement and competitor alerts once per listing and disclosure', () => {
+    assert.match(jobsSrc, /name: 'procurement-alert'.*whenSubscribed\('procurement'/);
+    assert.match(jobsSrc, /name: 'competitor-alert'.*whenSubscribed\('competitor'/);
+    assert.match(jobsSrc, /care:competitor-alert:v1:\$\{disclosure\.receiptNo\}/);
+    assert.match(jobsSrc, /dispatch\(\{ type: 'competitor', payload: toCompetitorNotice\(disclosure\) \}\)/);
+  });
+
+  it('railway server starts the bundled scheduler', () => {
+    const railwaySrc = readSrc('railway-server.mjs');
+    assert.match(railwaySrc, /server', 'scheduler', 'index\.js'/);
+    assert.match(railwaySrc, /mod\.startScheduler\(\)/);
+  });
+});
@@ -228,3 +228,116 @@ describe('getVesselSnapshot caching (HIGH-1)', () => {
   // NOTE: Full integration test (mocking fetch, verifying cache hits) requires
   // a TypeScript-capable test runner. This structural test verifies the pattern.
 });
+
+// ========================================================================
+// 7. Care service: one cached snapshot shared by every consumer
+// ========================================================================
+
+describe('care.v1 shared ingestion snapshot', () => {
+  const shared = readSrc('server/worldmonitor/care/v1/_shared.ts');
+  const webhook = readSrc('api/telegram/webhook.js');
+  const gateway = readSrc('api/[domain]/v1/[rpc].ts');
+
+  it('caches the snapshot in Redis with request coalescing', () => {
+    assert.match(shared, /cachedFetchJson\(key, SNAPSHOT_CACHE_TTL, \(\) => buildCareSnapshot\(profile, registry\)\)/);
+    assert.match(shared, /SNAPSHOT_CACHE_KEY = 'care:snapshot:v1'/);
+  });
+
+  it('marks the fallback snapshot degraded with generatedAt 0 instead of the current time', () => {
+    assert.match(shared, /function emptySnapshot\(\): CareSnapshot \{[\s\S]*?generatedAt: 0,\n  \};/);
+    assert.match(shared, /\?\? emptySnapshot\(\);\n  \} catch \{\n    return emptySnapshot\(\);/);
+  });
+
+  it('keys the snapshot by keyword profile and competitor registry version so saved edits take effect', () => {
+    assert.match(shared, /const key = `\$\{SNAPSHOT_CACHE_KEY\}:\$\{profile\.updatedAt\}:\$\{registry\.updatedAt\}`/);
+    assert.match(shared, /filterByKeywords\(raw, undefined, profile\)/);
+    assert.match(shared, /extractProcurementListings\(filtered, .*, profile\)/);
+  });
+
+  it('scores classified competitor filings into S3 with the news', () => {
+    assert.match(shared, /fetchCompetitorDisclosures\(registry\)/);
+    assert.match(shared, /calculateOpportunityScore\(\s*\[\.\.\.verified, \.\.\.disclosureScoreItems\(disclosures\), /);
+  });
+
+  it('builds the policy calendar from the welfare policy feeds and scores it into S1', () => {
+    assert.match(shared, /fetchWelfarePolicyItems\(now\)/);
+    assert.match(shared, /buildPolicyCalendar\(detectPressEvents\(welfare\), now\)/);
+    assert.match(shared, /\.\.\.policyCalendarScoreItems\(calendar, now\)\]/);
+  });
+
+  it('does not cache a run where every feed failed', () => {
+    assert.match(shared, /if \(raw\.length === 0\) return null;/);
+  });
+
+  it('serves every RPC from getCareSnapshot', () => {
+    for (const rpc of ['list-track-news', 'get-opportunity-score', 'list-procurement-listings', 'list-competitor-disclosures', 'list-policy-calendar']) {
+      const src = readSrc(`server/worldmonitor/care/v1/${rpc}.ts`);
+      assert.match(src, /await getCareSnapshot\(\)/, `${rpc} should read the shared snapshot`);
+    }
+  });
+
+  it('is registered in the gateway', () => {
+    assert.match(gateway, /createCareServiceRoutes\(careHandler, serverOptions\)/);
+  });
+
+  it('telegram webhook reads the care service instead of its own feeds and score', () => {
+    assert.doesNotMatch(webhook, /TRACK_FEEDS/);
+    assert.doesNotMatch(webhook, /function calculateScore/);
+    assert.match(webhook, /careRpc\('get-opportunity-score'\)/);
+    assert.match(webhook, /careRpc\('list-track-news'/);
+    assert.match(webhook, /careRpc\('list-procurement-listings'/);
+  });
+
+  it('telegram webhook resolves the care API origin once, not per request', () => {
+    assert.match(webhook, /const CARE_API_ORIGIN = \(process\.env\.CARE_API_ORIGIN/);
+    assert.doesNotMatch(webhook, /let careApiOrigin/);
+    assert.doesNotMatch(webhook, /new URL\(request\.url\)\.origin/);
+  });
+
+  it('telegram webhook persists keywords through the keyword profile RPC and chat settings per chat', () => {
+    assert.match(webhook, /careRpc\('update-keyword-profile'/);
+    assert.match(webhook, /careRpc\('update-telegram-subscription'/);
+    assert.doesNotMatch(webhook, /settings\.customKeywords/);
+    assert.doesNotMatch(webhook, /settings\.alertThreshold/);
+    assert.doesNotMatch(webhook, /settings\.telegramEnabled/);
+  });
+
+  it('telegram webhook records inline actions and exclusions server-side instead of in memory', () => {
+    assert.doesNotMatch(webhook, /serverExclusions/);
+    assert.match(webhook, /update\.callback_query/);
+    assert.match(webhook, /careRpc\('record-bot-action'/);
+    assert.match(webhook, /careRpc\('list-bot-actions', \{ kind: 'exclude' \}\)/);
+  });
+
+  it('stores the shared keyword profile only with the server secret and a checked write', () => {
+    assert.match(readSrc('server/worldmonitor/care/v1/update-keyword-profile.ts'), /requireServerSecret\(ctx\);/);
+    assert.match(shared, /if \(!\(await setJsonChecked\(KEYWORD_PROFILE_KEY, profile, KEYWORD_PROFILE_TTL\)\)\) \{\s*throw new Error/);
+  });
+
+  it('stores the competitor registry only with the server secret and a checked write', () => {
+    assert.match(readSrc('server/worldmonitor/care/v1/update-competitors.ts'), /requireServerSecret\(ctx\);/);
+    assert.match(shared, /if \(!\(await setJsonChecked\(COMPETITOR_REGISTRY_KEY, registry, COMPETITOR_REGISTRY_TTL\)\)\) \{\s*throw new Error/);
+  });
+
+  it('puts the bot RPCs behind the server secret the webhook sends, without exposing chat IDs', () => {
+    for (const rpc of ['get-telegram-subscription', 'update-telegram-subscription', 'record-bot-action']) {
+      assert.match(readSrc(`server/worldmonitor/care/v1/${rpc}.ts`), /requireServerSecret\(ctx\);/, `${rpc} should require the secret`);
+    }
+    assert.match(readSrc('server/worldmonitor/care/v1/list-bot-actions.ts'), /chatId: ''/);
+    assert.match(webhook, /'X-Care-Server-Secret': CARE_SERVER_SECRET/);
+  });
+
+  it('relays the server secret only for updates authenticated by the webhook secret', () => {
+    assert.match(webhook, /\.\.\.\(WEBHOOK_SECRET \? \{ 'X-Care-Server-Secret': CARE_SERVER_SECRET \} : \{\}\)/);
+  });
+
+  it('lets only admin chats change the shared keyword profile, exclusions and dashboard actions', () => {
+    assert.match(webhook, /process\.env\.TELEGRAM_CHAT_ID \|\| process\.env\.VITE_TELEGRAM_CHAT_ID, \.\.\.\(process\.env\.TELEGRAM_ADMIN_CHAT_IDS/);
+    for (const fn of ['handleKeyword', 'handleExclude', 'handleCallback']) {
+      const body = webhook.slice(webhook.indexOf(`async function ${fn}(`));
+      const gate = body.indexOf('if (!isAdminChat(chatId))');
+      const write = body.search(/updateKeywordProfile\(|careRpc\('record-bot-action'/);
+      assert.ok(gate > 0 && gate < write, `${fn} should check the admin chat before writing`);
+    }
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir, importTs } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-sroi-engine-');
+
+const close = (actual, expected, msg) => assert.ok(Math.abs(actual - expected) < 1e-6, `${msg}: ${actual} != ${expected}`);
+
+function outcome(overrides = {}) {
+  return {
+    id: 'o1',
+    stakeholderId: 's1',
+    description: '이직 감소로 충원 비용 절감',
+    indicator: '연간 이직자 수 감소',
+    quantity: 4,
+    proxyValue: 8_500_000,
+    proxySource: '교육청 충원 비용',
+    deadweight: 0.25,
+    attribution: 0.2,
+    displacement: 0,
+    dropOff: 0.5,
+    durationYears: 3,
+    irisCategory: 'employment',
+    ...overrides,
+  };
+}
+
+function model(overrides = {}) {
+  return {
+    title: '교사 번아웃',
+    investment: 20_000_000,
+    investmentDescription: '연 구독료',
+    discountRate: 0.035,
+    stakeholders: [{ id: 's1', name: '교사', description: '30명' }],
+    outcomes: [outcome()],
+    ...overrides,
+  };
+}
+
+describe('SROI engine', () => {
+  it('applies deadweight, attribution, displacement and drop-off before discounting', async () => {
+    const { calculateSroi } = await importTs('src/services/sroi/engine.ts');
+    const result = calculateSroi(model());
+    const annual = 4 * 8_500_000 * 0.75 * 0.8;
+    const o = result.outcomes[0];
+
+    close(o.grossValue, 34_000_000, 'gross');
+    close(o.annualImpact, annual, 'annual impact');
+    assert.deepEqual(o.yearlyValues.map(Math.round), [annual, annual / 2, annual / 4].map(Math.round));
+    const pv = annual / 1.035 + annual / 2 / 1.035 ** 2 + annual / 4 / 1.035 ** 3;
+    close(result.totalPresentValue, pv, 'present value');
+    close(result.netPresentValue, pv - 20_000_000, 'npv');
+    close(result.ratio, pv / 20_000_000, 'ratio');
+    assert.equal(result.yearlyTotals.length, 3);
+  });
+
+  it('clamps out-of-range inputs and returns a zero ratio without investment', async () => {
+    const { calculateSroi } = await importTs('src/services/sroi/engine.ts');
+    const result = calculateSroi(model({
+      investment: 0,
+      outcomes: [outcome({ deadweight: 1.5, durationYears: 40 }), outcome({ id: 'o2', quantity: -3 })],
+    }));
+    assert.equal(result.ratio, 0);
+    assert.equal(result.outcomes[0].annualImpact, 0);
+    assert.equal(result.outcomes[0].yearlyValues.length, 10);
+    assert.equal(result.outcomes[1].annualImpact, 0);
+  });
+
+  it('orders tornado bars by swing with the proxy of the largest outcome first', async () => {
+    const { calculateSroi, sensitivityAnalysis } = await importTs('src/services/sroi/engine.ts');
+    const m = model({
+      outcomes: [
+        outcome(),
+        outcome({ id: 'o2', description: '행정시간 절감', quantity: 100, proxyValue: 25_000, dropOff: 0, durationYears: 1 }),
+      ],
+    });
+    const base = calculateSroi(m).ratio;
+    const bars = sensitivityAnalysis(m);
+
+    assert.ok(bars.length > 0);
+    for (let i = 1; i < bars.length; i++) assert.ok(bars[i - 1].swing >= bars[i].swing);
+    for (const bar of bars) assert.ok(bar.lowRatio <= base + 1e-9 && bar.highRatio >= base - 1e-9, bar.key);
+    assert.equal(bars[0].outcomeId, 'o1');
+    assert.ok(['proxyValue', 'quantity'].includes(bars[0].parameter));
+    assert.ok(bars.some((b) => b.parameter === 'discountRate'));
+    assert.deepEqual(sensitivityAnalysis(model({ investment: 0 })), []);
+  });
+
+  it('suggests IRIS+ categories from the outcome text', async () => {
+    const { suggestIrisCategory, irisCategory } = await importTs('src/services/sroi/iris.ts');
+    assert.equal(suggestIrisCategory('교사 이직 감소로 채용 비용 절감'), 'employment');
+    assert.equal(suggestIrisCategory('도전 행동 사고 감소와 보호자 스트레스 완화'), 'health');
+    assert.equal(suggestIrisCategory('unrelated'), '');
+    assert.equal(irisCategory('education').label, 'Education');
+  });
+});
+
+describe('SROI CSV export', () => {
+  it('writes one row per outcome with the adjustments, present value and session totals', async () => {
+    const { sroiSessionsToCSV, SROI_CSV_HEADER } = await modules.import('src/services/sroi/csv.ts', {
+      './engine': 'src/services/sroi/engine.ts',
+      './iris': 'src/services/sroi/iris.ts',
+    });
+    const csv = sroiSessionsToCSV([
+      { id: 'a', date: '2026-10-19', title: '교사 번아웃', model: model(), insight: '제안서에 "3년" 가정 명시, 감소율 검증' },
+      { id: 'b', date: '2026-10-18', title: '빈 세션', model: model({ outcomes: [] }), insight: '' },
+    ]);
+    const lines = csv.split('\n');
+    assert.equal(lines[0], SROI_CSV_HEADER.join(','));
+    assert.equal(lines.length, 3);
+
+    const header = lines[0].split(',');
+    const row = lines[1].split(',');
+    const col = (name) => row[header.indexOf(name)];
+    assert.equal(col('stakeholder'), '교사');
+    assert.equal(col('proxy_value'), '8500000');
+    assert.equal(col('deadweight'), '0.25');
+    assert.equal(col('duration_years'), '3');
+    assert.equal(col('iris_category'), 'Employment');
+    assert.equal(col('annual_impact'), String(Math.round(4 * 8_500_000 * 0.75 * 0.8)));
+    assert.match(lines[1], /"제안서에 ""3년"" 가정 명시, 감소율 검증"$/);
+    assert.match(lines[2], /^b,2026-10-18,빈 세션,20000000,/);
+  });
+});
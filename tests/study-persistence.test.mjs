@@ -0,0 +1,184 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir, importTs } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-study-persistence-');
+
+// records.ts imports dailyBriefSchedule without an extension
+const importRecords = () => modules.import('src/services/study/records.ts', {
+  '../dailyBriefSchedule': 'src/services/dailyBriefSchedule.ts',
+});
+
+const INSIGHT_MODULES = ['analysis', 'pricing', 'sroi', 'pitch', 'field_story', 'regulation', 'benchmark', 'custom'];
+const NOT_NULL = {
+  insights: ['date', 'source_session_id', 'source_module', 'content'],
+  pitch_sessions: ['date', 'questions'],
+  weekly_reviews: ['week_start', 'week_end'],
+  daily_streaks: ['date'],
+};
+
+/**
+ * Local stand-in for the Supabase project after migration 006:
+ * RLS `auth.uid() = user_id`, NOT NULL / CHECK constraints, and PostgREST merge-duplicates upserts.
+ */
+function createLocalSupabase() {
+  const tables = new Map();
+  const state = { userId: null };
+  const rowsOf = (table) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table);
+  };
+
+  return {
+    state,
+    tables,
+    async currentUserId() {
+      return state.userId;
+    },
+    async upsert(table, rows, onConflict) {
+      const keys = onConflict.split(',');
+      for (const row of rows) {
+        if (row.user_id !== state.userId) return { message: `new row violates row-level security policy for table "${table}"` };
+        const missing = (NOT_NULL[table] ?? []).find((col) => row[col] === undefined || row[col] === null);
+        if (missing) return { message: `null value in column "${missing}" violates not-null constraint` };
+        if (table === 'insights' && !INSIGHT_MODULES.includes(row.source_module)) return { message: 'violates check constraint "insights_source_module_check"' };
+      }
+      const stored = rowsOf(table);
+      for (const row of rows) {
+        const existing = stored.find((r) => keys.every((k) => r[k] === row[k]));
+        if (existing) Object.assign(existing, row);
+        else stored.push({ ...row });
+      }
+      return null;
+    },
+    async select(table, filter) {
+      let rows = rowsOf(table).filter((r) => r.user_id === state.userId);
+      for (const [column, value] of Object.entries(filter.eq ?? {})) rows = rows.filter((r) => r[column] === value);
+      if (filter.range) {
+        const [column, from, to] = filter.range;
+        rows = rows.filter((r) => r[column] >= from && r[column] <= to);
+      }
+      if (filter.orderBy) {
+        const sign = filter.ascending ? 1 : -1;
+        rows = [...rows].sort((a, b) => sign * String(a[filter.orderBy]).localeCompare(String(b[filter.orderBy])));
+      }
+      if (filter.limit) rows = rows.slice(0, filter.limit);
+      return { data: rows.map((r) => ({ ...r })), error: null };
+    },
+  };
+}
+
+const ALICE = '11111111-1111-4111-8111-111111111111';
+const BOB = '22222222-2222-4222-8222-222222222222';
+
+describe('study repositories', () => {
+  it('stamps the signed-in user and reports why nothing reached the cloud', async () => {
+    const { createStudyRepositories } = await importTs('src/services/repository/repository.ts');
+    const db = createLocalSupabase();
+    const repos = createStudyRepositories(async () => db);
+    const insight = { id: 's1', date: '2026-10-19', source_session_id: 's1', source_module: 'analysis', content: '마진 개선' };
+
+    const signedOut = await repos.insights.upsert(insight);
+    assert.deepEqual([signedOut.ok, signedOut.reason], [false, 'signed-out']);
+    assert.equal(db.tables.get('insights'), undefined);
+
+    db.state.userId = ALICE;
+    assert.deepEqual(await repos.insights.upsert(insight), { ok: true, data: 1 });
+    assert.equal(db.tables.get('insights')[0].user_id, ALICE);
+
+    const rejected = await repos.insights.upsert({ ...insight, id: 's2', source_module: 'unknown' });
+    assert.equal(rejected.reason, 'error');
+    assert.match(rejected.message, /insights_source_module_check/);
+
+    const unconfigured = await createStudyRepositories(async () => null).insights.list();
+    assert.equal(unconfigured.reason, 'unconfigured');
+  });
+
+  it('only lists the signed-in user\'s rows, filtered and ordered', async () => {
+    const { createStudyRepositories } = await importTs('src/services/repository/repository.ts');
+    const db = createLocalSupabase();
+    const repos = createStudyRepositories(async () => db);
+    const row = (id, date, module) => ({ id, date, source_session_id: id, source_module: module, content: id, created_at: `${date}T09:00:00Z` });
+
+    db.state.userId = ALICE;
+    await repos.insights.upsert([row('a1', '2026-10-12', 'pricing'), row('a2', '2026-10-19', 'pricing'), row('a3', '2026-10-14', 'sroi')]);
+    db.state.userId = BOB;
+    await repos.insights.upsert(row('b1', '2026-10-19', 'pricing'));
+
+    db.state.userId = ALICE;
+    const pricing = await repos.insights.list({ where: { source_module: 'pricing' }, orderBy: 'created_at' });
+    assert.deepEqual(pricing.data.map((r) => r.id), ['a2', 'a1']);
+    const week = await repos.insights.list({ range: ['date', '2026-10-13', '2026-10-19'], orderBy: 'date', ascending: true });
+    assert.deepEqual(week.data.map((r) => r.id), ['a3', 'a2']);
+  });
+
+  it('merges routine slots per day and keeps one weekly review per week', async () => {
+    const { createStudyRepositories } = await importTs('src/services/repository/repository.ts');
+    const db = createLocalSupabase();
+    db.state.userId = ALICE;
+    const repos = createStudyRepositories(async () => db);
+
+    await repos.dailyStreaks.upsert({ date: '2026-10-19', morning_completed: true, morning_session_id: 's1' });
+    await repos.dailyStreaks.upsert({ date: '2026-10-19', evening_completed: true, evening_session_id: 's2' });
+    const streaks = db.tables.get('daily_streaks');
+    assert.equal(streaks.length, 1);
+    assert.equal(streaks[0].morning_completed, true);
+    assert.equal(streaks[0].evening_session_id, 's2');
+
+    await repos.weeklyReviews.upsert({ week_start: '2026-10-19', week_end: '2026-10-25', q1_market_signal: '초안' });
+    await repos.weeklyReviews.upsert({ week_start: '2026-10-19', week_end: '2026-10-25', q1_market_signal: '최종' });
+    assert.deepEqual(db.tables.get('weekly_reviews').map((r) => r.q1_market_signal), ['최종']);
+  });
+});
+
+describe('study session rows', () => {
+  const session = (type, overrides = {}) => ({
+    id: `session-${type}`,
+    type,
+    step: 4,
+    data: { myAnswer: '매출 성장률 18%', insight: '' },
+    startedAt: '2026-10-19T11:00:00.000Z',
+    ...overrides,
+  });
+
+  it('writes an insight row for every session and a pitch row only for pitches', async () => {
+    const { studySessionRows } = await importRecords();
+    // 2026-10-19 is a Monday: the morning routine is financial analysis
+    const at = new Date(2026, 9, 19, 20, 0);
+
+    const financial = studySessionRows(session('financial'), at);
+    assert.equal(financial.insight.source_module, 'analysis');
+    assert.equal(financial.insight.source_session_id, 'session-financial');
+    assert.equal(financial.insight.content, '매출 성장률 18%', 'falls back to the answer when no insight was written');
+    assert.equal(financial.pitch, null);
+    assert.deepEqual(financial.streak, { date: '2026-10-19', morning_completed: true, morning_session_id: 'session-financial' });
+
+    const pitch = studySessionRows(session('pitch', {
+      data: { myAnswer: '60초 스크립트', insight: '숫자로 시작' },
+      generation: { question: { title: '이사회 피칭', prompt: 'p', context: [], answerGuide: '' }, reference: '참고 답안', provider: 'groq', model: 'm' },
+    }), at);
+    assert.equal(pitch.insight.content, '숫자로 시작');
+    assert.equal(pitch.pitch.my_carevia_script, '60초 스크립트');
+    assert.deepEqual(pitch.pitch.ai_references, ['참고 답안']);
+    assert.equal(pitch.pitch.company_name, '이사회 피칭');
+
+    const custom = studySessionRows(session('custom', { data: { myAnswer: '', insight: '' } }), at);
+    assert.equal(custom.insight, null);
+    assert.equal(custom.streak.evening_completed, true);
+  });
+
+  it('restores completed sessions from insight rows without dropping local detail', async () => {
+    const { completedSessionFromInsight, mergeCompletedSessions } = await importRecords();
+    const cloud = [
+      completedSessionFromInsight({ id: 'x', date: '2026-10-12', source_session_id: 'old', source_module: 'analysis', content: '클라우드', created_at: '2026-10-12T01:00:00Z' }),
+      completedSessionFromInsight({ id: 'y', date: '2026-10-19', source_session_id: 'both', source_module: 'pricing', session_type: 'pricing', content: '클라우드', my_answer: 'a', created_at: '2026-10-19T01:00:00Z' }),
+    ];
+    assert.equal(cloud[0].type, 'financial');
+    assert.deepEqual(cloud[1].data, { myAnswer: 'a', insight: '클라우드' });
+
+    const local = [{ id: 'both', type: 'pricing', data: { myAnswer: 'a', insight: '로컬' }, completedAt: '2026-10-19T01:00:00Z', depthScores: [] }];
+    const merged = mergeCompletedSessions(local, cloud);
+    assert.deepEqual(merged.map((s) => s.id), ['old', 'both']);
+    assert.equal(merged[1].data.insight, '로컬');
+  });
+});
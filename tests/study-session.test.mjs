@@ -0,0 +1,267 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { STUB_MODEL, createLlmStubServer } from '../scripts/llm-stub-server.mjs';
+import { createModuleDir, importTs } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-study-deps-');
+
+const studyDeps = {
+  '../../../_shared/constants': 'server/_shared/constants.ts',
+  '../../../_shared/hash': 'server/_shared/hash.ts',
+  '../../../_shared/redis': 'server/_shared/redis.ts',
+  '../../../../src/services/study/types': 'src/services/study/types.ts',
+  '../../../../src/services/study/generator': 'src/services/study/generator.ts',
+  '../../../../src/generated/server/worldmonitor/care/v1/service_server': 'src/generated/server/worldmonitor/care/v1/service_server.ts',
+};
+
+// _study.ts pulls provider credentials from news/v1/_shared.ts, which has its own relative import
+const newsShared = modules.patch('server/worldmonitor/news/v1/_shared.ts', {
+  ...studyDeps,
+  './dedup.mjs': 'server/worldmonitor/news/v1/dedup.mjs',
+}, '_news_shared.ts');
+const studyUrl = modules.patch('server/worldmonitor/care/v1/_study.ts', {
+  ...studyDeps,
+  '../../news/v1/_shared': newsShared,
+}, '_study.ts');
+
+const importHandler = (relPath) => modules.import(relPath, {
+  ...studyDeps,
+  './_study': studyUrl,
+});
+
+const COMPANY = {
+  id: 'c-1',
+  name: '우리아이들',
+  basedOn: '특수교육 솔루션 기업',
+  category: '특수교육',
+  description: '발달장애 아동 교구·플랫폼',
+  financials: JSON.stringify({ revenue: [{ year: 2024, value: 120 }, { year: 2025, value: 150 }] }),
+  learningFocus: '성장률과 R&D 비중',
+  careviaRelevance: 'B2G 교육청 채널',
+  level: 'L2',
+};
+
+const LLM_ENV = ['OLLAMA_API_URL', 'OLLAMA_MODEL', 'GROQ_API_KEY', 'OPENROUTER_API_KEY', 'UPSTASH_REDIS_REST_URL', 'UPSTASH_REDIS_REST_TOKEN'];
+const savedEnv = Object.fromEntries(LLM_ENV.map((key) => [key, process.env[key]]));
+const originalFetch = globalThis.fetch;
+
+function useProviders(env) {
+  for (const key of LLM_ENV) delete process.env[key];
+  Object.assign(process.env, env);
+}
+
+afterEach(() => {
+  for (const [key, value] of Object.entries(savedEnv)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+  globalThis.fetch = originalFetch;
+});
+
+describe('study question generator', () => {
+  it('maps session types to their source kind and article track', async () => {
+    const { sourceKindFor, articleTrackFor, isStudySessionType } = await importTs('src/services/study/generator.ts');
+    assert.equal(sourceKindFor('financial'), 'company');
+    assert.equal(sourceKindFor('pricing'), 'company');
+    assert.equal(sourceKindFor('sroi'), 'scenario');
+    assert.equal(sourceKindFor('pitch'), 'scenario');
+    assert.equal(sourceKindFor('regulation'), 'article');
+    assert.equal(articleTrackFor('regulation'), 'policy');
+    assert.equal(articleTrackFor('benchmark'), 'competitor');
+    assert.equal(articleTrackFor('custom'), '');
+    assert.equal(isStudySessionType('sroi'), true);
+    assert.equal(isStudySessionType('poetry'), false);
+  });
+
+  it('builds the question from the source and falls back to a framework question without one', async () => {
+    const { buildStudyQuestion, dataBadge } = await importTs('src/services/study/generator.ts');
+    const source = { kind: 'company', company: COMPANY };
+    const question = buildStudyQuestion('financial', source);
+    assert.match(question.title, /우리아이들/);
+    assert.ok(question.context.length > 0);
+    assert.ok(question.answerGuide);
+    assert.equal(dataBadge(source), 'synthetic');
+
+    const framework = buildStudyQuestion('financial', null);
+    assert.doesNotMatch(framework.title, /우리아이들/);
+    assert.ok(framework.prompt);
+    assert.equal(dataBadge(null), null);
+  });
+});
+
+describe('parseEvaluation', () => {
+  it('clamps scores, drops unknown kinds and dimensions, and keeps the first duplicate', async () => {
+    const { parseEvaluation } = await import(studyUrl);
+    const parsed = parseEvaluation(`Here you go:\n${JSON.stringify({
+      summary: '요약',
+      gaps: [
+        { kind: 'missed', point: '할인율', detail: '현재가치 환산이 빠짐' },
+        { kind: 'bogus', point: '무시', detail: '' },
+        { kind: 'covered', point: '', detail: '포인트 없음' },
+      ],
+      depth_scores: [
+        { dimension: 'risk', score: 9, reason: '과대' },
+        { dimension: 'accuracy', score: -2, reason: '음수' },
+        { dimension: 'accuracy', score: 4, reason: '중복' },
+        { dimension: 'style', score: 3, reason: '없는 차원' },
+        { dimension: 'structure', score: 'abc', reason: '숫자 아님' },
+      ],
+    })}\nThanks`);
+
+    assert.equal(parsed.summary, '요약');
+    assert.deepEqual(parsed.gaps, [{ kind: 'missed', point: '할인율', detail: '현재가치 환산이 빠짐' }]);
+    assert.deepEqual(parsed.depthScores, [
+      { dimension: 'accuracy', score: 0, reason: '음수' },
+      { dimension: 'risk', score: 5, reason: '과대' },
+    ]);
+  });
+
+  it('returns null for text without a usable evaluation', async () => {
+    const { parseEvaluation } = await import(studyUrl);
+    assert.equal(parseEvaluation('참고 답안만 있습니다.'), null);
+    assert.equal(parseEvaluation('{"summary":"x","gaps":[],"depth_scores":[]}'), null);
+  });
+
+  it('parses a weekly review, deduplicating blind spots and rejecting one without a summary', async () => {
+    const { parseWeeklyReview } = await import(studyUrl);
+    const parsed = parseWeeklyReview('리뷰입니다 {"summary":" 재무 세션 2회 ","blind_spots":["정책 공백"," 정책 공백",3,""],"growth_note":"SROI 1회"}');
+    assert.deepEqual(parsed, { summary: '재무 세션 2회', blindSpots: ['정책 공백'], growthNote: 'SROI 1회' });
+    assert.equal(parseWeeklyReview('{"blind_spots":["정책"]}'), null);
+  });
+});
+
+describe('study RPCs against the local LLM stub', () => {
+  let stub;
+
+  before(async () => {
+    stub = await createLlmStubServer();
+  });
+
+  after(async () => {
+    await stub.close();
+  });
+
+  it('generateStudySession returns the question with a reference answer from Ollama', async () => {
+    useProviders({ OLLAMA_API_URL: stub.origin, OLLAMA_MODEL: STUB_MODEL });
+    const { generateStudySession } = await importHandler('server/worldmonitor/care/v1/generate-study-session.ts');
+
+    const resp = await generateStudySession({}, { sessionType: 'financial', company: COMPANY });
+    assert.equal(resp.fallback, false);
+    assert.equal(resp.provider, 'ollama');
+    assert.equal(resp.model, STUB_MODEL);
+    assert.match(resp.question.title, /우리아이들/);
+    assert.match(resp.reference, /CareVia 적용/);
+
+    const request = stub.requests.at(-1);
+    assert.equal(request.model, STUB_MODEL);
+    assert.match(request.messages[0].content, /financial statement analysis/);
+  });
+
+  it('rejects unknown session types', async () => {
+    useProviders({ OLLAMA_API_URL: stub.origin });
+    const { generateStudySession } = await importHandler('server/worldmonitor/care/v1/generate-study-session.ts');
+    await assert.rejects(generateStudySession({}, { sessionType: 'poetry' }), /Unknown session type/);
+    await assert.rejects(generateStudySession({}, { sessionType: 'poetry' }), { statusCode: 400 });
+  });
+
+  it('returns the question with fallback set when no provider is configured', async () => {
+    useProviders({});
+    const { generateStudySession } = await importHandler('server/worldmonitor/care/v1/generate-study-session.ts');
+    const resp = await generateStudySession({}, { sessionType: 'regulation' });
+    assert.equal(resp.fallback, true);
+    assert.equal(resp.reference, '');
+    assert.ok(resp.question.prompt);
+  });
+
+  it('evaluateStudyAnswer scores different answers differently', async () => {
+    useProviders({ OLLAMA_API_URL: stub.origin, OLLAMA_MODEL: STUB_MODEL });
+    const { evaluateStudyAnswer } = await importHandler('server/worldmonitor/care/v1/evaluate-study-answer.ts');
+    const question = { title: 'SROI', prompt: 'SROI를 추정하세요.', context: ['교사 30명'], answerGuide: '' };
+
+    const thin = await evaluateStudyAnswer({}, { sessionType: 'sroi', question, reference: '참고', myAnswer: '비용이 줄어듭니다.' });
+    const rich = await evaluateStudyAnswer({}, {
+      sessionType: 'sroi', question, reference: '참고',
+      myAnswer: '이직 감소 3.9명 × 850만원 = 3,315만원. CareVia 제안서에 쓰고, 자기보고 편향 리스크를 표시합니다.',
+    });
+
+    assert.equal(thin.fallback, false);
+    assert.equal(thin.depthScores.length, 5);
+    assert.ok(thin.gaps.some((g) => g.kind === 'missed'));
+    const score = (resp, dimension) => resp.depthScores.find((d) => d.dimension === dimension).score;
+    assert.ok(score(rich, 'quantification') > score(thin, 'quantification'));
+    assert.ok(score(rich, 'application') > score(thin, 'application'));
+  });
+
+  it('falls through to the next provider when one fails or returns unparseable output', async () => {
+    const flaky = await createLlmStubServer({ failures: 1 });
+    const prose = await createLlmStubServer({ reply: () => '평가를 JSON으로 드릴 수 없습니다.' });
+    try {
+      // Ollama (flaky) -> Groq (redirected to the stub) answers
+      useProviders({ OLLAMA_API_URL: flaky.origin, GROQ_API_KEY: 'test-key' });
+      globalThis.fetch = (input, init) => originalFetch(String(input).replace('https://api.groq.com/openai', stub.origin), init);
+      const { generateStudySession } = await importHandler('server/worldmonitor/care/v1/generate-study-session.ts');
+      const generated = await generateStudySession({}, { sessionType: 'pricing', company: COMPANY });
+      assert.equal(flaky.requests.length, 1);
+      assert.equal(generated.provider, 'groq');
+      assert.equal(generated.fallback, false);
+
+      // A provider whose gap check does not parse is skipped like a failed one
+      useProviders({ OLLAMA_API_URL: prose.origin });
+      const { evaluateStudyAnswer } = await importHandler('server/worldmonitor/care/v1/evaluate-study-answer.ts');
+      const evaluation = await evaluateStudyAnswer({}, { sessionType: 'pricing', question: generated.question, reference: generated.reference, myAnswer: '예정가의 95%' });
+      assert.equal(prose.requests.length, 1);
+      assert.equal(evaluation.fallback, true);
+      assert.deepEqual(evaluation.depthScores, []);
+    } finally {
+      await flaky.close();
+      await prose.close();
+    }
+  });
+
+  it('generateWeeklyReview turns the ignored tracks and competencies into blind spots', async () => {
+    useProviders({ OLLAMA_API_URL: stub.origin, OLLAMA_MODEL: STUB_MODEL });
+    const { generateWeeklyReview } = await importHandler('server/worldmonitor/care/v1/generate-weekly-review.ts');
+
+    const resp = await generateWeeklyReview({}, {
+      weekStart: '2026-10-12',
+      weekEnd: '2026-10-18',
+      sessions: [{ kind: 'financial', title: '재무 분석: 우리아이들', detail: 'R&D 비중 18%' }],
+      memos: [],
+      bookmarks: [{ kind: 'investment', title: '케어테크 시리즈B', detail: '' }],
+      competencies: [{ label: '재무 분석', level: 'L1', proficiency: 24, change: 9, sessions: 1 }],
+      ignored: ['정책/규제', '경쟁사'],
+      scoreTrend: '52 → 61 (S1 +8, S2 -2, S3 +1)',
+      answers: ['보조금 확대', '', '', '', ''],
+    });
+
+    assert.equal(resp.fallback, false);
+    assert.equal(resp.provider, 'ollama');
+    assert.match(resp.summary, /세션 1회/);
+    assert.deepEqual(resp.blindSpots, ['정책/규제: 이번 주 활동이 없습니다.', '경쟁사: 이번 주 활동이 없습니다.']);
+    assert.ok(resp.growthNote);
+
+    const prompt = stub.requests.at(-1).messages[1].content;
+    assert.match(prompt, /\[financial\] 재무 분석: 우리아이들 — R&D 비중 18%/);
+    assert.match(prompt, /재무 분석: L1, proficiency 24\/100 \(\+9 this week\)/);
+    assert.match(prompt, /Q1: 보조금 확대/);
+  });
+
+  it('generateWeeklyReview reports fallback without a provider and rejects a malformed week', async () => {
+    useProviders({});
+    const { generateWeeklyReview } = await importHandler('server/worldmonitor/care/v1/generate-weekly-review.ts');
+    const resp = await generateWeeklyReview({}, { weekStart: '2026-10-12', sessions: [], ignored: ['임팩트'] });
+    assert.equal(resp.fallback, true);
+    assert.deepEqual(resp.blindSpots, []);
+    await assert.rejects(generateWeeklyReview({}, { weekStart: 'last week' }), /weekStart/);
+    await assert.rejects(generateWeeklyReview({}, { weekStart: 'last week' }), { statusCode: 400 });
+  });
+
+  it('skips the LLM for an empty answer', async () => {
+    useProviders({ OLLAMA_API_URL: stub.origin });
+    const before = stub.requests.length;
+    const { evaluateStudyAnswer } = await importHandler('server/worldmonitor/care/v1/evaluate-study-answer.ts');
+    const resp = await evaluateStudyAnswer({}, { sessionType: 'custom', question: { title: '', prompt: 'Q', context: [], answerGuide: '' }, reference: '', myAnswer: '   ' });
+    assert.equal(resp.fallback, true);
+    assert.equal(stub.requests.length, before);
+  });
+});
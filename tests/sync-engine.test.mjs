@@ -0,0 +1,254 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = resolve(__dirname, '..');
+
+const importTs = (relPath) => import(pathToFileURL(resolve(root, relPath)).href);
+
+const { createSyncEngine, defineCollection, resolveIncoming } = await importTs('src/services/sync/engine.ts');
+const { createMemoryQueue } = await importTs('src/services/sync/queue.ts');
+
+/** zustand-shaped store: getState / setState (shallow merge) / subscribe(state, prev) */
+function createStore(initial) {
+  let state = initial;
+  const listeners = new Set();
+  return {
+    getState: () => state,
+    setState(patch) {
+      const prev = state;
+      state = { ...state, ...patch };
+      listeners.forEach((listener) => listener(state, prev));
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Local stand-in for sync_records after migration 007:
+ * per-user rows keyed by (collection, record_id), stale updated_at writes dropped,
+ * synced_at stamped from a server clock that always advances.
+ */
+function createServer() {
+  const rows = new Map();
+  let clock = Date.parse('2026-10-01T00:00:00.000Z');
+  return {
+    rows,
+    remoteFor(device) {
+      return {
+        async currentUserId() {
+          return device.userId;
+        },
+        async push(changes) {
+          for (const change of changes) {
+            const key = `${device.userId}:${change.collection}:${change.id}`;
+            const existing = rows.get(key);
+            if (existing && change.updatedAt < existing.updatedAt) continue;
+            clock += 1000;
+            rows.set(key, { ...change, payload: change.deleted ? null : change.payload, userId: device.userId, syncedAt: new Date(clock).toISOString() });
+          }
+          return { ok: true, data: changes.length };
+        },
+        async pull(since) {
+          const data = [...rows.values()]
+            .filter((row) => row.userId === device.userId && row.syncedAt >= since)
+            .sort((a, b) => a.syncedAt.localeCompare(b.syncedAt))
+            .map(({ userId: _userId, ...change }) => change);
+          return { ok: true, data };
+        },
+      };
+    },
+  };
+}
+
+function createDevice(server, { userId = 'user-1', online = true, notes = [], history = [] } = {}) {
+  const device = { userId, online, stored: new Map() };
+  device.notesStore = createStore({ notes });
+  device.historyStore = createStore({ history });
+  const persist = (key, value) => device.stored.set(key, value);
+  let tick = Date.parse('2026-10-11T00:00:00.000Z');
+  const now = () => new Date((tick += 1000)).toISOString();
+
+  device.queue = createMemoryQueue();
+  device.engine = createSyncEngine({
+    collections: [
+      defineCollection({
+        name: 'notes',
+        store: device.notesStore,
+        storageKey: 'careradar_notes',
+        items: (s) => s.notes,
+        idOf: (n) => n.id,
+        updatedAtOf: (n) => n.updatedAt,
+        toState: (items) => {
+          const sorted = [...items].sort((a, b) => a.id.localeCompare(b.id));
+          return { state: { notes: sorted }, stored: sorted };
+        },
+      }, persist, now),
+      defineCollection({
+        name: 'history',
+        store: device.historyStore,
+        storageKey: 'careradar_history',
+        items: (s) => s.history,
+        idOf: (h) => h.timestamp,
+        updatedAtOf: (h) => h.timestamp,
+        toState: (items) => {
+          const history = [...items].sort((a, b) => a.timestamp.localeCompare(b.timestamp)).slice(-3);
+          return { state: { history }, stored: history };
+        },
+        syncDeletes: false,
+      }, persist, now),
+    ],
+    queue: device.queue,
+    remote: server.remoteFor(device),
+    isOnline: () => device.online,
+  });
+  device.engine.watch();
+  device.setNotes = (notes) => device.notesStore.setState({ notes });
+  device.notes = () => device.notesStore.getState().notes;
+  return device;
+}
+
+const note = (id, text, updatedAt) => ({ id, text, updatedAt });
+const settle = () => new Promise((r) => setTimeout(r, 0));
+
+describe('sync engine', () => {
+  it('queues local changes and keeps them while offline', async () => {
+    const server = createServer();
+    const device = createDevice(server, { online: false });
+
+    device.setNotes([note('a', 'memo', '2026-10-10T09:00:00.000Z')]);
+    await settle();
+    const state = await device.engine.sync();
+
+    assert.equal(state.status, 'offline');
+    assert.equal(state.pending, 1);
+    assert.equal(server.rows.size, 0);
+    const [queued] = await device.queue.all();
+    assert.equal(queued.id, 'a');
+    assert.equal(queued.updatedAt, '2026-10-10T09:00:00.000Z');
+
+    device.online = true;
+    const synced = await device.engine.sync();
+    assert.equal(synced.status, 'idle');
+    assert.equal(synced.pending, 0);
+    assert.equal(server.rows.get('user-1:notes:a').payload.text, 'memo');
+  });
+
+  it('does not push while signed out, then seeds existing local records on first sign-in', async () => {
+    const server = createServer();
+    const device = createDevice(server, { userId: null, notes: [note('a', 'before login', '2026-10-09T00:00:00.000Z')] });
+
+    assert.equal((await device.engine.sync()).status, 'signed-out');
+    assert.equal(server.rows.size, 0);
+
+    device.userId = 'user-1';
+    await device.engine.sync();
+    assert.equal(server.rows.get('user-1:notes:a').payload.text, 'before login');
+
+    // seeding happens once per user
+    await device.engine.sync();
+    assert.equal((await device.queue.all()).length, 0);
+  });
+
+  it('applies newer remote edits and keeps newer local ones (last write wins)', async () => {
+    const server = createServer();
+    const desktop = createDevice(server);
+    const browser = createDevice(server);
+
+    desktop.setNotes([note('a', 'desktop v1', '2026-10-10T09:00:00.000Z'), note('b', 'desktop b', '2026-10-10T09:00:00.000Z')]);
+    await settle();
+    await desktop.engine.sync();
+    await browser.engine.sync();
+    assert.deepEqual(browser.notes().map((n) => n.text), ['desktop v1', 'desktop b']);
+    assert.deepEqual(browser.stored.get('careradar_notes').map((n) => n.id), ['a', 'b']);
+
+    // both edit offline: browser edits a later, desktop edits b later
+    desktop.online = false;
+    browser.online = false;
+    desktop.setNotes([note('a', 'desktop v2', '2026-10-10T10:00:00.000Z'), note('b', 'desktop b2', '2026-10-10T12:00:00.000Z')]);
+    browser.setNotes([note('a', 'browser v2', '2026-10-10T11:00:00.000Z'), note('b', 'browser b2', '2026-10-10T10:30:00.000Z')]);
+    await settle();
+
+    desktop.online = true;
+    browser.online = true;
+    await desktop.engine.sync();
+    await browser.engine.sync();
+    await desktop.engine.sync();
+
+    assert.deepEqual(desktop.notes().map((n) => n.text), ['browser v2', 'desktop b2']);
+    assert.deepEqual(browser.notes().map((n) => n.text), ['browser v2', 'desktop b2']);
+  });
+
+  it('propagates deletions as tombstones', async () => {
+    const server = createServer();
+    const desktop = createDevice(server);
+    const browser = createDevice(server);
+
+    desktop.setNotes([note('a', 'keep', '2026-10-10T09:00:00.000Z'), note('b', 'drop', '2026-10-10T09:00:00.000Z')]);
+    await settle();
+    await desktop.engine.sync();
+    await browser.engine.sync();
+
+    browser.setNotes(browser.notes().filter((n) => n.id !== 'b'));
+    await settle();
+    await browser.engine.sync();
+
+    const tombstone = server.rows.get('user-1:notes:b');
+    assert.equal(tombstone.deleted, true);
+    assert.equal(tombstone.payload, null);
+
+    await desktop.engine.sync();
+    assert.deepEqual(desktop.notes().map((n) => n.id), ['a']);
+  });
+
+  it('does not sync deletions for collections that only trim locally', async () => {
+    const server = createServer();
+    const device = createDevice(server);
+    const entries = ['01', '02', '03', '04'].map((d) => ({ timestamp: `2026-10-${d}T00:00:00.000Z`, score: Number(d) }));
+
+    device.historyStore.setState({ history: entries.slice(0, 3) });
+    await settle();
+    await device.engine.sync();
+    device.historyStore.setState({ history: entries.slice(1) });
+    await settle();
+    await device.engine.sync();
+
+    const rows = [...server.rows.values()].filter((r) => r.collection === 'history');
+    assert.equal(rows.length, 4);
+    assert.ok(rows.every((r) => !r.deleted));
+  });
+
+  it('does not echo applied remote changes back into the outbox', async () => {
+    const server = createServer();
+    const desktop = createDevice(server);
+    const browser = createDevice(server);
+
+    desktop.setNotes([note('a', 'memo', '2026-10-10T09:00:00.000Z')]);
+    await settle();
+    await desktop.engine.sync();
+    await browser.engine.sync();
+    await settle();
+
+    assert.equal((await browser.queue.all()).length, 0);
+    assert.equal(browser.engine.state.pending, 0);
+  });
+
+  it('resolveIncoming skips remote changes older than queued or stored local edits', () => {
+    const incoming = [
+      { collection: 'notes', id: 'a', payload: { v: 1 }, deleted: false, updatedAt: '2026-10-10T09:00:00.000Z', syncedAt: 'x' },
+      { collection: 'notes', id: 'a', payload: { v: 2 }, deleted: false, updatedAt: '2026-10-10T10:00:00.000Z', syncedAt: 'y' },
+      { collection: 'notes', id: 'b', payload: { v: 1 }, deleted: false, updatedAt: '2026-10-10T09:00:00.000Z', syncedAt: 'z' },
+      { collection: 'notes', id: 'c', payload: { v: 1 }, deleted: false, updatedAt: '2026-10-10T09:00:00.000Z', syncedAt: 'w' },
+    ];
+    const pending = new Map([['notes:b', { collection: 'notes', id: 'b', payload: {}, deleted: false, updatedAt: '2026-10-10T11:00:00.000Z' }]]);
+    const local = new Map([['notes', new Map([['c', { updatedAt: '2026-10-10T12:00:00.000Z' }]])]]);
+
+    const accepted = resolveIncoming(incoming, pending, local);
+    assert.deepEqual(accepted.map((c) => [c.id, c.payload.v]), [['a', 2]]);
+  });
+});
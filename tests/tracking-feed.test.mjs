@@ -0,0 +1,227 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir, fileUrl } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-tracking-feed-');
+
+const calculatorUrl = modules.patch('src/services/scoreCalculator.ts', { '../config/sourceTiers': 'src/config/sourceTiers.ts' });
+const { DEFAULT_SCORING_PROFILE } = await import(calculatorUrl);
+const { DEFAULT_KEYWORD_PROFILE } = await import(fileUrl('src/services/keywordProfile.ts'));
+
+// care.v1 responses, the procurement merge and the stores are controlled through `state`
+const stateUrl = modules.stub('state', `
+export const state = {};
+export const reset = () => Object.assign(state, {
+  news: null, score: null, procurement: null, keywordProfile: null, disclosures: null, calendar: [],
+  procurements: [], botSyncs: 0, syncedProfiles: [], alertThreshold: 70, scoringProfile: null,
+});
+`);
+const careUrl = modules.stub('care', `
+import { state } from '${stateUrl}';
+export const fetchCareTrackNews = async () => state.news ?? { articles: [], generatedAt: 0 };
+export const fetchCareOpportunityScore = async () => state.score ?? { trackCounts: {}, generatedAt: 0 };
+export const fetchCareProcurementListings = async () => state.procurement ?? { listings: [], generatedAt: 0 };
+export const fetchKeywordProfile = async () => state.keywordProfile;
+export const fetchCompetitorDisclosures = async () => state.disclosures ?? { configured: false, disclosures: [] };
+export const fetchPolicyCalendar = async () => state.calendar;
+`);
+const storesUrl = modules.stub('stores', `
+import { state } from '${stateUrl}';
+import { DEFAULT_KEYWORD_PROFILE } from '${fileUrl('src/services/keywordProfile.ts')}';
+import { DEFAULT_SCORING_PROFILE } from '${calculatorUrl}';
+export const useSettingsStore = {
+  getState: () => ({
+    alertThreshold: state.alertThreshold,
+    getKeywordProfile: () => DEFAULT_KEYWORD_PROFILE,
+    syncKeywordProfile: async (profile) => { state.syncedProfiles.push(profile); },
+  }),
+};
+export const useScoringProfileStore = { getState: () => ({ getActiveProfile: () => state.scoringProfile ?? DEFAULT_SCORING_PROFILE }) };
+export const useTrackingStore = { getState: () => ({}) };
+export const useCareReadinessStore = { getState: () => ({}) };
+export const useCareMapStore = { getState: () => ({}) };
+`);
+
+const { fetchTrackingSnapshot } = await modules.import('src/services/trackingFeed.ts', {
+  './rssFeed': 'src/services/rssFeed.ts',
+  './scoreCalculator': calculatorUrl,
+  './care': careUrl,
+  './procurementFeed': modules.stub('procurementFeed', `
+import { state } from '${stateUrl}';
+export const loadProcurements = async () => state.procurements;
+`),
+  './procurementTracker': modules.stub('procurementTracker', 'export const procurementKindLabel = (kind) => kind;\n'),
+  './dartApi': 'src/services/dartApi.ts',
+  './policyCalendar': modules.patch('src/services/policyCalendar.ts', {
+    '../config/policy-calendar': 'src/config/policy-calendar.ts',
+    '../config/ai-regulations': 'src/config/ai-regulations.ts',
+  }),
+  './relevance': modules.stub('relevance', "export const isLikelyIrrelevant = (text) => text.includes('광고');\n"),
+  './botInbox': modules.stub('botInbox', `
+import { state } from '${stateUrl}';
+export const syncBotActions = async () => { state.botSyncs++; return []; };
+`),
+  './notifications': modules.stub('notifications', 'export const notify = async () => {};\n'),
+  '../utils/storage': modules.stub('storage', 'export const storage = { get: (_k, fallback) => fallback, set: () => true };\n'),
+  '../stores/trackingStore': storesUrl,
+  '../stores/careReadinessStore': storesUrl,
+  '../stores/careMapStore': storesUrl,
+  '../stores/scoringProfileStore': storesUrl,
+  '../stores/settingsStore': storesUrl,
+});
+const { state, reset } = await import(stateUrl);
+
+const queryUrl = modules.stub('react-query', `
+export const query = { current: {} };
+export const useQuery = (options) => { query.options = options; return query.current; };
+`);
+const feedUrl = modules.stub('trackingFeed', `
+export const recorded = [];
+export const fetchTrackingSnapshot = async () => null;
+export const recordTrackingSnapshot = (snapshot) => recorded.push(snapshot);
+`);
+const { useTrackingFeed } = await modules.import('src/app/routes/tracking/hooks/useTrackingFeed.ts', {
+  react: modules.stub('react', 'export const useEffect = (effect) => { effect(); };\n'),
+  '@tanstack/react-query': queryUrl,
+  '../../../../services/trackingFeed': feedUrl,
+  '../../../../config/constants': 'src/config/constants.ts',
+});
+const { query } = await import(queryUrl);
+const { recorded } = await import(feedUrl);
+
+const HOUR = 60 * 60 * 1000;
+
+const article = (id, track, overrides = {}) => ({
+  id,
+  title: `돌봄 ${track} 기사 ${id}`,
+  link: `https://news.test/${id}`,
+  source: 'unknown',
+  publishedAt: Date.now() - HOUR,
+  description: '',
+  track,
+  keywordMatches: [{ keyword: '돌봄', category: 'care' }],
+  relevanceScore: 60,
+  verifiedScore: 70,
+  sourceCount: 1,
+  isVerified: false,
+  relatedSources: [],
+  ref: id,
+  ...overrides,
+});
+
+const serverScore = (generatedAt) => ({
+  score: { total: 42, s1: 40, s2: 40, s3: 40, shouldAlert: false, isHighPriority: false },
+  verification: { total: 3, verified: 1, multiSource: 1, singleSource: 2 },
+  trackCounts: {},
+  generatedAt,
+});
+
+const disclosure = (reportName) => ({
+  receiptNo: '20261016000001',
+  corpCode: '00830628',
+  corpName: '네오펙트',
+  reportName,
+  filedAt: new Date(Date.now() - HOUR).toISOString().slice(0, 10),
+  filer: '네오펙트',
+  filingType: 'capital_raise',
+  link: 'https://dart.fss.or.kr/1',
+});
+
+beforeEach(() => reset());
+
+describe('fetchTrackingSnapshot', () => {
+  it('fails when none of the snapshot RPCs answered', async () => {
+    state.calendar = [{ id: 'budget', date: '2026-11-01', kind: 'budget', title: '예산안 국회 제출' }];
+    await assert.rejects(fetchTrackingSnapshot(), /CareRadar 수집 서비스에 연결할 수 없습니다/);
+    assert.equal(state.botSyncs, 1, 'bot actions are still synced');
+  });
+
+  it('keeps the server score and its generation time when only the score answered', async () => {
+    const generatedAt = Date.now() - 2 * HOUR;
+    state.score = serverScore(generatedAt);
+
+    const snapshot = await fetchTrackingSnapshot();
+    assert.deepEqual(snapshot.score, state.score.score);
+    assert.deepEqual(snapshot.articles, []);
+    assert.equal(snapshot.fetchedAt, new Date(generatedAt).toISOString(), 'an old cached snapshot stays old');
+    assert.deepEqual(snapshot.verification, state.score.verification);
+  });
+
+  it('merges the news, disclosures and procurements and rescores them with the live profile', async () => {
+    const generatedAt = Date.now() - 5 * 60 * 1000;
+    state.news = {
+      articles: [article('p1', 'policy'), article('i1', 'investment'), article('ad', 'caretech', { title: '광고 돌봄 기사' })],
+      generatedAt,
+    };
+    state.score = serverScore(generatedAt);
+    state.procurement = { listings: [], generatedAt };
+    state.keywordProfile = { ...DEFAULT_KEYWORD_PROFILE, updatedAt: 5 };
+    state.disclosures = { configured: true, disclosures: [disclosure('주요사항보고서(유상증자결정)')] };
+    state.procurements = [{
+      id: 'g1', title: 'AI 돌봄 용역', organization: '보건복지부', kind: 'service', matchedKeywords: ['돌봄'],
+      estimatedPrice: 320_000_000, deadline: '2026-11-20T01:00:00.000Z', fitnessScore: 'high', fitnessReason: '돌봄 AI',
+      sourceUrl: '', status: 'open', source: 'nara', awardedTo: '', awardedPrice: 0, awardRatio: 0,
+    }];
+
+    const snapshot = await fetchTrackingSnapshot();
+
+    assert.deepEqual(state.syncedProfiles, [state.keywordProfile], 'the bot keyword profile reaches Settings');
+    assert.deepEqual(snapshot.articles.map((a) => a.id), ['p1', 'i1'], 'irrelevant articles are dropped');
+    assert.deepEqual(snapshot.trackCounts.map((t) => [t.key, t.count]), [['caretech', 0], ['investment', 1], ['competitor', 0], ['policy', 1]]);
+    assert.deepEqual(snapshot.procurements.map((p) => [p.id, p.budget, p.deadline]), [['g1', '3.2억원', '2026-11-20']]);
+    assert.equal(snapshot.dartConfigured, true);
+    assert.equal(snapshot.fetchedAt, new Date(generatedAt).toISOString());
+
+    // Rescored locally: the filing fills S3, which the server score did not carry
+    assert.notDeepEqual(snapshot.score, state.score.score);
+    assert.ok(snapshot.score.s3 > 0);
+    assert.ok(snapshot.score.s1 > 0 && snapshot.score.s2 > 0);
+
+    // An unsaved scoring profile edit shows up in the next snapshot
+    state.scoringProfile = { ...DEFAULT_SCORING_PROFILE, id: 'policy-only', weights: { policy: 1, investment: 0, competitor: 0 } };
+    const reweighted = await fetchTrackingSnapshot();
+    assert.equal(reweighted.score.total, reweighted.score.s1);
+
+    state.alertThreshold = 30;
+    assert.equal((await fetchTrackingSnapshot()).score.shouldAlert, true, 'the Settings alert threshold decides alerts');
+  });
+});
+
+describe('useTrackingFeed', () => {
+  const snapshotAt = (ageMs) => ({ articles: [{ id: 'a1' }], procurements: [], fetchedAt: new Date(Date.now() - ageMs).toISOString() });
+  const result = (overrides) => ({ data: undefined, dataUpdatedAt: Date.now(), isPending: false, isError: false, isFetching: false, error: null, refetch: () => {}, ...overrides });
+
+  beforeEach(() => { recorded.length = 0; });
+
+  it('loads, then records a fresh snapshot', () => {
+    query.current = result({ isPending: true, dataUpdatedAt: 0 });
+    assert.equal(useTrackingFeed().status, 'loading');
+
+    const snapshot = snapshotAt(5 * 60 * 1000);
+    query.current = result({ data: snapshot });
+    const feed = useTrackingFeed();
+    assert.equal(feed.status, 'fresh');
+    assert.deepEqual(feed.articles, snapshot.articles);
+    assert.deepEqual(recorded, [snapshot]);
+    assert.equal(query.options.retry, 1);
+  });
+
+  it('marks a snapshot generated over 30 minutes ago as stale, even when just received', () => {
+    const snapshot = snapshotAt(45 * 60 * 1000);
+    query.current = result({ data: snapshot, dataUpdatedAt: Date.now() });
+    const feed = useTrackingFeed();
+    assert.equal(feed.status, 'stale');
+    assert.equal(feed.lastUpdate.toISOString(), snapshot.fetchedAt);
+  });
+
+  it('reports errors and keeps the last snapshot on screen', () => {
+    query.current = result({ isError: true, dataUpdatedAt: 0, error: new Error('offline') });
+    assert.equal(useTrackingFeed().status, 'error');
+
+    const snapshot = snapshotAt(5 * 60 * 1000);
+    query.current = result({ data: snapshot, isError: true, error: new Error('offline') });
+    const feed = useTrackingFeed();
+    assert.equal(feed.status, 'error');
+    assert.deepEqual(feed.snapshot, snapshot);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createModuleDir } from './_helpers.mjs';
+
+const modules = createModuleDir('wm-weekly-review-');
+
+const recordsUrl = modules.patch('src/services/study/records.ts', {
+  '../dailyBriefSchedule': 'src/services/dailyBriefSchedule.ts',
+});
+const competencies = 'src/services/study/competencies.ts';
+const modelUrl = modules.patch('src/services/study/competencyModel.ts', {
+  './competencies': competencies,
+  './records': recordsUrl,
+  './types': 'src/services/study/types.ts',
+});
+const reviewUrl = modules.patch('src/services/study/weeklyReview.ts', {
+  '../../config/trackConfig': 'src/config/trackConfig.ts',
+  './competencies': competencies,
+  './competencyModel': modelUrl,
+  './records': recordsUrl,
+});
+
+const {
+  buildWeeklyDigest,
+  currentStreak,
+  draftWeeklyAnswers,
+  localBlindSpots,
+  weekBounds,
+  weeklyCounts,
+  weeklyReviewRequest,
+  weeklyReviewRow,
+} = await import(reviewUrl);
+
+// Saturday 2026-10-17 18:00 local; the week is Mon 10-12 … Sun 10-18
+const NOW = new Date(2026, 9, 17, 18);
+const at = (day, hour = 10) => new Date(2026, 9, day, hour).toISOString();
+
+const session = (id, type, day, insight = '', extra = {}) => ({
+  id, type, completedAt: at(day), data: { myAnswer: '', insight }, ...extra,
+});
+
+const INPUT = {
+  sessions: [
+    session('p1', 'pricing', 12, '성과 연동 과금이 조달 평가에 유리', { question: { title: '가격 설계: 우리아이들', prompt: '', context: [], answerGuide: '' } }),
+    session('p2', 'pricing', 12),
+    session('s1', 'sroi', 14, '교사 이직 감소가 가장 큰 편익'),
+    session('f1', 'financial', 17),
+    session('f0', 'financial', 9, '지난주 세션'),
+  ],
+  applications: {
+    'study-p1': { insightId: 'study-p1', sessionId: 'p1', applied: true, description: '요양센터 단가표 개편', appliedDate: '2026-10-15', outcome: '', usedIn: [], updatedAt: at(15) },
+  },
+  notes: [
+    { id: 'n1', type: 'article_memo', title: '바우처 단가 인상', content: '내년 바우처 단가 4% 인상', tags: [], sourceArticle: { title: '바우처', link: '', track: 'policy' }, createdAt: at(13) },
+    { id: 'n2', type: 'manual_note', title: '지난달 메모', content: 'old', tags: [], createdAt: at(1) },
+    { id: 'n3', type: 'study_insight', title: '세션 인사이트', content: 'x', tags: [], createdAt: at(13) },
+  ],
+  annotations: {
+    a1: { articleId: 'a1', memo: '', isBookmarked: true, rating: 0, article: { title: '케어테크 시리즈B 유치', track: 'investment' }, createdAt: at(13), updatedAt: at(13) },
+    a2: { articleId: 'a2', memo: '', isBookmarked: true, rating: 0, createdAt: at(14), updatedAt: at(14) },
+    a3: { articleId: 'a3', memo: '', isBookmarked: false, rating: 2, article: { title: '경쟁사 공시', track: 'competitor' }, createdAt: at(14), updatedAt: at(14) },
+  },
+  scoreHistory: [
+    { timestamp: at(11), total: 40, s1: 40, s2: 40, s3: 40 },
+    { timestamp: at(12), total: 52, s1: 50, s2: 55, s3: 51 },
+    { timestamp: at(16), total: 61, s1: 58, s2: 53, s3: 52 },
+  ],
+};
+
+describe('weekly review digest', () => {
+  it('bounds the week Monday to Sunday in local time', () => {
+    const { start, end } = weekBounds(new Date(2026, 9, 18, 23));
+    assert.deepEqual([start.getDate(), start.getHours(), end.getDate(), end.getHours()], [12, 0, 18, 23]);
+  });
+
+  it('counts weekday study days and financial/SROI sessions of this week only', () => {
+    // the Saturday financial session counts as a session but not as a routine day
+    assert.deepEqual(weeklyCounts(INPUT.sessions, NOW), { studiedDays: 2, financialMemos: 1, sroiCount: 1 });
+    assert.deepEqual(weeklyCounts(INPUT.sessions, new Date(2026, 9, 10, 12)), { studiedDays: 1, financialMemos: 1, sroiCount: 0 });
+  });
+
+  it('collects the week\'s activity, ignored tracks and competencies and the score trend', () => {
+    const digest = buildWeeklyDigest(INPUT, NOW);
+
+    assert.equal(digest.weekStart, '2026-10-12');
+    assert.equal(digest.weekEnd, '2026-10-18');
+    assert.deepEqual(digest.sessions.map((s) => s.kind), ['pricing', 'pricing', 'sroi', 'financial']);
+    assert.deepEqual(digest.sessions.map((s) => s.title), ['가격 설계: 우리아이들', '가격 설계', '임팩트', '재무 분석']);
+    assert.deepEqual(digest.memos.map((m) => m.title), ['바우처 단가 인상']);
+    assert.deepEqual(digest.bookmarks, [{ kind: 'investment', title: '케어테크 시리즈B 유치', detail: '' }]);
+    assert.deepEqual(digest.ignoredTracks, ['케어테크 뉴스', '경쟁사']);
+    assert.deepEqual(digest.ignoredCompetencies, ['정책/규제', '경쟁 분석']);
+    assert.equal(digest.scoreTrend, '52 → 61 (S1 +8, S2 -2, S3 +1)');
+    assert.deepEqual(digest.applied, ['요양센터 단가표 개편']);
+
+    const pricing = digest.competencies.find((c) => c.label === '가격 설계');
+    assert.equal(pricing.sessions, 2);
+    assert.ok(pricing.change > 0);
+    const policy = digest.competencies.find((c) => c.label === '정책/규제');
+    assert.deepEqual([policy.sessions, policy.change], [0, 0]);
+  });
+
+  it('drafts only the questions it has material for', () => {
+    const draft = draftWeeklyAnswers(buildWeeklyDigest(INPUT, NOW));
+    assert.match(draft.q1_market_signal, /케어테크 시리즈B 유치 \(투자\/펀딩\)/);
+    assert.match(draft.q1_market_signal, /Opportunity Score 52 → 61/);
+    assert.equal(draft.q2_pricing_insight, '· 가격 설계: 우리아이들: 성과 연동 과금이 조달 평가에 유리');
+    assert.match(draft.q3_sroi_discovery, /교사 이직 감소/);
+    assert.match(draft.q4_next_week_focus, /^정책\/규제, 경쟁 분석/);
+    assert.equal(draft.q5_applied_in_practice, '· 요양센터 단가표 개편');
+
+    const empty = draftWeeklyAnswers(buildWeeklyDigest({ ...INPUT, sessions: [], applications: {}, notes: [], annotations: {}, scoreHistory: [] }, NOW));
+    assert.deepEqual(Object.keys(empty), ['q4_next_week_focus']);
+  });
+
+  it('falls back to ignored competencies and tracks as blind spots and fills the AI columns', () => {
+    const digest = buildWeeklyDigest(INPUT, NOW);
+    const spots = localBlindSpots(digest);
+    assert.ok(spots.includes('정책/규제 — 이번 주 세션 없음'));
+    assert.ok(spots.includes('경쟁사 — 북마크·메모·학습 없음'));
+
+    const request = weeklyReviewRequest(digest, { q1_market_signal: '보조금', q4_next_week_focus: '정책' });
+    assert.deepEqual(request.answers, ['보조금', '', '', '정책', '']);
+    assert.deepEqual(request.ignored, [...digest.ignoredCompetencies, ...digest.ignoredTracks]);
+
+    const row = weeklyReviewRow(digest, { q1_market_signal: '보조금' }, { summary: '요약', blindSpots: spots.slice(0, 2), growthNote: '' }, 3);
+    assert.equal(row.week_start, '2026-10-12');
+    assert.equal(row.q2_pricing_insight, null);
+    assert.equal(row.ai_weekly_summary, '요약');
+    assert.equal(row.ai_blind_spots, spots.slice(0, 2).join('\n'));
+    assert.equal(row.ai_growth_note, null);
+    assert.equal(row.streak_days, 3);
+    assert.equal(row.total_memos, 1);
+  });
+
+  it('counts the current streak from today, or from yesterday before today\'s session', () => {
+    const days = [14, 15, 16].map((d, i) => session(`d${i}`, 'custom', d));
+    assert.equal(currentStreak(days, new Date(2026, 9, 16, 18)), 3);
+    assert.equal(currentStreak(days, new Date(2026, 9, 17, 9)), 3);
+    assert.equal(currentStreak(days, new Date(2026, 9, 18, 9)), 0);
+  });
+});
@@ -2,7 +2,6 @@ import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import { VitePWA } from 'vite-plugin-pwa';
 import { resolve, dirname, extname } from 'path';
-import { pathToFileURL } from 'url';
 import { mkdir, readFile, writeFile } from 'fs/promises';
 import { brotliCompress } from 'zlib';
 import { promisify } from 'util';
@@ -261,6 +260,7 @@ function sebufApiPlugin(): Plugin {
       newsServerMod, newsHandlerMod,
       intelligenceServerMod, intelligenceHandlerMod,
       militaryServerMod, militaryHandlerMod,
+      careServerMod, careHandlerMod,
     ] = await Promise.all([
         import('./server/router'),
         import('./server/cors'),
@@ -299,6 +299,8 @@ function sebufApiPlugin(): Plugin {
         import('./server/worldmonitor/intelligence/v1/handler'),
         import('./src/generated/server/worldmonitor/military/v1/service_server'),
         import('./server/worldmonitor/military/v1/handler'),
+        import('./src/generated/server/worldmonitor/care/v1/service_server'),
+        import('./server/worldmonitor/care/v1/handler'),
       ]);
 
     const serverOptions = { onError: errorMod.mapErrorToResponse };
@@ -320,6 +322,7 @@ function sebufApiPlugin(): Plugin {
       ...newsServerMod.createNewsServiceRoutes(newsHandlerMod.newsHandler, serverOptions),
       ...intelligenceServerMod.createIntelligenceServiceRoutes(intelligenceHandlerMod.intelligenceHandler, serverOptions),
       ...militaryServerMod.createMilitaryServiceRoutes(militaryHandlerMod.militaryHandler, serverOptions),
+      ...careServerMod.createCareServiceRoutes(careHandlerMod.careHandler, serverOptions),
     ];
     cachedCorsMod = corsMod;
     return routerMod.createRouter(allRoutes);
@@ -437,24 +440,24 @@ function sebufApiPlugin(): Plugin {
   };
 }
 
+type EdgeHandler = (req: Request) => Promise<Response>;
+
 /**
- * Vite dev에서 /api/rss-proxy 처리.
- * Vercel api/rss-proxy는 배포 시에만 동작하므로, dev에서는 동일 로직을 로컬에서 실행.
+ * Vite dev에서 Vercel Edge Function(api/*)을 로컬 실행 — 배포 시에만 동작하는 핸들러를 dev에서도 사용.
+ * /api/rss-proxy (RSS 프록시), /api/g2b (나라장터 프록시, G2B_API_KEY는 서버에만 존재)
+ * 모듈은 sebuf 라우터처럼 정적 import로 불러와 TypeScript 핸들러도 함께 번들됨
  */
-function rssProxyPlugin(): Plugin {
-  let handler: ((req: Request) => Promise<Response>) | null = null;
+function edgeFunctionPlugin(name: string, prefix: string, load: () => Promise<{ default: EdgeHandler }>): Plugin {
+  let handler: EdgeHandler | null = null;
 
   return {
-    name: 'rss-proxy',
+    name,
     configureServer(server) {
       server.middlewares.use(async (req, res, next) => {
-        if (!req.url?.startsWith('/api/rss-proxy')) return next();
+        if (!req.url?.startsWith(prefix)) return next();
 
         try {
-          if (!handler) {
-            const mod = await import(pathToFileURL(resolve(__dirname, 'api/rss-proxy.js')).href);
-            handler = mod.default;
-          }
+          if (!handler) handler = (await load()).default;
           const port = server.config.server.port || 3000;
           const url = new URL(req.url, `http://localhost:${port}`);
           const headers: Record<string, string> = {};
@@ -468,7 +471,7 @@ function rssProxyPlugin(): Plugin {
           response.headers.forEach((v, k) => res.setHeader(k, v));
           res.end(await response.text());
         } catch (e) {
-          console.error('[rss-proxy]', e);
+          console.error(`[${name}]`, e);
           res.statusCode = 500;
           res.setHeader('Content-Type', 'application/json');
           res.end(JSON.stringify({ error: String((e as Error).message) }));
@@ -552,7 +555,8 @@ export default defineConfig({
     react(),
     htmlVariantPlugin(),
     polymarketPlugin(),
-    rssProxyPlugin(),
+    edgeFunctionPlugin('rss-proxy', '/api/rss-proxy', () => import('./api/rss-proxy.js')),
+    edgeFunctionPlugin('g2b-proxy', '/api/g2b', () => import('./api/g2b/[[...path]]')),
     youtubeLivePlugin(),
     sebufApiPlugin(),
     brotliPrecompressPlugin(),